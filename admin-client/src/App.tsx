@@ -14,6 +14,10 @@ import Whitelist from "./pages/Whitelist";
 import PromoCodes from "./pages/PromoCodes";
 import Security from "./pages/Security";
 import Deletions from "./pages/Deletions";
+import DeployOrders from "./pages/DeployOrders";
+import Hypervisors from "./pages/Hypervisors";
+import IsoLibrary from "./pages/IsoLibrary";
+import IpAddons from "./pages/IpAddons";
 import Activity from "./pages/Activity";
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
@@ -63,6 +67,10 @@ function AppRoutes() {
         <Route path="users" element={<Users />} />
         <Route path="servers" element={<Servers />} />
         <Route path="servers/provision" element={<ProvisionServer />} />
+        <Route path="servers/deploy-orders" element={<DeployOrders />} />
+        <Route path="servers/hypervisors" element={<Hypervisors />} />
+        <Route path="servers/isos" element={<IsoLibrary />} />
+        <Route path="servers/ip-addons" element={<IpAddons />} />
         <Route path="billing" element={<Billing />} />
         <Route path="tickets" element={<Tickets />} />
         <Route path="health" element={<Health />} />
@@ -28,7 +28,13 @@ const navItems = [
     path: "/servers",
     icon: Server,
     label: "Servers",
-    children: [{ path: "/servers/provision", label: "Provision Server" }],
+    children: [
+      { path: "/servers/provision", label: "Provision Server" },
+      { path: "/servers/deploy-orders", label: "Stuck Deploys" },
+      { path: "/servers/hypervisors", label: "Hypervisors" },
+      { path: "/servers/isos", label: "ISO Library" },
+      { path: "/servers/ip-addons", label: "IP Add-ons" },
+    ],
   },
   { path: "/billing", icon: CreditCard, label: "Billing" },
   { path: "/promo-codes", icon: Tag, label: "Promo Codes" },
@@ -45,6 +51,10 @@ const pageTitles: Record<string, string> = {
   "/users": "Users",
   "/servers": "Servers",
   "/servers/provision": "Provision Server",
+  "/servers/deploy-orders": "Stuck Deploys",
+  "/servers/hypervisors": "Hypervisors",
+  "/servers/isos": "ISO Library",
+  "/servers/ip-addons": "IP Add-ons",
   "/billing": "Billing",
   "/promo-codes": "Promo Codes",
   "/deletions": "Pending Deletions",
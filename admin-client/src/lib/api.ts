@@ -205,16 +205,15 @@ export const serversApi = {
 
   revokeCancellation: (id: number) => api.post(`/cancellations/${id}/revoke`),
 
-  getLocations: () => api.get<{
-    locations: Array<{
-      code: string;
-      name: string;
-      country: string;
-      countryCode: string;
-      hypervisorGroupId: number;
-      enabled: boolean;
-    }>;
-  }>("/locations"),
+  getLocations: () => api.get<{ locations: AdminLocation[] }>("/locations"),
+
+  createLocation: (data: LocationInput) =>
+    api.post<{ location: AdminLocation }>("/locations", data),
+
+  updateLocation: (id: number, data: Partial<Omit<LocationInput, "code">>) =>
+    api.patch<{ location: AdminLocation }>(`/locations/${id}`, data),
+
+  deleteLocation: (id: number) => api.delete(`/locations/${id}`),
 
   provision: (data: {
     auth0UserId: string;
@@ -250,8 +249,106 @@ export const serversApi = {
       monthlyPriceCents,
       nextBillingDate,
     }),
+
+  listStuckDeployOrders: () => api.get<{ orders: StuckDeployOrder[] }>("/deploy-orders/stuck"),
+
+  resumeDeployOrder: (orderId: number) =>
+    api.post<{ success: boolean; order: StuckDeployOrder }>(`/deploy-orders/${orderId}/resume`),
 };
 
+export type LocationStatus = "enabled" | "coming_soon" | "hidden";
+
+export interface AdminLocation {
+  id: number;
+  code: string;
+  name: string;
+  country: string;
+  countryCode: string;
+  hypervisorGroupId: number;
+  status: LocationStatus;
+  soldOut: boolean;
+  planIds: number[] | null;
+  sortOrder: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LocationInput {
+  code: string;
+  name: string;
+  country: string;
+  countryCode: string;
+  hypervisorGroupId: number;
+  status: LocationStatus;
+  soldOut: boolean;
+  planIds: number[] | null;
+  sortOrder: number;
+}
+
+export interface StuckDeployOrder {
+  id: number;
+  auth0UserId: string;
+  planId: number;
+  hostname: string | null;
+  priceCents: number;
+  status: string;
+  step: "create_user" | "create_server" | "build" | "create_billing" | "done";
+  stepLabel: string;
+  attempts: number;
+  nextAttemptAt: string | null;
+  virtfusionServerId: number | null;
+  errorMessage: string | null;
+  refundedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  user: { email: string | null; name: string | null } | null;
+  planName: string | null;
+}
+
+export interface BillingTermSettings {
+  quarterlyDiscountPercent: number;
+  annualDiscountPercent: number;
+}
+
+export type RefundMethod = "card" | "wallet";
+
+export interface CreditNote {
+  id: number;
+  creditNoteNumber: string;
+  invoiceId: number;
+  amountCents: number;
+  subtotalCents: number;
+  taxCents: number;
+  method: RefundMethod;
+  status: "pending" | "issued" | "failed";
+  stripeRefundId: string | null;
+  reason: string;
+  issuedBy: string;
+  createdAt: string;
+}
+
+export interface AdminInvoice {
+  id: number;
+  auth0UserId: string;
+  invoiceNumber: string;
+  amountCents: number;
+  description: string;
+  status: string;
+  customerEmail: string;
+  customerName: string | null;
+  createdAt: string;
+  refundedCents: number;
+  creditNotes: CreditNote[];
+}
+
+export interface CardPayment {
+  paymentIntentId: string;
+  amountCents: number;
+  createdAt: string;
+  cardBrand: string | null;
+  cardLast4: string | null;
+}
+
 // Billing API
 export const billingApi = {
   listRecords: (limit = 50, offset = 0, status?: string) => {
@@ -297,6 +394,25 @@ export const billingApi = {
       dueToday: number;
     };
   }>("/billing/stats"),
+
+  getTermSettings: () => api.get<{ settings: BillingTermSettings }>("/billing/terms"),
+
+  updateTermSettings: (settings: BillingTermSettings) =>
+    api.put<{ settings: BillingTermSettings }>("/billing/terms", settings),
+
+  listInvoices: (search?: string, limit = 50) => {
+    let url = `/billing/invoices?limit=${limit}`;
+    if (search) url += `&search=${encodeURIComponent(search)}`;
+    return api.get<{ invoices: AdminInvoice[] }>(url);
+  },
+
+  getCardPayments: (invoiceId: number) =>
+    api.get<{ payments: CardPayment[] }>(`/billing/invoices/${invoiceId}/card-payments`),
+
+  refundInvoice: (invoiceId: number, data: { amountCents: number; method: RefundMethod; paymentIntentId?: string; reason: string }) =>
+    api.post<{ success: boolean; invoice: AdminInvoice; creditNote: CreditNote }>(`/billing/invoices/${invoiceId}/refund`, data),
+
+  creditNotePdfUrl: (creditNoteId: number) => `/api/billing/credit-notes/${creditNoteId}/pdf`,
 };
 
 // Tickets API
@@ -419,13 +535,41 @@ export const plansApi = {
   list: () => api.get<{ plans: any[] }>("/plans"),
   getTemplates: (planId: number) => api.get<{ templates: any[] }>(`/plans/${planId}/templates`),
   syncFromVirtFusion: () => api.post<{ success: boolean; synced: number; created: number; updated: number }>("/plans/sync"),
+  update: (planId: number, data: { snapshotLimit: number }) => api.patch<{ plan: any }>(`/plans/${planId}`, data),
 };
 
+export interface HypervisorDrain {
+  id: number;
+  hypervisorId: number;
+  reason: string | null;
+  drainedBy: string;
+  createdAt: string;
+}
+
+export interface HypervisorPlacement {
+  id: number;
+  name: string;
+  group: { id: number; name: string } | null;
+  enabled: boolean;
+  maintenance: boolean;
+  maxServers: number;
+  cpuCores: number | null;
+  ramTotalMb: number | null;
+  diskTotalGb: number | null;
+  allocated: { servers: number; vcpu: number; ramMb: number; diskGb: number; ownerIds: number[] };
+  drain: HypervisorDrain | null;
+}
+
 // VirtFusion API
 export const virtfusionApi = {
   getHypervisors: () => api.get<{ hypervisors: any[] }>("/vf/hypervisors"),
   getHypervisor: (id: number) => api.get<{ hypervisor: any }>(`/vf/hypervisors/${id}`),
   getHypervisorGroups: () => api.get<{ groups: any[] }>("/vf/hypervisor-groups"),
+  getHypervisorPlacement: () =>
+    api.get<{ maxVcpuRatio: number; hypervisors: HypervisorPlacement[] }>("/vf/hypervisors/placement"),
+  drainHypervisor: (id: number, reason?: string) =>
+    api.post<{ drain: HypervisorDrain }>(`/vf/hypervisors/${id}/drain`, { reason }),
+  undrainHypervisor: (id: number) => api.delete(`/vf/hypervisors/${id}/drain`),
   getIpBlocks: () => api.get<{ ipBlocks: any[] }>("/vf/ip-blocks"),
   getIpAllocations: () => api.get<{ allocations: any[] }>("/vf/ip-allocations"),
   listUsers: (page = 1, perPage = 50) =>
@@ -437,6 +581,80 @@ export const virtfusionApi = {
   getStats: () => api.get<{ stats: any }>("/vf/stats"),
 };
 
+// IP add-ons
+export interface IpAddonSettings {
+  ipv4PriceCents: number;
+  ipv6PriceCents: number;
+  ipv4BlockId: number | null;
+  ipv6BlockId: number | null;
+  maxIpv4PerServer: number;
+}
+
+export interface AdminIpBlock {
+  id: number;
+  name: string;
+  type: "ipv4" | "ipv6";
+  subnet: string;
+  totalAddresses: number;
+  usedAddresses: number;
+  available: number;
+}
+
+export interface AdminServerAddon {
+  id: number;
+  auth0UserId: string;
+  ownerEmail: string | null;
+  virtfusionServerId: string;
+  type: "ipv4" | "ipv6";
+  address: string | null;
+  virtfusionIpBlockId: number;
+  monthlyPriceCents: number;
+  createdAt: string;
+}
+
+export const ipAddonsApi = {
+  list: () =>
+    api.get<{ settings: IpAddonSettings; ipBlocks: AdminIpBlock[]; addons: AdminServerAddon[] }>("/ip-addons"),
+  updateSettings: (settings: IpAddonSettings) =>
+    api.put<{ settings: IpAddonSettings }>("/ip-addons/settings", settings),
+};
+
+// ISO library types
+export type IsoImageStatus = "pending" | "approved" | "rejected";
+
+export interface AdminIsoImage {
+  id: number;
+  name: string;
+  description: string | null;
+  url: string;
+  auth0UserId: string | null;
+  submitterEmail: string | null;
+  status: IsoImageStatus;
+  enabled: boolean;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  rejectionReason: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface IsoImageInput {
+  name: string;
+  description?: string | null;
+  url: string;
+  enabled?: boolean;
+}
+
+// ISO library API
+export const isosApi = {
+  list: () => api.get<{ library: AdminIsoImage[]; submissions: AdminIsoImage[] }>("/isos"),
+  create: (data: IsoImageInput) => api.post<{ iso: AdminIsoImage }>("/isos", data),
+  update: (id: number, data: Partial<IsoImageInput>) => api.patch<{ iso: AdminIsoImage }>(`/isos/${id}`, data),
+  review: (id: number, status: "approved" | "rejected", rejectionReason?: string) =>
+    api.post<{ iso: AdminIsoImage }>(`/isos/${id}/review`, { status, rejectionReason }),
+  delete: (id: number) => api.delete(`/isos/${id}`),
+};
+
 // Promo Codes types
 export interface PromoCode {
   id: number;
@@ -1,8 +1,8 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { billingApi, serversApi } from "../lib/api";
+import { billingApi, serversApi, type AdminInvoice, type BillingTermSettings, type RefundMethod } from "../lib/api";
 import { toast } from "sonner";
-import { CreditCard, RefreshCw, Play, Pause, DollarSign, Calendar, Gift, X, Trash2, Clock, Loader2, AlertTriangle } from "lucide-react";
+import { CreditCard, RefreshCw, Play, Pause, DollarSign, Calendar, Gift, X, Trash2, Clock, Loader2, AlertTriangle, Save, Search, Undo2, FileText } from "lucide-react";
 import { ConfirmDialog } from "../components/ui/confirm-dialog";
 import { AdminPageHeader } from "../components/ui/admin-surfaces";
 
@@ -538,6 +538,12 @@ export default function Billing() {
                             Free
                           </span>
                         ) : null}
+                        {selectedRecord.billing.termMonths > 1 ? (
+                          <span className="rounded-full border border-white/10 bg-white/5 px-2 py-0.5 text-[10px] uppercase tracking-[0.14em] text-white/45">
+                            {selectedRecord.billing.termMonths}-month term
+                            {selectedRecord.billing.termDiscountPercent > 0 ? ` · ${selectedRecord.billing.termDiscountPercent}% off` : ""}
+                          </span>
+                        ) : null}
                       </div>
                     </div>
                     <div className="rounded-xl border border-white/8 bg-black/10 p-3">
@@ -646,9 +652,13 @@ export default function Billing() {
               </div>
             )}
           </div>
+
+          <PrepayDiscountsCard />
         </div>
       </div>
 
+      <InvoiceRefundsSection />
+
       {/* Cleanup Confirm Dialog */}
       <ConfirmDialog
         open={showCleanupConfirm}
@@ -789,3 +799,343 @@ export default function Billing() {
     </div>
   );
 }
+
+const TERM_DISCOUNT_FIELDS = [
+  { key: "quarterlyDiscountPercent", label: "Quarterly (3 months)" },
+  { key: "annualDiscountPercent", label: "Annual (12 months)" },
+] as const;
+
+// Discounts for paying 3 or 12 months up front. Changes only apply to new deploys.
+function PrepayDiscountsCard() {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<BillingTermSettings | null>(null);
+
+  const { data } = useQuery({
+    queryKey: ["billing-term-settings"],
+    queryFn: billingApi.getTermSettings,
+  });
+
+  useEffect(() => {
+    if (data && !form) setForm(data.settings);
+  }, [data, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: (settings: BillingTermSettings) => billingApi.updateTermSettings(settings),
+    onSuccess: ({ settings }) => {
+      toast.success("Prepay discounts saved");
+      setForm(settings);
+      queryClient.invalidateQueries({ queryKey: ["billing-term-settings"] });
+    },
+    onError: (err: any) => toast.error(err.message || "Failed to save prepay discounts"),
+  });
+
+  return (
+    <div className="rounded-2xl border border-white/8 bg-[linear-gradient(180deg,rgba(15,23,42,0.96)_0%,rgba(9,14,24,0.98)_100%)] p-5 shadow-[0_18px_48px_rgba(0,0,0,0.2)]">
+      <p className="text-[11px] font-medium uppercase tracking-[0.18em] text-[hsl(210_100%_65%)]">
+        Prepaid terms
+      </p>
+      <h3 className="mt-2 text-base font-semibold text-white">Prepay discounts</h3>
+      <p className="mt-2 text-sm leading-6 text-white/35">
+        Off the plan price when a customer pays for a longer term at deploy. Existing servers keep the discount they were bought with.
+      </p>
+
+      {!form ? (
+        <div className="mt-4 text-sm text-white/50">Loading...</div>
+      ) : (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate(form);
+          }}
+          className="mt-4 space-y-3"
+        >
+          {TERM_DISCOUNT_FIELDS.map(({ key, label }) => (
+            <div key={key}>
+              <label className="block text-sm font-medium text-white/60 mb-1">{label} discount (%)</label>
+              <input
+                type="number"
+                min="0"
+                max="50"
+                step="1"
+                value={form[key]}
+                onChange={(e) => setForm({ ...form, [key]: parseInt(e.target.value, 10) || 0 })}
+                className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:ring-2 focus:ring-[hsl(210_100%_50%)/40] outline-none text-sm"
+              />
+            </div>
+          ))}
+          <button
+            type="submit"
+            disabled={saveMutation.isPending}
+            className="flex w-full items-center justify-center gap-2 rounded-xl bg-[hsl(210_100%_50%)] px-4 py-2.5 text-sm font-medium text-white transition-colors hover:bg-[hsl(210_100%_45%)] disabled:opacity-50"
+          >
+            <Save className="h-4 w-4" />
+            {saveMutation.isPending ? "Saving..." : "Save discounts"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+const formatAud = (cents: number) =>
+  new Intl.NumberFormat("en-AU", { style: "currency", currency: "AUD" }).format(cents / 100);
+
+const INVOICE_STATUS_STYLES: Record<string, { label: string; className: string }> = {
+  paid: { label: "Paid", className: "bg-[hsl(160_84%_39%)/20] text-[hsl(160_84%_60%)] border border-[hsl(160_84%_39%)/30]" },
+  partially_refunded: { label: "Partially refunded", className: "bg-[hsl(14_100%_60%)/20] text-[hsl(14_100%_70%)] border border-[hsl(14_100%_60%)/30]" },
+  void: { label: "Refunded", className: "bg-white/10 text-white/50 border border-white/10" },
+};
+
+// Invoices and the credit notes issued against them. Refunds go back to the card or the wallet.
+function InvoiceRefundsSection() {
+  const [search, setSearch] = useState("");
+  const [refunding, setRefunding] = useState<AdminInvoice | null>(null);
+  const query = search.trim().length >= 2 ? search.trim() : "";
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["billing-invoices", query],
+    queryFn: () => billingApi.listInvoices(query || undefined),
+  });
+
+  const invoices = data?.invoices ?? [];
+
+  return (
+    <div className="mt-6 rounded-2xl border border-white/8 bg-[linear-gradient(180deg,rgba(15,23,42,0.96)_0%,rgba(9,14,24,0.98)_100%)] overflow-hidden shadow-[0_18px_48px_rgba(0,0,0,0.2)]">
+      <div className="border-b border-white/8 px-5 py-4">
+        <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+          <div>
+            <p className="text-[11px] font-medium uppercase tracking-[0.18em] text-[hsl(210_100%_65%)]">
+              Invoices
+            </p>
+            <h2 className="mt-2 text-lg font-semibold text-white">Refunds and credit notes</h2>
+            <p className="mt-1 text-sm text-white/40">
+              Refund an invoice to the customer's card or wallet. Each refund issues a credit note against the invoice.
+            </p>
+          </div>
+          <div className="relative min-w-[280px]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-white/30" />
+            <input
+              type="text"
+              placeholder="Invoice number, email or user ID..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-full pl-9 pr-3 py-2.5 bg-white/5 border border-white/10 rounded-xl focus:ring-2 focus:ring-[hsl(210_100%_50%)/35] outline-none text-white text-sm placeholder-white/25 transition-colors"
+            />
+          </div>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <RefreshCw className="h-8 w-8 animate-spin text-white/40" />
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-white/5">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-white/40">Invoice</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-white/40">Customer</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-white/40">Amount</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-white/40">Status</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-white/40">Credit notes</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {invoices.map((invoice) => {
+                const status = INVOICE_STATUS_STYLES[invoice.status] ?? { label: invoice.status, className: "bg-white/10 text-white/50 border border-white/10" };
+                return (
+                  <tr key={invoice.id}>
+                    <td className="px-4 py-3">
+                      <p className="font-mono text-sm text-white">{invoice.invoiceNumber}</p>
+                      <p className="mt-1 max-w-[280px] truncate text-xs text-white/35" title={invoice.description}>
+                        {new Date(invoice.createdAt).toLocaleDateString("en-AU", { dateStyle: "medium" })} · {invoice.description}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-white">{invoice.customerName || invoice.customerEmail.split("@")[0]}</p>
+                      <p className="mt-1 text-sm text-white/45">{invoice.customerEmail}</p>
+                    </td>
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-white">{formatAud(invoice.amountCents)}</p>
+                      {invoice.refundedCents > 0 && (
+                        <p className="mt-1 text-xs text-white/40">{formatAud(invoice.refundedCents)} refunded</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-1 text-xs rounded-lg ${status.className}`}>{status.label}</span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="space-y-1">
+                        {invoice.creditNotes.map((note) => (
+                          <a
+                            key={note.id}
+                            href={billingApi.creditNotePdfUrl(note.id)}
+                            target="_blank"
+                            rel="noreferrer"
+                            title={note.reason}
+                            className="flex items-center gap-1.5 text-xs text-[hsl(210_100%_70%)] hover:underline"
+                          >
+                            <FileText className="h-3 w-3" />
+                            {note.creditNoteNumber} · {formatAud(note.amountCents)} to {note.method}
+                          </a>
+                        ))}
+                        {invoice.creditNotes.length === 0 && <span className="text-xs text-white/25">None</span>}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {invoice.status !== "void" && (
+                        <button
+                          onClick={() => setRefunding(invoice)}
+                          className="inline-flex items-center gap-1.5 rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white/70 transition-colors hover:bg-white/10 hover:text-white"
+                        >
+                          <Undo2 className="h-3.5 w-3.5" />
+                          Refund
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+              {invoices.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-10 text-center text-white/40">
+                    No invoices found.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {refunding && <RefundInvoiceModal invoice={refunding} onClose={() => setRefunding(null)} />}
+    </div>
+  );
+}
+
+function RefundInvoiceModal({ invoice, onClose }: { invoice: AdminInvoice; onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const remainingCents = invoice.amountCents - invoice.refundedCents;
+
+  const [amount, setAmount] = useState((remainingCents / 100).toFixed(2));
+  const [method, setMethod] = useState<RefundMethod>("wallet");
+  const [paymentIntentId, setPaymentIntentId] = useState("");
+  const [reason, setReason] = useState("");
+
+  const { data: payments, isLoading: loadingPayments } = useQuery({
+    queryKey: ["billing-card-payments", invoice.id],
+    queryFn: () => billingApi.getCardPayments(invoice.id),
+    enabled: method === "card",
+  });
+
+  const amountCents = Math.round(parseFloat(amount) * 100);
+  const canSubmit =
+    Number.isFinite(amountCents) &&
+    amountCents > 0 &&
+    amountCents <= remainingCents &&
+    reason.trim().length > 0 &&
+    (method === "wallet" || !!paymentIntentId);
+
+  const refundMutation = useMutation({
+    mutationFn: () =>
+      billingApi.refundInvoice(invoice.id, {
+        amountCents,
+        method,
+        paymentIntentId: method === "card" ? paymentIntentId : undefined,
+        reason: reason.trim(),
+      }),
+    onSuccess: ({ creditNote }) => {
+      toast.success(`Refunded ${formatAud(creditNote.amountCents)} to ${creditNote.method} - credit note ${creditNote.creditNoteNumber}`);
+      queryClient.invalidateQueries({ queryKey: ["billing-invoices"] });
+      onClose();
+    },
+    onError: (err: any) => toast.error(err.message || "Failed to refund invoice"),
+  });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-[hsl(215_21%_11%)] border border-white/10 rounded-xl shadow-2xl p-6 w-full max-w-md mx-4">
+        <h3 className="text-lg font-semibold text-white mb-2">Refund {invoice.invoiceNumber}</h3>
+        <p className="text-sm text-white/50 mb-4">
+          {formatAud(remainingCents)} of {formatAud(invoice.amountCents)} left to refund for {invoice.customerEmail}.
+        </p>
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-white/60 mb-1">Amount (AUD, incl. GST)</label>
+            <input
+              type="number"
+              min="0.01"
+              step="0.01"
+              max={(remainingCents / 100).toFixed(2)}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:ring-2 focus:ring-[hsl(210_100%_50%)/40] outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/60 mb-1">Refund to</label>
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as RefundMethod)}
+              className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:ring-2 focus:ring-[hsl(210_100%_50%)/40] outline-none"
+            >
+              <option value="wallet">Customer's wallet</option>
+              <option value="card">Card (Stripe refund)</option>
+            </select>
+          </div>
+          {method === "card" && (
+            <div>
+              <label className="block text-sm font-medium text-white/60 mb-1">Card payment</label>
+              <select
+                value={paymentIntentId}
+                onChange={(e) => setPaymentIntentId(e.target.value)}
+                disabled={loadingPayments}
+                className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:ring-2 focus:ring-[hsl(210_100%_50%)/40] outline-none"
+              >
+                <option value="">{loadingPayments ? "Loading top-ups..." : "Choose a card top-up"}</option>
+                {payments?.payments.map((payment) => (
+                  <option key={payment.paymentIntentId} value={payment.paymentIntentId}>
+                    {new Date(payment.createdAt).toLocaleDateString("en-AU", { dateStyle: "medium" })} · {formatAud(payment.amountCents)}
+                    {payment.cardLast4 ? ` · ${payment.cardBrand ?? "Card"} ****${payment.cardLast4}` : ""}
+                  </option>
+                ))}
+              </select>
+              {payments && payments.payments.length === 0 && (
+                <p className="mt-1 text-xs text-[hsl(14_100%_70%)]">This customer has no card top-ups to refund to.</p>
+              )}
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-white/60 mb-1">Reason</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              maxLength={500}
+              placeholder="Recorded with the credit note and in the audit log"
+              className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:ring-2 focus:ring-[hsl(210_100%_50%)/40] outline-none text-sm placeholder-white/25"
+            />
+          </div>
+        </div>
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-white/60 hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => refundMutation.mutate()}
+            disabled={!canSubmit || refundMutation.isPending}
+            className="flex items-center gap-2 px-4 py-2 bg-[hsl(0_84%_60%)] text-white rounded-lg hover:bg-[hsl(0_84%_55%)] transition-colors disabled:opacity-50"
+          >
+            {refundMutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+            {refundMutation.isPending ? "Refunding..." : `Refund ${Number.isFinite(amountCents) && amountCents > 0 ? formatAud(amountCents) : ""}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
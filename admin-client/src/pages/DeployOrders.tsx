@@ -0,0 +1,113 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { serversApi, type StuckDeployOrder } from '../lib/api';
+import { useState } from 'react';
+import { CheckCircle, Clock, PlayCircle, Server, User } from 'lucide-react';
+import { toast } from 'sonner';
+import { ConfirmDialog } from '../components/ui/confirm-dialog';
+
+export default function DeployOrders() {
+  const queryClient = useQueryClient();
+  const [resumeOrder, setResumeOrder] = useState<StuckDeployOrder | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['stuck-deploy-orders'],
+    queryFn: () => serversApi.listStuckDeployOrders(),
+    refetchInterval: 30000,
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: (orderId: number) => serversApi.resumeDeployOrder(orderId),
+    onSuccess: ({ success, order }) => {
+      if (success) {
+        toast.success(`Order #${order.id} provisioned as server ${order.virtfusionServerId}`);
+      } else {
+        toast.error(order.errorMessage || `Order #${order.id} is still ${order.status}`);
+      }
+      queryClient.invalidateQueries({ queryKey: ['stuck-deploy-orders'] });
+      setResumeOrder(null);
+    },
+    onError: (err: any) => toast.error(err.message || 'Failed to resume order'),
+  });
+
+  const orders = data?.orders || [];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Stuck Deploys</h1>
+          <p className="text-white/50 text-sm mt-1">Orders that ran out of retries or have been provisioning for over an hour</p>
+        </div>
+        <span className="px-3 py-1 bg-orange-500/20 text-orange-400 border border-orange-500/30 rounded-full text-sm font-medium">
+          {orders.length} stuck
+        </span>
+      </div>
+
+      {isLoading ? (
+        <div className="text-white/50 text-center py-12">Loading...</div>
+      ) : orders.length === 0 ? (
+        <div className="bg-[hsl(216_28%_7%)] border border-white/8 rounded-xl p-12 text-center">
+          <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-3" />
+          <p className="text-white font-medium">No stuck deploys</p>
+          <p className="text-white/40 text-sm mt-1">Every order has finished or is retrying on schedule</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {orders.map((order) => (
+            <div key={order.id} className="bg-[hsl(216_28%_7%)] border border-orange-500/20 rounded-xl p-5">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex items-start gap-3 min-w-0">
+                  <div className="p-2 bg-orange-500/10 rounded-lg mt-0.5">
+                    <Server className="h-5 w-5 text-orange-400" />
+                  </div>
+                  <div className="min-w-0">
+                    <p className="font-semibold text-white">{order.hostname || `Order #${order.id}`}</p>
+                    <p className="text-white/50 text-sm">
+                      Order #{order.id} · {order.planName || `Plan ${order.planId}`} · ${(order.priceCents / 100).toFixed(2)}
+                      {order.virtfusionServerId && ` · Server ${order.virtfusionServerId}`}
+                    </p>
+                    <p className="text-white/70 text-sm mt-1">
+                      Stopped at: {order.stepLabel} ({order.attempts} failed {order.attempts === 1 ? 'attempt' : 'attempts'})
+                    </p>
+                    {order.errorMessage && (
+                      <p className="text-red-400/80 text-sm mt-1 break-words">{order.errorMessage}</p>
+                    )}
+                    <div className="flex flex-wrap items-center gap-4 mt-2 text-white/40 text-xs">
+                      <span className="flex items-center gap-1.5">
+                        <User className="h-3 w-3" />
+                        {order.user?.email || order.auth0UserId}
+                      </span>
+                      <span className="flex items-center gap-1.5">
+                        <Clock className="h-3 w-3" />
+                        Ordered: {new Date(order.createdAt).toLocaleString()}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+                <button
+                  onClick={() => setResumeOrder(order)}
+                  className="flex items-center gap-2 px-4 py-2 bg-blue-500/10 border border-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/20 transition-colors text-sm font-medium flex-shrink-0"
+                >
+                  <PlayCircle className="h-4 w-4" />
+                  Resume
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={!!resumeOrder}
+        onOpenChange={(o) => !o && setResumeOrder(null)}
+        title="Resume Deploy Order"
+        description={resumeOrder
+          ? `Provisioning restarts at "${resumeOrder.stepLabel}" with a fresh set of retries. If it still can't finish, the order is failed and the customer refunded automatically.`
+          : ''}
+        confirmText="Resume Order"
+        onConfirm={() => resumeOrder && resumeMutation.mutate(resumeOrder.id)}
+        isPending={resumeMutation.isPending}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { virtfusionApi, type HypervisorPlacement } from '../lib/api';
+import { useState } from 'react';
+import { Cpu, HardDrive, MemoryStick, PauseCircle, PlayCircle, Server } from 'lucide-react';
+import { toast } from 'sonner';
+import { ConfirmDialog } from '../components/ui/confirm-dialog';
+import { PromptDialog } from '../components/ui/prompt-dialog';
+
+function usage(used: number, total: number | null, unit: string) {
+  if (!total) return `${used} ${unit} allocated`;
+  return `${used} / ${total} ${unit} (${Math.round((used / total) * 100)}%)`;
+}
+
+export default function Hypervisors() {
+  const queryClient = useQueryClient();
+  const [drainTarget, setDrainTarget] = useState<HypervisorPlacement | null>(null);
+  const [undrainTarget, setUndrainTarget] = useState<HypervisorPlacement | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['hypervisor-placement'],
+    queryFn: () => virtfusionApi.getHypervisorPlacement(),
+    refetchInterval: 60000,
+  });
+
+  const drainMutation = useMutation({
+    mutationFn: ({ id, reason }: { id: number; reason: string }) => virtfusionApi.drainHypervisor(id, reason),
+    onSuccess: () => {
+      toast.success('Hypervisor drained - new deployments will skip it');
+      queryClient.invalidateQueries({ queryKey: ['hypervisor-placement'] });
+      setDrainTarget(null);
+    },
+    onError: (err: any) => toast.error(err.message || 'Failed to drain hypervisor'),
+  });
+
+  const undrainMutation = useMutation({
+    mutationFn: (id: number) => virtfusionApi.undrainHypervisor(id),
+    onSuccess: () => {
+      toast.success('Hypervisor is back in placement');
+      queryClient.invalidateQueries({ queryKey: ['hypervisor-placement'] });
+      setUndrainTarget(null);
+    },
+    onError: (err: any) => toast.error(err.message || 'Failed to undrain hypervisor'),
+  });
+
+  const hypervisors = data?.hypervisors || [];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Hypervisors</h1>
+          <p className="text-white/50 text-sm mt-1">
+            Allocated resources per hypervisor. New deployments go to the one with the most room, up to {data?.maxVcpuRatio ?? '-'}:1 vCPU overcommit.
+          </p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="text-white/50 text-center py-12">Loading...</div>
+      ) : hypervisors.length === 0 ? (
+        <div className="bg-[hsl(216_28%_7%)] border border-white/8 rounded-xl p-12 text-center">
+          <Server className="h-12 w-12 text-white/30 mx-auto mb-3" />
+          <p className="text-white font-medium">No hypervisors reported</p>
+          <p className="text-white/40 text-sm mt-1">VirtFusion didn't return any hypervisors</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {hypervisors.map((hypervisor) => (
+            <div
+              key={hypervisor.id}
+              className={`bg-[hsl(216_28%_7%)] border rounded-xl p-5 ${hypervisor.drain ? 'border-orange-500/20' : 'border-white/8'}`}
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-semibold text-white">{hypervisor.name}</p>
+                    {hypervisor.drain && (
+                      <span className="px-2 py-0.5 text-xs rounded-full bg-orange-500/15 text-orange-400">Drained</span>
+                    )}
+                    {(!hypervisor.enabled || hypervisor.maintenance) && (
+                      <span className="px-2 py-0.5 text-xs rounded-full bg-white/10 text-white/50">
+                        {hypervisor.maintenance ? 'Maintenance' : 'Disabled'}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-white/50 text-sm">
+                    #{hypervisor.id} · {hypervisor.group?.name || 'No group'} · {hypervisor.allocated.servers} / {hypervisor.maxServers} servers
+                  </p>
+                  <div className="flex flex-wrap items-center gap-4 mt-2 text-white/60 text-xs">
+                    <span className="flex items-center gap-1.5">
+                      <Cpu className="h-3 w-3" />
+                      {hypervisor.cpuCores
+                        ? `${hypervisor.allocated.vcpu} vCPU on ${hypervisor.cpuCores} cores (${(hypervisor.allocated.vcpu / hypervisor.cpuCores).toFixed(1)}:1)`
+                        : `${hypervisor.allocated.vcpu} vCPU allocated`}
+                    </span>
+                    <span className="flex items-center gap-1.5">
+                      <MemoryStick className="h-3 w-3" />
+                      {usage(hypervisor.allocated.ramMb, hypervisor.ramTotalMb, 'MB')}
+                    </span>
+                    <span className="flex items-center gap-1.5">
+                      <HardDrive className="h-3 w-3" />
+                      {usage(hypervisor.allocated.diskGb, hypervisor.diskTotalGb, 'GB')}
+                    </span>
+                  </div>
+                  {hypervisor.drain && (
+                    <p className="text-orange-400/80 text-sm mt-2">
+                      Drained by {hypervisor.drain.drainedBy} on {new Date(hypervisor.drain.createdAt).toLocaleString()}
+                      {hypervisor.drain.reason && `: ${hypervisor.drain.reason}`}
+                    </p>
+                  )}
+                </div>
+                {hypervisor.drain ? (
+                  <button
+                    onClick={() => setUndrainTarget(hypervisor)}
+                    className="flex items-center gap-2 px-4 py-2 bg-green-500/10 border border-green-500/20 text-green-400 rounded-lg hover:bg-green-500/20 transition-colors text-sm font-medium flex-shrink-0"
+                  >
+                    <PlayCircle className="h-4 w-4" />
+                    Undrain
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => setDrainTarget(hypervisor)}
+                    className="flex items-center gap-2 px-4 py-2 bg-orange-500/10 border border-orange-500/20 text-orange-400 rounded-lg hover:bg-orange-500/20 transition-colors text-sm font-medium flex-shrink-0"
+                  >
+                    <PauseCircle className="h-4 w-4" />
+                    Drain
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <PromptDialog
+        open={!!drainTarget}
+        onOpenChange={(o) => !o && setDrainTarget(null)}
+        title="Drain Hypervisor"
+        description={drainTarget
+          ? `New deployments will skip ${drainTarget.name}. Servers already on it are not affected.`
+          : ''}
+        label="Reason"
+        placeholder="e.g. Hardware replacement"
+        confirmText="Drain"
+        onConfirm={(reason) => drainTarget && drainMutation.mutate({ id: drainTarget.id, reason })}
+        isPending={drainMutation.isPending}
+      />
+
+      <ConfirmDialog
+        open={!!undrainTarget}
+        onOpenChange={(o) => !o && setUndrainTarget(null)}
+        title="Undrain Hypervisor"
+        description={undrainTarget ? `${undrainTarget.name} will be considered for new deployments again.` : ''}
+        confirmText="Undrain"
+        onConfirm={() => undrainTarget && undrainMutation.mutate(undrainTarget.id)}
+        isPending={undrainMutation.isPending}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ipAddonsApi, type AdminIpBlock, type IpAddonSettings } from '../lib/api';
+import { useEffect, useState } from 'react';
+import { Network, Save } from 'lucide-react';
+import { toast } from 'sonner';
+
+const formatCurrency = (cents: number) =>
+  new Intl.NumberFormat('en-AU', { style: 'currency', currency: 'AUD' }).format(cents / 100);
+
+const inputClass = "w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:ring-2 focus:ring-[hsl(210_100%_50%)/40] outline-none placeholder-white/30 text-sm";
+const labelClass = "block text-sm font-medium text-white/60 mb-1";
+
+// Prices are edited as dollar strings so partial input like "2." isn't reformatted mid-typing
+type SettingsForm = Omit<IpAddonSettings, 'ipv4PriceCents' | 'ipv6PriceCents'> & { ipv4Price: string; ipv6Price: string };
+
+function toForm(settings: IpAddonSettings): SettingsForm {
+  const { ipv4PriceCents, ipv6PriceCents, ...rest } = settings;
+  return { ...rest, ipv4Price: (ipv4PriceCents / 100).toFixed(2), ipv6Price: (ipv6PriceCents / 100).toFixed(2) };
+}
+
+function fromForm(form: SettingsForm): IpAddonSettings {
+  const { ipv4Price, ipv6Price, ...rest } = form;
+  return {
+    ...rest,
+    ipv4PriceCents: Math.round((parseFloat(ipv4Price) || 0) * 100),
+    ipv6PriceCents: Math.round((parseFloat(ipv6Price) || 0) * 100),
+  };
+}
+
+function blockLabel(block: AdminIpBlock) {
+  return `${block.name} (${block.subnet || `#${block.id}`}) - ${block.available} free`;
+}
+
+export default function IpAddons() {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<SettingsForm | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['ip-addons'],
+    queryFn: () => ipAddonsApi.list(),
+  });
+
+  useEffect(() => {
+    if (data && !form) setForm(toForm(data.settings));
+  }, [data, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: (settings: IpAddonSettings) => ipAddonsApi.updateSettings(settings),
+    onSuccess: ({ settings }) => {
+      toast.success('IP add-on settings saved');
+      setForm(toForm(settings));
+      queryClient.invalidateQueries({ queryKey: ['ip-addons'] });
+    },
+    onError: (err: any) => toast.error(err.message || 'Failed to save settings'),
+  });
+
+  const ipBlocks = data?.ipBlocks || [];
+  const addons = data?.addons || [];
+  const monthlyRevenue = addons.reduce((sum, addon) => sum + addon.monthlyPriceCents, 0);
+
+  const setBlock = (key: 'ipv4BlockId' | 'ipv6BlockId', value: string) =>
+    form && setForm({ ...form, [key]: value ? Number(value) : null });
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">IP Add-ons</h1>
+          <p className="text-white/50 text-sm mt-1">
+            Extra IPv4 addresses and IPv6 prefixes customers can buy per server. They renew with the server each month.
+          </p>
+        </div>
+      </div>
+
+      {isLoading || !form ? (
+        <div className="text-white/50 text-center py-12">Loading...</div>
+      ) : (
+        <div className="space-y-6">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate(fromForm(form));
+            }}
+            className="bg-[hsl(216_28%_7%)] border border-white/8 rounded-xl p-5 space-y-4"
+          >
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {(['ipv4', 'ipv6'] as const).map((type) => {
+                const priceKey = type === 'ipv4' ? 'ipv4Price' : 'ipv6Price';
+                const blockKey = type === 'ipv4' ? 'ipv4BlockId' : 'ipv6BlockId';
+                return (
+                  <div key={type} className="space-y-3">
+                    <p className="font-semibold text-white">{type === 'ipv4' ? 'Additional IPv4 address' : 'IPv6 /56 prefix'}</p>
+                    <div>
+                      <label className={labelClass}>Monthly price (AUD)</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={form[priceKey]}
+                        onChange={(e) => setForm({ ...form, [priceKey]: e.target.value })}
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <label className={labelClass}>Allocate from block</label>
+                      <select
+                        value={form[blockKey] ?? ''}
+                        onChange={(e) => setBlock(blockKey, e.target.value)}
+                        className={inputClass}
+                      >
+                        <option value="">Not for sale</option>
+                        {ipBlocks.filter((block) => block.type === type).map((block) => (
+                          <option key={block.id} value={block.id}>{blockLabel(block)}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="max-w-xs">
+              <label className={labelClass}>Max additional IPv4 per server</label>
+              <input
+                type="number"
+                min="0"
+                max="64"
+                value={form.maxIpv4PerServer}
+                onChange={(e) => setForm({ ...form, maxIpv4PerServer: parseInt(e.target.value, 10) || 0 })}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-white/40">Price changes apply to new purchases. Existing add-ons keep their price.</p>
+              <button
+                type="submit"
+                disabled={saveMutation.isPending}
+                className="flex items-center gap-2 px-4 py-2 bg-[hsl(210_100%_50%)] text-white rounded-lg hover:bg-[hsl(210_100%_45%)] transition-colors text-sm font-medium disabled:opacity-50"
+              >
+                <Save className="h-4 w-4" />
+                {saveMutation.isPending ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </form>
+
+          <div className="bg-[hsl(216_28%_7%)] border border-white/8 rounded-xl overflow-hidden">
+            <div className="flex items-center justify-between px-5 py-4 border-b border-white/8">
+              <p className="font-semibold text-white">Active add-ons</p>
+              <p className="text-white/50 text-sm">{addons.length} active · {formatCurrency(monthlyRevenue)}/mo</p>
+            </div>
+            {addons.length === 0 ? (
+              <div className="p-12 text-center">
+                <Network className="h-12 w-12 text-white/30 mx-auto mb-3" />
+                <p className="text-white font-medium">No add-ons sold yet</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-white/5">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium uppercase text-white/40">Address</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium uppercase text-white/40">Server</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium uppercase text-white/40">Customer</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium uppercase text-white/40">Price</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium uppercase text-white/40">Since</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/5">
+                    {addons.map((addon) => (
+                      <tr key={addon.id}>
+                        <td className="px-4 py-3">
+                          <p className="font-mono text-sm text-white">{addon.address || 'Pending'}</p>
+                          <p className="text-xs text-white/40">{addon.type === 'ipv4' ? 'IPv4' : 'IPv6'} · block #{addon.virtfusionIpBlockId}</p>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-white/70">VF-{addon.virtfusionServerId}</td>
+                        <td className="px-4 py-3 text-sm text-white/70">{addon.ownerEmail || addon.auth0UserId}</td>
+                        <td className="px-4 py-3 text-sm text-white">{formatCurrency(addon.monthlyPriceCents)}</td>
+                        <td className="px-4 py-3 text-sm text-white/50">{new Date(addon.createdAt).toLocaleDateString()}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
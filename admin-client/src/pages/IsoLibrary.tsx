@@ -0,0 +1,361 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { isosApi, type AdminIsoImage, type IsoImageInput } from '../lib/api';
+import { useState } from 'react';
+import { CheckCircle, Clock, Disc, Pencil, Plus, Trash2, User, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { ConfirmDialog } from '../components/ui/confirm-dialog';
+import { PromptDialog } from '../components/ui/prompt-dialog';
+
+const statusBadge: Record<AdminIsoImage['status'], string> = {
+  pending: 'bg-orange-500/15 text-orange-400',
+  approved: 'bg-green-500/15 text-green-400',
+  rejected: 'bg-red-500/15 text-red-400',
+};
+
+export default function IsoLibrary() {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<AdminIsoImage | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<AdminIsoImage | null>(null);
+  const [approveTarget, setApproveTarget] = useState<AdminIsoImage | null>(null);
+  const [rejectTarget, setRejectTarget] = useState<AdminIsoImage | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['isos'],
+    queryFn: () => isosApi.list(),
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['isos'] });
+
+  const createMutation = useMutation({
+    mutationFn: (input: IsoImageInput) => isosApi.create(input),
+    onSuccess: () => {
+      toast.success('ISO added to the library');
+      invalidate();
+      setShowCreate(false);
+    },
+    onError: (err: any) => toast.error(err.message || 'Failed to add ISO'),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, input }: { id: number; input: Partial<IsoImageInput> }) => isosApi.update(id, input),
+    onSuccess: () => {
+      toast.success('ISO updated');
+      invalidate();
+      setEditing(null);
+    },
+    onError: (err: any) => toast.error(err.message || 'Failed to update ISO'),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ id, status, reason }: { id: number; status: 'approved' | 'rejected'; reason?: string }) =>
+      isosApi.review(id, status, reason),
+    onSuccess: ({ iso }) => {
+      toast.success(iso.status === 'approved' ? 'ISO approved - the customer can mount it now' : 'ISO rejected');
+      invalidate();
+      setApproveTarget(null);
+      setRejectTarget(null);
+    },
+    onError: (err: any) => toast.error(err.message || 'Failed to review ISO'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => isosApi.delete(id),
+    onSuccess: () => {
+      toast.success('ISO deleted');
+      invalidate();
+      setDeleteTarget(null);
+    },
+    onError: (err: any) => toast.error(err.message || 'Failed to delete ISO'),
+  });
+
+  const library = data?.library || [];
+  const submissions = data?.submissions || [];
+  const pendingCount = submissions.filter((iso) => iso.status === 'pending').length;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">ISO Library</h1>
+          <p className="text-white/50 text-sm mt-1">Images customers can mount, and URLs they've asked to use</p>
+        </div>
+        <button
+          onClick={() => setShowCreate(true)}
+          className="flex items-center gap-2 px-4 py-2 bg-[hsl(210_100%_50%)] text-white rounded-lg hover:bg-[hsl(210_100%_45%)] transition-colors text-sm font-medium"
+        >
+          <Plus className="h-4 w-4" />
+          Add ISO
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="text-white/50 text-center py-12">Loading...</div>
+      ) : (
+        <div className="space-y-8">
+          <section>
+            <div className="flex items-center gap-2 mb-3">
+              <h2 className="text-lg font-semibold text-white">Submitted URLs</h2>
+              {pendingCount > 0 && (
+                <span className="px-2 py-0.5 text-xs rounded-full bg-orange-500/15 text-orange-400">{pendingCount} pending</span>
+              )}
+            </div>
+            {submissions.length === 0 ? (
+              <div className="bg-[hsl(216_28%_7%)] border border-white/8 rounded-xl p-8 text-center text-white/40 text-sm">
+                No customer submissions
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {submissions.map((iso) => (
+                  <div key={iso.id} className="bg-[hsl(216_28%_7%)] border border-white/8 rounded-xl p-5">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="font-semibold text-white">{iso.name}</p>
+                          <span className={`px-2 py-0.5 text-xs rounded-full ${statusBadge[iso.status]}`}>{iso.status}</span>
+                        </div>
+                        <p className="text-white/50 text-sm font-mono break-all mt-1">{iso.url}</p>
+                        {iso.rejectionReason && (
+                          <p className="text-red-400/80 text-sm mt-1">Rejected: {iso.rejectionReason}</p>
+                        )}
+                        <div className="flex flex-wrap items-center gap-4 mt-2 text-white/40 text-xs">
+                          <span className="flex items-center gap-1.5">
+                            <User className="h-3 w-3" />
+                            {iso.submitterEmail || iso.auth0UserId}
+                          </span>
+                          <span className="flex items-center gap-1.5">
+                            <Clock className="h-3 w-3" />
+                            Submitted: {new Date(iso.createdAt).toLocaleString()}
+                          </span>
+                          {iso.reviewedBy && <span>Reviewed by {iso.reviewedBy}</span>}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        {iso.status !== 'approved' && (
+                          <button
+                            onClick={() => setApproveTarget(iso)}
+                            className="flex items-center gap-2 px-3 py-2 bg-green-500/10 border border-green-500/20 text-green-400 rounded-lg hover:bg-green-500/20 transition-colors text-sm font-medium"
+                          >
+                            <CheckCircle className="h-4 w-4" />
+                            Approve
+                          </button>
+                        )}
+                        {iso.status !== 'rejected' && (
+                          <button
+                            onClick={() => setRejectTarget(iso)}
+                            className="flex items-center gap-2 px-3 py-2 bg-red-500/10 border border-red-500/20 text-red-400 rounded-lg hover:bg-red-500/20 transition-colors text-sm font-medium"
+                          >
+                            <XCircle className="h-4 w-4" />
+                            Reject
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section>
+            <h2 className="text-lg font-semibold text-white mb-3">Library</h2>
+            {library.length === 0 ? (
+              <div className="bg-[hsl(216_28%_7%)] border border-white/8 rounded-xl p-12 text-center">
+                <Disc className="h-12 w-12 text-white/30 mx-auto mb-3" />
+                <p className="text-white font-medium">No library ISOs</p>
+                <p className="text-white/40 text-sm mt-1">Add installers and rescue images customers can mount</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {library.map((iso) => (
+                  <div key={iso.id} className="bg-[hsl(216_28%_7%)] border border-white/8 rounded-xl p-5">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="font-semibold text-white">{iso.name}</p>
+                          {!iso.enabled && (
+                            <span className="px-2 py-0.5 text-xs rounded-full bg-white/10 text-white/50">Disabled</span>
+                          )}
+                        </div>
+                        {iso.description && <p className="text-white/60 text-sm mt-1">{iso.description}</p>}
+                        <p className="text-white/40 text-xs font-mono break-all mt-1">{iso.url}</p>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <button
+                          onClick={() => setEditing(iso)}
+                          className="p-2 text-white/50 hover:text-white hover:bg-white/5 rounded-lg transition-colors"
+                          title="Edit"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => setDeleteTarget(iso)}
+                          className="p-2 text-red-400/70 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors"
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        </div>
+      )}
+
+      {(showCreate || editing) && (
+        <IsoFormModal
+          iso={editing || undefined}
+          onClose={() => {
+            setShowCreate(false);
+            setEditing(null);
+          }}
+          onSubmit={(input) => editing
+            ? updateMutation.mutate({ id: editing.id, input })
+            : createMutation.mutate(input)}
+          isLoading={createMutation.isPending || updateMutation.isPending}
+        />
+      )}
+
+      <ConfirmDialog
+        open={!!approveTarget}
+        onOpenChange={(o) => !o && setApproveTarget(null)}
+        title="Approve ISO URL"
+        description={approveTarget
+          ? `${approveTarget.submitterEmail || 'The customer'} will be able to mount ${approveTarget.url} on their servers. Only approve images from sources you trust.`
+          : ''}
+        confirmText="Approve"
+        onConfirm={() => approveTarget && reviewMutation.mutate({ id: approveTarget.id, status: 'approved' })}
+        isPending={reviewMutation.isPending}
+      />
+
+      <PromptDialog
+        open={!!rejectTarget}
+        onOpenChange={(o) => !o && setRejectTarget(null)}
+        title="Reject ISO URL"
+        description={rejectTarget ? `The customer will see this reason next to ${rejectTarget.name}.` : ''}
+        label="Reason"
+        placeholder="e.g. Source is not an official mirror"
+        confirmText="Reject"
+        onConfirm={(reason) => rejectTarget && reviewMutation.mutate({ id: rejectTarget.id, status: 'rejected', reason })}
+        isPending={reviewMutation.isPending}
+      />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onOpenChange={(o) => !o && setDeleteTarget(null)}
+        title="Delete ISO"
+        description={deleteTarget ? `${deleteTarget.name} will be removed from the library.` : ''}
+        confirmText="Delete"
+        variant="destructive"
+        onConfirm={() => deleteTarget && deleteMutation.mutate(deleteTarget.id)}
+        isPending={deleteMutation.isPending}
+      />
+    </div>
+  );
+}
+
+function IsoFormModal({
+  iso,
+  onClose,
+  onSubmit,
+  isLoading,
+}: {
+  iso?: AdminIsoImage;
+  onClose: () => void;
+  onSubmit: (data: IsoImageInput) => void;
+  isLoading: boolean;
+}) {
+  const [name, setName] = useState(iso?.name || '');
+  const [description, setDescription] = useState(iso?.description || '');
+  const [url, setUrl] = useState(iso?.url || '');
+  const [enabled, setEnabled] = useState(iso?.enabled ?? true);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({ name, description: description || null, url, enabled });
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:ring-2 focus:ring-[hsl(210_100%_50%)/40] outline-none placeholder-white/30 text-sm";
+  const labelClass = "block text-sm font-medium text-white/60 mb-1";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-[hsl(215_21%_11%)] border border-white/10 rounded-xl shadow-2xl p-6 w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg font-semibold text-white mb-4">
+          {iso ? 'Edit ISO' : 'Add ISO'}
+        </h3>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className={labelClass}>Name *</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Debian 12 netinst"
+              className={inputClass}
+              required
+              maxLength={100}
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>Description</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className={inputClass}
+              maxLength={500}
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>URL *</label>
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://mirror.example.com/debian-12.iso"
+              className={`${inputClass} font-mono`}
+              required
+            />
+            <p className="text-xs text-white/40 mt-1">Public http(s) link to an .iso file. The hypervisor downloads it on mount.</p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="isoEnabled"
+              checked={enabled}
+              onChange={(e) => setEnabled(e.target.checked)}
+              className="rounded"
+            />
+            <label htmlFor="isoEnabled" className="text-sm text-white/70">
+              Enabled (customers can mount it)
+            </label>
+          </div>
+
+          <div className="flex justify-end gap-3 mt-6 pt-4 border-t border-white/8">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-white/60 hover:text-white transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="px-4 py-2 bg-[hsl(210_100%_50%)] text-white rounded-lg hover:bg-[hsl(210_100%_45%)] transition-colors disabled:opacity-50"
+            >
+              {isLoading ? 'Saving...' : iso ? 'Update' : 'Create'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -471,15 +471,18 @@ export default function ProvisionServer() {
             </div>
 
             <div className="grid grid-cols-2 gap-3">
-              {locationsData?.locations?.map((location: any) => (
+              {locationsData?.locations?.map((location) => {
+                // Admins can place servers in sold out or hidden locations, but not ones that aren't live yet
+                const selectable = location.status !== "coming_soon";
+                return (
                 <button
                   key={location.code}
-                  onClick={() => location.enabled && setSelectedLocation(location.code)}
-                  disabled={!location.enabled}
+                  onClick={() => selectable && setSelectedLocation(location.code)}
+                  disabled={!selectable}
                   className={`p-4 rounded-lg border-2 transition-all text-left ${
                     selectedLocation === location.code
                       ? "border-[var(--color-primary)] bg-[var(--color-primary)]/10"
-                      : location.enabled
+                      : selectable
                       ? "border-gray-200 dark:border-gray-700 hover:border-[var(--color-primary)]/50"
                       : "border-gray-200 dark:border-gray-700 opacity-50 cursor-not-allowed"
                   }`}
@@ -495,11 +498,18 @@ export default function ProvisionServer() {
                       <div className="text-xs text-gray-400">{location.country}</div>
                     </div>
                   </div>
-                  {!location.enabled && (
+                  {location.status === "coming_soon" && (
                     <span className="text-xs text-yellow-500 mt-2 block">Coming Soon</span>
                   )}
+                  {location.status === "hidden" && (
+                    <span className="text-xs text-gray-400 mt-2 block">Hidden from customers</span>
+                  )}
+                  {location.status !== "coming_soon" && location.soldOut && (
+                    <span className="text-xs text-orange-400 mt-2 block">Sold out to customers</span>
+                  )}
                 </button>
-              ))}
+                );
+              })}
             </div>
           </div>
         </div>
@@ -1,8 +1,8 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { serversApi } from "../lib/api";
+import { serversApi, plansApi, type AdminLocation, type LocationInput, type LocationStatus } from "../lib/api";
 import { toast } from "sonner";
-import { Server, Search, Power, Play, Square, RefreshCw, Trash2, AlertTriangle, Globe, User, CreditCard, HardDrive, Cpu, MemoryStick, HardDriveIcon, Plus, Download, X, Loader2, Clock, DollarSign } from "lucide-react";
+import { Server, Search, Power, Play, Square, RefreshCw, Trash2, AlertTriangle, Globe, User, CreditCard, HardDrive, Cpu, MemoryStick, HardDriveIcon, Plus, Download, X, Loader2, Clock, DollarSign, MapPin, Edit2 } from "lucide-react";
 import { Link } from "react-router-dom";
 import { virtfusionApi } from "../lib/api";
 import { ConfirmDialog } from "../components/ui/confirm-dialog";
@@ -23,6 +23,7 @@ export default function Servers() {
   const [showSuspendDialog, setShowSuspendDialog] = useState(false);
   const [showEndTrialDialog, setShowEndTrialDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showLocationsModal, setShowLocationsModal] = useState(false);
 
   const queryClient = useQueryClient();
 
@@ -180,13 +181,22 @@ export default function Servers() {
         title="Servers"
         description="Search the fleet, inspect server health, and run operational actions without losing context."
         actions={
-          <Link
-            to="/servers/provision"
-            className="flex items-center gap-2 rounded-xl bg-[hsl(210_100%_50%)] px-4 py-2 text-white transition-colors hover:bg-[hsl(210_100%_45%)]"
-          >
-            <Plus className="h-5 w-5" />
-            Provision Server
-          </Link>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setShowLocationsModal(true)}
+              className="flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-4 py-2 text-white/80 transition-colors hover:bg-white/10"
+            >
+              <MapPin className="h-5 w-5" />
+              Locations
+            </button>
+            <Link
+              to="/servers/provision"
+              className="flex items-center gap-2 rounded-xl bg-[hsl(210_100%_50%)] px-4 py-2 text-white transition-colors hover:bg-[hsl(210_100%_45%)]"
+            >
+              <Plus className="h-5 w-5" />
+              Provision Server
+            </Link>
+          </div>
         }
       />
 
@@ -888,6 +898,399 @@ export default function Servers() {
           </div>
         </div>
       )}
+
+      {showLocationsModal && <LocationsModal onClose={() => setShowLocationsModal(false)} />}
+    </div>
+  );
+}
+
+const LOCATION_STATUS_LABELS: Record<LocationStatus, string> = {
+  enabled: "Enabled",
+  coming_soon: "Coming Soon",
+  hidden: "Hidden",
+};
+
+// Datacenter locations customers can deploy to
+function LocationsModal({ onClose }: { onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const [editingLocation, setEditingLocation] = useState<AdminLocation | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<AdminLocation | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["locations"],
+    queryFn: () => serversApi.getLocations(),
+  });
+
+  const { data: plansData } = useQuery({
+    queryKey: ["plans"],
+    queryFn: () => plansApi.list(),
+  });
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingLocation(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (input: LocationInput) => {
+      if (editingLocation) {
+        const { code: _code, ...updates } = input;
+        return serversApi.updateLocation(editingLocation.id, updates);
+      }
+      return serversApi.createLocation(input);
+    },
+    onSuccess: () => {
+      toast.success(editingLocation ? "Location updated" : "Location created");
+      queryClient.invalidateQueries({ queryKey: ["locations"] });
+      closeForm();
+    },
+    onError: (err: any) => toast.error(err.message || "Failed to save location"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => serversApi.deleteLocation(id),
+    onSuccess: () => {
+      toast.success("Location deleted");
+      queryClient.invalidateQueries({ queryKey: ["locations"] });
+      setPendingDelete(null);
+    },
+    onError: (err: any) => {
+      toast.error(err.message || "Failed to delete location");
+      setPendingDelete(null);
+    },
+  });
+
+  const plans: any[] = plansData?.plans || [];
+  const locations = data?.locations || [];
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-[hsl(215_21%_11%)] border border-white/10 rounded-xl shadow-2xl max-w-2xl w-full mx-4 max-h-[85vh] overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-white/8">
+          <h2 className="text-lg font-semibold text-white">Locations</h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => {
+                setEditingLocation(null);
+                setShowForm(true);
+              }}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-[hsl(210_100%_50%)] text-white rounded-lg hover:bg-[hsl(210_100%_45%)] transition-colors text-sm"
+            >
+              <Plus className="h-4 w-4" />
+              Add Location
+            </button>
+            <button onClick={onClose} className="p-1 text-white/40 hover:text-white transition-colors">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 overflow-y-auto max-h-[70vh] space-y-3">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-white/40" />
+            </div>
+          ) : locations.length === 0 ? (
+            <p className="text-center text-white/40 py-8">No locations yet</p>
+          ) : (
+            locations.map((location) => (
+              <div key={location.id} className="flex items-center justify-between gap-4 p-3 bg-white/5 border border-white/8 rounded-lg">
+                <div className="flex items-center gap-3 min-w-0">
+                  <img
+                    src={`https://flagcdn.com/w40/${location.countryCode.toLowerCase()}.png`}
+                    alt={location.country}
+                    className="w-8 h-6 object-cover rounded flex-shrink-0"
+                  />
+                  <div className="min-w-0">
+                    <p className="font-medium text-white">
+                      {location.name} <span className="font-mono text-white/40 text-sm">{location.code}</span>
+                    </p>
+                    <p className="text-xs text-white/40">
+                      Hypervisor group {location.hypervisorGroupId} ·{" "}
+                      {location.planIds ? `${location.planIds.length} ${location.planIds.length === 1 ? "plan" : "plans"}` : "All plans"}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {location.soldOut && (
+                    <span className="px-2 py-0.5 text-xs rounded-full bg-orange-500/15 text-orange-400">Sold Out</span>
+                  )}
+                  <span className={`px-2 py-0.5 text-xs rounded-full ${
+                    location.status === "enabled"
+                      ? "bg-[hsl(160_84%_39%)/15] text-[hsl(160_84%_60%)]"
+                      : location.status === "coming_soon"
+                      ? "bg-yellow-500/15 text-yellow-400"
+                      : "bg-white/10 text-white/50"
+                  }`}>
+                    {LOCATION_STATUS_LABELS[location.status]}
+                  </span>
+                  <button
+                    onClick={() => {
+                      setEditingLocation(location);
+                      setShowForm(true);
+                    }}
+                    className="p-1.5 text-[hsl(210_100%_60%)] hover:bg-[hsl(210_100%_50%)/10] rounded-lg transition-colors"
+                    title="Edit"
+                  >
+                    <Edit2 className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => setPendingDelete(location)}
+                    className="p-1.5 text-[hsl(0_84%_70%)] hover:bg-[hsl(0_84%_60%)/10] rounded-lg transition-colors"
+                    title="Delete"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      {showForm && (
+        <LocationFormModal
+          location={editingLocation ?? undefined}
+          plans={plans}
+          onClose={closeForm}
+          onSubmit={(input) => saveMutation.mutate(input)}
+          isLoading={saveMutation.isPending}
+        />
+      )}
+
+      <ConfirmDialog
+        open={!!pendingDelete}
+        onOpenChange={(open) => !open && setPendingDelete(null)}
+        title="Delete Location"
+        description={pendingDelete
+          ? `Delete ${pendingDelete.name} (${pendingDelete.code})? Locations that already have servers can only be hidden.`
+          : ""}
+        confirmText="Delete Location"
+        variant="destructive"
+        onConfirm={() => pendingDelete && deleteMutation.mutate(pendingDelete.id)}
+        isPending={deleteMutation.isPending}
+      />
+    </div>
+  );
+}
+
+function LocationFormModal({
+  location,
+  plans,
+  onClose,
+  onSubmit,
+  isLoading,
+}: {
+  location?: AdminLocation;
+  plans: any[];
+  onClose: () => void;
+  onSubmit: (data: LocationInput) => void;
+  isLoading: boolean;
+}) {
+  const [code, setCode] = useState(location?.code || "");
+  const [name, setName] = useState(location?.name || "");
+  const [country, setCountry] = useState(location?.country || "");
+  const [countryCode, setCountryCode] = useState(location?.countryCode || "");
+  const [hypervisorGroupId, setHypervisorGroupId] = useState(location?.hypervisorGroupId?.toString() || "");
+  const [status, setStatus] = useState<LocationStatus>(location?.status || "enabled");
+  const [soldOut, setSoldOut] = useState(location?.soldOut ?? false);
+  const [sortOrder, setSortOrder] = useState(location?.sortOrder?.toString() || "0");
+  const [allPlans, setAllPlans] = useState(!location?.planIds);
+  const [planIds, setPlanIds] = useState<number[]>(location?.planIds || []);
+
+  const togglePlan = (planId: number) => {
+    setPlanIds((current) => current.includes(planId) ? current.filter((id) => id !== planId) : [...current, planId]);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!allPlans && planIds.length === 0) {
+      toast.error("Select at least one plan, or offer all plans");
+      return;
+    }
+
+    onSubmit({
+      code: code.toUpperCase(),
+      name,
+      country,
+      countryCode: countryCode.toUpperCase(),
+      hypervisorGroupId: parseInt(hypervisorGroupId, 10),
+      status,
+      soldOut,
+      planIds: allPlans ? null : planIds,
+      sortOrder: parseInt(sortOrder, 10) || 0,
+    });
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:ring-2 focus:ring-[hsl(210_100%_50%)/40] outline-none placeholder-white/30 text-sm disabled:opacity-50";
+  const labelClass = "block text-sm font-medium text-white/60 mb-1";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-[hsl(215_21%_11%)] border border-white/10 rounded-xl shadow-2xl p-6 w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg font-semibold text-white mb-4">
+          {location ? "Edit Location" : "Add Location"}
+        </h3>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Code *</label>
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                disabled={!!location}
+                placeholder="e.g., MEL"
+                className={`${inputClass} font-mono`}
+                required
+                minLength={2}
+                maxLength={8}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Name *</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Melbourne"
+                className={inputClass}
+                required
+              />
+            </div>
+          </div>
+          {location && (
+            <p className="text-xs text-white/40 -mt-2">Code cannot be changed after creation</p>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Country *</label>
+              <input
+                type="text"
+                value={country}
+                onChange={(e) => setCountry(e.target.value)}
+                placeholder="e.g., Australia"
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Country Code *</label>
+              <input
+                type="text"
+                value={countryCode}
+                onChange={(e) => setCountryCode(e.target.value.toUpperCase())}
+                placeholder="AU"
+                className={`${inputClass} font-mono`}
+                required
+                minLength={2}
+                maxLength={2}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Hypervisor Group ID *</label>
+              <input
+                type="number"
+                value={hypervisorGroupId}
+                onChange={(e) => setHypervisorGroupId(e.target.value)}
+                className={inputClass}
+                required
+                min={1}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Sort Order</label>
+              <input
+                type="number"
+                value={sortOrder}
+                onChange={(e) => setSortOrder(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Status</label>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as LocationStatus)}
+              className={inputClass}
+            >
+              <option value="enabled">Enabled (customers can deploy)</option>
+              <option value="coming_soon">Coming Soon (listed, not deployable)</option>
+              <option value="hidden">Hidden (not listed)</option>
+            </select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="soldOut"
+              checked={soldOut}
+              onChange={(e) => setSoldOut(e.target.checked)}
+              className="rounded"
+            />
+            <label htmlFor="soldOut" className="text-sm text-white/70">
+              Sold out (listed but new deploys are blocked)
+            </label>
+          </div>
+
+          <div>
+            <label className={labelClass}>Plans</label>
+            <div className="flex items-center gap-2 mb-2">
+              <input
+                type="checkbox"
+                id="allPlans"
+                checked={allPlans}
+                onChange={(e) => setAllPlans(e.target.checked)}
+                className="rounded"
+              />
+              <label htmlFor="allPlans" className="text-sm text-white/70">
+                Offer every plan here
+              </label>
+            </div>
+            {!allPlans && (
+              <div className="space-y-1.5 max-h-40 overflow-y-auto p-2 bg-white/5 border border-white/10 rounded-lg">
+                {plans.map((plan) => (
+                  <label key={plan.id} className="flex items-center gap-2 text-sm text-white/70">
+                    <input
+                      type="checkbox"
+                      checked={planIds.includes(plan.id)}
+                      onChange={() => togglePlan(plan.id)}
+                      className="rounded"
+                    />
+                    {plan.name}
+                    {!plan.active && <span className="text-xs text-white/30">(inactive)</span>}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-3 mt-6 pt-4 border-t border-white/8">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-white/60 hover:text-white transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="px-4 py-2 bg-[hsl(210_100%_50%)] text-white rounded-lg hover:bg-[hsl(210_100%_45%)] transition-colors disabled:opacity-50"
+            >
+              {isLoading ? "Saving..." : location ? "Update" : "Create"}
+            </button>
+          </div>
+        </form>
+      </div>
     </div>
   );
 }
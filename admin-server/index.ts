@@ -22,6 +22,8 @@ import { registerSettingsRoutes } from "./routes/settings";
 import { registerPromoCodeRoutes } from "./routes/promo-codes";
 import { registerSecurityRoutes } from "./routes/security";
 import { registerAuditRoutes } from "./routes/audit";
+import { registerIsoRoutes } from "./routes/isos";
+import { registerIpAddonRoutes } from "./routes/ip-addons";
 import { setupLogWebSocket } from "./websocket/logs";
 
 const app = express();
@@ -112,6 +114,7 @@ app.use('/api/users/:id/suspend', dangerousOpLimiter);
 app.use('/api/users/:id/wallet/adjust', dangerousOpLimiter);
 app.use('/api/billing/records/:id/suspend', dangerousOpLimiter);
 app.use('/api/billing/records/:id/unsuspend', dangerousOpLimiter);
+app.use('/api/billing/invoices/:id/refund', dangerousOpLimiter);
 app.use('/api/servers/:id/delete', dangerousOpLimiter);
 app.use('/api/', apiLimiter);
 
@@ -165,6 +168,8 @@ app.use((req, res, next) => {
   registerPromoCodeRoutes(protectedRouter);
   registerSecurityRoutes(protectedRouter);
   registerAuditRoutes(protectedRouter);
+  registerIsoRoutes(protectedRouter);
+  registerIpAddonRoutes(protectedRouter);
 
   app.use('/api', protectedRouter);
 
@@ -1,10 +1,11 @@
 import { Router, Request, Response } from "express";
 import { db } from "../../server/db";
-import { serverBilling, billingLedger, wallets, walletTransactions, userMappings, plans } from "../../shared/schema";
-import { eq, desc, and, gte, lte, sql, or, isNull } from "drizzle-orm";
+import { serverBilling, billingLedger, wallets, walletTransactions, userMappings, plans, billingTermSettingsSchema, invoices, creditNotes, invoiceRefundSchema } from "../../shared/schema";
+import { eq, desc, and, gte, lte, sql, or, isNull, ilike, inArray } from "drizzle-orm";
 import { virtfusionClient } from "../../server/virtfusion";
-import { runBillingJob, forceChargeServer } from "../../server/billing";
+import { runBillingJob, forceChargeServer, refundInvoice, renderCreditNotePDF } from "../../server/billing";
 import { auth0Client } from "../../server/auth0";
+import { dbStorage } from "../../server/storage";
 import { auditSuccess, auditFailure } from "../utils/audit-log";
 
 // SECURITY: Validate and sanitize reason strings
@@ -643,10 +644,10 @@ export function registerBillingRoutes(router: Router) {
         .from(serverBilling)
         .groupBy(serverBilling.status);
 
-      // Get total MRR (Monthly Recurring Revenue)
+      // Get total MRR (Monthly Recurring Revenue), with prepaid terms at their discounted monthly rate
       const mrrResult = await db
         .select({
-          total: sql<number>`sum(monthly_price_cents)::int`,
+          total: sql<number>`sum(round(monthly_price_cents * (100 - term_discount_percent) / 100.0))::int`,
         })
         .from(serverBilling)
         .where(
@@ -756,4 +757,184 @@ export function registerBillingRoutes(router: Router) {
       res.status(500).json({ error: "Failed to get billing stats" });
     }
   });
+
+  // Prepay discounts for quarterly and annual terms
+  router.get("/billing/terms", async (req: Request, res: Response) => {
+    try {
+      const settings = await dbStorage.getBillingTermSettings();
+      res.json({ settings });
+    } catch (error: any) {
+      console.log(`[admin-billing] Get billing terms error: ${error.message}`);
+      res.status(500).json({ error: "Failed to get billing term settings" });
+    }
+  });
+
+  // Discounts apply to new deploys; existing servers keep the discount they were bought with
+  router.put("/billing/terms", async (req: Request, res: Response) => {
+    try {
+      const session = req.adminSession!;
+
+      const parsed = billingTermSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid input" });
+      }
+
+      await dbStorage.updateBillingTermSettings(parsed.data);
+
+      await auditSuccess(req, "settings.billing_terms", "settings", "billing_terms", undefined, parsed.data);
+      console.log(`[admin-billing] Billing term settings updated by ${session.email}`);
+
+      res.json({ settings: parsed.data });
+    } catch (error: any) {
+      await auditFailure(req, "settings.billing_terms", "settings", error.message);
+      console.log(`[admin-billing] Update billing term settings error: ${error.message}`);
+      res.status(500).json({ error: "Failed to update billing term settings" });
+    }
+  });
+
+  // Invoices with what has been refunded against them. Search by invoice number, customer email or user ID.
+  router.get("/billing/invoices", async (req: Request, res: Response) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const search = typeof req.query.search === "string" ? req.query.search.trim() : "";
+
+      let whereClause = undefined;
+      if (/^inv-/i.test(search)) {
+        whereClause = ilike(invoices.invoiceNumber, `${search}%`);
+      } else if (search.includes("@")) {
+        whereClause = ilike(invoices.customerEmail, `%${search}%`);
+      } else if (search) {
+        whereClause = eq(invoices.auth0UserId, search);
+      }
+
+      const rows = await db
+        .select()
+        .from(invoices)
+        .where(whereClause)
+        .orderBy(desc(invoices.createdAt))
+        .limit(limit);
+
+      const notes = rows.length > 0
+        ? await db
+          .select()
+          .from(creditNotes)
+          .where(and(
+            inArray(creditNotes.invoiceId, rows.map((invoice) => invoice.id)),
+            eq(creditNotes.status, "issued"),
+          ))
+          .orderBy(creditNotes.createdAt)
+        : [];
+
+      res.json({
+        invoices: rows.map((invoice) => {
+          const invoiceNotes = notes.filter((note) => note.invoiceId === invoice.id);
+          return {
+            ...invoice,
+            refundedCents: invoiceNotes.reduce((sum, note) => sum + note.amountCents, 0),
+            creditNotes: invoiceNotes,
+          };
+        }),
+      });
+    } catch (error: any) {
+      console.log(`[admin-billing] List invoices error: ${error.message}`);
+      res.status(500).json({ error: "Failed to list invoices" });
+    }
+  });
+
+  // Card top-ups a charge invoice can be refunded to
+  router.get("/billing/invoices/:id/card-payments", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+
+      const invoice = await dbStorage.getInvoiceById(id);
+      if (!invoice) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+
+      const topups = await dbStorage.getCardTopups(invoice.auth0UserId);
+      res.json({
+        payments: topups.map((topup) => {
+          const metadata = (topup.metadata ?? {}) as Record<string, unknown>;
+          return {
+            paymentIntentId: topup.stripePaymentIntentId,
+            amountCents: topup.amountCents,
+            createdAt: topup.createdAt,
+            cardBrand: typeof metadata.cardBrand === "string" ? metadata.cardBrand : null,
+            cardLast4: typeof metadata.cardLast4 === "string" ? metadata.cardLast4 : null,
+          };
+        }),
+      });
+    } catch (error: any) {
+      console.log(`[admin-billing] List card payments error: ${error.message}`);
+      res.status(500).json({ error: "Failed to list card payments" });
+    }
+  });
+
+  // Refund an invoice to the customer's card or wallet, issuing a credit note
+  router.post("/billing/invoices/:id/refund", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const session = req.adminSession!;
+
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+
+      const parsed = invoiceRefundSchema.safeParse({ ...req.body, reason: sanitizeReason(req.body.reason) });
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid input" });
+      }
+
+      const result = await refundInvoice({ invoiceId: id, ...parsed.data, issuedBy: session.email });
+      if (!result.success) {
+        await auditFailure(req, "billing.refund", "invoice", result.error, String(id));
+        return res.status(result.status).json({ error: result.error });
+      }
+
+      const { invoice, creditNote } = result;
+      await auditSuccess(req, "billing.refund", "invoice", String(invoice.id), invoice.invoiceNumber, {
+        auth0UserId: invoice.auth0UserId,
+        creditNoteNumber: creditNote.creditNoteNumber,
+        amountCents: creditNote.amountCents,
+        method: creditNote.method,
+        stripePaymentIntentId: creditNote.stripePaymentIntentId,
+        stripeRefundId: creditNote.stripeRefundId,
+        invoiceStatus: invoice.status,
+        reason: creditNote.reason,
+      });
+
+      console.log(`[admin-billing] Invoice ${invoice.invoiceNumber} refunded $${creditNote.amountCents / 100} to ${creditNote.method} by ${session.email} (${creditNote.creditNoteNumber})`);
+
+      res.json({ success: true, invoice, creditNote });
+    } catch (error: any) {
+      await auditFailure(req, "billing.refund", "invoice", error.message, req.params.id);
+      console.log(`[admin-billing] Refund error: ${error.message}`);
+      res.status(500).json({ error: "Failed to refund invoice. Please check server logs for details." });
+    }
+  });
+
+  router.get("/billing/credit-notes/:id/pdf", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+
+      const creditNote = await dbStorage.getCreditNoteById(id);
+      if (!creditNote || creditNote.status !== "issued") {
+        return res.status(404).json({ error: "Credit note not found" });
+      }
+
+      const pdf = await renderCreditNotePDF(creditNote);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${creditNote.creditNoteNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error: any) {
+      console.log(`[admin-billing] Credit note PDF error: ${error.message}`);
+      res.status(500).json({ error: "Failed to generate credit note PDF" });
+    }
+  });
 }
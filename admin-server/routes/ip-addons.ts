@@ -0,0 +1,65 @@
+import { Router, Request, Response } from "express";
+import { eq, desc, getTableColumns } from "drizzle-orm";
+import { db } from "../../server/db";
+import { dbStorage } from "../../server/storage";
+import { serverAddons, userMappings, ipAddonSettingsSchema } from "../../shared/schema";
+import { virtfusionClient } from "../../server/virtfusion";
+import { auditSuccess, auditFailure } from "../utils/audit-log";
+
+export function registerIpAddonRoutes(router: Router) {
+  // Pricing, the VirtFusion blocks add-ons are allocated from, and every active add-on
+  router.get("/ip-addons", async (req: Request, res: Response) => {
+    try {
+      const [settings, ipBlocks, addons] = await Promise.all([
+        dbStorage.getIpAddonSettings(),
+        virtfusionClient.getIpBlocks(),
+        db
+          .select({
+            ...getTableColumns(serverAddons),
+            ownerEmail: userMappings.email,
+          })
+          .from(serverAddons)
+          .leftJoin(userMappings, eq(serverAddons.auth0UserId, userMappings.auth0UserId))
+          .where(eq(serverAddons.status, "active"))
+          .orderBy(desc(serverAddons.createdAt)),
+      ]);
+
+      res.json({ settings, ipBlocks, addons });
+    } catch (error: any) {
+      console.log(`[admin-ip-addons] List IP add-ons error: ${error.message}`);
+      res.status(500).json({ error: "Failed to load IP add-ons" });
+    }
+  });
+
+  // Prices apply to new purchases; existing add-ons keep renewing at the price they were bought at
+  router.put("/ip-addons/settings", async (req: Request, res: Response) => {
+    try {
+      const session = req.adminSession!;
+
+      const parsed = ipAddonSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid input" });
+      }
+
+      const ipBlocks = await virtfusionClient.getIpBlocks();
+      for (const [type, blockId] of [["ipv4", parsed.data.ipv4BlockId], ["ipv6", parsed.data.ipv6BlockId]] as const) {
+        if (blockId === null) continue;
+        const block = ipBlocks.find((b) => b.id === blockId);
+        if (!block || block.type !== type) {
+          return res.status(400).json({ error: `IP block ${blockId} is not an ${type === "ipv4" ? "IPv4" : "IPv6"} block` });
+        }
+      }
+
+      await dbStorage.updateIpAddonSettings(parsed.data);
+
+      await auditSuccess(req, "settings.ip_addons", "settings", "ip_addons", undefined, parsed.data);
+      console.log(`[admin-ip-addons] IP add-on settings updated by ${session.email}`);
+
+      res.json({ settings: parsed.data });
+    } catch (error: any) {
+      await auditFailure(req, "settings.ip_addons", "settings", error.message);
+      console.log(`[admin-ip-addons] Update IP add-on settings error: ${error.message}`);
+      res.status(500).json({ error: "Failed to update IP add-on settings" });
+    }
+  });
+}
@@ -0,0 +1,187 @@
+import { Router, Request, Response } from "express";
+import { eq, desc, getTableColumns } from "drizzle-orm";
+import { db } from "../../server/db";
+import { isoImages, serverMedia, userMappings, createIsoImageSchema, updateIsoImageSchema, reviewIsoImageSchema } from "../../shared/schema";
+import { validateIsoUrl } from "../../server/iso-media";
+import { auditSuccess, auditFailure } from "../utils/audit-log";
+
+export function registerIsoRoutes(router: Router) {
+  // List library images and customer-submitted URLs
+  router.get("/isos", async (req: Request, res: Response) => {
+    try {
+      const rows = await db
+        .select({
+          ...getTableColumns(isoImages),
+          submitterEmail: userMappings.email,
+        })
+        .from(isoImages)
+        .leftJoin(userMappings, eq(isoImages.auth0UserId, userMappings.auth0UserId))
+        .orderBy(desc(isoImages.createdAt));
+
+      res.json({
+        library: rows.filter((iso) => iso.auth0UserId === null),
+        submissions: rows.filter((iso) => iso.auth0UserId !== null),
+      });
+    } catch (error: any) {
+      console.log(`[admin-isos] List ISOs error: ${error.message}`);
+      res.status(500).json({ error: "Failed to list ISOs" });
+    }
+  });
+
+  // Add an image to the library every customer can mount
+  router.post("/isos", async (req: Request, res: Response) => {
+    try {
+      const session = req.adminSession!;
+
+      const parsed = createIsoImageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid input" });
+      }
+
+      const urlResult = validateIsoUrl(parsed.data.url);
+      if (!urlResult.ok) {
+        return res.status(400).json({ error: urlResult.error });
+      }
+
+      const [iso] = await db
+        .insert(isoImages)
+        .values({
+          ...parsed.data,
+          url: urlResult.url,
+          status: "approved",
+          reviewedBy: session.email,
+          reviewedAt: new Date(),
+        })
+        .returning();
+
+      await auditSuccess(req, "iso.create", "iso_image", String(iso.id), iso.name, { url: iso.url });
+      console.log(`[admin-isos] ISO ${iso.name} added to the library by ${session.email}`);
+
+      res.status(201).json({ iso });
+    } catch (error: any) {
+      await auditFailure(req, "iso.create", "iso_image", error.message);
+      console.log(`[admin-isos] Create ISO error: ${error.message}`);
+      res.status(500).json({ error: "Failed to create ISO" });
+    }
+  });
+
+  // Update an image. Disabling it stops new mounts; servers that already have it keep it.
+  router.patch("/isos/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const session = req.adminSession!;
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+
+      const parsed = updateIsoImageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid input" });
+      }
+
+      const updates = { ...parsed.data };
+      if (updates.url !== undefined) {
+        const urlResult = validateIsoUrl(updates.url);
+        if (!urlResult.ok) {
+          return res.status(400).json({ error: urlResult.error });
+        }
+        updates.url = urlResult.url;
+      }
+
+      const [existing] = await db.select().from(isoImages).where(eq(isoImages.id, id));
+      if (!existing) {
+        return res.status(404).json({ error: "ISO not found" });
+      }
+
+      const [iso] = await db
+        .update(isoImages)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(isoImages.id, id))
+        .returning();
+
+      await auditSuccess(req, "iso.update", "iso_image", String(id), existing.name, updates);
+      console.log(`[admin-isos] ISO ${existing.name} updated by ${session.email}`);
+
+      res.json({ iso });
+    } catch (error: any) {
+      await auditFailure(req, "iso.update", "iso_image", error.message, req.params.id);
+      console.log(`[admin-isos] Update ISO error: ${error.message}`);
+      res.status(500).json({ error: "Failed to update ISO" });
+    }
+  });
+
+  // Approve or reject a customer-submitted URL
+  router.post("/isos/:id/review", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const session = req.adminSession!;
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+
+      const parsed = reviewIsoImageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid input" });
+      }
+
+      const [existing] = await db.select().from(isoImages).where(eq(isoImages.id, id));
+      if (!existing || existing.auth0UserId === null) {
+        return res.status(404).json({ error: "ISO submission not found" });
+      }
+
+      const { status } = parsed.data;
+      const rejectionReason = status === "rejected" ? parsed.data.rejectionReason || null : null;
+      const [iso] = await db
+        .update(isoImages)
+        .set({ status, rejectionReason, reviewedBy: session.email, reviewedAt: new Date(), updatedAt: new Date() })
+        .where(eq(isoImages.id, id))
+        .returning();
+
+      const action = status === "approved" ? "iso.approve" : "iso.reject";
+      await auditSuccess(req, action, "iso_image", String(id), existing.name, {
+        url: existing.url,
+        auth0UserId: existing.auth0UserId,
+        rejectionReason,
+      });
+      console.log(`[admin-isos] ISO submission ${id} ${status} by ${session.email}`);
+
+      res.json({ iso });
+    } catch (error: any) {
+      await auditFailure(req, "iso.review", "iso_image", error.message, req.params.id);
+      console.log(`[admin-isos] Review ISO error: ${error.message}`);
+      res.status(500).json({ error: "Failed to review ISO" });
+    }
+  });
+
+  // Delete an image - blocked while a server has it mounted; disable it instead
+  router.delete("/isos/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const session = req.adminSession!;
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+
+      const [existing] = await db.select().from(isoImages).where(eq(isoImages.id, id));
+      if (!existing) {
+        return res.status(404).json({ error: "ISO not found" });
+      }
+
+      const [mounted] = await db.select({ id: serverMedia.id }).from(serverMedia).where(eq(serverMedia.isoImageId, id)).limit(1);
+      if (mounted) {
+        return res.status(400).json({ error: "This ISO is mounted on a server. Disable it instead of deleting it." });
+      }
+
+      await db.delete(isoImages).where(eq(isoImages.id, id));
+
+      await auditSuccess(req, "iso.delete", "iso_image", String(id), existing.name);
+      console.log(`[admin-isos] ISO ${existing.name} deleted by ${session.email}`);
+
+      res.json({ success: true });
+    } catch (error: any) {
+      await auditFailure(req, "iso.delete", "iso_image", error.message, req.params.id);
+      console.log(`[admin-isos] Delete ISO error: ${error.message}`);
+      res.status(500).json({ error: "Failed to delete ISO" });
+    }
+  });
+}
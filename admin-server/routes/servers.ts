@@ -1,13 +1,15 @@
 import { Router, Request, Response } from "express";
 import { db } from "../../server/db";
-import { serverBilling, serverCancellations, userMappings, plans, wallets, walletTransactions } from "../../shared/schema";
-import { eq, desc, and, like, or, isNull } from "drizzle-orm";
+import { serverBilling, serverCancellations, userMappings, plans, wallets, walletTransactions, deployOrders, locations, createLocationSchema, updateLocationSchema } from "../../shared/schema";
+import { eq, desc, and, like, or, isNull, inArray, lt, sql } from "drizzle-orm";
 import { virtfusionClient } from "../../server/virtfusion";
 import { auth0Client } from "../../server/auth0";
 import { auditSuccess, auditFailure } from "../utils/audit-log";
 import { sendServerCredentialsEmail } from "../../server/email";
-import { LOCATION_CONFIG, getPublicLocations } from "../../shared/locations";
 import { resolveVirtFusionUserIdentity } from "../services/virtfusion-user-sync";
+import { resumeDeployOrder } from "../../server/provisioning-processor";
+import { MAX_SNAPSHOT_LIMIT } from "../../server/snapshots";
+import { PROVISIONING_STEP_LABELS, PROVISIONING_STUCK_AFTER_MS, isDeployOrderStuck } from "../../server/provisioning";
 
 // SECURITY: Validate and sanitize reason strings
 const MAX_REASON_LENGTH = 500;
@@ -113,6 +115,39 @@ export function registerServersRoutes(router: Router) {
     }
   });
 
+  // Update per-plan settings that aren't synced from VirtFusion
+  router.patch("/plans/:id", async (req: Request, res: Response) => {
+    try {
+      const planId = parseInt(req.params.id, 10);
+      if (isNaN(planId)) {
+        return res.status(400).json({ error: "Invalid plan ID" });
+      }
+
+      const snapshotLimit = Number(req.body.snapshotLimit);
+      if (!Number.isInteger(snapshotLimit) || snapshotLimit < 0 || snapshotLimit > MAX_SNAPSHOT_LIMIT) {
+        return res.status(400).json({ error: `Snapshot limit must be a whole number between 0 and ${MAX_SNAPSHOT_LIMIT}` });
+      }
+
+      const [updatedPlan] = await db
+        .update(plans)
+        .set({ snapshotLimit })
+        .where(eq(plans.id, planId))
+        .returning();
+
+      if (!updatedPlan) {
+        return res.status(404).json({ error: "Plan not found" });
+      }
+
+      await auditSuccess(req, "plan.update", "plan", String(planId), updatedPlan.name, { snapshotLimit });
+
+      res.json({ plan: updatedPlan });
+    } catch (error: any) {
+      await auditFailure(req, "plan.update", "plan", error.message, req.params.id);
+      console.log(`[admin-servers] Update plan error: ${error.message}`);
+      res.status(500).json({ error: "Failed to update plan" });
+    }
+  });
+
   // Get OS templates for a plan (for provisioning)
   router.get("/plans/:id/templates", async (req: Request, res: Response) => {
     try {
@@ -176,12 +211,136 @@ export function registerServersRoutes(router: Router) {
     }
   });
 
-  // Get available locations
+  // List all locations, including hidden ones
   router.get("/locations", async (req: Request, res: Response) => {
-    res.json({ locations: getPublicLocations().map((location) => ({
-      ...location,
-      hypervisorGroupId: LOCATION_CONFIG[location.code].hypervisorGroupId,
-    })) });
+    try {
+      const allLocations = await db
+        .select()
+        .from(locations)
+        .orderBy(locations.sortOrder, locations.name);
+
+      res.json({ locations: allLocations });
+    } catch (error: any) {
+      console.log(`[admin-servers] List locations error: ${error.message}`);
+      res.status(500).json({ error: "Failed to list locations" });
+    }
+  });
+
+  // Create location
+  router.post("/locations", async (req: Request, res: Response) => {
+    try {
+      const session = req.adminSession!;
+
+      const parsed = createLocationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid input" });
+      }
+
+      const data = parsed.data;
+
+      const [existing] = await db.select().from(locations).where(eq(locations.code, data.code));
+      if (existing) {
+        return res.status(400).json({ error: "A location with this code already exists" });
+      }
+
+      const [location] = await db
+        .insert(locations)
+        .values({ ...data, planIds: data.planIds && data.planIds.length > 0 ? data.planIds : null })
+        .returning();
+
+      await auditSuccess(req, "location.create", "location", String(location.id), location.code, {
+        hypervisorGroupId: location.hypervisorGroupId,
+        status: location.status,
+      });
+
+      console.log(`[admin-servers] Location ${location.code} created by ${session.email}`);
+
+      res.status(201).json({ location });
+    } catch (error: any) {
+      await auditFailure(req, "location.create", "location", error.message);
+      console.log(`[admin-servers] Create location error: ${error.message}`);
+      res.status(500).json({ error: "Failed to create location" });
+    }
+  });
+
+  // Update location (the code is fixed once created because deploy orders store it)
+  router.patch("/locations/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const session = req.adminSession!;
+
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+
+      const parsed = updateLocationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid input" });
+      }
+
+      const [existing] = await db.select().from(locations).where(eq(locations.id, id));
+      if (!existing) {
+        return res.status(404).json({ error: "Location not found" });
+      }
+
+      const updates = { ...parsed.data };
+      if (updates.planIds !== undefined && updates.planIds?.length === 0) {
+        updates.planIds = null;
+      }
+
+      const [location] = await db
+        .update(locations)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(locations.id, id))
+        .returning();
+
+      await auditSuccess(req, "location.update", "location", String(id), existing.code, updates);
+
+      console.log(`[admin-servers] Location ${existing.code} updated by ${session.email}`);
+
+      res.json({ location });
+    } catch (error: any) {
+      await auditFailure(req, "location.update", "location", error.message, req.params.id);
+      console.log(`[admin-servers] Update location error: ${error.message}`);
+      res.status(500).json({ error: "Failed to update location" });
+    }
+  });
+
+  // Delete location - only allowed before anything has been deployed there; hide it otherwise
+  router.delete("/locations/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const session = req.adminSession!;
+
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+
+      const [existing] = await db.select().from(locations).where(eq(locations.id, id));
+      if (!existing) {
+        return res.status(404).json({ error: "Location not found" });
+      }
+
+      const [{ count }] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(deployOrders)
+        .where(eq(deployOrders.locationCode, existing.code));
+      if (count > 0) {
+        return res.status(400).json({ error: "Servers have been deployed to this location. Hide it instead of deleting it." });
+      }
+
+      await db.delete(locations).where(eq(locations.id, id));
+
+      await auditSuccess(req, "location.delete", "location", String(id), existing.code);
+
+      console.log(`[admin-servers] Location ${existing.code} deleted by ${session.email}`);
+
+      res.json({ success: true });
+    } catch (error: any) {
+      await auditFailure(req, "location.delete", "location", error.message, req.params.id);
+      console.log(`[admin-servers] Delete location error: ${error.message}`);
+      res.status(500).json({ error: "Failed to delete location" });
+    }
   });
 
   // Sync a user to VirtFusion (create VirtFusion account if needed)
@@ -1098,7 +1257,10 @@ export function registerServersRoutes(router: Router) {
       }
 
       // Get hypervisor group for location
-      const location = LOCATION_CONFIG[locationCode] || LOCATION_CONFIG['BNE'];
+      const [location] = await db
+        .select()
+        .from(locations)
+        .where(eq(locations.code, String(locationCode).toUpperCase()));
       if (!location) {
         return res.status(400).json({ error: "Invalid location" });
       }
@@ -1118,20 +1280,25 @@ export function registerServersRoutes(router: Router) {
         }
       }
 
-      // extRelationId is the normalized email
-      const extRelationId = userMapping.email.toLowerCase().trim();
-
       // Provision server via VirtFusion
-      let serverResult;
+      let serverResult: { serverId: number; name: string; uuid?: string; primaryIp?: string; password?: string };
       try {
-        serverResult = await virtfusionClient.provisionServer({
+        serverResult = await virtfusionClient.createServer({
           userId: userMapping.virtFusionUserId,
           packageId: plan.virtfusionPackageId,
           hostname,
-          extRelationId,
-          osId: osId || undefined,
           hypervisorGroupId,
         });
+
+        // A failed build leaves the server awaiting setup, and it can be reinstalled from the server page
+        if (osId) {
+          try {
+            const build = await virtfusionClient.buildServer(serverResult.serverId, { osId, hostname });
+            serverResult = { ...serverResult, password: build.password, primaryIp: serverResult.primaryIp || build.primaryIp };
+          } catch (buildError: any) {
+            console.log(`[admin-servers] Build failed for server ${serverResult.serverId}: ${buildError.message}`);
+          }
+        }
       } catch (vfError: any) {
         console.log(`[admin-servers] VirtFusion provisioning failed: ${vfError.message}`);
         await auditFailure(req, "server.provision", "server", vfError.message, auth0UserId);
@@ -1233,7 +1400,7 @@ export function registerServersRoutes(router: Router) {
           uuid: serverResult.uuid,
           primaryIp: serverResult.primaryIp,
           password: serverResult.password,
-          osName: serverResult.osName,
+          osName: osId ? osName : undefined,
         },
         billing: billingRecord,
       });
@@ -1244,6 +1411,94 @@ export function registerServersRoutes(router: Router) {
     }
   });
 
+  // GET /deploy-orders/stuck - orders parked for an admin or still unfinished after every retry
+  router.get('/deploy-orders/stuck', async (req: Request, res: Response) => {
+    try {
+      const createdBefore = new Date(Date.now() - PROVISIONING_STUCK_AFTER_MS);
+      const rows = await db
+        .select({
+          order: deployOrders,
+          user: {
+            email: userMappings.email,
+            name: userMappings.name,
+          },
+          plan: {
+            name: plans.name,
+          },
+        })
+        .from(deployOrders)
+        .leftJoin(userMappings, eq(deployOrders.auth0UserId, userMappings.auth0UserId))
+        .leftJoin(plans, eq(deployOrders.planId, plans.id))
+        .where(
+          and(
+            inArray(deployOrders.status, ['paid', 'provisioning']),
+            or(isNull(deployOrders.nextAttemptAt), lt(deployOrders.createdAt, createdBefore))
+          )
+        )
+        .orderBy(deployOrders.createdAt);
+
+      res.json({
+        orders: rows.map((row) => ({
+          ...row.order,
+          stepLabel: PROVISIONING_STEP_LABELS[row.order.step],
+          user: row.user,
+          planName: row.plan?.name ?? null,
+        })),
+      });
+    } catch (error: any) {
+      console.log(`[admin-servers] Get stuck deploy orders error: ${error.message}`);
+      res.status(500).json({ error: 'Failed to fetch stuck deploy orders' });
+    }
+  });
+
+  // POST /deploy-orders/:id/resume - run a stuck order again from its current step with fresh attempts
+  router.post('/deploy-orders/:id/resume', async (req: Request, res: Response) => {
+    try {
+      const orderId = parseInt(req.params.id, 10);
+      const session = req.adminSession!;
+
+      if (isNaN(orderId)) {
+        return res.status(400).json({ error: 'Invalid order ID' });
+      }
+
+      const [order] = await db.select().from(deployOrders).where(eq(deployOrders.id, orderId)).limit(1);
+      if (!order) {
+        return res.status(404).json({ error: 'Deploy order not found' });
+      }
+      if (!isDeployOrderStuck(order)) {
+        return res.status(400).json({ error: 'Only stuck deploy orders can be resumed' });
+      }
+
+      console.log(`[admin-servers] Deploy order ${orderId} resumed by ${session.email} at step ${order.step}`);
+      const resumed = await resumeDeployOrder(orderId) ?? order;
+
+      if (resumed.status === 'active') {
+        await auditSuccess(req, 'deploy_order.resume', 'deploy_order', String(orderId), order.hostname ?? undefined, {
+          fromStep: order.step,
+          serverId: resumed.virtfusionServerId,
+        });
+      } else {
+        await auditFailure(
+          req,
+          'deploy_order.resume',
+          'deploy_order',
+          resumed.errorMessage || `Order is ${resumed.status}`,
+          String(orderId),
+          order.hostname ?? undefined
+        );
+      }
+
+      res.json({
+        success: resumed.status === 'active',
+        order: { ...resumed, stepLabel: PROVISIONING_STEP_LABELS[resumed.step] },
+      });
+    } catch (error: any) {
+      console.log(`[admin-servers] Resume deploy order error: ${error.message}`);
+      await auditFailure(req, 'deploy_order.resume', 'deploy_order', error.message, req.params.id);
+      res.status(500).json({ error: 'Failed to resume deploy order' });
+    }
+  });
+
   // GET /servers/cancellations/pending - list all pending approval cancellations
   router.get('/servers/cancellations/pending', async (req: Request, res: Response) => {
     try {
@@ -1,5 +1,10 @@
 import { Router, Request, Response } from "express";
+import { eq } from "drizzle-orm";
+import { db } from "../../server/db";
 import { virtfusionClient } from "../../server/virtfusion";
+import { hypervisorDrains } from "../../shared/schema";
+import { PLACEMENT_MAX_VCPU_RATIO } from "../../server/placement";
+import { auditSuccess, auditFailure } from "../utils/audit-log";
 
 export function registerVirtFusionRoutes(router: Router) {
   // Get VirtFusion hypervisors
@@ -13,6 +18,89 @@ export function registerVirtFusionRoutes(router: Router) {
     }
   });
 
+  // Hypervisors with what is allocated on them and whether new deployments are placed there
+  router.get("/vf/hypervisors/placement", async (req: Request, res: Response) => {
+    try {
+      const [hypervisors, allocations, drains] = await Promise.all([
+        virtfusionClient.getHypervisors(),
+        virtfusionClient.getHypervisorAllocations(),
+        db.select().from(hypervisorDrains),
+      ]);
+
+      res.json({
+        maxVcpuRatio: PLACEMENT_MAX_VCPU_RATIO,
+        hypervisors: hypervisors.map((h) => ({
+          id: h.id,
+          name: h.name,
+          group: h.group ?? null,
+          enabled: h.enabled,
+          maintenance: h.maintenance,
+          maxServers: h.maxServers,
+          cpuCores: h.cpuCores,
+          ramTotalMb: h.ramTotalMb,
+          diskTotalGb: h.diskTotalGb,
+          allocated: allocations.get(h.id) || { servers: 0, vcpu: 0, ramMb: 0, diskGb: 0, ownerIds: [] },
+          drain: drains.find((d) => d.hypervisorId === h.id) ?? null,
+        })),
+      });
+    } catch (error: any) {
+      console.log(`[admin-vf] Get hypervisor placement error: ${error.message}`);
+      res.status(500).json({ error: "Failed to get hypervisor placement" });
+    }
+  });
+
+  // Drain a hypervisor: its servers stay put but new deployments skip it
+  router.post("/vf/hypervisors/:id/drain", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const session = req.adminSession!;
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid hypervisor ID" });
+      }
+
+      const reason = typeof req.body?.reason === "string" ? req.body.reason.trim().slice(0, 500) || null : null;
+      const [drain] = await db
+        .insert(hypervisorDrains)
+        .values({ hypervisorId: id, reason, drainedBy: session.email })
+        .onConflictDoUpdate({ target: hypervisorDrains.hypervisorId, set: { reason, drainedBy: session.email } })
+        .returning();
+
+      await auditSuccess(req, "hypervisor.drain", "hypervisor", String(id), undefined, { reason });
+      console.log(`[admin-vf] Hypervisor ${id} drained by ${session.email}`);
+
+      res.json({ drain });
+    } catch (error: any) {
+      await auditFailure(req, "hypervisor.drain", "hypervisor", error.message, req.params.id);
+      console.log(`[admin-vf] Drain hypervisor error: ${error.message}`);
+      res.status(500).json({ error: "Failed to drain hypervisor" });
+    }
+  });
+
+  // Return a drained hypervisor to placement
+  router.delete("/vf/hypervisors/:id/drain", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const session = req.adminSession!;
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid hypervisor ID" });
+      }
+
+      const deleted = await db.delete(hypervisorDrains).where(eq(hypervisorDrains.hypervisorId, id)).returning();
+      if (deleted.length === 0) {
+        return res.status(404).json({ error: "Hypervisor is not drained" });
+      }
+
+      await auditSuccess(req, "hypervisor.undrain", "hypervisor", String(id));
+      console.log(`[admin-vf] Hypervisor ${id} undrained by ${session.email}`);
+
+      res.json({ success: true });
+    } catch (error: any) {
+      await auditFailure(req, "hypervisor.undrain", "hypervisor", error.message, req.params.id);
+      console.log(`[admin-vf] Undrain hypervisor error: ${error.message}`);
+      res.status(500).json({ error: "Failed to undrain hypervisor" });
+    }
+  });
+
   // Get hypervisor details
   router.get("/vf/hypervisors/:id", async (req: Request, res: Response) => {
     try {
@@ -0,0 +1,80 @@
+import { useQuery } from "@tanstack/react-query";
+import { Download, FileSpreadsheet, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { api } from "@/lib/api";
+import { cn } from "@/lib/utils";
+
+function formatCents(cents: number): string {
+  return `${cents < 0 ? "-" : ""}$${(Math.abs(cents) / 100).toFixed(2)}`;
+}
+
+function formatPeriod(period: string): string {
+  const [year, month] = period.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString("en-AU", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+// Monthly statements of wallet activity, issued on the 1st for the month before
+export function AccountStatementsSection() {
+  const { data, isLoading } = useQuery({
+    queryKey: ['statements'],
+    queryFn: () => api.getStatements(),
+  });
+
+  const statements = data?.statements ?? [];
+
+  return (
+    <div data-testid="statements-section">
+      <h2 className="text-lg font-semibold text-foreground mb-1">Statements</h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        A statement of your wallet balance and activity is emailed on the 1st of each month.
+      </p>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : statements.length === 0 ? (
+        <div className="border border-border rounded-lg p-8 text-center bg-card">
+          <FileSpreadsheet className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+          <p className="text-sm text-muted-foreground">Your first statement will appear after the end of the month</p>
+        </div>
+      ) : (
+        <div className="border border-border rounded-lg overflow-hidden bg-card">
+          {statements.map((statement, index) => (
+            <div
+              key={statement.id}
+              className={cn(
+                "flex items-center justify-between px-4 py-3 hover:bg-muted/30 transition-colors",
+                index !== 0 && "border-t border-border"
+              )}
+              data-testid={`statement-${statement.id}`}
+            >
+              <div className="flex items-center gap-3 flex-1 min-w-0">
+                <FileSpreadsheet className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-foreground text-sm">{formatPeriod(statement.period)}</div>
+                  <div className="text-xs text-muted-foreground">
+                    Opening {formatCents(statement.openingBalanceCents)} · Closing {formatCents(statement.closingBalanceCents)}
+                  </div>
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 text-muted-foreground hover:text-foreground ml-4"
+                onClick={() => window.open(statement.pdfUrl, '_blank')}
+                data-testid={`button-download-statement-${statement.id}`}
+              >
+                <Download className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, KeyRound, Plus, Trash2, Copy, AlertTriangle } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { api, type ApiTokenScope } from "@/lib/api";
+
+const SCOPE_OPTIONS: Array<{ value: ApiTokenScope; label: string; description: string }> = [
+  { value: 'servers:read', label: 'servers:read', description: 'List servers and read stats, traffic and network details' },
+  { value: 'servers:power', label: 'servers:power', description: 'Boot, reboot, shut down and power off servers' },
+  { value: 'billing:read', label: 'billing:read', description: 'Read wallet balance and transactions' },
+];
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'Never' },
+];
+
+function formatDateTime(value: string | null): string {
+  if (!value) return 'Never';
+  return new Date(value).toLocaleString('en-AU', { timeZone: 'Australia/Brisbane', dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export function ApiTokensCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [creating, setCreating] = useState(false);
+  const [tokenName, setTokenName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['servers:read']);
+  const [expiry, setExpiry] = useState("90");
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['api-tokens'],
+    queryFn: () => api.getApiTokens(),
+  });
+
+  const closeCreateForm = () => {
+    setCreating(false);
+    setTokenName("");
+    setScopes(['servers:read']);
+    setExpiry("90");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => api.createApiToken(tokenName.trim(), scopes, expiry === 'never' ? null : Number(expiry)),
+    onSuccess: (result) => {
+      setNewSecret(result.secret);
+      closeCreateForm();
+      queryClient.invalidateQueries({ queryKey: ['api-tokens'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Token Not Created",
+        description: error.message || "Failed to create API token.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: number) => api.revokeApiToken(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['api-tokens'] });
+      toast({
+        title: "Token Revoked",
+        description: "Scripts using this token will stop working immediately.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Revoke Failed",
+        description: error.message || "Failed to revoke API token.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const tokens = data?.tokens ?? [];
+
+  return (
+    <Card className="p-6 mt-6" data-testid="api-tokens-section">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center border border-primary/20">
+          <KeyRound className="h-5 w-5 text-primary" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-foreground">API Tokens</h3>
+          <p className="text-sm text-muted-foreground">
+            Script against your account with <span className="font-mono">Authorization: Bearer</span> tokens
+          </p>
+        </div>
+        {!creating && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-auto border-border hover:bg-muted/50"
+            onClick={() => setCreating(true)}
+            data-testid="button-add-api-token"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Token
+          </Button>
+        )}
+      </div>
+
+      {newSecret && (
+        <div className="rounded-lg border border-amber-500/30 bg-amber-500/10 p-4 mb-4 space-y-3">
+          <div className="flex items-center gap-2 text-sm text-amber-400">
+            <AlertTriangle className="h-4 w-4" />
+            Copy this token now. You won't be able to see it again.
+          </div>
+          <div className="flex gap-2">
+            <Input readOnly value={newSecret} className="font-mono text-xs" data-testid="text-new-api-token" />
+            <Button
+              variant="outline"
+              onClick={() => {
+                navigator.clipboard.writeText(newSecret);
+                toast({ title: "Copied", description: "API token copied to clipboard." });
+              }}
+              className="border-border"
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => setNewSecret(null)}>
+            Done
+          </Button>
+        </div>
+      )}
+
+      {creating && (
+        <div className="space-y-4 rounded-lg border border-border bg-muted/20 p-4 mb-4">
+          <div className="space-y-2">
+            <Label htmlFor="api-token-name">Name</Label>
+            <Input
+              id="api-token-name"
+              placeholder="e.g., Monitoring script"
+              value={tokenName}
+              maxLength={64}
+              onChange={(e) => setTokenName(e.target.value)}
+              data-testid="input-api-token-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            {SCOPE_OPTIONS.map((option) => (
+              <label key={option.value} className="flex items-start gap-3 cursor-pointer">
+                <Checkbox
+                  checked={scopes.includes(option.value)}
+                  onCheckedChange={(checked) =>
+                    setScopes((current) =>
+                      checked ? [...current, option.value] : current.filter((scope) => scope !== option.value)
+                    )
+                  }
+                  className="mt-0.5"
+                  data-testid={`checkbox-scope-${option.value}`}
+                />
+                <span>
+                  <span className="block text-sm font-mono text-foreground">{option.label}</span>
+                  <span className="block text-xs text-muted-foreground">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <Label>Expires</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger className="bg-card border-border" data-testid="select-api-token-expiry">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              className="flex-1 border-border hover:bg-muted/50"
+              onClick={closeCreateForm}
+            >
+              Cancel
+            </Button>
+            <Button
+              className="flex-1"
+              onClick={() => createMutation.mutate()}
+              disabled={!tokenName.trim() || scopes.length === 0 || createMutation.isPending}
+              data-testid="button-create-api-token"
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create Token
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading API tokens...
+        </div>
+      ) : tokens.length ? (
+        <div className="space-y-3">
+          {tokens.map((token) => {
+            const expired = token.expiresAt !== null && new Date(token.expiresAt) <= new Date();
+            return (
+              <div
+                key={token.id}
+                className="flex items-start justify-between gap-4 rounded-lg border border-border bg-background/40 p-4"
+                data-testid={`api-token-${token.id}`}
+              >
+                <div className="space-y-1 min-w-0">
+                  <p className="font-medium text-foreground break-words">
+                    {token.name}
+                    {expired && <span className="ml-2 text-xs text-red-400">Expired</span>}
+                  </p>
+                  <p className="text-xs font-mono text-muted-foreground">{token.tokenPrefix}…</p>
+                  <p className="text-xs text-muted-foreground">{token.scopes.join(', ')}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Last used: {formatDateTime(token.lastUsedAt)}
+                    {token.lastUsedIp && ` from ${token.lastUsedIp}`}
+                    {' • '}Expires: {formatDateTime(token.expiresAt)}
+                  </p>
+                </div>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => revokeMutation.mutate(token.id)}
+                  disabled={revokeMutation.isPending}
+                  className="border-red-500/30 text-red-400 hover:bg-red-500/10 hover:text-red-300 flex-shrink-0"
+                  data-testid={`button-revoke-api-token-${token.id}`}
+                >
+                  {revokeMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="rounded-lg border border-dashed border-border bg-background/30 p-4 text-sm text-muted-foreground">
+          No API tokens yet.
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Building2, Loader2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { api, type BillingProfile } from "@/lib/api";
+
+type BillingDetailsForm = Pick<BillingProfile, 'businessName' | 'abn' | 'countryCode' | 'showPricesExTax'>;
+
+function toForm(profile: BillingProfile): BillingDetailsForm {
+  return {
+    businessName: profile.businessName ?? "",
+    abn: profile.abn ?? "",
+    countryCode: profile.countryCode,
+    showPricesExTax: profile.showPricesExTax,
+  };
+}
+
+// Business name, ABN and country printed on tax invoices, plus how prices are shown
+export function BillingDetailsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<BillingDetailsForm | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['billing-profile'],
+    queryFn: () => api.getBillingProfile(),
+  });
+
+  useEffect(() => {
+    if (data && !form) setForm(toForm(data.profile));
+  }, [data, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: (details: BillingDetailsForm) => api.updateBillingProfile({
+      ...details,
+      businessName: details.businessName?.trim() || null,
+      // ABNs only apply to Australian businesses
+      abn: details.countryCode.toUpperCase() === "AU" ? details.abn?.trim() || null : null,
+    }),
+    onSuccess: ({ profile }) => {
+      setForm(toForm(profile));
+      queryClient.invalidateQueries({ queryKey: ['billing-profile'] });
+      toast({
+        title: "Billing Details Saved",
+        description: "New invoices will be issued with these details.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save billing details.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isAustralian = form?.countryCode.toUpperCase() === "AU";
+
+  return (
+    <Card className="p-6" data-testid="billing-details-section">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center border border-primary/20">
+          <Building2 className="h-5 w-5 text-primary" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-foreground">Billing Details</h3>
+          <p className="text-sm text-muted-foreground">
+            Shown on your tax invoices so your business can claim GST credits
+          </p>
+        </div>
+      </div>
+
+      {isLoading || !form ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading billing details...
+        </div>
+      ) : (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate(form);
+          }}
+          className="space-y-4"
+        >
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="billing-business-name">Business name</Label>
+              <Input
+                id="billing-business-name"
+                placeholder="Optional"
+                value={form.businessName ?? ""}
+                maxLength={200}
+                onChange={(e) => setForm({ ...form, businessName: e.target.value })}
+                data-testid="input-business-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="billing-country">Country (2-letter code)</Label>
+              <Input
+                id="billing-country"
+                value={form.countryCode}
+                maxLength={2}
+                onChange={(e) => setForm({ ...form, countryCode: e.target.value.toUpperCase() })}
+                className="font-mono uppercase"
+                data-testid="input-billing-country"
+              />
+            </div>
+            {isAustralian && (
+              <div className="space-y-2">
+                <Label htmlFor="billing-abn">ABN</Label>
+                <Input
+                  id="billing-abn"
+                  placeholder="11 digits"
+                  value={form.abn ?? ""}
+                  maxLength={14}
+                  onChange={(e) => setForm({ ...form, abn: e.target.value })}
+                  className="font-mono"
+                  data-testid="input-abn"
+                />
+              </div>
+            )}
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {isAustralian
+              ? "Prices include 10% GST, which is shown separately on every invoice."
+              : "Services for a business outside Australia are GST-free. Enter your business name to have GST left off your invoices."}
+          </p>
+
+          <div className="flex items-center justify-between gap-4 rounded-lg border border-border bg-background/40 px-4 py-3">
+            <div>
+              <Label htmlFor="billing-ex-tax" className="text-foreground">Show prices excluding GST</Label>
+              <p className="text-xs text-muted-foreground">Amounts on the Billing page are shown before GST.</p>
+            </div>
+            <Switch
+              id="billing-ex-tax"
+              checked={form.showPricesExTax}
+              onCheckedChange={(checked) => setForm({ ...form, showPricesExTax: checked })}
+              data-testid="switch-prices-ex-tax"
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-billing-details">
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </form>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Shield, Trash2, Send } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { api, type FirewallRuleSet } from "@/lib/api";
+
+export function FirewallRuleSetsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [applyTarget, setApplyTarget] = useState<FirewallRuleSet | null>(null);
+  const [selectedServerIds, setSelectedServerIds] = useState<string[]>([]);
+  const [mode, setMode] = useState<'append' | 'replace'>('append');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['firewall-rule-sets'],
+    queryFn: () => api.getFirewallRuleSets(),
+  });
+
+  const { data: servers } = useQuery({
+    queryKey: ['servers'],
+    queryFn: () => api.listServers(),
+    enabled: !!applyTarget,
+  });
+
+  const closeApplyDialog = () => {
+    setApplyTarget(null);
+    setSelectedServerIds([]);
+    setMode('append');
+  };
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => api.deleteFirewallRuleSet(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['firewall-rule-sets'] });
+      toast({
+        title: "Rule Set Deleted",
+        description: "Servers already using these rules keep them.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message || "Failed to delete rule set.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: () => api.applyFirewallRuleSet(applyTarget!.id, selectedServerIds, mode),
+    onSuccess: (result) => {
+      for (const outcome of result.results) {
+        queryClient.invalidateQueries({ queryKey: ['server-firewall', outcome.serverId] });
+      }
+      const failed = result.results.filter((outcome) => !outcome.success);
+      closeApplyDialog();
+      if (failed.length === 0) {
+        toast({
+          title: "Rule Set Applied",
+          description: `Applied to ${result.results.length} server${result.results.length === 1 ? '' : 's'}.`,
+        });
+      } else {
+        const serverName = (id: string) => servers?.find((server) => server.id === id)?.name ?? `Server ${id}`;
+        toast({
+          title: "Some Servers Failed",
+          description: failed.map((outcome) => `${serverName(outcome.serverId)}: ${outcome.error}`).join(' '),
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Apply Failed",
+        description: error.message || "Failed to apply rule set.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const ruleSets = data?.ruleSets ?? [];
+
+  return (
+    <Card className="p-6 mt-6" data-testid="firewall-rule-sets-section">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center border border-primary/20">
+          <Shield className="h-5 w-5 text-primary" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-foreground">Firewall Rule Sets</h3>
+          <p className="text-sm text-muted-foreground">
+            Reusable firewall rules. Save a set from any server's Firewall tab.
+          </p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading rule sets...
+        </div>
+      ) : ruleSets.length ? (
+        <div className="space-y-3">
+          {ruleSets.map((ruleSet) => (
+            <div
+              key={ruleSet.id}
+              className="flex items-start justify-between gap-4 rounded-lg border border-border bg-background/40 p-4"
+              data-testid={`firewall-rule-set-${ruleSet.id}`}
+            >
+              <div className="space-y-1 min-w-0">
+                <p className="font-medium text-foreground break-words">{ruleSet.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {ruleSet.rules.length} rule{ruleSet.rules.length === 1 ? '' : 's'}
+                </p>
+              </div>
+
+              <div className="flex gap-2 flex-shrink-0">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setApplyTarget(ruleSet)}
+                  className="border-border hover:bg-muted/50"
+                  data-testid={`button-apply-rule-set-${ruleSet.id}`}
+                >
+                  <Send className="h-4 w-4 mr-1" />
+                  Apply
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate(ruleSet.id)}
+                  disabled={deleteMutation.isPending}
+                  className="border-red-500/30 text-red-400 hover:bg-red-500/10 hover:text-red-300"
+                  data-testid={`button-delete-rule-set-${ruleSet.id}`}
+                >
+                  {deleteMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="rounded-lg border border-dashed border-border bg-background/30 p-4 text-sm text-muted-foreground">
+          No saved rule sets yet.
+        </div>
+      )}
+
+      <Dialog open={!!applyTarget} onOpenChange={(open) => { if (!open) closeApplyDialog(); }}>
+        <DialogContent className="sm:max-w-md bg-background border-border">
+          <DialogHeader>
+            <DialogTitle className="text-foreground">Apply "{applyTarget?.name}"</DialogTitle>
+            <DialogDescription className="text-muted-foreground">
+              Choose the servers to apply this rule set to.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="max-h-64 overflow-y-auto space-y-2">
+              {servers?.length ? (
+                servers.map((server) => (
+                  <label
+                    key={server.id}
+                    className="flex items-center gap-3 rounded-lg border border-border bg-background/40 p-3 cursor-pointer"
+                  >
+                    <Checkbox
+                      checked={selectedServerIds.includes(server.id)}
+                      onCheckedChange={(checked) =>
+                        setSelectedServerIds((current) =>
+                          checked ? [...current, server.id] : current.filter((id) => id !== server.id)
+                        )
+                      }
+                      disabled={server.suspended}
+                      data-testid={`checkbox-rule-set-server-${server.id}`}
+                    />
+                    <span className="text-sm text-foreground">{server.name}</span>
+                    <span className="text-xs font-mono text-muted-foreground ml-auto">{server.primaryIp}</span>
+                  </label>
+                ))
+              ) : (
+                <p className="text-sm text-muted-foreground">No servers to apply to.</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Existing Rules</Label>
+              <Select value={mode} onValueChange={(value) => setMode(value as 'append' | 'replace')}>
+                <SelectTrigger className="bg-card border-border" data-testid="select-rule-set-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="append">Keep them and add this set after</SelectItem>
+                  <SelectItem value="replace">Replace them with this set</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={closeApplyDialog} className="border-border text-foreground">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => applyMutation.mutate()}
+              disabled={selectedServerIds.length === 0 || applyMutation.isPending}
+              data-testid="button-confirm-apply-rule-set"
+            >
+              {applyMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Apply to {selectedServerIds.length} server{selectedServerIds.length === 1 ? '' : 's'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
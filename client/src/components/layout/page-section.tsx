@@ -3,6 +3,7 @@ import { cn } from "@/lib/utils";
 interface PageSectionProps {
   title?: string;
   description?: string;
+  action?: React.ReactNode;
   children: React.ReactNode;
   className?: string;
   headerClassName?: string;
@@ -12,6 +13,7 @@ interface PageSectionProps {
 export function PageSection({
   title,
   description,
+  action,
   children,
   className,
   headerClassName,
@@ -20,13 +22,16 @@ export function PageSection({
   return (
     <section className={className}>
       {(title || description) && (
-        <div className={cn("mb-6", headerClassName)}>
-          {title && (
-            <h2 className="text-xl font-semibold text-foreground">{title}</h2>
-          )}
-          {description && (
-            <p className="text-sm text-muted-foreground mt-1">{description}</p>
-          )}
+        <div className={cn("mb-6 flex flex-wrap items-start justify-between gap-4", headerClassName)}>
+          <div>
+            {title && (
+              <h2 className="text-xl font-semibold text-foreground">{title}</h2>
+            )}
+            {description && (
+              <p className="text-sm text-muted-foreground mt-1">{description}</p>
+            )}
+          </div>
+          {action}
         </div>
       )}
       <div className={contentClassName}>{children}</div>
@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, FolderOpen, Plus, Trash2, Pencil, Check, X } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+
+export function ProjectsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['projects'],
+    queryFn: () => api.getProjects(),
+  });
+
+  // Project names show up on the dashboard, server pages and billing
+  const invalidateProjectViews = () => {
+    queryClient.invalidateQueries({ queryKey: ['projects'] });
+    queryClient.invalidateQueries({ queryKey: ['dashboard-overview'] });
+    queryClient.invalidateQueries({ queryKey: ['server-labels'] });
+    queryClient.invalidateQueries({ queryKey: ['upcoming-charges'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => api.createProject(newName.trim()),
+    onSuccess: () => {
+      setNewName("");
+      invalidateProjectViews();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Project Not Created",
+        description: error.message || "Failed to create project.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: () => api.renameProject(editingId!, editingName.trim()),
+    onSuccess: () => {
+      setEditingId(null);
+      invalidateProjectViews();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Rename Failed",
+        description: error.message || "Failed to rename project.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => api.deleteProject(id),
+    onSuccess: () => {
+      invalidateProjectViews();
+      toast({
+        title: "Project Deleted",
+        description: "Servers in this project are now unassigned.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message || "Failed to delete project.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const projects = data?.projects ?? [];
+  const maxProjects = data?.maxProjects ?? 50;
+
+  return (
+    <Card className="p-6 mt-6" data-testid="projects-section">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center border border-primary/20">
+          <FolderOpen className="h-5 w-5 text-primary" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-foreground">Projects</h3>
+          <p className="text-sm text-muted-foreground">
+            Group servers and see billing subtotals per project
+          </p>
+        </div>
+      </div>
+
+      <div className="flex gap-2 mb-4">
+        <Input
+          placeholder="New project name"
+          value={newName}
+          maxLength={64}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && newName.trim()) createMutation.mutate();
+          }}
+          data-testid="input-project-name"
+        />
+        <Button
+          variant="outline"
+          className="border-border hover:bg-muted/50"
+          onClick={() => createMutation.mutate()}
+          disabled={!newName.trim() || createMutation.isPending || projects.length >= maxProjects}
+          data-testid="button-add-project"
+        >
+          {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading projects...
+        </div>
+      ) : projects.length ? (
+        <div className="space-y-2">
+          {projects.map((project) => (
+            <div
+              key={project.id}
+              className="flex items-center justify-between gap-4 rounded-lg border border-border bg-background/40 px-4 py-3"
+              data-testid={`project-${project.id}`}
+            >
+              {editingId === project.id ? (
+                <Input
+                  value={editingName}
+                  maxLength={64}
+                  onChange={(e) => setEditingName(e.target.value)}
+                  className="h-8"
+                  autoFocus
+                />
+              ) : (
+                <span className="font-medium text-foreground truncate">{project.name}</span>
+              )}
+              <div className="flex gap-1 flex-shrink-0">
+                {editingId === project.id ? (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => renameMutation.mutate()}
+                      disabled={!editingName.trim() || renameMutation.isPending}
+                    >
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setEditingId(project.id);
+                      setEditingName(project.name);
+                    }}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate(project.id)}
+                  disabled={deleteMutation.isPending}
+                  className="border-red-500/30 text-red-400 hover:bg-red-500/10 hover:text-red-300"
+                  data-testid={`button-delete-project-${project.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="rounded-lg border border-dashed border-border bg-background/30 p-4 text-sm text-muted-foreground">
+          No projects yet. You can also create one when tagging a server.
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+
+interface ReverseDnsDialogProps {
+  serverId: string;
+  target: { address: string; ptr: string | null } | null;
+  onClose: () => void;
+}
+
+export function ReverseDnsDialog({ serverId, target, onClose }: ReverseDnsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [hostname, setHostname] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setHostname(target?.ptr ?? "");
+    setError(null);
+  }, [target]);
+
+  const updateMutation = useMutation({
+    mutationFn: (value: string | null) => api.updateReverseDns(serverId, target!.address, value),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['network', serverId] });
+      toast({
+        title: "Reverse DNS Updated",
+        description: result.ptr
+          ? `${result.address} now points to ${result.ptr}. It can take a few minutes to propagate.`
+          : `${result.address} has been reset to its default PTR record.`,
+      });
+      onClose();
+    },
+    onError: (err: any) => {
+      setError(err.message || "Failed to update reverse DNS.");
+    },
+  });
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-md bg-background border-border">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">Edit Reverse DNS</DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            Set the PTR record for <span className="font-mono text-foreground">{target?.address}</span>. The hostname
+            must already have an A or AAAA record pointing to this address.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="ptr-hostname">Hostname</Label>
+          <Input
+            id="ptr-hostname"
+            placeholder="mail.example.com"
+            value={hostname}
+            maxLength={253}
+            onChange={(e) => {
+              setHostname(e.target.value);
+              setError(null);
+            }}
+            className="font-mono"
+            data-testid="input-ptr-hostname"
+          />
+          {error && <p className="text-sm text-red-400" data-testid="text-ptr-error">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {target?.ptr && (
+            <Button
+              variant="ghost"
+              onClick={() => updateMutation.mutate(null)}
+              disabled={updateMutation.isPending}
+              className="sm:mr-auto"
+              data-testid="button-reset-ptr"
+            >
+              Reset to Default
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose} className="border-border text-foreground">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => updateMutation.mutate(hostname.trim())}
+            disabled={!hostname.trim() || updateMutation.isPending}
+            data-testid="button-save-ptr"
+          >
+            {updateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
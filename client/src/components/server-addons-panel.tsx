@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Globe, Loader2, Plus, Trash2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { api, type ServerAddon, type ServerAddonOffer } from "@/lib/api";
+
+interface ServerAddonsPanelProps {
+  serverId: string;
+  disabled?: boolean;
+  disabledReason?: string;
+}
+
+function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+export function ServerAddonsPanel({ serverId, disabled, disabledReason }: ServerAddonsPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [purchaseTarget, setPurchaseTarget] = useState<ServerAddonOffer | null>(null);
+  const [removeTarget, setRemoveTarget] = useState<ServerAddon | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['server-addons', serverId],
+    queryFn: () => api.getServerAddons(serverId),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['server-addons', serverId] });
+    queryClient.invalidateQueries({ queryKey: ['network', serverId] });
+    queryClient.invalidateQueries({ queryKey: ['upcoming-charges'] });
+  };
+
+  const purchaseMutation = useMutation({
+    mutationFn: (offer: ServerAddonOffer) => api.purchaseServerAddon(serverId, offer.type),
+    onSuccess: (result) => {
+      setPurchaseTarget(null);
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['wallet'] });
+      toast({
+        title: "Address Added",
+        description: result.addon.address
+          ? `${result.addon.address} is now assigned to your server. You may need to configure it inside the OS.`
+          : "The address is being assigned to your server.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Purchase Failed",
+        description: error.message || "Failed to add the IP address.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (addon: ServerAddon) => api.cancelServerAddon(serverId, addon.id),
+    onSuccess: () => {
+      setRemoveTarget(null);
+      invalidate();
+      toast({
+        title: "Address Removed",
+        description: "It won't be included in your next renewal.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Remove Failed",
+        description: error.message || "Failed to remove the IP address.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addons = data?.addons ?? [];
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-6">
+        <div>
+          <h3 className="text-lg font-bold text-foreground mb-2">Additional IPs</h3>
+          <p className="text-sm text-muted-foreground">
+            Add more IPv4 addresses or a routed IPv6 prefix. Each one is billed monthly with your server's renewal.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading add-ons...
+          </div>
+        ) : !data ? (
+          <div className="rounded-lg border border-dashed border-border bg-background/30 p-4 text-sm text-muted-foreground">
+            Additional IPs are not available for this server.
+          </div>
+        ) : (
+          <>
+            {addons.length > 0 && (
+              <div className="space-y-2">
+                {addons.map((addon) => (
+                  <div key={addon.id} className="flex items-center justify-between p-3 bg-muted/50 rounded-md border border-border">
+                    <div className="min-w-0">
+                      <span className="font-mono text-foreground text-sm">{addon.address || 'Assigning...'}</span>
+                      <div className="text-xs text-muted-foreground">{addon.label} • {formatCents(addon.monthlyPriceCents)}/mo</div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setRemoveTarget(addon)}
+                      disabled={disabled}
+                      data-testid={`button-remove-addon-${addon.id}`}
+                    >
+                      <Trash2 className="h-4 w-4 text-muted-foreground" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {data.offers.map((offer) => (
+                <div key={offer.type} className="p-4 rounded-lg border border-border bg-card space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Globe className="h-4 w-4 text-primary" />
+                    <span className="font-semibold text-foreground">{offer.label}</span>
+                  </div>
+                  <div className="text-sm text-foreground">{formatCents(offer.monthlyPriceCents)}/mo</div>
+                  {!offer.available && offer.reason && (
+                    <div className="text-xs text-amber-400/80">{offer.reason}</div>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setPurchaseTarget(offer)}
+                    disabled={disabled || !offer.available}
+                    className="border-border"
+                    data-testid={`button-add-${offer.type}`}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {disabled && disabledReason && (
+              <p className="text-sm text-amber-400/80">{disabledReason}</p>
+            )}
+          </>
+        )}
+      </div>
+
+      <Dialog open={!!purchaseTarget} onOpenChange={(open) => { if (!open) setPurchaseTarget(null); }}>
+        <DialogContent className="sm:max-w-md bg-background border-border">
+          <DialogHeader>
+            <DialogTitle className="text-foreground">Add {purchaseTarget?.label}</DialogTitle>
+            <DialogDescription className="text-muted-foreground">
+              {purchaseTarget && data?.billingCycle === 'hourly'
+                ? `It's metered hourly with your server from now on, adding up to ${formatCents(purchaseTarget.monthlyPriceCents)}/mo.`
+                : purchaseTarget && (
+                  <>
+                    {purchaseTarget.proratedAmountCents > 0
+                      ? `${formatCents(purchaseTarget.proratedAmountCents)} will be charged from your wallet now for the rest of this billing period.`
+                      : 'No charge for the rest of this billing period.'}{' '}
+                    {`From your next renewal it adds ${formatCents(purchaseTarget.monthlyPriceCents)}/mo.`}
+                  </>
+                )}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setPurchaseTarget(null)} className="border-border text-foreground">
+              Cancel
+            </Button>
+            <Button
+              disabled={purchaseMutation.isPending}
+              onClick={() => purchaseTarget && purchaseMutation.mutate(purchaseTarget)}
+              className="bg-blue-600 hover:bg-blue-700 text-white"
+              data-testid="button-confirm-addon-purchase"
+            >
+              {purchaseMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!removeTarget} onOpenChange={(open) => { if (!open) setRemoveTarget(null); }}>
+        <DialogContent className="sm:max-w-md bg-background border-border">
+          <DialogHeader>
+            <DialogTitle className="text-foreground">Remove {removeTarget?.address || 'address'}?</DialogTitle>
+            <DialogDescription className="text-muted-foreground">
+              The address is released straight away and may be given to another customer. There is no refund for the
+              rest of the current period.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setRemoveTarget(null)} className="border-border text-foreground">
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={removeMutation.isPending}
+              onClick={() => removeTarget && removeMutation.mutate(removeTarget)}
+              data-testid="button-confirm-addon-remove"
+            >
+              {removeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Remove
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
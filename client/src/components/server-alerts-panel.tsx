@@ -0,0 +1,364 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Plus, Trash2, BellRing, Webhook } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { api, type AlertRule, type ResourceAlertMetric } from "@/lib/api";
+
+interface ServerAlertsPanelProps {
+  serverId: string;
+  disabled?: boolean;
+  disabledReason?: string;
+}
+
+const METRIC_LABELS: Record<ResourceAlertMetric, string> = {
+  cpu: 'CPU usage',
+  memory: 'Memory usage',
+  disk: 'Disk usage',
+  transfer: 'Monthly transfer used',
+};
+
+const DURATION_OPTIONS = [
+  { value: 0, label: 'Immediately' },
+  { value: 5, label: 'For 5 minutes' },
+  { value: 10, label: 'For 10 minutes' },
+  { value: 30, label: 'For 30 minutes' },
+  { value: 60, label: 'For 1 hour' },
+];
+
+const COOLDOWN_OPTIONS = [
+  { value: 30, label: '30 minutes' },
+  { value: 60, label: '1 hour' },
+  { value: 360, label: '6 hours' },
+  { value: 1440, label: '24 hours' },
+];
+
+function formatDateTime(value: string | null): string {
+  if (!value) return '—';
+  return new Date(value).toLocaleString('en-AU', { timeZone: 'Australia/Brisbane', dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+function describeRule(rule: AlertRule): string {
+  const base = `${METRIC_LABELS[rule.metric]} ≥ ${rule.thresholdPercent}%`;
+  if (rule.metric === 'transfer' || rule.durationMinutes === 0) return base;
+  return `${base} for ${formatMinutes(rule.durationMinutes)}`;
+}
+
+export function ServerAlertsPanel({ serverId, disabled, disabledReason }: ServerAlertsPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [creating, setCreating] = useState(false);
+  const [metric, setMetric] = useState<ResourceAlertMetric>('cpu');
+  const [threshold, setThreshold] = useState("90");
+  const [durationMinutes, setDurationMinutes] = useState(10);
+  const [cooldownMinutes, setCooldownMinutes] = useState(60);
+  const [webhookUrl, setWebhookUrl] = useState("");
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['server-alerts', serverId],
+    queryFn: () => api.getAlertRules(serverId),
+    refetchInterval: 60000,
+  });
+
+  const closeCreateForm = () => {
+    setCreating(false);
+    setMetric('cpu');
+    setThreshold("90");
+    setDurationMinutes(10);
+    setCooldownMinutes(60);
+    setWebhookUrl("");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => api.createAlertRule(serverId, {
+      metric,
+      thresholdPercent: Number(threshold),
+      durationMinutes: metric === 'transfer' ? 0 : durationMinutes,
+      cooldownMinutes,
+      webhookUrl: webhookUrl.trim() || null,
+    }),
+    onSuccess: () => {
+      closeCreateForm();
+      queryClient.invalidateQueries({ queryKey: ['server-alerts', serverId] });
+      toast({
+        title: "Alert Created",
+        description: "We'll email you when this rule is triggered and again when it resolves.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Alert Not Created",
+        description: error.message || "Failed to create alert rule.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, enabled }: { id: number; enabled: boolean }) => api.updateAlertRule(serverId, id, { enabled }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['server-alerts', serverId] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update alert rule.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => api.deleteAlertRule(serverId, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['server-alerts', serverId] });
+      toast({
+        title: "Alert Deleted",
+        description: "The alert rule has been removed.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message || "Failed to delete alert rule.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rules = data?.rules ?? [];
+  const events = data?.events ?? [];
+  const maxRules = data?.maxRules ?? 10;
+  const thresholdValue = Number(threshold);
+  const thresholdValid = Number.isInteger(thresholdValue) && thresholdValue >= 1 && thresholdValue <= 100;
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-bold text-foreground mb-2">Resource Alerts</h3>
+            <p className="text-sm text-muted-foreground">
+              Get an email, and optionally a webhook, when CPU, memory, disk or monthly transfer usage crosses a
+              threshold. Usage is checked every minute.
+            </p>
+          </div>
+          {!creating && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="border-border hover:bg-muted/50 flex-shrink-0"
+              onClick={() => setCreating(true)}
+              disabled={disabled || rules.length >= maxRules}
+              data-testid="button-add-alert-rule"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Alert
+            </Button>
+          )}
+        </div>
+
+        {creating && (
+          <div className="rounded-lg border border-border bg-muted/20 p-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <div className="space-y-2">
+                <Label>Metric</Label>
+                <Select value={metric} onValueChange={(value) => setMetric(value as ResourceAlertMetric)}>
+                  <SelectTrigger className="bg-card border-border" data-testid="select-alert-metric">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(METRIC_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="alert-threshold">Threshold (%)</Label>
+                <Input
+                  id="alert-threshold"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                  data-testid="input-alert-threshold"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Sustained</Label>
+                <Select
+                  value={String(metric === 'transfer' ? 0 : durationMinutes)}
+                  onValueChange={(value) => setDurationMinutes(Number(value))}
+                  disabled={metric === 'transfer'}
+                >
+                  <SelectTrigger className="bg-card border-border" data-testid="select-alert-duration">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DURATION_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Repeat every</Label>
+                <Select value={String(cooldownMinutes)} onValueChange={(value) => setCooldownMinutes(Number(value))}>
+                  <SelectTrigger className="bg-card border-border" data-testid="select-alert-cooldown">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COOLDOWN_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="alert-webhook">Webhook URL (optional)</Label>
+              <Input
+                id="alert-webhook"
+                placeholder="https://example.com/hooks/ozvps"
+                value={webhookUrl}
+                maxLength={500}
+                onChange={(e) => setWebhookUrl(e.target.value)}
+                className="font-mono"
+                data-testid="input-alert-webhook"
+              />
+              <p className="text-xs text-muted-foreground">
+                We'll POST a JSON payload to this HTTPS address when the alert fires and when it resolves.
+              </p>
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1 border-border hover:bg-muted/50"
+                onClick={closeCreateForm}
+              >
+                Cancel
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={() => createMutation.mutate()}
+                disabled={createMutation.isPending || !thresholdValid}
+                data-testid="button-create-alert-rule"
+              >
+                {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Create Alert
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading alert rules...
+          </div>
+        ) : rules.length === 0 ? (
+          <div className="rounded-lg border border-dashed border-border bg-background/30 p-4 text-sm text-muted-foreground">
+            No alert rules yet.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {rules.map((rule) => (
+              <div
+                key={rule.id}
+                className="flex items-center justify-between gap-4 rounded-lg border border-border bg-background/40 p-4"
+                data-testid={`alert-rule-${rule.id}`}
+              >
+                <div className="flex items-start gap-3 min-w-0">
+                  <BellRing className={cn("h-5 w-5 mt-0.5 flex-shrink-0", rule.state === 'firing' ? "text-red-400" : "text-primary")} />
+                  <div className="space-y-1 min-w-0">
+                    <p className="font-medium text-foreground flex items-center gap-2">
+                      {describeRule(rule)}
+                      {rule.enabled && rule.state === 'firing' && (
+                        <Badge variant="destructive" className="text-[11px] px-2 py-0">Firing</Badge>
+                      )}
+                      {rule.webhookUrl && (
+                        <span title={rule.webhookUrl}><Webhook className="h-3.5 w-3.5 text-muted-foreground" /></span>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {rule.enabled ? `Repeats every ${formatMinutes(rule.cooldownMinutes)} while firing` : 'Paused'}
+                      {rule.lastValue !== null && (
+                        <>{' • '}Last reading: {rule.lastValue}% at {formatDateTime(rule.lastCheckedAt)}</>
+                      )}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  <Switch
+                    checked={rule.enabled}
+                    onCheckedChange={(enabled) => toggleMutation.mutate({ id: rule.id, enabled })}
+                    disabled={disabled || toggleMutation.isPending}
+                    data-testid={`switch-alert-rule-${rule.id}`}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(rule.id)}
+                    disabled={deleteMutation.isPending}
+                    className="border-red-500/30 text-red-400 hover:bg-red-500/10 hover:text-red-300"
+                    data-testid={`button-delete-alert-rule-${rule.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {events.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold text-foreground">Recent Notifications</h4>
+            <div className="rounded-lg border border-border divide-y divide-border">
+              {events.map((event) => (
+                <div key={event.id} className="flex items-center justify-between gap-4 px-4 py-2 text-sm">
+                  <span className="text-foreground">
+                    {METRIC_LABELS[event.metric]} {event.value}%
+                  </span>
+                  <span className="text-muted-foreground">{formatDateTime(event.createdAt)}</span>
+                  <span
+                    className={cn(
+                      "text-xs font-semibold uppercase",
+                      event.kind === 'firing' ? "text-red-400" : "text-green-400"
+                    )}
+                    title={event.webhookStatus ? `Webhook ${event.webhookStatus}` : undefined}
+                  >
+                    {event.kind}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {disabled && disabledReason && (
+          <p className="text-sm text-amber-400/80">{disabledReason}</p>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,464 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Plus, Trash2, Save, ArrowUp, ArrowDown } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { api, type FirewallRule } from "@/lib/api";
+
+interface ServerFirewallPanelProps {
+  serverId: string;
+  disabled?: boolean;
+  disabledReason?: string;
+}
+
+const EMPTY_RULE: FirewallRule = {
+  direction: 'inbound',
+  protocol: 'tcp',
+  portStart: null,
+  portEnd: null,
+  cidr: '0.0.0.0/0',
+  action: 'allow',
+  description: null,
+};
+
+function formatFirewallPorts(rule: FirewallRule): string {
+  if (rule.protocol === 'icmp' || rule.protocol === 'any') return '—';
+  if (rule.portStart === null) return 'All';
+  return rule.portStart === rule.portEnd ? String(rule.portStart) : `${rule.portStart}-${rule.portEnd}`;
+}
+
+// Accepts "22", "8000-8100" or blank for all ports
+function parsePortRange(value: string): { portStart: number | null; portEnd: number | null } | null {
+  const trimmed = value.trim();
+  if (!trimmed) return { portStart: null, portEnd: null };
+  const match = trimmed.match(/^(\d{1,5})(?:\s*-\s*(\d{1,5}))?$/);
+  if (!match) return null;
+  const portStart = Number(match[1]);
+  const portEnd = match[2] ? Number(match[2]) : portStart;
+  if (portStart < 1 || portEnd > 65535 || portEnd < portStart) return null;
+  return { portStart, portEnd };
+}
+
+export function ServerFirewallPanel({ serverId, disabled, disabledReason }: ServerFirewallPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rules, setRules] = useState<FirewallRule[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [draft, setDraft] = useState<FirewallRule>(EMPTY_RULE);
+  const [draftPorts, setDraftPorts] = useState("22");
+  const [ruleSetName, setRuleSetName] = useState("");
+  const [selectedRuleSetId, setSelectedRuleSetId] = useState<string>("");
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['server-firewall', serverId],
+    queryFn: () => api.getFirewall(serverId),
+  });
+
+  const { data: ruleSetsData } = useQuery({
+    queryKey: ['firewall-rule-sets'],
+    queryFn: () => api.getFirewallRuleSets(),
+  });
+
+  useEffect(() => {
+    if (data && !dirty) {
+      setRules(data.rules);
+    }
+  }, [data, dirty]);
+
+  const maxRules = data?.maxRules ?? 50;
+  const ruleSets = ruleSetsData?.ruleSets ?? [];
+  const portsApply = draft.protocol === 'tcp' || draft.protocol === 'udp';
+
+  const updateRules = (next: FirewallRule[]) => {
+    setRules(next);
+    setDirty(true);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => api.updateFirewall(serverId, rules),
+    onSuccess: (result) => {
+      setRules(result.rules);
+      setDirty(false);
+      queryClient.invalidateQueries({ queryKey: ['server-firewall', serverId] });
+      toast({
+        title: "Firewall Updated",
+        description: result.rules.length > 0
+          ? `${result.rules.length} rule${result.rules.length === 1 ? '' : 's'} applied to your server.`
+          : "All rules removed. The firewall is now off.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Firewall Update Failed",
+        description: error.message || "Failed to update firewall rules.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveRuleSetMutation = useMutation({
+    mutationFn: () => api.createFirewallRuleSet(ruleSetName.trim(), rules),
+    onSuccess: (result) => {
+      setRuleSetName("");
+      queryClient.invalidateQueries({ queryKey: ['firewall-rule-sets'] });
+      toast({
+        title: "Rule Set Saved",
+        description: `"${result.ruleSet.name}" can now be applied to your other servers.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save rule set.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const applyRuleSetMutation = useMutation({
+    mutationFn: (ruleSetId: number) => api.applyFirewallRuleSet(ruleSetId, [serverId], 'append'),
+    onSuccess: (result) => {
+      const outcome = result.results[0];
+      if (outcome && !outcome.success) {
+        toast({
+          title: "Apply Failed",
+          description: outcome.error || "Failed to apply rule set.",
+          variant: "destructive",
+        });
+        return;
+      }
+      setSelectedRuleSetId("");
+      setDirty(false);
+      queryClient.invalidateQueries({ queryKey: ['server-firewall', serverId] });
+      toast({
+        title: "Rule Set Applied",
+        description: "The rules were added to this server's firewall.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Apply Failed",
+        description: error.message || "Failed to apply rule set.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addRule = () => {
+    const ports = portsApply ? parsePortRange(draftPorts) : { portStart: null, portEnd: null };
+    if (!ports) {
+      toast({
+        title: "Invalid Port",
+        description: "Enter a port such as 22, a range such as 8000-8100, or leave it blank for all ports.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!draft.cidr.trim()) {
+      toast({
+        title: "Invalid Address",
+        description: "Enter an IP address or CIDR range, e.g. 0.0.0.0/0.",
+        variant: "destructive",
+      });
+      return;
+    }
+    updateRules([...rules, { ...draft, ...ports, cidr: draft.cidr.trim(), description: draft.description?.trim() || null }]);
+    setDraft({ ...EMPTY_RULE, direction: draft.direction });
+    setDraftPorts("");
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateRules(next);
+  };
+
+  const isBusy = saveMutation.isPending || applyRuleSetMutation.isPending;
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-bold text-foreground mb-2">Firewall</h3>
+            <p className="text-sm text-muted-foreground">
+              Rules are enforced at the hypervisor, so they keep working after a reinstall. Rules are checked from
+              top to bottom and the first match wins.
+            </p>
+          </div>
+          <span className="text-sm text-muted-foreground whitespace-nowrap" data-testid="text-firewall-usage">
+            {rules.length} / {maxRules} rules
+          </span>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading firewall rules...
+          </div>
+        ) : (
+          <>
+            {rules.length === 0 ? (
+              <div className="rounded-lg border border-dashed border-border bg-background/30 p-4 text-sm text-muted-foreground">
+                No firewall rules. All traffic is allowed.
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {rules.map((rule, index) => (
+                  <div
+                    key={index}
+                    className="flex items-center justify-between gap-3 rounded-lg border border-border bg-background/40 p-3"
+                    data-testid={`firewall-rule-${index}`}
+                  >
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm min-w-0">
+                      <span
+                        className={cn(
+                          "text-xs font-semibold uppercase px-2 py-0.5 rounded",
+                          rule.action === 'allow' ? "bg-green-500/10 text-green-400" : "bg-red-500/10 text-red-400"
+                        )}
+                      >
+                        {rule.action}
+                      </span>
+                      <span className="text-muted-foreground capitalize">{rule.direction}</span>
+                      <span className="font-mono text-foreground uppercase">{rule.protocol}</span>
+                      <span className="font-mono text-foreground">{formatFirewallPorts(rule)}</span>
+                      <span className="font-mono text-muted-foreground">
+                        {rule.direction === 'inbound' ? 'from' : 'to'} {rule.cidr}
+                      </span>
+                      {rule.description && (
+                        <span className="text-xs text-muted-foreground truncate">{rule.description}</span>
+                      )}
+                    </div>
+                    <div className="flex gap-1 flex-shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => moveRule(index, -1)}
+                        disabled={disabled || index === 0}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => moveRule(index, 1)}
+                        disabled={disabled || index === rules.length - 1}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => updateRules(rules.filter((_, i) => i !== index))}
+                        disabled={disabled}
+                        className="border-red-500/30 text-red-400 hover:bg-red-500/10 hover:text-red-300"
+                        data-testid={`button-remove-firewall-rule-${index}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="rounded-lg border border-border bg-muted/20 p-4 space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="space-y-2">
+                  <Label>Direction</Label>
+                  <Select
+                    value={draft.direction}
+                    onValueChange={(value) => setDraft({ ...draft, direction: value as FirewallRule['direction'] })}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger className="bg-card border-border" data-testid="select-firewall-direction">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="inbound">Inbound</SelectItem>
+                      <SelectItem value="outbound">Outbound</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Protocol</Label>
+                  <Select
+                    value={draft.protocol}
+                    onValueChange={(value) => setDraft({ ...draft, protocol: value as FirewallRule['protocol'] })}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger className="bg-card border-border" data-testid="select-firewall-protocol">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="tcp">TCP</SelectItem>
+                      <SelectItem value="udp">UDP</SelectItem>
+                      <SelectItem value="icmp">ICMP</SelectItem>
+                      <SelectItem value="any">Any</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="firewall-ports">Ports</Label>
+                  <Input
+                    id="firewall-ports"
+                    placeholder={portsApply ? "All ports" : "N/A"}
+                    value={portsApply ? draftPorts : ""}
+                    onChange={(e) => setDraftPorts(e.target.value)}
+                    disabled={disabled || !portsApply}
+                    data-testid="input-firewall-ports"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Action</Label>
+                  <Select
+                    value={draft.action}
+                    onValueChange={(value) => setDraft({ ...draft, action: value as FirewallRule['action'] })}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger className="bg-card border-border" data-testid="select-firewall-action">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="allow">Allow</SelectItem>
+                      <SelectItem value="deny">Deny</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="firewall-cidr">{draft.direction === 'inbound' ? 'Source' : 'Destination'} (IP or CIDR)</Label>
+                  <Input
+                    id="firewall-cidr"
+                    placeholder="0.0.0.0/0"
+                    value={draft.cidr}
+                    onChange={(e) => setDraft({ ...draft, cidr: e.target.value })}
+                    disabled={disabled}
+                    data-testid="input-firewall-cidr"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="firewall-description">Description</Label>
+                  <Input
+                    id="firewall-description"
+                    placeholder="Optional, e.g. SSH from office"
+                    value={draft.description ?? ""}
+                    maxLength={100}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                    disabled={disabled}
+                    data-testid="input-firewall-description"
+                  />
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                onClick={addRule}
+                disabled={disabled || rules.length >= maxRules}
+                className="border-border hover:bg-muted/50"
+                data-testid="button-add-firewall-rule"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rule
+              </Button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={disabled || !dirty || isBusy}
+                className="bg-blue-600 hover:bg-blue-700 text-white"
+                data-testid="button-save-firewall"
+              >
+                {saveMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="h-4 w-4 mr-2" />
+                )}
+                Apply Changes
+              </Button>
+              {dirty && (
+                <Button
+                  variant="ghost"
+                  onClick={() => setDirty(false)}
+                  disabled={isBusy}
+                >
+                  Discard
+                </Button>
+              )}
+            </div>
+            {disabled && disabledReason && (
+              <p className="text-sm text-amber-400/80">{disabledReason}</p>
+            )}
+
+            <div className="border-t border-border pt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <Label>Apply a Saved Rule Set</Label>
+                <div className="flex gap-2">
+                  <Select value={selectedRuleSetId} onValueChange={setSelectedRuleSetId} disabled={disabled || ruleSets.length === 0}>
+                    <SelectTrigger className="bg-card border-border" data-testid="select-firewall-rule-set">
+                      <SelectValue placeholder={ruleSets.length === 0 ? "No saved rule sets" : "Choose a rule set"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ruleSets.map((ruleSet) => (
+                        <SelectItem key={ruleSet.id} value={String(ruleSet.id)}>
+                          {ruleSet.name} ({ruleSet.rules.length})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    onClick={() => applyRuleSetMutation.mutate(Number(selectedRuleSetId))}
+                    disabled={disabled || !selectedRuleSetId || dirty || isBusy}
+                    className="border-border hover:bg-muted/50"
+                    data-testid="button-apply-firewall-rule-set"
+                  >
+                    {applyRuleSetMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Apply
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Adds the set's rules after this server's existing rules.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="firewall-rule-set-name">Save These Rules as a Set</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="firewall-rule-set-name"
+                    placeholder="e.g. Web server"
+                    value={ruleSetName}
+                    maxLength={64}
+                    onChange={(e) => setRuleSetName(e.target.value)}
+                    data-testid="input-firewall-rule-set-name"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => saveRuleSetMutation.mutate()}
+                    disabled={!ruleSetName.trim() || rules.length === 0 || saveRuleSetMutation.isPending}
+                    className="border-border hover:bg-muted/50"
+                    data-testid="button-save-firewall-rule-set"
+                  >
+                    {saveRuleSetMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Save
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Manage and apply saved sets to several servers from your account page.
+                </p>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </Card>
+  );
+}
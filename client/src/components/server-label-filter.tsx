@@ -0,0 +1,102 @@
+import { Layers } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import type { Project } from "@/lib/api";
+import type { Server } from "@/lib/types";
+
+export interface ServerLabelFilterState {
+  tag: string; // 'all' or a tag
+  project: string; // 'all', 'none' or a project id
+  groupByProject: boolean;
+}
+
+export const DEFAULT_SERVER_LABEL_FILTER: ServerLabelFilterState = {
+  tag: 'all',
+  project: 'all',
+  groupByProject: false,
+};
+
+export function filterServersByLabels<T extends Pick<Server, 'tags' | 'project'>>(servers: T[], filter: ServerLabelFilterState): T[] {
+  return servers.filter((server) => {
+    if (filter.tag !== 'all' && !(server.tags ?? []).includes(filter.tag)) return false;
+    if (filter.project === 'none') return !server.project;
+    if (filter.project !== 'all') return String(server.project?.id) === filter.project;
+    return true;
+  });
+}
+
+// Groups in project name order, with servers outside any project last
+export function groupServersByProject<T extends Pick<Server, 'project'>>(servers: T[]): Array<{ key: string; name: string; servers: T[] }> {
+  const groups = new Map<string, { key: string; name: string; servers: T[] }>();
+  for (const server of servers) {
+    const key = server.project ? String(server.project.id) : 'none';
+    if (!groups.has(key)) {
+      groups.set(key, { key, name: server.project?.name ?? 'No Project', servers: [] });
+    }
+    groups.get(key)!.servers.push(server);
+  }
+  return Array.from(groups.values()).sort((a, b) => {
+    if (a.key === 'none') return 1;
+    if (b.key === 'none') return -1;
+    return a.name.localeCompare(b.name);
+  });
+}
+
+interface ServerLabelFilterProps {
+  servers: Pick<Server, 'tags'>[];
+  projects: Project[];
+  value: ServerLabelFilterState;
+  onChange: (value: ServerLabelFilterState) => void;
+}
+
+export function ServerLabelFilter({ servers, projects, value, onChange }: ServerLabelFilterProps) {
+  const tags = Array.from(new Set(servers.flatMap((server) => server.tags ?? []))).sort();
+
+  if (tags.length === 0 && projects.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" data-testid="server-label-filter">
+      {projects.length > 0 && (
+        <Select value={value.project} onValueChange={(project) => onChange({ ...value, project })}>
+          <SelectTrigger className="w-44 bg-card border-border" data-testid="select-filter-project">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All projects</SelectItem>
+            {projects.map((project) => (
+              <SelectItem key={project.id} value={String(project.id)}>{project.name}</SelectItem>
+            ))}
+            <SelectItem value="none">No project</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+      {tags.length > 0 && (
+        <Select value={value.tag} onValueChange={(tag) => onChange({ ...value, tag })}>
+          <SelectTrigger className="w-40 bg-card border-border" data-testid="select-filter-tag">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All tags</SelectItem>
+            {tags.map((tag) => (
+              <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {projects.length > 0 && (
+        <Button
+          variant="outline"
+          onClick={() => onChange({ ...value, groupByProject: !value.groupByProject })}
+          className={cn(value.groupByProject && "border-primary text-primary")}
+          data-testid="button-group-by-project"
+        >
+          <Layers className="h-4 w-4 mr-2" />
+          Group by project
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Tag, X, FolderOpen } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+
+const NEW_PROJECT = '__new__';
+
+interface ServerLabelsProps {
+  serverId: string;
+}
+
+// Tags and project shown under the server name, with a dialog to edit them
+export function ServerLabels({ serverId }: ServerLabelsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState("");
+  const [projectValue, setProjectValue] = useState("none");
+  const [newProjectName, setNewProjectName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: labels } = useQuery({
+    queryKey: ['server-labels', serverId],
+    queryFn: () => api.getServerLabels(serverId),
+  });
+
+  const { data: projectsData } = useQuery({
+    queryKey: ['projects'],
+    queryFn: () => api.getProjects(),
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open && labels) {
+      setTags(labels.tags);
+      setProjectValue(labels.project ? String(labels.project.id) : 'none');
+      setTagInput("");
+      setNewProjectName("");
+      setError(null);
+    }
+  }, [open, labels]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const pendingTags = [...tags, ...tagInput.split(/[\s,]+/).filter(Boolean)];
+      let projectId: number | null = projectValue === 'none' ? null : Number(projectValue);
+      if (projectValue === NEW_PROJECT) {
+        const { project } = await api.createProject(newProjectName.trim());
+        projectId = project.id;
+      }
+      return api.updateServerLabels(serverId, pendingTags, projectId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['server-labels', serverId] });
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-overview'] });
+      queryClient.invalidateQueries({ queryKey: ['upcoming-charges'] });
+      toast({ title: "Tags Updated", description: "Server tags and project have been saved." });
+      setOpen(false);
+    },
+    onError: (err: any) => {
+      setError(err.message || "Failed to update server tags.");
+    },
+  });
+
+  const addTagsFromInput = () => {
+    const added = tagInput.split(/[\s,]+/).map((tag) => tag.trim().toLowerCase()).filter(Boolean);
+    if (added.length === 0) return;
+    setTags((current) => Array.from(new Set([...current, ...added])));
+    setTagInput("");
+    setError(null);
+  };
+
+  const projects = projectsData?.projects ?? [];
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-1.5 pl-8 mt-2" data-testid="server-labels">
+        {labels?.project && (
+          <Badge variant="secondary" className="text-[11px] px-2 py-0">
+            <FolderOpen className="h-3 w-3 mr-1" />
+            {labels.project.name}
+          </Badge>
+        )}
+        {labels?.tags.map((tag) => (
+          <Badge key={tag} variant="outline" className="text-[11px] px-2 py-0 font-mono">
+            {tag}
+          </Badge>
+        ))}
+        <button
+          onClick={() => setOpen(true)}
+          className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+          data-testid="button-edit-labels"
+        >
+          <Tag className="h-3 w-3" />
+          {labels?.tags.length || labels?.project ? 'Edit' : 'Add tags'}
+        </button>
+      </div>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md bg-background border-border">
+          <DialogHeader>
+            <DialogTitle className="text-foreground">Tags & Project</DialogTitle>
+            <DialogDescription className="text-muted-foreground">
+              Use tags and projects to filter and group servers on your dashboard and to subtotal billing.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="server-tag-input">Tags</Label>
+              {tags.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {tags.map((tag) => (
+                    <Badge key={tag} variant="outline" className="font-mono pr-1">
+                      {tag}
+                      <button
+                        onClick={() => setTags(tags.filter((existing) => existing !== tag))}
+                        className="ml-1 text-muted-foreground hover:text-foreground"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <Input
+                id="server-tag-input"
+                placeholder="e.g. env:prod, web"
+                value={tagInput}
+                maxLength={100}
+                onChange={(e) => setTagInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ',') {
+                    e.preventDefault();
+                    addTagsFromInput();
+                  }
+                }}
+                onBlur={addTagsFromInput}
+                className="font-mono"
+                data-testid="input-server-tag"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Project</Label>
+              <Select value={projectValue} onValueChange={setProjectValue}>
+                <SelectTrigger className="bg-card border-border" data-testid="select-server-project">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No project</SelectItem>
+                  {projects.map((project) => (
+                    <SelectItem key={project.id} value={String(project.id)}>{project.name}</SelectItem>
+                  ))}
+                  <SelectItem value={NEW_PROJECT}>New project...</SelectItem>
+                </SelectContent>
+              </Select>
+              {projectValue === NEW_PROJECT && (
+                <Input
+                  placeholder="Project name"
+                  value={newProjectName}
+                  maxLength={64}
+                  onChange={(e) => setNewProjectName(e.target.value)}
+                  data-testid="input-new-project"
+                />
+              )}
+            </div>
+
+            {error && <p className="text-sm text-red-400" data-testid="text-labels-error">{error}</p>}
+          </div>
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setOpen(false)} className="border-border text-foreground">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || (projectValue === NEW_PROJECT && !newProjectName.trim())}
+              data-testid="button-save-labels"
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Disc, Loader2, Monitor, Send, Trash2, Unplug } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { api, type BootDevice, type IsoImage } from "@/lib/api";
+
+interface ServerMediaPanelProps {
+  serverId: string;
+  disabled?: boolean;
+  disabledReason?: string;
+  onOpenConsole?: () => void;
+}
+
+const BOOT_ORDER_OPTIONS: Record<string, { label: string; bootOrder: BootDevice[] }> = {
+  "hd,cdrom": { label: "Disk first", bootOrder: ["hd", "cdrom"] },
+  "cdrom,hd": { label: "CD-ROM first", bootOrder: ["cdrom", "hd"] },
+};
+
+const submissionStatusClass: Record<IsoImage['status'], string> = {
+  pending: "text-amber-400",
+  approved: "text-green-400",
+  rejected: "text-red-400",
+};
+
+export function ServerMediaPanel({ serverId, disabled, disabledReason, onOpenConsole }: ServerMediaPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedIsoId, setSelectedIsoId] = useState("");
+  const [submitName, setSubmitName] = useState("");
+  const [submitUrl, setSubmitUrl] = useState("");
+
+  const { data: media, isLoading: mediaLoading } = useQuery({
+    queryKey: ['server-media', serverId],
+    queryFn: () => api.getServerMedia(serverId),
+  });
+
+  const { data: isos, isLoading: isosLoading } = useQuery({
+    queryKey: ['isos'],
+    queryFn: () => api.getIsos(),
+  });
+
+  const mountable = isos?.mountable ?? [];
+  const submissions = isos?.submissions ?? [];
+  const pendingCount = submissions.filter((iso) => iso.status === 'pending').length;
+  const bootOrderKey = (media?.bootOrder ?? ["hd", "cdrom"]).join(",");
+
+  const mountMutation = useMutation({
+    mutationFn: (isoImageId: number) => api.mountIso(serverId, isoImageId),
+    onSuccess: (result) => {
+      setSelectedIsoId("");
+      queryClient.invalidateQueries({ queryKey: ['server-media', serverId] });
+      toast({
+        title: "ISO Mounted",
+        description: `"${result.iso.name}" is attached. Boot from CD-ROM and reboot to use it.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Mount Failed",
+        description: error.message || "Failed to mount ISO.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unmountMutation = useMutation({
+    mutationFn: () => api.unmountIso(serverId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['server-media', serverId] });
+      toast({
+        title: "ISO Unmounted",
+        description: "The ISO has been detached from your server.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Unmount Failed",
+        description: error.message || "Failed to unmount ISO.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const bootOrderMutation = useMutation({
+    mutationFn: (bootOrder: BootDevice[]) => api.updateBootOrder(serverId, bootOrder),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['server-media', serverId] });
+      toast({
+        title: "Boot Order Updated",
+        description: "The new boot order applies the next time the server starts.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update boot order.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: () => api.submitIsoUrl(submitName.trim(), submitUrl.trim()),
+    onSuccess: () => {
+      setSubmitName("");
+      setSubmitUrl("");
+      queryClient.invalidateQueries({ queryKey: ['isos'] });
+      toast({
+        title: "ISO Submitted",
+        description: "Our team will review the URL. You can mount it once it's approved.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Submission Failed",
+        description: error.message || "Failed to submit ISO URL.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteSubmissionMutation = useMutation({
+    mutationFn: (isoId: number) => api.deleteIso(isoId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['isos'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Remove Failed",
+        description: error.message || "Failed to remove ISO.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isBusy = mountMutation.isPending || unmountMutation.isPending || bootOrderMutation.isPending;
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-bold text-foreground mb-2">ISO & Boot Order</h3>
+            <p className="text-sm text-muted-foreground">
+              Attach an installer or rescue ISO, boot from it, and finish the install from the console.
+            </p>
+          </div>
+          {onOpenConsole && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onOpenConsole}
+              className="border-border hover:bg-muted/50 flex-shrink-0"
+              data-testid="button-media-open-console"
+            >
+              <Monitor className="h-4 w-4 mr-2" />
+              Console
+            </Button>
+          )}
+        </div>
+
+        {mediaLoading || isosLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading media...
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3">
+              <Label>Mounted ISO</Label>
+              {media?.iso ? (
+                <div className="flex items-center justify-between gap-4 rounded-lg border border-border bg-background/40 p-4">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Disc className="h-5 w-5 text-blue-400 flex-shrink-0" />
+                    <p className="font-medium text-foreground break-words" data-testid="text-mounted-iso">{media.iso.name}</p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => unmountMutation.mutate()}
+                    disabled={disabled || isBusy}
+                    className="border-border hover:bg-muted/50"
+                    data-testid="button-unmount-iso"
+                  >
+                    {unmountMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <Unplug className="h-4 w-4 mr-1" />
+                    )}
+                    Unmount
+                  </Button>
+                </div>
+              ) : mountable.length === 0 ? (
+                <div className="rounded-lg border border-dashed border-border bg-background/30 p-4 text-sm text-muted-foreground">
+                  No ISOs are available to mount yet.
+                </div>
+              ) : (
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <Select value={selectedIsoId} onValueChange={setSelectedIsoId} disabled={disabled}>
+                    <SelectTrigger className="bg-card border-border flex-1" data-testid="select-iso">
+                      <SelectValue placeholder="Choose an ISO" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {mountable.map((iso) => (
+                        <SelectItem key={iso.id} value={String(iso.id)}>
+                          {iso.name}{!iso.library && " (your URL)"}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    onClick={() => mountMutation.mutate(Number(selectedIsoId))}
+                    disabled={disabled || isBusy || !selectedIsoId}
+                    className="bg-blue-600 hover:bg-blue-700 text-white"
+                    data-testid="button-mount-iso"
+                  >
+                    {mountMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Disc className="h-4 w-4 mr-2" />
+                    )}
+                    Mount
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <Label>Boot Order</Label>
+              <Select
+                value={bootOrderKey}
+                onValueChange={(value) => bootOrderMutation.mutate(BOOT_ORDER_OPTIONS[value].bootOrder)}
+                disabled={disabled || isBusy}
+              >
+                <SelectTrigger className="bg-card border-border sm:w-64" data-testid="select-boot-order">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(BOOT_ORDER_OPTIONS).map(([value, option]) => (
+                    <SelectItem key={value} value={value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Changes apply on the next boot. Switch back to disk first once your install is done.
+              </p>
+            </div>
+
+            {disabled && disabledReason && (
+              <p className="text-sm text-amber-400/80">{disabledReason}</p>
+            )}
+
+            <div className="space-y-3 pt-2 border-t border-border">
+              <div className="pt-4">
+                <Label>Use Your Own ISO</Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Submit a public link to an .iso file. It can be mounted once our team approves it.
+                </p>
+              </div>
+              <div className="flex flex-col sm:flex-row gap-3">
+                <Input
+                  placeholder="Name, e.g. Windows Server 2022"
+                  value={submitName}
+                  maxLength={100}
+                  onChange={(e) => setSubmitName(e.target.value)}
+                  className="sm:w-56"
+                  data-testid="input-iso-name"
+                />
+                <Input
+                  placeholder="https://example.com/installer.iso"
+                  value={submitUrl}
+                  onChange={(e) => setSubmitUrl(e.target.value)}
+                  className="flex-1"
+                  data-testid="input-iso-url"
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => submitMutation.mutate()}
+                  disabled={submitMutation.isPending || !submitName.trim() || !submitUrl.trim() || pendingCount >= (isos?.maxPendingSubmissions ?? 0)}
+                  className="border-border hover:bg-muted/50"
+                  data-testid="button-submit-iso"
+                >
+                  {submitMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Send className="h-4 w-4 mr-2" />
+                  )}
+                  Submit
+                </Button>
+              </div>
+
+              {submissions.length > 0 && (
+                <div className="space-y-2">
+                  {submissions.map((iso) => (
+                    <div
+                      key={iso.id}
+                      className="flex items-center justify-between gap-4 rounded-lg border border-border bg-background/40 px-4 py-3"
+                      data-testid={`iso-submission-${iso.id}`}
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-foreground break-words">
+                          {iso.name} <span className={`text-xs ${submissionStatusClass[iso.status]}`}>{iso.status}</span>
+                        </p>
+                        <p className="text-xs text-muted-foreground break-all">{iso.url}</p>
+                        {iso.rejectionReason && (
+                          <p className="text-xs text-red-400/80">{iso.rejectionReason}</p>
+                        )}
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => deleteSubmissionMutation.mutate(iso.id)}
+                        disabled={deleteSubmissionMutation.isPending}
+                        className="border-red-500/30 text-red-400 hover:bg-red-500/10 hover:text-red-300 flex-shrink-0"
+                        data-testid={`button-delete-iso-${iso.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Download, Loader2, LineChart as LineChartIcon } from "lucide-react";
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip } from "recharts";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { api, type MetricHistoryPoint, type MetricHistoryRange } from "@/lib/api";
+
+interface ServerMetricsPanelProps {
+  serverId: string;
+}
+
+const RANGES: Array<{ value: MetricHistoryRange; label: string }> = [
+  { value: '24h', label: '24 hours' },
+  { value: '7d', label: '7 days' },
+  { value: '30d', label: '30 days' },
+  { value: '90d', label: '90 days' },
+  { value: '365d', label: '365 days' },
+];
+
+const RESOLUTION_LABELS: Record<string, string> = {
+  '5m': '5-minute samples',
+  '1h': 'hourly averages',
+  '1d': 'daily averages',
+};
+
+function formatRate(bytesPerSecond: number): string {
+  if (bytesPerSecond >= 1024 * 1024) return `${(bytesPerSecond / (1024 * 1024)).toFixed(1)} MB/s`;
+  if (bytesPerSecond >= 1024) return `${(bytesPerSecond / 1024).toFixed(1)} KB/s`;
+  return `${Math.round(bytesPerSecond)} B/s`;
+}
+
+function formatTick(timestamp: string, range: MetricHistoryRange): string {
+  const date = new Date(timestamp);
+  if (range === '24h') return date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+  return date.toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+}
+
+interface MetricChartProps {
+  title: string;
+  points: MetricHistoryPoint[];
+  range: MetricHistoryRange;
+  series: Array<{ key: keyof MetricHistoryPoint; label: string; color: string }>;
+  format: (value: number) => string;
+  percent?: boolean;
+}
+
+function MetricChart({ title, points, range, series, format, percent }: MetricChartProps) {
+  const hasData = points.some((point) => series.some((s) => point[s.key] !== null));
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">{title}</h3>
+        <div className="flex items-center gap-3">
+          {series.map((s) => (
+            <span key={s.key} className="flex items-center gap-1 text-[10px] text-muted-foreground">
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: s.color }} />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      </div>
+      {hasData ? (
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={points} margin={{ top: 4, right: 4, bottom: 0, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-border" vertical={false} />
+              <XAxis
+                dataKey="timestamp"
+                tickFormatter={(value) => formatTick(value, range)}
+                tick={{ fontSize: 10 }}
+                className="fill-muted-foreground"
+                minTickGap={32}
+              />
+              <YAxis
+                tickFormatter={(value) => format(value)}
+                tick={{ fontSize: 10 }}
+                width={64}
+                domain={percent ? [0, 100] : [0, 'auto']}
+              />
+              <Tooltip
+                labelFormatter={(value) => new Date(value).toLocaleString()}
+                formatter={(value: number, name: string) => [format(value), series.find((s) => s.key === name)?.label ?? name]}
+                contentStyle={{ fontSize: 12 }}
+              />
+              {series.map((s) => (
+                <Area
+                  key={s.key}
+                  type="monotone"
+                  dataKey={s.key}
+                  stroke={s.color}
+                  fill={s.color}
+                  fillOpacity={0.15}
+                  strokeWidth={1.5}
+                  connectNulls
+                  isAnimationActive={false}
+                />
+              ))}
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <div className="h-48 flex items-center justify-center text-sm text-muted-foreground">
+          No data recorded for this period
+        </div>
+      )}
+    </Card>
+  );
+}
+
+export function ServerMetricsPanel({ serverId }: ServerMetricsPanelProps) {
+  const { toast } = useToast();
+  const [range, setRange] = useState<MetricHistoryRange>('24h');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['metrics-history', serverId, range],
+    queryFn: () => api.getMetricsHistory(serverId, range),
+  });
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await api.downloadMetricsHistoryCsv(serverId, range);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `server-${serverId}-metrics-${range}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      toast({ title: "Export failed", description: err.message, variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const points = data?.points ?? [];
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <LineChartIcon className="h-4 w-4 text-primary" />
+            <div>
+              <h3 className="text-sm font-semibold text-foreground">Usage History</h3>
+              <p className="text-xs text-muted-foreground">
+                {data ? `Showing ${RESOLUTION_LABELS[data.resolution]}` : 'Recorded every 5 minutes while the server is running'}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2 flex-wrap">
+            <div className="flex rounded-md border border-border overflow-hidden">
+              {RANGES.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setRange(option.value)}
+                  className={cn(
+                    "px-3 py-1.5 text-xs transition-colors",
+                    range === option.value
+                      ? "bg-primary text-primary-foreground"
+                      : "text-muted-foreground hover:text-foreground hover:bg-muted/50"
+                  )}
+                  data-testid={`button-metrics-range-${option.value}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExport}
+              disabled={isExporting || points.length === 0}
+              data-testid="button-export-metrics"
+            >
+              {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+              Export CSV
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : error ? (
+        <Card className="p-6 text-center text-sm text-muted-foreground">
+          {(error as Error).message}
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <MetricChart
+            title="CPU"
+            points={points}
+            range={range}
+            percent
+            format={(value) => `${value.toFixed(0)}%`}
+            series={[
+              { key: 'cpuAvg', label: 'Average', color: '#3b82f6' },
+              { key: 'cpuMax', label: 'Peak', color: '#93c5fd' },
+            ]}
+          />
+          <MetricChart
+            title="Memory"
+            points={points}
+            range={range}
+            percent
+            format={(value) => `${value.toFixed(0)}%`}
+            series={[
+              { key: 'memoryAvg', label: 'Average', color: '#8b5cf6' },
+              { key: 'memoryMax', label: 'Peak', color: '#c4b5fd' },
+            ]}
+          />
+          <MetricChart
+            title="Disk IO"
+            points={points}
+            range={range}
+            format={formatRate}
+            series={[
+              { key: 'diskReadBps', label: 'Read', color: '#f59e0b' },
+              { key: 'diskWriteBps', label: 'Write', color: '#ef4444' },
+            ]}
+          />
+          <MetricChart
+            title="Network"
+            points={points}
+            range={range}
+            format={formatRate}
+            series={[
+              { key: 'netRxBps', label: 'Inbound', color: '#10b981' },
+              { key: 'netTxBps', label: 'Outbound', color: '#06b6d4' },
+            ]}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,382 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Plus, Trash2, CalendarClock } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { api, type PowerSchedule, type ScheduledPowerAction } from "@/lib/api";
+
+interface ServerPowerSchedulesPanelProps {
+  serverId: string;
+  disabled?: boolean;
+  disabledReason?: string;
+}
+
+const ACTION_LABELS: Record<ScheduledPowerAction, string> = {
+  boot: 'Boot',
+  reboot: 'Reboot',
+  shutdown: 'Shut down',
+  poweroff: 'Power off',
+};
+
+const TIMEZONE_OPTIONS = [
+  'Australia/Brisbane',
+  'Australia/Sydney',
+  'Australia/Melbourne',
+  'Australia/Adelaide',
+  'Australia/Darwin',
+  'Australia/Perth',
+  'Australia/Hobart',
+  'UTC',
+];
+
+const CRON_PRESETS = [
+  { value: '0 3 * * 0', label: 'Weekly, Sunday 03:00' },
+  { value: '0 3 * * *', label: 'Daily at 03:00' },
+  { value: '0 4 1 * *', label: 'Monthly, 1st at 04:00' },
+];
+
+function formatDateTime(value: string | null, timeZone: string): string {
+  if (!value) return '—';
+  return new Date(value).toLocaleString('en-AU', { timeZone, dateStyle: 'medium', timeStyle: 'short' });
+}
+
+// <input type="datetime-local"> gives wall-clock time with no zone; interpret it in the chosen zone
+function wallClockToIso(value: string, timeZone: string): string | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute] = match.map(Number);
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(new Date(wall));
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const offset = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute')) - wall;
+  return new Date(wall - offset).toISOString();
+}
+
+function describeSchedule(schedule: PowerSchedule): string {
+  if (!schedule.cronExpression) {
+    return `Once at ${formatDateTime(schedule.runAt, schedule.timezone)}`;
+  }
+  const preset = CRON_PRESETS.find((option) => option.value === schedule.cronExpression);
+  return preset ? preset.label : schedule.cronExpression;
+}
+
+export function ServerPowerSchedulesPanel({ serverId, disabled, disabledReason }: ServerPowerSchedulesPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [creating, setCreating] = useState(false);
+  const [action, setAction] = useState<ScheduledPowerAction>('reboot');
+  const [mode, setMode] = useState<'recurring' | 'once'>('recurring');
+  const [cronExpression, setCronExpression] = useState(CRON_PRESETS[0].value);
+  const [runAt, setRunAt] = useState("");
+  const [timezone, setTimezone] = useState('Australia/Brisbane');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['server-power-schedules', serverId],
+    queryFn: () => api.getPowerSchedules(serverId),
+  });
+
+  const closeCreateForm = () => {
+    setCreating(false);
+    setAction('reboot');
+    setMode('recurring');
+    setCronExpression(CRON_PRESETS[0].value);
+    setRunAt("");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => {
+      const oneOffAt = mode === 'once' ? wallClockToIso(runAt, timezone) : null;
+      if (mode === 'once' && !oneOffAt) {
+        throw new Error('Choose a date and time for the action.');
+      }
+      return api.createPowerSchedule(serverId, {
+        action,
+        cronExpression: mode === 'recurring' ? cronExpression.trim() : null,
+        runAt: oneOffAt,
+        timezone,
+      });
+    },
+    onSuccess: (result) => {
+      closeCreateForm();
+      queryClient.invalidateQueries({ queryKey: ['server-power-schedules', serverId] });
+      toast({
+        title: "Schedule Created",
+        description: `Next run: ${formatDateTime(result.schedule.nextRunAt, result.schedule.timezone)}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Schedule Not Created",
+        description: error.message || "Failed to create power schedule.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, enabled }: { id: number; enabled: boolean }) => api.setPowerScheduleEnabled(serverId, id, enabled),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['server-power-schedules', serverId] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update power schedule.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => api.deletePowerSchedule(serverId, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['server-power-schedules', serverId] });
+      toast({
+        title: "Schedule Deleted",
+        description: "The scheduled power action has been removed.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message || "Failed to delete power schedule.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const schedules = data?.schedules ?? [];
+  const runs = data?.runs ?? [];
+  const maxSchedules = data?.maxSchedules ?? 10;
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-bold text-foreground mb-2">Power Schedules</h3>
+            <p className="text-sm text-muted-foreground">
+              Boot, reboot, shut down or power off this server automatically. We'll email you if a scheduled
+              action fails.
+            </p>
+          </div>
+          {!creating && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="border-border hover:bg-muted/50 flex-shrink-0"
+              onClick={() => setCreating(true)}
+              disabled={disabled || schedules.length >= maxSchedules}
+              data-testid="button-add-power-schedule"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Schedule
+            </Button>
+          )}
+        </div>
+
+        {creating && (
+          <div className="rounded-lg border border-border bg-muted/20 p-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label>Action</Label>
+                <Select value={action} onValueChange={(value) => setAction(value as ScheduledPowerAction)}>
+                  <SelectTrigger className="bg-card border-border" data-testid="select-power-schedule-action">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Repeat</Label>
+                <Select value={mode} onValueChange={(value) => setMode(value as 'recurring' | 'once')}>
+                  <SelectTrigger className="bg-card border-border" data-testid="select-power-schedule-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="recurring">Recurring</SelectItem>
+                    <SelectItem value="once">Once</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Time zone</Label>
+                <Select value={timezone} onValueChange={setTimezone}>
+                  <SelectTrigger className="bg-card border-border" data-testid="select-power-schedule-timezone">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIMEZONE_OPTIONS.map((zone) => (
+                      <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {mode === 'recurring' ? (
+              <div className="space-y-2">
+                <Label htmlFor="power-schedule-cron">Schedule (cron: minute hour day month weekday)</Label>
+                <Input
+                  id="power-schedule-cron"
+                  value={cronExpression}
+                  maxLength={100}
+                  onChange={(e) => setCronExpression(e.target.value)}
+                  className="font-mono"
+                  data-testid="input-power-schedule-cron"
+                />
+                <div className="flex flex-wrap gap-2">
+                  {CRON_PRESETS.map((preset) => (
+                    <Button
+                      key={preset.value}
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setCronExpression(preset.value)}
+                      className="h-7 text-xs"
+                    >
+                      {preset.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="power-schedule-run-at">Date and time</Label>
+                <Input
+                  id="power-schedule-run-at"
+                  type="datetime-local"
+                  value={runAt}
+                  onChange={(e) => setRunAt(e.target.value)}
+                  data-testid="input-power-schedule-run-at"
+                />
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1 border-border hover:bg-muted/50"
+                onClick={closeCreateForm}
+              >
+                Cancel
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={() => createMutation.mutate()}
+                disabled={createMutation.isPending || (mode === 'recurring' ? !cronExpression.trim() : !runAt)}
+                data-testid="button-create-power-schedule"
+              >
+                {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Create Schedule
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading power schedules...
+          </div>
+        ) : schedules.length === 0 ? (
+          <div className="rounded-lg border border-dashed border-border bg-background/30 p-4 text-sm text-muted-foreground">
+            No power schedules yet.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {schedules.map((schedule) => (
+              <div
+                key={schedule.id}
+                className="flex items-center justify-between gap-4 rounded-lg border border-border bg-background/40 p-4"
+                data-testid={`power-schedule-${schedule.id}`}
+              >
+                <div className="flex items-start gap-3 min-w-0">
+                  <CalendarClock className="h-5 w-5 text-primary mt-0.5 flex-shrink-0" />
+                  <div className="space-y-1 min-w-0">
+                    <p className="font-medium text-foreground">
+                      {ACTION_LABELS[schedule.action]}
+                      <span className="ml-2 text-sm font-normal text-muted-foreground font-mono">{describeSchedule(schedule)}</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {schedule.timezone}
+                      {' • '}Next: {schedule.enabled ? formatDateTime(schedule.nextRunAt, schedule.timezone) : 'Paused'}
+                      {schedule.lastRunAt && (
+                        <>
+                          {' • '}Last: {formatDateTime(schedule.lastRunAt, schedule.timezone)}{' '}
+                          <span className={cn(schedule.lastStatus === 'failed' && "text-red-400")}>({schedule.lastStatus})</span>
+                        </>
+                      )}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  <Switch
+                    checked={schedule.enabled}
+                    onCheckedChange={(enabled) => toggleMutation.mutate({ id: schedule.id, enabled })}
+                    disabled={disabled || toggleMutation.isPending}
+                    data-testid={`switch-power-schedule-${schedule.id}`}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(schedule.id)}
+                    disabled={deleteMutation.isPending}
+                    className="border-red-500/30 text-red-400 hover:bg-red-500/10 hover:text-red-300"
+                    data-testid={`button-delete-power-schedule-${schedule.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {runs.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold text-foreground">Recent Runs</h4>
+            <div className="rounded-lg border border-border divide-y divide-border">
+              {runs.map((run) => (
+                <div key={run.id} className="flex items-center justify-between gap-4 px-4 py-2 text-sm">
+                  <span className="text-foreground">{ACTION_LABELS[run.action]}</span>
+                  <span className="text-muted-foreground">{formatDateTime(run.scheduledFor, 'Australia/Brisbane')}</span>
+                  <span
+                    className={cn(
+                      "text-xs font-semibold uppercase",
+                      run.status === 'success' ? "text-green-400" : run.status === 'failed' ? "text-red-400" : "text-amber-400"
+                    )}
+                    title={run.error ?? undefined}
+                  >
+                    {run.status}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {disabled && disabledReason && (
+          <p className="text-sm text-amber-400/80">{disabledReason}</p>
+        )}
+      </div>
+    </Card>
+  );
+}
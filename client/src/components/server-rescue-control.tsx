@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Copy, LifeBuoy, Loader2, TerminalSquare } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+
+interface ServerRescueControlProps {
+  serverId: string;
+  disabled?: boolean;
+  onOpenConsole?: () => void;
+}
+
+function minutesLeft(expiresAt: string): number {
+  return Math.max(0, Math.ceil((new Date(expiresAt).getTime() - Date.now()) / 60000));
+}
+
+export function ServerRescueControl({ serverId, disabled, onOpenConsole }: ServerRescueControlProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [detailsOpen, setDetailsOpen] = useState(false);
+
+  const { data } = useQuery({
+    queryKey: ['server-rescue', serverId],
+    queryFn: () => api.getRescueMode(serverId),
+    // Keep the countdown honest and pick up the automatic return to normal boot
+    refetchInterval: (query) => (query.state.data?.rescue ? 60000 : false),
+  });
+
+  const rescue = data?.rescue ?? null;
+
+  const enterMutation = useMutation({
+    mutationFn: () => api.enterRescueMode(serverId),
+    onSuccess: (result) => {
+      setConfirmOpen(false);
+      queryClient.setQueryData(['server-rescue', serverId], { rescue: result.rescue });
+      queryClient.invalidateQueries({ queryKey: ['server', serverId] });
+      setDetailsOpen(true);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Rescue Failed",
+        description: error.message || "Failed to boot into rescue mode.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const exitMutation = useMutation({
+    mutationFn: () => api.exitRescueMode(serverId),
+    onSuccess: () => {
+      setDetailsOpen(false);
+      queryClient.invalidateQueries({ queryKey: ['server-rescue', serverId] });
+      queryClient.invalidateQueries({ queryKey: ['server', serverId] });
+      toast({
+        title: "Leaving Rescue Mode",
+        description: "Your server is rebooting from its own disk.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Exit Failed",
+        description: error.message || "Failed to leave rescue mode.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copy = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({
+      title: "Copied",
+      description: "Copied to clipboard",
+    });
+  };
+
+  return (
+    <>
+      {rescue ? (
+        <Button
+          variant="outline"
+          className="h-10 border-amber-500/50 text-amber-500 hover:bg-amber-500/10"
+          onClick={() => setDetailsOpen(true)}
+          data-testid="button-rescue-details"
+        >
+          <LifeBuoy className="h-4 w-4 mr-2" />
+          In Rescue · {minutesLeft(rescue.expiresAt)}m left
+        </Button>
+      ) : (
+        <Button
+          variant="outline"
+          className="h-10 border-border hover:bg-muted/50"
+          onClick={() => setConfirmOpen(true)}
+          disabled={disabled || enterMutation.isPending}
+          data-testid="button-rescue"
+        >
+          {enterMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <LifeBuoy className="h-4 w-4 mr-2" />
+          )}
+          Rescue
+        </Button>
+      )}
+
+      <Dialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <DialogContent className="sm:max-w-md bg-background border-border">
+          <DialogHeader>
+            <DialogTitle className="text-foreground flex items-center gap-2">
+              <LifeBuoy className="h-5 w-5 text-amber-500" />
+              Boot Into Rescue
+            </DialogTitle>
+            <DialogDescription className="text-muted-foreground">
+              Your server restarts from a rescue system with its disk attached but not booted, so you can mount it and fix
+              things like a broken fstab. You'll get a temporary root password for the console or SSH. After an hour the
+              server boots from its own disk again automatically.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setConfirmOpen(false)} className="border-border text-foreground">
+              Cancel
+            </Button>
+            <Button
+              disabled={enterMutation.isPending}
+              onClick={() => enterMutation.mutate()}
+              className="bg-amber-600 hover:bg-amber-700 text-white"
+              data-testid="button-confirm-rescue"
+            >
+              {enterMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Reboot Into Rescue
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={detailsOpen && !!rescue} onOpenChange={setDetailsOpen}>
+        <DialogContent className="sm:max-w-md bg-background border-border">
+          <DialogHeader>
+            <DialogTitle className="text-foreground flex items-center gap-2">
+              <LifeBuoy className="h-5 w-5 text-amber-500" />
+              Rescue Mode
+            </DialogTitle>
+            <DialogDescription className="text-muted-foreground">
+              {rescue?.returningToNormalBoot
+                ? "The rescue window has ended. Your server is being booted from its own disk."
+                : `Log in with these temporary credentials. The server returns to normal boot in ${rescue ? minutesLeft(rescue.expiresAt) : 0} minutes.`}
+            </DialogDescription>
+          </DialogHeader>
+          {rescue && (
+            <div className="space-y-3">
+              {[
+                { label: "Username", value: rescue.username, testId: "text-rescue-username" },
+                { label: "Password", value: rescue.password, testId: "text-rescue-password" },
+              ].map((field) => (
+                <div key={field.label} className="flex items-center justify-between gap-3 rounded-lg border border-border bg-background/40 px-4 py-3">
+                  <div className="min-w-0">
+                    <p className="text-xs text-muted-foreground">{field.label}</p>
+                    <p className="font-mono text-foreground break-all" data-testid={field.testId}>{field.value}</p>
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => copy(field.value)}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+          <DialogFooter className="gap-2 sm:gap-0">
+            {onOpenConsole && (
+              <Button variant="outline" onClick={onOpenConsole} className="border-border text-foreground">
+                <TerminalSquare className="h-4 w-4 mr-2" />
+                Console
+              </Button>
+            )}
+            <Button
+              variant="destructive"
+              disabled={exitMutation.isPending || rescue?.returningToNormalBoot}
+              onClick={() => exitMutation.mutate()}
+              data-testid="button-exit-rescue"
+            >
+              {exitMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Exit Rescue
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Check, ArrowUpCircle, ArrowDownCircle } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { api, type PlanChangeOption } from "@/lib/api";
+
+interface ServerResizePanelProps {
+  serverId: string;
+  disabled?: boolean;
+  disabledReason?: string;
+}
+
+function formatCents(cents: number): string {
+  return `$${(Math.abs(cents) / 100).toFixed(2)}`;
+}
+
+function formatRam(ramMb: number): string {
+  return ramMb >= 1024 ? `${ramMb / 1024} GB` : `${ramMb} MB`;
+}
+
+export function ServerResizePanel({ serverId, disabled, disabledReason }: ServerResizePanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<PlanChangeOption | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['server-plan-change', serverId],
+    queryFn: () => api.getPlanChangeOptions(serverId),
+  });
+
+  const changeMutation = useMutation({
+    mutationFn: (planId: number) => api.changeServerPlan(serverId, planId),
+    onSuccess: (result) => {
+      setSelected(null);
+      queryClient.invalidateQueries({ queryKey: ['server-plan-change', serverId] });
+      queryClient.invalidateQueries({ queryKey: ['server', serverId] });
+      queryClient.invalidateQueries({ queryKey: ['wallet'] });
+      toast({
+        title: "Plan Changed",
+        description: result.proratedAmountCents > 0
+          ? `${formatCents(result.proratedAmountCents)} was charged for the rest of this billing period.`
+          : result.proratedAmountCents < 0
+            ? `${formatCents(result.proratedAmountCents)} was credited to your wallet.`
+            : "Your server is being resized.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Plan Change Failed",
+        description: error.message || "Failed to change plan.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-6">
+        <div>
+          <h3 className="text-lg font-bold text-foreground mb-2">Change Plan</h3>
+          <p className="text-sm text-muted-foreground">
+            Move this server to a bigger or smaller plan without redeploying. You only pay the difference for the
+            rest of the current billing period.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading plans...
+          </div>
+        ) : !data ? (
+          <div className="rounded-lg border border-dashed border-border bg-background/30 p-4 text-sm text-muted-foreground">
+            Plan changes are not available for this server.
+          </div>
+        ) : (
+          <>
+            <div className="p-4 bg-muted/30 border border-border rounded-lg text-sm">
+              <span className="text-muted-foreground">Current plan: </span>
+              <span className="font-semibold text-foreground">{data.currentPlan.name}</span>
+              <span className="text-muted-foreground"> • {formatCents(data.monthlyPriceCents)}/mo</span>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {data.options.map((option) => {
+                const isSelected = selected?.plan.id === option.plan.id;
+                const isUpgrade = option.plan.priceMonthly > data.monthlyPriceCents;
+                return (
+                  <button
+                    key={option.plan.id}
+                    type="button"
+                    onClick={() => setSelected(option)}
+                    disabled={disabled || !option.available}
+                    className={cn(
+                      "relative text-left p-4 rounded-lg border transition-all",
+                      isSelected ? "bg-primary/10 border-primary ring-1 ring-primary" : "bg-card border-border hover:border-primary/50",
+                      (!option.available || disabled) && "opacity-50 cursor-not-allowed hover:border-border"
+                    )}
+                    data-testid={`button-plan-option-${option.plan.id}`}
+                  >
+                    <div className="flex items-center gap-2">
+                      {isUpgrade ? (
+                        <ArrowUpCircle className="h-4 w-4 text-primary" />
+                      ) : (
+                        <ArrowDownCircle className="h-4 w-4 text-muted-foreground" />
+                      )}
+                      <span className="font-semibold text-foreground">{option.plan.name}</span>
+                      {isSelected && <Check className="h-4 w-4 text-primary ml-auto" />}
+                    </div>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {option.plan.vcpu} vCPU • {formatRam(option.plan.ramMb)} • {option.plan.storageGb} GB
+                    </div>
+                    <div className="text-sm text-foreground mt-2">{formatCents(option.plan.priceMonthly)}/mo</div>
+                    {!option.available && option.reason && (
+                      <div className="text-xs text-amber-400/80 mt-1">{option.reason}</div>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+
+            {selected && (
+              <div className="p-4 bg-blue-500/10 border border-blue-500/30 rounded-lg space-y-3">
+                {data?.billingCycle === 'hourly' ? (
+                  <p className="text-sm text-foreground">
+                    Usage so far is settled at your current rate, then the new plan is metered hourly, capped
+                    at {formatCents(selected.plan.priceMonthly)}/mo.
+                  </p>
+                ) : (
+                  <p className="text-sm text-foreground">
+                    {selected.proratedAmountCents > 0
+                      ? `${formatCents(selected.proratedAmountCents)} will be charged from your wallet now.`
+                      : selected.proratedAmountCents < 0
+                        ? `${formatCents(selected.proratedAmountCents)} will be credited to your wallet.`
+                        : 'No charge for the rest of this billing period.'}{' '}
+                    From your next renewal you'll pay {formatCents(selected.plan.priceMonthly)}/mo.
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Your server may reboot to apply the new resources.
+                </p>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => setSelected(null)} className="border-border">
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={() => changeMutation.mutate(selected.plan.id)}
+                    disabled={disabled || changeMutation.isPending}
+                    className="bg-blue-600 hover:bg-blue-700 text-white"
+                    data-testid="button-confirm-plan-change"
+                  >
+                    {changeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Change to {selected.plan.name}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {disabled && disabledReason && (
+              <p className="text-sm text-amber-400/80">{disabledReason}</p>
+            )}
+          </>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Camera, Loader2, RotateCcw, Trash2, AlertTriangle } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { api, type ServerSnapshot } from "@/lib/api";
+
+interface ServerSnapshotsPanelProps {
+  serverId: string;
+  disabled?: boolean;
+  disabledReason?: string;
+}
+
+export function ServerSnapshotsPanel({ serverId, disabled, disabledReason }: ServerSnapshotsPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [snapshotName, setSnapshotName] = useState("");
+  const [restoreTarget, setRestoreTarget] = useState<ServerSnapshot | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['server-snapshots', serverId],
+    queryFn: () => api.getSnapshots(serverId),
+    // Poll while a snapshot is being taken so the list updates when it completes
+    refetchInterval: (query) =>
+      query.state.data?.snapshots.some((snapshot) => snapshot.status === 'pending') ? 10000 : false,
+  });
+
+  const snapshots = data?.snapshots ?? [];
+  const limit = data?.limit ?? 0;
+  const atLimit = limit > 0 && snapshots.length >= limit;
+
+  const createMutation = useMutation({
+    mutationFn: (replaceOldest: boolean) =>
+      api.createSnapshot(serverId, { name: snapshotName.trim() || undefined, replaceOldest }),
+    onSuccess: (result) => {
+      setSnapshotName("");
+      queryClient.invalidateQueries({ queryKey: ['server-snapshots', serverId] });
+      toast({
+        title: "Snapshot Started",
+        description: `"${result.name}" is being created. This can take a few minutes.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Snapshot Failed",
+        description: error.message || "Failed to create snapshot.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (snapshotId: number) => api.restoreSnapshot(serverId, snapshotId),
+    onSuccess: () => {
+      setRestoreTarget(null);
+      queryClient.invalidateQueries({ queryKey: ['server', serverId] });
+      toast({
+        title: "Restore Started",
+        description: "Your server is being restored and will reboot when finished.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Restore Failed",
+        description: error.message || "Failed to restore snapshot.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (snapshotId: number) => api.deleteSnapshot(serverId, snapshotId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['server-snapshots', serverId] });
+      toast({
+        title: "Snapshot Deleted",
+        description: "The snapshot has been removed.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message || "Failed to delete snapshot.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isBusy = createMutation.isPending || restoreMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-bold text-foreground mb-2">Snapshots</h3>
+            <p className="text-sm text-muted-foreground">
+              Capture the full disk of your server so you can roll back after a failed upgrade or before a reinstall.
+            </p>
+          </div>
+          {limit > 0 && (
+            <span className="text-sm text-muted-foreground whitespace-nowrap" data-testid="text-snapshot-usage">
+              {snapshots.length} / {limit} used
+            </span>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading snapshots...
+          </div>
+        ) : limit === 0 ? (
+          <div className="rounded-lg border border-dashed border-border bg-background/30 p-4 text-sm text-muted-foreground">
+            Snapshots are not included with this plan.
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="snapshot-name">Snapshot Name</Label>
+                <Input
+                  id="snapshot-name"
+                  placeholder="Optional, e.g. before-upgrade"
+                  value={snapshotName}
+                  maxLength={64}
+                  onChange={(e) => setSnapshotName(e.target.value)}
+                  disabled={disabled}
+                  data-testid="input-snapshot-name"
+                />
+              </div>
+              <Button
+                onClick={() => createMutation.mutate(atLimit)}
+                disabled={disabled || isBusy}
+                className="bg-blue-600 hover:bg-blue-700 text-white"
+                data-testid="button-create-snapshot"
+              >
+                {createMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Camera className="h-4 w-4 mr-2" />
+                )}
+                {atLimit ? "Replace Oldest" : "Take Snapshot"}
+              </Button>
+            </div>
+            {disabled && disabledReason && (
+              <p className="text-sm text-amber-400/80">{disabledReason}</p>
+            )}
+            {atLimit && !disabled && (
+              <p className="text-xs text-muted-foreground">
+                You have reached this plan's snapshot limit. Taking a new snapshot will delete the oldest one.
+              </p>
+            )}
+
+            {snapshots.length === 0 ? (
+              <div className="rounded-lg border border-dashed border-border bg-background/30 p-4 text-sm text-muted-foreground">
+                No snapshots yet.
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {snapshots.map((snapshot) => (
+                  <div
+                    key={snapshot.id}
+                    className="flex items-center justify-between gap-4 rounded-lg border border-border bg-background/40 p-4"
+                    data-testid={`snapshot-${snapshot.id}`}
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium text-foreground break-words">{snapshot.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {snapshot.createdAt
+                          ? new Date(snapshot.createdAt).toLocaleString('en-AU', { timeZone: 'Australia/Brisbane', dateStyle: 'medium', timeStyle: 'short' })
+                          : 'Date unavailable'}
+                        {snapshot.sizeMb !== null && ` • ${(snapshot.sizeMb / 1024).toFixed(1)} GB`}
+                        {snapshot.status === 'pending' && ' • In progress'}
+                        {snapshot.status === 'failed' && ' • Failed'}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setRestoreTarget(snapshot)}
+                        disabled={disabled || isBusy || snapshot.status !== 'complete'}
+                        className="border-border hover:bg-muted/50"
+                        data-testid={`button-restore-snapshot-${snapshot.id}`}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Restore
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => deleteMutation.mutate(snapshot.id)}
+                        disabled={disabled || isBusy || snapshot.status === 'pending'}
+                        className="border-red-500/30 text-red-400 hover:bg-red-500/10 hover:text-red-300"
+                        data-testid={`button-delete-snapshot-${snapshot.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <Dialog open={!!restoreTarget} onOpenChange={(open) => { if (!open) setRestoreTarget(null); }}>
+        <DialogContent className="sm:max-w-md bg-background border-border">
+          <DialogHeader>
+            <DialogTitle className="text-foreground flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-amber-500" />
+              Restore Snapshot
+            </DialogTitle>
+            <DialogDescription className="text-muted-foreground">
+              Restoring <span className="font-semibold text-foreground">{restoreTarget?.name}</span> replaces everything on the
+              server's disk with the snapshot. Changes made since it was taken will be lost.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setRestoreTarget(null)} className="border-border text-foreground">
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={restoreMutation.isPending}
+              onClick={() => restoreTarget && restoreMutation.mutate(restoreTarget.id)}
+              data-testid="button-confirm-restore-snapshot"
+            >
+              {restoreMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Restore
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
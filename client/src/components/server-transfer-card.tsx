@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, ArrowRightLeft } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+
+interface ServerTransferCardProps {
+  serverId: string;
+  disabled?: boolean;
+  disabledReason?: string;
+}
+
+export function ServerTransferCard({ serverId, disabled, disabledReason }: ServerTransferCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [recipientEmail, setRecipientEmail] = useState("");
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['server-transfer', serverId],
+    queryFn: () => api.getServerTransfer(serverId),
+  });
+
+  const invalidateTransfer = () => {
+    queryClient.invalidateQueries({ queryKey: ['server-transfer', serverId] });
+    queryClient.invalidateQueries({ queryKey: ['server-transfers'] });
+  };
+
+  const offerMutation = useMutation({
+    mutationFn: () => api.createServerTransfer(serverId, recipientEmail.trim()),
+    onSuccess: ({ transfer }) => {
+      setRecipientEmail("");
+      invalidateTransfer();
+      toast({
+        title: "Transfer Offered",
+        description: `We've emailed ${transfer.toEmail}. The server moves once they accept.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Transfer Not Started",
+        description: error.message || "Failed to start the transfer.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => api.cancelServerTransfer(serverId),
+    onSuccess: () => {
+      invalidateTransfer();
+      toast({ title: "Transfer Cancelled" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Cancel Failed",
+        description: error.message || "Failed to cancel the transfer.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pending = data?.transfer;
+  const offerDays = data?.offerDays ?? 7;
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-6">
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-primary/20 rounded-xl">
+            <ArrowRightLeft className="h-6 w-6 text-primary" />
+          </div>
+          <div>
+            <h3 className="text-xl font-bold text-foreground">Transfer Server</h3>
+            <p className="text-sm text-muted-foreground">
+              Hand this server and its billing to another OzVPS account
+            </p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading...
+          </div>
+        ) : pending ? (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border border-primary/30 bg-primary/5 px-4 py-3" data-testid="pending-server-transfer">
+            <div>
+              <p className="text-sm font-medium text-foreground">Waiting for {pending.toEmail} to accept</p>
+              <p className="text-xs text-muted-foreground">
+                The offer expires {new Date(pending.expiresAt).toLocaleString()}. You keep the server until then.
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => cancelMutation.mutate()}
+              disabled={cancelMutation.isPending}
+              data-testid="button-cancel-server-transfer"
+            >
+              {cancelMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Cancel Transfer
+            </Button>
+          </div>
+        ) : disabled ? (
+          <p className="text-sm text-muted-foreground">{disabledReason}</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="transfer-recipient">Recipient's account email</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="transfer-recipient"
+                  type="email"
+                  placeholder="client@example.com"
+                  value={recipientEmail}
+                  onChange={(e) => setRecipientEmail(e.target.value)}
+                  data-testid="input-transfer-recipient"
+                />
+                <Button
+                  onClick={() => offerMutation.mutate()}
+                  disabled={!recipientEmail.trim() || offerMutation.isPending}
+                  data-testid="button-offer-server-transfer"
+                >
+                  {offerMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Offer Transfer
+                </Button>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              The recipient has {offerDays} days to accept from their account page. Once they do, future renewals are
+              charged to their wallet and your power schedules, alerts and tags for this server are removed.
+            </p>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
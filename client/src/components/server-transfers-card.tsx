@@ -0,0 +1,160 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, ArrowRightLeft, Check, X } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { api, type ServerTransferOffer } from "@/lib/api";
+
+const STATUS_LABELS: Record<ServerTransferOffer['status'], string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+};
+
+export function ServerTransfersCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['server-transfers'],
+    queryFn: () => api.getServerTransfers(),
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: (id: number) => api.acceptServerTransfer(id),
+    onSuccess: ({ transfer }) => {
+      queryClient.invalidateQueries({ queryKey: ['server-transfers'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-overview'] });
+      queryClient.invalidateQueries({ queryKey: ['servers'] });
+      toast({
+        title: "Server Transferred",
+        description: `${transfer.serverName} is now on your account.`,
+      });
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ['server-transfers'] });
+      toast({
+        title: "Transfer Failed",
+        description: error.message || "Failed to accept the transfer.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: (id: number) => api.declineServerTransfer(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['server-transfers'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Decline Failed",
+        description: error.message || "Failed to decline the transfer.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const incoming = data?.incoming ?? [];
+  const outgoing = data?.outgoing ?? [];
+  const isBusy = acceptMutation.isPending || declineMutation.isPending;
+
+  return (
+    <Card className="p-6 mt-6" data-testid="server-transfers-section">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center border border-primary/20">
+          <ArrowRightLeft className="h-5 w-5 text-primary" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-foreground">Server Transfers</h3>
+          <p className="text-sm text-muted-foreground">
+            Servers other accounts have offered to you, and the transfers you've started
+          </p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading transfers...
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Waiting for you</h4>
+            {incoming.length ? (
+              incoming.map((offer) => (
+                <div
+                  key={offer.id}
+                  className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border border-primary/30 bg-primary/5 px-4 py-3"
+                  data-testid={`incoming-transfer-${offer.id}`}
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium text-foreground truncate">{offer.serverName}</p>
+                    <p className="text-xs text-muted-foreground">
+                      From {offer.fromEmail} · expires {new Date(offer.expiresAt).toLocaleDateString()}
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Accepting moves the server and its renewals to your wallet.
+                    </p>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <Button
+                      size="sm"
+                      onClick={() => acceptMutation.mutate(offer.id)}
+                      disabled={isBusy}
+                      data-testid={`button-accept-transfer-${offer.id}`}
+                    >
+                      {acceptMutation.isPending && acceptMutation.variables === offer.id
+                        ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        : <Check className="h-4 w-4 mr-1" />}
+                      Accept
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => declineMutation.mutate(offer.id)}
+                      disabled={isBusy}
+                      data-testid={`button-decline-transfer-${offer.id}`}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Decline
+                    </Button>
+                  </div>
+                </div>
+              ))
+            ) : (
+              <div className="rounded-lg border border-dashed border-border bg-background/30 p-4 text-sm text-muted-foreground">
+                No servers are waiting to be transferred to you.
+              </div>
+            )}
+          </div>
+
+          {outgoing.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Sent</h4>
+              {outgoing.map((offer) => (
+                <div
+                  key={offer.id}
+                  className="flex items-center justify-between gap-4 rounded-lg border border-border bg-background/40 px-4 py-3"
+                  data-testid={`outgoing-transfer-${offer.id}`}
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium text-foreground truncate">{offer.serverName}</p>
+                    <p className="text-xs text-muted-foreground">
+                      To {offer.toEmail} · {new Date(offer.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <Badge variant={offer.status === 'accepted' ? 'default' : 'outline'}>{STATUS_LABELS[offer.status]}</Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,81 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { KeyRound, Loader2 } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { api } from "@/lib/api";
+
+interface SshKeyPickerProps {
+  selectedIds: number[];
+  onChange: (ids: number[]) => void;
+  disabled?: boolean;
+}
+
+const MAX_SELECTED_KEYS = 10;
+
+export function SshKeyPicker({ selectedIds, onChange, disabled }: SshKeyPickerProps) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['ssh-keys'],
+    queryFn: () => api.getSshKeys(),
+  });
+
+  const keys = data?.keys ?? [];
+
+  const toggle = (id: number, checked: boolean) => {
+    if (checked) {
+      if (selectedIds.length >= MAX_SELECTED_KEYS) return;
+      onChange([...selectedIds, id]);
+    } else {
+      onChange(selectedIds.filter((selectedId) => selectedId !== id));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading SSH keys...
+      </div>
+    );
+  }
+
+  if (keys.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground" data-testid="text-no-ssh-keys">
+        No SSH keys saved.{" "}
+        <Link href="/account" className="text-primary hover:underline">
+          Add one in your account
+        </Link>{" "}
+        to log in without a password.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2" data-testid="ssh-key-picker">
+      {keys.map((key) => {
+        const checked = selectedIds.includes(key.id);
+        return (
+          <label
+            key={key.id}
+            className="flex items-start gap-3 p-2 rounded-lg border border-border bg-muted/50 cursor-pointer hover:bg-muted"
+            data-testid={`ssh-key-option-${key.id}`}
+          >
+            <Checkbox
+              checked={checked}
+              disabled={disabled || (!checked && selectedIds.length >= MAX_SELECTED_KEYS)}
+              onCheckedChange={(value) => toggle(key.id, value === true)}
+              className="mt-0.5"
+            />
+            <div className="min-w-0">
+              <div className="flex items-center gap-1.5 text-sm font-medium text-foreground">
+                <KeyRound className="h-3.5 w-3.5 text-muted-foreground" />
+                <span className="truncate">{key.name}</span>
+              </div>
+              <div className="text-xs text-muted-foreground font-mono truncate">{key.fingerprint}</div>
+            </div>
+          </label>
+        );
+      })}
+    </div>
+  );
+}
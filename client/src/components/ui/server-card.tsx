@@ -171,7 +171,17 @@ export function ServerCard({ server, cancellation, billingStatus, onClick }: Ser
           </div>
           <p className="text-sm text-muted-foreground mt-0.5 truncate">
             {billingStatus?.planName || server.plan?.name || "Unknown Plan"}
+            {server.project && <span> · {server.project.name}</span>}
           </p>
+          {server.tags && server.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1.5">
+              {server.tags.map((tag) => (
+                <Badge key={tag} variant="outline" className="text-[10px] px-1.5 py-0 font-mono">
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          )}
         </div>
         <StatusBadge status={getStatusBadgeStatus()} />
       </div>
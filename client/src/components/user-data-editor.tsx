@@ -0,0 +1,59 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { api } from "@/lib/api";
+
+interface UserDataEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+export function UserDataEditor({ value, onChange, disabled }: UserDataEditorProps) {
+  const { data } = useQuery({
+    queryKey: ['user-data-scripts'],
+    queryFn: () => api.getUserDataScripts(),
+  });
+
+  const scripts = data?.scripts ?? [];
+
+  return (
+    <div className="space-y-3" data-testid="user-data-editor">
+      {scripts.length > 0 && (
+        <Select
+          onValueChange={(scriptId) => {
+            const script = scripts.find((s) => String(s.id) === scriptId);
+            if (script) onChange(script.content);
+          }}
+          disabled={disabled}
+        >
+          <SelectTrigger className="bg-card border-border" data-testid="select-user-data-script">
+            <SelectValue placeholder="Load a saved script" />
+          </SelectTrigger>
+          <SelectContent>
+            {scripts.map((script) => (
+              <SelectItem key={script.id} value={String(script.id)}>
+                {script.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <Textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={"#cloud-config\npackages:\n  - docker.io"}
+        className="font-mono text-xs min-h-[140px]"
+        disabled={disabled}
+        data-testid="input-user-data"
+      />
+      <p className="text-xs text-muted-foreground">
+        Runs once on first boot. Start with #cloud-config or a shebang such as #!/bin/bash.{" "}
+        <Link href="/account" className="text-primary hover:underline">
+          Manage saved scripts
+        </Link>
+      </p>
+    </div>
+  );
+}
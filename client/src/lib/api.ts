@@ -157,9 +157,11 @@ export interface NetworkInterface {
     address: string;
     gateway: string;
     netmask: string;
+    ptr: string | null;
   }>;
   ipv6: Array<{
     address: string;
+    ptr: string | null;
   }>;
 }
 
@@ -187,6 +189,282 @@ export interface TrustedTwoFactorDevice {
   current: boolean;
 }
 
+export interface SshKey {
+  id: number;
+  name: string;
+  publicKey: string;
+  fingerprint: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+export interface UserDataScript {
+  id: number;
+  name: string;
+  content: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ServerSnapshot {
+  id: number;
+  name: string;
+  status: 'pending' | 'complete' | 'failed' | string;
+  sizeMb: number | null;
+  createdAt: string | null;
+}
+
+export interface RescueSession {
+  username: string;
+  password: string;
+  expiresAt: string;
+  returningToNormalBoot?: boolean;
+}
+
+export type BootDevice = 'hd' | 'cdrom';
+
+export interface IsoImage {
+  id: number;
+  name: string;
+  description: string | null;
+  url: string;
+  library: boolean;
+  status: 'pending' | 'approved' | 'rejected';
+  rejectionReason: string | null;
+  createdAt: string;
+}
+
+export interface ServerMedia {
+  iso: IsoImage | null;
+  bootOrder: BootDevice[];
+}
+
+export type BillingCycle = 'monthly' | 'hourly';
+
+export type TaxTreatment = 'gst' | 'gst_free_export';
+
+export interface BillingProfile {
+  businessName: string | null;
+  abn: string | null;
+  countryCode: string;
+  showPricesExTax: boolean;
+  taxTreatment: TaxTreatment;
+  taxRatePercent: number;
+}
+
+export interface AccountStatement {
+  id: number;
+  period: string;
+  periodStart: string;
+  periodEnd: string;
+  openingBalanceCents: number;
+  closingBalanceCents: number;
+  creditsCents: number;
+  debitsCents: number;
+  createdAt: string;
+  pdfUrl: string;
+}
+
+export interface BillingTermOption {
+  months: number;
+  discountPercent: number;
+}
+
+export type ServerAddonType = 'ipv4' | 'ipv6';
+
+export interface ServerAddon {
+  id: number;
+  type: ServerAddonType;
+  label: string;
+  address: string | null;
+  monthlyPriceCents: number;
+  createdAt: string;
+}
+
+export interface ServerAddonOffer {
+  type: ServerAddonType;
+  label: string;
+  monthlyPriceCents: number;
+  proratedAmountCents: number;
+  available: boolean;
+  reason: string | null;
+}
+
+export type ApiTokenScope = 'servers:read' | 'servers:power' | 'billing:read';
+
+export interface ApiToken {
+  id: number;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  createdAt: string;
+}
+
+export interface FirewallRule {
+  direction: 'inbound' | 'outbound';
+  protocol: 'tcp' | 'udp' | 'icmp' | 'any';
+  portStart: number | null;
+  portEnd: number | null;
+  cidr: string;
+  action: 'allow' | 'deny';
+  description: string | null;
+}
+
+export interface FirewallRuleSet {
+  id: number;
+  name: string;
+  rules: FirewallRule[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Project {
+  id: number;
+  name: string;
+  createdAt: string;
+}
+
+export interface ServerLabels {
+  tags: string[];
+  project: { id: number; name: string } | null;
+}
+
+export interface ProjectSubtotal {
+  projectId: number | null;
+  projectName: string;
+  serverCount: number;
+  monthlyPriceCents: number;
+}
+
+export type ScheduledPowerAction = 'boot' | 'reboot' | 'shutdown' | 'poweroff';
+
+export interface PowerSchedule {
+  id: number;
+  action: ScheduledPowerAction;
+  cronExpression: string | null;
+  runAt: string | null;
+  timezone: string;
+  enabled: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastStatus: 'success' | 'failed' | 'skipped' | null;
+  createdAt: string;
+}
+
+export interface PowerScheduleRun {
+  id: number;
+  scheduleId: number;
+  action: ScheduledPowerAction;
+  scheduledFor: string;
+  status: 'success' | 'failed' | 'skipped';
+  error: string | null;
+  createdAt: string;
+}
+
+export type ResourceAlertMetric = 'cpu' | 'memory' | 'disk' | 'transfer';
+
+export interface AlertRule {
+  id: number;
+  metric: ResourceAlertMetric;
+  thresholdPercent: number;
+  durationMinutes: number;
+  cooldownMinutes: number;
+  webhookUrl: string | null;
+  enabled: boolean;
+  state: 'ok' | 'firing';
+  lastValue: number | null;
+  lastCheckedAt: string | null;
+  lastNotifiedAt: string | null;
+  createdAt: string;
+}
+
+export interface AlertEvent {
+  id: number;
+  ruleId: number;
+  metric: ResourceAlertMetric;
+  kind: 'firing' | 'resolved';
+  value: number;
+  thresholdPercent: number;
+  webhookStatus: 'delivered' | 'failed' | null;
+  createdAt: string;
+}
+
+export type TransferOveragePolicy = 'throttle' | 'bill' | 'suspend';
+
+export interface TransferOverageSettings {
+  policy: TransferOveragePolicy;
+  pricePerGbCents: number;
+  throttleMbps: number;
+}
+
+export interface TransferUsage extends TransferOverageSettings {
+  usage: {
+    period: string;
+    usedBytes: number;
+    limitGb: number;
+    unlimited: boolean;
+    percent: number;
+    overageBilledGb: number;
+    enforcement: 'throttled' | 'suspended' | null;
+    updatedAt: string;
+  } | null;
+  policyDescription: string;
+}
+
+export type MetricHistoryRange = '24h' | '7d' | '30d' | '90d' | '365d';
+
+export interface MetricHistoryPoint {
+  timestamp: string;
+  cpuAvg: number;
+  cpuMax: number;
+  memoryAvg: number;
+  memoryMax: number;
+  diskPercent: number | null;
+  diskReadBps: number | null;
+  diskWriteBps: number | null;
+  netRxBps: number | null;
+  netTxBps: number | null;
+}
+
+export interface MetricHistory {
+  range: MetricHistoryRange;
+  resolution: '5m' | '1h' | '1d';
+  points: MetricHistoryPoint[];
+}
+
+export interface ServerTransferOffer {
+  id: number;
+  serverId: string;
+  serverName: string;
+  fromEmail: string;
+  toEmail: string;
+  status: 'pending' | 'accepted' | 'declined' | 'cancelled' | 'expired';
+  expiresAt: string;
+  respondedAt: string | null;
+  createdAt: string;
+}
+
+export type DeployOrderStatus = 'pending_payment' | 'paid' | 'provisioning' | 'active' | 'failed' | 'cancelled';
+export type ProvisioningStep = 'create_user' | 'create_server' | 'build' | 'create_billing' | 'done';
+
+export interface PlanChangeOption {
+  plan: {
+    id: number;
+    name: string;
+    vcpu: number;
+    ramMb: number;
+    storageGb: number;
+    transferGb: number;
+    priceMonthly: number;
+  };
+  proratedAmountCents: number;
+  available: boolean;
+  reason: string | null;
+}
+
 export interface LoginResponse {
   user?: { id: string; email: string; name: string };
   requires2FA?: boolean;
@@ -210,8 +488,12 @@ class ApiClient {
     }
   }
 
-  async listServers(): Promise<Server[]> {
-    const response = await secureFetch(`${this.baseUrl}/servers`);
+  async listServers(filter?: { tags?: string[]; project?: number | 'none' }): Promise<Server[]> {
+    const params = new URLSearchParams();
+    for (const tag of filter?.tags ?? []) params.append('tag', tag);
+    if (filter?.project !== undefined) params.set('project', String(filter.project));
+    const query = params.toString();
+    const response = await secureFetch(`${this.baseUrl}/servers${query ? `?${query}` : ''}`);
     if (!response.ok) {
       if (response.status === 403) throw new Error('Your session has expired. Please log in again.');
       if (response.status === 500) throw new Error('Unable to load servers. Our servers may be experiencing issues. Please try again in a moment.');
@@ -249,6 +531,37 @@ class ApiClient {
     return response.json();
   }
 
+  async getRescueMode(id: string): Promise<{ rescue: RescueSession | null }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${id}/rescue`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to load rescue mode status');
+    }
+    return response.json();
+  }
+
+  async enterRescueMode(id: string): Promise<{ success: boolean; rescue: RescueSession }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${id}/rescue`, {
+      method: 'POST',
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to boot into rescue mode');
+    }
+    return response.json();
+  }
+
+  async exitRescueMode(id: string): Promise<{ success: boolean }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${id}/rescue`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to leave rescue mode');
+    }
+    return response.json();
+  }
+
   async getMetrics(id: string): Promise<{ cpu: number[], ram: number[], net: number[] }> {
     const response = await secureFetch(`${this.baseUrl}/servers/${id}/metrics`);
     if (!response.ok) {
@@ -323,6 +636,30 @@ class ApiClient {
     return response.json();
   }
 
+  async getTransferUsage(id: string): Promise<TransferUsage> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${id}/transfer-usage`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to load transfer usage');
+    }
+    return response.json();
+  }
+
+  async getMetricsHistory(id: string, range: MetricHistoryRange): Promise<MetricHistory> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${id}/metrics/history?range=${range}`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to load metrics history');
+    }
+    return response.json();
+  }
+
+  async downloadMetricsHistoryCsv(id: string, range: MetricHistoryRange): Promise<Blob> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${id}/metrics/history.csv?range=${range}`);
+    if (!response.ok) throw new Error('Failed to export metrics history');
+    return response.blob();
+  }
+
   async getTrafficStatistics(id: string, period: string = '30m'): Promise<{
     supported?: boolean;
     points: Array<{ timestamp: string; rx: number; tx: number }>;
@@ -334,64 +671,468 @@ class ApiClient {
     return response.json();
   }
 
-  async getTotalBandwidth(): Promise<{ totalBandwidth: number; totalLimit: number; serverCount: number }> {
-    const response = await secureFetch(`${this.baseUrl}/bandwidth/total`);
-    if (!response.ok) throw new Error('Failed to fetch total bandwidth');
+  async getTotalBandwidth(): Promise<{ totalBandwidth: number; totalLimit: number; serverCount: number }> {
+    const response = await secureFetch(`${this.baseUrl}/bandwidth/total`);
+    if (!response.ok) throw new Error('Failed to fetch total bandwidth');
+    return response.json();
+  }
+
+  // Combined dashboard endpoint - reduces 4 API calls to 1
+  async getDashboardOverview(): Promise<{
+    servers: Server[];
+    cancellations: Record<string, { scheduledDeletionAt: string; reason: string | null; mode: string; status: string }>;
+    billingStatuses: Record<string, { status: string; nextBillAt?: string; suspendAt?: string | null; monthlyPriceCents?: number; freeServer?: boolean; adminSuspended?: boolean; adminSuspendedReason?: string | null; planName?: string | null }>;
+    projects: Project[];
+    bandwidth: { totalBandwidth: number; totalLimit: number; serverCount: number };
+  }> {
+    const response = await secureFetch(`${this.baseUrl}/dashboard/overview`);
+    if (!response.ok) {
+      if (response.status === 403) throw new Error('Your session has expired. Please log in again.');
+      throw new Error('Unable to load dashboard. Please check your internet connection and try again.');
+    }
+    return response.json();
+  }
+
+  async getNetworkInfo(id: string): Promise<{ interfaces: NetworkInterface[] }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${id}/network`);
+    if (!response.ok) throw new Error('Failed to fetch network info');
+    return response.json();
+  }
+
+  async updateReverseDns(id: string, address: string, hostname: string | null): Promise<{ success: boolean; address: string; ptr: string | null }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${id}/network/rdns`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ address, hostname }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to update reverse DNS');
+    }
+    return response.json();
+  }
+
+  async getOsTemplates(id: string): Promise<any> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${id}/os-templates`);
+    if (!response.ok) throw new Error('Failed to fetch OS templates');
+    return response.json();
+  }
+
+  async getReinstallTemplates(id: string): Promise<any> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${id}/reinstall/templates`);
+    if (!response.ok) throw new Error('Failed to fetch available templates');
+    return response.json();
+  }
+
+  async renameServer(id: string, name: string): Promise<{ success: boolean; name: string }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${id}/name`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name })
+    });
+    if (!response.ok) throw new Error('Failed to rename server');
+    return response.json();
+  }
+
+  async reinstallServer(id: string, osId: number, hostname: string, options: { sshKeyIds?: number[]; userData?: string } = {}): Promise<{ success: boolean; error?: string; data?: { generatedPassword?: string } }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${id}/reinstall`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ osId, hostname, ...options })
+    });
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.error || 'Failed to reinstall server');
+    }
+    return response.json();
+  }
+
+  async getPlanChangeOptions(serverId: string): Promise<{ currentPlan: PlanChangeOption['plan']; monthlyPriceCents: number; nextBillAt: string; billingCycle: BillingCycle; options: PlanChangeOption[] }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/plan-change`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to load plans');
+    }
+    return response.json();
+  }
+
+  async changeServerPlan(serverId: string, planId: number): Promise<{ success: boolean; proratedAmountCents: number; monthlyPriceCents: number }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/plan-change`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ planId }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to change plan');
+    }
+    return response.json();
+  }
+
+  async getServerAddons(serverId: string): Promise<{ addons: ServerAddon[]; offers: ServerAddonOffer[]; nextBillAt: string; billingCycle: BillingCycle }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/addons`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to load add-ons');
+    }
+    return response.json();
+  }
+
+  async purchaseServerAddon(serverId: string, type: ServerAddonType): Promise<{ success: boolean; addon: ServerAddon; proratedAmountCents: number }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/addons`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to add IP address');
+    }
+    return response.json();
+  }
+
+  async cancelServerAddon(serverId: string, addonId: number): Promise<{ success: boolean }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/addons/${addonId}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to remove IP address');
+    }
+    return response.json();
+  }
+
+  async getSnapshots(serverId: string): Promise<{ snapshots: ServerSnapshot[]; limit: number }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/snapshots`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to load snapshots');
+    }
+    return response.json();
+  }
+
+  async createSnapshot(serverId: string, data: { name?: string; replaceOldest?: boolean }): Promise<{ success: boolean; name: string }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/snapshots`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      const error = new Error(err.error || 'Failed to create snapshot') as Error & { code?: string };
+      error.code = err.code;
+      throw error;
+    }
+    return response.json();
+  }
+
+  async restoreSnapshot(serverId: string, snapshotId: number): Promise<{ success: boolean }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/snapshots/${snapshotId}/restore`, {
+      method: 'POST',
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to restore snapshot');
+    }
+    return response.json();
+  }
+
+  async deleteSnapshot(serverId: string, snapshotId: number): Promise<{ success: boolean }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/snapshots/${snapshotId}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to delete snapshot');
+    }
+    return response.json();
+  }
+
+  async getIsos(): Promise<{ mountable: IsoImage[]; submissions: IsoImage[]; maxPendingSubmissions: number }> {
+    const response = await secureFetch(`${this.baseUrl}/isos`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to load ISO images');
+    }
+    return response.json();
+  }
+
+  async submitIsoUrl(name: string, url: string): Promise<{ iso: IsoImage }> {
+    const response = await secureFetch(`${this.baseUrl}/isos`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, url }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to submit ISO URL');
+    }
+    return response.json();
+  }
+
+  async deleteIso(isoId: number): Promise<{ success: boolean }> {
+    const response = await secureFetch(`${this.baseUrl}/isos/${isoId}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to remove ISO');
+    }
+    return response.json();
+  }
+
+  async getServerMedia(serverId: string): Promise<ServerMedia> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/media`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to load server media');
+    }
+    return response.json();
+  }
+
+  async mountIso(serverId: string, isoImageId: number): Promise<{ iso: IsoImage }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/media/iso`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ isoImageId }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to mount ISO');
+    }
+    return response.json();
+  }
+
+  async unmountIso(serverId: string): Promise<{ success: boolean }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/media/iso`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to unmount ISO');
+    }
+    return response.json();
+  }
+
+  async updateBootOrder(serverId: string, bootOrder: BootDevice[]): Promise<{ bootOrder: BootDevice[] }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/media/boot-order`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ bootOrder }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to update boot order');
+    }
+    return response.json();
+  }
+
+  async getServerLabels(serverId: string): Promise<ServerLabels> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/labels`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to load server tags');
+    }
+    return response.json();
+  }
+
+  async updateServerLabels(serverId: string, tags: string[], projectId: number | null): Promise<ServerLabels> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/labels`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ tags, projectId }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to update server tags');
+    }
+    return response.json();
+  }
+
+  async getPowerSchedules(serverId: string): Promise<{ schedules: PowerSchedule[]; runs: PowerScheduleRun[]; maxSchedules: number }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/power-schedules`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to load power schedules');
+    }
+    return response.json();
+  }
+
+  async createPowerSchedule(
+    serverId: string,
+    schedule: { action: ScheduledPowerAction; cronExpression: string | null; runAt: string | null; timezone: string },
+  ): Promise<{ schedule: PowerSchedule }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/power-schedules`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(schedule),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to create power schedule');
+    }
+    return response.json();
+  }
+
+  async setPowerScheduleEnabled(serverId: string, scheduleId: number, enabled: boolean): Promise<{ schedule: PowerSchedule }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/power-schedules/${scheduleId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ enabled }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to update power schedule');
+    }
+    return response.json();
+  }
+
+  async deletePowerSchedule(serverId: string, scheduleId: number): Promise<{ success: boolean }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/power-schedules/${scheduleId}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to delete power schedule');
+    }
+    return response.json();
+  }
+
+  async getServerTransfer(serverId: string): Promise<{ transfer: ServerTransferOffer | null; offerDays: number }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/transfer`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to load server transfer');
+    }
+    return response.json();
+  }
+
+  async createServerTransfer(serverId: string, recipientEmail: string): Promise<{ transfer: ServerTransferOffer }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/transfer`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ recipientEmail }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to start server transfer');
+    }
+    return response.json();
+  }
+
+  async cancelServerTransfer(serverId: string): Promise<{ success: boolean }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/transfer`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to cancel server transfer');
+    }
+    return response.json();
+  }
+
+  async getServerTransfers(): Promise<{ incoming: ServerTransferOffer[]; outgoing: ServerTransferOffer[] }> {
+    const response = await secureFetch(`${this.baseUrl}/server-transfers`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to load server transfers');
+    }
+    return response.json();
+  }
+
+  async acceptServerTransfer(transferId: number): Promise<{ transfer: ServerTransferOffer }> {
+    const response = await secureFetch(`${this.baseUrl}/server-transfers/${transferId}/accept`, {
+      method: 'POST',
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to accept server transfer');
+    }
     return response.json();
   }
 
-  // Combined dashboard endpoint - reduces 4 API calls to 1
-  async getDashboardOverview(): Promise<{
-    servers: Server[];
-    cancellations: Record<string, { scheduledDeletionAt: string; reason: string | null; mode: string; status: string }>;
-    billingStatuses: Record<string, { status: string; nextBillAt?: string; suspendAt?: string | null; monthlyPriceCents?: number; freeServer?: boolean; adminSuspended?: boolean; adminSuspendedReason?: string | null; planName?: string | null }>;
-    bandwidth: { totalBandwidth: number; totalLimit: number; serverCount: number };
-  }> {
-    const response = await secureFetch(`${this.baseUrl}/dashboard/overview`);
+  async declineServerTransfer(transferId: number): Promise<{ success: boolean }> {
+    const response = await secureFetch(`${this.baseUrl}/server-transfers/${transferId}/decline`, {
+      method: 'POST',
+    });
     if (!response.ok) {
-      if (response.status === 403) throw new Error('Your session has expired. Please log in again.');
-      throw new Error('Unable to load dashboard. Please check your internet connection and try again.');
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to decline server transfer');
     }
     return response.json();
   }
 
-  async getNetworkInfo(id: string): Promise<{ interfaces: NetworkInterface[] }> {
-    const response = await secureFetch(`${this.baseUrl}/servers/${id}/network`);
-    if (!response.ok) throw new Error('Failed to fetch network info');
+  async getAlertRules(serverId: string): Promise<{ rules: AlertRule[]; events: AlertEvent[]; maxRules: number }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/alerts`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to load alert rules');
+    }
     return response.json();
   }
 
-  async getOsTemplates(id: string): Promise<any> {
-    const response = await secureFetch(`${this.baseUrl}/servers/${id}/os-templates`);
-    if (!response.ok) throw new Error('Failed to fetch OS templates');
+  async createAlertRule(
+    serverId: string,
+    rule: { metric: ResourceAlertMetric; thresholdPercent: number; durationMinutes: number; cooldownMinutes: number; webhookUrl: string | null },
+  ): Promise<{ rule: AlertRule }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/alerts`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(rule),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to create alert rule');
+    }
     return response.json();
   }
 
-  async getReinstallTemplates(id: string): Promise<any> {
-    const response = await secureFetch(`${this.baseUrl}/servers/${id}/reinstall/templates`);
-    if (!response.ok) throw new Error('Failed to fetch available templates');
+  async updateAlertRule(
+    serverId: string,
+    ruleId: number,
+    updates: Partial<Pick<AlertRule, 'enabled' | 'thresholdPercent' | 'durationMinutes' | 'cooldownMinutes' | 'webhookUrl'>>,
+  ): Promise<{ rule: AlertRule }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/alerts/${ruleId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updates),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to update alert rule');
+    }
     return response.json();
   }
 
-  async renameServer(id: string, name: string): Promise<{ success: boolean; name: string }> {
-    const response = await secureFetch(`${this.baseUrl}/servers/${id}/name`, {
-      method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ name })
+  async deleteAlertRule(serverId: string, ruleId: number): Promise<{ success: boolean }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/alerts/${ruleId}`, {
+      method: 'DELETE',
     });
-    if (!response.ok) throw new Error('Failed to rename server');
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to delete alert rule');
+    }
     return response.json();
   }
 
-  async reinstallServer(id: string, osId: number, hostname: string): Promise<{ success: boolean; error?: string; data?: { generatedPassword?: string } }> {
-    const response = await secureFetch(`${this.baseUrl}/servers/${id}/reinstall`, {
-      method: 'POST',
+  async getFirewall(serverId: string): Promise<{ rules: FirewallRule[]; maxRules: number }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/firewall`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to load firewall rules');
+    }
+    return response.json();
+  }
+
+  async updateFirewall(serverId: string, rules: FirewallRule[]): Promise<{ rules: FirewallRule[] }> {
+    const response = await secureFetch(`${this.baseUrl}/servers/${serverId}/firewall`, {
+      method: 'PUT',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ osId, hostname })
+      body: JSON.stringify({ rules }),
     });
     if (!response.ok) {
-      const data = await response.json();
-      throw new Error(data.error || 'Failed to reinstall server');
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to update firewall rules');
     }
     return response.json();
   }
@@ -738,6 +1479,227 @@ class ApiClient {
     return response.json();
   }
 
+  async getSshKeys(): Promise<{ keys: SshKey[] }> {
+    const response = await secureFetch(`${this.baseUrl}/user/ssh-keys`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to load SSH keys');
+    }
+    return response.json();
+  }
+
+  async addSshKey(name: string, publicKey: string): Promise<{ key: SshKey }> {
+    const response = await secureFetch(`${this.baseUrl}/user/ssh-keys`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, publicKey }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to add SSH key');
+    }
+    return response.json();
+  }
+
+  async renameSshKey(id: number, name: string): Promise<{ key: SshKey }> {
+    const response = await secureFetch(`${this.baseUrl}/user/ssh-keys/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to rename SSH key');
+    }
+    return response.json();
+  }
+
+  async deleteSshKey(id: number): Promise<{ success: boolean }> {
+    const response = await secureFetch(`${this.baseUrl}/user/ssh-keys/${id}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to delete SSH key');
+    }
+    return response.json();
+  }
+
+  async getUserDataScripts(): Promise<{ scripts: UserDataScript[] }> {
+    const response = await secureFetch(`${this.baseUrl}/user/scripts`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to load scripts');
+    }
+    return response.json();
+  }
+
+  async createUserDataScript(name: string, content: string): Promise<{ script: UserDataScript }> {
+    const response = await secureFetch(`${this.baseUrl}/user/scripts`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, content }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to save script');
+    }
+    return response.json();
+  }
+
+  async updateUserDataScript(id: number, name: string, content: string): Promise<{ script: UserDataScript }> {
+    const response = await secureFetch(`${this.baseUrl}/user/scripts/${id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, content }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to update script');
+    }
+    return response.json();
+  }
+
+  async deleteUserDataScript(id: number): Promise<{ success: boolean }> {
+    const response = await secureFetch(`${this.baseUrl}/user/scripts/${id}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to delete script');
+    }
+    return response.json();
+  }
+
+  async getApiTokens(): Promise<{ tokens: ApiToken[] }> {
+    const response = await secureFetch(`${this.baseUrl}/user/api-tokens`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to load API tokens');
+    }
+    return response.json();
+  }
+
+  async createApiToken(name: string, scopes: ApiTokenScope[], expiresInDays: number | null): Promise<{ token: ApiToken; secret: string }> {
+    const response = await secureFetch(`${this.baseUrl}/user/api-tokens`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, scopes, expiresInDays }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to create API token');
+    }
+    return response.json();
+  }
+
+  async revokeApiToken(id: number): Promise<{ success: boolean }> {
+    const response = await secureFetch(`${this.baseUrl}/user/api-tokens/${id}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to revoke API token');
+    }
+    return response.json();
+  }
+
+  async getFirewallRuleSets(): Promise<{ ruleSets: FirewallRuleSet[] }> {
+    const response = await secureFetch(`${this.baseUrl}/user/firewall-rule-sets`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to load rule sets');
+    }
+    return response.json();
+  }
+
+  async createFirewallRuleSet(name: string, rules: FirewallRule[]): Promise<{ ruleSet: FirewallRuleSet }> {
+    const response = await secureFetch(`${this.baseUrl}/user/firewall-rule-sets`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, rules }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to save rule set');
+    }
+    return response.json();
+  }
+
+  async deleteFirewallRuleSet(id: number): Promise<{ success: boolean }> {
+    const response = await secureFetch(`${this.baseUrl}/user/firewall-rule-sets/${id}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to delete rule set');
+    }
+    return response.json();
+  }
+
+  async getProjects(): Promise<{ projects: Project[]; maxProjects: number }> {
+    const response = await secureFetch(`${this.baseUrl}/user/projects`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to load projects');
+    }
+    return response.json();
+  }
+
+  async createProject(name: string): Promise<{ project: Project }> {
+    const response = await secureFetch(`${this.baseUrl}/user/projects`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to create project');
+    }
+    return response.json();
+  }
+
+  async renameProject(id: number, name: string): Promise<{ project: Project }> {
+    const response = await secureFetch(`${this.baseUrl}/user/projects/${id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to rename project');
+    }
+    return response.json();
+  }
+
+  async deleteProject(id: number): Promise<{ success: boolean }> {
+    const response = await secureFetch(`${this.baseUrl}/user/projects/${id}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to delete project');
+    }
+    return response.json();
+  }
+
+  async applyFirewallRuleSet(
+    id: number,
+    serverIds: string[],
+    mode: 'append' | 'replace',
+  ): Promise<{ results: Array<{ serverId: string; success: boolean; error?: string }> }> {
+    const response = await secureFetch(`${this.baseUrl}/user/firewall-rule-sets/${id}/apply`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ serverIds, mode }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to apply rule set');
+    }
+    return response.json();
+  }
+
   async login(
     email: string,
     password: string,
@@ -980,7 +1942,8 @@ class ApiClient {
     return data;
   }
 
-  async deployServer(data: { planId: number; osId?: number; hostname?: string; locationCode?: string; promoCode?: string }): Promise<{ orderId: number; serverId: number; success: boolean }> {
+  // Resolves with serverId null (HTTP 202) when provisioning is still being retried in the background
+  async deployServer(data: { planId: number; osId?: number; hostname?: string; locationCode?: string; promoCode?: string; sshKeyIds?: number[]; userData?: string; billingCycle?: BillingCycle; termMonths?: number }): Promise<{ orderId: number; serverId: number | null; success: boolean; status: DeployOrderStatus; step?: ProvisioningStep }> {
     const response = await secureFetch(`${this.baseUrl}/deploy`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -1111,12 +2074,14 @@ class ApiClient {
   }
 
   async getInvoices(): Promise<{ invoices: Array<{
-    id: number;
+    id: string;
     invoiceNumber: string;
     amountCents: number;
     description: string;
     status: string;
     createdAt: string;
+    periodStart: string | null;
+    periodEnd: string | null;
     pdfUrl?: string | null;
   }> }> {
     const response = await secureFetch(`${this.baseUrl}/billing/invoices`);
@@ -1124,6 +2089,37 @@ class ApiClient {
     return response.json();
   }
 
+  async getStatements(): Promise<{ statements: AccountStatement[] }> {
+    const response = await secureFetch(`${this.baseUrl}/billing/statements`);
+    if (!response.ok) throw new Error('Failed to fetch statements');
+    return response.json();
+  }
+
+  async getBillingProfile(): Promise<{ profile: BillingProfile }> {
+    const response = await secureFetch(`${this.baseUrl}/user/billing-profile`);
+    if (!response.ok) throw new Error('Failed to fetch billing details');
+    return response.json();
+  }
+
+  async updateBillingProfile(data: Pick<BillingProfile, 'businessName' | 'abn' | 'countryCode' | 'showPricesExTax'>): Promise<{ profile: BillingProfile }> {
+    const response = await secureFetch(`${this.baseUrl}/user/billing-profile`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || 'Failed to update billing details');
+    }
+    return response.json();
+  }
+
+  async getBillingTerms(): Promise<{ terms: BillingTermOption[] }> {
+    const response = await secureFetch(`${this.baseUrl}/billing/terms`);
+    if (!response.ok) throw new Error('Failed to fetch billing terms');
+    return response.json();
+  }
+
   async getUpcomingCharges(): Promise<{ upcoming: Array<{
     id: number;
     virtfusionServerId: string;
@@ -1133,7 +2129,16 @@ class ApiClient {
     nextBillAt: string;
     suspendAt: string | null;
     autoRenew: boolean;
-  }> }> {
+    projectId: number | null;
+    projectName: string | null;
+    addons: ServerAddon[];
+    addonsMonthlyCents: number;
+    billingCycle: BillingCycle;
+    accruedCents: number | null; // Hourly usage since the last daily settlement
+    termMonths: number;
+    termDiscountPercent: number;
+    renewalCents: number | null; // Plan for the whole term plus add-ons; null for hourly servers
+  }>; projectSubtotals: ProjectSubtotal[] }> {
     const response = await secureFetch(`${this.baseUrl}/billing/upcoming`);
     if (!response.ok) throw new Error('Failed to fetch upcoming charges');
     return response.json();
@@ -1238,6 +2243,25 @@ class ApiClient {
     return response.json();
   }
 
+  async getTransferOverageSettings(): Promise<TransferOverageSettings> {
+    const response = await secureFetch(`${this.baseUrl}/admin/settings/transfer-overage`);
+    if (!response.ok) throw new Error('Failed to fetch transfer overage settings');
+    return response.json();
+  }
+
+  async updateTransferOverageSettings(settings: TransferOverageSettings): Promise<TransferOverageSettings> {
+    const response = await secureFetch(`${this.baseUrl}/admin/settings/transfer-overage`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(settings),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to update transfer overage settings');
+    }
+    return response.json();
+  }
+
   // ==========================================
   // ADMIN RATE LIMIT MANAGEMENT
   // ==========================================
@@ -58,6 +58,8 @@ export interface Server {
     trialExpiresAt?: string | null;
     trialEndedAt?: string | null;
   } | null;
+  tags?: string[];
+  project?: { id: number; name: string } | null;
   created_at: string;
 }
 
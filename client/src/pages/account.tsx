@@ -3,10 +3,15 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { useDocumentTitle } from "@/hooks/use-document-title";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api } from "@/lib/api";
+import { FirewallRuleSetsCard } from "@/components/firewall-rule-sets-card";
+import { ApiTokensCard } from "@/components/api-tokens-card";
+import { ProjectsCard } from "@/components/projects-card";
+import { ServerTransfersCard } from "@/components/server-transfers-card";
 import {
   User,
   Shield,
@@ -29,7 +34,11 @@ import {
   Laptop,
   MapPin,
   Trash2,
-  Upload
+  Upload,
+  KeyRound,
+  Plus,
+  FileCode,
+  Pencil
 } from "lucide-react";
 import { useState, useEffect } from "react";
 
@@ -56,6 +65,16 @@ export default function Account() {
   const [disableToken, setDisableToken] = useState("");
   const [disablePassword, setDisablePassword] = useState("");
   const [showDisableConfirm, setShowDisableConfirm] = useState(false);
+
+  // SSH key state
+  const [showAddSshKey, setShowAddSshKey] = useState(false);
+  const [sshKeyName, setSshKeyName] = useState("");
+  const [sshKeyValue, setSshKeyValue] = useState("");
+
+  // User-data script state ('new' while creating, script id while editing)
+  const [editingScript, setEditingScript] = useState<number | 'new' | null>(null);
+  const [scriptName, setScriptName] = useState("");
+  const [scriptContent, setScriptContent] = useState("");
   const [profilePictureUrl, setProfilePictureUrl] = useState<string | null>(null);
   const [selectedMethod, setSelectedMethod] = useState<'totp' | 'email'>('totp');
 
@@ -240,6 +259,99 @@ export default function Account() {
     }
   });
 
+  const { data: sshKeysData, isLoading: sshKeysLoading } = useQuery({
+    queryKey: ['ssh-keys'],
+    queryFn: () => api.getSshKeys(),
+  });
+
+  const addSshKeyMutation = useMutation({
+    mutationFn: ({ name, publicKey }: { name: string; publicKey: string }) => api.addSshKey(name, publicKey),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ssh-keys'] });
+      setShowAddSshKey(false);
+      setSshKeyName("");
+      setSshKeyValue("");
+      toast({
+        title: "SSH Key Added",
+        description: "You can now select this key when deploying or reinstalling a server.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could Not Add Key",
+        description: error.message || "Failed to add SSH key.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteSshKeyMutation = useMutation({
+    mutationFn: (keyId: number) => api.deleteSshKey(keyId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ssh-keys'] });
+      toast({
+        title: "SSH Key Removed",
+        description: "Servers that already have this key installed are not affected.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Removal Failed",
+        description: error.message || "Failed to remove SSH key.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const { data: scriptsData, isLoading: scriptsLoading } = useQuery({
+    queryKey: ['user-data-scripts'],
+    queryFn: () => api.getUserDataScripts(),
+  });
+
+  const closeScriptEditor = () => {
+    setEditingScript(null);
+    setScriptName("");
+    setScriptContent("");
+  };
+
+  const saveScriptMutation = useMutation({
+    mutationFn: ({ id, name, content }: { id: number | 'new'; name: string; content: string }) =>
+      id === 'new' ? api.createUserDataScript(name, content) : api.updateUserDataScript(id, name, content),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user-data-scripts'] });
+      closeScriptEditor();
+      toast({
+        title: "Script Saved",
+        description: "You can load this script when deploying or reinstalling a server.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could Not Save Script",
+        description: error.message || "Failed to save script.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteScriptMutation = useMutation({
+    mutationFn: (scriptId: number) => api.deleteUserDataScript(scriptId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user-data-scripts'] });
+      toast({
+        title: "Script Deleted",
+        description: "The saved script has been removed.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message || "Failed to delete script.",
+        variant: "destructive",
+      });
+    }
+  });
+
   const revokeAllTrustedDevicesMutation = useMutation({
     mutationFn: () => api.revokeAllTrusted2FADevices(),
     onSuccess: (data) => {
@@ -1307,6 +1419,287 @@ export default function Account() {
               </div>
             ) : null}
           </Card>
+
+          {/* SSH Keys Section */}
+          <Card className="p-6 mt-6" data-testid="ssh-keys-section">
+            <div className="flex items-center gap-3 mb-6">
+              <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center border border-primary/20">
+                <KeyRound className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <h3 className="font-semibold text-foreground">SSH Keys</h3>
+                <p className="text-sm text-muted-foreground">
+                  Public keys you can install on servers at deploy or reinstall
+                </p>
+              </div>
+              {!showAddSshKey && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="ml-auto border-border hover:bg-muted/50"
+                  onClick={() => setShowAddSshKey(true)}
+                  data-testid="button-add-ssh-key"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Key
+                </Button>
+              )}
+            </div>
+
+            {showAddSshKey && (
+              <div className="space-y-4 rounded-lg border border-border bg-muted/20 p-4 mb-4">
+                <div className="space-y-2">
+                  <Label htmlFor="ssh-key-name">Name</Label>
+                  <Input
+                    id="ssh-key-name"
+                    placeholder="e.g., Work laptop"
+                    value={sshKeyName}
+                    maxLength={64}
+                    onChange={(e) => setSshKeyName(e.target.value)}
+                    data-testid="input-ssh-key-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ssh-key-value">Public Key</Label>
+                  <Textarea
+                    id="ssh-key-value"
+                    placeholder="ssh-ed25519 AAAA... user@host"
+                    value={sshKeyValue}
+                    onChange={(e) => setSshKeyValue(e.target.value)}
+                    className="font-mono text-xs min-h-[96px]"
+                    data-testid="input-ssh-key-value"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Paste the contents of your .pub file. Never paste a private key.
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    className="flex-1 border-border hover:bg-muted/50"
+                    onClick={() => {
+                      setShowAddSshKey(false);
+                      setSshKeyName("");
+                      setSshKeyValue("");
+                    }}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    className="flex-1"
+                    onClick={() => addSshKeyMutation.mutate({ name: sshKeyName.trim(), publicKey: sshKeyValue.trim() })}
+                    disabled={!sshKeyName.trim() || !sshKeyValue.trim() || addSshKeyMutation.isPending}
+                    data-testid="button-save-ssh-key"
+                  >
+                    {addSshKeyMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Save className="h-4 w-4 mr-2" />
+                    )}
+                    Save Key
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {sshKeysLoading ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading SSH keys...
+              </div>
+            ) : sshKeysData?.keys?.length ? (
+              <div className="space-y-3">
+                {sshKeysData.keys.map((key) => (
+                  <div
+                    key={key.id}
+                    className="flex items-start justify-between gap-4 rounded-lg border border-border bg-background/40 p-4"
+                    data-testid={`ssh-key-${key.id}`}
+                  >
+                    <div className="space-y-1 min-w-0">
+                      <p className="font-medium text-foreground break-words">{key.name}</p>
+                      <p className="text-xs font-mono text-muted-foreground break-all">{key.fingerprint}</p>
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Clock className="h-3.5 w-3.5" />
+                        <span>
+                          {key.lastUsedAt
+                            ? `Last used ${new Date(key.lastUsedAt).toLocaleString('en-AU', { timeZone: 'Australia/Brisbane', dateStyle: 'medium', timeStyle: 'short' })}`
+                            : 'Never used'}
+                        </span>
+                      </div>
+                    </div>
+
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => deleteSshKeyMutation.mutate(key.id)}
+                      disabled={deleteSshKeyMutation.isPending}
+                      className="border-red-500/30 text-red-400 hover:bg-red-500/10 hover:text-red-300"
+                      data-testid={`button-delete-ssh-key-${key.id}`}
+                    >
+                      {deleteSshKeyMutation.isPending ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="rounded-lg border border-dashed border-border bg-background/30 p-4 text-sm text-muted-foreground">
+                No SSH keys saved yet.
+              </div>
+            )}
+          </Card>
+
+          {/* User-Data Scripts Section */}
+          <Card className="p-6 mt-6" data-testid="user-data-scripts-section">
+            <div className="flex items-center gap-3 mb-6">
+              <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center border border-primary/20">
+                <FileCode className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <h3 className="font-semibold text-foreground">Startup Scripts</h3>
+                <p className="text-sm text-muted-foreground">
+                  Saved cloud-init user-data to bootstrap new servers
+                </p>
+              </div>
+              {editingScript === null && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="ml-auto border-border hover:bg-muted/50"
+                  onClick={() => setEditingScript('new')}
+                  data-testid="button-add-script"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Script
+                </Button>
+              )}
+            </div>
+
+            {editingScript !== null && (
+              <div className="space-y-4 rounded-lg border border-border bg-muted/20 p-4 mb-4">
+                <div className="space-y-2">
+                  <Label htmlFor="script-name">Name</Label>
+                  <Input
+                    id="script-name"
+                    placeholder="e.g., Docker host"
+                    value={scriptName}
+                    maxLength={64}
+                    onChange={(e) => setScriptName(e.target.value)}
+                    data-testid="input-script-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="script-content">User Data</Label>
+                  <Textarea
+                    id="script-content"
+                    placeholder={"#cloud-config\npackages:\n  - docker.io"}
+                    value={scriptContent}
+                    onChange={(e) => setScriptContent(e.target.value)}
+                    className="font-mono text-xs min-h-[180px]"
+                    data-testid="input-script-content"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Start with #cloud-config or a shebang such as #!/bin/bash. Maximum 64 KB.
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    className="flex-1 border-border hover:bg-muted/50"
+                    onClick={closeScriptEditor}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    className="flex-1"
+                    onClick={() => saveScriptMutation.mutate({ id: editingScript, name: scriptName.trim(), content: scriptContent })}
+                    disabled={!scriptName.trim() || !scriptContent.trim() || saveScriptMutation.isPending}
+                    data-testid="button-save-script"
+                  >
+                    {saveScriptMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Save className="h-4 w-4 mr-2" />
+                    )}
+                    Save Script
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {scriptsLoading ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading scripts...
+              </div>
+            ) : scriptsData?.scripts?.length ? (
+              <div className="space-y-3">
+                {scriptsData.scripts.map((script) => (
+                  <div
+                    key={script.id}
+                    className="flex items-start justify-between gap-4 rounded-lg border border-border bg-background/40 p-4"
+                    data-testid={`script-${script.id}`}
+                  >
+                    <div className="space-y-1 min-w-0">
+                      <p className="font-medium text-foreground break-words">{script.name}</p>
+                      <p className="text-xs font-mono text-muted-foreground truncate">
+                        {script.content.split('\n', 1)[0]}
+                      </p>
+                    </div>
+
+                    <div className="flex gap-2 flex-shrink-0">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setEditingScript(script.id);
+                          setScriptName(script.name);
+                          setScriptContent(script.content);
+                        }}
+                        className="border-border hover:bg-muted/50"
+                        data-testid={`button-edit-script-${script.id}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => deleteScriptMutation.mutate(script.id)}
+                        disabled={deleteScriptMutation.isPending}
+                        className="border-red-500/30 text-red-400 hover:bg-red-500/10 hover:text-red-300"
+                        data-testid={`button-delete-script-${script.id}`}
+                      >
+                        {deleteScriptMutation.isPending ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Trash2 className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="rounded-lg border border-dashed border-border bg-background/30 p-4 text-sm text-muted-foreground">
+                No saved scripts yet.
+              </div>
+            )}
+          </Card>
+
+          {/* Projects Section */}
+          <ProjectsCard />
+
+          {/* Server Transfers Section */}
+          <ServerTransfersCard />
+
+          {/* Firewall Rule Sets Section */}
+          <FirewallRuleSetsCard />
+
+          {/* API Tokens Section */}
+          <ApiTokensCard />
           </>
         )}
 
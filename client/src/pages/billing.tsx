@@ -6,7 +6,7 @@ import { useDocumentTitle } from "@/hooks/use-document-title";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
-import { api } from "@/lib/api";
+import { api, type BillingCycle, type ProjectSubtotal, type ServerAddon } from "@/lib/api";
 import {
   Wallet,
   CreditCard,
@@ -53,6 +53,10 @@ import { Elements, CardElement, useStripe, useElements } from "@stripe/react-str
 import { useTheme } from "@/components/theme-provider";
 import { Badge } from "@/components/ui/badge";
 import { cn, formatDate, formatDateShort } from "@/lib/utils";
+import { hourlyRateCents } from "@shared/hourly-billing";
+import { displayPriceCents } from "@shared/tax";
+import { BillingDetailsCard } from "@/components/billing-details-card";
+import { AccountStatementsSection } from "@/components/account-statements-section";
 
 interface Wallet {
   id: number;
@@ -84,13 +88,17 @@ interface Transaction {
   createdAt: string;
 }
 
+// Credit notes for refunds are listed alongside invoices, with negative amounts
 interface Invoice {
-  id: number;
+  id: string;
   invoiceNumber: string;
   amountCents: number;
   description: string;
   status: string;
   createdAt: string;
+  // Service period, on invoices for renewals, deploys and add-ons
+  periodStart: string | null;
+  periodEnd: string | null;
   pdfUrl?: string | null;
 }
 
@@ -653,12 +661,32 @@ export default function BillingPage() {
     freeServer?: boolean;
     serverName?: string;
     serverUuid?: string;
-  }> }>({
+    projectId: number | null;
+    projectName: string | null;
+    addons: ServerAddon[];
+    addonsMonthlyCents: number;
+    billingCycle: BillingCycle;
+    accruedCents: number | null;
+    termMonths: number;
+    termDiscountPercent: number;
+    renewalCents: number | null;
+  }>; projectSubtotals: ProjectSubtotal[] }>({
     queryKey: ['upcoming-charges'],
     queryFn: () => api.getUpcomingCharges(),
     // Server billing is independent of Stripe, so always fetch
   });
 
+  const { data: billingProfileData } = useQuery({
+    queryKey: ['billing-profile'],
+    queryFn: () => api.getBillingProfile(),
+  });
+  const billingProfile = billingProfileData?.profile;
+
+  // Server prices include GST; customers can choose to see them without it
+  const displayPrice = (cents: number) => billingProfile
+    ? displayPriceCents(cents, { showPricesExTax: billingProfile.showPricesExTax, treatment: billingProfile.taxTreatment })
+    : cents;
+
   // Auto-select first payment method when payment methods are loaded
   useEffect(() => {
     if (paymentMethodsData?.paymentMethods && paymentMethodsData.paymentMethods.length > 0 && !selectedPaymentMethodId) {
@@ -1072,14 +1100,18 @@ export default function BillingPage() {
               const chargeable = upcomingChargesData?.upcoming.filter(
                 c => !c.freeServer && (c.status === 'active' || c.status === 'paid')
               ) ?? [];
-              const totalUpcoming = chargeable.reduce((sum, c) => sum + c.monthlyPriceCents, 0);
+              // Hourly servers only need their accrued usage at the next daily settlement;
+              // prepaid servers need their whole term
+              const renewalCents = (c: typeof chargeable[number]) =>
+                c.billingCycle === 'hourly' ? (c.accruedCents ?? 0) : (c.renewalCents ?? c.monthlyPriceCents + c.addonsMonthlyCents);
+              const totalUpcoming = chargeable.reduce((sum, c) => sum + renewalCents(c), 0);
               const balance = wallet?.balanceCents ?? 0;
               const shortfall = totalUpcoming - balance;
               if (!wallet || loadingWallet || loadingUpcomingCharges || shortfall <= 0) return null;
               let runningBalance = balance;
               const shortServers = chargeable.filter(c => {
-                if (runningBalance >= c.monthlyPriceCents) {
-                  runningBalance -= c.monthlyPriceCents;
+                if (runningBalance >= renewalCents(c)) {
+                  runningBalance -= renewalCents(c);
                   return false;
                 }
                 return true;
@@ -1090,7 +1122,7 @@ export default function BillingPage() {
                   <div className="flex-1 min-w-0">
                     <p className="text-sm font-semibold text-warning">Insufficient wallet balance</p>
                     <p className="text-xs text-warning/80 mt-0.5">
-                      Your balance ({formatCurrency(balance)}) is {formatCurrency(shortfall)} short of your total monthly charges ({formatCurrency(totalUpcoming)}).
+                      Your balance ({formatCurrency(balance)}) is {formatCurrency(shortfall)} short of your upcoming renewals ({formatCurrency(totalUpcoming)}).
                       {shortServers.length > 0 && ` ${shortServers.length} server${shortServers.length > 1 ? 's' : ''} may be suspended when payment is due.`}
                     </p>
                   </div>
@@ -1314,9 +1346,28 @@ export default function BillingPage() {
                   <div data-testid="upcoming-charges-section">
                     <h2 className="text-lg font-semibold text-foreground mb-2">Upcoming Server Charges</h2>
                     <p className="text-sm text-muted-foreground mb-4">
-                      Monthly billing for your servers. Charges are automatically deducted from your wallet at 6pm AEST on the due date.
+                      Renewals for your servers, monthly or for the term you prepaid. Charges are automatically deducted from your wallet at 6pm AEST on the due date.
+                      {billingProfile?.showPricesExTax && billingProfile.taxRatePercent > 0 && ' Prices are shown excluding GST.'}
                     </p>
 
+                    {/* Per-project subtotals, shown once any server is in a project */}
+                    {upcomingChargesData.projectSubtotals?.some(subtotal => subtotal.projectId !== null) && (
+                      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 mb-4" data-testid="project-subtotals">
+                        {upcomingChargesData.projectSubtotals.map((subtotal) => (
+                          <div key={subtotal.projectId ?? 'none'} className="border border-border rounded-lg p-4 bg-card">
+                            <div className="text-xs uppercase tracking-wide text-muted-foreground truncate">{subtotal.projectName}</div>
+                            <div className="font-mono text-lg font-bold text-foreground mt-1">
+                              {formatCurrency(displayPrice(subtotal.monthlyPriceCents))}
+                              <span className="text-xs font-normal text-muted-foreground"> /month</span>
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              {subtotal.serverCount} server{subtotal.serverCount !== 1 ? 's' : ''}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
                     {/* Horizontal server charge rows */}
                     <div className="border border-border rounded-lg overflow-hidden bg-card">
                       {upcomingChargesData.upcoming.map((charge, index) => {
@@ -1329,6 +1380,10 @@ export default function BillingPage() {
                           const suspendDate = charge.suspendAt ? new Date(charge.suspendAt) : null;
                           const suspendDateUTC = suspendDate ? Date.UTC(suspendDate.getFullYear(), suspendDate.getMonth(), suspendDate.getDate()) : null;
                           const daysUntilSuspension = suspendDateUTC ? Math.round((suspendDateUTC - todayUTC) / (1000 * 60 * 60 * 24)) : null;
+                          const isHourly = charge.billingCycle === 'hourly';
+                          const monthlyCents = charge.monthlyPriceCents + charge.addonsMonthlyCents;
+                          const termCents = charge.renewalCents ?? monthlyCents;
+                          const requiredCents = isHourly ? (charge.accruedCents ?? 0) : termCents;
 
                           return (
                             <Link
@@ -1347,6 +1402,11 @@ export default function BillingPage() {
                                     <span className="font-semibold text-foreground text-sm truncate">
                                       {charge.serverName || `Server #${charge.virtfusionServerId}`}
                                     </span>
+                                    {charge.projectName && (
+                                      <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                                        {charge.projectName}
+                                      </Badge>
+                                    )}
                                     {charge.freeServer && (
                                       <Badge className="text-[10px] px-1.5 py-0 bg-purple-500/20 text-purple-500 border-purple-500/30">
                                         <Gift className="h-2.5 w-2.5 mr-1" />
@@ -1376,12 +1436,16 @@ export default function BillingPage() {
                                       </span>
                                     ) : charge.status === 'unpaid' && daysUntilSuspension !== null ? (
                                       <span className="text-warning">
-                                        Suspends in {daysUntilSuspension} day{daysUntilSuspension !== 1 ? 's' : ''} - {formatCurrency(charge.monthlyPriceCents)} required
+                                        Suspends in {daysUntilSuspension} day{daysUntilSuspension !== 1 ? 's' : ''} - {formatCurrency(requiredCents)} required
                                       </span>
                                     ) : charge.status === 'suspended' ? (
                                       <span className="text-destructive">
-                                        Suspended - {formatCurrency(charge.monthlyPriceCents)} required to reactivate
+                                        Suspended - {formatCurrency(requiredCents)} required to reactivate
                                       </span>
+                                    ) : isHourly ? (
+                                      <>
+                                        {formatCurrency(charge.accruedCents ?? 0)} used since last settlement - settled daily from your wallet
+                                      </>
                                     ) : daysUntilBill < 0 ? (
                                       <span className="text-red-400 font-medium">
                                         Overdue ({Math.abs(daysUntilBill)} day{Math.abs(daysUntilBill) !== 1 ? 's' : ''}) - Payment required immediately
@@ -1418,9 +1482,23 @@ export default function BillingPage() {
                                 ) : (
                                   <>
                                     <div className="font-mono text-base font-bold text-foreground">
-                                      {formatCurrency(charge.monthlyPriceCents)}
+                                      {isHourly ? `$${(hourlyRateCents(displayPrice(monthlyCents)) / 100).toFixed(4)}` : formatCurrency(displayPrice(termCents))}
+                                    </div>
+                                    <div className="text-[10px] text-muted-foreground uppercase tracking-wide">
+                                      {isHourly
+                                        ? `per hour · max ${formatCurrency(displayPrice(monthlyCents))}/mo`
+                                        : charge.termMonths > 1
+                                          ? `per ${charge.termMonths} months${charge.termDiscountPercent > 0 ? ` · ${charge.termDiscountPercent}% off` : ''}`
+                                          : 'per month'}
                                     </div>
-                                    <div className="text-[10px] text-muted-foreground uppercase tracking-wide">per month</div>
+                                    {charge.addons.length > 0 && (
+                                      <div
+                                        className="text-[10px] text-muted-foreground"
+                                        title={charge.addons.map(addon => `${addon.label}${addon.address ? ` ${addon.address}` : ''}: ${formatCurrency(addon.monthlyPriceCents)}`).join('\n')}
+                                      >
+                                        incl. {charge.addons.length} IP add-on{charge.addons.length !== 1 ? 's' : ''}
+                                      </div>
+                                    )}
                                   </>
                                 )}
                               </div>
@@ -1513,6 +1591,18 @@ export default function BillingPage() {
                                     {tx.type === 'debit' && tx.metadata && (tx.metadata as Record<string, string>).reason && (
                                       <> · {(tx.metadata as Record<string, string>).reason}</>
                                     )}
+                                    {/* Renewals list the IP add-ons they included */}
+                                    {tx.type === 'debit' && Array.isArray(tx.metadata?.addons) && tx.metadata.addons.length > 0 && (
+                                      <> · incl. {tx.metadata.addons.length} IP add-on{tx.metadata.addons.length !== 1 ? 's' : ''}</>
+                                    )}
+                                    {/* Prepaid renewals show the term they covered */}
+                                    {tx.type === 'debit' && typeof tx.metadata?.termMonths === 'number' && (
+                                      <> · {tx.metadata.termMonths} months</>
+                                    )}
+                                    {/* Hourly settlements show how many hours they covered */}
+                                    {tx.type === 'debit' && typeof tx.metadata?.hours === 'number' && (
+                                      <> · {tx.metadata.hours}h</>
+                                    )}
                                     {/* Show details for credits - card info or reason */}
                                     {tx.type === 'credit' && tx.metadata && (
                                       <>
@@ -1631,12 +1721,17 @@ export default function BillingPage() {
                                 <div className="font-medium text-foreground text-sm">{invoice.invoiceNumber}</div>
                                 <div className="text-xs text-muted-foreground">
                                   {formatDate(invoice.createdAt)} · {invoice.description}
+                                  {invoice.periodStart && invoice.periodEnd && (
+                                    <> · {formatDate(invoice.periodStart)} – {formatDate(invoice.periodEnd)}</>
+                                  )}
+                                  {invoice.status === 'void' && <> · Refunded</>}
+                                  {invoice.status === 'partially_refunded' && <> · Partially refunded</>}
                                 </div>
                               </div>
                             </div>
                             <div className="flex items-center gap-3 flex-shrink-0 ml-4">
-                              <span className="font-mono text-base font-semibold text-success">
-                                ${(invoice.amountCents / 100).toFixed(2)}
+                              <span className={cn("font-mono text-base font-semibold", invoice.amountCents < 0 ? "text-muted-foreground" : "text-success")}>
+                                {invoice.amountCents < 0 ? '-' : ''}${(Math.abs(invoice.amountCents) / 100).toFixed(2)}
                               </span>
                               {invoice.pdfUrl && (
                                 <Button
@@ -1691,6 +1786,7 @@ export default function BillingPage() {
                     </>
                   )}
                 </div>
+                <AccountStatementsSection />
               </TabsContent>
 
               {/* Settings Tab */}
@@ -1699,6 +1795,7 @@ export default function BillingPage() {
                   <h2 className="text-xl font-semibold text-foreground mb-4">Billing Settings</h2>
                   <AutoTopupSection paymentMethods={paymentMethods} />
                 </div>
+                <BillingDetailsCard />
               </TabsContent>
             </Tabs>
 
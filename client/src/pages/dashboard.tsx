@@ -22,6 +22,13 @@ import { cn } from "@/lib/utils";
 import { EmailVerificationBanner } from "@/components/email-verification-banner";
 import { useAuth } from "@/hooks/use-auth";
 import { BillingBanner } from "@/components/billing-banner";
+import {
+  DEFAULT_SERVER_LABEL_FILTER,
+  ServerLabelFilter,
+  filterServersByLabels,
+  groupServersByProject,
+} from "@/components/server-label-filter";
+import { useState } from "react";
 
 export default function Dashboard() {
   useDocumentTitle('Dashboard');
@@ -30,6 +37,7 @@ export default function Dashboard() {
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [labelFilter, setLabelFilter] = useState(DEFAULT_SERVER_LABEL_FILTER);
 
   // Combined dashboard query - reduces 4 API calls to 1
   const { data: dashboardData, isLoading, error } = useQuery({
@@ -61,6 +69,11 @@ export default function Dashboard() {
   const bandwidthData = dashboardData?.bandwidth;
   const cancellations = dashboardData?.cancellations || {};
   const billingStatuses = dashboardData?.billingStatuses || {};
+  const projects = dashboardData?.projects || [];
+  const visibleServers = filterServersByLabels(servers, labelFilter);
+  const serverGroups = labelFilter.groupByProject
+    ? groupServersByProject(visibleServers)
+    : [{ key: 'all', name: '', servers: visibleServers }];
   const walletBalance = walletData?.wallet?.balanceCents || 0;
 
   // Find servers with billing issues — use s.billing directly (reliable, same as server-detail)
@@ -221,7 +234,18 @@ export default function Dashboard() {
         </div>
 
         {/* DO-Style Horizontal Server Rows */}
-        <PageSection title="Your Servers" className="mt-4">
+        <PageSection
+          title="Your Servers"
+          className="mt-4"
+          action={
+            <ServerLabelFilter
+              servers={servers}
+              projects={projects}
+              value={labelFilter}
+              onChange={setLabelFilter}
+            />
+          }
+        >
           {isLoading ? (
             <div className="border border-border rounded-lg p-8 flex items-center justify-center">
               <div className="text-center text-muted-foreground">
@@ -252,117 +276,137 @@ export default function Dashboard() {
                 <Link href="/deploy">Deploy Your First Server</Link>
               </Button>
             </Card>
-          ) : (
-            <div className="border border-border rounded-lg overflow-hidden bg-card">
-              {servers.map((server, index) => {
-                const cancellation = cancellations[server.id];
-                const displayStatus = getDisplayStatus(server.id, server.status, cancellation, server.needsSetup);
-                const isRunning = displayStatus === 'running';
-                const isStopped = displayStatus === 'stopped';
-                const isDeleting = displayStatus === 'destroying' || displayStatus === 'queued_deletion';
-                const isScheduledDeletion = displayStatus === 'scheduled_deletion';
-                const isProvisioning = displayStatus === 'setting up';
-                const isAccountSuspended = user?.accountSuspended;
+          ) : visibleServers.length === 0 ? (
+            <div className="border border-border rounded-lg p-8 text-center text-sm text-muted-foreground">
+              No servers match the selected tag or project.
+            </div>
+          ) : serverGroups.map((group) => (
+            <div key={group.key} className="space-y-2 mb-6 last:mb-0">
+              {labelFilter.groupByProject && (
+                <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+                  {group.name} <span className="font-normal">({group.servers.length})</span>
+                </h3>
+              )}
+              <div className="border border-border rounded-lg overflow-hidden bg-card">
+                {group.servers.map((server, index) => {
+                  const cancellation = cancellations[server.id];
+                  const displayStatus = getDisplayStatus(server.id, server.status, cancellation, server.needsSetup);
+                  const isRunning = displayStatus === 'running';
+                  const isStopped = displayStatus === 'stopped';
+                  const isDeleting = displayStatus === 'destroying' || displayStatus === 'queued_deletion';
+                  const isScheduledDeletion = displayStatus === 'scheduled_deletion';
+                  const isProvisioning = displayStatus === 'setting up';
+                  const isAccountSuspended = user?.accountSuspended;
 
-                const serverContent = (
-                  <div
-                    className={cn(
-                      "flex items-center gap-4 px-4 py-3 transition-colors",
-                      index !== 0 && "border-t border-border",
-                      isAccountSuspended ? "opacity-60 cursor-not-allowed" : "hover:bg-muted/30 cursor-pointer"
-                    )}
-                  >
-                    {/* Status dot - small and minimal */}
-                    <div className={cn(
-                      "h-2 w-2 rounded-full flex-shrink-0",
-                      isRunning && "bg-success",
-                      isStopped && "bg-muted-foreground",
-                      isDeleting && "bg-red-500 animate-pulse",
-                      isScheduledDeletion && "bg-orange-500",
-                      isProvisioning && "bg-blue-500 animate-pulse",
-                      !isRunning && !isStopped && !isDeleting && !isScheduledDeletion && !isProvisioning && "bg-warning"
-                    )} />
+                  const serverContent = (
+                    <div
+                      className={cn(
+                        "flex items-center gap-4 px-4 py-3 transition-colors",
+                        index !== 0 && "border-t border-border",
+                        isAccountSuspended ? "opacity-60 cursor-not-allowed" : "hover:bg-muted/30 cursor-pointer"
+                      )}
+                    >
+                      {/* Status dot - small and minimal */}
+                      <div className={cn(
+                        "h-2 w-2 rounded-full flex-shrink-0",
+                        isRunning && "bg-success",
+                        isStopped && "bg-muted-foreground",
+                        isDeleting && "bg-red-500 animate-pulse",
+                        isScheduledDeletion && "bg-orange-500",
+                        isProvisioning && "bg-blue-500 animate-pulse",
+                        !isRunning && !isStopped && !isDeleting && !isScheduledDeletion && !isProvisioning && "bg-warning"
+                      )} />
 
-                    {/* Server name - bold */}
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center gap-2">
-                        <span className="font-semibold text-foreground truncate">
-                          {server.name || 'New Server'}
-                        </span>
-                        {billingStatuses[server.id]?.freeServer && (
-                          <Badge variant="info" className="text-[10px] px-1.5 py-0 flex-shrink-0">
-                            <Gift className="h-2.5 w-2.5 mr-0.5" />
-                            FREE
-                          </Badge>
-                        )}
-                        {billingStatuses[server.id]?.status === 'suspended' && (
-                          <Badge variant="destructive" className="text-[10px] px-1.5 py-0 flex-shrink-0">
-                            <Ban className="h-2.5 w-2.5 mr-0.5" />
-                            SUSPENDED
-                          </Badge>
-                        )}
-                        {billingStatuses[server.id]?.status === 'unpaid' && !billingStatuses[server.id]?.freeServer && (
-                          <Badge variant="warning" className="text-[10px] px-1.5 py-0 flex-shrink-0">
-                            UNPAID
-                          </Badge>
-                        )}
+                      {/* Server name - bold */}
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-semibold text-foreground truncate">
+                            {server.name || 'New Server'}
+                          </span>
+                          {billingStatuses[server.id]?.freeServer && (
+                            <Badge variant="info" className="text-[10px] px-1.5 py-0 flex-shrink-0">
+                              <Gift className="h-2.5 w-2.5 mr-0.5" />
+                              FREE
+                            </Badge>
+                          )}
+                          {billingStatuses[server.id]?.status === 'suspended' && (
+                            <Badge variant="destructive" className="text-[10px] px-1.5 py-0 flex-shrink-0">
+                              <Ban className="h-2.5 w-2.5 mr-0.5" />
+                              SUSPENDED
+                            </Badge>
+                          )}
+                          {billingStatuses[server.id]?.status === 'unpaid' && !billingStatuses[server.id]?.freeServer && (
+                            <Badge variant="warning" className="text-[10px] px-1.5 py-0 flex-shrink-0">
+                              UNPAID
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {isAccountSuspended ? (
+                            <span className="text-orange-500">This server can't be viewed or modified while your account is suspended</span>
+                          ) : (
+                            <>
+                              <span>{billingStatuses[server.id]?.planName || server.plan?.name || 'Unknown Plan'}</span>
+                              <span className="mx-1.5">·</span>
+                              <span>{server.primaryIp}</span>
+                              {server.project && !labelFilter.groupByProject && (
+                                <>
+                                  <span className="mx-1.5">·</span>
+                                  <span>{server.project.name}</span>
+                                </>
+                              )}
+                              {server.tags?.map((tag) => (
+                                <span key={tag} className="ml-1.5 font-mono text-[10px] border border-border rounded px-1">{tag}</span>
+                              ))}
+                            </>
+                          )}
+                        </div>
                       </div>
-                      <div className="text-xs text-muted-foreground">
-                        {isAccountSuspended ? (
-                          <span className="text-orange-500">This server can't be viewed or modified while your account is suspended</span>
-                        ) : (
-                          <>
-                            <span>{billingStatuses[server.id]?.planName || server.plan?.name || 'Unknown Plan'}</span>
-                            <span className="mx-1.5">·</span>
-                            <span>{server.primaryIp}</span>
-                          </>
-                        )}
-                      </div>
-                    </div>
 
-                    {/* Specs - compact display */}
-                    <div className="hidden md:flex items-center gap-6 text-sm text-muted-foreground">
-                      <div>{server.plan?.specs?.vcpu || 0} vCPU</div>
-                      <div>{Math.round((server.plan?.specs?.ram || 0) / 1024)}GB RAM</div>
-                      <div>{server.plan?.specs?.disk || 0}GB</div>
-                    </div>
+                      {/* Specs - compact display */}
+                      <div className="hidden md:flex items-center gap-6 text-sm text-muted-foreground">
+                        <div>{server.plan?.specs?.vcpu || 0} vCPU</div>
+                        <div>{Math.round((server.plan?.specs?.ram || 0) / 1024)}GB RAM</div>
+                        <div>{server.plan?.specs?.disk || 0}GB</div>
+                      </div>
 
-                    {/* Status badge - minimal */}
-                    <Badge
-                      variant={
-                        isAccountSuspended ? "warning" :
-                        isRunning ? "success" :
-                        isDeleting ? "destructive" :
-                        isScheduledDeletion ? "warning" :
-                        isProvisioning ? "info" :
-                        "secondary"
-                      }
-                      className="capitalize"
-                    >
-                      {isAccountSuspended ? "Locked" :
-                       displayStatus === 'destroying' ? 'Removing' :
-                       displayStatus === 'queued_deletion' ? 'Removing' :
-                       displayStatus === 'scheduled_deletion' ? 'Scheduled' :
-                       displayStatus}
-                    </Badge>
+                      {/* Status badge - minimal */}
+                      <Badge
+                        variant={
+                          isAccountSuspended ? "warning" :
+                          isRunning ? "success" :
+                          isDeleting ? "destructive" :
+                          isScheduledDeletion ? "warning" :
+                          isProvisioning ? "info" :
+                          "secondary"
+                        }
+                        className="capitalize"
+                      >
+                        {isAccountSuspended ? "Locked" :
+                         displayStatus === 'destroying' ? 'Removing' :
+                         displayStatus === 'queued_deletion' ? 'Removing' :
+                         displayStatus === 'scheduled_deletion' ? 'Scheduled' :
+                         displayStatus}
+                      </Badge>
 
-                    {/* Arrow or Lock icon */}
-                    {isAccountSuspended ? (
-                      <Ban className="h-4 w-4 text-orange-500 flex-shrink-0" />
-                    ) : (
-                      <ChevronRight className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                    )}
-                  </div>
-                );
+                      {/* Arrow or Lock icon */}
+                      {isAccountSuspended ? (
+                        <Ban className="h-4 w-4 text-orange-500 flex-shrink-0" />
+                      ) : (
+                        <ChevronRight className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                      )}
+                    </div>
+                  );
 
-                return isAccountSuspended ? (
-                  <div key={server.id}>{serverContent}</div>
-                ) : (
-                  <Link key={server.id} href={`/servers/${server.id}`}>{serverContent}</Link>
-                );
-              })}
+                  return isAccountSuspended ? (
+                    <div key={server.id}>{serverContent}</div>
+                  ) : (
+                    <Link key={server.id} href={`/servers/${server.id}`}>{serverContent}</Link>
+                  );
+                })}
+              </div>
             </div>
-          )}
+          ))}
         </PageSection>
       </div>
     </AppShell>
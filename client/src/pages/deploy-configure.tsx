@@ -6,6 +6,8 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { AppShell } from "@/components/layout/app-shell";
+import { SshKeyPicker } from "@/components/ssh-key-picker";
+import { UserDataEditor } from "@/components/user-data-editor";
 import { useToast } from "@/hooks/use-toast";
 import {
   ArrowLeft,
@@ -85,6 +87,8 @@ export default function DeployConfigurePage() {
   const [selectedOsId, setSelectedOsId] = useState<number | null>(null);
   const [hostname, setHostname] = useState("");
   const [hostnameError, setHostnameError] = useState("");
+  const [sshKeyIds, setSshKeyIds] = useState<number[]>([]);
+  const [userData, setUserData] = useState("");
 
   const { data: plansData, isLoading: loadingPlans } = useQuery<{ plans: Plan[] }>({
     queryKey: ['plans'],
@@ -127,15 +131,23 @@ export default function DeployConfigurePage() {
   });
 
   const deployMutation = useMutation({
-    mutationFn: (data: { planId: number; osId: number; hostname: string; locationCode?: string }) => api.deployServer(data),
-    onSuccess: (data: { orderId: number; serverId: number }) => {
+    mutationFn: (data: { planId: number; osId: number; hostname: string; locationCode?: string; sshKeyIds?: number[]; userData?: string }) => api.deployServer(data),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['wallet'] });
+      queryClient.invalidateQueries({ queryKey: ['servers'] });
+      queryClient.invalidateQueries({ queryKey: ['me'] });
+      if (data.status !== 'active' || !data.serverId) {
+        toast({
+          title: "Deployment in progress",
+          description: "Setting up your server is taking longer than usual. We'll keep retrying, and refund your wallet if it can't be deployed.",
+        });
+        setLocation('/servers');
+        return;
+      }
       toast({
         title: "Server deployed!",
         description: "Your new VPS is being provisioned.",
       });
-      queryClient.invalidateQueries({ queryKey: ['wallet'] });
-      queryClient.invalidateQueries({ queryKey: ['servers'] });
-      queryClient.invalidateQueries({ queryKey: ['me'] });
       setLocation(`/servers/${data.serverId}`);
     },
     onError: (error: any) => {
@@ -207,6 +219,8 @@ export default function DeployConfigurePage() {
       osId: selectedOsId,
       hostname: hostname.trim().toLowerCase(),
       locationCode,
+      sshKeyIds: sshKeyIds.length > 0 ? sshKeyIds : undefined,
+      userData: userData.trim() ? userData : undefined,
     });
   };
 
@@ -348,6 +362,20 @@ export default function DeployConfigurePage() {
                 </div>
               )}
             </Card>
+
+            <Card className="p-5">
+              <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide mb-4">
+                SSH Keys
+              </h2>
+              <SshKeyPicker selectedIds={sshKeyIds} onChange={setSshKeyIds} />
+            </Card>
+
+            <Card className="p-5">
+              <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide mb-4">
+                User Data
+              </h2>
+              <UserDataEditor value={userData} onChange={setUserData} />
+            </Card>
           </div>
 
           <div className="lg:col-span-1">
@@ -6,6 +6,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { AppShell } from "@/components/layout/app-shell";
+import { SshKeyPicker } from "@/components/ssh-key-picker";
+import { UserDataEditor } from "@/components/user-data-editor";
 import { useDocumentTitle } from "@/hooks/use-document-title";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -21,13 +23,18 @@ import {
   Wallet,
   HelpCircle,
   Tag,
+  KeyRound,
+  FileCode,
   X
 } from "lucide-react";
-import { api } from "@/lib/api";
+import { api, type BillingCycle } from "@/lib/api";
 import { useProvisionTracker } from "@/contexts/provision-tracker";
 import { getOsLogoUrl, FALLBACK_LOGO } from "@/lib/os-logos";
 import { cn } from "@/lib/utils";
 import flagAU from "@/assets/flag-au.png";
+import { isPlanAvailableAtLocation } from "@shared/locations";
+import { HOURLY_MIN_BALANCE_HOURS, hourlyMinimumBalanceCents, hourlyRateCents } from "@shared/hourly-billing";
+import { termPriceCents } from "@shared/billing-terms";
 
 interface Plan {
   id: number;
@@ -47,6 +54,9 @@ interface Location {
   name: string;
   country: string;
   countryCode: string;
+  status: "enabled" | "coming_soon";
+  soldOut: boolean;
+  planIds: number[] | null;
   enabled: boolean;
 }
 
@@ -72,6 +82,11 @@ function formatCurrency(cents: number): string {
   return `$${(cents / 100).toFixed(2)}`;
 }
 
+// Hourly rates are fractions of a cent, so show enough places to be meaningful
+function formatHourlyRate(monthlyPriceCents: number): string {
+  return `$${(hourlyRateCents(monthlyPriceCents) / 100).toFixed(4)}/hr`;
+}
+
 function formatRAM(mb: number): string {
   if (mb >= 1024) {
     return `${(mb / 1024).toFixed(mb % 1024 === 0 ? 0 : 1)} GB`;
@@ -98,6 +113,8 @@ export default function DeployPage() {
   const [selectedOsId, setSelectedOsId] = useState<number | null>(null);
   const [hostname, setHostname] = useState("");
   const [hostnameError, setHostnameError] = useState("");
+  const [sshKeyIds, setSshKeyIds] = useState<number[]>([]);
+  const [userData, setUserData] = useState("");
   const [promoCode, setPromoCode] = useState("");
   const [promoCodeInput, setPromoCodeInput] = useState("");
   const [promoValidation, setPromoValidation] = useState<{
@@ -111,6 +128,8 @@ export default function DeployPage() {
     finalPriceCents?: number;
   } | null>(null);
   const [validatingPromo, setValidatingPromo] = useState(false);
+  const [billingCycle, setBillingCycle] = useState<BillingCycle>("monthly");
+  const [termMonths, setTermMonths] = useState(1);
 
   // Check email verification status
   const { data: authData, isLoading: authLoading } = useQuery({
@@ -173,6 +192,12 @@ export default function DeployPage() {
     staleTime: 5 * 60 * 1000,
   });
 
+  const { data: billingTermsData } = useQuery({
+    queryKey: ['billing-terms'],
+    queryFn: () => api.getBillingTerms(),
+    staleTime: 5 * 60 * 1000,
+  });
+
   const stripeConfigured = stripeStatus?.configured ?? false;
 
   // Clear promo validation when plan changes — discount was calculated for the previous plan's price
@@ -181,6 +206,15 @@ export default function DeployPage() {
     setPromoValidation(null);
   }, [selectedPlanId]);
 
+  // Drop the region if the newly chosen plan isn't offered there
+  useEffect(() => {
+    if (!selectedPlanId || !selectedLocationCode) return;
+    const location = locationsData?.locations.find(l => l.code === selectedLocationCode);
+    if (location && !isPlanAvailableAtLocation(location, selectedPlanId)) {
+      setSelectedLocationCode("");
+    }
+  }, [selectedPlanId, selectedLocationCode, locationsData]);
+
   const handleApplyPromoCode = async () => {
     if (!promoCodeInput.trim() || !selectedPlanId) return;
 
@@ -219,18 +253,26 @@ export default function DeployPage() {
   };
 
   const deployMutation = useMutation({
-    mutationFn: (data: { planId: number; osId: number; hostname: string; locationCode: string; promoCode?: string }) =>
+    mutationFn: (data: { planId: number; osId: number; hostname: string; locationCode: string; promoCode?: string; sshKeyIds?: number[]; userData?: string; billingCycle: BillingCycle; termMonths: number }) =>
       api.deployServer(data),
-    onSuccess: (data: { orderId: number; serverId: number }, variables) => {
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['wallet'] });
+      queryClient.invalidateQueries({ queryKey: ['servers'] });
+      queryClient.invalidateQueries({ queryKey: ['me'] });
+      if (data.status !== 'active' || !data.serverId) {
+        toast({
+          title: "Deployment in progress",
+          description: "Setting up your server is taking longer than usual. We'll keep retrying, and refund your wallet if it can't be deployed.",
+        });
+        setLocation('/servers');
+        return;
+      }
       toast({
         title: "Server deployed!",
         description: "Your new VPS is being provisioned.",
       });
       // Start global provision tracker so progress persists across navigation
       startProvision(data.serverId, variables.hostname);
-      queryClient.invalidateQueries({ queryKey: ['wallet'] });
-      queryClient.invalidateQueries({ queryKey: ['servers'] });
-      queryClient.invalidateQueries({ queryKey: ['me'] });
       setLocation(`/servers/${data.serverId}`);
     },
     onError: (error: any) => {
@@ -249,10 +291,37 @@ export default function DeployPage() {
   const selectedPlan = plans.find(p => p.id === selectedPlanId);
   const selectedLocation = locations.find(l => l.code === selectedLocationCode);
   const templates = templatesData || [];
-  const finalPrice = promoValidation?.valid && promoValidation.finalPriceCents !== undefined
-    ? promoValidation.finalPriceCents
-    : (selectedPlan?.priceMonthly || 0);
-  const canAfford = wallet && selectedPlan && wallet.balanceCents >= finalPrice;
+  const isHourly = billingCycle === "hourly";
+  const billingTerms = billingTermsData?.terms || [{ months: 1, discountPercent: 0 }];
+  const termDiscountPercent = billingTerms.find(t => t.months === termMonths)?.discountPercent ?? 0;
+  // Longer terms are paid in full up front, at the prepay discount
+  const termUndiscountedCents = (selectedPlan?.priceMonthly || 0) * termMonths;
+  const termDiscountCents = termUndiscountedCents - termPriceCents(selectedPlan?.priceMonthly || 0, termMonths, termDiscountPercent);
+  const finalPrice = isHourly
+    ? 0
+    : termMonths > 1
+      ? termUndiscountedCents - termDiscountCents
+      : promoValidation?.valid && promoValidation.finalPriceCents !== undefined
+        ? promoValidation.finalPriceCents
+        : (selectedPlan?.priceMonthly || 0);
+  // Hourly servers aren't charged up front, but the wallet has to cover the first day of usage
+  const requiredBalance = isHourly ? hourlyMinimumBalanceCents(selectedPlan?.priceMonthly || 0) : finalPrice;
+  const canAfford = wallet && selectedPlan && wallet.balanceCents >= requiredBalance;
+
+  const handleBillingCycleChange = (cycle: BillingCycle) => {
+    setBillingCycle(cycle);
+    // Promo codes only discount the first month of monthly billing
+    if (cycle === "hourly") {
+      handleRemovePromoCode();
+      setTermMonths(1);
+    }
+  };
+
+  const handleTermChange = (months: number) => {
+    setTermMonths(months);
+    // The prepay discount replaces a promo rather than stacking with it
+    if (months > 1) handleRemovePromoCode();
+  };
 
   // Check if all plans are out of stock (using strict equality for reliability)
   const allPlansOutOfStock = plans.length > 0 && plans.every(p => p.active === false);
@@ -310,6 +379,10 @@ export default function DeployPage() {
       hostname: hostname.trim().toLowerCase(),
       locationCode: selectedLocationCode,
       promoCode: promoCode || undefined,
+      sshKeyIds: sshKeyIds.length > 0 ? sshKeyIds : undefined,
+      userData: userData.trim() ? userData : undefined,
+      billingCycle,
+      termMonths,
     });
   };
 
@@ -676,15 +749,24 @@ export default function DeployPage() {
                   <h2 className="text-lg font-semibold text-foreground">Choose a Region</h2>
                 </div>
                 <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
-                  {locations.map((location) => (
+                  {locations.map((location) => {
+                    const unavailableLabel = location.status === "coming_soon"
+                      ? "Soon"
+                      : location.soldOut
+                        ? "Sold out"
+                        : !isPlanAvailableAtLocation(location, selectedPlanId)
+                          ? "Not available for this plan"
+                          : null;
+                    const available = location.enabled && !unavailableLabel;
+                    return (
                     <button
                       key={location.code}
                       type="button"
-                      disabled={!location.enabled}
-                      onClick={() => location.enabled && setSelectedLocationCode(location.code)}
+                      disabled={!available}
+                      onClick={() => available && setSelectedLocationCode(location.code)}
                       className={cn(
                         "flex items-center gap-3 p-4 rounded-lg border transition-all",
-                        !location.enabled
+                        !available
                           ? "opacity-50 cursor-not-allowed bg-muted/30 border-border"
                           : selectedLocationCode === location.code
                             ? "bg-primary/5 border-primary shadow-sm"
@@ -704,11 +786,12 @@ export default function DeployPage() {
                       {selectedLocationCode === location.code && (
                         <Check className="h-4 w-4 text-primary flex-shrink-0" />
                       )}
-                      {!location.enabled && (
-                        <span className="text-xs text-muted-foreground">Soon</span>
+                      {unavailableLabel && (
+                        <span className="text-xs text-muted-foreground">{unavailableLabel}</span>
                       )}
                     </button>
-                  ))}
+                    );
+                  })}
                 </div>
               </section>
             )}
@@ -808,6 +891,34 @@ export default function DeployPage() {
                 )}
               </section>
             )}
+
+            {/* SSH Keys - Optional, shown alongside OS selection */}
+            {selectedPlanId && selectedLocationCode && hostname && (
+              <section className="animate-in fade-in slide-in-from-bottom-4 duration-500">
+                <div className="flex items-center gap-2 mb-4">
+                  <KeyRound className="h-5 w-5 text-primary" />
+                  <h2 className="text-lg font-semibold text-foreground">SSH Keys</h2>
+                  <span className="text-xs text-muted-foreground">(optional)</span>
+                </div>
+                <div className="border border-border rounded-lg p-6 bg-card">
+                  <SshKeyPicker selectedIds={sshKeyIds} onChange={setSshKeyIds} />
+                </div>
+              </section>
+            )}
+
+            {/* User Data - Optional cloud-init script run on first boot */}
+            {selectedPlanId && selectedLocationCode && hostname && (
+              <section className="animate-in fade-in slide-in-from-bottom-4 duration-500">
+                <div className="flex items-center gap-2 mb-4">
+                  <FileCode className="h-5 w-5 text-primary" />
+                  <h2 className="text-lg font-semibold text-foreground">User Data</h2>
+                  <span className="text-xs text-muted-foreground">(optional)</span>
+                </div>
+                <div className="border border-border rounded-lg p-6 bg-card">
+                  <UserDataEditor value={userData} onChange={setUserData} />
+                </div>
+              </section>
+            )}
           </div>
 
           {/* Summary Sidebar */}
@@ -858,8 +969,65 @@ export default function DeployPage() {
                     </div>
                   </div>
 
+                  {/* Billing */}
+                  {selectedPlan && (
+                    <div className="border-t border-border pt-4">
+                      <div className="text-xs uppercase text-muted-foreground tracking-wide mb-2">Billing</div>
+                      <div className="grid grid-cols-2 gap-1 rounded-lg bg-background border border-border p-1">
+                        {(["monthly", "hourly"] as const).map((cycle) => (
+                          <button
+                            key={cycle}
+                            type="button"
+                            onClick={() => handleBillingCycleChange(cycle)}
+                            className={cn(
+                              "rounded-md px-3 py-1.5 text-sm font-medium transition-colors",
+                              billingCycle === cycle ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:text-foreground"
+                            )}
+                            data-testid={`button-billing-${cycle}`}
+                          >
+                            {cycle === "monthly" ? "Monthly" : "Hourly"}
+                          </button>
+                        ))}
+                      </div>
+                      {!isHourly && billingTerms.length > 1 && (
+                        <div className="mt-2 grid grid-cols-3 gap-1">
+                          {billingTerms.map((term) => (
+                            <button
+                              key={term.months}
+                              type="button"
+                              onClick={() => handleTermChange(term.months)}
+                              className={cn(
+                                "rounded-md border px-2 py-1.5 text-xs font-medium transition-colors",
+                                termMonths === term.months
+                                  ? "border-primary bg-primary/10 text-foreground"
+                                  : "border-border text-muted-foreground hover:text-foreground"
+                              )}
+                              data-testid={`button-term-${term.months}`}
+                            >
+                              {term.months === 1 ? "1 month" : `${term.months} months`}
+                              {term.discountPercent > 0 && (
+                                <span className="block text-[10px] text-success">Save {term.discountPercent}%</span>
+                              )}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      {!isHourly && termMonths > 1 && (
+                        <p className="mt-2 text-xs text-muted-foreground">
+                          Pay for {termMonths} months now. The server renews every {termMonths} months at the same discount.
+                        </p>
+                      )}
+                      {isHourly && (
+                        <p className="mt-2 text-xs text-muted-foreground">
+                          {formatHourlyRate(selectedPlan.priceMonthly)}, settled daily from your wallet and capped
+                          at {formatCurrency(selectedPlan.priceMonthly)} a month. Billing stops as soon as you delete the server.
+                        </p>
+                      )}
+                    </div>
+                  )}
+
                   {/* Promo Code */}
-                  {selectedPlanId && (
+                  {selectedPlanId && !isHourly && termMonths === 1 && (
                     <div className="border-t border-border pt-4">
                       <div className="text-xs uppercase text-muted-foreground tracking-wide mb-2 flex items-center gap-1">
                         <Tag className="h-3 w-3" />
@@ -912,15 +1080,52 @@ export default function DeployPage() {
                   <div className="border-t border-border pt-4">
                     <div className="rounded-xl bg-background border border-border overflow-hidden">
                       <div className="divide-y divide-border">
-                        <div className="flex justify-between items-center px-4 py-3">
-                          <span className="text-xs text-muted-foreground uppercase tracking-wide">Monthly</span>
-                          <span className={cn(
-                            "text-sm font-semibold font-mono",
-                            promoValidation?.valid ? "text-muted-foreground line-through" : "text-foreground"
-                          )}>
-                            {selectedPlan ? formatCurrency(selectedPlan.priceMonthly) : "—"}
-                          </span>
-                        </div>
+                        {isHourly ? (
+                          <>
+                            <div className="flex justify-between items-center px-4 py-3">
+                              <span className="text-xs text-muted-foreground uppercase tracking-wide">Hourly</span>
+                              <span className="text-sm font-semibold font-mono text-foreground">
+                                {selectedPlan ? formatHourlyRate(selectedPlan.priceMonthly) : "—"}
+                              </span>
+                            </div>
+                            <div className="flex justify-between items-center px-4 py-3">
+                              <span className="text-xs text-muted-foreground uppercase tracking-wide">Monthly cap</span>
+                              <span className="text-sm font-semibold font-mono text-foreground">
+                                {selectedPlan ? formatCurrency(selectedPlan.priceMonthly) : "—"}
+                              </span>
+                            </div>
+                          </>
+                        ) : termMonths > 1 ? (
+                          <>
+                            <div className="flex justify-between items-center px-4 py-3">
+                              <span className="text-xs text-muted-foreground uppercase tracking-wide">{termMonths} months</span>
+                              <span className={cn(
+                                "text-sm font-semibold font-mono",
+                                termDiscountCents > 0 ? "text-muted-foreground line-through" : "text-foreground"
+                              )}>
+                                {formatCurrency(termUndiscountedCents)}
+                              </span>
+                            </div>
+                            {termDiscountCents > 0 && (
+                              <div className="flex justify-between items-center px-4 py-3">
+                                <span className="text-xs text-success uppercase tracking-wide">Prepay discount ({termDiscountPercent}%)</span>
+                                <span className="text-sm font-semibold font-mono text-success">
+                                  -{formatCurrency(termDiscountCents)}
+                                </span>
+                              </div>
+                            )}
+                          </>
+                        ) : (
+                          <div className="flex justify-between items-center px-4 py-3">
+                            <span className="text-xs text-muted-foreground uppercase tracking-wide">Monthly</span>
+                            <span className={cn(
+                              "text-sm font-semibold font-mono",
+                              promoValidation?.valid ? "text-muted-foreground line-through" : "text-foreground"
+                            )}>
+                              {selectedPlan ? formatCurrency(selectedPlan.priceMonthly) : "—"}
+                            </span>
+                          </div>
+                        )}
                         {promoValidation?.valid && promoValidation.discountCents && (
                           <div className="flex justify-between items-center px-4 py-3">
                             <span className="text-xs text-success uppercase tracking-wide">
@@ -998,7 +1203,8 @@ export default function DeployPage() {
                                 Insufficient Balance
                               </p>
                               <p className="text-xs text-muted-foreground">
-                                You need {selectedPlan ? formatCurrency(finalPrice - (wallet?.balanceCents || 0)) : '—'} more to deploy this server.
+                                You need {selectedPlan ? formatCurrency(requiredBalance - (wallet?.balanceCents || 0)) : '—'} more to deploy this server
+                                {isHourly && ` (hourly servers need ${HOURLY_MIN_BALANCE_HOURS} hours of usage in your wallet)`}.
                               </p>
                             </div>
                           </div>
@@ -45,7 +45,8 @@ import {
   Wallet,
   Ban,
   Gift,
-  Info
+  Info,
+  Pencil
 } from "lucide-react";
 import { Link, useRoute, useLocation } from "wouter";
 import { Input } from "@/components/ui/input";
@@ -55,6 +56,20 @@ import flagAU from "@/assets/flag-au.png";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { cn, formatDate, formatDateShort } from "@/lib/utils";
 import { OsTemplateRow } from "@/components/os-template-row";
+import { SshKeyPicker } from "@/components/ssh-key-picker";
+import { UserDataEditor } from "@/components/user-data-editor";
+import { ServerSnapshotsPanel } from "@/components/server-snapshots-panel";
+import { ServerMediaPanel } from "@/components/server-media-panel";
+import { ServerAddonsPanel } from "@/components/server-addons-panel";
+import { ServerRescueControl } from "@/components/server-rescue-control";
+import { ServerResizePanel } from "@/components/server-resize-panel";
+import { ServerFirewallPanel } from "@/components/server-firewall-panel";
+import { ServerPowerSchedulesPanel } from "@/components/server-power-schedules-panel";
+import { ServerAlertsPanel } from "@/components/server-alerts-panel";
+import { ServerMetricsPanel } from "@/components/server-metrics-panel";
+import { ServerTransferCard } from "@/components/server-transfer-card";
+import { ReverseDnsDialog } from "@/components/reverse-dns-dialog";
+import { ServerLabels } from "@/components/server-labels";
 import { getOsCategory, getOsLogoUrl, FALLBACK_LOGO, type OsTemplate as OsTemplateType } from "@/lib/os-logos";
 import { SetupProgressChecklist } from "@/components/setup-progress-checklist";
 import { useReinstallTask } from "@/hooks/use-reinstall-task";
@@ -131,6 +146,9 @@ export default function ServerDetail() {
   const [showReinstallPage, setShowReinstallPage] = useState(false);
   const [selectedOs, setSelectedOs] = useState<string>("");
   const [hostname, setHostname] = useState<string>("");
+  const [reinstallSshKeyIds, setReinstallSshKeyIds] = useState<number[]>([]);
+  const [rdnsTarget, setRdnsTarget] = useState<{ address: string; ptr: string | null } | null>(null);
+  const [reinstallUserData, setReinstallUserData] = useState("");
   const [hostnameError, setHostnameError] = useState<string>("");
   const [osSearchQuery, setOsSearchQuery] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string>("All");
@@ -315,6 +333,12 @@ export default function ServerDetail() {
     queryFn: () => api.getTrafficHistory(serverId || ''),
     enabled: !!serverId
   });
+
+  const { data: transferUsage, refetch: refetchTransferUsage } = useQuery({
+    queryKey: ['transfer-usage', serverId],
+    queryFn: () => api.getTransferUsage(serverId || ''),
+    enabled: !!serverId
+  });
   
   
   // Fetch cancellation status - poll rate depends on how active the deletion is
@@ -566,13 +590,15 @@ export default function ServerDetail() {
   });
 
   const reinstallMutation = useMutation({
-    mutationFn: ({ id, osId, hostname }: { id: string, osId: number, hostname: string }) => 
-      api.reinstallServer(id, osId, hostname),
+    mutationFn: ({ id, osId, hostname, sshKeyIds, userData }: { id: string, osId: number, hostname: string, sshKeyIds?: number[], userData?: string }) => 
+      api.reinstallServer(id, osId, hostname, { sshKeyIds, userData }),
     onSuccess: (response) => {
       // Reset dialog state before closing
       setSelectedOs("");
       setHostname("");
       setHostnameError("");
+      setReinstallSshKeyIds([]);
+      setReinstallUserData("");
       setOsSearchQuery("");
       setSelectedCategory("All");
       setShowReinstallPage(false);
@@ -906,7 +932,9 @@ export default function ServerDetail() {
     reinstallMutation.mutate({
       id: serverId, 
       osId: parseInt(selectedOs, 10),
-      hostname: normalizedHostname
+      hostname: normalizedHostname,
+      sshKeyIds: reinstallSshKeyIds.length > 0 ? reinstallSshKeyIds : undefined,
+      userData: reinstallUserData.trim() ? reinstallUserData : undefined,
     });
   };
 
@@ -1444,6 +1472,8 @@ export default function ServerDetail() {
       setSelectedOs("");
       setHostname("");
       setHostnameError("");
+      setReinstallSshKeyIds([]);
+      setReinstallUserData("");
       setOsSearchQuery("");
       setSelectedCategory("All");
     };
@@ -1628,6 +1658,30 @@ export default function ServerDetail() {
                 )}
               </div>
 
+              {/* SSH Keys */}
+              <div className="bg-card border border-border rounded-xl p-4">
+                <p className="text-xs uppercase tracking-wide text-muted-foreground mb-3">
+                  SSH Keys
+                </p>
+                <SshKeyPicker
+                  selectedIds={reinstallSshKeyIds}
+                  onChange={setReinstallSshKeyIds}
+                  disabled={reinstallMutation.isPending}
+                />
+              </div>
+
+              {/* User Data */}
+              <div className="bg-card border border-border rounded-xl p-4">
+                <p className="text-xs uppercase tracking-wide text-muted-foreground mb-3">
+                  User Data
+                </p>
+                <UserDataEditor
+                  value={reinstallUserData}
+                  onChange={setReinstallUserData}
+                  disabled={reinstallMutation.isPending}
+                />
+              </div>
+
               {/* Warning */}
               <div className="bg-destructive/5 border border-destructive/20 rounded-xl p-4 flex items-start gap-3">
                 <AlertTriangle className="h-4 w-4 text-destructive mt-0.5 flex-shrink-0" />
@@ -2305,6 +2359,9 @@ export default function ServerDetail() {
                 </>
               )}
             </div>
+
+            {/* Row 3: tags and project */}
+            {serverId && <ServerLabels serverId={serverId} />}
           </div>
 
           {/* DigitalOcean-style Power Controls - Prominent Buttons */}
@@ -2367,6 +2424,14 @@ export default function ServerDetail() {
               </>
             )}
 
+            {serverId && (
+              <ServerRescueControl
+                serverId={serverId}
+                disabled={isTransitioning || !!powerActionPending || consoleLock.isLocked || isSuspended || isTrialEnded || reinstallTask.isActive || !!cancellationData?.cancellation}
+                onOpenConsole={handleOpenVnc}
+              />
+            )}
+
             {/* More Menu - Secondary Actions */}
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -2399,6 +2464,13 @@ export default function ServerDetail() {
               >
                 Overview
               </TabsTrigger>
+              <TabsTrigger
+                value="metrics"
+                className="bg-transparent border-b-2 border-transparent rounded-none px-1 py-3 text-muted-foreground data-[state=active]:border-primary data-[state=active]:text-primary data-[state=active]:bg-transparent data-[state=active]:shadow-none transition-all hover:text-foreground"
+                data-testid="tab-metrics"
+              >
+                Metrics
+              </TabsTrigger>
               <TabsTrigger
                 value="access"
                 className="bg-transparent border-b-2 border-transparent rounded-none px-1 py-3 text-muted-foreground data-[state=active]:border-primary data-[state=active]:text-primary data-[state=active]:bg-transparent data-[state=active]:shadow-none transition-all hover:text-foreground"
@@ -2406,6 +2478,48 @@ export default function ServerDetail() {
               >
                 Access
               </TabsTrigger>
+              <TabsTrigger
+                value="firewall"
+                className="bg-transparent border-b-2 border-transparent rounded-none px-1 py-3 text-muted-foreground data-[state=active]:border-primary data-[state=active]:text-primary data-[state=active]:bg-transparent data-[state=active]:shadow-none transition-all hover:text-foreground"
+                data-testid="tab-firewall"
+              >
+                Firewall
+              </TabsTrigger>
+              <TabsTrigger
+                value="schedules"
+                className="bg-transparent border-b-2 border-transparent rounded-none px-1 py-3 text-muted-foreground data-[state=active]:border-primary data-[state=active]:text-primary data-[state=active]:bg-transparent data-[state=active]:shadow-none transition-all hover:text-foreground"
+                data-testid="tab-schedules"
+              >
+                Schedules
+              </TabsTrigger>
+              <TabsTrigger
+                value="alerts"
+                className="bg-transparent border-b-2 border-transparent rounded-none px-1 py-3 text-muted-foreground data-[state=active]:border-primary data-[state=active]:text-primary data-[state=active]:bg-transparent data-[state=active]:shadow-none transition-all hover:text-foreground"
+                data-testid="tab-alerts"
+              >
+                Alerts
+              </TabsTrigger>
+              <TabsTrigger
+                value="resize"
+                className="bg-transparent border-b-2 border-transparent rounded-none px-1 py-3 text-muted-foreground data-[state=active]:border-primary data-[state=active]:text-primary data-[state=active]:bg-transparent data-[state=active]:shadow-none transition-all hover:text-foreground"
+                data-testid="tab-resize"
+              >
+                Resize
+              </TabsTrigger>
+              <TabsTrigger
+                value="snapshots"
+                className="bg-transparent border-b-2 border-transparent rounded-none px-1 py-3 text-muted-foreground data-[state=active]:border-primary data-[state=active]:text-primary data-[state=active]:bg-transparent data-[state=active]:shadow-none transition-all hover:text-foreground"
+                data-testid="tab-snapshots"
+              >
+                Snapshots
+              </TabsTrigger>
+              <TabsTrigger
+                value="media"
+                className="bg-transparent border-b-2 border-transparent rounded-none px-1 py-3 text-muted-foreground data-[state=active]:border-primary data-[state=active]:text-primary data-[state=active]:bg-transparent data-[state=active]:shadow-none transition-all hover:text-foreground"
+                data-testid="tab-media"
+              >
+                ISO &amp; Boot
+              </TabsTrigger>
               <TabsTrigger
                 value="destroy"
                 className="bg-transparent border-b-2 border-transparent rounded-none px-1 py-3 text-muted-foreground data-[state=active]:border-destructive data-[state=active]:text-destructive data-[state=active]:bg-transparent data-[state=active]:shadow-none transition-all hover:text-foreground"
@@ -2546,7 +2660,10 @@ export default function ServerDetail() {
                   variant="ghost"
                   size="sm"
                   className="h-7 w-7 p-0"
-                  onClick={() => refetchTraffic()}
+                  onClick={() => {
+                    refetchTraffic();
+                    refetchTransferUsage();
+                  }}
                   disabled={isTrafficFetching}
                   data-testid="button-refresh-bandwidth"
                 >
@@ -2578,12 +2695,14 @@ export default function ServerDetail() {
                   return `${kb.toFixed(0)} KB`;
                 };
                 
-                const usedBytes = current?.total || 0;
+                // The quota tracker keeps the highest reading this period, so prefer it if the live counter dipped
+                const tracked = transferUsage?.usage;
+                const usedBytes = Math.max(current?.total || 0, tracked?.usedBytes || 0);
                 const usedGBNum = usedBytes / (1024 * 1024 * 1024);
                 const usedDisplay = formatBytes(usedBytes);
                 const rxDisplay = formatBytes(current?.rx || 0);
                 const txDisplay = formatBytes(current?.tx || 0);
-                const limitGB = current?.limit || bandwidthAllowance || 0;
+                const limitGB = tracked?.limitGb || current?.limit || bandwidthAllowance || 0;
                 const remainingBytes = limitGB > 0 ? Math.max(0, (limitGB * 1024 * 1024 * 1024) - usedBytes) : null;
                 const remainingDisplay = remainingBytes !== null ? formatBytes(remainingBytes) : null;
                 const usagePercent = limitGB > 0 ? Math.min(100, (usedGBNum / limitGB) * 100) : 0;
@@ -2600,7 +2719,15 @@ export default function ServerDetail() {
                           <AlertTriangle className="h-7 w-7 text-destructive flex-shrink-0 mt-0.5" />
                           <div className="flex-1">
                             <p className="text-lg text-foreground font-bold">Bandwidth Limit Exceeded</p>
-                            <p className="text-base text-muted-foreground mt-1">Bandwidth has been shaped to 1Mbps Download and 1Mbps Upload.</p>
+                            <p className="text-base text-muted-foreground mt-1" data-testid="text-transfer-enforcement">
+                              {tracked?.enforcement === 'throttled'
+                                ? `Network speed has been limited to ${transferUsage?.throttleMbps} Mbps until your allowance resets.`
+                                : tracked?.enforcement === 'suspended'
+                                  ? 'This server has been suspended until your allowance resets.'
+                                  : tracked?.overageBilledGb
+                                    ? `${tracked.overageBilledGb} GB of additional transfer has been charged to your wallet this period.`
+                                    : transferUsage?.policyDescription}
+                            </p>
                           </div>
                         </div>
                       </div>
@@ -2612,6 +2739,9 @@ export default function ServerDetail() {
                           <div className="flex-1">
                             <p className="text-xs text-foreground font-semibold">Approaching Bandwidth Limit</p>
                             <p className="text-[10px] text-muted-foreground">{usagePercent.toFixed(1)}% of allowance used</p>
+                            {transferUsage?.policyDescription && (
+                              <p className="text-[10px] text-muted-foreground">{transferUsage.policyDescription}</p>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -2706,14 +2836,30 @@ export default function ServerDetail() {
                           <div className="text-xs font-medium text-muted-foreground uppercase tracking-wider">IPv4 Addresses</div>
                           {iface.ipv4.map((ip, ipIndex) => (
                             <div key={ipIndex} className="flex items-center justify-between p-3 bg-muted/50 rounded-md">
-                              <span className="font-mono text-foreground" data-testid={`text-ip-${index}-${ipIndex}`}>{ip.address}</span>
-                              <button
-                                onClick={() => copyToClipboard(ip.address)}
-                                className="text-muted-foreground hover:text-foreground p-1"
-                                data-testid={`button-copy-ip-${index}-${ipIndex}`}
-                              >
-                                <Copy className="h-3 w-3" />
-                              </button>
+                              <div className="min-w-0">
+                                <span className="font-mono text-foreground" data-testid={`text-ip-${index}-${ipIndex}`}>{ip.address}</span>
+                                <div className="text-xs text-muted-foreground truncate" data-testid={`text-ptr-${index}-${ipIndex}`}>
+                                  PTR: {ip.ptr || 'Default'}
+                                </div>
+                              </div>
+                              <div className="flex items-center gap-1 flex-shrink-0">
+                                <button
+                                  onClick={() => setRdnsTarget({ address: ip.address, ptr: ip.ptr })}
+                                  disabled={isSuspended}
+                                  className="text-muted-foreground hover:text-foreground p-1 disabled:opacity-50"
+                                  title="Edit reverse DNS"
+                                  data-testid={`button-edit-ptr-${index}-${ipIndex}`}
+                                >
+                                  <Pencil className="h-3 w-3" />
+                                </button>
+                                <button
+                                  onClick={() => copyToClipboard(ip.address)}
+                                  className="text-muted-foreground hover:text-foreground p-1"
+                                  data-testid={`button-copy-ip-${index}-${ipIndex}`}
+                                >
+                                  <Copy className="h-3 w-3" />
+                                </button>
+                              </div>
                             </div>
                           ))}
                         </div>
@@ -2724,13 +2870,26 @@ export default function ServerDetail() {
                           <div className="text-xs font-medium text-muted-foreground uppercase tracking-wider">IPv6 Addresses</div>
                           {iface.ipv6.map((ip, ipIndex) => (
                             <div key={ipIndex} className="flex items-center justify-between p-3 bg-muted/50 rounded-md">
-                              <span className="font-mono text-foreground text-sm">{ip.address}</span>
-                              <button
-                                onClick={() => copyToClipboard(ip.address)}
-                                className="text-muted-foreground hover:text-foreground p-1"
-                              >
-                                <Copy className="h-3 w-3" />
-                              </button>
+                              <div className="min-w-0">
+                                <span className="font-mono text-foreground text-sm">{ip.address}</span>
+                                <div className="text-xs text-muted-foreground truncate">PTR: {ip.ptr || 'Default'}</div>
+                              </div>
+                              <div className="flex items-center gap-1 flex-shrink-0">
+                                <button
+                                  onClick={() => setRdnsTarget({ address: ip.address, ptr: ip.ptr })}
+                                  disabled={isSuspended}
+                                  className="text-muted-foreground hover:text-foreground p-1 disabled:opacity-50"
+                                  title="Edit reverse DNS"
+                                >
+                                  <Pencil className="h-3 w-3" />
+                                </button>
+                                <button
+                                  onClick={() => copyToClipboard(ip.address)}
+                                  className="text-muted-foreground hover:text-foreground p-1"
+                                >
+                                  <Copy className="h-3 w-3" />
+                                </button>
+                              </div>
                             </div>
                           ))}
                         </div>
@@ -2745,6 +2904,22 @@ export default function ServerDetail() {
                 </div>
               )}
             </Card>
+            {serverId && (
+              <ServerAddonsPanel
+                serverId={serverId}
+                disabled={isSuspended || isTrialEnded || !!cancellationData?.cancellation}
+                disabledReason={
+                  isSuspended
+                    ? 'IP add-ons are disabled while the server is suspended.'
+                    : cancellationData?.cancellation
+                      ? 'IP add-ons are disabled because this server is scheduled for deletion.'
+                      : undefined
+                }
+              />
+            )}
+            {serverId && (
+              <ReverseDnsDialog serverId={serverId} target={rdnsTarget} onClose={() => setRdnsTarget(null)} />
+            )}
           </TabsContent>
 
           {/* ACCESS TAB - Password Reset */}
@@ -2807,9 +2982,128 @@ export default function ServerDetail() {
             </Card>
           </TabsContent>
 
+          {/* FIREWALL TAB */}
+          <TabsContent value="firewall" className="space-y-4 animate-in fade-in duration-300">
+            {serverId && (
+              <ServerFirewallPanel
+                serverId={serverId}
+                disabled={isSuspended || !!cancellationData?.cancellation}
+                disabledReason={
+                  isSuspended
+                    ? 'Firewall changes are disabled while the server is suspended.'
+                    : cancellationData?.cancellation
+                      ? 'Firewall changes are disabled because this server is scheduled for deletion.'
+                      : undefined
+                }
+              />
+            )}
+          </TabsContent>
+
+          {/* SCHEDULES TAB - Scheduled power actions */}
+          <TabsContent value="schedules" className="space-y-4 animate-in fade-in duration-300">
+            {serverId && (
+              <ServerPowerSchedulesPanel
+                serverId={serverId}
+                disabled={isSuspended || !!cancellationData?.cancellation}
+                disabledReason={
+                  isSuspended
+                    ? 'Power schedules are paused while the server is suspended.'
+                    : cancellationData?.cancellation
+                      ? 'Power schedules are disabled because this server is scheduled for deletion.'
+                      : undefined
+                }
+              />
+            )}
+          </TabsContent>
+
+          {/* ALERTS TAB - Resource usage alert rules */}
+          <TabsContent value="metrics" className="space-y-4 animate-in fade-in duration-300">
+            {serverId && <ServerMetricsPanel serverId={serverId} />}
+          </TabsContent>
+
+          <TabsContent value="alerts" className="space-y-4 animate-in fade-in duration-300">
+            {serverId && (
+              <ServerAlertsPanel
+                serverId={serverId}
+                disabled={isSuspended || !!cancellationData?.cancellation}
+                disabledReason={
+                  isSuspended
+                    ? 'Alerts are paused while the server is suspended.'
+                    : cancellationData?.cancellation
+                      ? 'Alert changes are disabled because this server is scheduled for deletion.'
+                      : undefined
+                }
+              />
+            )}
+          </TabsContent>
+
+          {/* RESIZE TAB - Plan upgrade/downgrade */}
+          <TabsContent value="resize" className="space-y-4 animate-in fade-in duration-300">
+            {serverId && (
+              <ServerResizePanel
+                serverId={serverId}
+                disabled={isSuspended || isTrialEnded || !!cancellationData?.cancellation}
+                disabledReason={
+                  isSuspended
+                    ? 'Plan changes are disabled while the server is suspended.'
+                    : cancellationData?.cancellation
+                      ? 'Plan changes are disabled because this server is scheduled for deletion.'
+                      : undefined
+                }
+              />
+            )}
+          </TabsContent>
+
+          {/* SNAPSHOTS TAB */}
+          <TabsContent value="snapshots" className="space-y-4 animate-in fade-in duration-300">
+            {serverId && (
+              <ServerSnapshotsPanel
+                serverId={serverId}
+                disabled={isSuspended || isTrialEnded || !!cancellationData?.cancellation}
+                disabledReason={
+                  isSuspended
+                    ? 'Snapshots are disabled while the server is suspended.'
+                    : cancellationData?.cancellation
+                      ? 'Snapshots are disabled because this server is scheduled for deletion.'
+                      : undefined
+                }
+              />
+            )}
+          </TabsContent>
+
+          {/* ISO & BOOT TAB */}
+          <TabsContent value="media" className="space-y-4 animate-in fade-in duration-300">
+            {serverId && (
+              <ServerMediaPanel
+                serverId={serverId}
+                disabled={isSuspended || isTrialEnded || !!cancellationData?.cancellation}
+                disabledReason={
+                  isSuspended
+                    ? 'ISO and boot changes are disabled while the server is suspended.'
+                    : cancellationData?.cancellation
+                      ? 'ISO and boot changes are disabled because this server is scheduled for deletion.'
+                      : undefined
+                }
+                onOpenConsole={handleOpenVnc}
+              />
+            )}
+          </TabsContent>
+
           {/* DESTROY TAB - Combines Reinstallation + Cancellation (Danger Zone) */}
           <TabsContent value="destroy" className="space-y-6 animate-in fade-in duration-300">
 
+            {serverId && (
+              <ServerTransferCard
+                serverId={serverId}
+                disabled={isSuspended || !!cancellationData?.cancellation}
+                disabledReason={
+                  isSuspended
+                    ? 'Suspended servers cannot be transferred.'
+                    : 'This server is scheduled for deletion and cannot be transferred.'
+                }
+              />
+            )}
+
             {/* Reinstall Section */}
             <Card className="p-6 border-destructive/30">
                 <div className="space-y-6">
@@ -2853,6 +3147,14 @@ export default function ServerDetail() {
                           <li>• You'll receive new login credentials</li>
                           <li>• The server will reboot during installation</li>
                         </ul>
+                        <button
+                          type="button"
+                          onClick={() => setActiveTab('snapshots')}
+                          className="text-sm font-medium text-amber-300 hover:text-amber-200 underline underline-offset-2"
+                          data-testid="button-snapshot-before-reinstall"
+                        >
+                          Take a snapshot first
+                        </button>
                       </div>
                     </div>
                   </div>
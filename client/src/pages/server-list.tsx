@@ -11,7 +11,6 @@ import { useQuery, useQueryClient } from "@tanstack/react-query";
 import {
   Server as ServerIcon,
   Search,
-  Filter,
   AlertCircle,
   Zap,
   AlertTriangle,
@@ -24,11 +23,18 @@ import { EmailVerificationBanner } from "@/components/email-verification-banner"
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { BillingBanner } from "@/components/billing-banner";
+import {
+  DEFAULT_SERVER_LABEL_FILTER,
+  ServerLabelFilter,
+  filterServersByLabels,
+  groupServersByProject,
+} from "@/components/server-label-filter";
 
 export default function ServerList() {
   useDocumentTitle('Servers');
   const [, setLocation] = useLocation();
   const [searchQuery, setSearchQuery] = useState("");
+  const [labelFilter, setLabelFilter] = useState(DEFAULT_SERVER_LABEL_FILTER);
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -42,6 +48,7 @@ export default function ServerList() {
   const servers = dashboardData?.servers || [];
   const cancellations = dashboardData?.cancellations || {};
   const billingStatuses = dashboardData?.billingStatuses || {};
+  const projects = dashboardData?.projects || [];
 
   // Find servers with billing issues — use s.billing (embedded on each server)
   const billingSuspendedServers = servers.filter(s =>
@@ -107,17 +114,20 @@ export default function ServerList() {
     );
   }
 
-  // Filter servers based on search query
-  const filteredServers = servers.filter(server => {
+  // Filter servers based on search query, tag and project
+  const filteredServers = filterServersByLabels(servers, labelFilter).filter(server => {
     if (!searchQuery) return true;
     const query = searchQuery.toLowerCase();
     return (
       server.name?.toLowerCase().includes(query) ||
       server.primaryIp?.toLowerCase().includes(query) ||
       server.plan?.name?.toLowerCase().includes(query) ||
-      server.location?.name?.toLowerCase().includes(query)
+      server.location?.name?.toLowerCase().includes(query) ||
+      server.project?.name?.toLowerCase().includes(query) ||
+      server.tags?.some(tag => tag.includes(query))
     );
   });
+  const isFiltered = !!searchQuery || labelFilter.tag !== 'all' || labelFilter.project !== 'all';
 
   return (
     <AppShell>
@@ -155,7 +165,7 @@ export default function ServerList() {
           title="Servers"
           description="Manage your virtual private servers"
           action={
-            <div className="flex items-center gap-2">
+            <div className="flex flex-wrap items-center gap-2">
               <div className="relative w-64">
                 <Search className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
                 <Input
@@ -165,10 +175,12 @@ export default function ServerList() {
                   onChange={(e) => setSearchQuery(e.target.value)}
                 />
               </div>
-              <Button variant="outline">
-                <Filter className="h-4 w-4 mr-2" />
-                Filter
-              </Button>
+              <ServerLabelFilter
+                servers={servers}
+                projects={projects}
+                value={labelFilter}
+                onChange={setLabelFilter}
+              />
             </div>
           }
         />
@@ -194,15 +206,17 @@ export default function ServerList() {
               <div className="absolute -inset-4 rounded-3xl bg-primary/5 -z-10 blur-xl" />
             </div>
             <h3 className="text-2xl font-semibold text-foreground mb-3">
-              {searchQuery ? 'No Matching Servers' : 'No Servers Yet'}
+              {isFiltered ? 'No Matching Servers' : 'No Servers Yet'}
             </h3>
             <p className="text-muted-foreground max-w-sm mb-8 text-sm leading-relaxed">
               {searchQuery
                 ? `No servers match "${searchQuery}". Try a different search term.`
+                : isFiltered
+                ? 'No servers match the selected tag or project.'
                 : "Deploy your first VPS in seconds. Australian infrastructure, instant setup, no lock-in contracts."
               }
             </p>
-            {!searchQuery && (
+            {!isFiltered && (
               <>
                 <Button data-testid="button-order-server" asChild className="btn-glow mb-8">
                   <Link href="/deploy">
@@ -219,15 +233,29 @@ export default function ServerList() {
             )}
           </Card>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {filteredServers.map((server) => (
-              <ServerCard
-                key={server.id}
-                server={server}
-                cancellation={cancellations[server.id]}
-                billingStatus={billingStatuses[server.id]}
-                onClick={() => setLocation(`/servers/${server.id}`)}
-              />
+          <div className="space-y-8">
+            {(labelFilter.groupByProject
+              ? groupServersByProject(filteredServers)
+              : [{ key: 'all', name: '', servers: filteredServers }]
+            ).map((group) => (
+              <div key={group.key} className="space-y-3">
+                {labelFilter.groupByProject && (
+                  <h2 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+                    {group.name} <span className="font-normal">({group.servers.length})</span>
+                  </h2>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {group.servers.map((server) => (
+                    <ServerCard
+                      key={server.id}
+                      server={server}
+                      cancellation={cancellations[server.id]}
+                      billingStatus={billingStatuses[server.id]}
+                      onClick={() => setLocation(`/servers/${server.id}`)}
+                    />
+                  ))}
+                </div>
+              </div>
             ))}
           </div>
         )}
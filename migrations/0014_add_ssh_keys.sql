@@ -0,0 +1,17 @@
+-- Migration: Add SSH key library
+-- Created: 2026-10-19
+
+-- SSH keys table - public keys saved on the account for injection at deploy/reinstall
+CREATE TABLE IF NOT EXISTS "ssh_keys" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "auth0_user_id" text NOT NULL,
+  "name" text NOT NULL,
+  "public_key" text NOT NULL,
+  "fingerprint" text NOT NULL,
+  "virtfusion_key_id" integer,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "last_used_at" timestamp
+);
+
+CREATE INDEX IF NOT EXISTS "idx_ssh_keys_auth0_user_id" ON "ssh_keys" ("auth0_user_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_ssh_keys_user_fingerprint" ON "ssh_keys" ("auth0_user_id", "fingerprint");
@@ -0,0 +1,17 @@
+-- Migration: Add cloud-init user-data scripts
+-- Created: 2026-10-19
+
+-- Keep the user-data script on the order so a failed build can be retried with it
+ALTER TABLE "deploy_orders" ADD COLUMN IF NOT EXISTS "user_data" text;
+
+-- Saved user-data scripts, reusable across deploys and reinstalls
+CREATE TABLE IF NOT EXISTS "user_data_scripts" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "auth0_user_id" text NOT NULL,
+  "name" text NOT NULL,
+  "content" text NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_user_data_scripts_auth0_user_id" ON "user_data_scripts" ("auth0_user_id");
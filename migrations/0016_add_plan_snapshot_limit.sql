@@ -0,0 +1,5 @@
+-- Migration: Add per-plan snapshot retention limit
+-- Created: 2026-10-19
+
+-- Maximum number of snapshots a server on this plan can keep (0 disables snapshots)
+ALTER TABLE "plans" ADD COLUMN IF NOT EXISTS "snapshot_limit" integer DEFAULT 2 NOT NULL;
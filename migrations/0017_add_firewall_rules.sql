@@ -0,0 +1,31 @@
+-- Migration: Add per-server firewall rules and reusable rule sets
+-- Created: 2026-10-19
+
+-- Firewall rules applied to a server at the hypervisor, in evaluation order
+CREATE TABLE IF NOT EXISTS "server_firewall_rules" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "virtfusion_server_id" text NOT NULL,
+  "position" integer NOT NULL,
+  "direction" text NOT NULL,
+  "protocol" text NOT NULL,
+  "port_start" integer,
+  "port_end" integer,
+  "cidr" text NOT NULL,
+  "action" text NOT NULL,
+  "description" text,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_server_firewall_rules_server" ON "server_firewall_rules" ("virtfusion_server_id", "position");
+
+-- Reusable firewall rule sets
+CREATE TABLE IF NOT EXISTS "firewall_rule_sets" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "auth0_user_id" text NOT NULL,
+  "name" text NOT NULL,
+  "rules" jsonb NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_firewall_rule_sets_auth0_user_id" ON "firewall_rule_sets" ("auth0_user_id");
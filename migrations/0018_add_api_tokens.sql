@@ -0,0 +1,21 @@
+-- Migration: Add personal access tokens
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS "api_tokens" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "auth0_user_id" text NOT NULL,
+  "virtfusion_user_id" integer,
+  "ext_relation_id" text,
+  "email" text NOT NULL,
+  "name" text NOT NULL,
+  "token_hash" text NOT NULL UNIQUE,
+  "token_prefix" text NOT NULL,
+  "scopes" jsonb NOT NULL,
+  "expires_at" timestamp,
+  "last_used_at" timestamp,
+  "last_used_ip" text,
+  "revoked_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_api_tokens_auth0_user_id" ON "api_tokens" ("auth0_user_id");
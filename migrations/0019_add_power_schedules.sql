@@ -0,0 +1,35 @@
+-- Migration: Add scheduled power actions and their run history
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS "scheduled_power_actions" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "auth0_user_id" text NOT NULL,
+  "email" text NOT NULL,
+  "virtfusion_server_id" text NOT NULL,
+  "action" text NOT NULL,
+  "cron_expression" text,
+  "run_at" timestamp,
+  "timezone" text DEFAULT 'Australia/Brisbane' NOT NULL,
+  "enabled" boolean DEFAULT true NOT NULL,
+  "next_run_at" timestamp,
+  "last_run_at" timestamp,
+  "last_status" text,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_scheduled_power_actions_server" ON "scheduled_power_actions" ("virtfusion_server_id");
+CREATE INDEX IF NOT EXISTS "idx_scheduled_power_actions_next_run" ON "scheduled_power_actions" ("next_run_at") WHERE "enabled" = true;
+
+CREATE TABLE IF NOT EXISTS "scheduled_power_action_runs" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "schedule_id" integer NOT NULL,
+  "virtfusion_server_id" text NOT NULL,
+  "action" text NOT NULL,
+  "scheduled_for" timestamp NOT NULL,
+  "status" text NOT NULL,
+  "error" text,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_scheduled_power_action_runs_server" ON "scheduled_power_action_runs" ("virtfusion_server_id", "created_at");
@@ -0,0 +1,23 @@
+-- Migration: Add projects and server tags
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS "projects" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "auth0_user_id" text NOT NULL,
+  "name" text NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_projects_user_name" ON "projects" ("auth0_user_id", lower("name"));
+
+CREATE TABLE IF NOT EXISTS "server_labels" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "auth0_user_id" text NOT NULL,
+  "virtfusion_server_id" text NOT NULL UNIQUE,
+  "project_id" integer,
+  "tags" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_server_labels_auth0_user_id" ON "server_labels" ("auth0_user_id");
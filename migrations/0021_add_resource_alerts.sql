@@ -0,0 +1,39 @@
+-- Migration: Add per-server resource usage alert rules and their notification history
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS "server_alert_rules" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "auth0_user_id" text NOT NULL,
+  "email" text NOT NULL,
+  "virtfusion_server_id" text NOT NULL,
+  "metric" text NOT NULL,
+  "threshold_percent" integer NOT NULL,
+  "duration_minutes" integer DEFAULT 0 NOT NULL,
+  "cooldown_minutes" integer DEFAULT 60 NOT NULL,
+  "webhook_url" text,
+  "enabled" boolean DEFAULT true NOT NULL,
+  "state" text DEFAULT 'ok' NOT NULL,
+  "breach_started_at" timestamp,
+  "last_notified_at" timestamp,
+  "last_value" integer,
+  "last_checked_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_server_alert_rules_server" ON "server_alert_rules" ("virtfusion_server_id");
+CREATE INDEX IF NOT EXISTS "idx_server_alert_rules_enabled" ON "server_alert_rules" ("enabled") WHERE "enabled" = true;
+
+CREATE TABLE IF NOT EXISTS "server_alert_events" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "rule_id" integer NOT NULL,
+  "virtfusion_server_id" text NOT NULL,
+  "metric" text NOT NULL,
+  "kind" text NOT NULL,
+  "value" integer NOT NULL,
+  "threshold_percent" integer NOT NULL,
+  "webhook_status" text,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_server_alert_events_server" ON "server_alert_events" ("virtfusion_server_id", "created_at");
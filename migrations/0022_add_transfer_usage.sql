@@ -0,0 +1,22 @@
+-- Migration: Add per-server monthly transfer usage for quota warnings and overage enforcement
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS "server_transfer_usage" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "auth0_user_id" text NOT NULL,
+  "virtfusion_server_id" text NOT NULL,
+  "period" text NOT NULL,
+  "used_bytes" bigint DEFAULT 0 NOT NULL,
+  "limit_gb" integer NOT NULL,
+  "warned_80_at" timestamp,
+  "warned_100_at" timestamp,
+  "overage_billed_gb" integer DEFAULT 0 NOT NULL,
+  "enforcement" text,
+  "enforced_at" timestamp,
+  "original_in_average" integer,
+  "original_out_average" integer,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "server_transfer_usage_server_period_unique" UNIQUE ("virtfusion_server_id", "period")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_server_transfer_usage_enforced" ON "server_transfer_usage" ("virtfusion_server_id") WHERE "enforcement" IS NOT NULL;
@@ -0,0 +1,22 @@
+-- Migration: Add long-term server metrics history with hourly and daily rollups
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS "server_metric_samples" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "virtfusion_server_id" text NOT NULL,
+  "resolution" text NOT NULL,
+  "bucket_start" timestamp NOT NULL,
+  "sample_count" integer DEFAULT 1 NOT NULL,
+  "cpu_avg" real NOT NULL,
+  "cpu_max" real NOT NULL,
+  "memory_avg" real NOT NULL,
+  "memory_max" real NOT NULL,
+  "disk_percent" real,
+  "disk_read_bps" bigint,
+  "disk_write_bps" bigint,
+  "net_rx_bps" bigint,
+  "net_tx_bps" bigint,
+  CONSTRAINT "server_metric_samples_bucket_unique" UNIQUE ("virtfusion_server_id", "resolution", "bucket_start")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_server_metric_samples_resolution_bucket" ON "server_metric_samples" ("resolution", "bucket_start");
@@ -0,0 +1,21 @@
+-- Migration: Add customer-initiated server ownership transfers
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS "server_ownership_transfers" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "virtfusion_server_id" text NOT NULL,
+  "server_name" text NOT NULL,
+  "from_auth0_user_id" text NOT NULL,
+  "from_email" text NOT NULL,
+  "to_email" text NOT NULL,
+  "to_auth0_user_id" text,
+  "status" text DEFAULT 'pending' NOT NULL,
+  "expires_at" timestamp NOT NULL,
+  "responded_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+-- Only one offer per server can be waiting on the recipient
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_server_ownership_transfers_pending" ON "server_ownership_transfers" ("virtfusion_server_id") WHERE "status" = 'pending';
+CREATE INDEX IF NOT EXISTS "idx_server_ownership_transfers_to_email" ON "server_ownership_transfers" ("to_email") WHERE "status" = 'pending';
+CREATE INDEX IF NOT EXISTS "idx_server_ownership_transfers_from_user" ON "server_ownership_transfers" ("from_auth0_user_id");
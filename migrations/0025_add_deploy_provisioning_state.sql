@@ -0,0 +1,25 @@
+-- Migration: Track deploy provisioning as a resumable, retried state machine
+-- Created: 2026-10-19
+
+ALTER TABLE "deploy_orders" ADD COLUMN IF NOT EXISTS "step" text NOT NULL DEFAULT 'create_user';
+ALTER TABLE "deploy_orders" ADD COLUMN IF NOT EXISTS "attempts" integer NOT NULL DEFAULT 0;
+ALTER TABLE "deploy_orders" ADD COLUMN IF NOT EXISTS "next_attempt_at" timestamp;
+ALTER TABLE "deploy_orders" ADD COLUMN IF NOT EXISTS "virtfusion_user_id" integer;
+ALTER TABLE "deploy_orders" ADD COLUMN IF NOT EXISTS "virtfusion_server_uuid" text;
+ALTER TABLE "deploy_orders" ADD COLUMN IF NOT EXISTS "os_id" integer;
+ALTER TABLE "deploy_orders" ADD COLUMN IF NOT EXISTS "os_name" text;
+ALTER TABLE "deploy_orders" ADD COLUMN IF NOT EXISTS "hypervisor_group_id" integer;
+ALTER TABLE "deploy_orders" ADD COLUMN IF NOT EXISTS "ssh_key_ids" jsonb;
+ALTER TABLE "deploy_orders" ADD COLUMN IF NOT EXISTS "promo_code_id" integer;
+ALTER TABLE "deploy_orders" ADD COLUMN IF NOT EXISTS "promo_discount_cents" integer;
+ALTER TABLE "deploy_orders" ADD COLUMN IF NOT EXISTS "refunded_at" timestamp;
+ALTER TABLE "deploy_orders" ADD COLUMN IF NOT EXISTS "completed_at" timestamp;
+
+-- Orders that finished before this migration are already past every step, and the old
+-- inline deploy refunded its failures on the spot
+UPDATE "deploy_orders" SET "step" = 'done', "completed_at" = "updated_at" WHERE "status" = 'active';
+UPDATE "deploy_orders" SET "refunded_at" = "updated_at" WHERE "status" = 'failed';
+
+CREATE INDEX IF NOT EXISTS "deploy_orders_next_attempt_idx"
+  ON "deploy_orders" ("next_attempt_at")
+  WHERE "status" IN ('paid', 'provisioning');
@@ -0,0 +1,24 @@
+-- Migration: Move datacenter locations from shared/locations.ts into the database
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS "locations" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "code" text NOT NULL UNIQUE,
+  "name" text NOT NULL,
+  "country" text NOT NULL,
+  "country_code" text NOT NULL,
+  "hypervisor_group_id" integer NOT NULL,
+  "status" text NOT NULL DEFAULT 'enabled',
+  "sold_out" boolean NOT NULL DEFAULT false,
+  "plan_ids" jsonb,
+  "sort_order" integer NOT NULL DEFAULT 0,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+-- The two locations that were hardcoded before this migration
+INSERT INTO "locations" ("code", "name", "country", "country_code", "hypervisor_group_id", "status", "sort_order")
+VALUES
+  ('BNE', 'Brisbane', 'Australia', 'AU', 2, 'enabled', 0),
+  ('SYD', 'Sydney', 'Australia', 'AU', 2, 'coming_soon', 1)
+ON CONFLICT ("code") DO NOTHING;
@@ -0,0 +1,10 @@
+-- Migration: Let admins drain hypervisors so new deployments are placed elsewhere
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS "hypervisor_drains" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "hypervisor_id" integer NOT NULL UNIQUE,
+  "reason" text,
+  "drained_by" text NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
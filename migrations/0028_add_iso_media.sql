@@ -0,0 +1,28 @@
+-- Migration: ISO library, customer-submitted ISO URLs and per-server mounted ISO / boot order
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS "iso_images" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "name" text NOT NULL,
+  "description" text,
+  "url" text NOT NULL,
+  "auth0_user_id" text,
+  "status" text NOT NULL DEFAULT 'approved',
+  "enabled" boolean NOT NULL DEFAULT true,
+  "reviewed_by" text,
+  "reviewed_at" timestamp,
+  "rejection_reason" text,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "iso_images_auth0_user_id_idx" ON "iso_images" ("auth0_user_id");
+CREATE INDEX IF NOT EXISTS "iso_images_status_idx" ON "iso_images" ("status");
+
+CREATE TABLE IF NOT EXISTS "server_media" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "virtfusion_server_id" text NOT NULL UNIQUE,
+  "iso_image_id" integer,
+  "boot_order" jsonb NOT NULL DEFAULT '["hd","cdrom"]'::jsonb,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,18 @@
+-- Migration: Rescue mode sessions with temporary root credentials and an automatic return to normal boot
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS "server_rescue_sessions" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "virtfusion_server_id" text NOT NULL,
+  "auth0_user_id" text NOT NULL,
+  "root_password_encrypted" text NOT NULL,
+  "expires_at" timestamp NOT NULL,
+  "ended_at" timestamp,
+  "end_reason" text,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "server_rescue_sessions_server_idx" ON "server_rescue_sessions" ("virtfusion_server_id");
+
+-- At most one active rescue per server
+CREATE UNIQUE INDEX IF NOT EXISTS "server_rescue_sessions_active_idx" ON "server_rescue_sessions" ("virtfusion_server_id") WHERE "ended_at" IS NULL;
@@ -0,0 +1,18 @@
+-- Migration: Billed IP add-ons (extra IPv4 addresses and IPv6 prefixes) per server
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS "server_addons" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "auth0_user_id" text NOT NULL,
+  "virtfusion_server_id" text NOT NULL,
+  "type" text NOT NULL,
+  "address" text,
+  "virtfusion_ip_block_id" integer NOT NULL,
+  "monthly_price_cents" integer NOT NULL,
+  "status" text DEFAULT 'active' NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "cancelled_at" timestamp
+);
+
+CREATE INDEX IF NOT EXISTS "server_addons_server_idx" ON "server_addons" ("virtfusion_server_id");
+CREATE INDEX IF NOT EXISTS "server_addons_user_idx" ON "server_addons" ("auth0_user_id");
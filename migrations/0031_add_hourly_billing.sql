@@ -0,0 +1,9 @@
+-- Migration: Hourly billing cycle with daily metered settlement
+-- Created: 2026-10-19
+
+ALTER TABLE "server_billing" ADD COLUMN IF NOT EXISTS "billing_cycle" text DEFAULT 'monthly' NOT NULL;
+ALTER TABLE "server_billing" ADD COLUMN IF NOT EXISTS "hourly_metered_through" timestamp;
+ALTER TABLE "server_billing" ADD COLUMN IF NOT EXISTS "hourly_period_start" timestamp;
+ALTER TABLE "server_billing" ADD COLUMN IF NOT EXISTS "hourly_period_hours" integer DEFAULT 0 NOT NULL;
+
+ALTER TABLE "deploy_orders" ADD COLUMN IF NOT EXISTS "billing_cycle" text DEFAULT 'monthly' NOT NULL;
@@ -0,0 +1,8 @@
+-- Migration: Prepaid 3- and 12-month billing terms with a discount locked in per server
+-- Created: 2026-10-19
+
+ALTER TABLE "server_billing" ADD COLUMN IF NOT EXISTS "term_months" integer DEFAULT 1 NOT NULL;
+ALTER TABLE "server_billing" ADD COLUMN IF NOT EXISTS "term_discount_percent" integer DEFAULT 0 NOT NULL;
+
+ALTER TABLE "deploy_orders" ADD COLUMN IF NOT EXISTS "term_months" integer DEFAULT 1 NOT NULL;
+ALTER TABLE "deploy_orders" ADD COLUMN IF NOT EXISTS "term_discount_percent" integer DEFAULT 0 NOT NULL;
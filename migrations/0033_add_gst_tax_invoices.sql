@@ -0,0 +1,21 @@
+-- Migration: GST breakdown on invoices and customer billing profiles (business name, ABN, country)
+-- Created: 2026-10-19
+
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "subtotal_cents" integer;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "tax_cents" integer;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "tax_rate_percent" integer;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "tax_treatment" text;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "customer_business_name" text;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "customer_abn" text;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "customer_country_code" text;
+
+CREATE TABLE IF NOT EXISTS "billing_profiles" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "auth0_user_id" text NOT NULL UNIQUE,
+  "business_name" text,
+  "abn" text,
+  "country_code" text DEFAULT 'AU' NOT NULL,
+  "show_prices_ex_tax" boolean DEFAULT false NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,9 @@
+-- Migration: Invoices for renewal, deploy and add-on charges, itemised by their billing ledger entries
+-- Created: 2026-10-19
+
+ALTER TABLE "billing_ledger" ADD COLUMN IF NOT EXISTS "invoice_id" integer;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "virtfusion_server_id" text;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "period_start" timestamp;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "period_end" timestamp;
+
+CREATE INDEX IF NOT EXISTS "billing_ledger_invoice_id_idx" ON "billing_ledger" ("invoice_id");
@@ -0,0 +1,17 @@
+-- Migration: Monthly account statements (opening and closing wallet balance per calendar month)
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS "account_statements" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "auth0_user_id" text NOT NULL,
+  "period" text NOT NULL,
+  "period_start" timestamp NOT NULL,
+  "period_end" timestamp NOT NULL,
+  "opening_balance_cents" integer NOT NULL,
+  "closing_balance_cents" integer NOT NULL,
+  "credits_cents" integer NOT NULL,
+  "debits_cents" integer NOT NULL,
+  "emailed_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "account_statements_user_period_unique" UNIQUE ("auth0_user_id", "period")
+);
@@ -0,0 +1,23 @@
+-- Migration: Credit notes for admin refunds against invoices, paid back to the card or the wallet
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS "credit_notes" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "credit_note_number" text NOT NULL UNIQUE,
+  "invoice_id" integer NOT NULL,
+  "auth0_user_id" text NOT NULL,
+  "amount_cents" integer NOT NULL,
+  "subtotal_cents" integer NOT NULL,
+  "tax_cents" integer NOT NULL,
+  "method" text NOT NULL,
+  "status" text DEFAULT 'pending' NOT NULL,
+  "stripe_payment_intent_id" text,
+  "stripe_refund_id" text,
+  "wallet_transaction_id" integer,
+  "reason" text NOT NULL,
+  "issued_by" text NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "credit_notes_invoice_id_idx" ON "credit_notes" ("invoice_id");
+CREATE INDEX IF NOT EXISTS "credit_notes_auth0_user_id_idx" ON "credit_notes" ("auth0_user_id");
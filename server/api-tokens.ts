@@ -0,0 +1,70 @@
+import crypto from "crypto";
+import type { ApiToken, ApiTokenScope } from "@shared/schema";
+
+export const API_TOKEN_PREFIX = "ozvps_pat_";
+export const MAX_API_TOKENS_PER_USER = 10;
+
+// Routes a personal access token may call, and the scope each one needs.
+// Anything not listed here still requires a browser session.
+const TOKEN_ROUTES: Array<{ method: string; pattern: RegExp; scope: ApiTokenScope }> = [
+  { method: "GET", pattern: /^\/api\/servers\/?$/, scope: "servers:read" },
+  {
+    method: "GET",
+    pattern: /^\/api\/servers\/[^/]+(\/(stats|metrics|metrics\/history(\.csv)?|traffic|traffic\/statistics|transfer-usage|network|build-status))?\/?$/,
+    scope: "servers:read",
+  },
+  { method: "POST", pattern: /^\/api\/servers\/[^/]+\/power\/?$/, scope: "servers:power" },
+  { method: "GET", pattern: /^\/api\/wallet(\/transactions)?\/?$/, scope: "billing:read" },
+];
+
+export function hashApiToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function generateApiToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+  const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+  return {
+    token,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+  };
+}
+
+// Extract a personal access token from an Authorization: Bearer header
+export function parseBearerToken(header: string | undefined): string | null {
+  if (!header) return null;
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+  if (!match || !match[1].startsWith(API_TOKEN_PREFIX)) {
+    return null;
+  }
+  return match[1];
+}
+
+export function requiredApiTokenScope(method: string, path: string): ApiTokenScope | null {
+  const route = TOKEN_ROUTES.find((candidate) => candidate.method === method && candidate.pattern.test(path));
+  return route?.scope ?? null;
+}
+
+export function checkApiTokenAccess(
+  token: Pick<ApiToken, "scopes" | "expiresAt" | "revokedAt">,
+  method: string,
+  path: string,
+  now: Date = new Date(),
+): { ok: true } | { ok: false; status: 401 | 403; error: string; code: string } {
+  if (token.revokedAt) {
+    return { ok: false, status: 401, error: "API token has been revoked", code: "TOKEN_REVOKED" };
+  }
+  if (token.expiresAt && token.expiresAt.getTime() <= now.getTime()) {
+    return { ok: false, status: 401, error: "API token has expired", code: "TOKEN_EXPIRED" };
+  }
+
+  const scope = requiredApiTokenScope(method, path);
+  if (!scope) {
+    return { ok: false, status: 403, error: "This endpoint can't be used with an API token", code: "TOKEN_ROUTE_NOT_ALLOWED" };
+  }
+  if (!token.scopes.includes(scope)) {
+    return { ok: false, status: 403, error: `API token is missing the ${scope} scope`, code: "TOKEN_SCOPE_MISSING" };
+  }
+
+  return { ok: true };
+}
@@ -1,12 +1,19 @@
 import { db } from './db';
-import { serverBilling, billingLedger, wallets, walletTransactions, userFlags } from '../shared/schema';
-import { eq, and, lte, isNull, or, not, gte, gt, lt, sql } from 'drizzle-orm';
+import { serverBilling, billingLedger, invoices, creditNotes, userMappings, wallets, walletTransactions, userFlags, serverTransferUsage, serverCancellations, scheduledPowerActions, scheduledPowerActionRuns, serverAlertRules, serverAlertEvents, serverLabels, serverOwnershipTransfers, serverRescueSessions, serverAddons, DEFAULT_BOOT_ORDER, type Plan, type ServerTransferUsage, type ServerOwnershipTransfer, type ServerAddon, type ServerAddonType, type BillingCycle, type DeployOrder, type Invoice, type CreditNote, type RefundMethod } from '../shared/schema';
+import { eq, and, lte, isNull, or, not, gte, gt, lt, like, sql, inArray } from 'drizzle-orm';
 import { log } from './log';
 import { virtfusionClient } from './virtfusion';
 import { auth0Client } from './auth0';
 import { sendPaymentFailedEmail, sendServerSuspendedEmail, sendBillingReminderEmail, sendAutoTopupSuccessEmail, sendAutoTopupFailedEmail, sendBillingReceiptEmail } from './email';
 import { getUncachableStripeClient } from './stripeClient';
 import { dbStorage } from './storage';
+import { generateCreditNotePDF, generateInvoicePDF } from './invoice-generator';
+import { checkInvoiceRefund, creditNoteTaxFields, invoiceStatusAfterRefund, refundedCents } from './refunds';
+import { calculatePlanChangeProration, checkPlanChangeEligibility } from './plan-change';
+import { checkServerTransferEligibility, isServerTransferOpen } from './server-transfers';
+import { IPV6_ADDON_PREFIX_LENGTH, addonMonthlyTotalCents, checkIpAddonPurchase, ipAddonBlockId, ipAddonLabel, ipAddonPriceCents } from './ip-addons';
+import { meterHourlyUsage, nextHourlySettlementAt } from '../shared/hourly-billing';
+import { TERM_REMINDER_LEAD_DAYS, addMonths, billingTermLabel, reminderLeadDays, termPriceCents, termRenewalCents } from '../shared/billing-terms';
 
 export function getAutoTopupIdempotencyKey(wallet: {
   auth0UserId: string;
@@ -43,6 +50,259 @@ async function getUserEmail(auth0UserId: string): Promise<string | null> {
   }
 }
 
+// Issue the tax invoice for a wallet charge recorded in the billing ledger under ledgerKey;
+// add-on entries renewed with it become extra lines. Returns null if there is nothing left
+// to invoice (a free charge, or one already invoiced).
+export async function issueChargeInvoice(params: {
+  auth0UserId: string;
+  ledgerKey: string;
+  description: string;
+  virtfusionServerId?: string | null;
+  periodStart?: Date | null;
+  periodEnd?: Date | null;
+}): Promise<Invoice | null> {
+  let customer: { email: string; name: string | null } | null = null;
+  try {
+    const user = await auth0Client.getUserById(params.auth0UserId);
+    if (user?.email) customer = { email: user.email, name: user.name || null };
+  } catch (error) {
+    log(`Failed to look up user ${params.auth0UserId} in Auth0 for invoice: ${error}`, 'billing');
+  }
+  if (!customer) {
+    const [mapping] = await db.select().from(userMappings).where(eq(userMappings.auth0UserId, params.auth0UserId)).limit(1);
+    if (!mapping) {
+      log(`No customer details for user ${params.auth0UserId}; charge ${params.ledgerKey} not invoiced`, 'billing');
+      return null;
+    }
+    customer = { email: mapping.email, name: mapping.name };
+  }
+
+  const invoice = await dbStorage.createLedgerInvoice(params.ledgerKey, {
+    auth0UserId: params.auth0UserId,
+    description: params.description,
+    customerEmail: customer.email,
+    customerName: customer.name,
+    virtfusionServerId: params.virtfusionServerId ?? null,
+    periodStart: params.periodStart ?? null,
+    periodEnd: params.periodEnd ?? null,
+  });
+  if (invoice) {
+    log(`Issued invoice ${invoice.invoiceNumber} for ${params.ledgerKey}: $${invoice.amountCents / 100}`, 'billing');
+  }
+  return invoice;
+}
+
+// A deploy is paid for when it's ordered but only final once the server is delivered (failed
+// orders are refunded), so the charge reaches the ledger and is invoiced on completion
+export async function invoiceDeployCharge(order: DeployOrder): Promise<Invoice | null> {
+  if (order.priceCents <= 0 || !order.virtfusionServerId) return null;
+
+  const serverId = String(order.virtfusionServerId);
+  const ledgerKey = `deploy:${order.id}`;
+  const serverName = order.hostname || `Server #${serverId}`;
+  const description = `Server deployment${order.termMonths > 1 ? ` (${order.termMonths} months)` : ''} - ${serverName}`;
+
+  await db.insert(billingLedger).values({
+    auth0UserId: order.auth0UserId,
+    virtfusionServerId: serverId,
+    amountCents: order.priceCents,
+    description,
+    idempotencyKey: ledgerKey,
+  }).onConflictDoNothing();
+
+  const billing = await dbStorage.getServerBilling(serverId);
+  return issueChargeInvoice({
+    auth0UserId: order.auth0UserId,
+    ledgerKey,
+    description,
+    virtfusionServerId: serverId,
+    periodStart: billing?.deployedAt ?? order.completedAt ?? new Date(),
+    periodEnd: billing?.nextBillAt,
+  });
+}
+
+// Render an invoice with its ledger lines, for download or to attach to an email
+export async function renderInvoicePDF(invoice: Invoice): Promise<Buffer> {
+  const lines = await dbStorage.getInvoiceLines(invoice.id);
+  return generateInvoicePDF(invoice, lines);
+}
+
+export type RefundInvoiceResult =
+  | { success: true; invoice: Invoice; creditNote: CreditNote }
+  | { success: false; status: number; error: string };
+
+// Refund all or part of an invoice and issue a credit note for it. Invoices are for charges paid
+// from the wallet, so a refund goes back into the wallet or, through Stripe, to one of the card
+// top-ups that funded it. The invoice is voided once it has been refunded in full.
+//
+// The credit note is claimed as pending under a lock on the invoice before any money moves, so
+// concurrent refunds can't take the invoice past its total; it is issued once the refund is paid.
+export async function refundInvoice(params: {
+  invoiceId: number;
+  amountCents: number;
+  method: RefundMethod;
+  paymentIntentId?: string;
+  reason: string;
+  issuedBy: string;
+}): Promise<RefundInvoiceResult> {
+  const claim = await claimCreditNote(params);
+  if (!claim.ok) {
+    return { success: false, status: claim.status, error: claim.error };
+  }
+  const { invoice } = claim;
+  let { creditNote } = claim;
+
+  if (params.method === 'wallet') {
+    creditNote = await db.transaction(async (tx) => {
+      const [wallet] = await tx.update(wallets)
+        .set({ balanceCents: sql`${wallets.balanceCents} + ${params.amountCents}`, updatedAt: new Date() })
+        .where(eq(wallets.auth0UserId, invoice.auth0UserId))
+        .returning();
+      if (!wallet) {
+        throw new Error(`No wallet for user ${invoice.auth0UserId}`);
+      }
+
+      const [transaction] = await tx.insert(walletTransactions).values({
+        auth0UserId: invoice.auth0UserId,
+        type: 'refund',
+        amountCents: params.amountCents,
+        metadata: {
+          description: `Refund for invoice ${invoice.invoiceNumber}`,
+          invoiceNumber: invoice.invoiceNumber,
+          creditNoteNumber: creditNote.creditNoteNumber,
+          reason: params.reason,
+        },
+      }).returning();
+      return issueCreditNote(tx, creditNote, invoice, { walletTransactionId: transaction.id });
+    }).catch(async (error) => {
+      await dbStorage.failCreditNote(creditNote.id);
+      throw error;
+    });
+  } else {
+    let stripeRefundId: string;
+    try {
+      const stripe = await getUncachableStripeClient();
+      const refund = await stripe.refunds.create(
+        {
+          payment_intent: creditNote.stripePaymentIntentId!,
+          amount: params.amountCents,
+          reason: 'requested_by_customer',
+          metadata: { invoiceNumber: invoice.invoiceNumber, creditNoteNumber: creditNote.creditNoteNumber, auth0UserId: invoice.auth0UserId },
+        },
+        { idempotencyKey: `credit-note:${creditNote.id}` },
+      );
+      stripeRefundId = refund.id;
+    } catch (error: any) {
+      await dbStorage.failCreditNote(creditNote.id);
+      log(`Stripe refund for invoice ${invoice.invoiceNumber} failed: ${error.message}`, 'billing');
+      return { success: false, status: 502, error: error.message || 'Stripe refund failed' };
+    }
+
+    creditNote = await db.transaction((tx) => issueCreditNote(tx, creditNote, invoice, { stripeRefundId }));
+  }
+
+  const updated = await dbStorage.getInvoiceById(invoice.id);
+  log(`Issued credit note ${creditNote.creditNoteNumber} for invoice ${invoice.invoiceNumber}: $${params.amountCents / 100} to ${params.method}`, 'billing');
+  return { success: true, invoice: updated ?? invoice, creditNote };
+}
+
+async function claimCreditNote(params: {
+  invoiceId: number;
+  amountCents: number;
+  method: RefundMethod;
+  paymentIntentId?: string;
+  reason: string;
+  issuedBy: string;
+}): Promise<{ ok: true; invoice: Invoice; creditNote: CreditNote } | { ok: false; status: number; error: string }> {
+  const MAX_RETRIES = 3;
+
+  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+    try {
+      return await db.transaction(async (tx) => {
+        const [invoice] = await tx.select().from(invoices)
+          .where(eq(invoices.id, params.invoiceId))
+          .for('update');
+        if (!invoice) {
+          return { ok: false as const, status: 404, error: 'Invoice not found' };
+        }
+
+        const notes = await tx.select().from(creditNotes).where(eq(creditNotes.invoiceId, invoice.id));
+        const check = checkInvoiceRefund(invoice, refundedCents(notes), params);
+        if (!check.ok) {
+          return { ok: false as const, status: 400, error: check.error };
+        }
+
+        // Card refunds go back to a payment the customer topped up with
+        if (check.paymentIntentId) {
+          const [topup] = await tx.select({ id: walletTransactions.id })
+            .from(walletTransactions)
+            .where(and(
+              eq(walletTransactions.auth0UserId, invoice.auth0UserId),
+              eq(walletTransactions.type, 'credit'),
+              eq(walletTransactions.stripePaymentIntentId, check.paymentIntentId),
+            ))
+            .limit(1);
+          if (!topup) {
+            return { ok: false as const, status: 400, error: "That payment isn't one of this customer's card top-ups." };
+          }
+        }
+
+        const [creditNote] = await tx.insert(creditNotes).values({
+          creditNoteNumber: await dbStorage.generateCreditNoteNumber(),
+          invoiceId: invoice.id,
+          auth0UserId: invoice.auth0UserId,
+          amountCents: params.amountCents,
+          ...creditNoteTaxFields(params.amountCents, invoice),
+          method: params.method,
+          status: 'pending',
+          stripePaymentIntentId: check.paymentIntentId,
+          reason: params.reason,
+          issuedBy: params.issuedBy,
+        }).returning();
+        return { ok: true as const, invoice, creditNote };
+      });
+    } catch (error: any) {
+      const isUniqueViolation = error.code === '23505' &&
+        (error.constraint?.includes('credit_note_number') || error.detail?.includes('credit_note_number'));
+      if (isUniqueViolation && attempt < MAX_RETRIES - 1) {
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  throw new Error('Failed to generate unique credit note number after multiple attempts');
+}
+
+// Mark a paid refund's credit note issued and move the invoice to void or partially refunded
+async function issueCreditNote(
+  tx: BillingTx,
+  creditNote: CreditNote,
+  invoice: Invoice,
+  payment: { walletTransactionId?: number; stripeRefundId?: string },
+): Promise<CreditNote> {
+  const [issued] = await tx.update(creditNotes)
+    .set({ status: 'issued', ...payment })
+    .where(eq(creditNotes.id, creditNote.id))
+    .returning();
+
+  const [{ total }] = await tx.select({ total: sql<number>`COALESCE(SUM(${creditNotes.amountCents}), 0)::int` })
+    .from(creditNotes)
+    .where(and(eq(creditNotes.invoiceId, invoice.id), eq(creditNotes.status, 'issued')));
+  await tx.update(invoices)
+    .set({ status: invoiceStatusAfterRefund(invoice.amountCents, total) })
+    .where(eq(invoices.id, invoice.id));
+  return issued;
+}
+
+export async function renderCreditNotePDF(creditNote: CreditNote): Promise<Buffer> {
+  const invoice = await dbStorage.getInvoiceById(creditNote.invoiceId);
+  if (!invoice) {
+    throw new Error(`Invoice ${creditNote.invoiceId} for credit note ${creditNote.creditNoteNumber} not found`);
+  }
+  return generateCreditNotePDF(creditNote, invoice);
+}
+
 // Helper to get server name from VirtFusion
 async function getServerName(serverId: string): Promise<string> {
   try {
@@ -68,18 +328,59 @@ function formatCurrency(cents: number): string {
   return `$${(cents / 100).toFixed(2)} AUD`;
 }
 
-// Add 1 calendar month to a date (handles month-end cases)
-function addMonth(date: Date): Date {
-  const result = new Date(date);
-  const currentMonth = result.getMonth();
-  result.setMonth(currentMonth + 1);
+// A renewal is written as one ledger entry for the server plus one per active add-on,
+// keyed off the server's entry so the whole renewal can be found (or removed) together
+function addonLedgerKey(idempotencyKey: string, addonId: number): string {
+  return `${idempotencyKey}:addon:${addonId}`;
+}
+
+function renewalLedgerEntries(idempotencyKey: string) {
+  return or(
+    eq(billingLedger.idempotencyKey, idempotencyKey),
+    like(billingLedger.idempotencyKey, `${idempotencyKey}:addon:%`),
+  );
+}
+
+type BillingTx = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
-  // If we overflow (e.g., Jan 31 + 1 month = Mar 3), go to last day of target month
-  if (result.getMonth() !== (currentMonth + 1) % 12) {
-    result.setDate(0); // Go to last day of previous month
+// Remove a renewal's ledger entries so it can be charged again or because it was refunded.
+// An invoice already issued for them would otherwise stay paid with no lines, so it is voided.
+async function deleteRenewalLedgerEntries(tx: BillingTx, idempotencyKey: string) {
+  const deleted = await tx.delete(billingLedger).where(renewalLedgerEntries(idempotencyKey)).returning();
+  const invoiceIds = Array.from(new Set(deleted.flatMap((entry) => entry.invoiceId === null ? [] : [entry.invoiceId])));
+  if (invoiceIds.length > 0) {
+    await tx.update(invoices).set({ status: 'void' }).where(inArray(invoices.id, invoiceIds));
+    log(`Voided invoice(s) ${invoiceIds.join(', ')} for removed ledger entries ${idempotencyKey}`, 'billing');
   }
+  return deleted;
+}
 
-  return result;
+// What the next renewal of a server will cost: its plan for the term plus any active add-ons.
+// For hourly servers that is the usage accrued since the last settlement.
+export async function getRenewalAmountCents(billing: typeof serverBilling.$inferSelect): Promise<number> {
+  const addons = await dbStorage.getActiveServerAddons(billing.virtfusionServerId);
+  if (billing.billingCycle === 'hourly') {
+    const monthlyPriceCents = billing.monthlyPriceCents + addonMonthlyTotalCents(addons);
+    return meterHourlyUsage({ ...hourlyMeterState(billing), monthlyPriceCents, now: new Date() }).amountCents;
+  }
+  return termRenewalCents(billing, addonMonthlyTotalCents(addons));
+}
+
+function hourlyMeterState(billing: typeof serverBilling.$inferSelect) {
+  return {
+    meteredThrough: billing.hourlyMeteredThrough ?? billing.deployedAt,
+    periodStart: billing.hourlyPeriodStart ?? billing.deployedAt,
+    periodHours: billing.hourlyPeriodHours,
+  };
+}
+
+// Next bill after paying to reactivate: a term from now, or the next daily settlement for hourly servers
+function reactivationNextBillAt(billing: typeof serverBilling.$inferSelect): Date {
+  const nextBillAt = billing.billingCycle === 'hourly'
+    ? nextHourlySettlementAt(new Date())
+    : addMonths(new Date(), billing.termMonths);
+  nextBillAt.setUTCHours(0, 0, 0, 0); // Normalize to midnight UTC
+  return nextBillAt;
 }
 
 // Create billing record for a new server
@@ -90,9 +391,15 @@ export async function createServerBilling(params: {
   planId: number;
   monthlyPriceCents: number;
   deployedAt?: Date; // Optional - use server's actual creation date if available
+  billingCycle?: BillingCycle;
+  termMonths?: number;
+  termDiscountPercent?: number;
 }): Promise<void> {
   const deployedAt = params.deployedAt || new Date();
-  const nextBillAt = addMonth(deployedAt);
+  const billingCycle = params.billingCycle ?? 'monthly';
+  const termMonths = billingCycle === 'hourly' ? 1 : params.termMonths ?? 1;
+  // Hourly usage is settled by the next daily run; monthly servers are paid up front for their first term
+  const nextBillAt = billingCycle === 'hourly' ? nextHourlySettlementAt(deployedAt) : addMonths(deployedAt, termMonths);
   // Normalize to midnight UTC so billing job (8am UTC) always picks it up on the correct day
   nextBillAt.setUTCHours(0, 0, 0, 0);
 
@@ -107,19 +414,30 @@ export async function createServerBilling(params: {
     autoRenew: true,
     nextBillAt,
     suspendAt: null,
+    billingCycle,
+    termMonths,
+    termDiscountPercent: termMonths > 1 ? params.termDiscountPercent ?? 0 : 0,
+    ...(billingCycle === 'hourly' && {
+      hourlyMeteredThrough: deployedAt,
+      hourlyPeriodStart: deployedAt,
+    }),
   });
-  log(`Created billing record for server ${params.virtfusionServerId} (UUID: ${params.virtfusionServerUuid || 'N/A'}), next bill: ${nextBillAt.toISOString()}`, 'billing');
+  log(`Created ${billingCycle} billing record (${termMonths}-month term) for server ${params.virtfusionServerId} (UUID: ${params.virtfusionServerUuid || 'N/A'}), next bill: ${nextBillAt.toISOString()}`, 'billing');
 }
 
-// Charge a server's monthly fee
-// If reactivation=true, the next bill date is set to 1 month from now (for unsuspending)
-// If reactivation=false (default), the next bill date is set to 1 month from the previous due date
+// Charge a server's renewal for its billing term (1, 3 or 12 months)
+// If reactivation=true, the next bill date is set to one term from now (for unsuspending)
+// If reactivation=false (default), the next bill date is set to one term from the previous due date
 type ChargeServerResult = {
   success: boolean;
   chargedFresh: boolean;
   currentBilling: typeof serverBilling.$inferSelect;
   idempotencyKey?: string;
   serverName?: string;
+  // Plan price for the term plus add-ons, when a charge was attempted
+  amountCents?: number;
+  // The period a fresh charge paid for
+  servicePeriod?: { start: Date; end: Date };
 };
 
 async function chargeServer(billing: typeof serverBilling.$inferSelect, reactivation: boolean = false): Promise<ChargeServerResult> {
@@ -133,10 +451,14 @@ async function chargeServer(billing: typeof serverBilling.$inferSelect, reactiva
     };
   }
 
+  if (billing.billingCycle === 'hourly') {
+    return await settleHourlyServer(billing, { reactivation });
+  }
+
   // Get server name for transaction description
   const serverName = await getServerName(billing.virtfusionServerId);
 
-  return await db.transaction(async (tx) => {
+  const result = await db.transaction(async (tx): Promise<ChargeServerResult> => {
     // Lock wallet row FIRST to prevent concurrent charges
     const walletRows = await tx.select().from(wallets)
       .where(eq(wallets.auth0UserId, billing.auth0UserId))
@@ -218,28 +540,39 @@ async function chargeServer(billing: typeof serverBilling.$inferSelect, reactiva
       }
       // Ledger entry exists but status is not 'paid' — stale entry (DB was reset or admin changed status).
       // Delete the stale entry and charge fresh so the wallet is correctly debited.
-      await tx.delete(billingLedger).where(eq(billingLedger.idempotencyKey, idempotencyKey));
+      await deleteRenewalLedgerEntries(tx, idempotencyKey);
       log(`Server ${billing.virtfusionServerId}: stale ledger entry cleared (status=${billing.status}), charging fresh`, 'billing');
       // Fall through to charge fresh below
     }
 
     const wallet = walletRows[0];
 
-    if (wallet.balanceCents < currentBilling.monthlyPriceCents) {
-      log(`Insufficient balance for server ${currentBilling.virtfusionServerId}: need ${currentBilling.monthlyPriceCents}, have ${wallet.balanceCents}`, 'billing');
+    // Add-ons renew with the server, for every month of its term
+    const addons = await tx.select().from(serverAddons)
+      .where(and(
+        eq(serverAddons.virtfusionServerId, currentBilling.virtfusionServerId),
+        eq(serverAddons.status, 'active'),
+      ));
+    const termMonths = currentBilling.termMonths;
+    const planCents = termPriceCents(currentBilling.monthlyPriceCents, termMonths, currentBilling.termDiscountPercent);
+    const amountCents = termRenewalCents(currentBilling, addonMonthlyTotalCents(addons));
+
+    if (wallet.balanceCents < amountCents) {
+      log(`Insufficient balance for server ${currentBilling.virtfusionServerId}: need ${amountCents}, have ${wallet.balanceCents}`, 'billing');
       return {
         success: false,
         chargedFresh: false,
         currentBilling,
         idempotencyKey,
         serverName,
+        amountCents,
       };
     }
 
     // Deduct from wallet
     await tx.update(wallets)
       .set({
-        balanceCents: wallet.balanceCents - currentBilling.monthlyPriceCents,
+        balanceCents: wallet.balanceCents - amountCents,
         updatedAt: new Date(),
       })
       .where(eq(wallets.auth0UserId, currentBilling.auth0UserId));
@@ -248,26 +581,46 @@ async function chargeServer(billing: typeof serverBilling.$inferSelect, reactiva
     await tx.insert(billingLedger).values({
       auth0UserId: currentBilling.auth0UserId,
       virtfusionServerId: currentBilling.virtfusionServerId,
-      amountCents: currentBilling.monthlyPriceCents,
-      description: `Server renewal - ${serverName}`,
+      amountCents: planCents,
+      description: `Server renewal${termMonths > 1 ? ` (${termMonths} months)` : ''} - ${serverName}`,
       idempotencyKey,
     });
 
+    for (const addon of addons) {
+      await tx.insert(billingLedger).values({
+        auth0UserId: currentBilling.auth0UserId,
+        virtfusionServerId: currentBilling.virtfusionServerId,
+        amountCents: addon.monthlyPriceCents * termMonths,
+        description: `${ipAddonLabel(addon.type)}${addon.address ? ` ${addon.address}` : ''} - ${serverName}`,
+        idempotencyKey: addonLedgerKey(idempotencyKey, addon.id),
+      });
+    }
+
     // Record in wallet transactions (for user visibility)
     // Only call it "reactivation" if the server was actually suspended — unpaid-but-running
-    // servers that get auto-charged after a top-up should just show as "Monthly billing"
+    // servers that get auto-charged after a top-up should just show as their term's billing
     const transactionDescription = (reactivation && currentBilling.status === 'suspended')
       ? 'Server reactivation'
-      : 'Monthly billing';
+      : `${billingTermLabel(termMonths)} billing`;
 
     await tx.insert(walletTransactions).values({
       auth0UserId: currentBilling.auth0UserId,
       type: 'debit',
-      amountCents: -currentBilling.monthlyPriceCents, // Negative for debits
+      amountCents: -amountCents, // Negative for debits
       metadata: {
         serverId: currentBilling.virtfusionServerId,
         serverName,
         description: transactionDescription,
+        ...(termMonths > 1 && { termMonths }),
+        ...(addons.length > 0 && {
+          planCents,
+          addons: addons.map(addon => ({
+            id: addon.id,
+            type: addon.type,
+            address: addon.address,
+            amountCents: addon.monthlyPriceCents * termMonths,
+          })),
+        }),
         ...(reactivation && {
           reactivation: true,
           previousStatus: currentBilling.status,
@@ -277,9 +630,10 @@ async function chargeServer(billing: typeof serverBilling.$inferSelect, reactiva
     });
 
     // Update billing record
-    // For reactivation (unsuspending), set next bill to 1 month from now
-    // For regular billing, set next bill to 1 month from the previous due date
-    const newNextBillAt = reactivation ? addMonth(new Date()) : addMonth(currentBilling.nextBillAt);
+    // For reactivation (unsuspending), set next bill to one term from now
+    // For regular billing, set next bill to one term from the previous due date
+    const periodStart = reactivation ? new Date() : currentBilling.nextBillAt;
+    const newNextBillAt = addMonths(periodStart, termMonths);
     newNextBillAt.setUTCHours(0, 0, 0, 0); // Normalize to midnight UTC
     await tx.update(serverBilling)
       .set({
@@ -290,17 +644,7 @@ async function chargeServer(billing: typeof serverBilling.$inferSelect, reactiva
       })
       .where(eq(serverBilling.id, currentBilling.id));
 
-    log(`Charged server ${currentBilling.virtfusionServerId}: $${currentBilling.monthlyPriceCents / 100}`, 'billing');
-
-    // Send billing receipt email (non-blocking)
-    getUserEmail(currentBilling.auth0UserId).then(email => {
-      if (email) {
-        const amountDollars = `$${(currentBilling.monthlyPriceCents / 100).toFixed(2)}`;
-        sendBillingReceiptEmail(email, serverName, amountDollars, newNextBillAt.toLocaleDateString('en-AU', { day: 'numeric', month: 'long', year: 'numeric' })).catch(err => {
-          log(`Failed to send billing receipt email to ${email}: ${err.message}`, 'billing');
-        });
-      }
-    }).catch(() => {});
+    log(`Charged server ${currentBilling.virtfusionServerId}: $${amountCents / 100}${addons.length > 0 ? ` (incl. ${addons.length} add-on${addons.length !== 1 ? 's' : ''})` : ''}`, 'billing');
 
     return {
       success: true,
@@ -314,19 +658,263 @@ async function chargeServer(billing: typeof serverBilling.$inferSelect, reactiva
       },
       idempotencyKey,
       serverName,
+      amountCents,
+      servicePeriod: { start: periodStart, end: newNextBillAt },
     };
   });
+
+  // Invoice the renewal and send the receipt with it once the charge has committed (non-blocking)
+  if (result.chargedFresh && result.idempotencyKey && result.servicePeriod) {
+    sendRenewalReceipt(result, serverName).catch(err => {
+      log(`Failed to invoice renewal ${result.idempotencyKey}: ${err.message}`, 'billing');
+    });
+  }
+
+  return result;
+}
+
+async function sendRenewalReceipt(result: ChargeServerResult, serverName: string): Promise<void> {
+  const { currentBilling, servicePeriod } = result;
+  const invoice = await issueChargeInvoice({
+    auth0UserId: currentBilling.auth0UserId,
+    ledgerKey: result.idempotencyKey!,
+    description: `Server renewal - ${serverName}`,
+    virtfusionServerId: currentBilling.virtfusionServerId,
+    periodStart: servicePeriod?.start,
+    periodEnd: servicePeriod?.end,
+  });
+
+  const email = invoice?.customerEmail ?? await getUserEmail(currentBilling.auth0UserId);
+  if (!email) return;
+
+  const amountDollars = `$${((result.amountCents ?? 0) / 100).toFixed(2)}`;
+  const nextBillDate = currentBilling.nextBillAt.toLocaleDateString('en-AU', { day: 'numeric', month: 'long', year: 'numeric' });
+  const attachment = invoice ? { invoiceNumber: invoice.invoiceNumber, pdf: await renderInvoicePDF(invoice) } : undefined;
+  await sendBillingReceiptEmail(email, serverName, amountDollars, nextBillDate, attachment);
+}
+
+// Settle an hourly server's metered usage up to now and move its next bill to the
+// coming midnight. Daily runs only charge whole hours; the final settlement when
+// the server is deleted rounds the last partial hour up.
+async function settleHourlyServer(
+  billing: typeof serverBilling.$inferSelect,
+  options: { final?: boolean; reactivation?: boolean } = {},
+): Promise<ChargeServerResult> {
+  const serverName = await getServerName(billing.virtfusionServerId);
+
+  const result = await db.transaction(async (tx): Promise<ChargeServerResult> => {
+    const walletRows = await tx.select().from(wallets)
+      .where(eq(wallets.auth0UserId, billing.auth0UserId))
+      .for('update')
+      .limit(1);
+
+    if (walletRows.length === 0) {
+      log(`No wallet found for user ${billing.auth0UserId}`, 'billing');
+      return {
+        success: false,
+        chargedFresh: false,
+        currentBilling: billing,
+      };
+    }
+
+    // Metering state lives on the billing row, so it must be re-read under lock
+    const currentBillingRows = await tx.select().from(serverBilling)
+      .where(eq(serverBilling.id, billing.id))
+      .for('update')
+      .limit(1);
+
+    if (currentBillingRows.length === 0) {
+      log(`Billing record ${billing.id} disappeared before settlement for server ${billing.virtfusionServerId}`, 'billing');
+      return {
+        success: false,
+        chargedFresh: false,
+        currentBilling: billing,
+      };
+    }
+
+    const currentBilling = currentBillingRows[0];
+
+    if (currentBilling.freeServer) {
+      log(`Skipping settlement for complimentary server ${currentBilling.virtfusionServerId}`, 'billing');
+      return {
+        success: true,
+        chargedFresh: false,
+        currentBilling,
+      };
+    }
+
+    // Add-ons are metered at the same rate and share the monthly cap
+    const addons = await tx.select().from(serverAddons)
+      .where(and(
+        eq(serverAddons.virtfusionServerId, currentBilling.virtfusionServerId),
+        eq(serverAddons.status, 'active'),
+      ));
+    const monthlyPriceCents = currentBilling.monthlyPriceCents + addonMonthlyTotalCents(addons);
+
+    const now = new Date();
+    const meterState = hourlyMeterState(currentBilling);
+    const usage = meterHourlyUsage({ ...meterState, monthlyPriceCents, now, final: options.final });
+    const idempotencyKey = `hourly:${currentBilling.virtfusionServerId}:${meterState.meteredThrough.toISOString()}`;
+    const wallet = walletRows[0];
+
+    if (wallet.balanceCents < usage.amountCents) {
+      log(`Insufficient balance for hourly server ${currentBilling.virtfusionServerId}: need ${usage.amountCents}, have ${wallet.balanceCents}`, 'billing');
+      return {
+        success: false,
+        chargedFresh: false,
+        currentBilling,
+        idempotencyKey,
+        serverName,
+        amountCents: usage.amountCents,
+      };
+    }
+
+    if (usage.amountCents > 0) {
+      await tx.update(wallets)
+        .set({
+          balanceCents: wallet.balanceCents - usage.amountCents,
+          updatedAt: new Date(),
+        })
+        .where(eq(wallets.auth0UserId, currentBilling.auth0UserId));
+
+      await tx.insert(billingLedger).values({
+        auth0UserId: currentBilling.auth0UserId,
+        virtfusionServerId: currentBilling.virtfusionServerId,
+        amountCents: usage.amountCents,
+        description: `Hourly usage (${usage.hours}h) - ${serverName}`,
+        idempotencyKey,
+      });
+
+      await tx.insert(walletTransactions).values({
+        auth0UserId: currentBilling.auth0UserId,
+        type: 'debit',
+        amountCents: -usage.amountCents,
+        metadata: {
+          serverId: currentBilling.virtfusionServerId,
+          serverName,
+          description: 'Hourly usage',
+          hours: usage.hours,
+          meteredFrom: meterState.meteredThrough.toISOString(),
+          meteredThrough: usage.meteredThrough.toISOString(),
+          ...(addons.length > 0 && { addonCount: addons.length }),
+          ...(options.reactivation && {
+            reactivation: true,
+            previousStatus: currentBilling.status,
+          }),
+        },
+      });
+    }
+
+    const nextBillAt = nextHourlySettlementAt(now);
+    const meterUpdate = {
+      hourlyMeteredThrough: usage.meteredThrough,
+      hourlyPeriodStart: usage.periodStart,
+      hourlyPeriodHours: usage.periodHours,
+    };
+    await tx.update(serverBilling)
+      .set({
+        ...meterUpdate,
+        status: 'paid',
+        nextBillAt,
+        suspendAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(serverBilling.id, currentBilling.id));
+
+    // No receipt email - a daily receipt per server would be noise; usage shows in the wallet
+    // history and each settlement is invoiced below
+    log(`Settled hourly server ${currentBilling.virtfusionServerId}: ${usage.hours}h, $${usage.amountCents / 100}${options.final ? ' (final)' : ''}`, 'billing');
+
+    return {
+      success: true,
+      chargedFresh: usage.amountCents > 0,
+      currentBilling: {
+        ...currentBilling,
+        ...meterUpdate,
+        status: 'paid',
+        nextBillAt,
+        suspendAt: null,
+        updatedAt: new Date(),
+      },
+      idempotencyKey,
+      serverName,
+      amountCents: usage.amountCents,
+      servicePeriod: { start: meterState.meteredThrough, end: usage.meteredThrough },
+    };
+  });
+
+  if (result.chargedFresh && result.idempotencyKey && result.servicePeriod) {
+    issueChargeInvoice({
+      auth0UserId: result.currentBilling.auth0UserId,
+      ledgerKey: result.idempotencyKey,
+      description: `Hourly usage - ${serverName}`,
+      virtfusionServerId: result.currentBilling.virtfusionServerId,
+      periodStart: result.servicePeriod.start,
+      periodEnd: result.servicePeriod.end,
+    }).catch(err => {
+      log(`Failed to invoice hourly settlement ${result.idempotencyKey}: ${err.message}`, 'billing');
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Settle an hourly server's usage so far and keep metering it. Used when a
+ * deletion is requested: the server runs until the deletion goes through, and
+ * the request can still be revoked.
+ */
+export async function settleHourlyUsage(
+  virtfusionServerId: string,
+): Promise<{ success: true; amountCents: number } | { success: false; amountCents: number }> {
+  const billing = await dbStorage.getServerBilling(virtfusionServerId);
+  if (!billing || billing.billingCycle !== 'hourly' || !billing.autoRenew) {
+    return { success: true, amountCents: 0 };
+  }
+
+  const result = await settleHourlyServer(billing);
+  if (!result.success) {
+    return { success: false, amountCents: result.amountCents ?? 0 };
+  }
+  return { success: true, amountCents: result.amountCents ?? 0 };
+}
+
+/**
+ * Stop metering an hourly server whose deletion has gone through: the usage up
+ * to now is settled (rounding the last hour up) and the record stops renewing,
+ * so later billing runs leave it alone until the cancellation removes it.
+ */
+export async function stopHourlyBilling(
+  virtfusionServerId: string,
+): Promise<{ success: true; amountCents: number } | { success: false; amountCents: number }> {
+  const billing = await dbStorage.getServerBilling(virtfusionServerId);
+  if (!billing || billing.billingCycle !== 'hourly' || !billing.autoRenew) {
+    return { success: true, amountCents: 0 };
+  }
+
+  const result = await settleHourlyServer(billing, { final: true });
+  if (!result.success) {
+    return { success: false, amountCents: result.amountCents ?? 0 };
+  }
+
+  await db.update(serverBilling)
+    .set({ autoRenew: false, updatedAt: new Date() })
+    .where(eq(serverBilling.id, billing.id));
+  log(`Stopped hourly billing for server ${virtfusionServerId}`, 'billing');
+
+  return { success: true, amountCents: result.amountCents ?? 0 };
 }
 
 async function refundFailedUnsuspendCharge(
   billing: typeof serverBilling.$inferSelect,
   idempotencyKey: string,
-  serverName: string
+  serverName: string,
+  amountCents: number
 ): Promise<void> {
   await db.transaction(async (tx) => {
     await tx.update(wallets)
       .set({
-        balanceCents: sql`${wallets.balanceCents} + ${billing.monthlyPriceCents}`,
+        balanceCents: sql`${wallets.balanceCents} + ${amountCents}`,
         updatedAt: new Date(),
       })
       .where(eq(wallets.auth0UserId, billing.auth0UserId));
@@ -334,7 +922,7 @@ async function refundFailedUnsuspendCharge(
     await tx.insert(walletTransactions).values({
       auth0UserId: billing.auth0UserId,
       type: 'refund',
-      amountCents: billing.monthlyPriceCents,
+      amountCents,
       metadata: {
         serverId: billing.virtfusionServerId,
         serverName,
@@ -342,10 +930,684 @@ async function refundFailedUnsuspendCharge(
       },
     });
 
-    await tx.delete(billingLedger).where(eq(billingLedger.idempotencyKey, idempotencyKey));
+    await deleteRenewalLedgerEntries(tx, idempotencyKey);
+    await tx.update(serverBilling)
+      .set({
+        status: 'suspended',
+        // Refunded hourly usage is metered again on the next settlement
+        ...(billing.billingCycle === 'hourly' && {
+          hourlyMeteredThrough: billing.hourlyMeteredThrough,
+          hourlyPeriodStart: billing.hourlyPeriodStart,
+          hourlyPeriodHours: billing.hourlyPeriodHours,
+        }),
+        updatedAt: new Date(),
+      })
+      .where(eq(serverBilling.id, billing.id));
+  });
+}
+
+// Charge an hourly server's usage so far at its current price before the price changes
+async function settleHourlyUsageBeforeChange(
+  billing: typeof serverBilling.$inferSelect,
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  if (billing.billingCycle !== 'hourly') {
+    return { ok: true };
+  }
+
+  const settled = await settleHourlyServer(billing);
+  if (!settled.success) {
+    return { ok: false, error: `Insufficient balance. Top up to settle ${formatCurrency(settled.amountCents ?? 0)} of hourly usage first.` };
+  }
+  return { ok: true };
+}
+
+// Move a server to a different plan mid-cycle.
+// The prorated difference is charged (or credited) first, then VirtFusion is
+// asked to resize; if the resize fails the billing change is reversed.
+export async function changeServerPlan(params: {
+  auth0UserId: string;
+  virtfusionServerId: string;
+  newPlan: Plan;
+}): Promise<
+  | { success: true; amountCents: number; previousPlanId: number; monthlyPriceCents: number }
+  | { success: false; error: string; status: number }
+> {
+  const { auth0UserId, virtfusionServerId, newPlan } = params;
+
+  const billing = await dbStorage.getServerBilling(virtfusionServerId);
+  if (!billing || billing.auth0UserId !== auth0UserId) {
+    return { success: false, error: 'Billing record not found for this server', status: 404 };
+  }
+
+  const currentPlan = await dbStorage.getPlanById(billing.planId);
+  if (!currentPlan) {
+    return { success: false, error: 'Current plan not found', status: 404 };
+  }
+
+  const eligibility = checkPlanChangeEligibility(billing, currentPlan, newPlan);
+  if (!eligibility.ok) {
+    return { success: false, error: eligibility.error, status: 400 };
+  }
+
+  const settled = await settleHourlyUsageBeforeChange(billing);
+  if (!settled.ok) {
+    return { success: false, error: settled.error, status: 400 };
+  }
+
+  const serverName = await getServerName(virtfusionServerId);
+  const now = new Date();
+  // Hourly servers have nothing paid in advance, so the new price is simply metered from now on
+  const { amountCents } = billing.billingCycle === 'hourly'
+    ? { amountCents: 0 }
+    : calculatePlanChangeProration({
+      currentPriceCents: termPriceCents(billing.monthlyPriceCents, billing.termMonths, billing.termDiscountPercent),
+      newPriceCents: termPriceCents(newPlan.priceMonthly, billing.termMonths, billing.termDiscountPercent),
+      nextBillAt: billing.nextBillAt,
+      termMonths: billing.termMonths,
+      now,
+    });
+  const idempotencyKey = `plan_change:${virtfusionServerId}:${currentPlan.id}:${newPlan.id}:${now.getTime()}`;
+  const description = `Plan change ${currentPlan.name} → ${newPlan.name} (prorated) - ${serverName}`;
+
+  const applied = await db.transaction(async (tx) => {
+    const [wallet] = await tx.select().from(wallets)
+      .where(eq(wallets.auth0UserId, auth0UserId))
+      .for('update')
+      .limit(1);
+
+    if (!wallet) {
+      return { ok: false as const, error: 'Wallet not found' };
+    }
+
+    // Re-check the plan under lock so two concurrent changes can't both apply
+    const [lockedBilling] = await tx.select().from(serverBilling)
+      .where(eq(serverBilling.id, billing.id))
+      .for('update')
+      .limit(1);
+
+    if (!lockedBilling || lockedBilling.planId !== currentPlan.id) {
+      return { ok: false as const, error: 'This server\'s plan was changed by another request. Please refresh and try again.' };
+    }
+
+    if (amountCents > 0 && wallet.balanceCents < amountCents) {
+      return { ok: false as const, error: `Insufficient balance. This change costs ${formatCurrency(amountCents)} for the rest of the billing period.` };
+    }
+
+    if (amountCents !== 0) {
+      await tx.update(wallets)
+        .set({
+          balanceCents: sql`${wallets.balanceCents} - ${amountCents}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(wallets.auth0UserId, auth0UserId));
+
+      await tx.insert(walletTransactions).values({
+        auth0UserId,
+        type: amountCents > 0 ? 'debit' : 'credit',
+        amountCents: -amountCents,
+        metadata: {
+          serverId: virtfusionServerId,
+          serverName,
+          description: amountCents > 0 ? 'Plan upgrade (prorated)' : 'Plan downgrade credit (prorated)',
+          fromPlanId: currentPlan.id,
+          toPlanId: newPlan.id,
+        },
+      });
+    }
+
+    await tx.insert(billingLedger).values({
+      auth0UserId,
+      virtfusionServerId,
+      amountCents,
+      description,
+      idempotencyKey,
+    });
+
     await tx.update(serverBilling)
-      .set({ status: 'suspended', updatedAt: new Date() })
+      .set({
+        planId: newPlan.id,
+        monthlyPriceCents: newPlan.priceMonthly,
+        updatedAt: new Date(),
+      })
       .where(eq(serverBilling.id, billing.id));
+
+    return { ok: true as const };
+  });
+
+  if (!applied.ok) {
+    return { success: false, error: applied.error, status: 400 };
+  }
+
+  try {
+    await virtfusionClient.changeServerPackage(parseInt(virtfusionServerId, 10), newPlan.virtfusionPackageId!);
+  } catch (error: any) {
+    log(`Plan change for server ${virtfusionServerId} failed at VirtFusion, reversing billing: ${error.message}`, 'billing');
+
+    await db.transaction(async (tx) => {
+      if (amountCents !== 0) {
+        await tx.update(wallets)
+          .set({
+            balanceCents: sql`${wallets.balanceCents} + ${amountCents}`,
+            updatedAt: new Date(),
+          })
+          .where(eq(wallets.auth0UserId, auth0UserId));
+
+        await tx.insert(walletTransactions).values({
+          auth0UserId,
+          type: amountCents > 0 ? 'refund' : 'debit',
+          amountCents,
+          metadata: {
+            serverId: virtfusionServerId,
+            serverName,
+            reason: 'Plan change failed - automatic reversal',
+          },
+        });
+      }
+
+      await tx.delete(billingLedger).where(eq(billingLedger.idempotencyKey, idempotencyKey));
+      await tx.update(serverBilling)
+        .set({
+          planId: currentPlan.id,
+          monthlyPriceCents: billing.monthlyPriceCents,
+          updatedAt: new Date(),
+        })
+        .where(eq(serverBilling.id, billing.id));
+    });
+
+    return { success: false, error: 'The server could not be resized. No charge has been made.', status: 502 };
+  }
+
+  log(`Server ${virtfusionServerId} moved from plan ${currentPlan.id} to ${newPlan.id}, prorated ${amountCents} cents`, 'billing');
+
+  return {
+    success: true,
+    amountCents,
+    previousPlanId: currentPlan.id,
+    monthlyPriceCents: newPlan.priceMonthly,
+  };
+}
+
+// Buy an additional IPv4 address or IPv6 prefix for a server.
+// The rest of the current billing period is charged straight away, like a plan
+// upgrade; from the next renewal the add-on is billed with the server. VirtFusion
+// allocates the address afterwards and the charge is reversed if it can't.
+export async function purchaseIpAddon(params: {
+  auth0UserId: string;
+  virtfusionServerId: string;
+  type: ServerAddonType;
+}): Promise<
+  | { success: true; addon: ServerAddon; amountCents: number }
+  | { success: false; error: string; status: number }
+> {
+  const { auth0UserId, virtfusionServerId, type } = params;
+
+  const billing = await dbStorage.getServerBilling(virtfusionServerId);
+  if (!billing || billing.auth0UserId !== auth0UserId) {
+    return { success: false, error: 'Billing record not found for this server', status: 404 };
+  }
+
+  const settings = await dbStorage.getIpAddonSettings();
+  const activeAddons = await dbStorage.getActiveServerAddons(virtfusionServerId);
+  const eligibility = checkIpAddonPurchase(type, billing, activeAddons, settings);
+  if (!eligibility.ok) {
+    return { success: false, error: eligibility.error, status: 400 };
+  }
+
+  const settled = await settleHourlyUsageBeforeChange(billing);
+  if (!settled.ok) {
+    return { success: false, error: settled.error, status: 400 };
+  }
+
+  const ipBlockId = ipAddonBlockId(settings, type)!;
+  const monthlyPriceCents = ipAddonPriceCents(settings, type);
+  const label = ipAddonLabel(type);
+  const serverName = await getServerName(virtfusionServerId);
+  const now = new Date();
+  // On hourly servers the add-on is metered with the server from now on
+  const { amountCents } = billing.billingCycle === 'hourly'
+    ? { amountCents: 0 }
+    : calculatePlanChangeProration({
+      currentPriceCents: 0,
+      newPriceCents: monthlyPriceCents * billing.termMonths,
+      nextBillAt: billing.nextBillAt,
+      termMonths: billing.termMonths,
+      now,
+    });
+  const idempotencyKey = `addon:${virtfusionServerId}:${type}:${now.getTime()}`;
+
+  const applied = await db.transaction(async (tx) => {
+    const [wallet] = await tx.select().from(wallets)
+      .where(eq(wallets.auth0UserId, auth0UserId))
+      .for('update')
+      .limit(1);
+
+    if (!wallet) {
+      return { ok: false as const, error: 'Wallet not found' };
+    }
+
+    // Re-count under the wallet lock so concurrent purchases can't exceed the cap
+    const lockedAddons = await tx.select().from(serverAddons)
+      .where(and(
+        eq(serverAddons.virtfusionServerId, virtfusionServerId),
+        eq(serverAddons.status, 'active'),
+      ));
+    const lockedEligibility = checkIpAddonPurchase(type, billing, lockedAddons, settings);
+    if (!lockedEligibility.ok) {
+      return { ok: false as const, error: lockedEligibility.error };
+    }
+
+    if (wallet.balanceCents < amountCents) {
+      return { ok: false as const, error: `Insufficient balance. This add-on costs ${formatCurrency(amountCents)} for the rest of the billing period.` };
+    }
+
+    const [addon] = await tx.insert(serverAddons).values({
+      auth0UserId,
+      virtfusionServerId,
+      type,
+      virtfusionIpBlockId: ipBlockId,
+      monthlyPriceCents,
+    }).returning();
+
+    if (amountCents > 0) {
+      await tx.update(wallets)
+        .set({
+          balanceCents: sql`${wallets.balanceCents} - ${amountCents}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(wallets.auth0UserId, auth0UserId));
+
+      await tx.insert(walletTransactions).values({
+        auth0UserId,
+        type: 'debit',
+        amountCents: -amountCents,
+        metadata: {
+          serverId: virtfusionServerId,
+          serverName,
+          description: `${label} (prorated)`,
+          addonId: addon.id,
+        },
+      });
+    }
+
+    await tx.insert(billingLedger).values({
+      auth0UserId,
+      virtfusionServerId,
+      amountCents,
+      description: `${label} (prorated) - ${serverName}`,
+      idempotencyKey,
+    });
+
+    return { ok: true as const, addon };
+  });
+
+  if (!applied.ok) {
+    return { success: false, error: applied.error, status: 400 };
+  }
+
+  let address: string | null;
+  try {
+    address = type === 'ipv4'
+      ? await virtfusionClient.addServerIpv4(virtfusionServerId, ipBlockId)
+      : await virtfusionClient.addServerIpv6Subnet(virtfusionServerId, ipBlockId, IPV6_ADDON_PREFIX_LENGTH);
+  } catch (error: any) {
+    log(`IP add-on for server ${virtfusionServerId} failed at VirtFusion, reversing billing: ${error.message}`, 'billing');
+
+    await db.transaction(async (tx) => {
+      if (amountCents > 0) {
+        await tx.update(wallets)
+          .set({
+            balanceCents: sql`${wallets.balanceCents} + ${amountCents}`,
+            updatedAt: new Date(),
+          })
+          .where(eq(wallets.auth0UserId, auth0UserId));
+
+        await tx.insert(walletTransactions).values({
+          auth0UserId,
+          type: 'refund',
+          amountCents,
+          metadata: {
+            serverId: virtfusionServerId,
+            serverName,
+            reason: 'IP add-on allocation failed - automatic reversal',
+          },
+        });
+      }
+
+      await tx.delete(billingLedger).where(eq(billingLedger.idempotencyKey, idempotencyKey));
+      await tx.delete(serverAddons).where(eq(serverAddons.id, applied.addon.id));
+    });
+
+    return { success: false, error: 'No address could be allocated right now. No charge has been made.', status: 502 };
+  }
+
+  if (address) {
+    await dbStorage.setServerAddonAddress(applied.addon.id, address);
+  }
+
+  log(`Server ${virtfusionServerId} added ${type} add-on ${applied.addon.id} (${address ?? 'address pending'}), prorated ${amountCents} cents`, 'billing');
+
+  // The prorated charge covers the rest of the current billing period
+  issueChargeInvoice({
+    auth0UserId,
+    ledgerKey: idempotencyKey,
+    description: `${label} (prorated) - ${serverName}`,
+    virtfusionServerId,
+    periodStart: now,
+    periodEnd: billing.nextBillAt,
+  }).catch(err => {
+    log(`Failed to invoice IP add-on ${idempotencyKey}: ${err.message}`, 'billing');
+  });
+
+  return { success: true, addon: { ...applied.addon, address }, amountCents };
+}
+
+// Cancel an add-on and release its address. Nothing is refunded for the rest of the
+// period; the add-on simply isn't included in the next renewal.
+export async function cancelIpAddon(params: {
+  auth0UserId: string;
+  virtfusionServerId: string;
+  addonId: number;
+}): Promise<
+  | { success: true; addon: ServerAddon }
+  | { success: false; error: string; status: number }
+> {
+  const { auth0UserId, virtfusionServerId, addonId } = params;
+
+  const addon = await dbStorage.getServerAddon(addonId);
+  if (!addon || addon.auth0UserId !== auth0UserId || addon.virtfusionServerId !== virtfusionServerId || addon.status !== 'active') {
+    return { success: false, error: 'Add-on not found', status: 404 };
+  }
+
+  // On hourly servers the add-on's hours since the last settlement are billed before it goes
+  const billing = await dbStorage.getServerBilling(virtfusionServerId);
+  if (billing && billing.auth0UserId === auth0UserId) {
+    const settled = await settleHourlyUsageBeforeChange(billing);
+    if (!settled.ok) {
+      return { success: false, error: settled.error, status: 400 };
+    }
+  }
+
+  if (addon.address) {
+    try {
+      if (addon.type === 'ipv4') {
+        await virtfusionClient.removeServerIpv4(virtfusionServerId, addon.address);
+      } else {
+        await virtfusionClient.removeServerIpv6Subnet(virtfusionServerId, addon.address);
+      }
+    } catch (error: any) {
+      return { success: false, error: 'The address could not be released right now. Please try again shortly.', status: 502 };
+    }
+  }
+
+  const cancelled = await dbStorage.cancelServerAddon(addon.id);
+  if (!cancelled) {
+    return { success: false, error: 'Add-on not found', status: 404 };
+  }
+
+  log(`Server ${virtfusionServerId} cancelled ${addon.type} add-on ${addon.id} (${addon.address ?? 'no address'})`, 'billing');
+  return { success: true, addon: { ...addon, status: 'cancelled', cancelledAt: new Date() } };
+}
+
+// Retry a VirtFusion call that runs after the database has committed, where a
+// transaction rollback can no longer undo anything. Returns false once every attempt failed.
+async function retryVirtFusionCall(description: string, call: () => Promise<unknown>): Promise<boolean> {
+  for (let attempt = 1; attempt <= 3; attempt++) {
+    try {
+      await call();
+      return true;
+    } catch (error: any) {
+      log(`${description} attempt ${attempt}/3 failed: ${error.message}`, 'billing');
+      if (attempt < 3) {
+        await new Promise(resolve => setTimeout(resolve, 2000));
+      }
+    }
+  }
+  return false;
+}
+
+// Hand a server to the recipient of an accepted transfer offer.
+// Billing and any cancellation request follow the server to its new owner;
+// schedules, alert rules and labels belong to the previous owner (and notify
+// them), so they are removed. The database is committed before VirtFusion is
+// moved; if VirtFusion can't be moved the billing goes back to the sender and
+// the offer is reopened, so the two never disagree about who pays.
+export async function completeServerTransfer(
+  offerId: number,
+  recipient: { auth0UserId: string; virtFusionUserId: number },
+): Promise<
+  | { success: true; transfer: ServerOwnershipTransfer }
+  | { success: false; error: string; status: number }
+> {
+  // The sender pays for hourly usage up to the handoff, so none of it reaches the recipient's wallet
+  const [pending] = await db.select().from(serverOwnershipTransfers)
+    .where(eq(serverOwnershipTransfers.id, offerId))
+    .limit(1);
+  if (pending && isServerTransferOpen(pending)) {
+    const [current] = await db.select().from(serverBilling)
+      .where(eq(serverBilling.virtfusionServerId, pending.virtfusionServerId))
+      .limit(1);
+    if (current && current.auth0UserId === pending.fromAuth0UserId) {
+      const settled = await settleHourlyUsageBeforeChange(current);
+      if (!settled.ok) {
+        return { success: false, error: "The server's hourly usage so far couldn't be settled on the sender's account. Please try again later.", status: 409 };
+      }
+    }
+  }
+
+  const failed = { success: false as const, error: 'Unable to transfer the server right now. Please try again shortly.', status: 502 };
+
+  let claimed;
+  try {
+    claimed = await db.transaction(async (tx) => {
+      const [offer] = await tx.select().from(serverOwnershipTransfers)
+        .where(eq(serverOwnershipTransfers.id, offerId))
+        .for('update')
+        .limit(1);
+
+      if (!offer || !isServerTransferOpen(offer)) {
+        return { success: false as const, error: 'This transfer offer is no longer available.', status: 409 };
+      }
+
+      const [billing] = await tx.select().from(serverBilling)
+        .where(eq(serverBilling.virtfusionServerId, offer.virtfusionServerId))
+        .for('update')
+        .limit(1);
+
+      if (!billing || billing.auth0UserId !== offer.fromAuth0UserId) {
+        return { success: false as const, error: 'The sender no longer owns this server.', status: 409 };
+      }
+      const eligibility = checkServerTransferEligibility(billing);
+      if (!eligibility.ok) {
+        return { success: false as const, error: eligibility.error, status: 409 };
+      }
+
+      await moveServerRecords(tx, offer.virtfusionServerId, offer.fromAuth0UserId, recipient.auth0UserId);
+
+      const [accepted] = await tx.update(serverOwnershipTransfers)
+        .set({ status: 'accepted', toAuth0UserId: recipient.auth0UserId, respondedAt: new Date() })
+        .where(eq(serverOwnershipTransfers.id, offer.id))
+        .returning();
+
+      return { success: true as const, offer, accepted };
+    });
+  } catch (error: any) {
+    log(`Transfer offer ${offerId} could not be completed: ${error.message}`, 'billing');
+    return failed;
+  }
+
+  if (!claimed.success) {
+    return claimed;
+  }
+
+  const { offer, accepted } = claimed;
+  const serverId = offer.virtfusionServerId;
+
+  const moved = await retryVirtFusionCall(`Moving server ${serverId} to VirtFusion user ${recipient.virtFusionUserId}`, async () => {
+    if (!await virtfusionClient.transferServerOwnership(parseInt(serverId, 10), recipient.virtFusionUserId)) {
+      throw new Error('VirtFusion ownership change failed');
+    }
+  });
+
+  if (!moved) {
+    try {
+      await db.transaction(async (tx) => {
+        await moveServerRecords(tx, serverId, recipient.auth0UserId, offer.fromAuth0UserId);
+        await tx.update(serverOwnershipTransfers)
+          .set({ status: 'pending', toAuth0UserId: null, respondedAt: null })
+          .where(eq(serverOwnershipTransfers.id, offer.id));
+      });
+      log(`Transfer offer ${offer.id} reopened: VirtFusion could not move server ${serverId}`, 'billing');
+    } catch (error: any) {
+      log(`CRITICAL: server ${serverId} is billed to ${recipient.auth0UserId} but still owned by the sender in VirtFusion (offer ${offer.id}): ${error.message}`, 'billing');
+    }
+    return failed;
+  }
+
+  log(`Server ${serverId} transferred from ${offer.fromAuth0UserId} to ${recipient.auth0UserId} (offer ${offer.id})`, 'billing');
+  await clearSenderServerState(serverId).catch(err => {
+    log(`Could not tidy up transferred server ${serverId}: ${err.message}`, 'billing');
+  });
+  return { success: true, transfer: accepted };
+}
+
+// Point a server's billing, cancellation request, transfer usage and add-ons at another account.
+// Used to hand the server over, and in reverse when VirtFusion can't be moved.
+async function moveServerRecords(tx: BillingTx, serverId: string, fromAuth0UserId: string, toAuth0UserId: string): Promise<void> {
+  const now = new Date();
+
+  await tx.update(serverBilling)
+    .set({ auth0UserId: toAuth0UserId, updatedAt: now })
+    .where(and(eq(serverBilling.virtfusionServerId, serverId), eq(serverBilling.auth0UserId, fromAuth0UserId)));
+
+  await tx.update(serverCancellations)
+    .set({ auth0UserId: toAuth0UserId })
+    .where(and(
+      eq(serverCancellations.virtfusionServerId, serverId),
+      eq(serverCancellations.auth0UserId, fromAuth0UserId),
+    ));
+
+  await tx.update(serverTransferUsage)
+    .set({ auth0UserId: toAuth0UserId, updatedAt: now })
+    .where(eq(serverTransferUsage.virtfusionServerId, serverId));
+
+  // Add-ons are part of the server and keep renewing with it for the new owner
+  await tx.update(serverAddons)
+    .set({ auth0UserId: toAuth0UserId })
+    .where(and(eq(serverAddons.virtfusionServerId, serverId), eq(serverAddons.status, 'active')));
+}
+
+// Remove what the previous owner set up on a server that has just changed hands. Each VirtFusion
+// change is recorded only once it has gone through; a rescue session that couldn't be ended is
+// still returned to normal boot by the rescue processor when it expires.
+async function clearSenderServerState(serverId: string): Promise<void> {
+  try {
+    await db.transaction(async (tx) => {
+      await tx.delete(scheduledPowerActionRuns).where(eq(scheduledPowerActionRuns.virtfusionServerId, serverId));
+      await tx.delete(scheduledPowerActions).where(eq(scheduledPowerActions.virtfusionServerId, serverId));
+      await tx.delete(serverAlertEvents).where(eq(serverAlertEvents.virtfusionServerId, serverId));
+      await tx.delete(serverAlertRules).where(eq(serverAlertRules.virtfusionServerId, serverId));
+      await tx.delete(serverLabels).where(eq(serverLabels.virtfusionServerId, serverId));
+    });
+  } catch (error: any) {
+    log(`Could not remove the previous owner's schedules, alerts and labels from server ${serverId}: ${error.message}`, 'billing');
+  }
+
+  // The sender knows the rescue root password, so the server leaves rescue
+  const rescue = await dbStorage.getActiveRescueSession(serverId);
+  if (rescue && await retryVirtFusionCall(`Returning transferred server ${serverId} to normal boot`, () => virtfusionClient.exitRescueMode(serverId))) {
+    await db.update(serverRescueSessions)
+      .set({ endedAt: new Date(), endReason: 'transferred' })
+      .where(and(eq(serverRescueSessions.id, rescue.id), isNull(serverRescueSessions.endedAt)));
+  }
+
+  // An ISO the sender mounted may be one they uploaded privately, so it doesn't go with the server,
+  // and the boot order they chose is put back to the default
+  const media = await dbStorage.getServerMedia(serverId);
+  if (media) {
+    const unmounted = !media.isoImageId
+      || await retryVirtFusionCall(`Unmounting the ISO from transferred server ${serverId}`, () => virtfusionClient.unmountIso(serverId));
+    const bootOrderReset = await retryVirtFusionCall(`Resetting the boot order of transferred server ${serverId}`, () => virtfusionClient.setBootOrder(serverId, DEFAULT_BOOT_ORDER));
+    await dbStorage.upsertServerMedia(serverId, {
+      ...(unmounted && { isoImageId: null }),
+      ...(bootOrderReset && { bootOrder: DEFAULT_BOOT_ORDER }),
+    });
+  }
+}
+
+// Charge transfer used beyond a server's allowance to the wallet. The idempotency key
+// covers the running GB total for the period, so a retry can never bill the same GB twice.
+export async function chargeTransferOverage(params: {
+  usage: ServerTransferUsage;
+  gb: number;
+  pricePerGbCents: number;
+  serverName: string;
+}): Promise<{ success: boolean; amountCents: number }> {
+  const { usage, gb, pricePerGbCents, serverName } = params;
+  const amountCents = gb * pricePerGbCents;
+  const billedGbAfter = usage.overageBilledGb + gb;
+
+  return await db.transaction(async (tx) => {
+    const walletRows = await tx.select().from(wallets)
+      .where(eq(wallets.auth0UserId, usage.auth0UserId))
+      .for('update')
+      .limit(1);
+
+    if (walletRows.length === 0) {
+      log(`No wallet found for user ${usage.auth0UserId}`, 'billing');
+      return { success: false, amountCents };
+    }
+
+    const idempotencyKey = `overage:${usage.virtfusionServerId}:${usage.period}:${billedGbAfter}`;
+    const existing = await tx.select().from(billingLedger)
+      .where(eq(billingLedger.idempotencyKey, idempotencyKey))
+      .limit(1);
+
+    if (existing.length === 0) {
+      if (walletRows[0].balanceCents < amountCents) {
+        log(`Insufficient balance for transfer overage on server ${usage.virtfusionServerId}: need ${amountCents}, have ${walletRows[0].balanceCents}`, 'billing');
+        return { success: false, amountCents };
+      }
+
+      if (amountCents > 0) {
+        await tx.update(wallets)
+          .set({
+            balanceCents: walletRows[0].balanceCents - amountCents,
+            updatedAt: new Date(),
+          })
+          .where(eq(wallets.auth0UserId, usage.auth0UserId));
+      }
+
+      await tx.insert(billingLedger).values({
+        auth0UserId: usage.auth0UserId,
+        virtfusionServerId: usage.virtfusionServerId,
+        amountCents,
+        description: `Transfer overage (${gb} GB) - ${serverName}`,
+        idempotencyKey,
+      });
+
+      if (amountCents > 0) {
+        await tx.insert(walletTransactions).values({
+          auth0UserId: usage.auth0UserId,
+          type: 'debit',
+          amountCents: -amountCents,
+          metadata: {
+            serverId: usage.virtfusionServerId,
+            serverName,
+            description: 'Transfer overage',
+            overageGb: gb,
+            period: usage.period,
+          },
+        });
+      }
+
+      log(`Charged server ${usage.virtfusionServerId} transfer overage: ${gb} GB, $${amountCents / 100}`, 'billing');
+    }
+
+    await tx.update(serverTransferUsage)
+      .set({ overageBilledGb: billedGbAfter, updatedAt: new Date() })
+      .where(eq(serverTransferUsage.id, usage.id));
+
+    return { success: true, amountCents };
   });
 }
 
@@ -518,7 +1780,7 @@ export async function runBillingJob(): Promise<BillingJobResult> {
 
       // If charge failed due to insufficient balance, try auto top-up then retry once
       if (!chargeResult.success) {
-        const autoTopupOk = await attemptAutoTopup(billing.auth0UserId, billing.monthlyPriceCents);
+        const autoTopupOk = await attemptAutoTopup(billing.auth0UserId, chargeResult.amountCents ?? billing.monthlyPriceCents);
         if (autoTopupOk) {
           chargeResult = await chargeServer(billing);
           if (chargeResult.success) {
@@ -556,7 +1818,7 @@ export async function runBillingJob(): Promise<BillingJobResult> {
               await sendPaymentFailedEmail(
                 email,
                 serverName,
-                formatCurrency(billing.monthlyPriceCents),
+                formatCurrency(chargeResult.amountCents ?? billing.monthlyPriceCents),
                 formatDate(suspendAt),
                 7 // days until suspension
               );
@@ -650,8 +1912,9 @@ export async function runBillingJob(): Promise<BillingJobResult> {
           } catch (unsuspendErr: any) {
             log(`Could not unsuspend server ${billing.virtfusionServerId} after charge: ${unsuspendErr.message}`, 'billing');
             if (chargeAttempt.chargedFresh && chargeAttempt.idempotencyKey && chargeAttempt.serverName) {
-              await refundFailedUnsuspendCharge(billing, chargeAttempt.idempotencyKey, chargeAttempt.serverName);
-              log(`Refunded ${billing.monthlyPriceCents} cents for server ${billing.virtfusionServerId} due to background unsuspend failure`, 'billing');
+              const refundCents = chargeAttempt.amountCents ?? billing.monthlyPriceCents;
+              await refundFailedUnsuspendCharge(billing, chargeAttempt.idempotencyKey, chargeAttempt.serverName, refundCents);
+              log(`Refunded ${refundCents} cents for server ${billing.virtfusionServerId} due to background unsuspend failure`, 'billing');
             }
           }
         }
@@ -713,7 +1976,7 @@ export async function runBillingJob(): Promise<BillingJobResult> {
           await sendServerSuspendedEmail(
             email,
             serverName,
-            formatCurrency(latestBilling.monthlyPriceCents)
+            formatCurrency(await getRenewalAmountCents(latestBilling))
           );
         }
       } catch (emailError: any) {
@@ -751,10 +2014,9 @@ export async function forceChargeServer(virtfusionServerId: string): Promise<{ s
 
   const idempotencyKey = `bill:${billing.virtfusionServerId}:${billing.nextBillAt.toISOString()}`;
 
-  // Delete any existing ledger entry for this billing period so we can charge fresh
-  const deleted = await db.delete(billingLedger)
-    .where(eq(billingLedger.idempotencyKey, idempotencyKey))
-    .returning();
+  // Delete any existing ledger entry for this billing period so we can charge fresh.
+  // The invoice for the earlier charge is voided, leaving the fresh charge's invoice as the one for the period.
+  const deleted = await db.transaction((tx) => deleteRenewalLedgerEntries(tx, idempotencyKey));
 
   if (deleted.length > 0) {
     log(`Force charge: deleted stale ledger entry for server ${virtfusionServerId} (key: ${idempotencyKey})`, 'billing');
@@ -762,11 +2024,12 @@ export async function forceChargeServer(virtfusionServerId: string): Promise<{ s
 
   // Now charge fresh — this will deduct the wallet
   const charged = await chargeServer(billing);
+  const amountCents = charged.amountCents ?? billing.monthlyPriceCents;
   if (charged.success) {
     log(`Force charge: server ${virtfusionServerId} charged successfully`, 'billing');
-    return { success: true, message: `Charged — $${(billing.monthlyPriceCents / 100).toFixed(2)} deducted from wallet` };
+    return { success: true, message: `Charged — $${(amountCents / 100).toFixed(2)} deducted from wallet` };
   } else {
-    return { success: false, message: `Charge failed — insufficient wallet balance ($${(billing.monthlyPriceCents / 100).toFixed(2)} required)` };
+    return { success: false, message: `Charge failed — insufficient wallet balance ($${(amountCents / 100).toFixed(2)} required)` };
   }
 }
 
@@ -794,6 +2057,7 @@ async function cleanupOrphanedBillingRecords(): Promise<void> {
       if (error.message?.includes('404') || error.message?.includes('not found') || error.message?.includes('Not Found')) {
         // Delete the billing record
         await db.delete(serverBilling).where(eq(serverBilling.id, record.id));
+        await dbStorage.cancelAddonsForServer(record.virtfusionServerId);
         log(`Cleaned up orphaned billing record ${record.id} for deleted server ${record.virtfusionServerId}`, 'billing');
         cleaned++;
       }
@@ -810,14 +2074,15 @@ async function cleanupOrphanedBillingRecords(): Promise<void> {
 // suspension warnings for servers that have been unpaid for 2+ days.
 export async function sendBillingReminders(): Promise<void> {
   const now = new Date();
-  const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+  const dayMs = 24 * 60 * 60 * 1000;
+  const reminderHorizon = new Date(now.getTime() + TERM_REMINDER_LEAD_DAYS * dayMs);
   const twoDaysAgo = new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000);
   const threeDaysAgo = new Date(now.getTime() - 3 * 24 * 60 * 60 * 1000);
   // Only send one reminder per server per day — billing job runs every 10 minutes
   // so without this guard each server would get ~144 emails per day
   const twentyHoursAgo = new Date(now.getTime() - 20 * 60 * 60 * 1000);
 
-  const serversDueSoon = await db.select().from(serverBilling)
+  const serversInHorizon = await db.select().from(serverBilling)
     .where(
       and(
         or(
@@ -826,8 +2091,10 @@ export async function sendBillingReminders(): Promise<void> {
         ),
         eq(serverBilling.autoRenew, true),
         eq(serverBilling.freeServer, false),
+        // Hourly servers settle every day, so a "due tomorrow" reminder would go out daily
+        eq(serverBilling.billingCycle, 'monthly'),
         gte(serverBilling.nextBillAt, now),
-        lt(serverBilling.nextBillAt, tomorrow),
+        lt(serverBilling.nextBillAt, reminderHorizon),
         // Skip if we already sent a reminder in the last 20 hours
         or(
           isNull(serverBilling.lastReminderSentAt),
@@ -836,7 +2103,14 @@ export async function sendBillingReminders(): Promise<void> {
       )
     );
 
-  log(`Found ${serversDueSoon.length} servers due in the next 24 hours for reminders`, 'billing');
+  // Monthly servers are reminded the day before; prepaid terms a week ahead, once per term
+  const serversDueSoon = serversInHorizon.filter((billing) => {
+    const remindFrom = billing.nextBillAt.getTime() - reminderLeadDays(billing.termMonths) * dayMs;
+    if (now.getTime() < remindFrom) return false;
+    return !billing.lastReminderSentAt || billing.lastReminderSentAt.getTime() < remindFrom;
+  });
+
+  log(`Found ${serversDueSoon.length} servers due for renewal reminders`, 'billing');
 
   for (const billing of serversDueSoon) {
     try {
@@ -853,7 +2127,7 @@ export async function sendBillingReminders(): Promise<void> {
       await sendBillingReminderEmail(
         email,
         serverName,
-        formatCurrency(billing.monthlyPriceCents),
+        formatCurrency(await getRenewalAmountCents(billing)),
         formatDate(billing.nextBillAt),
         formatCurrency(walletBalance)
       );
@@ -906,7 +2180,7 @@ export async function sendBillingReminders(): Promise<void> {
       await sendPaymentFailedEmail(
         email,
         serverName,
-        formatCurrency(billing.monthlyPriceCents),
+        formatCurrency(await getRenewalAmountCents(billing)),
         formatDate(billing.suspendAt),
         daysUntilSuspension
       );
@@ -952,8 +2226,7 @@ export async function retryUnpaidServers(auth0UserId: string): Promise<void> {
       if (chargeResult.success) {
         // Always advance nextBillAt to 1 month from now on reactivation, even if
         // another process already settled the billing period.
-        const newNextBillAt = addMonth(new Date());
-        newNextBillAt.setUTCHours(0, 0, 0, 0); // Normalize to midnight UTC
+        const newNextBillAt = reactivationNextBillAt(billing);
         await db.update(serverBilling)
           .set({ status: 'paid', nextBillAt: newNextBillAt, suspendAt: null, updatedAt: new Date() })
           .where(eq(serverBilling.id, billing.id));
@@ -979,8 +2252,9 @@ export async function retryUnpaidServers(auth0UserId: string): Promise<void> {
           if (!unsuspendSuccess) {
             if (chargeResult.chargedFresh && chargeResult.idempotencyKey && chargeResult.serverName) {
               log(`All unsuspend attempts failed for server ${billing.virtfusionServerId}. Refunding charge and reverting status.`, 'billing');
-              await refundFailedUnsuspendCharge(billing, chargeResult.idempotencyKey, chargeResult.serverName);
-              log(`Refunded ${billing.monthlyPriceCents} cents for server ${billing.virtfusionServerId} due to unsuspend failure`, 'billing');
+              const refundCents = chargeResult.amountCents ?? billing.monthlyPriceCents;
+              await refundFailedUnsuspendCharge(billing, chargeResult.idempotencyKey, chargeResult.serverName, refundCents);
+              log(`Refunded ${refundCents} cents for server ${billing.virtfusionServerId} due to unsuspend failure`, 'billing');
             } else {
               log(`All unsuspend attempts failed for server ${billing.virtfusionServerId}, but no fresh charge was created so no refund was issued`, 'billing');
             }
@@ -1025,8 +2299,7 @@ export async function retryServerBilling(auth0UserId: string, virtfusionServerId
     const chargeResult = await chargeServer(billing, true);
 
     if (chargeResult.success) {
-      const newNextBillAt = addMonth(new Date());
-      newNextBillAt.setUTCHours(0, 0, 0, 0);
+      const newNextBillAt = reactivationNextBillAt(billing);
       await db.update(serverBilling)
         .set({ status: 'paid', nextBillAt: newNextBillAt, suspendAt: null, updatedAt: new Date() })
         .where(eq(serverBilling.id, billing.id));
@@ -1051,8 +2324,9 @@ export async function retryServerBilling(auth0UserId: string, virtfusionServerId
         if (!unsuspendSuccess) {
           if (chargeResult.chargedFresh && chargeResult.idempotencyKey && chargeResult.serverName) {
             log(`All unsuspend attempts failed for server ${billing.virtfusionServerId}. Refunding charge and reverting status.`, 'billing');
-            await refundFailedUnsuspendCharge(billing, chargeResult.idempotencyKey, chargeResult.serverName);
-            log(`Refunded ${billing.monthlyPriceCents} cents for server ${billing.virtfusionServerId} due to unsuspend failure`, 'billing');
+            const refundCents = chargeResult.amountCents ?? billing.monthlyPriceCents;
+            await refundFailedUnsuspendCharge(billing, chargeResult.idempotencyKey, chargeResult.serverName, refundCents);
+            log(`Refunded ${refundCents} cents for server ${billing.virtfusionServerId} due to unsuspend failure`, 'billing');
           } else {
             log(`All unsuspend attempts failed for server ${billing.virtfusionServerId}, but no fresh charge was created so no refund was issued`, 'billing');
           }
@@ -1161,7 +2435,29 @@ export async function getUpcomingCharges(auth0UserId: string) {
     )
     .orderBy(serverBilling.nextBillAt);
 
-  return upcoming;
+  // Active add-ons renew with their server, so each charge carries them and what the next
+  // renewal will cost for the server's term. Hourly servers also carry the usage accrued
+  // since their last daily settlement.
+  const addons = await dbStorage.getActiveAddonsForUser(auth0UserId);
+  const now = new Date();
+  return upcoming.map(billing => {
+    const serverAddonRows = addons.filter(addon => addon.virtfusionServerId === billing.virtfusionServerId);
+    const addonsMonthlyCents = addonMonthlyTotalCents(serverAddonRows);
+    const accruedCents = billing.billingCycle === 'hourly' && !billing.freeServer
+      ? meterHourlyUsage({
+        ...hourlyMeterState(billing),
+        monthlyPriceCents: billing.monthlyPriceCents + addonsMonthlyCents,
+        now,
+      }).amountCents
+      : null;
+    return {
+      ...billing,
+      addons: serverAddonRows,
+      addonsMonthlyCents,
+      accruedCents,
+      renewalCents: billing.billingCycle === 'hourly' ? null : termRenewalCents(billing, addonsMonthlyCents),
+    };
+  });
 }
 
 // Get billing ledger for a user
@@ -2,6 +2,7 @@ import { dbStorage } from "./storage";
 import { virtfusionClient } from "./virtfusion";
 import { log } from './log';
 import { db } from "./db";
+import { stopHourlyBilling } from "./billing";
 import { serverBilling, serverCancellations } from "../shared/schema";
 import { eq, and, lte } from "drizzle-orm";
 import {
@@ -68,6 +69,7 @@ async function cleanupOrphanedCancellations(): Promise<number> {
         try {
           await db.delete(serverBilling)
             .where(eq(serverBilling.virtfusionServerId, cancellation.virtfusionServerId));
+          await dbStorage.cancelAddonsForServer(cancellation.virtfusionServerId);
           log(`Removed billing record for deleted server ${cancellation.virtfusionServerId}`, 'billing');
         } catch (billingError: any) {
           log(`Warning: Could not remove billing record for server ${cancellation.virtfusionServerId}: ${billingError.message}`, 'billing');
@@ -85,7 +87,7 @@ async function cleanupOrphanedCancellations(): Promise<number> {
 }
 
 // Phase 1: Process pending cancellations - submit deletion to VirtFusion
-async function processPendingCancellations(): Promise<{ submitted: number; errors: number }> {
+export async function processPendingCancellations(): Promise<{ submitted: number; errors: number }> {
   const now = new Date();
   let submitted = 0;
   let errors = 0;
@@ -117,6 +119,7 @@ async function processPendingCancellations(): Promise<{ submitted: number; error
           try {
             await db.delete(serverBilling)
               .where(eq(serverBilling.virtfusionServerId, cancellation.virtfusionServerId));
+            await dbStorage.cancelAddonsForServer(cancellation.virtfusionServerId);
             log(`Removed billing record for deleted server ${cancellation.virtfusionServerId}`, 'billing');
           } catch (billingError: any) {
             log(`Warning: Could not remove billing record for server ${cancellation.virtfusionServerId}: ${billingError.message}`, 'billing');
@@ -128,6 +131,13 @@ async function processPendingCancellations(): Promise<{ submitted: number; error
         
         // Call VirtFusion delete API - this triggers VirtFusion's own deletion process
         await virtfusionClient.deleteServer(serverIdNum);
+
+        // Hourly servers stop metering only once the deletion is accepted, so a failed
+        // deletion leaves the server billed as usual
+        const stopped = await stopHourlyBilling(cancellation.virtfusionServerId);
+        if (!stopped.success) {
+          log(`Could not settle final hourly usage of ${stopped.amountCents} cents for server ${cancellation.virtfusionServerId}`, 'billing');
+        }
         
         // Mark as "processing" - VirtFusion is now deleting the server
         await dbStorage.markCancellationProcessing(cancellation.id);
@@ -143,6 +153,7 @@ async function processPendingCancellations(): Promise<{ submitted: number; error
           try {
             await db.delete(serverBilling)
               .where(eq(serverBilling.virtfusionServerId, cancellation.virtfusionServerId));
+            await dbStorage.cancelAddonsForServer(cancellation.virtfusionServerId);
             log(`Removed billing record for deleted server ${cancellation.virtfusionServerId}`, 'billing');
           } catch (billingError: any) {
             log(`Warning: Could not remove billing record for server ${cancellation.virtfusionServerId}: ${billingError.message}`, 'billing');
@@ -191,6 +202,7 @@ async function checkProcessingCancellations(): Promise<{ completed: number; stil
         try {
           await db.delete(serverBilling)
             .where(eq(serverBilling.virtfusionServerId, cancellation.virtfusionServerId));
+          await dbStorage.cancelAddonsForServer(cancellation.virtfusionServerId);
           log(`Removed billing record for deleted server ${cancellation.virtfusionServerId}`, 'billing');
         } catch (billingError: any) {
           log(`Warning: Could not remove billing record for server ${cancellation.virtfusionServerId}: ${billingError.message}`, 'billing');
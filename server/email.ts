@@ -531,7 +531,8 @@ export async function sendBillingReceiptEmail(
   to: string,
   serverName: string,
   amountDollars: string,
-  nextBillDate: string
+  nextBillDate: string,
+  invoice?: { invoiceNumber: string; pdf: Buffer }
 ): Promise<EmailResult> {
   if (!resend) {
     log('Email service not configured - cannot send billing receipt email', 'email');
@@ -545,12 +546,13 @@ export async function sendBillingReceiptEmail(
   const body = `
     <p style="margin:0 0 4px;color:${green};font-size:13px;font-weight:600;text-transform:uppercase;letter-spacing:0.5px;">Payment Successful</p>
     <h1 style="margin:0 0 12px;color:${textDark};font-size:22px;font-weight:700;">Billing Receipt</h1>
-    <p style="margin:0 0 24px;color:${textMuted};font-size:15px;line-height:1.6;">Your monthly payment for <strong style="color:${textDark};">${serverName}</strong> has been processed successfully.</p>
+    <p style="margin:0 0 24px;color:${textMuted};font-size:15px;line-height:1.6;">Your monthly payment for <strong style="color:${textDark};">${serverName}</strong> has been processed successfully.${invoice ? ' Your tax invoice is attached.' : ''}</p>
 
     <table width="100%" cellpadding="0" cellspacing="0" style="border:1px solid ${border};border-radius:8px;margin-bottom:24px;border-collapse:collapse;">
       ${row('Date', dateStr)}
       ${row('Server', serverName)}
       ${row('Amount', amountDollars)}
+      ${invoice ? row('Tax Invoice', invoice.invoiceNumber) : ''}
       ${row('Next Bill Date', nextBillDate, true)}
     </table>
 
@@ -563,7 +565,10 @@ export async function sendBillingReceiptEmail(
       to: [to],
       subject: `Payment receipt for ${serverName}`,
       html: baseEmail(body, logoUrl),
-      text: `Billing Receipt\n\nServer: ${serverName}\nDate: ${dateStr}\nAmount: ${amountDollars}\nNext Bill Date: ${nextBillDate}\n\nView billing history: ${appUrl}/billing\n\n© ${new Date().getFullYear()} OzVPS Pty Ltd.`,
+      ...(invoice && {
+        attachments: [{ filename: `${invoice.invoiceNumber}.pdf`, content: invoice.pdf, contentType: 'application/pdf' }],
+      }),
+      text: `Billing Receipt\n\nServer: ${serverName}\nDate: ${dateStr}\nAmount: ${amountDollars}${invoice ? `\nTax Invoice: ${invoice.invoiceNumber} (attached)` : ''}\nNext Bill Date: ${nextBillDate}\n\nView billing history: ${appUrl}/billing\n\n© ${new Date().getFullYear()} OzVPS Pty Ltd.`,
     });
     if (error) { log(`Failed to send billing receipt email to ${to}: ${error.message}`, 'email'); return { success: false, error: error.message }; }
     log(`Billing receipt sent to ${to} for ${serverName}, messageId: ${data?.id}`, 'email');
@@ -574,6 +579,56 @@ export async function sendBillingReceiptEmail(
   }
 }
 
+/**
+ * Send a customer their monthly account statement, with the PDF attached
+ */
+export async function sendAccountStatementEmail(
+  to: string,
+  periodLabel: string,
+  openingBalance: string,
+  closingBalance: string,
+  statement: { filename: string; pdf: Buffer }
+): Promise<EmailResult> {
+  if (!resend) {
+    log('Email service not configured - cannot send account statement email', 'email');
+    return { success: false, error: 'Email service not configured.' };
+  }
+
+  const appUrl = process.env.APP_URL || 'https://app.ozvps.com.au';
+  const logoUrl = getLogoUrl();
+
+  const body = `
+    <p style="margin:0 0 4px;color:${blue};font-size:13px;font-weight:600;text-transform:uppercase;letter-spacing:0.5px;">Account Statement</p>
+    <h1 style="margin:0 0 12px;color:${textDark};font-size:22px;font-weight:700;">Your statement for ${periodLabel}</h1>
+    <p style="margin:0 0 24px;color:${textMuted};font-size:15px;line-height:1.6;">Your statement is attached. It lists every top-up, charge, refund and adjustment to your wallet during ${periodLabel}.</p>
+
+    <table width="100%" cellpadding="0" cellspacing="0" style="border:1px solid ${border};border-radius:8px;margin-bottom:24px;border-collapse:collapse;">
+      ${row('Period', periodLabel)}
+      ${row('Opening Balance', openingBalance)}
+      ${row('Closing Balance', closingBalance, true)}
+    </table>
+
+    ${btn(`${appUrl}/billing`, 'View Billing')}
+    <p style="margin:0;color:${textMuted};font-size:13px;line-height:1.6;">If you have any questions, <a href="${appUrl}/support" style="color:${blue};text-decoration:none;">contact our support team</a>.</p>`;
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: EMAIL_FROM,
+      to: [to],
+      subject: `Your OzVPS statement for ${periodLabel}`,
+      html: baseEmail(body, logoUrl),
+      attachments: [{ filename: statement.filename, content: statement.pdf, contentType: 'application/pdf' }],
+      text: `Account Statement - ${periodLabel}\n\nOpening Balance: ${openingBalance}\nClosing Balance: ${closingBalance}\n\nYour statement is attached.\n\nView billing: ${appUrl}/billing\n\n© ${new Date().getFullYear()} OzVPS Pty Ltd.`,
+    });
+    if (error) { log(`Failed to send account statement email to ${to}: ${error.message}`, 'email'); return { success: false, error: error.message }; }
+    log(`Account statement for ${periodLabel} sent to ${to}, messageId: ${data?.id}`, 'email');
+    return { success: true, messageId: data?.id };
+  } catch (err: any) {
+    log(`Error sending account statement email to ${to}: ${err.message}`, 'email');
+    return { success: false, error: err.message };
+  }
+}
+
 /**
  * Send admin notification of new support ticket
  */
@@ -1351,3 +1406,357 @@ export async function sendAutoTopupFailedEmail(
     return { success: false, error: err.message };
   }
 }
+
+/**
+ * Send scheduled power action failed email
+ */
+export async function sendScheduledPowerActionFailedEmail(
+  to: string,
+  serverName: string,
+  serverId: string,
+  action: string,
+  scheduledFor: string,
+  reason: string
+): Promise<EmailResult> {
+  if (!resend) return { success: false, error: 'Email service not configured.' };
+
+  const appUrl = process.env.APP_URL || 'https://app.ozvps.com.au';
+  const logoUrl = getLogoUrl();
+
+  const body = `
+    <p style="margin:0 0 4px;color:${amber};font-size:13px;font-weight:600;text-transform:uppercase;letter-spacing:0.5px;">Scheduled Action</p>
+    <h1 style="margin:0 0 12px;color:${textDark};font-size:22px;font-weight:700;">Scheduled Power Action Failed</h1>
+    <p style="margin:0 0 24px;color:${textMuted};font-size:15px;line-height:1.6;">A power action you scheduled for your server could not be completed.</p>
+
+    <table width="100%" cellpadding="0" cellspacing="0" style="border:1px solid ${border};border-radius:8px;margin-bottom:24px;border-collapse:collapse;">
+      ${row('Server', serverName)}
+      ${row('Action', action)}
+      ${row('Scheduled For', scheduledFor)}
+      ${row('Reason', reason, true)}
+    </table>
+
+    ${alertBox('info', 'Check your server', 'The schedule is still active unless it was a one-off action. You can run the action manually from the control panel.')}
+    ${btn(`${appUrl}/servers/${serverId}`, 'View Server')}`;
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: EMAIL_FROM,
+      to: [to],
+      subject: `Scheduled ${action} failed for ${serverName}`,
+      html: baseEmail(body, logoUrl),
+      text: `Scheduled Power Action Failed\n\nServer: ${serverName}\nAction: ${action}\nScheduled For: ${scheduledFor}\nReason: ${reason}\n\nView server: ${appUrl}/servers/${serverId}\n\n© ${new Date().getFullYear()} OzVPS Pty Ltd.`,
+    });
+    if (error) { log(`Failed to send scheduled power action failed email to ${to}: ${error.message}`, 'email'); return { success: false, error: error.message }; }
+    log(`Scheduled power action failed email sent to ${to}`, 'email');
+    return { success: true, messageId: data?.id };
+  } catch (err: any) {
+    log(`Error sending scheduled power action failed email to ${to}: ${err.message}`, 'email');
+    return { success: false, error: err.message };
+  }
+}
+
+export async function sendResourceAlertEmail(
+  to: string,
+  serverName: string,
+  serverId: string,
+  metricLabel: string,
+  value: number,
+  thresholdPercent: number,
+  condition: string
+): Promise<EmailResult> {
+  if (!resend) return { success: false, error: 'Email service not configured.' };
+
+  const appUrl = process.env.APP_URL || 'https://app.ozvps.com.au';
+  const logoUrl = getLogoUrl();
+
+  const body = `
+    <p style="margin:0 0 4px;color:${red};font-size:13px;font-weight:600;text-transform:uppercase;letter-spacing:0.5px;">Resource Alert</p>
+    <h1 style="margin:0 0 12px;color:${textDark};font-size:22px;font-weight:700;">${metricLabel} is at ${value}%</h1>
+    <p style="margin:0 0 24px;color:${textMuted};font-size:15px;line-height:1.6;">An alert rule you set up for your server has been triggered.</p>
+
+    <table width="100%" cellpadding="0" cellspacing="0" style="border:1px solid ${border};border-radius:8px;margin-bottom:24px;border-collapse:collapse;">
+      ${row('Server', serverName)}
+      ${row('Metric', metricLabel)}
+      ${row('Current Usage', `${value}%`)}
+      ${row('Alert Condition', condition, true)}
+    </table>
+
+    ${alertBox('warning', 'What happens next', `We'll let you know when usage drops back below ${thresholdPercent}%. If it stays high you'll get a reminder once the rule's cooldown has passed.`)}
+    ${btn(`${appUrl}/servers/${serverId}`, 'View Server')}`;
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: EMAIL_FROM,
+      to: [to],
+      subject: `Alert: ${metricLabel} at ${value}% on ${serverName}`,
+      html: baseEmail(body, logoUrl),
+      text: `Resource Alert\n\nServer: ${serverName}\nMetric: ${metricLabel}\nCurrent Usage: ${value}%\nAlert Condition: ${condition}\n\nView server: ${appUrl}/servers/${serverId}\n\n© ${new Date().getFullYear()} OzVPS Pty Ltd.`,
+    });
+    if (error) { log(`Failed to send resource alert email to ${to}: ${error.message}`, 'email'); return { success: false, error: error.message }; }
+    log(`Resource alert email sent to ${to}`, 'email');
+    return { success: true, messageId: data?.id };
+  } catch (err: any) {
+    log(`Error sending resource alert email to ${to}: ${err.message}`, 'email');
+    return { success: false, error: err.message };
+  }
+}
+
+export async function sendResourceAlertResolvedEmail(
+  to: string,
+  serverName: string,
+  serverId: string,
+  metricLabel: string,
+  value: number,
+  condition: string
+): Promise<EmailResult> {
+  if (!resend) return { success: false, error: 'Email service not configured.' };
+
+  const appUrl = process.env.APP_URL || 'https://app.ozvps.com.au';
+  const logoUrl = getLogoUrl();
+
+  const body = `
+    <p style="margin:0 0 4px;color:${green};font-size:13px;font-weight:600;text-transform:uppercase;letter-spacing:0.5px;">Resolved</p>
+    <h1 style="margin:0 0 12px;color:${textDark};font-size:22px;font-weight:700;">${metricLabel} is back to normal</h1>
+    <p style="margin:0 0 24px;color:${textMuted};font-size:15px;line-height:1.6;">Usage on your server has dropped back below the alert threshold.</p>
+
+    <table width="100%" cellpadding="0" cellspacing="0" style="border:1px solid ${border};border-radius:8px;margin-bottom:24px;border-collapse:collapse;">
+      ${row('Server', serverName)}
+      ${row('Metric', metricLabel)}
+      ${row('Current Usage', `${value}%`)}
+      ${row('Alert Condition', condition, true)}
+    </table>
+
+    ${btn(`${appUrl}/servers/${serverId}`, 'View Server')}`;
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: EMAIL_FROM,
+      to: [to],
+      subject: `Resolved: ${metricLabel} on ${serverName}`,
+      html: baseEmail(body, logoUrl),
+      text: `Resolved\n\n${metricLabel} on ${serverName} is back below the alert threshold.\n\nCurrent Usage: ${value}%\nAlert Condition: ${condition}\n\nView server: ${appUrl}/servers/${serverId}\n\n© ${new Date().getFullYear()} OzVPS Pty Ltd.`,
+    });
+    if (error) { log(`Failed to send resource alert resolved email to ${to}: ${error.message}`, 'email'); return { success: false, error: error.message }; }
+    log(`Resource alert resolved email sent to ${to}`, 'email');
+    return { success: true, messageId: data?.id };
+  } catch (err: any) {
+    log(`Error sending resource alert resolved email to ${to}: ${err.message}`, 'email');
+    return { success: false, error: err.message };
+  }
+}
+
+export async function sendTransferUsageWarningEmail(
+  to: string,
+  serverName: string,
+  serverId: string,
+  level: 80 | 100,
+  used: string,
+  allowance: string,
+  policyDescription: string
+): Promise<EmailResult> {
+  if (!resend) return { success: false, error: 'Email service not configured.' };
+
+  const appUrl = process.env.APP_URL || 'https://app.ozvps.com.au';
+  const logoUrl = getLogoUrl();
+  const exceeded = level === 100;
+  const heading = exceeded ? 'Transfer Allowance Used' : 'Transfer Allowance 80% Used';
+
+  const body = `
+    <p style="margin:0 0 4px;color:${exceeded ? red : amber};font-size:13px;font-weight:600;text-transform:uppercase;letter-spacing:0.5px;">Transfer Usage</p>
+    <h1 style="margin:0 0 12px;color:${textDark};font-size:22px;font-weight:700;">${heading}</h1>
+    <p style="margin:0 0 24px;color:${textMuted};font-size:15px;line-height:1.6;">${exceeded
+      ? 'Your server has used all of its monthly data transfer allowance.'
+      : 'Your server has used 80% of its monthly data transfer allowance.'}</p>
+
+    <table width="100%" cellpadding="0" cellspacing="0" style="border:1px solid ${border};border-radius:8px;margin-bottom:24px;border-collapse:collapse;">
+      ${row('Server', serverName)}
+      ${row('Used This Period', used)}
+      ${row('Monthly Allowance', allowance, true)}
+    </table>
+
+    ${alertBox(exceeded ? 'danger' : 'warning', exceeded ? 'What happens now' : 'If you go over', policyDescription)}
+    ${btn(`${appUrl}/servers/${serverId}`, 'View Usage')}`;
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: EMAIL_FROM,
+      to: [to],
+      subject: exceeded ? `${serverName} has used its transfer allowance` : `${serverName} has used 80% of its transfer allowance`,
+      html: baseEmail(body, logoUrl),
+      text: `${heading}\n\nServer: ${serverName}\nUsed This Period: ${used}\nMonthly Allowance: ${allowance}\n\n${policyDescription}\n\nView usage: ${appUrl}/servers/${serverId}\n\n© ${new Date().getFullYear()} OzVPS Pty Ltd.`,
+    });
+    if (error) { log(`Failed to send transfer usage warning email to ${to}: ${error.message}`, 'email'); return { success: false, error: error.message }; }
+    log(`Transfer usage ${level}% warning email sent to ${to}`, 'email');
+    return { success: true, messageId: data?.id };
+  } catch (err: any) {
+    log(`Error sending transfer usage warning email to ${to}: ${err.message}`, 'email');
+    return { success: false, error: err.message };
+  }
+}
+
+export async function sendServerTransferOfferEmail(
+  to: string,
+  fromEmail: string,
+  serverName: string,
+  expiresAt: string
+): Promise<EmailResult> {
+  if (!resend) return { success: false, error: 'Email service not configured.' };
+
+  const appUrl = process.env.APP_URL || 'https://app.ozvps.com.au';
+  const logoUrl = getLogoUrl();
+
+  const body = `
+    <p style="margin:0 0 4px;color:${blue};font-size:13px;font-weight:600;text-transform:uppercase;letter-spacing:0.5px;">Server Transfer</p>
+    <h1 style="margin:0 0 12px;color:${textDark};font-size:22px;font-weight:700;">A Server Is Being Transferred to You</h1>
+    <p style="margin:0 0 24px;color:${textMuted};font-size:15px;line-height:1.6;">${fromEmail} would like to transfer a server to your OzVPS account.</p>
+
+    <table width="100%" cellpadding="0" cellspacing="0" style="border:1px solid ${border};border-radius:8px;margin-bottom:24px;border-collapse:collapse;">
+      ${row('Server', serverName)}
+      ${row('From', fromEmail)}
+      ${row('Offer Expires', expiresAt, true)}
+    </table>
+
+    ${alertBox('info', 'Before you accept', 'Once accepted, the server and its ongoing billing move to your account and are charged to your wallet from the next billing date.')}
+    ${btn(`${appUrl}/account`, 'Review Transfer')}`;
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: EMAIL_FROM,
+      to: [to],
+      subject: `${fromEmail} wants to transfer ${serverName} to you`,
+      html: baseEmail(body, logoUrl),
+      text: `A Server Is Being Transferred to You\n\n${fromEmail} would like to transfer a server to your OzVPS account.\n\nServer: ${serverName}\nFrom: ${fromEmail}\nOffer Expires: ${expiresAt}\n\nOnce accepted, the server and its ongoing billing move to your account.\n\nReview transfer: ${appUrl}/account\n\n© ${new Date().getFullYear()} OzVPS Pty Ltd.`,
+    });
+    if (error) { log(`Failed to send server transfer offer email to ${to}: ${error.message}`, 'email'); return { success: false, error: error.message }; }
+    log(`Server transfer offer email sent to ${to}`, 'email');
+    return { success: true, messageId: data?.id };
+  } catch (err: any) {
+    log(`Error sending server transfer offer email to ${to}: ${err.message}`, 'email');
+    return { success: false, error: err.message };
+  }
+}
+
+export async function sendServerTransferCompletedEmail(
+  to: string,
+  serverName: string,
+  serverId: string,
+  role: 'sender' | 'recipient',
+  otherPartyEmail: string
+): Promise<EmailResult> {
+  if (!resend) return { success: false, error: 'Email service not configured.' };
+
+  const appUrl = process.env.APP_URL || 'https://app.ozvps.com.au';
+  const logoUrl = getLogoUrl();
+  const isRecipient = role === 'recipient';
+
+  const body = `
+    <p style="margin:0 0 4px;color:${green};font-size:13px;font-weight:600;text-transform:uppercase;letter-spacing:0.5px;">Server Transfer</p>
+    <h1 style="margin:0 0 12px;color:${textDark};font-size:22px;font-weight:700;">Server Transfer Complete</h1>
+    <p style="margin:0 0 24px;color:${textMuted};font-size:15px;line-height:1.6;">${isRecipient
+      ? `${serverName} has been moved to your account.`
+      : `${serverName} has been moved to ${otherPartyEmail} and is no longer on your account.`}</p>
+
+    <table width="100%" cellpadding="0" cellspacing="0" style="border:1px solid ${border};border-radius:8px;margin-bottom:24px;border-collapse:collapse;">
+      ${row('Server', serverName)}
+      ${row(isRecipient ? 'From' : 'To', otherPartyEmail, true)}
+    </table>
+
+    ${isRecipient
+      ? `${alertBox('info', 'Billing', 'Future renewals for this server are charged to your wallet. Power schedules, alerts and tags from the previous owner were not carried over.')}
+    ${btn(`${appUrl}/servers/${serverId}`, 'View Server')}`
+      : alertBox('info', 'Billing', 'You will not be charged for this server again. Past charges remain on your billing history.')}`;
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: EMAIL_FROM,
+      to: [to],
+      subject: isRecipient ? `${serverName} is now on your account` : `${serverName} has been transferred`,
+      html: baseEmail(body, logoUrl),
+      text: `Server Transfer Complete\n\nServer: ${serverName}\n${isRecipient ? 'From' : 'To'}: ${otherPartyEmail}\n\n${isRecipient
+        ? `Future renewals for this server are charged to your wallet.\n\nView server: ${appUrl}/servers/${serverId}`
+        : 'You will not be charged for this server again.'}\n\n© ${new Date().getFullYear()} OzVPS Pty Ltd.`,
+    });
+    if (error) { log(`Failed to send server transfer completed email to ${to}: ${error.message}`, 'email'); return { success: false, error: error.message }; }
+    log(`Server transfer completed email sent to ${to}`, 'email');
+    return { success: true, messageId: data?.id };
+  } catch (err: any) {
+    log(`Error sending server transfer completed email to ${to}: ${err.message}`, 'email');
+    return { success: false, error: err.message };
+  }
+}
+
+export async function sendServerTransferDeclinedEmail(
+  to: string,
+  serverName: string,
+  recipientEmail: string
+): Promise<EmailResult> {
+  if (!resend) return { success: false, error: 'Email service not configured.' };
+
+  const appUrl = process.env.APP_URL || 'https://app.ozvps.com.au';
+  const logoUrl = getLogoUrl();
+
+  const body = `
+    <p style="margin:0 0 4px;color:${amber};font-size:13px;font-weight:600;text-transform:uppercase;letter-spacing:0.5px;">Server Transfer</p>
+    <h1 style="margin:0 0 12px;color:${textDark};font-size:22px;font-weight:700;">Server Transfer Declined</h1>
+    <p style="margin:0 0 24px;color:${textMuted};font-size:15px;line-height:1.6;">${recipientEmail} declined your offer to transfer ${serverName}. The server remains on your account.</p>
+    ${btn(`${appUrl}/servers`, 'View Servers')}`;
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: EMAIL_FROM,
+      to: [to],
+      subject: `Transfer of ${serverName} was declined`,
+      html: baseEmail(body, logoUrl),
+      text: `Server Transfer Declined\n\n${recipientEmail} declined your offer to transfer ${serverName}. The server remains on your account.\n\n© ${new Date().getFullYear()} OzVPS Pty Ltd.`,
+    });
+    if (error) { log(`Failed to send server transfer declined email to ${to}: ${error.message}`, 'email'); return { success: false, error: error.message }; }
+    log(`Server transfer declined email sent to ${to}`, 'email');
+    return { success: true, messageId: data?.id };
+  } catch (err: any) {
+    log(`Error sending server transfer declined email to ${to}: ${err.message}`, 'email');
+    return { success: false, error: err.message };
+  }
+}
+
+/**
+ * Send deployment failed email once the charge has been returned to the wallet
+ */
+export async function sendDeployFailedEmail(
+  to: string,
+  serverName: string,
+  refundAmount: string
+): Promise<EmailResult> {
+  if (!resend) return { success: false, error: 'Email service not configured.' };
+
+  const appUrl = process.env.APP_URL || 'https://app.ozvps.com.au';
+  const logoUrl = getLogoUrl();
+
+  const body = `
+    <p style="margin:0 0 4px;color:${red};font-size:13px;font-weight:600;text-transform:uppercase;letter-spacing:0.5px;">Deployment</p>
+    <h1 style="margin:0 0 12px;color:${textDark};font-size:22px;font-weight:700;">We Couldn't Deploy Your Server</h1>
+    <p style="margin:0 0 24px;color:${textMuted};font-size:15px;line-height:1.6;">We tried several times to set up ${serverName} but couldn't complete it. Nothing was left running on your account.</p>
+
+    <table width="100%" cellpadding="0" cellspacing="0" style="border:1px solid ${border};border-radius:8px;margin-bottom:24px;border-collapse:collapse;">
+      ${row('Server', serverName)}
+      ${row('Refunded to Wallet', refundAmount, true)}
+    </table>
+
+    ${alertBox('info', 'Your wallet has been refunded', 'Any promo code you used can be applied again. Please try again or contact support if it keeps happening.')}
+    ${btn(`${appUrl}/deploy`, 'Try Again')}`;
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: EMAIL_FROM,
+      to: [to],
+      subject: `Deployment of ${serverName} failed - ${refundAmount} refunded`,
+      html: baseEmail(body, logoUrl),
+      text: `We Couldn't Deploy Your Server\n\nWe tried several times to set up ${serverName} but couldn't complete it.\nRefunded to Wallet: ${refundAmount}\n\nTry again: ${appUrl}/deploy\n\n© ${new Date().getFullYear()} OzVPS Pty Ltd.`,
+    });
+    if (error) { log(`Failed to send deploy failed email to ${to}: ${error.message}`, 'email'); return { success: false, error: error.message }; }
+    log(`Deploy failed email sent to ${to}`, 'email');
+    return { success: true, messageId: data?.id };
+  } catch (err: any) {
+    log(`Error sending deploy failed email to ${to}: ${err.message}`, 'email');
+    return { success: false, error: err.message };
+  }
+}
@@ -0,0 +1,161 @@
+import { isIP } from "net";
+import type { FirewallRuleInput, ServerFirewallRule } from "@shared/schema";
+import { formatIpv6, ipv6Groups } from "./ip-address";
+
+export const MAX_FIREWALL_RULES_PER_SERVER = 50;
+export const MAX_FIREWALL_RULE_SETS_PER_USER = 20;
+
+export type NormalizedFirewallRule = {
+  direction: FirewallRuleInput["direction"];
+  protocol: FirewallRuleInput["protocol"];
+  portStart: number | null;
+  portEnd: number | null;
+  cidr: string;
+  action: FirewallRuleInput["action"];
+  description: string | null;
+};
+
+/**
+ * Validate an IPv4/IPv6 address or CIDR range. A bare address is treated as
+ * a single host, and host bits are cleared so "10.0.0.5/24" is stored as
+ * "10.0.0.0/24". IPv6 is stored in its compressed form, so "2001:0db8:0:0::/32"
+ * and "2001:db8::/32" are the same range.
+ */
+export function normalizeCidr(value: string): string | null {
+  const trimmed = value.trim().toLowerCase();
+  const [address, prefixText, ...rest] = trimmed.split("/");
+  if (rest.length > 0) return null;
+
+  const version = isIP(address);
+  if (version === 0) return null;
+
+  const maxPrefix = version === 4 ? 32 : 128;
+  let prefix = maxPrefix;
+  if (prefixText !== undefined) {
+    if (!/^\d{1,3}$/.test(prefixText)) return null;
+    prefix = Number(prefixText);
+    if (prefix > maxPrefix) return null;
+  }
+
+  if (version === 6) {
+    const network = ipv6Groups(address).map((group, index) => {
+      const bits = Math.min(Math.max(prefix - index * 16, 0), 16);
+      const mask = bits === 0 ? 0 : (0xffff << (16 - bits)) & 0xffff;
+      return group & mask;
+    });
+    return `${formatIpv6(network)}/${prefix}`;
+  }
+
+  const octets = address.split(".").map(Number);
+  const value32 = ((octets[0] << 24) | (octets[1] << 16) | (octets[2] << 8) | octets[3]) >>> 0;
+  const mask = prefix === 0 ? 0 : (0xffffffff << (32 - prefix)) >>> 0;
+  const network = (value32 & mask) >>> 0;
+  const networkAddress = [24, 16, 8, 0].map((shift) => (network >>> shift) & 0xff).join(".");
+  return `${networkAddress}/${prefix}`;
+}
+
+export function normalizeFirewallRule(rule: FirewallRuleInput):
+  | { ok: true; rule: NormalizedFirewallRule }
+  | { ok: false; error: string } {
+  const cidr = normalizeCidr(rule.cidr);
+  if (!cidr) {
+    return { ok: false, error: `"${rule.cidr}" is not a valid IP address or CIDR range.` };
+  }
+
+  let portStart: number | null = null;
+  let portEnd: number | null = null;
+
+  if (rule.protocol === "tcp" || rule.protocol === "udp") {
+    // No port means the rule covers every port for the protocol
+    if (rule.portStart != null) {
+      portStart = rule.portStart;
+      portEnd = rule.portEnd ?? rule.portStart;
+      if (portEnd < portStart) {
+        return { ok: false, error: `Port range ${portStart}-${portEnd} ends before it starts.` };
+      }
+    } else if (rule.portEnd != null) {
+      return { ok: false, error: "A port range needs a start port." };
+    }
+  } else if (rule.portStart != null || rule.portEnd != null) {
+    return { ok: false, error: `Ports can't be set on ${rule.protocol.toUpperCase()} rules.` };
+  }
+
+  return {
+    ok: true,
+    rule: {
+      direction: rule.direction,
+      protocol: rule.protocol,
+      portStart,
+      portEnd,
+      cidr,
+      action: rule.action,
+      description: rule.description?.trim() || null,
+    },
+  };
+}
+
+export function normalizeFirewallRules(rules: FirewallRuleInput[]):
+  | { ok: true; rules: NormalizedFirewallRule[] }
+  | { ok: false; error: string } {
+  if (rules.length > MAX_FIREWALL_RULES_PER_SERVER) {
+    return { ok: false, error: `A server can have at most ${MAX_FIREWALL_RULES_PER_SERVER} firewall rules.` };
+  }
+
+  const normalized: NormalizedFirewallRule[] = [];
+  for (let i = 0; i < rules.length; i++) {
+    const result = normalizeFirewallRule(rules[i]);
+    if (!result.ok) {
+      return { ok: false, error: `Rule ${i + 1}: ${result.error}` };
+    }
+    normalized.push(result.rule);
+  }
+
+  return { ok: true, rules: normalized };
+}
+
+function firewallRuleKey(rule: NormalizedFirewallRule): string {
+  return [rule.direction, rule.protocol, rule.portStart ?? "", rule.portEnd ?? "", rule.cidr, rule.action].join("|");
+}
+
+/**
+ * Combine a server's current rules with a rule set. Appending skips rules the
+ * server already has so re-applying the same set is a no-op.
+ */
+export function mergeFirewallRules(
+  existing: NormalizedFirewallRule[],
+  incoming: NormalizedFirewallRule[],
+  mode: "append" | "replace",
+): { ok: true; rules: NormalizedFirewallRule[] } | { ok: false; error: string } {
+  let merged: NormalizedFirewallRule[];
+  if (mode === "replace") {
+    merged = incoming;
+  } else {
+    const seen = new Set(existing.map(firewallRuleKey));
+    merged = [...existing];
+    for (const rule of incoming) {
+      const key = firewallRuleKey(rule);
+      if (!seen.has(key)) {
+        seen.add(key);
+        merged.push(rule);
+      }
+    }
+  }
+
+  if (merged.length > MAX_FIREWALL_RULES_PER_SERVER) {
+    return { ok: false, error: `A server can have at most ${MAX_FIREWALL_RULES_PER_SERVER} firewall rules.` };
+  }
+
+  return { ok: true, rules: merged };
+}
+
+export function fromStoredFirewallRule(rule: ServerFirewallRule): NormalizedFirewallRule {
+  return {
+    direction: rule.direction as NormalizedFirewallRule["direction"],
+    protocol: rule.protocol as NormalizedFirewallRule["protocol"],
+    portStart: rule.portStart,
+    portEnd: rule.portEnd,
+    cidr: rule.cidr,
+    action: rule.action as NormalizedFirewallRule["action"],
+    description: rule.description,
+  };
+}
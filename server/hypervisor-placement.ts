@@ -0,0 +1,63 @@
+import type { Plan } from "@shared/schema";
+import { dbStorage } from "./storage";
+import { virtfusionClient } from "./virtfusion";
+import { log } from "./log";
+import { chooseHypervisor, type PlacementCandidate } from "./placement";
+
+export type PlacementResult =
+  | { ok: true; hypervisor: PlacementCandidate | null }
+  | { ok: false; reasons: string };
+
+// Checks the location's hypervisor group has room for the plan before anything is charged or created.
+// VirtFusion's create call takes the group rather than a hypervisor, so the chosen hypervisor is the best
+// fit we found; a deploy only goes ahead when at least one non-drained hypervisor can take it. When
+// VirtFusion can't report the group's hypervisors the deploy is let through rather than blocked.
+export async function findPlacement(
+  hypervisorGroupId: number,
+  plan: Pick<Plan, "vcpu" | "ramMb" | "storageGb">,
+  virtfusionUserId?: number | null,
+): Promise<PlacementResult> {
+  const hypervisors = (await virtfusionClient.getHypervisors()).filter((h) => h.group?.id === hypervisorGroupId);
+  if (hypervisors.length === 0) {
+    log(`No hypervisors reported for group ${hypervisorGroupId}, leaving placement to VirtFusion`, 'placement');
+    return { ok: true, hypervisor: null };
+  }
+
+  let allocations;
+  try {
+    allocations = await virtfusionClient.getHypervisorAllocations();
+  } catch (error: any) {
+    log(`Could not load hypervisor allocations, leaving placement to VirtFusion: ${error.message}`, 'placement');
+    return { ok: true, hypervisor: null };
+  }
+
+  const drained = new Set((await dbStorage.getHypervisorDrains()).map((drain) => drain.hypervisorId));
+  const candidates: PlacementCandidate[] = hypervisors.map((h) => ({
+    id: h.id,
+    name: h.name,
+    enabled: h.enabled,
+    maintenance: h.maintenance,
+    drained: drained.has(h.id),
+    maxServers: h.maxServers,
+    cpuCores: h.cpuCores,
+    ramTotalMb: h.ramTotalMb,
+    diskTotalGb: h.diskTotalGb,
+    allocated: allocations.get(h.id) || { servers: 0, vcpu: 0, ramMb: 0, diskGb: 0, ownerIds: [] },
+  }));
+
+  const decision = chooseHypervisor(candidates, {
+    vcpu: plan.vcpu,
+    ramMb: plan.ramMb,
+    diskGb: plan.storageGb,
+    virtfusionUserId,
+  });
+
+  if (!decision.ok) {
+    const reasons = decision.rejected.map((r) => `${r.name}: ${r.reason}`).join(', ');
+    log(`Group ${hypervisorGroupId} has no room for ${plan.vcpu} vCPU / ${plan.ramMb} MB / ${plan.storageGb} GB (${reasons})`, 'placement');
+    return { ok: false, reasons };
+  }
+
+  log(`Placing on hypervisor ${decision.hypervisor.name} (${decision.hypervisor.id}) in group ${hypervisorGroupId}${decision.sharesAccount ? ', shared with another server on this account' : ''}`, 'placement');
+  return { ok: true, hypervisor: decision.hypervisor };
+}
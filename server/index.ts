@@ -14,6 +14,13 @@ import { WebhookHandlers } from "./webhookHandlers";
 import { startCancellationProcessor } from "./cancellation-processor";
 import { startOrphanCleanupProcessor } from "./orphan-cleanup-processor";
 import { startBillingProcessor } from "./billing-processor";
+import { startPowerScheduleProcessor } from "./power-schedule-processor";
+import { startResourceAlertProcessor } from "./resource-alert-processor";
+import { startTransferQuotaProcessor } from "./transfer-quota-processor";
+import { startStatementProcessor } from "./statement-processor";
+import { startMetricsSampler } from "./metrics-sampler";
+import { startProvisioningProcessor } from "./provisioning-processor";
+import { startRescueProcessor } from "./rescue-processor";
 import { connectRedis, disconnectRedis, redisClient } from "./redis";
 import { runAutoMigrations } from "./db";
 import { validateOrExit, getEnvironmentSummary } from "./env-validator";
@@ -469,6 +476,27 @@ app.use((req, res, next) => {
         .then(stripe => startBillingProcessor(stripe))
         .catch(() => startBillingProcessor(null));
 
+      // Start background job for running customer power schedules
+      startPowerScheduleProcessor();
+
+      // Start background job for checking customer resource usage alerts
+      startResourceAlertProcessor();
+
+      // Start background job for tracking transfer quotas and overage
+      startTransferQuotaProcessor();
+
+      // Start background job for issuing monthly account statements
+      startStatementProcessor();
+
+      // Start background job for sampling server metrics into long-term history
+      startMetricsSampler();
+
+      // Start background job for retrying and refunding deploy orders
+      startProvisioningProcessor();
+
+      // Start background job for ending expired rescue sessions
+      startRescueProcessor();
+
       // Start background job for cleaning up expired password reset tokens
       setInterval(async () => {
         try {
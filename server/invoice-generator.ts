@@ -1,5 +1,7 @@
 import PDFDocument from 'pdfkit';
-import { Invoice } from '@shared/schema';
+import { Invoice, AccountStatement, CreditNote } from '@shared/schema';
+import { formatAbn, splitTaxInclusive, type TaxBreakdown } from '@shared/tax';
+import { statementPeriodLabel } from './statements';
 import fs from 'fs';
 import path from 'path';
 
@@ -11,14 +13,41 @@ const BUSINESS_DETAILS = {
   website: 'www.ozvps.com.au',
 };
 
-export async function generateInvoicePDF(invoice: Invoice): Promise<Buffer> {
+// Invoices issued before GST was broken out didn't store it, so work it out as a GST-inclusive amount
+function invoiceTax(invoice: Invoice): TaxBreakdown {
+  if (invoice.taxCents === null || invoice.subtotalCents === null || !invoice.taxTreatment) {
+    return splitTaxInclusive(invoice.amountCents, 'gst');
+  }
+  return {
+    subtotalCents: invoice.subtotalCents,
+    taxCents: invoice.taxCents,
+    totalCents: invoice.amountCents,
+    ratePercent: invoice.taxRatePercent ?? 0,
+    treatment: invoice.taxTreatment,
+  };
+}
+
+export interface InvoiceLine {
+  description: string;
+  amountCents: number;
+}
+
+// Charge invoices pass their billing ledger entries as lines; top-up invoices are a single line
+export async function generateInvoicePDF(invoice: Invoice, lines?: InvoiceLine[]): Promise<Buffer> {
   return new Promise((resolve, reject) => {
     try {
+      const tax = invoiceTax(invoice);
+      const isExport = tax.treatment === 'gst_free_export';
+      const items = lines && lines.length > 0
+        ? lines
+        : [{ description: invoice.description, amountCents: invoice.amountCents }];
+      const paidByCard = !!(invoice.stripePaymentIntentId || invoice.stripeSessionId);
+
       const doc = new PDFDocument({
         size: 'A4',
         margin: 50,
         info: {
-          Title: `Invoice ${invoice.invoiceNumber}`,
+          Title: `Tax Invoice ${invoice.invoiceNumber}`,
           Author: BUSINESS_DETAILS.name,
         },
       });
@@ -30,27 +59,7 @@ export async function generateInvoicePDF(invoice: Invoice): Promise<Buffer> {
 
       const pageWidth = doc.page.width - 100;
 
-      doc.fontSize(28)
-        .font('Helvetica-Bold')
-        .fillColor('#1e3a5f')
-        .text(BUSINESS_DETAILS.name, 50, 50);
-
-      doc.fontSize(10)
-        .font('Helvetica')
-        .fillColor('#666666')
-        .text('Tax Invoice', 50, 85);
-
-      doc.fontSize(9)
-        .fillColor('#333333')
-        .text(BUSINESS_DETAILS.address, 400, 50, { align: 'right' })
-        .text(`ABN: ${BUSINESS_DETAILS.abn}`, { align: 'right' })
-        .text(BUSINESS_DETAILS.email, { align: 'right' })
-        .text(BUSINESS_DETAILS.website, { align: 'right' });
-
-      doc.moveTo(50, 120)
-        .lineTo(pageWidth + 50, 120)
-        .strokeColor('#e0e0e0')
-        .stroke();
+      drawLetterhead(doc, 'Tax Invoice');
 
       const detailsY = 140;
       const leftColX = 50;
@@ -81,23 +90,41 @@ export async function generateInvoicePDF(invoice: Invoice): Promise<Buffer> {
       doc.font('Helvetica-Bold')
         .text('Status:', leftColX, detailsStartY + lineHeight * 2);
       
-      const statusColor = invoice.status === 'paid' ? '#22c55e' : '#f59e0b';
+      const statusColor = invoice.status === 'paid' ? '#22c55e' : invoice.status === 'void' ? '#ef4444' : '#f59e0b';
       doc.font('Helvetica-Bold')
         .fillColor(statusColor)
-        .text(invoice.status.toUpperCase(), leftColX + 110, detailsStartY + lineHeight * 2);
+        .text(invoice.status.replace(/_/g, ' ').toUpperCase(), leftColX + 110, detailsStartY + lineHeight * 2);
+
+      if (invoice.periodStart && invoice.periodEnd) {
+        doc.font('Helvetica-Bold')
+          .fillColor('#333333')
+          .text('Service Period:', leftColX, detailsStartY + lineHeight * 3);
+        doc.font('Helvetica')
+          .text(`${formatDate(invoice.periodStart)} - ${formatDate(invoice.periodEnd)}`, leftColX + 110, detailsStartY + lineHeight * 3);
+      }
 
       doc.fontSize(12)
         .font('Helvetica-Bold')
         .fillColor('#1e3a5f')
         .text('Bill To', rightColX, detailsY);
 
+      // Businesses are billed by name and ABN so they can claim the GST back
+      const billTo = [
+        invoice.customerBusinessName || invoice.customerName || 'Customer',
+        invoice.customerBusinessName && invoice.customerName ? `Attn: ${invoice.customerName}` : null,
+        invoice.customerAbn ? `ABN: ${formatAbn(invoice.customerAbn)}` : null,
+        invoice.customerEmail,
+        invoice.customerCountryCode && invoice.customerCountryCode !== 'AU' ? invoice.customerCountryCode : null,
+      ].filter((line): line is string => !!line);
+
       doc.fontSize(10)
         .font('Helvetica')
-        .fillColor('#333333')
-        .text(invoice.customerName || 'Customer', rightColX, detailsStartY)
-        .text(invoice.customerEmail, rightColX, detailsStartY + lineHeight);
+        .fillColor('#333333');
+      billTo.forEach((line, index) => {
+        doc.text(line, rightColX, detailsStartY + lineHeight * index);
+      });
 
-      const tableY = detailsStartY + lineHeight * 4 + 20;
+      const tableY = detailsStartY + lineHeight * Math.max(4, billTo.length) + 20;
 
       doc.rect(50, tableY, pageWidth, 30)
         .fillColor('#1e3a5f')
@@ -107,20 +134,25 @@ export async function generateInvoicePDF(invoice: Invoice): Promise<Buffer> {
         .fontSize(10)
         .fillColor('#ffffff')
         .text('Description', 60, tableY + 10)
-        .text('Amount (AUD)', 400, tableY + 10, { width: 100, align: 'right' });
-
-      const rowY = tableY + 30;
-      doc.rect(50, rowY, pageWidth, 40)
-        .fillColor('#f8f9fa')
-        .fill();
-
-      doc.font('Helvetica')
-        .fontSize(10)
-        .fillColor('#333333')
-        .text(invoice.description, 60, rowY + 12)
-        .text(formatCurrency(invoice.amountCents), 400, rowY + 12, { width: 100, align: 'right' });
+        .text(isExport ? 'Amount (AUD)' : 'Amount (AUD, incl. GST)', 340, tableY + 10, { width: 160, align: 'right' });
+
+      const rowHeight = 32;
+      items.forEach((item, index) => {
+        const rowY = tableY + 30 + rowHeight * index;
+        if (index % 2 === 0) {
+          doc.rect(50, rowY, pageWidth, rowHeight)
+            .fillColor('#f8f9fa')
+            .fill();
+        }
+
+        doc.font('Helvetica')
+          .fontSize(10)
+          .fillColor('#333333')
+          .text(item.description, 60, rowY + 10, { width: 320, height: rowHeight - 10, ellipsis: true })
+          .text(formatCurrency(item.amountCents), 400, rowY + 10, { width: 100, align: 'right' });
+      });
 
-      const totalY = rowY + 60;
+      const totalY = tableY + 30 + rowHeight * items.length + 20;
       doc.moveTo(300, totalY)
         .lineTo(pageWidth + 50, totalY)
         .strokeColor('#e0e0e0')
@@ -129,12 +161,12 @@ export async function generateInvoicePDF(invoice: Invoice): Promise<Buffer> {
       doc.font('Helvetica')
         .fontSize(10)
         .fillColor('#666666')
-        .text('Subtotal:', 350, totalY + 15)
-        .text(formatCurrency(invoice.amountCents), 400, totalY + 15, { width: 100, align: 'right' });
+        .text('Subtotal (excl. GST):', 300, totalY + 15)
+        .text(formatCurrency(tax.subtotalCents), 400, totalY + 15, { width: 100, align: 'right' });
 
       doc.font('Helvetica')
-        .text('GST (0%):', 350, totalY + 35)
-        .text('$0.00', 400, totalY + 35, { width: 100, align: 'right' });
+        .text(isExport ? 'GST (GST-free export):' : `GST (${tax.ratePercent}%):`, 300, totalY + 35)
+        .text(formatCurrency(tax.taxCents), 400, totalY + 35, { width: 100, align: 'right' });
 
       doc.moveTo(300, totalY + 55)
         .lineTo(pageWidth + 50, totalY + 55)
@@ -145,10 +177,22 @@ export async function generateInvoicePDF(invoice: Invoice): Promise<Buffer> {
       doc.font('Helvetica-Bold')
         .fontSize(12)
         .fillColor('#1e3a5f')
-        .text('Total:', 350, totalY + 65)
-        .text(formatCurrency(invoice.amountCents), 400, totalY + 65, { width: 100, align: 'right' });
+        .text(isExport ? 'Total:' : 'Total (incl. GST):', 300, totalY + 65)
+        .text(formatCurrency(tax.totalCents), 400, totalY + 65, { width: 100, align: 'right' });
 
-      const notesY = totalY + 110;
+      doc.font('Helvetica')
+        .fontSize(9)
+        .fillColor('#666666')
+        .text(
+          isExport
+            ? 'GST-free supply to an overseas business (GST Act s38-190). No GST has been charged.'
+            : `Total price includes GST of ${formatCurrency(tax.taxCents)}.`,
+          50,
+          totalY + 90,
+          { width: pageWidth },
+        );
+
+      const notesY = totalY + 120;
       doc.rect(50, notesY, pageWidth, 60)
         .fillColor('#f0f9ff')
         .fill();
@@ -161,21 +205,170 @@ export async function generateInvoicePDF(invoice: Invoice): Promise<Buffer> {
       doc.font('Helvetica')
         .fontSize(9)
         .fillColor('#333333')
-        .text('This invoice has been paid via credit/debit card.', 60, notesY + 28)
-        .text('Funds have been credited to your OzVPS wallet.', 60, notesY + 42);
+        .text(paidByCard ? 'This invoice has been paid via credit/debit card.' : 'This invoice has been paid from your OzVPS wallet balance.', 60, notesY + 28)
+        .text(paidByCard ? 'Funds have been credited to your OzVPS wallet.' : 'No further payment is required.', 60, notesY + 42);
+
+      drawFooter(doc);
+
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+// Credit (adjustment) note for a refund against a tax invoice, showing the GST it reverses
+export async function generateCreditNotePDF(creditNote: CreditNote, invoice: Invoice): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    try {
+      const isExport = invoice.taxTreatment === 'gst_free_export';
+      const ratePercent = invoiceTax(invoice).ratePercent;
 
-      const footerY = doc.page.height - 80;
-      doc.moveTo(50, footerY)
-        .lineTo(pageWidth + 50, footerY)
+      const doc = new PDFDocument({
+        size: 'A4',
+        margin: 50,
+        info: {
+          Title: `Credit Note ${creditNote.creditNoteNumber}`,
+          Author: BUSINESS_DETAILS.name,
+        },
+      });
+
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      const pageWidth = doc.page.width - 100;
+
+      drawLetterhead(doc, 'Credit Note');
+
+      const detailsY = 140;
+      const detailsStartY = detailsY + 25;
+      const lineHeight = 18;
+
+      doc.fontSize(12)
+        .font('Helvetica-Bold')
+        .fillColor('#1e3a5f')
+        .text('Credit Note Details', 50, detailsY)
+        .text('Credit To', 350, detailsY);
+
+      const details: Array<[string, string]> = [
+        ['Credit Note Number:', creditNote.creditNoteNumber],
+        ['Date:', formatDate(creditNote.createdAt)],
+        ['Original Invoice:', invoice.invoiceNumber],
+        ['Invoice Date:', formatDate(invoice.createdAt)],
+      ];
+      doc.fontSize(10)
+        .fillColor('#333333');
+      details.forEach(([label, value], index) => {
+        doc.font('Helvetica-Bold').text(label, 50, detailsStartY + lineHeight * index);
+        doc.font('Helvetica').text(value, 170, detailsStartY + lineHeight * index);
+      });
+
+      const creditTo = [
+        invoice.customerBusinessName || invoice.customerName || 'Customer',
+        invoice.customerBusinessName && invoice.customerName ? `Attn: ${invoice.customerName}` : null,
+        invoice.customerAbn ? `ABN: ${formatAbn(invoice.customerAbn)}` : null,
+        invoice.customerEmail,
+      ].filter((line): line is string => !!line);
+      creditTo.forEach((line, index) => {
+        doc.text(line, 350, detailsStartY + lineHeight * index);
+      });
+
+      const tableY = detailsStartY + lineHeight * Math.max(details.length, creditTo.length) + 20;
+      const rowHeight = 32;
+
+      doc.rect(50, tableY, pageWidth, 30)
+        .fillColor('#1e3a5f')
+        .fill();
+      doc.font('Helvetica-Bold')
+        .fontSize(10)
+        .fillColor('#ffffff')
+        .text('Description', 60, tableY + 10)
+        .text(isExport ? 'Credit (AUD)' : 'Credit (AUD, incl. GST)', 340, tableY + 10, { width: 160, align: 'right' });
+
+      const rows = [
+        { description: `Refund: ${invoice.description}`, amountCents: creditNote.amountCents },
+      ];
+      rows.forEach((row, index) => {
+        const rowY = tableY + 30 + rowHeight * index;
+        doc.rect(50, rowY, pageWidth, rowHeight)
+          .fillColor('#f8f9fa')
+          .fill();
+        doc.font('Helvetica')
+          .fontSize(10)
+          .fillColor('#333333')
+          .text(row.description, 60, rowY + 10, { width: 320, height: rowHeight - 10, ellipsis: true })
+          .text(formatCurrency(row.amountCents), 400, rowY + 10, { width: 100, align: 'right' });
+      });
+
+      const totalY = tableY + 30 + rowHeight * rows.length + 20;
+      doc.moveTo(300, totalY)
+        .lineTo(pageWidth + 50, totalY)
         .strokeColor('#e0e0e0')
-        .lineWidth(1)
         .stroke();
 
       doc.font('Helvetica')
-        .fontSize(8)
-        .fillColor('#999999')
-        .text('Thank you for choosing OzVPS!', 50, footerY + 15, { align: 'center', width: pageWidth })
-        .text(`Generated on ${formatDate(new Date())}`, 50, footerY + 30, { align: 'center', width: pageWidth });
+        .fontSize(10)
+        .fillColor('#666666')
+        .text('Subtotal (excl. GST):', 300, totalY + 15)
+        .text(formatCurrency(creditNote.subtotalCents), 400, totalY + 15, { width: 100, align: 'right' })
+        .text(isExport ? 'GST (GST-free export):' : `GST (${ratePercent}%):`, 300, totalY + 35)
+        .text(formatCurrency(creditNote.taxCents), 400, totalY + 35, { width: 100, align: 'right' });
+
+      doc.moveTo(300, totalY + 55)
+        .lineTo(pageWidth + 50, totalY + 55)
+        .strokeColor('#1e3a5f')
+        .lineWidth(2)
+        .stroke();
+
+      doc.font('Helvetica-Bold')
+        .fontSize(12)
+        .fillColor('#1e3a5f')
+        .text('Total Credit:', 300, totalY + 65)
+        .text(formatCurrency(creditNote.amountCents), 400, totalY + 65, { width: 100, align: 'right' });
+
+      doc.font('Helvetica')
+        .fontSize(9)
+        .fillColor('#666666')
+        .text(
+          isExport
+            ? `No GST was charged on invoice ${invoice.invoiceNumber}, so none is adjusted.`
+            : `This credit note reduces the GST charged on invoice ${invoice.invoiceNumber} by ${formatCurrency(creditNote.taxCents)}.`,
+          50,
+          totalY + 90,
+          { width: pageWidth },
+        );
+
+      const notesY = totalY + 120;
+      doc.rect(50, notesY, pageWidth, 60)
+        .fillColor('#f0f9ff')
+        .fill();
+
+      doc.font('Helvetica-Bold')
+        .fontSize(10)
+        .fillColor('#1e3a5f')
+        .text('Refund Information', 60, notesY + 12);
+
+      doc.font('Helvetica')
+        .fontSize(9)
+        .fillColor('#333333')
+        .text(
+          creditNote.method === 'card'
+            ? 'This amount has been refunded to your credit/debit card.'
+            : 'This amount has been credited to your OzVPS wallet balance.',
+          60,
+          notesY + 28,
+        )
+        .text(
+          creditNote.method === 'card'
+            ? 'Card refunds usually appear on your statement within 5-10 business days.'
+            : 'It will be used for your next charges.',
+          60,
+          notesY + 42,
+        );
+
+      drawFooter(doc);
 
       doc.end();
     } catch (error) {
@@ -184,10 +377,261 @@ export async function generateInvoicePDF(invoice: Invoice): Promise<Buffer> {
   });
 }
 
+export interface StatementEntry {
+  date: Date;
+  category: string;
+  description: string;
+  amountCents: number;
+  balanceCents: number; // wallet balance after this entry
+}
+
+export interface StatementCharge {
+  date: Date;
+  description: string;
+  amountCents: number;
+  invoiceNumber: string | null;
+}
+
+// Monthly account statement: the wallet's opening balance, everything that moved it
+// during the month and the closing balance, then the charges with their invoices
+export async function generateStatementPDF(
+  statement: AccountStatement,
+  customer: { email: string; name: string | null },
+  entries: StatementEntry[],
+  charges: StatementCharge[],
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    try {
+      const periodLabel = statementPeriodLabel(statement.period);
+      const doc = new PDFDocument({
+        size: 'A4',
+        margin: 50,
+        info: {
+          Title: `Account Statement ${periodLabel}`,
+          Author: BUSINESS_DETAILS.name,
+        },
+      });
+
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      const pageWidth = doc.page.width - 100;
+      const pageBottom = doc.page.height - 100;
+      const rowHeight = 22;
+
+      drawLetterhead(doc, 'Account Statement');
+
+      const detailsY = 140;
+      doc.fontSize(12)
+        .font('Helvetica-Bold')
+        .fillColor('#1e3a5f')
+        .text('Statement Details', 50, detailsY)
+        .text('Account', 350, detailsY);
+
+      const periodEnd = new Date(statement.periodEnd.getTime() - 1);
+      doc.fontSize(10)
+        .fillColor('#333333');
+      doc.font('Helvetica-Bold').text('Period:', 50, detailsY + 25);
+      doc.font('Helvetica').text(`${formatDate(statement.periodStart)} - ${formatDate(periodEnd)}`, 160, detailsY + 25);
+      doc.font('Helvetica-Bold').text('Issued:', 50, detailsY + 43);
+      doc.font('Helvetica').text(formatDate(statement.createdAt), 160, detailsY + 43);
+
+      [customer.name, customer.email].filter((line): line is string => !!line).forEach((line, index) => {
+        doc.text(line, 350, detailsY + 25 + 18 * index);
+      });
+
+      const summaryY = detailsY + 80;
+      const summary: Array<[string, number]> = [
+        ['Opening balance', statement.openingBalanceCents],
+        ['Credits', statement.creditsCents],
+        ['Debits', -statement.debitsCents],
+        ['Closing balance', statement.closingBalanceCents],
+      ];
+      doc.rect(50, summaryY, pageWidth, 50)
+        .fillColor('#f0f9ff')
+        .fill();
+      summary.forEach(([label, cents], index) => {
+        const x = 60 + (pageWidth / 4) * index;
+        doc.font('Helvetica')
+          .fontSize(9)
+          .fillColor('#666666')
+          .text(label, x, summaryY + 10);
+        doc.font('Helvetica-Bold')
+          .fontSize(12)
+          .fillColor('#1e3a5f')
+          .text(formatCurrency(cents), x, summaryY + 25);
+      });
+
+      let y = summaryY + 75;
+
+      // Start a new page when the next row won't fit, repeating the table header
+      const ensureRoom = (drawHeader: () => void) => {
+        if (y + rowHeight <= pageBottom) return;
+        drawFooter(doc);
+        doc.addPage();
+        y = 50;
+        drawHeader();
+      };
+
+      const activityHeader = () => {
+        doc.rect(50, y, pageWidth, 24)
+          .fillColor('#1e3a5f')
+          .fill();
+        doc.font('Helvetica-Bold')
+          .fontSize(9)
+          .fillColor('#ffffff')
+          .text('Date', 60, y + 8)
+          .text('Type', 130, y + 8)
+          .text('Description', 200, y + 8)
+          .text('Amount', 370, y + 8, { width: 60, align: 'right' })
+          .text('Balance', 435, y + 8, { width: 60, align: 'right' });
+        y += 24;
+      };
+
+      doc.font('Helvetica-Bold')
+        .fontSize(12)
+        .fillColor('#1e3a5f')
+        .text('Wallet Activity', 50, y);
+      y += 20;
+      activityHeader();
+
+      const activityRows: Array<Omit<StatementEntry, 'date'> & { date: Date | null }> = [
+        { date: statement.periodStart, category: '', description: 'Opening balance', amountCents: 0, balanceCents: statement.openingBalanceCents },
+        ...entries,
+      ];
+      activityRows.forEach((row, index) => {
+        ensureRoom(activityHeader);
+        if (index % 2 === 0) {
+          doc.rect(50, y, pageWidth, rowHeight)
+            .fillColor('#f8f9fa')
+            .fill();
+        }
+        doc.font('Helvetica')
+          .fontSize(9)
+          .fillColor('#333333')
+          .text(row.date ? formatShortDate(row.date) : '', 60, y + 7)
+          .text(row.category, 130, y + 7)
+          .text(row.description, 200, y + 7, { width: 165, height: rowHeight - 7, ellipsis: true })
+          .text(index === 0 ? '' : formatCurrency(row.amountCents), 370, y + 7, { width: 60, align: 'right' })
+          .text(formatCurrency(row.balanceCents), 435, y + 7, { width: 60, align: 'right' });
+        y += rowHeight;
+      });
+
+      ensureRoom(activityHeader);
+      doc.font('Helvetica-Bold')
+        .fontSize(10)
+        .fillColor('#1e3a5f')
+        .text('Closing balance', 200, y + 7)
+        .text(formatCurrency(statement.closingBalanceCents), 435, y + 7, { width: 60, align: 'right' });
+      y += rowHeight + 20;
+
+      if (charges.length > 0) {
+        const chargesHeader = () => {
+          doc.rect(50, y, pageWidth, 24)
+            .fillColor('#1e3a5f')
+            .fill();
+          doc.font('Helvetica-Bold')
+            .fontSize(9)
+            .fillColor('#ffffff')
+            .text('Date', 60, y + 8)
+            .text('Description', 130, y + 8)
+            .text('Invoice', 335, y + 8)
+            .text('Amount', 435, y + 8, { width: 60, align: 'right' });
+          y += 24;
+        };
+
+        ensureRoom(() => {});
+        doc.font('Helvetica-Bold')
+          .fontSize(12)
+          .fillColor('#1e3a5f')
+          .text('Charges', 50, y);
+        y += 20;
+        chargesHeader();
+
+        charges.forEach((charge, index) => {
+          ensureRoom(chargesHeader);
+          if (index % 2 === 0) {
+            doc.rect(50, y, pageWidth, rowHeight)
+              .fillColor('#f8f9fa')
+              .fill();
+          }
+          doc.font('Helvetica')
+            .fontSize(9)
+            .fillColor('#333333')
+            .text(formatShortDate(charge.date), 60, y + 7)
+            .text(charge.description, 130, y + 7, { width: 200, height: rowHeight - 7, ellipsis: true })
+            .text(charge.invoiceNumber ?? '-', 335, y + 7)
+            .text(formatCurrency(charge.amountCents), 435, y + 7, { width: 60, align: 'right' });
+          y += rowHeight;
+        });
+      }
+
+      drawFooter(doc);
+
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+function drawLetterhead(doc: PDFKit.PDFDocument, title: string): void {
+  const pageWidth = doc.page.width - 100;
+
+  doc.fontSize(28)
+    .font('Helvetica-Bold')
+    .fillColor('#1e3a5f')
+    .text(BUSINESS_DETAILS.name, 50, 50);
+
+  doc.fontSize(14)
+    .font('Helvetica-Bold')
+    .fillColor('#333333')
+    .text(title, 50, 85);
+
+  doc.fontSize(9)
+    .font('Helvetica')
+    .fillColor('#333333')
+    .text(BUSINESS_DETAILS.address, 400, 50, { align: 'right' })
+    .text(`ABN: ${BUSINESS_DETAILS.abn}`, { align: 'right' })
+    .text(BUSINESS_DETAILS.email, { align: 'right' })
+    .text(BUSINESS_DETAILS.website, { align: 'right' });
+
+  doc.moveTo(50, 120)
+    .lineTo(pageWidth + 50, 120)
+    .strokeColor('#e0e0e0')
+    .stroke();
+}
+
+function drawFooter(doc: PDFKit.PDFDocument): void {
+  const pageWidth = doc.page.width - 100;
+  const footerY = doc.page.height - 80;
+  doc.moveTo(50, footerY)
+    .lineTo(pageWidth + 50, footerY)
+    .strokeColor('#e0e0e0')
+    .lineWidth(1)
+    .stroke();
+
+  // The footer sits inside the bottom margin, which would otherwise push it onto a new page
+  const bottomMargin = doc.page.margins.bottom;
+  doc.page.margins.bottom = 0;
+  doc.font('Helvetica')
+    .fontSize(8)
+    .fillColor('#999999')
+    .text('Thank you for choosing OzVPS!', 50, footerY + 15, { align: 'center', width: pageWidth })
+    .text(`Generated on ${formatDate(new Date())}`, 50, footerY + 30, { align: 'center', width: pageWidth });
+  doc.page.margins.bottom = bottomMargin;
+}
+
 function formatCurrency(cents: number): string {
   return `$${(cents / 100).toFixed(2)}`;
 }
 
+function formatShortDate(date: Date): string {
+  return date.toLocaleDateString('en-AU', { day: '2-digit', month: 'short' });
+}
+
 function formatDate(date: Date | string): string {
   const d = new Date(date);
   return d.toLocaleDateString('en-AU', {
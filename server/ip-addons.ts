@@ -0,0 +1,65 @@
+import type { IpAddonSettings, ServerAddon, ServerAddonType, ServerBilling } from "@shared/schema";
+
+// Sales stay off until an admin picks the VirtFusion blocks to allocate from
+export const DEFAULT_IP_ADDON_SETTINGS: IpAddonSettings = {
+  ipv4PriceCents: 300,
+  ipv6PriceCents: 100,
+  ipv4BlockId: null,
+  ipv6BlockId: null,
+  maxIpv4PerServer: 4,
+};
+
+// Size of the routed prefix sold as an IPv6 add-on, on top of the server's default /64
+export const IPV6_ADDON_PREFIX_LENGTH = 56;
+
+export function ipAddonLabel(type: ServerAddonType): string {
+  return type === "ipv4" ? "Additional IPv4 address" : `IPv6 /${IPV6_ADDON_PREFIX_LENGTH} prefix`;
+}
+
+export function ipAddonPriceCents(settings: IpAddonSettings, type: ServerAddonType): number {
+  return type === "ipv4" ? settings.ipv4PriceCents : settings.ipv6PriceCents;
+}
+
+export function ipAddonBlockId(settings: IpAddonSettings, type: ServerAddonType): number | null {
+  return type === "ipv4" ? settings.ipv4BlockId : settings.ipv6BlockId;
+}
+
+// What the server's active add-ons add to each renewal
+export function addonMonthlyTotalCents(addons: Pick<ServerAddon, "status" | "monthlyPriceCents">[]): number {
+  return addons
+    .filter((addon) => addon.status === "active")
+    .reduce((sum, addon) => sum + addon.monthlyPriceCents, 0);
+}
+
+export function checkIpAddonPurchase(
+  type: ServerAddonType,
+  billing: Pick<ServerBilling, "status" | "freeServer" | "isTrial" | "adminSuspended">,
+  activeAddons: Pick<ServerAddon, "type" | "status">[],
+  settings: IpAddonSettings,
+): { ok: true } | { ok: false; error: string } {
+  if (ipAddonBlockId(settings, type) === null) {
+    return { ok: false, error: `${type === "ipv4" ? "Additional IPv4 addresses are" : "IPv6 prefixes are"} not available right now.` };
+  }
+  if (billing.isTrial) {
+    return { ok: false, error: "Trial servers can't add IP addresses. Convert the trial to a paid server first." };
+  }
+  if (billing.freeServer) {
+    return { ok: false, error: "Complimentary servers can't add IP addresses. Please contact support." };
+  }
+  if (billing.adminSuspended || billing.status === "suspended" || billing.status === "unpaid") {
+    return { ok: false, error: "Settle any outstanding balance on this server before adding IP addresses." };
+  }
+  if (billing.status !== "active" && billing.status !== "paid") {
+    return { ok: false, error: "IP addresses can't be added to this server right now." };
+  }
+
+  const owned = activeAddons.filter((addon) => addon.status === "active" && addon.type === type).length;
+  if (type === "ipv4" && owned >= settings.maxIpv4PerServer) {
+    return { ok: false, error: `This server already has the maximum of ${settings.maxIpv4PerServer} additional IPv4 addresses.` };
+  }
+  if (type === "ipv6" && owned > 0) {
+    return { ok: false, error: "This server already has an IPv6 prefix." };
+  }
+
+  return { ok: true };
+}
@@ -0,0 +1,48 @@
+import { isIP } from "net";
+
+// Expand an IPv6 address (already validated by isIP) into its eight 16-bit groups
+export function ipv6Groups(address: string): number[] {
+  let text = address;
+  // An embedded IPv4 suffix ("::ffff:192.0.2.1") fills the last two groups
+  const ipv4Tail = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (ipv4Tail) {
+    const [a, b, c, d] = ipv4Tail.slice(1).map(Number);
+    text = `${text.slice(0, ipv4Tail.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const fill = tail === undefined ? [] : new Array(8 - headGroups.length - tailGroups.length).fill("0");
+  return [...headGroups, ...fill, ...tailGroups].map((group) => parseInt(group, 16));
+}
+
+// Format eight 16-bit groups in the RFC 5952 form: lowercase, no leading zeros, and the
+// longest run of two or more zero groups (the first one on a tie) written as "::"
+export function formatIpv6(groups: number[]): string {
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < groups.length; i++) {
+    if (groups[i] !== 0) continue;
+    let end = i;
+    while (end < groups.length && groups[end] === 0) end++;
+    if (end - i > bestLength) {
+      bestStart = i;
+      bestLength = end - i;
+    }
+    i = end;
+  }
+
+  const hex = groups.map((group) => group.toString(16));
+  if (bestStart === -1) return hex.join(":");
+  return `${hex.slice(0, bestStart).join(":")}::${hex.slice(bestStart + bestLength).join(":")}`;
+}
+
+// One spelling per address, so "2001:db8::1" and "2001:0DB8:0:0::1" compare equal
+export function canonicalIp(address: string): string | null {
+  const trimmed = address.trim().toLowerCase();
+  const version = isIP(trimmed);
+  if (version === 4) return trimmed;
+  if (version !== 6) return null;
+  return formatIpv6(ipv6Groups(trimmed));
+}
@@ -0,0 +1,62 @@
+import { isIP } from "net";
+import type { BootDevice, IsoImage } from "@shared/schema";
+import { isPrivateAddress } from "./resource-alerts";
+
+// Pending submissions a customer can have waiting for review at once
+export const MAX_PENDING_ISO_SUBMISSIONS = 3;
+
+export type IsoUrlResult = { ok: true; url: string } | { ok: false; error: string };
+
+// The hypervisor downloads the image, so only public http(s) links to an .iso file are accepted
+export function validateIsoUrl(raw: string): IsoUrlResult {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return { ok: false, error: "ISO URL is not a valid URL" };
+  }
+
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return { ok: false, error: "ISO URL must use http or https" };
+  }
+  if (url.username || url.password) {
+    return { ok: false, error: "ISO URL must not contain credentials" };
+  }
+  if (!url.pathname.toLowerCase().endsWith(".iso")) {
+    return { ok: false, error: "ISO URL must point to an .iso file" };
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (
+    hostname === "localhost"
+    || hostname.endsWith(".localhost")
+    || hostname.endsWith(".local")
+    || hostname.endsWith(".internal")
+    || isPrivateAddress(hostname)
+    || (!isIP(hostname) && !hostname.includes("."))
+  ) {
+    return { ok: false, error: "ISO URL must point to a public host" };
+  }
+
+  return { ok: true, url: url.toString() };
+}
+
+// A customer can mount enabled library images and their own approved submissions
+export function canMountIso(
+  iso: Pick<IsoImage, "auth0UserId" | "status" | "enabled">,
+  auth0UserId: string,
+): boolean {
+  if (iso.status !== "approved" || !iso.enabled) return false;
+  return iso.auth0UserId === null || iso.auth0UserId === auth0UserId;
+}
+
+export type BootOrderResult = { ok: true; bootOrder: BootDevice[] } | { ok: false; error: string };
+
+// The disk must stay in the list so the server still boots once the ISO is detached
+export function normalizeBootOrder(devices: BootDevice[]): BootOrderResult {
+  const bootOrder = devices.filter((device, index) => devices.indexOf(device) === index);
+  if (!bootOrder.includes("hd")) {
+    return { ok: false, error: "Boot order must include the disk" };
+  }
+  return { ok: true, bootOrder };
+}
@@ -0,0 +1,122 @@
+import type { MetricHistoryRange, MetricResolution, ServerMetricSample } from "@shared/schema";
+
+export const METRIC_RESOLUTION_MS: Record<MetricResolution, number> = {
+  "5m": 5 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "1d": 24 * 60 * 60 * 1000,
+};
+
+// How long each resolution is kept. Raw samples only need to outlive the hourly rollup,
+// and daily rollups cover a full year for capacity planning.
+export const METRIC_RETENTION_DAYS: Record<MetricResolution, number> = {
+  "5m": 3,
+  "1h": 35,
+  "1d": 400,
+};
+
+export const METRIC_HISTORY_RANGE_CONFIG: Record<MetricHistoryRange, { days: number; resolution: MetricResolution }> = {
+  "24h": { days: 1, resolution: "5m" },
+  "7d": { days: 7, resolution: "1h" },
+  "30d": { days: 30, resolution: "1h" },
+  "90d": { days: 90, resolution: "1d" },
+  "365d": { days: 365, resolution: "1d" },
+};
+
+export type MetricSampleValues = Pick<
+  ServerMetricSample,
+  | "bucketStart"
+  | "sampleCount"
+  | "cpuAvg"
+  | "cpuMax"
+  | "memoryAvg"
+  | "memoryMax"
+  | "diskPercent"
+  | "diskReadBps"
+  | "diskWriteBps"
+  | "netRxBps"
+  | "netTxBps"
+>;
+
+export function metricBucketStart(date: Date, resolution: MetricResolution): Date {
+  const size = METRIC_RESOLUTION_MS[resolution];
+  return new Date(Math.floor(date.getTime() / size) * size);
+}
+
+// Bytes per second between two readings of a cumulative counter. A counter that went
+// backwards means the server restarted, so there is no meaningful rate for that interval.
+export function counterRate(previous: number | null | undefined, current: number | null | undefined, seconds: number): number | null {
+  if (previous == null || current == null || seconds <= 0 || current < previous) {
+    return null;
+  }
+  return Math.round((current - previous) / seconds);
+}
+
+function weightedAverage(rows: MetricSampleValues[], pick: (row: MetricSampleValues) => number | null): number | null {
+  let total = 0;
+  let weight = 0;
+  for (const row of rows) {
+    const value = pick(row);
+    if (value == null) continue;
+    total += value * row.sampleCount;
+    weight += row.sampleCount;
+  }
+  return weight > 0 ? total / weight : null;
+}
+
+function roundedAverage(rows: MetricSampleValues[], pick: (row: MetricSampleValues) => number | null): number | null {
+  const average = weightedAverage(rows, pick);
+  return average === null ? null : Math.round(average);
+}
+
+/**
+ * Folds samples from a finer resolution into buckets of the given resolution.
+ * Averages are weighted by how many raw samples each row already represents,
+ * so a daily rollup built from hourly rows matches one built from raw samples.
+ */
+export function rollupMetricSamples(rows: MetricSampleValues[], resolution: MetricResolution): MetricSampleValues[] {
+  const buckets = new Map<number, MetricSampleValues[]>();
+  for (const row of rows) {
+    const key = metricBucketStart(row.bucketStart, resolution).getTime();
+    const bucket = buckets.get(key) ?? [];
+    bucket.push(row);
+    buckets.set(key, bucket);
+  }
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([key, bucket]) => ({
+      bucketStart: new Date(key),
+      sampleCount: bucket.reduce((sum, row) => sum + row.sampleCount, 0),
+      cpuAvg: weightedAverage(bucket, (row) => row.cpuAvg) ?? 0,
+      cpuMax: Math.max(...bucket.map((row) => row.cpuMax)),
+      memoryAvg: weightedAverage(bucket, (row) => row.memoryAvg) ?? 0,
+      memoryMax: Math.max(...bucket.map((row) => row.memoryMax)),
+      diskPercent: weightedAverage(bucket, (row) => row.diskPercent),
+      diskReadBps: roundedAverage(bucket, (row) => row.diskReadBps),
+      diskWriteBps: roundedAverage(bucket, (row) => row.diskWriteBps),
+      netRxBps: roundedAverage(bucket, (row) => row.netRxBps),
+      netTxBps: roundedAverage(bucket, (row) => row.netTxBps),
+    }));
+}
+
+const CSV_COLUMNS: Array<{ header: string; value: (row: MetricSampleValues) => string | number | null }> = [
+  { header: "timestamp", value: (row) => row.bucketStart.toISOString() },
+  { header: "cpu_avg_percent", value: (row) => row.cpuAvg.toFixed(2) },
+  { header: "cpu_max_percent", value: (row) => row.cpuMax.toFixed(2) },
+  { header: "memory_avg_percent", value: (row) => row.memoryAvg.toFixed(2) },
+  { header: "memory_max_percent", value: (row) => row.memoryMax.toFixed(2) },
+  { header: "disk_used_percent", value: (row) => row.diskPercent?.toFixed(2) ?? null },
+  { header: "disk_read_bytes_per_sec", value: (row) => row.diskReadBps },
+  { header: "disk_write_bytes_per_sec", value: (row) => row.diskWriteBps },
+  { header: "net_rx_bytes_per_sec", value: (row) => row.netRxBps },
+  { header: "net_tx_bytes_per_sec", value: (row) => row.netTxBps },
+  { header: "samples", value: (row) => row.sampleCount },
+];
+
+export function metricsHistoryToCsv(rows: MetricSampleValues[]): string {
+  const lines = [CSV_COLUMNS.map((column) => column.header).join(",")];
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map((column) => column.value(row) ?? "").join(","));
+  }
+  return `${lines.join("\n")}\n`;
+}
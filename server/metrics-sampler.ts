@@ -0,0 +1,189 @@
+import { dbStorage } from "./storage";
+import { virtfusionClient } from "./virtfusion";
+import { log } from './log';
+import {
+  METRIC_RESOLUTION_MS,
+  METRIC_RETENTION_DAYS,
+  counterRate,
+  metricBucketStart,
+  rollupMetricSamples,
+} from "./metrics-history";
+import { METRIC_RESOLUTIONS, type InsertServerMetricSample, type MetricResolution, type ServerMetricSample } from "../shared/schema";
+import {
+  markProcessorFailed,
+  markProcessorStarted,
+  markProcessorSucceeded,
+  scheduleProcessorRun,
+} from "./processor-health";
+
+const PROCESSING_INTERVAL_MS = 5 * 60 * 1000;
+const METRICS_SAMPLER_PROCESSOR = "metrics-sampler";
+// Rollups are rebuilt for a few recent buckets each hour so a missed run catches up
+const ROLLUP_LOOKBACK_BUCKETS = 3;
+
+let isRunning = false;
+let lastRollupHour: number | null = null;
+
+type IoCounters = {
+  diskReadBytes: number | null;
+  diskWriteBytes: number | null;
+  netRxBytes: number | null;
+  netTxBytes: number | null;
+};
+
+// Last counter reading per server. Rates need two readings, so the first sample after a restart has none.
+const previousCounters = new Map<string, { at: number; counters: IoCounters }>();
+
+type MetricsSamplerRunResult = {
+  servers: number;
+  sampled: number;
+  skipped: number;
+  rolledUp: number;
+  pruned: number;
+  errors: number;
+};
+
+async function sampleServer(serverId: string, now: Date): Promise<InsertServerMetricSample | null> {
+  const stats = await virtfusionClient.getServerLiveStats(serverId);
+  // A stopped server reports zero usage, which would drag the averages down
+  if (!stats?.running) {
+    previousCounters.delete(serverId);
+    return null;
+  }
+
+  const counters: IoCounters = {
+    diskReadBytes: stats.disk_read_bytes,
+    diskWriteBytes: stats.disk_write_bytes,
+    netRxBytes: stats.net_rx_bytes,
+    netTxBytes: stats.net_tx_bytes,
+  };
+  const previous = previousCounters.get(serverId);
+  previousCounters.set(serverId, { at: now.getTime(), counters });
+  const seconds = previous ? (now.getTime() - previous.at) / 1000 : 0;
+
+  return {
+    virtfusionServerId: serverId,
+    resolution: '5m',
+    bucketStart: metricBucketStart(now, '5m'),
+    sampleCount: 1,
+    cpuAvg: stats.cpu_usage,
+    cpuMax: stats.cpu_usage,
+    memoryAvg: stats.ram_usage,
+    memoryMax: stats.ram_usage,
+    diskPercent: stats.disk_total_gb > 0 ? stats.disk_usage : null,
+    diskReadBps: counterRate(previous?.counters.diskReadBytes, counters.diskReadBytes, seconds),
+    diskWriteBps: counterRate(previous?.counters.diskWriteBytes, counters.diskWriteBytes, seconds),
+    netRxBps: counterRate(previous?.counters.netRxBytes, counters.netRxBytes, seconds),
+    netTxBps: counterRate(previous?.counters.netTxBytes, counters.netTxBytes, seconds),
+  };
+}
+
+// Rebuilds the most recent complete buckets of `target` from the resolution below it
+async function rollup(source: MetricResolution, target: MetricResolution, now: Date): Promise<number> {
+  const to = metricBucketStart(now, target);
+  const from = new Date(to.getTime() - ROLLUP_LOOKBACK_BUCKETS * METRIC_RESOLUTION_MS[target]);
+  const rows = await dbStorage.getMetricSamplesBetween(source, from, to);
+
+  const rowsByServer = new Map<string, ServerMetricSample[]>();
+  for (const row of rows) {
+    const serverRows = rowsByServer.get(row.virtfusionServerId) ?? [];
+    serverRows.push(row);
+    rowsByServer.set(row.virtfusionServerId, serverRows);
+  }
+
+  const rollups: InsertServerMetricSample[] = [];
+  for (const [serverId, serverRows] of Array.from(rowsByServer.entries())) {
+    for (const bucket of rollupMetricSamples(serverRows, target)) {
+      rollups.push({ ...bucket, virtfusionServerId: serverId, resolution: target });
+    }
+  }
+
+  await dbStorage.upsertMetricSamples(rollups);
+  return rollups.length;
+}
+
+async function pruneExpiredSamples(now: Date): Promise<number> {
+  let pruned = 0;
+  for (const resolution of METRIC_RESOLUTIONS) {
+    const cutoff = new Date(now.getTime() - METRIC_RETENTION_DAYS[resolution] * 24 * 60 * 60 * 1000);
+    pruned += await dbStorage.pruneMetricSamples(resolution, cutoff);
+  }
+  return pruned;
+}
+
+async function processMetrics(): Promise<MetricsSamplerRunResult> {
+  const now = new Date();
+  const servers = await dbStorage.getServersForMetricsSampling();
+  const result: MetricsSamplerRunResult = { servers: servers.length, sampled: 0, skipped: 0, rolledUp: 0, pruned: 0, errors: 0 };
+
+  const samples: InsertServerMetricSample[] = [];
+  for (const billing of servers) {
+    try {
+      const sample = await sampleServer(billing.virtfusionServerId, now);
+      if (sample) samples.push(sample);
+      else result.skipped++;
+    } catch (error: any) {
+      result.errors++;
+      log(`Error sampling metrics for server ${billing.virtfusionServerId}: ${error.message}`, 'metrics-sampler');
+    }
+  }
+  await dbStorage.upsertMetricSamples(samples);
+  result.sampled = samples.length;
+
+  // Forget counters for servers that are no longer sampled so the map doesn't grow forever
+  const activeIds = new Set(servers.map((billing) => billing.virtfusionServerId));
+  for (const serverId of Array.from(previousCounters.keys())) {
+    if (!activeIds.has(serverId)) previousCounters.delete(serverId);
+  }
+
+  const hour = metricBucketStart(now, '1h').getTime();
+  if (lastRollupHour !== hour) {
+    result.rolledUp += await rollup('5m', '1h', now);
+    result.rolledUp += await rollup('1h', '1d', now);
+    result.pruned = await pruneExpiredSamples(now);
+    lastRollupHour = hour;
+  }
+
+  return result;
+}
+
+export function startMetricsSampler(): void {
+  if (isRunning) {
+    log('Metrics sampler already running', 'metrics-sampler');
+    return;
+  }
+
+  isRunning = true;
+  log('Starting metrics sampler (sampling every 5 minutes)', 'metrics-sampler');
+
+  const runProcessor = async () => {
+    if (!isRunning) return;
+
+    const nextRunAt = new Date(Date.now() + PROCESSING_INTERVAL_MS);
+    const startedAtMs = await markProcessorStarted(METRICS_SAMPLER_PROCESSOR, { nextRunAt });
+
+    try {
+      const result = await processMetrics();
+      if (result.rolledUp > 0 || result.pruned > 0 || result.errors > 0) {
+        log(`Metrics sampler: ${result.sampled} sampled, ${result.skipped} skipped, ${result.rolledUp} rollups, ${result.pruned} pruned, ${result.errors} errors`, 'metrics-sampler');
+      }
+      await markProcessorSucceeded(METRICS_SAMPLER_PROCESSOR, startedAtMs, { nextRunAt, lastResult: result });
+    } catch (error: any) {
+      log(`Metrics sampler error: ${error.message}`, 'metrics-sampler');
+      await markProcessorFailed(METRICS_SAMPLER_PROCESSOR, error, startedAtMs, { nextRunAt });
+    }
+
+    if (isRunning) {
+      void scheduleProcessorRun(METRICS_SAMPLER_PROCESSOR, { nextRunAt });
+      setTimeout(runProcessor, PROCESSING_INTERVAL_MS);
+    }
+  };
+
+  void scheduleProcessorRun(METRICS_SAMPLER_PROCESSOR, { nextRunAt: new Date() });
+  runProcessor();
+}
+
+export function stopMetricsSampler(): void {
+  isRunning = false;
+  log('Stopping metrics sampler', 'metrics-sampler');
+}
@@ -0,0 +1,100 @@
+// Most vCPUs we will allocate per physical core/thread on a hypervisor
+export const PLACEMENT_MAX_VCPU_RATIO = 4;
+
+export type HypervisorAllocation = {
+  servers: number;
+  vcpu: number;
+  ramMb: number;
+  diskGb: number;
+  ownerIds: number[]; // VirtFusion user IDs with a server on this hypervisor
+};
+
+export interface PlacementCandidate {
+  id: number;
+  name: string;
+  enabled: boolean;
+  maintenance: boolean;
+  drained: boolean;
+  maxServers: number;
+  cpuCores: number | null;
+  ramTotalMb: number | null;
+  diskTotalGb: number | null;
+  allocated: HypervisorAllocation;
+}
+
+export interface PlacementRequest {
+  vcpu: number;
+  ramMb: number;
+  diskGb: number;
+  virtfusionUserId?: number | null;
+}
+
+export type HypervisorFit =
+  | { fits: true; freeRamMb: number | null; vcpuRatio: number | null }
+  | { fits: false; reason: string };
+
+// Totals VirtFusion doesn't report are treated as unconstrained rather than as full
+export function checkHypervisorFit(candidate: PlacementCandidate, request: PlacementRequest): HypervisorFit {
+  if (!candidate.enabled || candidate.maintenance) {
+    return { fits: false, reason: "unavailable" };
+  }
+  if (candidate.drained) {
+    return { fits: false, reason: "drained" };
+  }
+  if (candidate.allocated.servers >= candidate.maxServers) {
+    return { fits: false, reason: "server limit reached" };
+  }
+
+  let freeRamMb: number | null = null;
+  if (candidate.ramTotalMb !== null) {
+    freeRamMb = candidate.ramTotalMb - candidate.allocated.ramMb - request.ramMb;
+    if (freeRamMb < 0) return { fits: false, reason: "not enough RAM" };
+  }
+
+  if (candidate.diskTotalGb !== null && candidate.diskTotalGb - candidate.allocated.diskGb < request.diskGb) {
+    return { fits: false, reason: "not enough disk" };
+  }
+
+  let vcpuRatio: number | null = null;
+  if (candidate.cpuCores) {
+    vcpuRatio = (candidate.allocated.vcpu + request.vcpu) / candidate.cpuCores;
+    if (vcpuRatio > PLACEMENT_MAX_VCPU_RATIO) return { fits: false, reason: "vCPU overcommit limit reached" };
+  }
+
+  return { fits: true, freeRamMb, vcpuRatio };
+}
+
+export type PlacementDecision =
+  | { ok: true; hypervisor: PlacementCandidate; sharesAccount: boolean }
+  | { ok: false; rejected: Array<{ id: number; name: string; reason: string }> };
+
+// Prefers a hypervisor without another server on the same account, then the one left with
+// the most free RAM, then the lowest vCPU overcommit.
+export function chooseHypervisor(candidates: PlacementCandidate[], request: PlacementRequest): PlacementDecision {
+  const fitting: Array<{ candidate: PlacementCandidate; fit: Extract<HypervisorFit, { fits: true }>; sharesAccount: boolean }> = [];
+  const rejected: Array<{ id: number; name: string; reason: string }> = [];
+
+  for (const candidate of candidates) {
+    const fit = checkHypervisorFit(candidate, request);
+    if (!fit.fits) {
+      rejected.push({ id: candidate.id, name: candidate.name, reason: fit.reason });
+      continue;
+    }
+    const sharesAccount = !!request.virtfusionUserId && candidate.allocated.ownerIds.includes(request.virtfusionUserId);
+    fitting.push({ candidate, fit, sharesAccount });
+  }
+
+  if (fitting.length === 0) {
+    return { ok: false, rejected };
+  }
+
+  fitting.sort((a, b) => {
+    if (a.sharesAccount !== b.sharesAccount) return a.sharesAccount ? 1 : -1;
+    const ramA = a.fit.freeRamMb ?? Number.MAX_SAFE_INTEGER;
+    const ramB = b.fit.freeRamMb ?? Number.MAX_SAFE_INTEGER;
+    if (ramA !== ramB) return ramB - ramA;
+    return (a.fit.vcpuRatio ?? 0) - (b.fit.vcpuRatio ?? 0);
+  });
+
+  return { ok: true, hypervisor: fitting[0].candidate, sharesAccount: fitting[0].sharesAccount };
+}
@@ -0,0 +1,72 @@
+import type { Plan, ServerBilling } from "@shared/schema";
+
+// Subtract calendar months from a date, clamping to the last day of the target month
+export function subtractMonth(date: Date, months: number = 1): Date {
+  const result = new Date(date);
+  const targetMonth = (((result.getMonth() - months) % 12) + 12) % 12;
+  result.setMonth(result.getMonth() - months);
+
+  // e.g. Mar 31 - 1 month lands on Mar 3 (via Feb 31); step back to Feb 28/29
+  if (result.getMonth() !== targetMonth) {
+    result.setDate(0);
+  }
+
+  return result;
+}
+
+export function checkPlanChangeEligibility(
+  billing: Pick<ServerBilling, "status" | "freeServer" | "isTrial" | "adminSuspended">,
+  currentPlan: Pick<Plan, "id" | "storageGb">,
+  newPlan: Pick<Plan, "id" | "storageGb" | "active" | "virtfusionPackageId">,
+): { ok: true } | { ok: false; error: string } {
+  if (newPlan.id === currentPlan.id) {
+    return { ok: false, error: "Server is already on this plan." };
+  }
+  if (!newPlan.active || !newPlan.virtfusionPackageId) {
+    return { ok: false, error: "That plan is not available." };
+  }
+  if (billing.isTrial) {
+    return { ok: false, error: "Trial servers can't change plans. Convert the trial to a paid server first." };
+  }
+  if (billing.freeServer) {
+    return { ok: false, error: "Complimentary servers can't change plans. Please contact support." };
+  }
+  if (billing.adminSuspended || billing.status === "suspended" || billing.status === "unpaid") {
+    return { ok: false, error: "Settle any outstanding balance on this server before changing plans." };
+  }
+  if (billing.status !== "active" && billing.status !== "paid") {
+    return { ok: false, error: "This server's plan can't be changed right now." };
+  }
+  // Disks can grow in place but can't be shrunk without data loss
+  if (newPlan.storageGb < currentPlan.storageGb) {
+    return { ok: false, error: "You can't move to a plan with less storage than your current plan." };
+  }
+
+  return { ok: true };
+}
+
+/**
+ * Price a mid-cycle plan change. The difference between the two prices for
+ * the billing period is charged (or credited, when negative) for the share of
+ * the current period that is still left. Prepaid servers pass their term
+ * length and the prices for a whole term.
+ */
+export function calculatePlanChangeProration(params: {
+  currentPriceCents: number;
+  newPriceCents: number;
+  nextBillAt: Date;
+  termMonths?: number;
+  now?: Date;
+}): { amountCents: number; remainingFraction: number; periodStart: Date } {
+  const now = params.now ?? new Date();
+  const periodEnd = params.nextBillAt;
+  const periodStart = subtractMonth(periodEnd, params.termMonths ?? 1);
+
+  const periodMs = periodEnd.getTime() - periodStart.getTime();
+  const remainingMs = periodEnd.getTime() - now.getTime();
+  const remainingFraction = periodMs > 0 ? Math.min(1, Math.max(0, remainingMs / periodMs)) : 0;
+
+  const amountCents = Math.round((params.newPriceCents - params.currentPriceCents) * remainingFraction);
+
+  return { amountCents, remainingFraction, periodStart };
+}
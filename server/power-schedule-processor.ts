@@ -0,0 +1,147 @@
+import { dbStorage } from "./storage";
+import { virtfusionClient } from "./virtfusion";
+import { log } from './log';
+import { sendScheduledPowerActionFailedEmail } from "./email";
+import { computeNextScheduledRun, VIRTFUSION_POWER_ACTIONS } from "./power-schedules";
+import type { ScheduledPowerActionRecord } from "../shared/schema";
+import {
+  markProcessorFailed,
+  markProcessorStarted,
+  markProcessorSucceeded,
+  scheduleProcessorRun,
+} from "./processor-health";
+
+const PROCESSING_INTERVAL_MS = 60 * 1000;
+const POWER_SCHEDULE_PROCESSOR = "power-schedules";
+
+let isRunning = false;
+
+function formatScheduledFor(date: Date, timeZone: string): string {
+  return date.toLocaleString('en-AU', { timeZone, dateStyle: 'medium', timeStyle: 'short' });
+}
+
+async function runSchedule(schedule: ScheduledPowerActionRecord, now: Date): Promise<'success' | 'failed' | 'skipped' | 'claimed'> {
+  const scheduledFor = schedule.nextRunAt!;
+
+  // Recurring schedules skip any runs missed while the processor was down rather than replaying them
+  const nextRunAt = computeNextScheduledRun(
+    { cronExpression: schedule.cronExpression, runAt: null, timezone: schedule.timezone },
+    scheduledFor > now ? scheduledFor : now,
+  );
+  const claimed = await dbStorage.claimPowerScheduleRun(schedule.id, scheduledFor, nextRunAt);
+  if (!claimed) {
+    return 'claimed';
+  }
+
+  const record = (status: 'success' | 'failed' | 'skipped', error: string | null) =>
+    dbStorage.recordPowerScheduleRun({
+      scheduleId: schedule.id,
+      virtfusionServerId: schedule.virtfusionServerId,
+      action: schedule.action,
+      scheduledFor,
+      status,
+      error,
+    });
+
+  let serverName = `Server ${schedule.virtfusionServerId}`;
+  try {
+    const server = await virtfusionClient.getServer(schedule.virtfusionServerId);
+    serverName = server.name || serverName;
+
+    // Suspended servers and servers on their way out are left alone; the customer already hears about those
+    if (server.suspended) {
+      await record('skipped', 'Server is suspended');
+      return 'skipped';
+    }
+    const cancellation = await dbStorage.getCancellationByServerId(schedule.virtfusionServerId, schedule.auth0UserId);
+    if (cancellation) {
+      await record('skipped', 'Server is scheduled for deletion');
+      return 'skipped';
+    }
+
+    await virtfusionClient.powerAction(schedule.virtfusionServerId, VIRTFUSION_POWER_ACTIONS[schedule.action]);
+    await record('success', null);
+    log(`Ran scheduled ${schedule.action} for server ${schedule.virtfusionServerId} (schedule ${schedule.id})`, 'power-schedules');
+    return 'success';
+  } catch (error: any) {
+    const reason = error.message?.includes('423') || error.message?.includes('Locked')
+      ? 'Server was busy with another operation'
+      : error.message || 'Unknown error';
+    log(`Scheduled ${schedule.action} failed for server ${schedule.virtfusionServerId} (schedule ${schedule.id}): ${error.message}`, 'power-schedules');
+    await record('failed', reason);
+
+    const emailResult = await sendScheduledPowerActionFailedEmail(
+      schedule.email,
+      serverName,
+      schedule.virtfusionServerId,
+      schedule.action,
+      formatScheduledFor(scheduledFor, schedule.timezone),
+      reason,
+    );
+    if (!emailResult.success) {
+      log(`Could not send power schedule failure email for schedule ${schedule.id}: ${emailResult.error}`, 'power-schedules');
+    }
+    return 'failed';
+  }
+}
+
+async function processDueSchedules(): Promise<{ due: number; succeeded: number; failed: number; skipped: number }> {
+  const now = new Date();
+  const due = await dbStorage.getDuePowerSchedules(now);
+  const result = { due: due.length, succeeded: 0, failed: 0, skipped: 0 };
+
+  for (const schedule of due) {
+    try {
+      const outcome = await runSchedule(schedule, now);
+      if (outcome === 'success') result.succeeded++;
+      else if (outcome === 'failed') result.failed++;
+      else if (outcome === 'skipped') result.skipped++;
+    } catch (error: any) {
+      result.failed++;
+      log(`Error processing power schedule ${schedule.id}: ${error.message}`, 'power-schedules');
+    }
+  }
+
+  return result;
+}
+
+export function startPowerScheduleProcessor(): void {
+  if (isRunning) {
+    log('Power schedule processor already running', 'power-schedules');
+    return;
+  }
+
+  isRunning = true;
+  log('Starting power schedule processor (checking every minute)', 'power-schedules');
+
+  const runProcessor = async () => {
+    if (!isRunning) return;
+
+    const nextRunAt = new Date(Date.now() + PROCESSING_INTERVAL_MS);
+    const startedAtMs = await markProcessorStarted(POWER_SCHEDULE_PROCESSOR, { nextRunAt });
+
+    try {
+      const result = await processDueSchedules();
+      if (result.due > 0) {
+        log(`Power schedule processor: ${result.succeeded} succeeded, ${result.failed} failed, ${result.skipped} skipped`, 'power-schedules');
+      }
+      await markProcessorSucceeded(POWER_SCHEDULE_PROCESSOR, startedAtMs, { nextRunAt, lastResult: result });
+    } catch (error: any) {
+      log(`Power schedule processor error: ${error.message}`, 'power-schedules');
+      await markProcessorFailed(POWER_SCHEDULE_PROCESSOR, error, startedAtMs, { nextRunAt });
+    }
+
+    if (isRunning) {
+      void scheduleProcessorRun(POWER_SCHEDULE_PROCESSOR, { nextRunAt });
+      setTimeout(runProcessor, PROCESSING_INTERVAL_MS);
+    }
+  };
+
+  void scheduleProcessorRun(POWER_SCHEDULE_PROCESSOR, { nextRunAt: new Date() });
+  runProcessor();
+}
+
+export function stopPowerScheduleProcessor(): void {
+  isRunning = false;
+  log('Stopping power schedule processor', 'power-schedules');
+}
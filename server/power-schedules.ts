@@ -0,0 +1,202 @@
+import type { ScheduledPowerAction } from "@shared/schema";
+
+export const MAX_POWER_SCHEDULES_PER_SERVER = 10;
+export const MAX_POWER_SCHEDULE_RUNS_SHOWN = 20;
+
+// Panel action names mapped to the VirtFusion power endpoint they call
+export const VIRTFUSION_POWER_ACTIONS: Record<ScheduledPowerAction, "start" | "restart" | "stop" | "poweroff"> = {
+  boot: "start",
+  reboot: "restart",
+  shutdown: "stop",
+  poweroff: "poweroff",
+};
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron rule: when both day fields are restricted, either may match
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+function parseField(field: string, min: number, max: number): Set<number> | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const match = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+    if (!match) return null;
+
+    let start = min;
+    let end = max;
+    if (match[1] !== "*") {
+      const [from, to] = match[1].split("-").map(Number);
+      start = from;
+      end = to ?? (match[2] ? max : from);
+    }
+    const step = match[2] ? Number(match[2]) : 1;
+
+    if (start < min || end > max || start > end || step < 1) return null;
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression (minute hour day-of-month month
+ * day-of-week). Supports *, lists, ranges and steps; day of week accepts
+ * both 0 and 7 for Sunday.
+ */
+export function parseCronExpression(expression: string): { ok: true; schedule: CronSchedule } | { ok: false; error: string } {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    return { ok: false, error: "Cron expression must have 5 fields: minute hour day month weekday." };
+  }
+
+  const parsed: Set<number>[] = [];
+  for (let i = 0; i < fields.length; i++) {
+    const { name, min, max } = FIELD_RANGES[i];
+    const values = parseField(fields[i], min, max);
+    if (!values) {
+      return { ok: false, error: `Invalid ${name} field "${fields[i]}".` };
+    }
+    parsed.push(values);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parsed;
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  // A schedule that fires every minute would hammer the hypervisor; one run per hour is plenty
+  if (minutes.size !== 1) {
+    return { ok: false, error: "Power schedules can run at most once per hour. Use a single minute value." };
+  }
+
+  return {
+    ok: true,
+    schedule: {
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      dayOfMonthRestricted: fields[2] !== "*",
+      dayOfWeekRestricted: fields[4] !== "*",
+    },
+  };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-AU", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock time in the zone, expressed as a UTC timestamp so it can be stepped with UTC setters
+function toWallClock(instant: Date, timeZone: string): Date {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  return new Date(Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second")));
+}
+
+function fromWallClock(wall: Date, timeZone: string): Date {
+  const guess = new Date(wall.getTime());
+  const offset = toWallClock(guess, timeZone).getTime() - guess.getTime();
+  const candidate = new Date(wall.getTime() - offset);
+  // Re-check in case the guess and the answer fall on opposite sides of a DST change
+  const correctedOffset = toWallClock(candidate, timeZone).getTime() - candidate.getTime();
+  return correctedOffset === offset ? candidate : new Date(wall.getTime() - correctedOffset);
+}
+
+function dayMatches(schedule: CronSchedule, wall: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(wall.getUTCDate());
+  const dowMatch = schedule.daysOfWeek.has(wall.getUTCDay());
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Find the first time strictly after `after` that the schedule fires, in the
+ * given IANA time zone. Returns null when nothing matches within five years
+ * (e.g. "0 0 31 2 *").
+ */
+export function nextCronRun(schedule: CronSchedule, timeZone: string, after: Date): Date | null {
+  const wall = toWallClock(after, timeZone);
+  wall.setUTCSeconds(0, 0);
+  wall.setUTCMinutes(wall.getUTCMinutes() + 1);
+
+  const limit = wall.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+  while (wall.getTime() < limit) {
+    if (!schedule.months.has(wall.getUTCMonth() + 1)) {
+      wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(schedule, wall)) {
+      wall.setUTCDate(wall.getUTCDate() + 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(wall.getUTCHours())) {
+      wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(wall.getUTCMinutes())) {
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    const instant = fromWallClock(wall, timeZone);
+    if (instant.getTime() > after.getTime()) {
+      return instant;
+    }
+    wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+  }
+
+  return null;
+}
+
+/**
+ * Work out when a schedule should next run. One-off schedules run once at
+ * `runAt`; recurring schedules follow their cron expression.
+ */
+export function computeNextScheduledRun(
+  schedule: { cronExpression: string | null; runAt: Date | null; timezone: string },
+  after: Date,
+): Date | null {
+  if (!schedule.cronExpression) {
+    return schedule.runAt && schedule.runAt.getTime() > after.getTime() ? schedule.runAt : null;
+  }
+
+  const parsed = parseCronExpression(schedule.cronExpression);
+  if (!parsed.ok) return null;
+  return nextCronRun(parsed.schedule, schedule.timezone, after);
+}
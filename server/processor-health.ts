@@ -79,6 +79,62 @@ export const PROCESSOR_DEFINITIONS: ProcessorDefinition[] = [
     graceMs: 20 * 60 * 1000,
     maxRuntimeMs: 45 * 60 * 1000,
   },
+  {
+    name: "power-schedules",
+    label: "Power Schedules",
+    description: "Runs customer-scheduled boots, reboots, shutdowns and power-offs.",
+    intervalMs: 60 * 1000,
+    graceMs: 5 * 60 * 1000,
+    maxRuntimeMs: 10 * 60 * 1000,
+  },
+  {
+    name: "resource-alerts",
+    label: "Resource Alerts",
+    description: "Checks customer CPU, memory, disk and transfer alert rules and sends notifications.",
+    intervalMs: 60 * 1000,
+    graceMs: 5 * 60 * 1000,
+    maxRuntimeMs: 10 * 60 * 1000,
+  },
+  {
+    name: "transfer-quotas",
+    label: "Transfer Quotas",
+    description: "Tracks monthly transfer per server, sends quota warnings and applies the overage policy.",
+    intervalMs: 30 * 60 * 1000,
+    graceMs: 15 * 60 * 1000,
+    maxRuntimeMs: 20 * 60 * 1000,
+  },
+  {
+    name: "account-statements",
+    label: "Account Statements",
+    description: "Issues and emails each account's monthly statement once the month is over.",
+    intervalMs: 60 * 60 * 1000,
+    graceMs: 20 * 60 * 1000,
+    maxRuntimeMs: 30 * 60 * 1000,
+  },
+  {
+    name: "metrics-sampler",
+    label: "Metrics Sampler",
+    description: "Stores CPU, memory, disk and network samples for long-term charts and rolls them up hourly and daily.",
+    intervalMs: 5 * 60 * 1000,
+    graceMs: 5 * 60 * 1000,
+    maxRuntimeMs: 10 * 60 * 1000,
+  },
+  {
+    name: "provisioning",
+    label: "Provisioning",
+    description: "Retries failed deploy steps with backoff and refunds orders that run out of attempts.",
+    intervalMs: 30 * 1000,
+    graceMs: 2 * 60 * 1000,
+    maxRuntimeMs: 10 * 60 * 1000,
+  },
+  {
+    name: "rescue-mode",
+    label: "Rescue Mode",
+    description: "Boots servers back from their own disk when a rescue session runs out.",
+    intervalMs: 60 * 1000,
+    graceMs: 5 * 60 * 1000,
+    maxRuntimeMs: 10 * 60 * 1000,
+  },
 ];
 
 const processorDefinitionMap = new Map(PROCESSOR_DEFINITIONS.map((definition) => [definition.name, definition]));
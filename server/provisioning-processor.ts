@@ -0,0 +1,354 @@
+import { eq } from "drizzle-orm";
+import { db } from "./db";
+import { dbStorage } from "./storage";
+import { virtfusionClient } from "./virtfusion";
+import { auth0Client } from "./auth0";
+import { log } from './log';
+import { createServerBilling, invoiceDeployCharge } from "./billing";
+import { findPlacement } from "./hypervisor-placement";
+import { sendDeployFailedEmail, sendServerCredentialsEmail } from "./email";
+import {
+  PROVISIONING_LEASE_MS,
+  PROVISIONING_STEP_LABELS,
+  nextProvisioningStep,
+  planProvisioningFailure,
+} from "./provisioning";
+import { userMappings, type DeployOrder } from "../shared/schema";
+import {
+  markProcessorFailed,
+  markProcessorStarted,
+  markProcessorSucceeded,
+  scheduleProcessorRun,
+} from "./processor-health";
+
+const PROCESSING_INTERVAL_MS = 30 * 1000;
+const PROVISIONING_PROCESSOR = "provisioning";
+
+let isRunning = false;
+
+type ProvisioningRunResult = {
+  due: number;
+  completed: number;
+  retrying: number;
+  failed: number;
+  errors: number;
+};
+
+async function getUserMapping(auth0UserId: string) {
+  const [mapping] = await db.select().from(userMappings).where(eq(userMappings.auth0UserId, auth0UserId));
+  return mapping;
+}
+
+function requireServerId(order: DeployOrder): number {
+  if (!order.virtfusionServerId) {
+    throw new Error('Order has no server yet');
+  }
+  return order.virtfusionServerId;
+}
+
+// Each step checks what a previous attempt already did before doing it again, and returns
+// the fields to store on the order alongside the move to the next step.
+async function runProvisioningStep(order: DeployOrder): Promise<Partial<DeployOrder>> {
+  switch (order.step) {
+    case 'create_user': {
+      if (order.virtfusionUserId && await virtfusionClient.getUserById(order.virtfusionUserId)) {
+        return {};
+      }
+
+      const mapping = await getUserMapping(order.auth0UserId);
+      if (!mapping) {
+        throw new Error('No account mapping for this user');
+      }
+      const user = await virtfusionClient.findOrCreateUser(mapping.email, mapping.name || mapping.email);
+      if (!user) {
+        throw new Error('Could not create or find the VirtFusion account');
+      }
+      if (user.id !== order.virtfusionUserId) {
+        await auth0Client.setVirtFusionUserId(order.auth0UserId, user.id);
+      }
+      return { virtfusionUserId: user.id };
+    }
+
+    case 'create_server': {
+      if (order.virtfusionServerId) return {};
+      if (!order.virtfusionUserId) {
+        throw new Error('Order has no VirtFusion account');
+      }
+
+      const plan = await dbStorage.getPlanById(order.planId);
+      if (!plan?.virtfusionPackageId) {
+        throw new Error('Plan is not configured for deployment');
+      }
+      const hostname = order.hostname || `vps-${order.id}`;
+
+      // The previous attempt may have created the server and lost the response. Adopt it rather than create a second one.
+      if (order.attempts > 0) {
+        const servers = await virtfusionClient.listServersByUserId(order.virtfusionUserId, false);
+        for (const server of servers) {
+          if (server.name !== hostname) continue;
+          if (await dbStorage.getServerBilling(String(server.id))) continue;
+          log(`Order ${order.id}: adopting server ${server.id} created by an earlier attempt`, 'provisioning');
+          return { virtfusionServerId: Number(server.id), virtfusionServerUuid: server.uuid ?? null };
+        }
+      }
+
+      // Capacity may have gone since the order was paid. Failing here retries and, if it never frees up, refunds.
+      if (order.hypervisorGroupId) {
+        const placement = await findPlacement(order.hypervisorGroupId, plan, order.virtfusionUserId);
+        if (!placement.ok) {
+          throw new Error(`Location is full (${placement.reasons})`);
+        }
+      }
+
+      const created = await virtfusionClient.createServer({
+        userId: order.virtfusionUserId,
+        packageId: plan.virtfusionPackageId,
+        hostname,
+        hypervisorGroupId: order.hypervisorGroupId,
+      });
+      return { virtfusionServerId: created.serverId, virtfusionServerUuid: created.uuid ?? null };
+    }
+
+    case 'build': {
+      const serverId = requireServerId(order);
+      if (!order.osId) return {};
+
+      // Don't queue a second build if the last attempt's request went through
+      if (order.attempts > 0) {
+        const status = await virtfusionClient.getServerBuildStatus(String(serverId));
+        if (status.phase === 'building' || status.phase === 'complete') return {};
+      }
+
+      const hostname = order.hostname || `vps-${order.id}`;
+      const build = await virtfusionClient.buildServer(serverId, {
+        osId: order.osId,
+        hostname,
+        sshKeys: order.sshKeyIds,
+        userData: order.userData,
+      });
+
+      const mapping = await getUserMapping(order.auth0UserId);
+      if (build.password && build.primaryIp && mapping?.email) {
+        sendServerCredentialsEmail(
+          mapping.email,
+          hostname,
+          build.primaryIp,
+          'root',
+          build.password,
+          order.osName || 'Linux'
+        ).then(result => {
+          if (!result.success) {
+            log(`Failed to send credentials email for server ${serverId}: ${result.error}`, 'provisioning');
+          }
+        }).catch(err => {
+          log(`Error sending credentials email for server ${serverId}: ${err.message}`, 'provisioning');
+        });
+      } else {
+        log(`Skipping credentials email - password: ${!!build.password}, IP: ${!!build.primaryIp}, email: ${!!mapping?.email}`, 'provisioning');
+      }
+      return {};
+    }
+
+    case 'create_billing': {
+      const serverId = requireServerId(order);
+      if (await dbStorage.getServerBilling(String(serverId))) return {};
+
+      const plan = await dbStorage.getPlanById(order.planId);
+      if (!plan) {
+        throw new Error(`Plan ${order.planId} not found`);
+      }
+      await createServerBilling({
+        auth0UserId: order.auth0UserId,
+        virtfusionServerId: String(serverId),
+        virtfusionServerUuid: order.virtfusionServerUuid ?? undefined,
+        planId: order.planId,
+        monthlyPriceCents: plan.priceMonthly,
+        billingCycle: order.billingCycle,
+        termMonths: order.termMonths,
+        termDiscountPercent: order.termDiscountPercent,
+      });
+      return {};
+    }
+
+    case 'done':
+      return {};
+  }
+}
+
+async function completeDeployOrder(order: DeployOrder): Promise<DeployOrder> {
+  const completed = await dbStorage.updateDeployOrder(order.id, {
+    status: 'active',
+    nextAttemptAt: null,
+    completedAt: new Date(),
+    errorMessage: null,
+  }) ?? order;
+
+  if (order.promoCodeId && order.promoDiscountCents !== null) {
+    try {
+      await dbStorage.recordPromoCodeUsage({
+        promoCodeId: order.promoCodeId,
+        auth0UserId: order.auth0UserId,
+        deployOrderId: order.id,
+        discountAppliedCents: order.promoDiscountCents,
+        originalPriceCents: order.priceCents + order.promoDiscountCents,
+        finalPriceCents: order.priceCents,
+      });
+    } catch (promoError: any) {
+      log(`Warning: Could not record promo code usage details for order ${order.id}: ${promoError.message}`, 'provisioning');
+    }
+  }
+
+  invoiceDeployCharge(completed).catch(err => {
+    log(`Failed to invoice order ${order.id}: ${err.message}`, 'provisioning');
+  });
+
+  log(`Order ${order.id} provisioned as server ${order.virtfusionServerId}`, 'provisioning');
+  return completed;
+}
+
+// Out of attempts: remove anything half-built, then give the money and promo use back.
+// If that cleanup fails the order is parked (no next attempt) so it shows up as stuck for an admin.
+async function failDeployOrder(order: DeployOrder, errorMessage: string): Promise<DeployOrder> {
+  try {
+    if (order.virtfusionServerId) {
+      const deleted = await virtfusionClient.deleteServer(order.virtfusionServerId);
+      if (!deleted) {
+        throw new Error(`Could not delete server ${order.virtfusionServerId}`);
+      }
+    }
+
+    const { refunded } = await dbStorage.reverseDeployOrderCharge(order.id);
+    const failed = await dbStorage.updateDeployOrder(order.id, {
+      status: 'failed',
+      attempts: order.attempts,
+      nextAttemptAt: null,
+      errorMessage,
+    }) ?? order;
+
+    log(`Order ${order.id} failed and was ${refunded ? 'refunded' : 'already refunded'}: ${errorMessage}`, 'provisioning');
+
+    const mapping = await getUserMapping(order.auth0UserId);
+    if (refunded && mapping?.email) {
+      sendDeployFailedEmail(
+        mapping.email,
+        order.hostname || `Order #${order.id}`,
+        `$${(order.priceCents / 100).toFixed(2)}`
+      ).catch(err => {
+        log(`Error sending deploy failed email for order ${order.id}: ${err.message}`, 'provisioning');
+      });
+    }
+    return failed;
+  } catch (cleanupError: any) {
+    log(`Order ${order.id} could not be cleaned up after failing: ${cleanupError.message}`, 'provisioning');
+    return await dbStorage.updateDeployOrder(order.id, {
+      attempts: order.attempts,
+      nextAttemptAt: null,
+      errorMessage: `${errorMessage} (cleanup failed: ${cleanupError.message})`,
+    }) ?? order;
+  }
+}
+
+// Runs an order's remaining steps until it finishes or a step fails. Returns undefined if the order
+// isn't due or another run holds it. `force` ignores the schedule, for an admin resuming a stuck order.
+export async function runDeployOrder(orderId: number, options: { force?: boolean } = {}): Promise<DeployOrder | undefined> {
+  let order = await dbStorage.claimDeployOrder(orderId, PROVISIONING_LEASE_MS, options.force);
+  if (!order) return undefined;
+
+  while (order.step !== 'done') {
+    const step = order.step;
+    try {
+      const updates = await runProvisioningStep(order);
+      const updated: DeployOrder | undefined = await dbStorage.updateDeployOrder(order.id, {
+        ...updates,
+        step: nextProvisioningStep(step, order),
+        attempts: 0,
+        errorMessage: null,
+      });
+      if (!updated) {
+        throw new Error(`Deploy order ${order.id} disappeared`);
+      }
+      order = updated;
+    } catch (error: any) {
+      const errorMessage = `${PROVISIONING_STEP_LABELS[step]}: ${error.message}`;
+      const plan = planProvisioningFailure(order);
+      if (plan.action === 'fail') {
+        return failDeployOrder({ ...order, attempts: plan.attempts }, errorMessage);
+      }
+
+      log(`Order ${order.id} ${step} attempt ${plan.attempts} failed, retrying at ${plan.nextAttemptAt.toISOString()}: ${error.message}`, 'provisioning');
+      return await dbStorage.updateDeployOrder(order.id, {
+        attempts: plan.attempts,
+        nextAttemptAt: plan.nextAttemptAt,
+        errorMessage,
+      }) ?? order;
+    }
+  }
+
+  return completeDeployOrder(order);
+}
+
+export async function resumeDeployOrder(orderId: number): Promise<DeployOrder | undefined> {
+  await dbStorage.updateDeployOrder(orderId, { attempts: 0 });
+  return runDeployOrder(orderId, { force: true });
+}
+
+async function processDueOrders(): Promise<ProvisioningRunResult> {
+  const orders = await dbStorage.getDueDeployOrders();
+  const result: ProvisioningRunResult = { due: orders.length, completed: 0, retrying: 0, failed: 0, errors: 0 };
+
+  for (const due of orders) {
+    try {
+      const order = await runDeployOrder(due.id);
+      if (!order) continue;
+      if (order.status === 'active') result.completed++;
+      else if (order.status === 'failed') result.failed++;
+      else result.retrying++;
+    } catch (error: any) {
+      result.errors++;
+      log(`Error provisioning order ${due.id}: ${error.message}`, 'provisioning');
+    }
+  }
+
+  return result;
+}
+
+export function startProvisioningProcessor(): void {
+  if (isRunning) {
+    log('Provisioning processor already running', 'provisioning');
+    return;
+  }
+
+  isRunning = true;
+  log('Starting provisioning processor (checking every 30 seconds)', 'provisioning');
+
+  const runProcessor = async () => {
+    if (!isRunning) return;
+
+    const nextRunAt = new Date(Date.now() + PROCESSING_INTERVAL_MS);
+    const startedAtMs = await markProcessorStarted(PROVISIONING_PROCESSOR, { nextRunAt });
+
+    try {
+      const result = await processDueOrders();
+      if (result.due > 0) {
+        log(`Provisioning: ${result.completed} completed, ${result.retrying} retrying, ${result.failed} failed, ${result.errors} errors`, 'provisioning');
+      }
+      await markProcessorSucceeded(PROVISIONING_PROCESSOR, startedAtMs, { nextRunAt, lastResult: result });
+    } catch (error: any) {
+      log(`Provisioning processor error: ${error.message}`, 'provisioning');
+      await markProcessorFailed(PROVISIONING_PROCESSOR, error, startedAtMs, { nextRunAt });
+    }
+
+    if (isRunning) {
+      void scheduleProcessorRun(PROVISIONING_PROCESSOR, { nextRunAt });
+      setTimeout(runProcessor, PROCESSING_INTERVAL_MS);
+    }
+  };
+
+  void scheduleProcessorRun(PROVISIONING_PROCESSOR, { nextRunAt: new Date() });
+  runProcessor();
+}
+
+export function stopProvisioningProcessor(): void {
+  isRunning = false;
+  log('Stopping provisioning processor', 'provisioning');
+}
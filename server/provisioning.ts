@@ -0,0 +1,65 @@
+import type { DeployOrder, ProvisioningStep } from "@shared/schema";
+
+// Attempts per step before the order is failed and the charge reversed
+export const PROVISIONING_MAX_ATTEMPTS = 5;
+const PROVISIONING_BASE_DELAY_MS = 30 * 1000;
+const PROVISIONING_MAX_DELAY_MS = 15 * 60 * 1000;
+
+// How long a run may hold an order before another worker is allowed to pick it up
+export const PROVISIONING_LEASE_MS = 10 * 60 * 1000;
+// An unfinished order this old has outlived every retry and needs someone to look at it
+export const PROVISIONING_STUCK_AFTER_MS = 60 * 60 * 1000;
+
+export const PROVISIONING_STEP_LABELS: Record<ProvisioningStep, string> = {
+  create_user: "Linking VirtFusion account",
+  create_server: "Creating server",
+  build: "Installing operating system",
+  create_billing: "Setting up billing",
+  done: "Complete",
+};
+
+// Orders without an OS are created and left awaiting setup, so there is nothing to build
+export function nextProvisioningStep(step: ProvisioningStep, order: Pick<DeployOrder, "osId">): ProvisioningStep {
+  switch (step) {
+    case "create_user":
+      return "create_server";
+    case "create_server":
+      return order.osId ? "build" : "create_billing";
+    case "build":
+      return "create_billing";
+    case "create_billing":
+    case "done":
+      return "done";
+  }
+}
+
+// 30s, 1m, 2m, 4m... capped at 15 minutes
+export function provisioningRetryDelayMs(attempts: number): number {
+  const delay = PROVISIONING_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1));
+  return Math.min(delay, PROVISIONING_MAX_DELAY_MS);
+}
+
+export type ProvisioningFailurePlan =
+  | { action: "retry"; attempts: number; nextAttemptAt: Date }
+  | { action: "fail"; attempts: number };
+
+export function planProvisioningFailure(
+  order: Pick<DeployOrder, "attempts">,
+  now: Date = new Date(),
+): ProvisioningFailurePlan {
+  const attempts = order.attempts + 1;
+  if (attempts >= PROVISIONING_MAX_ATTEMPTS) {
+    return { action: "fail", attempts };
+  }
+  return { action: "retry", attempts, nextAttemptAt: new Date(now.getTime() + provisioningRetryDelayMs(attempts)) };
+}
+
+export function isDeployOrderStuck(
+  order: Pick<DeployOrder, "status" | "nextAttemptAt" | "createdAt">,
+  now: Date = new Date(),
+): boolean {
+  if (order.status !== "paid" && order.status !== "provisioning") return false;
+  // Parked for an admin, e.g. the refund itself failed
+  if (!order.nextAttemptAt) return true;
+  return now.getTime() - order.createdAt.getTime() > PROVISIONING_STUCK_AFTER_MS;
+}
@@ -6,7 +6,13 @@ import { getPublicLocations } from "@shared/locations";
 
 export function registerPublicCatalogRoutes(app: Express) {
   app.get("/api/locations", async (_req, res) => {
-    res.json({ locations: getPublicLocations() });
+    try {
+      const locations = await dbStorage.getLocations();
+      res.json({ locations: getPublicLocations(locations) });
+    } catch (error: any) {
+      log(`Error fetching locations: ${error.message}`, "api");
+      res.status(500).json({ error: "Failed to fetch locations" });
+    }
   });
 
   app.get("/api/plans", async (_req, res) => {
@@ -25,6 +25,19 @@ export function getRateLimitIp(req: Request): string {
 export function createIpRateLimit(options: Partial<Options>) {
   return rateLimit({
     ...options,
-    keyGenerator: (req) => ipKeyGenerator(getRateLimitIp(req)),
+    keyGenerator: options.keyGenerator ?? ((req) => ipKeyGenerator(getRateLimitIp(req))),
+  });
+}
+
+export function getApiTokenRateLimitKey(req: Request): string {
+  return req.apiToken ? `api-token:${req.apiToken.id}` : ipKeyGenerator(getRateLimitIp(req));
+}
+
+// Gives each personal access token its own bucket so one busy script can't use
+// up the allowance of the account's other tokens. Must run after token auth.
+export function createApiTokenRateLimit(options: Partial<Options>) {
+  return createIpRateLimit({
+    ...options,
+    keyGenerator: getApiTokenRateLimitKey,
   });
 }
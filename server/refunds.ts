@@ -0,0 +1,54 @@
+import { splitTaxInclusive } from "../shared/tax";
+import type { CreditNote, Invoice, RefundMethod } from "../shared/schema";
+
+// An invoice can be refunded in parts until the credit notes against it add up to its total.
+// Invoices are for charges paid from the wallet, so a refund goes back into the wallet or to
+// one of the card top-ups the customer paid into it.
+
+export type RefundedInvoiceStatus = "void" | "partially_refunded";
+
+// Pending credit notes count too: their refund is already under way
+export function refundedCents(creditNotes: Pick<CreditNote, "amountCents" | "status">[]): number {
+  return creditNotes
+    .filter((note) => note.status !== "failed")
+    .reduce((sum, note) => sum + note.amountCents, 0);
+}
+
+export function invoiceStatusAfterRefund(invoiceAmountCents: number, totalRefundedCents: number): RefundedInvoiceStatus {
+  return totalRefundedCents >= invoiceAmountCents ? "void" : "partially_refunded";
+}
+
+export function checkInvoiceRefund(
+  invoice: Pick<Invoice, "amountCents" | "status">,
+  alreadyRefundedCents: number,
+  request: { amountCents: number; method: RefundMethod; paymentIntentId?: string | null },
+): { ok: true; paymentIntentId: string | null } | { ok: false; error: string } {
+  if (invoice.status === "void") {
+    return { ok: false, error: "This invoice has already been refunded in full." };
+  }
+  if (invoice.status !== "paid" && invoice.status !== "partially_refunded") {
+    return { ok: false, error: "Only paid invoices can be refunded." };
+  }
+  if (!Number.isInteger(request.amountCents) || request.amountCents <= 0) {
+    return { ok: false, error: "Refund amount must be more than zero." };
+  }
+
+  const remainingCents = invoice.amountCents - alreadyRefundedCents;
+  if (request.amountCents > remainingCents) {
+    return { ok: false, error: `Only $${(Math.max(0, remainingCents) / 100).toFixed(2)} of this invoice is left to refund.` };
+  }
+
+  if (request.method === "wallet") {
+    return { ok: true, paymentIntentId: null };
+  }
+  if (!request.paymentIntentId) {
+    return { ok: false, error: "Choose the card payment to refund to." };
+  }
+  return { ok: true, paymentIntentId: request.paymentIntentId };
+}
+
+// A credit note reverses GST at the rate the invoice charged it
+export function creditNoteTaxFields(amountCents: number, invoice: Pick<Invoice, "taxTreatment">) {
+  const { subtotalCents, taxCents } = splitTaxInclusive(amountCents, invoice.taxTreatment ?? "gst");
+  return { subtotalCents, taxCents };
+}
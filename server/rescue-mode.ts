@@ -0,0 +1,27 @@
+import { randomInt } from "crypto";
+import type { ServerRescueSession } from "@shared/schema";
+
+// How long a server stays in rescue before it is booted back from its own disk
+export const RESCUE_SESSION_MINUTES = 60;
+
+export const RESCUE_ROOT_USERNAME = "root";
+
+// No look-alike characters, since customers often copy the password off the screen into the console
+const RESCUE_PASSWORD_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789";
+const RESCUE_PASSWORD_LENGTH = 20;
+
+export function generateRescuePassword(): string {
+  let password = "";
+  for (let i = 0; i < RESCUE_PASSWORD_LENGTH; i++) {
+    password += RESCUE_PASSWORD_ALPHABET[randomInt(RESCUE_PASSWORD_ALPHABET.length)];
+  }
+  return password;
+}
+
+export function rescueExpiresAt(now: Date): Date {
+  return new Date(now.getTime() + RESCUE_SESSION_MINUTES * 60 * 1000);
+}
+
+export function isRescueSessionExpired(session: Pick<ServerRescueSession, "expiresAt" | "endedAt">, now: Date): boolean {
+  return session.endedAt === null && session.expiresAt <= now;
+}
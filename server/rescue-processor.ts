@@ -0,0 +1,81 @@
+import { dbStorage } from "./storage";
+import { virtfusionClient } from "./virtfusion";
+import { log } from './log';
+import {
+  markProcessorFailed,
+  markProcessorStarted,
+  markProcessorSucceeded,
+  scheduleProcessorRun,
+} from "./processor-health";
+
+const PROCESSING_INTERVAL_MS = 60 * 1000;
+const RESCUE_PROCESSOR = "rescue-mode";
+
+let isRunning = false;
+
+// Boots expired rescue sessions back from disk. A server that is busy is retried on the next run;
+// one that no longer exists has nothing to return to, so its session is closed.
+async function processExpiredRescueSessions(): Promise<{ due: number; returned: number; failed: number }> {
+  const sessions = await dbStorage.getExpiredRescueSessions(new Date());
+  const result = { due: sessions.length, returned: 0, failed: 0 };
+
+  for (const session of sessions) {
+    try {
+      await virtfusionClient.exitRescueMode(session.virtfusionServerId);
+      await dbStorage.endRescueSession(session.id, 'expired');
+      result.returned++;
+      log(`Rescue session ${session.id} expired; server ${session.virtfusionServerId} returned to normal boot`, 'rescue');
+    } catch (error: any) {
+      result.failed++;
+      if (error.message?.includes('404')) {
+        await dbStorage.endRescueSession(session.id, 'failed');
+        log(`Rescue session ${session.id} closed: server ${session.virtfusionServerId} no longer exists`, 'rescue');
+      } else {
+        log(`Could not end rescue session ${session.id} for server ${session.virtfusionServerId}: ${error.message}`, 'rescue');
+      }
+    }
+  }
+
+  return result;
+}
+
+export function startRescueProcessor(): void {
+  if (isRunning) {
+    log('Rescue processor already running', 'rescue');
+    return;
+  }
+
+  isRunning = true;
+  log('Starting rescue processor (checking every minute)', 'rescue');
+
+  const runProcessor = async () => {
+    if (!isRunning) return;
+
+    const nextRunAt = new Date(Date.now() + PROCESSING_INTERVAL_MS);
+    const startedAtMs = await markProcessorStarted(RESCUE_PROCESSOR, { nextRunAt });
+
+    try {
+      const result = await processExpiredRescueSessions();
+      if (result.due > 0) {
+        log(`Rescue processor: ${result.returned} returned to normal boot, ${result.failed} failed`, 'rescue');
+      }
+      await markProcessorSucceeded(RESCUE_PROCESSOR, startedAtMs, { nextRunAt, lastResult: result });
+    } catch (error: any) {
+      log(`Rescue processor error: ${error.message}`, 'rescue');
+      await markProcessorFailed(RESCUE_PROCESSOR, error, startedAtMs, { nextRunAt });
+    }
+
+    if (isRunning) {
+      void scheduleProcessorRun(RESCUE_PROCESSOR, { nextRunAt });
+      setTimeout(runProcessor, PROCESSING_INTERVAL_MS);
+    }
+  };
+
+  void scheduleProcessorRun(RESCUE_PROCESSOR, { nextRunAt: new Date() });
+  runProcessor();
+}
+
+export function stopRescueProcessor(): void {
+  isRunning = false;
+  log('Stopping rescue processor', 'rescue');
+}
@@ -0,0 +1,244 @@
+import { lookup } from "dns/promises";
+import { dbStorage } from "./storage";
+import { virtfusionClient } from "./virtfusion";
+import { log } from './log';
+import { sendResourceAlertEmail, sendResourceAlertResolvedEmail } from "./email";
+import {
+  RESOURCE_ALERT_METRIC_LABELS,
+  describeAlertCondition,
+  evaluateAlertRule,
+  isPrivateAddress,
+  transferUsagePercent,
+  validateWebhookUrl,
+} from "./resource-alerts";
+import type { ServerAlertRule } from "../shared/schema";
+import {
+  markProcessorFailed,
+  markProcessorStarted,
+  markProcessorSucceeded,
+  scheduleProcessorRun,
+} from "./processor-health";
+
+const PROCESSING_INTERVAL_MS = 60 * 1000;
+// Monthly transfer moves slowly and costs two VirtFusion calls, so it is checked less often
+const TRANSFER_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+const RESOURCE_ALERT_PROCESSOR = "resource-alerts";
+
+let isRunning = false;
+
+async function sendAlertWebhook(webhookUrl: string, payload: Record<string, unknown>): Promise<'delivered' | 'failed'> {
+  const validated = validateWebhookUrl(webhookUrl);
+  if (!validated.ok) {
+    log(`Skipping alert webhook ${webhookUrl}: ${validated.error}`, 'resource-alerts');
+    return 'failed';
+  }
+
+  // Re-check where the hostname points now, in case it was changed to an internal address after the rule was saved
+  try {
+    const addresses = await lookup(new URL(validated.url).hostname.replace(/^\[|\]$/g, ''), { all: true });
+    if (addresses.some(({ address }) => isPrivateAddress(address))) {
+      log(`Skipping alert webhook ${webhookUrl}: resolves to a private address`, 'resource-alerts');
+      return 'failed';
+    }
+  } catch (error: any) {
+    log(`Alert webhook ${webhookUrl} did not resolve: ${error.message}`, 'resource-alerts');
+    return 'failed';
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+  try {
+    const response = await fetch(validated.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'User-Agent': 'OzVPS-Alerts/1.0' },
+      body: JSON.stringify(payload),
+      redirect: 'manual',
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      log(`Alert webhook ${webhookUrl} returned ${response.status}`, 'resource-alerts');
+      return 'failed';
+    }
+    return 'delivered';
+  } catch (error: any) {
+    log(`Alert webhook ${webhookUrl} failed: ${error.message}`, 'resource-alerts');
+    return 'failed';
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function notify(
+  rule: ServerAlertRule,
+  kind: 'firing' | 'resolved',
+  value: number,
+  serverName: string,
+  now: Date,
+): Promise<void> {
+  const metricLabel = RESOURCE_ALERT_METRIC_LABELS[rule.metric];
+  const condition = describeAlertCondition(rule);
+
+  const emailResult = kind === 'firing'
+    ? await sendResourceAlertEmail(rule.email, serverName, rule.virtfusionServerId, metricLabel, value, rule.thresholdPercent, condition)
+    : await sendResourceAlertResolvedEmail(rule.email, serverName, rule.virtfusionServerId, metricLabel, value, condition);
+  if (!emailResult.success) {
+    log(`Could not send resource alert email for rule ${rule.id}: ${emailResult.error}`, 'resource-alerts');
+  }
+
+  const webhookStatus = rule.webhookUrl
+    ? await sendAlertWebhook(rule.webhookUrl, {
+        event: kind === 'firing' ? 'alert.firing' : 'alert.resolved',
+        server: { id: rule.virtfusionServerId, name: serverName },
+        rule: {
+          id: rule.id,
+          metric: rule.metric,
+          thresholdPercent: rule.thresholdPercent,
+          durationMinutes: rule.durationMinutes,
+        },
+        value,
+        condition,
+        timestamp: now.toISOString(),
+      })
+    : null;
+
+  await dbStorage.recordAlertEvent({
+    ruleId: rule.id,
+    virtfusionServerId: rule.virtfusionServerId,
+    metric: rule.metric,
+    kind,
+    value,
+    thresholdPercent: rule.thresholdPercent,
+    webhookStatus,
+  });
+}
+
+async function checkRule(rule: ServerAlertRule, reading: number, serverName: string, now: Date): Promise<'firing' | 'resolved' | null> {
+  const value = Math.round(reading);
+  const evaluation = evaluateAlertRule(rule, value, now);
+
+  await dbStorage.saveAlertRuleState(rule.id, {
+    state: evaluation.state,
+    breachStartedAt: evaluation.breachStartedAt,
+    lastValue: value,
+    lastCheckedAt: now,
+    ...(evaluation.notify ? { lastNotifiedAt: now } : {}),
+  });
+
+  if (evaluation.notify) {
+    await notify(rule, evaluation.notify, value, serverName, now);
+    log(`Resource alert ${evaluation.notify} for server ${rule.virtfusionServerId} (rule ${rule.id}, ${rule.metric} ${value}%)`, 'resource-alerts');
+  }
+  return evaluation.notify;
+}
+
+async function checkServer(
+  serverId: string,
+  rules: ServerAlertRule[],
+  now: Date,
+): Promise<{ fired: number; resolved: number }> {
+  const result = { fired: 0, resolved: 0 };
+
+  const server = await virtfusionClient.getServer(serverId);
+  // Suspended servers aren't doing anything the customer can act on
+  if (server.suspended) return result;
+  const serverName = server.name || `Server ${serverId}`;
+
+  const liveRules = rules.filter((rule) => rule.metric !== 'transfer');
+  const transferRules = rules.filter((rule) =>
+    rule.metric === 'transfer'
+    && (!rule.lastCheckedAt || now.getTime() - rule.lastCheckedAt.getTime() >= TRANSFER_CHECK_INTERVAL_MS));
+
+  const readings = new Map<ServerAlertRule['metric'], number>();
+  if (liveRules.length > 0) {
+    const stats = await virtfusionClient.getServerLiveStats(serverId);
+    // A stopped server reports zero usage, which would wrongly resolve firing alerts
+    if (stats?.running) {
+      readings.set('cpu', stats.cpu_usage);
+      readings.set('memory', stats.ram_usage);
+      if (stats.disk_total_gb > 0) readings.set('disk', stats.disk_usage);
+    }
+  }
+  if (transferRules.length > 0) {
+    const traffic = await virtfusionClient.getServerTrafficHistory(serverId);
+    const percent = traffic ? transferUsagePercent(traffic.current.total, traffic.current.limit) : null;
+    if (percent !== null) readings.set('transfer', percent);
+  }
+
+  for (const rule of [...liveRules, ...transferRules]) {
+    const reading = readings.get(rule.metric);
+    if (reading === undefined) continue;
+    const outcome = await checkRule(rule, reading, serverName, now);
+    if (outcome === 'firing') result.fired++;
+    else if (outcome === 'resolved') result.resolved++;
+  }
+
+  return result;
+}
+
+async function processAlertRules(): Promise<{ servers: number; fired: number; resolved: number; errors: number }> {
+  const now = new Date();
+  const rules = await dbStorage.getEnabledAlertRules();
+
+  const rulesByServer = new Map<string, ServerAlertRule[]>();
+  for (const rule of rules) {
+    const serverRules = rulesByServer.get(rule.virtfusionServerId) ?? [];
+    serverRules.push(rule);
+    rulesByServer.set(rule.virtfusionServerId, serverRules);
+  }
+
+  const result = { servers: rulesByServer.size, fired: 0, resolved: 0, errors: 0 };
+  for (const [serverId, serverRules] of Array.from(rulesByServer.entries())) {
+    try {
+      const outcome = await checkServer(serverId, serverRules, now);
+      result.fired += outcome.fired;
+      result.resolved += outcome.resolved;
+    } catch (error: any) {
+      result.errors++;
+      log(`Error checking resource alerts for server ${serverId}: ${error.message}`, 'resource-alerts');
+    }
+  }
+
+  return result;
+}
+
+export function startResourceAlertProcessor(): void {
+  if (isRunning) {
+    log('Resource alert processor already running', 'resource-alerts');
+    return;
+  }
+
+  isRunning = true;
+  log('Starting resource alert processor (checking every minute)', 'resource-alerts');
+
+  const runProcessor = async () => {
+    if (!isRunning) return;
+
+    const nextRunAt = new Date(Date.now() + PROCESSING_INTERVAL_MS);
+    const startedAtMs = await markProcessorStarted(RESOURCE_ALERT_PROCESSOR, { nextRunAt });
+
+    try {
+      const result = await processAlertRules();
+      if (result.fired > 0 || result.resolved > 0 || result.errors > 0) {
+        log(`Resource alert processor: ${result.fired} fired, ${result.resolved} resolved, ${result.errors} errors across ${result.servers} servers`, 'resource-alerts');
+      }
+      await markProcessorSucceeded(RESOURCE_ALERT_PROCESSOR, startedAtMs, { nextRunAt, lastResult: result });
+    } catch (error: any) {
+      log(`Resource alert processor error: ${error.message}`, 'resource-alerts');
+      await markProcessorFailed(RESOURCE_ALERT_PROCESSOR, error, startedAtMs, { nextRunAt });
+    }
+
+    if (isRunning) {
+      void scheduleProcessorRun(RESOURCE_ALERT_PROCESSOR, { nextRunAt });
+      setTimeout(runProcessor, PROCESSING_INTERVAL_MS);
+    }
+  };
+
+  void scheduleProcessorRun(RESOURCE_ALERT_PROCESSOR, { nextRunAt: new Date() });
+  runProcessor();
+}
+
+export function stopResourceAlertProcessor(): void {
+  isRunning = false;
+  log('Stopping resource alert processor', 'resource-alerts');
+}
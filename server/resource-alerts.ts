@@ -0,0 +1,150 @@
+import { isIP } from "net";
+import type { ResourceAlertMetric, ServerAlertRule } from "@shared/schema";
+
+export const MAX_ALERT_RULES_PER_SERVER = 10;
+export const MAX_ALERT_EVENTS_SHOWN = 20;
+
+export const RESOURCE_ALERT_METRIC_LABELS: Record<ResourceAlertMetric, string> = {
+  cpu: "CPU usage",
+  memory: "Memory usage",
+  disk: "Disk usage",
+  transfer: "Monthly transfer used",
+};
+
+type AlertRuleState = Pick<
+  ServerAlertRule,
+  "thresholdPercent" | "durationMinutes" | "cooldownMinutes" | "state" | "breachStartedAt" | "lastNotifiedAt"
+>;
+
+export interface AlertEvaluation {
+  state: "ok" | "firing";
+  breachStartedAt: Date | null;
+  // Which notification to send on this check, if any
+  notify: "firing" | "resolved" | null;
+}
+
+/**
+ * Works out the next state of a rule from the latest reading. A rule fires once
+ * usage has stayed at or above the threshold for durationMinutes, repeats while
+ * it stays firing at most once per cooldown, and resolves as soon as usage drops
+ * back under the threshold. A new breach soon after a resolve waits out the
+ * cooldown before firing again so a flapping metric doesn't flood the inbox.
+ */
+export function evaluateAlertRule(rule: AlertRuleState, value: number, now: Date): AlertEvaluation {
+  const cooldownElapsed = !rule.lastNotifiedAt
+    || now.getTime() - rule.lastNotifiedAt.getTime() >= rule.cooldownMinutes * 60 * 1000;
+
+  if (value < rule.thresholdPercent) {
+    return {
+      state: "ok",
+      breachStartedAt: null,
+      notify: rule.state === "firing" ? "resolved" : null,
+    };
+  }
+
+  const breachStartedAt = rule.breachStartedAt ?? now;
+
+  if (rule.state === "firing") {
+    return { state: "firing", breachStartedAt, notify: cooldownElapsed ? "firing" : null };
+  }
+
+  const sustained = now.getTime() - breachStartedAt.getTime() >= rule.durationMinutes * 60 * 1000;
+  if (sustained && cooldownElapsed) {
+    return { state: "firing", breachStartedAt, notify: "firing" };
+  }
+  return { state: "ok", breachStartedAt, notify: null };
+}
+
+// Human-readable form of a rule, e.g. "CPU usage at or above 90% for 10 minutes"
+export function describeAlertCondition(rule: Pick<ServerAlertRule, "metric" | "thresholdPercent" | "durationMinutes">): string {
+  const base = `${RESOURCE_ALERT_METRIC_LABELS[rule.metric]} at or above ${rule.thresholdPercent}%`;
+  if (rule.metric === "transfer" || rule.durationMinutes === 0) return base;
+  return `${base} for ${rule.durationMinutes} minute${rule.durationMinutes === 1 ? "" : "s"}`;
+}
+
+// Percentage of the monthly allowance used, or null when the plan has no transfer limit
+export function transferUsagePercent(usedBytes: number, limitGb: number): number | null {
+  if (!limitGb || limitGb <= 0) return null;
+  return (usedBytes / (limitGb * 1024 * 1024 * 1024)) * 100;
+}
+
+function ipv4ToNumber(ip: string): number {
+  return ip.split(".").reduce((total, octet) => total * 256 + Number(octet), 0);
+}
+
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+// True for loopback, private, link-local and other addresses a webhook must never reach
+export function isPrivateAddress(ip: string): boolean {
+  const family = isIP(ip);
+  if (family === 4) {
+    const value = ipv4ToNumber(ip);
+    return PRIVATE_IPV4_RANGES.some(([base, bits]) => {
+      const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+      return ((value & mask) >>> 0) === ((ipv4ToNumber(base) & mask) >>> 0);
+    });
+  }
+  if (family === 6) {
+    const lower = ip.toLowerCase();
+    const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateAddress(mapped[1]);
+    // The URL parser rewrites ::ffff:127.0.0.1 as ::ffff:7f00:1
+    const mappedHex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+      const high = parseInt(mappedHex[1], 16);
+      const low = parseInt(mappedHex[2], 16);
+      return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+    return lower === "::" || lower === "::1"
+      || /^f[cd]/.test(lower) // Unique local fc00::/7
+      || /^fe[89ab]/.test(lower) // Link-local fe80::/10
+      || /^ff/.test(lower); // Multicast
+  }
+  return false;
+}
+
+export type WebhookUrlResult = { ok: true; url: string } | { ok: false; error: string };
+
+// Webhooks are posted from our servers, so only public HTTPS endpoints are allowed
+export function validateWebhookUrl(raw: string): WebhookUrlResult {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return { ok: false, error: "Webhook URL is not a valid URL" };
+  }
+
+  if (url.protocol !== "https:") {
+    return { ok: false, error: "Webhook URL must use https" };
+  }
+  if (url.username || url.password) {
+    return { ok: false, error: "Webhook URL must not contain credentials" };
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (
+    hostname === "localhost"
+    || hostname.endsWith(".localhost")
+    || hostname.endsWith(".local")
+    || hostname.endsWith(".internal")
+    || isPrivateAddress(hostname)
+  ) {
+    return { ok: false, error: "Webhook URL must point to a public host" };
+  }
+  if (!isIP(hostname) && !hostname.includes(".")) {
+    return { ok: false, error: "Webhook URL must point to a public host" };
+  }
+
+  return { ok: true, url: url.toString() };
+}
@@ -0,0 +1,74 @@
+import { promises as dns } from "dns";
+import { isIP } from "net";
+import { canonicalIp } from "./ip-address";
+
+export interface ForwardDnsResolver {
+  resolve4(hostname: string): Promise<string[]>;
+  resolve6(hostname: string): Promise<string[]>;
+}
+
+const HOSTNAME_LABEL = /^(?!-)[a-z0-9-]{1,63}(?<!-)$/;
+
+/**
+ * Validate a PTR hostname. PTR records must point at a fully qualified name,
+ * so single-label names like "mail" are rejected.
+ */
+export function normalizePtrHostname(input: string):
+  | { ok: true; value: string }
+  | { ok: false; error: string } {
+  const hostname = input.trim().toLowerCase().replace(/\.$/, "");
+  if (!hostname) {
+    return { ok: false, error: "Hostname is required." };
+  }
+  if (hostname.length > 253) {
+    return { ok: false, error: "Hostname must be 253 characters or less." };
+  }
+
+  const labels = hostname.split(".");
+  if (labels.length < 2 || !labels.every((label) => HOSTNAME_LABEL.test(label))) {
+    return { ok: false, error: "Enter a fully qualified hostname such as mail.example.com." };
+  }
+  if (/^\d+$/.test(labels[labels.length - 1])) {
+    return { ok: false, error: "Enter a hostname, not an IP address." };
+  }
+
+  return { ok: true, value: hostname };
+}
+
+/**
+ * Confirm the hostname's A/AAAA records include the address before setting a
+ * PTR. Mail servers reject rDNS that doesn't match forward DNS, so saving a
+ * mismatched record would only look like it worked.
+ */
+export async function checkForwardDns(
+  hostname: string,
+  address: string,
+  resolver: ForwardDnsResolver = dns,
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  const target = canonicalIp(address);
+  if (!target) {
+    return { ok: false, error: "Invalid IP address." };
+  }
+
+  const isV6 = isIP(address.trim()) === 6;
+  let records: string[];
+  try {
+    records = isV6 ? await resolver.resolve6(hostname) : await resolver.resolve4(hostname);
+  } catch (error: any) {
+    if (error?.code === "ENOTFOUND" || error?.code === "ENODATA") {
+      records = [];
+    } else {
+      return { ok: false, error: `Couldn't look up ${hostname}. Please try again shortly.` };
+    }
+  }
+
+  if (records.some((record) => canonicalIp(record) === target)) {
+    return { ok: true };
+  }
+
+  const recordType = isV6 ? "AAAA" : "A";
+  return {
+    ok: false,
+    error: `${hostname} has no ${recordType} record pointing to ${address}. Add one at your DNS provider, wait for it to propagate, then try again.`,
+  };
+}
@@ -8,25 +8,28 @@ import rateLimit from "express-rate-limit";
 import { virtfusionClient, VirtFusionTimeoutError } from "./virtfusion";
 import { storage, dbStorage } from "./storage";
 import { db, checkDatabaseHealth } from "./db";
-import { plans, serverBilling, billingLedger, clientErrorEvents } from "@shared/schema";
+import { plans, serverBilling, billingLedger, clientErrorEvents, DEFAULT_BOOT_ORDER } from "@shared/schema";
 import { eq, and, desc } from "drizzle-orm";
-import { createServerBilling, retryUnpaidServers, retryServerBilling, getServerBillingStatus, getUpcomingCharges, getBillingLedger, runBillingJob } from "./billing";
+import { runDeployOrder } from "./provisioning-processor";
+import { renderStatementPDF, statementFilename } from "./statement-processor";
+import { findPlacement } from "./hypervisor-placement";
+import { createServerBilling, retryUnpaidServers, retryServerBilling, getServerBillingStatus, getUpcomingCharges, getBillingLedger, runBillingJob, changeServerPlan, completeServerTransfer, purchaseIpAddon, cancelIpAddon, settleHourlyUsage, getRenewalAmountCents, renderInvoicePDF, renderCreditNotePDF } from "./billing";
 import { auth0Client } from "./auth0";
-import { loginSchema, registerSchema, serverNameSchema, reinstallSchema, SESSION_REVOKE_REASONS, createTicketSchema, ticketMessageSchema, adminTicketUpdateSchema, TICKET_CATEGORIES, TICKET_PRIORITIES, TICKET_STATUSES, type TicketStatus, type TicketPriority, type TicketCategory } from "@shared/schema";
+import { loginSchema, registerSchema, serverNameSchema, updateReverseDnsSchema, reinstallSchema, createSshKeySchema, updateSshKeySchema, type SshKey, userDataScriptSchema, type UserDataScript, createSnapshotSchema, createPowerScheduleSchema, updatePowerScheduleSchema, type ScheduledPowerActionRecord, createAlertRuleSchema, updateAlertRuleSchema, type ServerAlertRule, transferOverageSettingsSchema, METRIC_HISTORY_RANGES, type MetricHistoryRange, createApiTokenSchema, createServerTransferSchema, type ServerOwnershipTransfer, type ApiToken, projectSchema, updateServerLabelsSchema, type Project, type ServerLabels, type ApiTokenScope, updateServerFirewallSchema, firewallRuleSetSchema, applyFirewallRuleSetSchema, type FirewallRuleSet, SESSION_REVOKE_REASONS, createTicketSchema, ticketMessageSchema, adminTicketUpdateSchema, TICKET_CATEGORIES, TICKET_PRIORITIES, TICKET_STATUSES, type TicketStatus, type TicketPriority, type TicketCategory, submitIsoUrlSchema, mountIsoSchema, updateBootOrderSchema, type IsoImage, SERVER_ADDON_TYPES, purchaseIpAddonSchema, type ServerAddon, BILLING_CYCLES, type BillingCycle, BILLING_TERMS, type BillingTermMonths, billingProfileSchema, type BillingProfile } from "@shared/schema";
 import { log } from './log';
 import { captureException, isSentryEnabled } from "./sentry";
 import { validateServerName } from "./content-filter";
 import { getUncachableStripeClient, getStripePublishableKey } from "./stripeClient";
 import { recordFailedLogin, clearFailedLogins, isAccountLocked, getProgressiveDelay, verifyHmacSignature, isIpBlocked, getBlockedEntries, adminUnblock, adminUnblockEmail, adminClearAllRateLimits } from "./security";
 import { encryptSecret, decryptSecret, isEncrypted, hashBackupCode, verifyBackupCode, generateBackupCodes, verifyEmailOtpCode } from "./crypto";
-import { sendPasswordResetEmail, sendPasswordChangedEmail, sendServerCredentialsEmail, sendServerReinstallEmail, sendAdminTicketNotificationEmail, sendAdminTicketReplyNotificationEmail, sendTwoFactorCodeEmail, sendTicketStatusEmail, sendBugReportEmail, sendGuestTicketConfirmationEmail, sendGuestTicketAdminReplyEmail, sendTicketAdminReplyEmail } from "./email";
+import { sendPasswordResetEmail, sendPasswordChangedEmail, sendServerCredentialsEmail, sendServerReinstallEmail, sendAdminTicketNotificationEmail, sendAdminTicketReplyNotificationEmail, sendTwoFactorCodeEmail, sendTicketStatusEmail, sendBugReportEmail, sendGuestTicketConfirmationEmail, sendGuestTicketAdminReplyEmail, sendTicketAdminReplyEmail, sendServerTransferOfferEmail, sendServerTransferCompletedEmail, sendServerTransferDeclinedEmail } from "./email";
 import { WebhookHandlers } from "./webhookHandlers";
 import { auditUserAction, UserActions } from "./user-audit";
 import { redisClient } from "./redis";
 import sharp from "sharp";
 import path from "path";
 import fs from "fs";
-import { LOCATION_CONFIG } from "@shared/locations";
+import { checkLocationDeployable } from "@shared/locations";
 import { registerPublicCatalogRoutes } from "./public-catalog-routes";
 import { CSRF_COOKIE, SESSION_COOKIE, TRUSTED_2FA_DEVICE_COOKIE } from "./auth-cookies";
 import { resolveEffectiveVirtFusionUserId, validatePublicContactSubmission } from "./support-ticket-utils";
@@ -36,6 +39,27 @@ import {
   trustedTwoFactorUserAgentMatches,
   validateTrustedTwoFactorDevice,
 } from "./trusted-two-factor-devices";
+import { MAX_SSH_KEYS_PER_USER, parseSshPublicKey, resolveVirtFusionSshKeyIds } from "./ssh-keys";
+import { MAX_USER_DATA_SCRIPTS_PER_USER, normalizeUserData } from "./user-data";
+import { defaultSnapshotName, planSnapshotCreate } from "./snapshots";
+import { calculatePlanChangeProration, checkPlanChangeEligibility } from "./plan-change";
+import { checkForwardDns, normalizePtrHostname } from "./reverse-dns";
+import { canonicalIp } from "./ip-address";
+import { MAX_API_TOKENS_PER_USER, checkApiTokenAccess, generateApiToken, hashApiToken, parseBearerToken } from "./api-tokens";
+import { createApiTokenRateLimit } from "./rate-limit";
+import { MAX_PROJECTS_PER_USER, matchesServerFilter, normalizeTags, parseServerFilter, subtotalByProject } from "./server-labels";
+import { MAX_POWER_SCHEDULES_PER_SERVER, MAX_POWER_SCHEDULE_RUNS_SHOWN, computeNextScheduledRun, isValidTimeZone, parseCronExpression } from "./power-schedules";
+import { MAX_ALERT_RULES_PER_SERVER, MAX_ALERT_EVENTS_SHOWN, validateWebhookUrl } from "./resource-alerts";
+import { describeOveragePolicy, isUnlimitedTransfer, transferUsedPercent } from "./transfer-quota";
+import { METRIC_HISTORY_RANGE_CONFIG, metricsHistoryToCsv } from "./metrics-history";
+import { SERVER_TRANSFER_OFFER_DAYS, checkServerTransferEligibility } from "./server-transfers";
+import { MAX_FIREWALL_RULES_PER_SERVER, MAX_FIREWALL_RULE_SETS_PER_USER, fromStoredFirewallRule, mergeFirewallRules, normalizeFirewallRules, type NormalizedFirewallRule } from "./firewall";
+import { MAX_PENDING_ISO_SUBMISSIONS, canMountIso, normalizeBootOrder, validateIsoUrl } from "./iso-media";
+import { RESCUE_ROOT_USERNAME, generateRescuePassword, isRescueSessionExpired, rescueExpiresAt } from "./rescue-mode";
+import { checkIpAddonPurchase, ipAddonLabel, ipAddonPriceCents } from "./ip-addons";
+import { hourlyMinimumBalanceCents } from "@shared/hourly-billing";
+import { billingTermDiscountPercent, termPriceCents } from "@shared/billing-terms";
+import { isValidAbn, normalizeAbn, taxRatePercent, taxTreatmentFor } from "@shared/tax";
 
 // VNC auto-disable timers: kill VNC access 30 minutes after console is opened
 const vncAutoDisableTimers = new Map<string, ReturnType<typeof setTimeout>>();
@@ -475,6 +499,11 @@ declare global {
         isAdmin: boolean;
         emailVerified: boolean;
       };
+      // Set when the request was authenticated with a personal access token
+      apiToken?: {
+        id: number;
+        scopes: ApiTokenScope[];
+      };
     }
   }
 }
@@ -625,6 +654,11 @@ function csrfProtection(req: Request, res: Response, next: NextFunction) {
     return next();
   }
 
+  // Skip CSRF for API token requests - browsers never attach bearer tokens on their own
+  if (!req.cookies?.[SESSION_COOKIE] && parseBearerToken(req.headers.authorization)) {
+    return next();
+  }
+
   // Skip CSRF for login/register/logout (no session yet, or low-risk)
   if (req.originalUrl === '/api/auth/login' ||
       req.originalUrl === '/api/auth/register' ||
@@ -695,8 +729,69 @@ function csrfProtection(req: Request, res: Response, next: NextFunction) {
   next();
 }
 
+// Per-token limits for personal access tokens, on top of the global per-IP API limit
+const apiTokenRateLimiter = createApiTokenRateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 120, // 120 requests per minute per token
+  message: { error: 'API token rate limit exceeded. Please slow down.' },
+  standardHeaders: true,
+  legacyHeaders: false,
+  validate: { xForwardedForHeader: false },
+});
+
+async function authenticateApiToken(req: Request, res: Response, next: NextFunction, rawToken: string) {
+  try {
+    const token = await dbStorage.getApiTokenByHash(hashApiToken(rawToken));
+    if (!token) {
+      return res.status(401).json({ error: 'Invalid API token', code: 'TOKEN_INVALID' });
+    }
+
+    const path = req.originalUrl.split('?')[0];
+    const access = checkApiTokenAccess(token, req.method, path);
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error, code: access.code });
+    }
+
+    const userFlags = await dbStorage.getUserFlagsFromDb(token.auth0UserId);
+    if (userFlags?.blocked) {
+      return res.status(401).json({ error: 'Your account has been blocked. Please contact support.', code: 'SESSION_REVOKED_BLOCKED' });
+    }
+
+    const userExists = await auth0Client.userExists(token.auth0UserId);
+    if (!userExists) {
+      return res.status(401).json({ error: 'Invalid API token', code: 'TOKEN_INVALID' });
+    }
+
+    await dbStorage.recordApiTokenUse(token.id, getClientIp(req));
+
+    req.apiToken = { id: token.id, scopes: token.scopes };
+    req.userSession = {
+      id: `api-token:${token.id}`,
+      userId: 0,
+      auth0UserId: token.auth0UserId,
+      virtFusionUserId: token.virtFusionUserId,
+      extRelationId: token.extRelationId,
+      email: token.email,
+      isAdmin: false,
+      // Tokens can only be created from a verified account
+      emailVerified: true,
+    };
+
+    apiTokenRateLimiter(req, res, next);
+  } catch (error) {
+    log(`API token auth error: ${error}`, 'api');
+    return res.status(500).json({ error: 'Authentication error' });
+  }
+}
+
 async function authMiddleware(req: Request, res: Response, next: NextFunction) {
   const sessionId = req.cookies?.[SESSION_COOKIE];
+
+  // Browser sessions take precedence; a bearer token is only used when there's no session cookie
+  const bearerToken = sessionId ? null : parseBearerToken(req.headers.authorization);
+  if (bearerToken) {
+    return authenticateApiToken(req, res, next, bearerToken);
+  }
   
   if (!sessionId) {
     return res.status(401).json({ error: 'Not authenticated', code: 'NO_SESSION' });
@@ -2539,13 +2634,38 @@ export async function registerRoutes(
   });
 
   // Protected routes - require authentication
+  const formatProject = (project: Project) => ({
+    id: project.id,
+    name: project.name,
+    createdAt: project.createdAt,
+  });
+
+  const formatServerLabels = (labels: ServerLabels | undefined, userProjects: Project[]) => {
+    const project = labels?.projectId ? userProjects.find((candidate) => candidate.id === labels.projectId) : undefined;
+    return {
+      tags: labels?.tags ?? [],
+      project: project ? { id: project.id, name: project.name } : null,
+    };
+  };
+
   app.get('/api/servers', authMiddleware, async (req, res) => {
     try {
       const userId = req.userSession!.virtFusionUserId;
       if (!userId) {
         return res.status(400).json({ error: 'VirtFusion account not linked' });
       }
-      const servers = await virtfusionClient.listServersWithStats(userId);
+      const filterResult = parseServerFilter(req.query as Record<string, unknown>);
+      if (!filterResult.ok) {
+        return res.status(400).json({ error: filterResult.error });
+      }
+
+      const [allServers, labelRows, userProjects] = await Promise.all([
+        virtfusionClient.listServersWithStats(userId),
+        dbStorage.getServerLabelsByUser(req.userSession!.auth0UserId!),
+        dbStorage.getProjectsByUser(req.userSession!.auth0UserId!),
+      ]);
+      const labelMap = new Map(labelRows.map((labels) => [labels.virtfusionServerId, labels]));
+      const servers = allServers.filter((server) => matchesServerFilter(labelMap.get(String(server.id)), filterResult.filter));
 
       // Fetch all plans to build a map of planId -> planName
       const allPlans = await dbStorage.getAllPlans();
@@ -2574,6 +2694,7 @@ export async function registerRoutes(
 
             return {
               ...server,
+              ...formatServerLabels(labelMap.get(String(server.id)), userProjects),
               bandwidthExceeded,
               billing: billingStatus ? {
                 status: billingStatus.status,
@@ -2594,7 +2715,7 @@ export async function registerRoutes(
             };
           } catch (error) {
             // If fetch fails, return server without extras
-            return { ...server, bandwidthExceeded: false, billing: null };
+            return { ...server, ...formatServerLabels(labelMap.get(String(server.id)), userProjects), bandwidthExceeded: false, billing: null };
           }
         })
       );
@@ -2618,12 +2739,15 @@ export async function registerRoutes(
       }
 
       // Fetch all data in parallel
-      const [servers, cancellations, billingRecords, allPlans] = await Promise.all([
+      const [servers, cancellations, billingRecords, allPlans, labelRows, userProjects] = await Promise.all([
         virtfusionClient.listServersWithStats(userId),
         dbStorage.getUserCancellations(session.auth0UserId!),
         dbStorage.getServerBillingByUser(session.auth0UserId!),
         dbStorage.getAllPlans(),
+        dbStorage.getServerLabelsByUser(session.auth0UserId!),
+        dbStorage.getProjectsByUser(session.auth0UserId!),
       ]);
+      const labelMap = new Map(labelRows.map((labels) => [labels.virtfusionServerId, labels]));
 
       // Build plan map for lookups
       const planMap: Record<number, string> = {};
@@ -2688,6 +2812,7 @@ export async function registerRoutes(
 
             return {
               ...server,
+              ...formatServerLabels(labelMap.get(String(server.id)), userProjects),
               bandwidthExceeded,
               billing: billingStatus ? {
                 status: billingStatus.status,
@@ -2707,7 +2832,7 @@ export async function registerRoutes(
               } : null,
             };
           } catch (error) {
-            return { ...server, bandwidthExceeded: false, billing: null };
+            return { ...server, ...formatServerLabels(labelMap.get(String(server.id)), userProjects), bandwidthExceeded: false, billing: null };
           }
         })
       );
@@ -2716,6 +2841,7 @@ export async function registerRoutes(
         servers: serversWithData,
         cancellations: cancellationMap,
         billingStatuses: billingMap,
+        projects: userProjects.map(formatProject),
         bandwidth: {
           totalBandwidth,
           totalLimit: totalBandwidthLimit,
@@ -2882,6 +3008,156 @@ export async function registerRoutes(
     }
   });
 
+  // Credentials stay visible for the whole session so they survive a page reload
+  app.get('/api/servers/:id/rescue', authMiddleware, async (req, res) => {
+    try {
+      const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, req.userSession!.virtFusionUserId);
+      if (!server) {
+        return res.status(status || 403).json({ error: error || 'Access denied' });
+      }
+
+      const session = await dbStorage.getActiveRescueSession(req.params.id);
+      if (!session) {
+        return res.json({ rescue: null });
+      }
+
+      res.json({
+        rescue: {
+          username: RESCUE_ROOT_USERNAME,
+          password: decryptSecret(session.rootPasswordEncrypted),
+          expiresAt: session.expiresAt,
+          returningToNormalBoot: isRescueSessionExpired(session, new Date()),
+        },
+      });
+    } catch (error: any) {
+      log(`Error loading rescue mode for server ${req.params.id}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to load rescue mode status' });
+    }
+  });
+
+  // Rescue mode hands out a root password, so it lives outside the power route that API tokens may call
+  app.post('/api/servers/:id/rescue', authMiddleware, requireEmailVerified, serverActionRateLimiter, async (req, res) => {
+    try {
+      const userFlags = await dbStorage.getUserFlagsFromDb(req.userSession!.auth0UserId!);
+      if (userFlags?.blocked) {
+        return res.status(403).json({ error: 'Your account has been blocked. Please contact support for assistance.' });
+      }
+      if (userFlags?.suspended) {
+        return res.status(403).json({ error: 'Your account has been suspended. Server controls are disabled.' });
+      }
+
+      const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, req.userSession!.virtFusionUserId);
+      if (!server) {
+        return res.status(status || 403).json({ error: error || 'Access denied' });
+      }
+
+      if (server.suspended) {
+        return res.status(403).json({ error: 'Server is suspended. Rescue mode is disabled.' });
+      }
+
+      const cancellation = await dbStorage.getCancellationByServerId(req.params.id, req.userSession!.auth0UserId!);
+      if (cancellation) {
+        return res.status(403).json({ error: 'Rescue mode is disabled because this server is scheduled for deletion.' });
+      }
+      if (await dbStorage.getActiveRescueSession(req.params.id)) {
+        return res.status(409).json({ error: 'Server is already in rescue mode' });
+      }
+
+      // The session row claims rescue mode before VirtFusion is asked: only one active session
+      // can exist per server, so a concurrent request stops here instead of resetting the password
+      const rootPassword = generateRescuePassword();
+      let session;
+      try {
+        session = await dbStorage.createRescueSession({
+          virtfusionServerId: req.params.id,
+          auth0UserId: req.userSession!.auth0UserId!,
+          rootPasswordEncrypted: encryptSecret(rootPassword),
+          expiresAt: rescueExpiresAt(new Date()),
+        });
+      } catch (error: any) {
+        if (error.code === '23505') {
+          return res.status(409).json({ error: 'Server is already in rescue mode' });
+        }
+        throw error;
+      }
+
+      try {
+        await virtfusionClient.enterRescueMode(req.params.id, rootPassword);
+      } catch (error) {
+        await dbStorage.endRescueSession(session.id, 'failed');
+        throw error;
+      }
+
+      await auditUserAction(req, req.userSession!.auth0UserId!, req.userSession!.email, UserActions.SERVER_RESCUE_ENTER, 'server', req.params.id, {
+        serverName: server.name,
+        expiresAt: session.expiresAt.toISOString(),
+      });
+
+      res.json({
+        success: true,
+        rescue: { username: RESCUE_ROOT_USERNAME, password: rootPassword, expiresAt: session.expiresAt },
+      });
+    } catch (error: any) {
+      log(`Error entering rescue mode on server ${req.params.id}: ${error.message}`, 'api');
+
+      // VirtFusion returns 423 Locked when there are pending tasks in queue
+      if (error.message?.includes('423') || error.message?.includes('Locked') || error.message?.includes('pending tasks')) {
+        return res.status(423).json({
+          error: 'Server is busy with another operation. Please wait for the current task to complete and try again.'
+        });
+      }
+
+      return handleApiError(res, error, 'Unable to boot into rescue mode. The server may be busy. Please try again.', 'enterRescueMode');
+    }
+  });
+
+  app.delete('/api/servers/:id/rescue', authMiddleware, requireEmailVerified, serverActionRateLimiter, async (req, res) => {
+    try {
+      const userFlags = await dbStorage.getUserFlagsFromDb(req.userSession!.auth0UserId!);
+      if (userFlags?.blocked) {
+        return res.status(403).json({ error: 'Your account has been blocked. Please contact support for assistance.' });
+      }
+      if (userFlags?.suspended) {
+        return res.status(403).json({ error: 'Your account has been suspended. Server controls are disabled.' });
+      }
+
+      const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, req.userSession!.virtFusionUserId);
+      if (!server) {
+        return res.status(status || 403).json({ error: error || 'Access denied' });
+      }
+
+      if (server.suspended) {
+        return res.status(403).json({ error: 'Server is suspended. Rescue mode is disabled.' });
+      }
+
+      const session = await dbStorage.getActiveRescueSession(req.params.id);
+      if (!session) {
+        return res.status(409).json({ error: 'Server is not in rescue mode' });
+      }
+
+      await virtfusionClient.exitRescueMode(req.params.id);
+      await dbStorage.endRescueSession(session.id, 'customer');
+
+      await auditUserAction(req, req.userSession!.auth0UserId!, req.userSession!.email, UserActions.SERVER_RESCUE_EXIT, 'server', req.params.id, {
+        serverName: server.name,
+        rescueSessionId: session.id,
+      });
+
+      res.json({ success: true });
+    } catch (error: any) {
+      log(`Error leaving rescue mode on server ${req.params.id}: ${error.message}`, 'api');
+
+      // VirtFusion returns 423 Locked when there are pending tasks in queue
+      if (error.message?.includes('423') || error.message?.includes('Locked') || error.message?.includes('pending tasks')) {
+        return res.status(423).json({
+          error: 'Server is busy with another operation. Please wait for the current task to complete and try again.'
+        });
+      }
+
+      return handleApiError(res, error, 'Unable to leave rescue mode. The server may be busy. Please try again.', 'exitRescueMode');
+    }
+  });
+
   app.get('/api/servers/:id/metrics', authMiddleware, async (req, res) => {
     try {
       const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, req.userSession!.virtFusionUserId);
@@ -2896,6 +3172,51 @@ export async function registerRoutes(
     }
   });
 
+  // Long-term usage history recorded by the metrics sampler, as JSON for charts or CSV for export
+  app.get(['/api/servers/:id/metrics/history', '/api/servers/:id/metrics/history.csv'], authMiddleware, async (req, res) => {
+    try {
+      const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, req.userSession!.virtFusionUserId);
+      if (!server) {
+        return res.status(status || 403).json({ error: error || 'Access denied' });
+      }
+
+      const range = ((req.query.range as string) || '24h') as MetricHistoryRange;
+      if (!METRIC_HISTORY_RANGES.includes(range)) {
+        return res.status(400).json({ error: `Invalid range. Valid options: ${METRIC_HISTORY_RANGES.join(', ')}` });
+      }
+
+      const { days, resolution } = METRIC_HISTORY_RANGE_CONFIG[range];
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const samples = await dbStorage.getMetricSamples(req.params.id, resolution, since);
+
+      if (req.path.endsWith('.csv')) {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="server-${req.params.id}-metrics-${range}.csv"`);
+        return res.send(metricsHistoryToCsv(samples));
+      }
+
+      res.json({
+        range,
+        resolution,
+        points: samples.map((sample) => ({
+          timestamp: sample.bucketStart,
+          cpuAvg: sample.cpuAvg,
+          cpuMax: sample.cpuMax,
+          memoryAvg: sample.memoryAvg,
+          memoryMax: sample.memoryMax,
+          diskPercent: sample.diskPercent,
+          diskReadBps: sample.diskReadBps,
+          diskWriteBps: sample.diskWriteBps,
+          netRxBps: sample.netRxBps,
+          netTxBps: sample.netTxBps,
+        })),
+      });
+    } catch (error: any) {
+      log(`Error fetching metrics history for server ${req.params.id}: ${error.message}`, 'api');
+      return handleApiError(res, error, 'Unable to retrieve metrics history.', 'getMetricsHistory');
+    }
+  });
+
   app.get('/api/servers/:id/stats', authMiddleware, async (req, res) => {
     try {
       const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, req.userSession!.virtFusionUserId);
@@ -2924,6 +3245,41 @@ export async function registerRoutes(
     }
   });
 
+  // Transfer used this period as tracked for quota enforcement, with the overage policy that applies
+  app.get('/api/servers/:id/transfer-usage', authMiddleware, async (req, res) => {
+    try {
+      const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, req.userSession!.virtFusionUserId);
+      if (!server) {
+        return res.status(status || 403).json({ error: error || 'Access denied' });
+      }
+
+      const [usage, settings] = await Promise.all([
+        dbStorage.getLatestTransferUsage(req.params.id),
+        dbStorage.getTransferOverageSettings(),
+      ]);
+
+      res.json({
+        usage: usage ? {
+          period: usage.period,
+          usedBytes: usage.usedBytes,
+          limitGb: usage.limitGb,
+          unlimited: isUnlimitedTransfer(usage.limitGb),
+          percent: transferUsedPercent(usage.usedBytes, usage.limitGb),
+          overageBilledGb: usage.overageBilledGb,
+          enforcement: usage.enforcement,
+          updatedAt: usage.updatedAt,
+        } : null,
+        policy: settings.policy,
+        pricePerGbCents: settings.pricePerGbCents,
+        throttleMbps: settings.throttleMbps,
+        policyDescription: describeOveragePolicy(settings),
+      });
+    } catch (error: any) {
+      log(`Error fetching transfer usage for server ${req.params.id}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to load transfer usage' });
+    }
+  });
+
   // Real-time traffic statistics for graphing
   app.get('/api/servers/:id/traffic/statistics', authMiddleware, async (req, res) => {
     try {
@@ -3100,6 +3456,50 @@ export async function registerRoutes(
     }
   });
 
+  // Ownership, suspension and pending-deletion checks for changing a server feature
+  const checkServerFeatureChange = async (
+    serverId: string,
+    session: { auth0UserId: string | null; virtFusionUserId: number | null },
+    feature: string,
+  ) => {
+    const { server, error, status } = await getServerWithOwnershipCheck(serverId, session.virtFusionUserId);
+    if (!server) {
+      return { server: null, error: error || 'Access denied', status: status || 403 };
+    }
+
+    if (server.suspended) {
+      return { server: null, error: `Server is suspended. ${feature} are disabled.`, status: 403 };
+    }
+
+    const pendingCancellation = await dbStorage.getCancellationByServerId(serverId, session.auth0UserId!);
+    if (pendingCancellation) {
+      return { server: null, error: `Server is scheduled for deletion. ${feature} are disabled.`, status: 403 };
+    }
+
+    return { server, error: undefined, status: 200 };
+  };
+
+  // Account flag checks followed by checkServerFeatureChange; responds and returns null when refused
+  const getServerForFeatureChange = async (req: Request, res: Response, feature: string) => {
+    const userFlags = await dbStorage.getUserFlagsFromDb(req.userSession!.auth0UserId!);
+    if (userFlags?.blocked) {
+      res.status(403).json({ error: 'Your account has been blocked. Please contact support for assistance.' });
+      return null;
+    }
+    if (userFlags?.suspended) {
+      res.status(403).json({ error: 'Your account has been suspended. Server controls are disabled.' });
+      return null;
+    }
+
+    const { server, error, status } = await checkServerFeatureChange(req.params.id, req.userSession!, feature);
+    if (!server) {
+      res.status(status).json({ error });
+      return null;
+    }
+
+    return server;
+  };
+
   app.get('/api/servers/:id/network', authMiddleware, async (req, res) => {
     try {
       const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, req.userSession!.virtFusionUserId);
@@ -3113,6 +3513,56 @@ export async function registerRoutes(
     }
   });
 
+  app.put('/api/servers/:id/network/rdns', authMiddleware, requireEmailVerified, serverActionRateLimiter, async (req, res) => {
+    try {
+      const server = await getServerForFeatureChange(req, res, 'Network changes');
+      if (!server) return;
+
+      const parsed = updateReverseDnsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid request' });
+      }
+
+      // Only addresses currently assigned to this server can be changed
+      const address = canonicalIp(parsed.data.address);
+      const network = await virtfusionClient.getServerNetworkInfo(req.params.id);
+      const assigned = network?.interfaces
+        .flatMap((iface) => [...iface.ipv4, ...iface.ipv6])
+        .find((ip) => address !== null && canonicalIp(ip.address) === address);
+      if (!assigned) {
+        return res.status(404).json({ error: 'That IP address is not assigned to this server' });
+      }
+
+      let hostname: string | null = null;
+      if (parsed.data.hostname !== null && parsed.data.hostname.trim()) {
+        const normalized = normalizePtrHostname(parsed.data.hostname);
+        if (!normalized.ok) {
+          return res.status(400).json({ error: normalized.error });
+        }
+
+        const forward = await checkForwardDns(normalized.value, assigned.address);
+        if (!forward.ok) {
+          return res.status(400).json({ error: forward.error, code: 'FORWARD_DNS_MISMATCH' });
+        }
+        hostname = normalized.value;
+      }
+
+      await virtfusionClient.updateReverseDns(req.params.id, assigned.address, hostname);
+
+      await auditUserAction(req, req.userSession!.auth0UserId!, req.userSession!.email, UserActions.SERVER_RDNS_UPDATE, 'server', req.params.id, {
+        serverName: server.name,
+        address: assigned.address,
+        previousPtr: assigned.ptr,
+        ptr: hostname,
+      });
+
+      res.json({ success: true, address: assigned.address, ptr: hostname });
+    } catch (error: any) {
+      log(`Error updating reverse DNS for server ${req.params.id}: ${error.message}`, 'api');
+      return handleApiError(res, error, 'Failed to update reverse DNS. Please try again.', 'updateReverseDns');
+    }
+  });
+
   app.get('/api/servers/:id/os-templates', authMiddleware, async (req, res) => {
     try {
       const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, req.userSession!.virtFusionUserId);
@@ -3179,7 +3629,12 @@ export async function registerRoutes(
         return res.status(400).json({ error: errorMessage });
       }
 
-      const { osId, hostname } = parseResult.data;
+      const { osId, hostname, sshKeyIds } = parseResult.data;
+
+      const userDataResult = normalizeUserData(parseResult.data.userData);
+      if (!userDataResult.ok) {
+        return res.status(400).json({ error: userDataResult.error });
+      }
 
       // Verify template is allowed for this server
       // Templates are returned in groups, each group has a templates array
@@ -3206,7 +3661,23 @@ export async function registerRoutes(
         return res.status(403).json({ error: 'Selected OS template is not available for this server' });
       }
 
-      const result = await virtfusionClient.reinstallServer(req.params.id, Number(osId), hostname);
+      const sshKeyResult = await resolveVirtFusionSshKeyIds(dbStorage, virtfusionClient, {
+        auth0UserId: req.userSession!.auth0UserId!,
+        virtFusionUserId: req.userSession!.virtFusionUserId!,
+        keyIds: sshKeyIds || [],
+      });
+      if (!sshKeyResult.ok) {
+        return res.status(400).json({ error: sshKeyResult.error });
+      }
+
+      const result = await virtfusionClient.reinstallServer(req.params.id, Number(osId), hostname, {
+        sshKeys: sshKeyResult.virtfusionKeyIds,
+        userData: userDataResult.value,
+      });
+
+      if (sshKeyResult.keys.length > 0) {
+        await dbStorage.markSshKeysUsed(sshKeyResult.keys.map((key) => key.id));
+      }
 
       // Email credentials if password was returned
       if (result.password && req.userSession?.email && server.primaryIp) {
@@ -3226,6 +3697,8 @@ export async function registerRoutes(
         osId,
         osName: selectedTemplate?.name || 'Unknown',
         hostname,
+        sshKeys: sshKeyResult.keys.map((key) => ({ name: key.name, fingerprint: key.fingerprint })),
+        userData: !!userDataResult.value,
       });
 
       res.json({ success: true });
@@ -3235,89 +3708,64 @@ export async function registerRoutes(
     }
   });
 
-  app.get('/api/servers/:id/build-status', authMiddleware, async (req, res) => {
+  // ================== Plan Changes ==================
+
+  // List the plans this server can move to, with the prorated cost of each
+  app.get('/api/servers/:id/plan-change', authMiddleware, async (req, res) => {
     try {
-      const serverId = req.params.id;
+      const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, req.userSession!.virtFusionUserId);
+      if (!server) {
+        return res.status(status || 403).json({ error: error || 'Access denied' });
+      }
 
-      // CRITICAL FIX: Get build status FIRST to check if commissioned
-      // This prevents caching stale data before we know to invalidate
-      const buildStatus = await virtfusionClient.getServerBuildStatus(serverId);
+      const billing = await dbStorage.getServerBilling(req.params.id);
+      if (!billing || billing.auth0UserId !== req.userSession!.auth0UserId) {
+        return res.status(404).json({ error: 'Billing record not found for this server' });
+      }
 
-      // Track server-side build start time so clients get accurate elapsed time after page refresh
-      if (buildStatus.commissioned === 1 || buildStatus.isBuilding) {
-        if (!buildStartTimes.has(serverId)) {
-          buildStartTimes.set(serverId, Date.now());
-        }
-      } else if (buildStatus.commissioned === 0) {
-        // Still queued — reset timer so elapsed starts from when building actually begins
-        buildStartTimes.delete(serverId);
-      } else if (buildStatus.commissioned === 2) {
-        // Paused — clear so elapsed doesn't tick during pause (rare but avoids stale entries)
-        buildStartTimes.delete(serverId);
-      } else if (buildStatus.commissioned === 3 || buildStatus.isComplete) {
-        // Complete — clean up
-        buildStartTimes.delete(serverId);
+      const currentPlan = await dbStorage.getPlanById(billing.planId);
+      if (!currentPlan) {
+        return res.status(404).json({ error: 'Current plan not found' });
       }
 
-      const buildingStartedAt = buildStartTimes.get(serverId) ?? null;
+      const activePlans = await dbStorage.getActivePlans();
+      const options = activePlans
+        .filter((plan) => plan.id !== currentPlan.id)
+        .map((plan) => {
+          const eligibility = checkPlanChangeEligibility(billing, currentPlan, plan);
+          // Hourly servers aren't paid ahead, so a change only affects the metered rate
+          const { amountCents } = billing.billingCycle === 'hourly'
+            ? { amountCents: 0 }
+            : calculatePlanChangeProration({
+              currentPriceCents: termPriceCents(billing.monthlyPriceCents, billing.termMonths, billing.termDiscountPercent),
+              newPriceCents: termPriceCents(plan.priceMonthly, billing.termMonths, billing.termDiscountPercent),
+              nextBillAt: billing.nextBillAt,
+              termMonths: billing.termMonths,
+            });
+          return {
+            plan,
+            proratedAmountCents: amountCents,
+            available: eligibility.ok,
+            reason: eligibility.ok ? null : eligibility.error,
+          };
+        });
 
-      // Compute step and percent server-side so clients don't need time-based simulation
-      let step: string;
-      let percent: number;
-      if (buildStatus.commissioned === 3 || buildStatus.isComplete) {
-        step = 'complete'; percent = 100;
-      } else if (buildStatus.isError) {
-        step = 'failed'; percent = 0;
-      } else if (buildStatus.commissioned === 0) {
-        step = 'queued'; percent = 5;
-      } else if (buildStatus.commissioned === 1 || buildStatus.isBuilding) {
-        const elapsedSec = buildingStartedAt ? (Date.now() - buildingStartedAt) / 1000 : 0;
-        if (elapsedSec < 20)       { step = 'provisioning'; percent = 20; }
-        else if (elapsedSec < 60)  { step = 'imaging';      percent = 40; }
-        else if (elapsedSec < 150) { step = 'installing';   percent = 65; }
-        else                       { step = 'configuring';  percent = 85; }
-      } else {
-        step = 'queued'; percent = 5;
-      }
-
-      // If commissioned, invalidate cache BEFORE ownership check to prevent stale data
-      if (buildStatus.commissioned === 3) {
-        log(`Server ${serverId} is commissioned, invalidating cache BEFORE ownership check`, 'virtfusion');
-        virtfusionClient.invalidateServerCache(serverId);
-      }
-
-      // Now do ownership check - will fetch fresh data if cache was invalidated
-      const { server, error, status } = await getServerWithOwnershipCheck(serverId, req.userSession!.virtFusionUserId);
-      if (!server) {
-        return res.status(status || 403).json({ error: error || 'Access denied' });
-      }
-
-      res.json({ ...buildStatus, buildingStartedAt, step, percent });
+      res.json({
+        currentPlan,
+        monthlyPriceCents: billing.monthlyPriceCents,
+        nextBillAt: billing.nextBillAt,
+        billingCycle: billing.billingCycle,
+        options,
+      });
     } catch (error: any) {
-      log(`Error fetching build status for server ${req.params.id}: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to fetch build status' });
+      log(`Error loading plan change options for server ${req.params.id}: ${error.message}`, 'api');
+      return handleApiError(res, error, 'Unable to load plans. Please try again.', 'getPlanChangeOptions');
     }
   });
 
-  // Reset server password - security-sensitive endpoint with ownership verification
-  app.post('/api/servers/:id/reset-password', authMiddleware, requireEmailVerified, serverActionRateLimiter, async (req, res) => {
+  app.post('/api/servers/:id/plan-change', authMiddleware, requireEmailVerified, serverActionRateLimiter, async (req, res) => {
     try {
-      const session = req.userSession!;
-      const { password } = req.body;
-
-      // Require password confirmation for security
-      if (!password || typeof password !== 'string') {
-        return res.status(400).json({ error: 'Account password is required to reset server password' });
-      }
-
-      // Verify password with Auth0
-      const authResult = await auth0Client.authenticateUser(session.email, password);
-      if (!authResult.success) {
-        return res.status(400).json({ error: 'Incorrect password. Please try again.' });
-      }
-
-      // Check if user account is blocked or suspended
-      const userFlags = await dbStorage.getUserFlagsFromDb(session.auth0UserId!);
+      const userFlags = await dbStorage.getUserFlagsFromDb(req.userSession!.auth0UserId!);
       if (userFlags?.blocked) {
         return res.status(403).json({ error: 'Your account has been blocked. Please contact support for assistance.' });
       }
@@ -3325,1358 +3773,3558 @@ export async function registerRoutes(
         return res.status(403).json({ error: 'Your account has been suspended. Server controls are disabled.' });
       }
 
-      const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, session.virtFusionUserId);
+      const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, req.userSession!.virtFusionUserId);
       if (!server) {
         return res.status(status || 403).json({ error: error || 'Access denied' });
       }
 
       if (server.suspended) {
-        return res.status(403).json({ error: 'Server is suspended. Password reset is disabled.' });
+        return res.status(403).json({ error: 'Server is suspended. Plan changes are disabled.' });
       }
 
-      // Block password reset if server has a pending cancellation
-      const pendingCancellation = await dbStorage.getCancellationByServerId(req.params.id, session.auth0UserId!);
+      const pendingCancellation = await dbStorage.getCancellationByServerId(req.params.id, req.userSession!.auth0UserId!);
       if (pendingCancellation) {
-        const cancellationMsg = pendingCancellation.status === 'pending_approval'
-          ? 'Your deletion request is pending admin approval. Password reset is disabled.'
-          : 'Server is scheduled for deletion. Password reset is disabled.';
-        return res.status(403).json({ error: cancellationMsg });
+        return res.status(403).json({ error: 'Server is scheduled for deletion. Plan changes are disabled.' });
       }
 
-      const result = await virtfusionClient.resetServerPassword(req.params.id);
+      const planId = Number(req.body?.planId);
+      if (!Number.isInteger(planId) || planId <= 0) {
+        return res.status(400).json({ error: 'A plan is required' });
+      }
 
-      if (!result.password) {
-        log(`[ERROR] Password reset for ${req.params.id} succeeded but no password returned`, 'api');
-        return res.status(500).json({ error: 'Password reset succeeded but no new password was returned' });
+      const newPlan = await dbStorage.getPlanById(planId);
+      if (!newPlan) {
+        return res.status(404).json({ error: 'Plan not found' });
       }
 
-      // Audit log server password reset
-      await auditUserAction(req, session.auth0UserId!, session.email, UserActions.SERVER_PASSWORD_RESET, 'server', req.params.id, {
+      const result = await changeServerPlan({
+        auth0UserId: req.userSession!.auth0UserId!,
+        virtfusionServerId: req.params.id,
+        newPlan,
+      });
+
+      if (!result.success) {
+        return res.status(result.status).json({ error: result.error });
+      }
+
+      await auditUserAction(req, req.userSession!.auth0UserId!, req.userSession!.email, UserActions.SERVER_PLAN_CHANGE, 'server', req.params.id, {
         serverName: server.name,
+        fromPlanId: result.previousPlanId,
+        toPlanId: newPlan.id,
+        proratedAmountCents: result.amountCents,
       });
 
-      log(`Password reset completed for server ${req.params.id} by user ${req.userSession!.auth0UserId}`, 'api');
-      res.json({ success: true, password: result.password, username: result.username });
+      res.json({
+        success: true,
+        proratedAmountCents: result.amountCents,
+        monthlyPriceCents: result.monthlyPriceCents,
+      });
     } catch (error: any) {
-      log(`Error resetting password for server ${req.params.id}: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to reset server password. Please try again or contact support.' });
+      log(`Error changing plan for server ${req.params.id}: ${error.message}`, 'api');
+      return handleApiError(res, error, 'Failed to change plan. Please try again.', 'changeServerPlan');
     }
   });
 
-  // Server Cancellation endpoints
-  
-  // Get all pending cancellations for current user (for displaying badges on server list)
-  app.get('/api/cancellations', authMiddleware, async (req, res) => {
+  // ================== IP Add-ons ==================
+
+  const formatServerAddon = (addon: ServerAddon) => ({
+    id: addon.id,
+    type: addon.type,
+    label: ipAddonLabel(addon.type),
+    address: addon.address,
+    monthlyPriceCents: addon.monthlyPriceCents,
+    createdAt: addon.createdAt,
+  });
+
+  // The server's add-ons, plus what can still be bought and the prorated cost of buying it today
+  app.get('/api/servers/:id/addons', authMiddleware, async (req, res) => {
     try {
-      const session = req.userSession!;
-      const cancellations = await dbStorage.getUserCancellations(session.auth0UserId!);
-      
-      // Filter to return pending_approval, pending and processing cancellations (active deletions)
-      const active = cancellations.filter(c => c.status === 'pending_approval' || c.status === 'pending' || c.status === 'processing');
-      
-      // Return as a map of serverId -> cancellation for easy lookup
-      const cancellationMap: Record<string, { scheduledDeletionAt: Date; reason: string | null; mode: string; status: string }> = {};
-      for (const c of active) {
-        cancellationMap[c.virtfusionServerId] = {
-          scheduledDeletionAt: c.scheduledDeletionAt,
-          reason: c.reason,
-          mode: c.mode || 'grace',
-          status: c.status,
-        };
+      const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, req.userSession!.virtFusionUserId);
+      if (!server) {
+        return res.status(status || 403).json({ error: error || 'Access denied' });
       }
-      
-      res.json({ cancellations: cancellationMap });
+
+      const billing = await dbStorage.getServerBilling(req.params.id);
+      if (!billing || billing.auth0UserId !== req.userSession!.auth0UserId) {
+        return res.status(404).json({ error: 'Billing record not found for this server' });
+      }
+
+      const [addons, settings] = await Promise.all([
+        dbStorage.getActiveServerAddons(req.params.id),
+        dbStorage.getIpAddonSettings(),
+      ]);
+
+      const offers = SERVER_ADDON_TYPES.map((type) => {
+        const eligibility = checkIpAddonPurchase(type, billing, addons, settings);
+        const monthlyPriceCents = ipAddonPriceCents(settings, type);
+        const { amountCents } = billing.billingCycle === 'hourly'
+          ? { amountCents: 0 }
+          : calculatePlanChangeProration({
+            currentPriceCents: 0,
+            newPriceCents: monthlyPriceCents * billing.termMonths,
+            nextBillAt: billing.nextBillAt,
+            termMonths: billing.termMonths,
+          });
+        return {
+          type,
+          label: ipAddonLabel(type),
+          monthlyPriceCents,
+          proratedAmountCents: amountCents,
+          available: eligibility.ok,
+          reason: eligibility.ok ? null : eligibility.error,
+        };
+      });
+
+      res.json({
+        addons: addons.map(formatServerAddon),
+        offers,
+        nextBillAt: billing.nextBillAt,
+        billingCycle: billing.billingCycle,
+      });
     } catch (error: any) {
-      log(`Error fetching user cancellations: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to fetch cancellations' });
+      log(`Error loading add-ons for server ${req.params.id}: ${error.message}`, 'api');
+      return handleApiError(res, error, 'Unable to load add-ons. Please try again.', 'getServerAddons');
     }
   });
-  
-  // Get billing statuses for all user's servers (for showing overdue badges)
-  app.get('/api/billing/servers', authMiddleware, async (req, res) => {
+
+  app.post('/api/servers/:id/addons', authMiddleware, requireEmailVerified, serverActionRateLimiter, async (req, res) => {
     try {
-      const session = req.userSession!;
-      const billingRecords = await dbStorage.getServerBillingByUser(session.auth0UserId!);
+      const server = await getServerForFeatureChange(req, res, 'IP add-ons');
+      if (!server) return;
 
-      // Return as a map of serverId -> billing status
-      const billingMap: Record<string, {
-        status: string;
-        nextBillAt?: Date;
-        suspendAt?: Date | null;
-        monthlyPriceCents?: number;
-        freeServer?: boolean;
-      }> = {};
-      for (const b of billingRecords) {
-        billingMap[b.virtfusionServerId] = {
-          status: b.status,
-          nextBillAt: b.nextBillAt,
-          suspendAt: b.suspendAt,
-          monthlyPriceCents: b.monthlyPriceCents,
-          freeServer: b.freeServer,
-        };
+      const parsed = purchaseIpAddonSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid input' });
+      }
+
+      const result = await purchaseIpAddon({
+        auth0UserId: req.userSession!.auth0UserId!,
+        virtfusionServerId: req.params.id,
+        type: parsed.data.type,
+      });
+
+      if (!result.success) {
+        return res.status(result.status).json({ error: result.error });
       }
 
-      res.json({ billing: billingMap });
+      await auditUserAction(req, req.userSession!.auth0UserId!, req.userSession!.email, UserActions.SERVER_ADDON_PURCHASE, 'server', req.params.id, {
+        serverName: server.name,
+        addonId: result.addon.id,
+        type: result.addon.type,
+        address: result.addon.address,
+        proratedAmountCents: result.amountCents,
+        monthlyPriceCents: result.addon.monthlyPriceCents,
+      });
+
+      res.status(201).json({
+        success: true,
+        addon: formatServerAddon(result.addon),
+        proratedAmountCents: result.amountCents,
+      });
     } catch (error: any) {
-      log(`Error fetching server billing statuses: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to fetch billing statuses' });
+      log(`Error purchasing add-on for server ${req.params.id}: ${error.message}`, 'api');
+      return handleApiError(res, error, 'Failed to add the IP address. Please try again.', 'purchaseIpAddon');
     }
   });
 
-  // Get upcoming charges for the user (with server name enrichment)
-  app.get('/api/billing/upcoming', authMiddleware, async (req, res) => {
+  app.delete('/api/servers/:id/addons/:addonId', authMiddleware, requireEmailVerified, serverActionRateLimiter, async (req, res) => {
     try {
-      const session = req.userSession!;
-
-      // Fetch upcoming charges
-      let upcoming: Array<{
-        id: number;
-        virtfusionServerId: string;
-        planId: number;
-        monthlyPriceCents: number;
-        status: string;
-        nextBillAt: Date;
-        suspendAt: Date | null;
-        autoRenew: boolean;
-        serverName?: string;
-      }> = [];
-
-      try {
-        const billingRecords = await getUpcomingCharges(session.auth0UserId!);
+      const server = await getServerForFeatureChange(req, res, 'IP add-ons');
+      if (!server) return;
 
-        // If no billing records, return empty
-        if (billingRecords.length === 0) {
-          return res.json({ upcoming: [] });
-        }
-
-        // Fetch servers to enrich with names and verify they still exist
-        if (!session.virtFusionUserId) {
-          log(`Warning: Session missing virtFusionUserId for ${session.email}, returning billing without server names`, 'billing');
-          // Return billing records without server name enrichment
-          upcoming = billingRecords.map(billing => ({
-            ...billing,
-            serverName: undefined,
-          }));
-          return res.json({ upcoming });
-        }
+      const addonId = Number(req.params.addonId);
+      if (!Number.isInteger(addonId) || addonId <= 0) {
+        return res.status(400).json({ error: 'Invalid add-on' });
+      }
 
-        const servers = await virtfusionClient.listServersWithStats(session.virtFusionUserId);
-        // Convert server IDs to strings since serverBilling stores virtfusionServerId as text
-        // Store both name and uuid for each server
-        const serverMap = new Map(servers.map(s => [String(s.id), { name: s.name, uuid: s.uuid }]));
+      const result = await cancelIpAddon({
+        auth0UserId: req.userSession!.auth0UserId!,
+        virtfusionServerId: req.params.id,
+        addonId,
+      });
 
-        // Include all billing records, even if server is temporarily not visible (e.g., during reinstall)
-        // Just enrich with server name and UUID if available
-        upcoming = billingRecords.map(billing => {
-          const serverInfo = serverMap.get(billing.virtfusionServerId);
-          return {
-            ...billing,
-            serverName: serverInfo?.name || `Server #${billing.virtfusionServerId}`,
-            serverUuid: serverInfo?.uuid || billing.virtfusionServerUuid || undefined,
-          };
-        });
-      } catch (billingError: any) {
-        log(`Warning: Could not fetch upcoming charges: ${billingError.message}`, 'api');
+      if (!result.success) {
+        return res.status(result.status).json({ error: result.error });
       }
 
-      res.json({ upcoming });
+      await auditUserAction(req, req.userSession!.auth0UserId!, req.userSession!.email, UserActions.SERVER_ADDON_CANCEL, 'server', req.params.id, {
+        serverName: server.name,
+        addonId: result.addon.id,
+        type: result.addon.type,
+        address: result.addon.address,
+      });
+
+      res.json({ success: true });
     } catch (error: any) {
-      log(`Error in billing/upcoming endpoint: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to fetch upcoming charges' });
+      log(`Error cancelling add-on ${req.params.addonId} for server ${req.params.id}: ${error.message}`, 'api');
+      return handleApiError(res, error, 'Failed to remove the IP address. Please try again.', 'cancelIpAddon');
     }
   });
 
-  // Get billing ledger for the user
-  app.get('/api/billing/ledger', authMiddleware, async (req, res) => {
+  // ================== Snapshots ==================
+
+  // Snapshot retention comes from the server's plan; servers without a billing record get none
+  const getServerSnapshotLimit = async (serverId: string): Promise<number> => {
+    const billing = await dbStorage.getServerBilling(serverId);
+    if (!billing) return 0;
+    const plan = await dbStorage.getPlanById(billing.planId);
+    return plan?.snapshotLimit ?? 0;
+  };
+
+  app.get('/api/servers/:id/snapshots', authMiddleware, async (req, res) => {
     try {
-      const session = req.userSession!;
-      const ledger = await getBillingLedger(session.auth0UserId!);
+      const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, req.userSession!.virtFusionUserId);
+      if (!server) {
+        return res.status(status || 403).json({ error: error || 'Access denied' });
+      }
 
-      res.json({ ledger });
+      const [snapshots, limit] = await Promise.all([
+        virtfusionClient.listSnapshots(req.params.id),
+        getServerSnapshotLimit(req.params.id),
+      ]);
+
+      res.json({ snapshots, limit });
     } catch (error: any) {
-      log(`Error fetching billing ledger: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to fetch billing ledger' });
+      log(`Error listing snapshots for server ${req.params.id}: ${error.message}`, 'api');
+      return handleApiError(res, error, 'Unable to load snapshots. Please try again.', 'listSnapshots');
     }
   });
 
-  // Reactivate a suspended/unpaid server by paying the outstanding balance
-  app.post('/api/billing/servers/:serverId/reactivate', authMiddleware, requireEmailVerified, async (req, res) => {
+  app.post('/api/servers/:id/snapshots', authMiddleware, requireEmailVerified, serverActionRateLimiter, async (req, res) => {
     try {
-      const session = req.userSession!;
-      const { serverId } = req.params;
+      const server = await getServerForFeatureChange(req, res, 'Snapshots');
+      if (!server) return;
 
-      // Get the billing record for this server
-      const billingRecord = await getServerBillingStatus(serverId, session.auth0UserId!);
-      if (!billingRecord) {
-        return res.status(404).json({ error: 'No billing record found for this server' });
+      const parseResult = createSnapshotSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: parseResult.error.errors.map(e => e.message).join(', ') });
       }
 
-      // Verify ownership
-      if (billingRecord.auth0UserId !== session.auth0UserId) {
-        return res.status(403).json({ error: 'Access denied' });
-      }
+      const [existing, limit] = await Promise.all([
+        virtfusionClient.listSnapshots(req.params.id),
+        getServerSnapshotLimit(req.params.id),
+      ]);
 
-      // Free servers don't need reactivation - they should never be suspended for billing
-      if (billingRecord.freeServer) {
-        return res.status(400).json({ error: 'This server has complimentary hosting and cannot be reactivated through billing. Please contact support.' });
+      const plan = planSnapshotCreate(existing, limit, { replaceOldest: parseResult.data.replaceOldest });
+      if (!plan.ok) {
+        return res.status(plan.code === 'DISABLED' ? 403 : 409).json({ error: plan.error, code: plan.code });
       }
 
-      // Check if server actually has an outstanding payment
-      const now = new Date();
-      const isOverdue = (billingRecord.status === 'active' || billingRecord.status === 'paid') && billingRecord.nextBillAt < now;
-      const needsPayment = billingRecord.status === 'suspended' || billingRecord.status === 'unpaid' || isOverdue;
-      if (!needsPayment) {
-        return res.status(400).json({ error: 'Server has no outstanding payment' });
+      for (const snapshotId of plan.deleteIds) {
+        await virtfusionClient.deleteSnapshot(req.params.id, snapshotId);
       }
 
-      // Get wallet balance
-      const wallet = await dbStorage.getWallet(session.auth0UserId!);
-      if (!wallet) {
-        return res.status(400).json({ error: 'No wallet found. Please add funds first.' });
-      }
+      const name = parseResult.data.name || defaultSnapshotName();
+      await virtfusionClient.createSnapshot(req.params.id, name);
 
-      if (wallet.balanceCents < billingRecord.monthlyPriceCents) {
-        return res.status(400).json({
-          error: `Insufficient balance. You need $${(billingRecord.monthlyPriceCents / 100).toFixed(2)} but only have $${(wallet.balanceCents / 100).toFixed(2)}`,
-          required: billingRecord.monthlyPriceCents,
-          balance: wallet.balanceCents
-        });
-      }
+      await auditUserAction(req, req.userSession!.auth0UserId!, req.userSession!.email, UserActions.SNAPSHOT_CREATE, 'server', req.params.id, {
+        serverName: server.name,
+        snapshotName: name,
+        replacedSnapshotIds: plan.deleteIds,
+      });
 
-      // Retry only the requested server so one click can't charge
-      // unrelated overdue servers on the same account.
-      await retryServerBilling(session.auth0UserId!, serverId);
+      res.json({ success: true, name });
+    } catch (error: any) {
+      log(`Error creating snapshot for server ${req.params.id}: ${error.message}`, 'api');
+      return handleApiError(res, error, 'Failed to create snapshot. Please try again.', 'createSnapshot');
+    }
+  });
 
-      // Fetch the updated billing record to verify the outcome
-      const updatedRecord = await getServerBillingStatus(serverId, session.auth0UserId!);
+  app.post('/api/servers/:id/snapshots/:snapshotId/restore', authMiddleware, requireEmailVerified, serverActionRateLimiter, async (req, res) => {
+    try {
+      const server = await getServerForFeatureChange(req, res, 'Snapshots');
+      if (!server) return;
 
-      // If the billing status is still suspended, the unsuspend failed (charge was refunded)
-      if (updatedRecord?.status === 'suspended') {
-        return res.status(500).json({
-          error: 'Payment was processed but the server could not be unsuspended. Your wallet has been refunded. Please try again or contact support.',
-          billingRecord: updatedRecord,
-        });
+      const snapshotId = Number.parseInt(req.params.snapshotId, 10);
+      const snapshots = await virtfusionClient.listSnapshots(req.params.id);
+      const snapshot = snapshots.find((s) => s.id === snapshotId);
+      if (!snapshot) {
+        return res.status(404).json({ error: 'Snapshot not found' });
+      }
+      if (snapshot.status !== 'complete') {
+        return res.status(409).json({ error: 'Only completed snapshots can be restored' });
       }
 
-      log(`User ${session.email} reactivated server ${serverId}`, 'billing');
-      res.json({
-        success: true,
-        message: 'Server reactivated successfully',
-        billingRecord: updatedRecord
+      await virtfusionClient.restoreSnapshot(req.params.id, snapshotId);
+
+      await auditUserAction(req, req.userSession!.auth0UserId!, req.userSession!.email, UserActions.SNAPSHOT_RESTORE, 'server', req.params.id, {
+        serverName: server.name,
+        snapshotId,
+        snapshotName: snapshot.name,
       });
+
+      res.json({ success: true });
     } catch (error: any) {
-      log(`Error reactivating server ${req.params.serverId}: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to reactivate server' });
+      log(`Error restoring snapshot on server ${req.params.id}: ${error.message}`, 'api');
+      return handleApiError(res, error, 'Failed to restore snapshot. Please try again.', 'restoreSnapshot');
     }
   });
 
-  app.get('/api/servers/:id/cancellation', authMiddleware, async (req, res) => {
+  app.delete('/api/servers/:id/snapshots/:snapshotId', authMiddleware, requireEmailVerified, serverActionRateLimiter, async (req, res) => {
     try {
-      const serverId = req.params.id;
-      const session = req.userSession!;
-      
-      // Verify server ownership
-      const { server, error, status } = await getServerWithOwnershipCheck(serverId, session.virtFusionUserId);
-      if (!server) {
-        return res.status(status || 403).json({ error: error || 'Access denied' });
+      const server = await getServerForFeatureChange(req, res, 'Snapshots');
+      if (!server) return;
+
+      const snapshotId = Number.parseInt(req.params.snapshotId, 10);
+      const snapshots = await virtfusionClient.listSnapshots(req.params.id);
+      const snapshot = snapshots.find((s) => s.id === snapshotId);
+      if (!snapshot) {
+        return res.status(404).json({ error: 'Snapshot not found' });
       }
-      
-      // Get pending cancellation for this server
-      const cancellation = await dbStorage.getCancellationByServerId(serverId, session.auth0UserId!);
-      
-      res.json({ cancellation: cancellation || null });
+
+      await virtfusionClient.deleteSnapshot(req.params.id, snapshotId);
+
+      await auditUserAction(req, req.userSession!.auth0UserId!, req.userSession!.email, UserActions.SNAPSHOT_DELETE, 'server', req.params.id, {
+        serverName: server.name,
+        snapshotId,
+        snapshotName: snapshot.name,
+      });
+
+      res.json({ success: true });
     } catch (error: any) {
-      log(`Error fetching cancellation status for server ${req.params.id}: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to fetch cancellation status' });
+      log(`Error deleting snapshot on server ${req.params.id}: ${error.message}`, 'api');
+      return handleApiError(res, error, 'Failed to delete snapshot. Please try again.', 'deleteSnapshot');
     }
   });
 
-  app.post('/api/servers/:id/cancellation', authMiddleware, async (req, res) => {
+  // ================== ISO Media ==================
+
+  const formatIsoImage = (iso: IsoImage) => ({
+    id: iso.id,
+    name: iso.name,
+    description: iso.description,
+    url: iso.url,
+    library: iso.auth0UserId === null,
+    status: iso.status,
+    rejectionReason: iso.rejectionReason,
+    createdAt: iso.createdAt,
+  });
+
+  app.get('/api/isos', authMiddleware, async (req, res) => {
     try {
-      const serverId = req.params.id;
       const session = req.userSession!;
-      const { reason, mode = 'grace', password } = req.body;
-
-      // Validate mode
-      if (mode !== 'grace' && mode !== 'immediate') {
-        return res.status(400).json({ error: 'Invalid mode. Must be "grace" or "immediate"' });
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'User not authenticated' });
       }
 
-      // SECURITY: Require password confirmation for immediate cancellation
-      if (mode === 'immediate') {
-        if (!password || typeof password !== 'string') {
-          return res.status(400).json({ error: 'Password confirmation is required for immediate cancellation' });
-        }
+      const [mountable, submissions] = await Promise.all([
+        dbStorage.getMountableIsoImages(session.auth0UserId),
+        dbStorage.getIsoSubmissionsByUser(session.auth0UserId),
+      ]);
 
-        // Verify password with Auth0
-        // Use 400 instead of 401 to avoid triggering session expiry handling in frontend
-        const authResult = await auth0Client.authenticateUser(session.email, password);
-        if (!authResult.success) {
-          return res.status(400).json({ error: 'Incorrect password. Please try again.' });
-        }
-      }
+      res.json({
+        mountable: mountable.map(formatIsoImage),
+        submissions: submissions.map(formatIsoImage),
+        maxPendingSubmissions: MAX_PENDING_ISO_SUBMISSIONS,
+      });
+    } catch (error: any) {
+      log(`Error listing ISO images: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to load ISO images' });
+    }
+  });
 
-      // Verify server ownership
-      const { server, error, status } = await getServerWithOwnershipCheck(serverId, session.virtFusionUserId);
-      if (!server) {
-        return res.status(status || 403).json({ error: error || 'Access denied' });
+  app.post('/api/isos', authMiddleware, requireEmailVerified, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'User not authenticated' });
       }
 
-      // Check if server is overdue on payment - block deletion to prevent abuse
-      const billingStatus = await getServerBillingStatus(serverId, session.auth0UserId!, server.uuid);
-      if (billingStatus && !billingStatus.freeServer) {
-        const isOverdue = billingStatus.status === 'unpaid' ||
-          billingStatus.status === 'suspended' ||
-          (billingStatus.nextBillAt && new Date(billingStatus.nextBillAt) <= new Date());
-        if (isOverdue) {
-          return res.status(403).json({
-            error: 'Cannot delete server with outstanding payment. Please pay the overdue balance first.',
-            code: 'PAYMENT_REQUIRED'
-          });
-        }
+      const parsed = submitIsoUrlSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid ISO' });
       }
 
-      // Check if server is already cancelled
-      const existing = await dbStorage.getCancellationByServerId(serverId, session.auth0UserId!);
-      if (existing) {
-        return res.status(400).json({ error: 'Server already has a pending cancellation request' });
+      const urlResult = validateIsoUrl(parsed.data.url);
+      if (!urlResult.ok) {
+        return res.status(400).json({ error: urlResult.error });
       }
-      
-      // Calculate scheduled deletion date based on mode
-      const scheduledDeletionAt = new Date();
-      if (mode === 'immediate') {
-        // Immediate: 5 minutes from now
-        scheduledDeletionAt.setMinutes(scheduledDeletionAt.getMinutes() + 5);
-      } else {
-        // Grace period: 30 days from now
-        scheduledDeletionAt.setDate(scheduledDeletionAt.getDate() + 30);
+
+      const submissions = await dbStorage.getIsoSubmissionsByUser(session.auth0UserId);
+      if (submissions.filter((iso) => iso.status === 'pending').length >= MAX_PENDING_ISO_SUBMISSIONS) {
+        return res.status(400).json({ error: `You can have up to ${MAX_PENDING_ISO_SUBMISSIONS} ISO URLs waiting for review` });
       }
-      
-      const cancellation = await dbStorage.createCancellationRequest({
-        auth0UserId: session.auth0UserId!,
-        virtfusionServerId: serverId,
-        serverName: server.name,
-        reason: reason || null,
-        status: 'pending_approval',
-        scheduledDeletionAt,
-        mode,
-      });
 
-      // Audit log server cancellation
-      await auditUserAction(req, session.auth0UserId!, session.email, UserActions.SERVER_CANCEL, 'server', serverId, {
-        serverName: server.name,
-        mode,
-        scheduledDeletionAt: scheduledDeletionAt.toISOString(),
-        reason: reason || null,
+      const iso = await dbStorage.createIsoImage({
+        name: parsed.data.name,
+        url: urlResult.url,
+        auth0UserId: session.auth0UserId,
+        status: 'pending',
       });
 
-      log(`Cancellation requested for server ${serverId} by user ${session.auth0UserId}, mode=${mode}, scheduled for ${scheduledDeletionAt.toISOString()}`, 'api');
+      await auditUserAction(req, session.auth0UserId, session.email, UserActions.ISO_SUBMIT, 'iso_image', String(iso.id), {
+        name: iso.name,
+        url: iso.url,
+      });
 
-      res.json({ success: true, cancellation });
+      res.status(201).json({ iso: formatIsoImage(iso) });
     } catch (error: any) {
-      log(`Error requesting cancellation for server ${req.params.id}: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to request cancellation' });
+      log(`Error submitting ISO URL: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to submit ISO URL' });
     }
   });
 
-  app.delete('/api/servers/:id/cancellation', authMiddleware, async (req, res) => {
+  app.delete('/api/isos/:isoId', authMiddleware, async (req, res) => {
     try {
-      const serverId = req.params.id;
       const session = req.userSession!;
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'User not authenticated' });
+      }
 
-      // Check if user account is blocked or suspended
-      const userFlags = await dbStorage.getUserFlagsFromDb(session.auth0UserId!);
-      if (userFlags?.blocked) {
-        return res.status(403).json({ error: 'Your account has been blocked. Please contact support for assistance.' });
+      const isoId = Number.parseInt(req.params.isoId, 10);
+      const iso = Number.isFinite(isoId) ? await dbStorage.getIsoImageById(isoId) : undefined;
+      if (!iso || iso.auth0UserId !== session.auth0UserId) {
+        return res.status(404).json({ error: 'ISO not found' });
       }
-      if (userFlags?.suspended) {
-        return res.status(403).json({ error: 'Your account has been suspended. Server controls are disabled.' });
+      if (await dbStorage.isIsoImageMounted(iso.id)) {
+        return res.status(409).json({ error: 'Unmount this ISO from your servers before removing it' });
       }
 
-      // Verify server ownership
-      const { server, error, status } = await getServerWithOwnershipCheck(serverId, session.virtFusionUserId);
+      await dbStorage.deleteIsoImage(iso.id);
+
+      await auditUserAction(req, session.auth0UserId, session.email, UserActions.ISO_DELETE, 'iso_image', String(iso.id), {
+        name: iso.name,
+      });
+
+      res.json({ success: true });
+    } catch (error: any) {
+      log(`Error deleting ISO ${req.params.isoId}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to remove ISO' });
+    }
+  });
+
+  app.get('/api/servers/:id/media', authMiddleware, async (req, res) => {
+    try {
+      const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, req.userSession!.virtFusionUserId);
       if (!server) {
         return res.status(status || 403).json({ error: error || 'Access denied' });
       }
-      
-      // Get pending cancellation
-      const cancellation = await dbStorage.getCancellationByServerId(serverId, session.auth0UserId!);
-      if (!cancellation) {
-        return res.status(404).json({ error: 'No pending cancellation found' });
-      }
-      
-      // Prevent revoking immediate cancellations - they cannot be stopped
-      if (cancellation.mode === 'immediate') {
-        return res.status(400).json({ error: 'Immediate cancellations cannot be revoked. The server will be deleted within 5 minutes.' });
-      }
-      
-      // Revoke the cancellation
-      const revoked = await dbStorage.revokeCancellationRequest(cancellation.id);
-      
-      log(`Cancellation revoked for server ${serverId} by user ${session.auth0UserId}`, 'api');
-      
-      res.json({ success: true, cancellation: revoked });
+
+      const media = await dbStorage.getServerMedia(req.params.id);
+      const iso = media?.isoImageId ? await dbStorage.getIsoImageById(media.isoImageId) : undefined;
+
+      res.json({
+        iso: iso ? formatIsoImage(iso) : null,
+        bootOrder: media?.bootOrder ?? DEFAULT_BOOT_ORDER,
+      });
     } catch (error: any) {
-      log(`Error revoking cancellation for server ${req.params.id}: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to revoke cancellation' });
+      log(`Error loading media for server ${req.params.id}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to load server media' });
     }
   });
 
-  app.post('/api/servers/:id/console-url', authMiddleware, async (req, res) => {
+  app.put('/api/servers/:id/media/iso', authMiddleware, requireEmailVerified, serverActionRateLimiter, async (req, res) => {
     try {
-      const serverId = req.params.id;
-      const session = req.userSession!;
+      const server = await getServerForFeatureChange(req, res, 'ISO mounting');
+      if (!server) return;
 
-      // Check if user account is blocked or suspended
-      const userFlags = await dbStorage.getUserFlagsFromDb(session.auth0UserId!);
-      if (userFlags?.blocked) {
-        return res.status(403).json({ error: 'Your account has been blocked. Please contact support for assistance.' });
-      }
-      if (userFlags?.suspended) {
-        return res.status(403).json({ error: 'Your account has been suspended. Server controls are disabled.' });
+      const parsed = mountIsoSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid ISO' });
       }
 
-      // Get server to verify ownership and get UUID
-      const { server, error, status } = await getServerWithOwnershipCheck(serverId, session.virtFusionUserId);
-      if (!server) {
-        return res.status(status || 403).json({ error: error || 'Access denied' });
+      const iso = await dbStorage.getIsoImageById(parsed.data.isoImageId);
+      if (!iso || !canMountIso(iso, req.userSession!.auth0UserId!)) {
+        return res.status(404).json({ error: 'ISO not found or not approved yet' });
       }
 
-      if (server.suspended) {
-        return res.status(403).json({ error: 'Server is suspended. Console access is disabled.' });
-      }
-      return res.json({
-        url: `/api/servers/${serverId}/vnc-console`,
+      await virtfusionClient.mountIso(req.params.id, iso.url);
+      await dbStorage.upsertServerMedia(req.params.id, { isoImageId: iso.id });
+
+      await auditUserAction(req, req.userSession!.auth0UserId!, req.userSession!.email, UserActions.SERVER_ISO_MOUNT, 'server', req.params.id, {
+        serverName: server.name,
+        isoImageId: iso.id,
+        isoName: iso.name,
       });
+
+      res.json({ iso: formatIsoImage(iso) });
     } catch (error: any) {
-      log(`Error generating console URL for server ${req.params.id}: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to generate console URL' });
+      log(`Error mounting ISO on server ${req.params.id}: ${error.message}`, 'api');
+      return handleApiError(res, error, 'Failed to mount ISO. Please try again.', 'mountIso');
     }
   });
 
-  // Serve the noVNC console page with credentials injected server-side.
-  // This eliminates all client-side token exchange and browser caching issues.
-  // Credentials are injected into the HTML by Express — they never appear in a URL.
-  app.get('/api/servers/:id/vnc-console', authMiddleware, async (req, res) => {
+  app.delete('/api/servers/:id/media/iso', authMiddleware, requireEmailVerified, serverActionRateLimiter, async (req, res) => {
     try {
-      const serverId = req.params.id;
-      const session = req.userSession!;
-      const sessionId = req.cookies?.[SESSION_COOKIE];
+      const server = await getServerForFeatureChange(req, res, 'ISO mounting');
+      if (!server) return;
 
-      if (!sessionId) {
-        return res.status(401).send('<p>Your session has ended. Please sign in again.</p>');
-      }
+      await virtfusionClient.unmountIso(req.params.id);
+      await dbStorage.upsertServerMedia(req.params.id, { isoImageId: null });
 
-      // Check account flags
-      const userFlags = await dbStorage.getUserFlagsFromDb(session.auth0UserId!);
-      if (userFlags?.blocked) {
-        return res.status(403).send('<p>Your account has been blocked. Please contact support.</p>');
-      }
-      if (userFlags?.suspended) {
-        return res.status(403).send('<p>Your account has been suspended. Server controls are disabled.</p>');
-      }
+      await auditUserAction(req, req.userSession!.auth0UserId!, req.userSession!.email, UserActions.SERVER_ISO_UNMOUNT, 'server', req.params.id, {
+        serverName: server.name,
+      });
 
-      // Verify ownership
-      const { server, error: ownerError, status: ownerStatus } = await getServerWithOwnershipCheck(serverId, session.virtFusionUserId);
-      if (!server) {
-        return res.status(ownerStatus || 403).send(ownerError || 'Access denied');
-      }
-      if (server.suspended) {
-        return res.status(403).send('<p>Server is suspended. Console access is disabled.</p>');
-      }
+      res.json({ success: true });
+    } catch (error: any) {
+      log(`Error unmounting ISO from server ${req.params.id}: ${error.message}`, 'api');
+      return handleApiError(res, error, 'Failed to unmount ISO. Please try again.', 'unmountIso');
+    }
+  });
 
-      const panelUrl = process.env.VIRTFUSION_PANEL_URL || '';
+  app.put('/api/servers/:id/media/boot-order', authMiddleware, requireEmailVerified, serverActionRateLimiter, async (req, res) => {
+    try {
+      const server = await getServerForFeatureChange(req, res, 'Boot order changes');
+      if (!server) return;
 
-      // Enable VNC
-      try {
-        await virtfusionClient.enableVnc(serverId);
-      } catch (vncError: any) {
-        log(`Failed to enable VNC for server ${serverId}: ${vncError.message}`, 'api');
+      const parsed = updateBootOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid boot order' });
       }
 
-      // Get VNC credentials
-      let vncAccess: any = null;
-      try {
-        vncAccess = await virtfusionClient.getServerVncAccess(serverId);
-      } catch (vncErr: any) {
-        log(`Failed to get VNC access for server ${serverId}: ${vncErr.message}`, 'api');
+      const normalized = normalizeBootOrder(parsed.data.bootOrder);
+      if (!normalized.ok) {
+        return res.status(400).json({ error: normalized.error });
       }
 
-      if (!vncAccess?.wss?.url || !vncAccess?.password) {
-        return res.status(503).send('<p>VNC console is not available for this server right now. The server may be powered off.</p>');
-      }
+      await virtfusionClient.setBootOrder(req.params.id, normalized.bootOrder);
+      await dbStorage.upsertServerMedia(req.params.id, { bootOrder: normalized.bootOrder });
 
-      // Build WebSocket URL
-      const panelHost = new URL(panelUrl).host;
-      const wsUrl = new URL(`wss://${panelHost}${vncAccess.wss.url}`);
-      let wsPath = wsUrl.pathname.replace(/^\//, '');
-      if (wsUrl.search) wsPath += wsUrl.search;
+      await auditUserAction(req, req.userSession!.auth0UserId!, req.userSession!.email, UserActions.SERVER_BOOT_ORDER_UPDATE, 'server', req.params.id, {
+        serverName: server.name,
+        bootOrder: normalized.bootOrder,
+      });
 
-      // Set up 30-min auto-disable timer
-      const existingTimer = vncAutoDisableTimers.get(serverId);
-      if (existingTimer) clearTimeout(existingTimer);
-      vncAutoDisableTimers.set(serverId, setTimeout(() => {
-        virtfusionClient.disableVnc(serverId).catch(() => {});
-        vncAutoDisableTimers.delete(serverId);
-        log(`VNC auto-disabled for server ${serverId} after ${VNC_SESSION_TTL_MS / 60000}min TTL`, 'security');
-      }, VNC_SESSION_TTL_MS));
+      res.json({ bootOrder: normalized.bootOrder });
+    } catch (error: any) {
+      log(`Error updating boot order for server ${req.params.id}: ${error.message}`, 'api');
+      return handleApiError(res, error, 'Failed to update boot order. Please try again.', 'updateBootOrder');
+    }
+  });
 
-      // Read vnc.html template from dist
-      const vncHtmlPath = path.resolve(__dirname, 'public/novnc/vnc.html');
-      let html: string;
-      try {
-        html = await fs.promises.readFile(vncHtmlPath, 'utf-8');
-      } catch (readErr: any) {
-        log(`Failed to read vnc.html: ${readErr.message}`, 'api');
-        return res.status(500).send('<p>Console unavailable. Please try again.</p>');
+  // ================== Firewall ==================
+
+  const formatFirewallRule = (rule: NormalizedFirewallRule) => ({
+    direction: rule.direction,
+    protocol: rule.protocol,
+    portStart: rule.portStart,
+    portEnd: rule.portEnd,
+    cidr: rule.cidr,
+    action: rule.action,
+    description: rule.description,
+  });
+
+  // Push rules to the hypervisor first so the stored copy never claims rules that aren't enforced
+  const applyServerFirewall = async (serverId: string, rules: NormalizedFirewallRule[]) => {
+    await virtfusionClient.applyFirewallRules(serverId, rules);
+    await dbStorage.replaceServerFirewallRules(serverId, rules);
+  };
+
+  app.get('/api/servers/:id/firewall', authMiddleware, async (req, res) => {
+    try {
+      const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, req.userSession!.virtFusionUserId);
+      if (!server) {
+        return res.status(status || 403).json({ error: error || 'Access denied' });
       }
 
-      // Create a short-lived proxy session token.
-      // The browser only gets this opaque token — NOT the VirtFusion password or wsUrl.
-      // When noVNC connects via WebSocket (/api/vnc-ws/:token), our proxy:
-      //   1. Validates and deletes the token (one-time use)
-      //   2. Connects to VirtFusion server-side
-      //   3. Handles VNC authentication (DES challenge-response) using stored password
-      //   4. Presents "None" auth to noVNC — no password ever sent to browser
-      const proxyToken = randomBytes(32).toString('hex'); // 64-char hex
-      vncProxySessions.set(proxyToken, {
-        wsUrl: wsUrl.toString(),
-        password: vncAccess.password,
-        sessionId,
-        auth0UserId: session.auth0UserId!,
-        serverId,
-        expiresAt: Date.now() + 2 * 60 * 1000, // 2 min to initiate WebSocket
+      const rules = await dbStorage.getServerFirewallRules(req.params.id);
+      res.json({
+        rules: rules.map((rule) => formatFirewallRule(fromStoredFirewallRule(rule))),
+        maxRules: MAX_FIREWALL_RULES_PER_SERVER,
       });
+    } catch (error: any) {
+      log(`Error loading firewall for server ${req.params.id}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to load firewall rules' });
+    }
+  });
 
-      // Inject two things:
-      // 1. <base href="/novnc/"> at START of <head> — fixes all relative asset paths
-      // 2. window.__ozvpsVncConfig — only the proxy token path + non-sensitive settings
-      //    host/port/encrypt are intentionally OMITTED so noVNC uses window.location
-      //    defaults (correct hostname regardless of NGINX proxying).
-      html = html.replace('<head>', '<head>\n<base href="/novnc/">');
-      // Inject as JS (not JSON) so host/port/encrypt use window.location at runtime.
-      // This prevents stale localStorage values from overriding the correct connection target.
-      // Only path (the proxy token) and serverId are hardcoded server-side.
-      const configScript = `<script>window.__ozvpsVncConfig = {
-  host: window.location.hostname,
-  port: window.location.port || (window.location.protocol === 'https:' ? '443' : '80'),
-  encrypt: window.location.protocol === 'https:' ? '1' : '0',
-  path: ${JSON.stringify(`api/vnc-ws/${proxyToken}`)},
-  autoconnect: '1',
-  resize: 'scale',
-  reconnect: '0',
-  serverId: ${JSON.stringify(serverId)}
-};</script>`;
-      html = html.replace('</head>', configScript + '\n</head>');
+  app.put('/api/servers/:id/firewall', authMiddleware, requireEmailVerified, serverActionRateLimiter, async (req, res) => {
+    try {
+      const server = await getServerForFeatureChange(req, res, 'Firewall changes');
+      if (!server) return;
 
-      res.setHeader('Content-Type', 'text/html; charset=utf-8');
-      res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate');
-      res.setHeader('Pragma', 'no-cache');
-      res.send(html);
+      const parsed = updateServerFirewallSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid firewall rules' });
+      }
 
-      log(`VNC console served for server ${serverId} (user: ${session.auth0UserId})`, 'security');
+      const normalized = normalizeFirewallRules(parsed.data.rules);
+      if (!normalized.ok) {
+        return res.status(400).json({ error: normalized.error });
+      }
+
+      await applyServerFirewall(req.params.id, normalized.rules);
+
+      await auditUserAction(req, req.userSession!.auth0UserId!, req.userSession!.email, UserActions.SERVER_FIREWALL_UPDATE, 'server', req.params.id, {
+        serverName: server.name,
+        ruleCount: normalized.rules.length,
+      });
+
+      res.json({ rules: normalized.rules.map(formatFirewallRule) });
     } catch (error: any) {
-      log(`Error serving VNC console for server ${req.params.id}: ${error.message}`, 'api');
-      res.status(500).send('<p>Console unavailable. Please try again.</p>');
+      log(`Error updating firewall for server ${req.params.id}: ${error.message}`, 'api');
+      return handleApiError(res, error, 'Failed to update firewall rules. Please try again.', 'updateFirewall');
     }
   });
 
-  app.get('/api/user/profile', authMiddleware, async (req, res) => {
-    try {
-      const session = req.userSession!;
+  // ================== Power Schedules ==================
 
-      // Get wallet to retrieve profile picture
-      const wallet = await dbStorage.getWallet(session.auth0UserId!);
+  const formatPowerSchedule = (schedule: ScheduledPowerActionRecord) => ({
+    id: schedule.id,
+    action: schedule.action,
+    cronExpression: schedule.cronExpression,
+    runAt: schedule.runAt,
+    timezone: schedule.timezone,
+    enabled: schedule.enabled,
+    nextRunAt: schedule.nextRunAt,
+    lastRunAt: schedule.lastRunAt,
+    lastStatus: schedule.lastStatus,
+    createdAt: schedule.createdAt,
+  });
+
+  app.get('/api/servers/:id/power-schedules', authMiddleware, async (req, res) => {
+    try {
+      const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, req.userSession!.virtFusionUserId);
+      if (!server) {
+        return res.status(status || 403).json({ error: error || 'Access denied' });
+      }
 
+      const [schedules, runs] = await Promise.all([
+        dbStorage.getPowerSchedulesByServer(req.params.id),
+        dbStorage.getPowerScheduleRuns(req.params.id, MAX_POWER_SCHEDULE_RUNS_SHOWN),
+      ]);
       res.json({
-        id: session.userId || session.id,
-        email: session.email,
-        name: session.name,
-        virtFusionUserId: session.virtFusionUserId,
-        profilePictureUrl: wallet?.profilePictureUrl || null,
-        createdAt: new Date().toISOString(),
+        schedules: schedules.map(formatPowerSchedule),
+        runs: runs.map((run) => ({
+          id: run.id,
+          scheduleId: run.scheduleId,
+          action: run.action,
+          scheduledFor: run.scheduledFor,
+          status: run.status,
+          error: run.error,
+          createdAt: run.createdAt,
+        })),
+        maxSchedules: MAX_POWER_SCHEDULES_PER_SERVER,
       });
     } catch (error: any) {
-      log(`Error fetching user profile: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to fetch user profile' });
+      log(`Error loading power schedules for server ${req.params.id}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to load power schedules' });
     }
   });
 
-  app.put('/api/user/profile', authMiddleware, async (req, res) => {
+  app.post('/api/servers/:id/power-schedules', authMiddleware, requireEmailVerified, serverActionRateLimiter, async (req, res) => {
     try {
-      const session = req.userSession!;
-      const sessionId = req.cookies?.[SESSION_COOKIE];
-      const { name } = req.body;
-      
-      // Validate name if provided
-      if (name !== undefined) {
-        if (typeof name !== 'string' || name.trim().length < 1) {
-          return res.status(400).json({ error: 'Name must be a non-empty string' });
-        }
-        if (name.trim().length > 100) {
-          return res.status(400).json({ error: 'Name must be 100 characters or less' });
-        }
+      const server = await getServerForFeatureChange(req, res, 'Power schedules');
+      if (!server) return;
+
+      const parsed = createPowerScheduleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid schedule' });
       }
-      
-      let updatedName = session.name;
-      
-      // Update name in Auth0 if provided
-      if (name && name.trim() !== session.name && session.auth0UserId) {
-        const success = await auth0Client.updateUserName(session.auth0UserId, name.trim());
-        if (!success) {
-          return res.status(500).json({ error: 'Failed to update name' });
-        }
-        updatedName = name.trim();
 
-        // Persist the name change to the session storage
-        if (sessionId) {
-          await storage.updateSession(sessionId, { name: updatedName });
+      const { action, cronExpression, timezone } = parsed.data;
+      if (!isValidTimeZone(timezone)) {
+        return res.status(400).json({ error: 'Unknown time zone' });
+      }
+      if (cronExpression) {
+        const cron = parseCronExpression(cronExpression);
+        if (!cron.ok) {
+          return res.status(400).json({ error: cron.error });
         }
+      }
 
-        // Audit log profile update
-        await auditUserAction(req, session.auth0UserId, session.email, UserActions.PROFILE_UPDATE, 'account', session.auth0UserId, {
-          oldName: session.name,
-          newName: updatedName,
+      const runAt = parsed.data.runAt ? new Date(parsed.data.runAt) : null;
+      const nextRunAt = computeNextScheduledRun({ cronExpression, runAt, timezone }, new Date());
+      if (!nextRunAt) {
+        return res.status(400).json({
+          error: runAt ? 'The scheduled time must be in the future' : 'That schedule never runs',
         });
+      }
 
-        log(`Updated user name for ${session.email} to: ${updatedName}`, 'api');
+      const count = await dbStorage.countPowerSchedules(req.params.id);
+      if (count >= MAX_POWER_SCHEDULES_PER_SERVER) {
+        return res.status(400).json({ error: `A server can have at most ${MAX_POWER_SCHEDULES_PER_SERVER} power schedules` });
+      }
+
+      const schedule = await dbStorage.createPowerSchedule({
+        auth0UserId: req.userSession!.auth0UserId!,
+        email: req.userSession!.email,
+        virtfusionServerId: req.params.id,
+        action,
+        cronExpression: cronExpression || null,
+        runAt,
+        timezone,
+        nextRunAt,
+      });
+
+      await auditUserAction(req, req.userSession!.auth0UserId!, req.userSession!.email, UserActions.POWER_SCHEDULE_CREATE, 'server', req.params.id, {
+        serverName: server.name,
+        scheduleId: schedule.id,
+        action,
+        cronExpression: schedule.cronExpression,
+        runAt: schedule.runAt,
+        timezone,
+      });
+
+      res.status(201).json({ schedule: formatPowerSchedule(schedule) });
+    } catch (error: any) {
+      log(`Error creating power schedule for server ${req.params.id}: ${error.message}`, 'api');
+      return handleApiError(res, error, 'Failed to create power schedule. Please try again.', 'createPowerSchedule');
+    }
+  });
+
+  app.patch('/api/servers/:id/power-schedules/:scheduleId', authMiddleware, requireEmailVerified, serverActionRateLimiter, async (req, res) => {
+    try {
+      const server = await getServerForFeatureChange(req, res, 'Power schedules');
+      if (!server) return;
+
+      const scheduleId = Number.parseInt(req.params.scheduleId, 10);
+      if (!Number.isFinite(scheduleId)) {
+        return res.status(400).json({ error: 'Invalid schedule ID' });
+      }
+
+      const parsed = updatePowerScheduleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid request' });
+      }
+
+      const existing = (await dbStorage.getPowerSchedulesByServer(req.params.id)).find((schedule) => schedule.id === scheduleId);
+      if (!existing) {
+        return res.status(404).json({ error: 'Schedule not found' });
+      }
+
+      let nextRunAt: Date | null = null;
+      if (parsed.data.enabled) {
+        nextRunAt = computeNextScheduledRun(existing, new Date());
+        if (!nextRunAt) {
+          return res.status(400).json({ error: 'This one-off schedule has already passed. Create a new one instead.' });
+        }
+      }
+
+      const schedule = await dbStorage.setPowerScheduleEnabled(req.params.id, scheduleId, parsed.data.enabled, nextRunAt);
+      if (!schedule) {
+        return res.status(404).json({ error: 'Schedule not found' });
+      }
+
+      await auditUserAction(req, req.userSession!.auth0UserId!, req.userSession!.email, UserActions.POWER_SCHEDULE_UPDATE, 'server', req.params.id, {
+        serverName: server.name,
+        scheduleId,
+        enabled: parsed.data.enabled,
+      });
+
+      res.json({ schedule: formatPowerSchedule(schedule) });
+    } catch (error: any) {
+      log(`Error updating power schedule ${req.params.scheduleId}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to update power schedule' });
+    }
+  });
+
+  app.delete('/api/servers/:id/power-schedules/:scheduleId', authMiddleware, requireEmailVerified, async (req, res) => {
+    try {
+      const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, req.userSession!.virtFusionUserId);
+      if (!server) {
+        return res.status(status || 403).json({ error: error || 'Access denied' });
+      }
+
+      const scheduleId = Number.parseInt(req.params.scheduleId, 10);
+      if (!Number.isFinite(scheduleId)) {
+        return res.status(400).json({ error: 'Invalid schedule ID' });
+      }
+
+      const deleted = await dbStorage.deletePowerSchedule(req.params.id, scheduleId);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Schedule not found' });
+      }
+
+      await auditUserAction(req, req.userSession!.auth0UserId!, req.userSession!.email, UserActions.POWER_SCHEDULE_DELETE, 'server', req.params.id, {
+        serverName: server.name,
+        scheduleId,
+      });
+
+      res.json({ success: true });
+    } catch (error: any) {
+      log(`Error deleting power schedule ${req.params.scheduleId}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to delete power schedule' });
+    }
+  });
+
+  // ================== Resource Alerts ==================
+
+  const formatAlertRule = (rule: ServerAlertRule) => ({
+    id: rule.id,
+    metric: rule.metric,
+    thresholdPercent: rule.thresholdPercent,
+    durationMinutes: rule.durationMinutes,
+    cooldownMinutes: rule.cooldownMinutes,
+    webhookUrl: rule.webhookUrl,
+    enabled: rule.enabled,
+    state: rule.state,
+    lastValue: rule.lastValue,
+    lastCheckedAt: rule.lastCheckedAt,
+    lastNotifiedAt: rule.lastNotifiedAt,
+    createdAt: rule.createdAt,
+  });
+
+  app.get('/api/servers/:id/alerts', authMiddleware, async (req, res) => {
+    try {
+      const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, req.userSession!.virtFusionUserId);
+      if (!server) {
+        return res.status(status || 403).json({ error: error || 'Access denied' });
       }
 
+      const [rules, events] = await Promise.all([
+        dbStorage.getAlertRulesByServer(req.params.id),
+        dbStorage.getAlertEvents(req.params.id, MAX_ALERT_EVENTS_SHOWN),
+      ]);
       res.json({
-        id: session.userId || session.id,
-        email: session.email,
-        name: updatedName,
-        virtFusionUserId: session.virtFusionUserId,
-        createdAt: new Date().toISOString(),
+        rules: rules.map(formatAlertRule),
+        events: events.map((event) => ({
+          id: event.id,
+          ruleId: event.ruleId,
+          metric: event.metric,
+          kind: event.kind,
+          value: event.value,
+          thresholdPercent: event.thresholdPercent,
+          webhookStatus: event.webhookStatus,
+          createdAt: event.createdAt,
+        })),
+        maxRules: MAX_ALERT_RULES_PER_SERVER,
       });
     } catch (error: any) {
-      log(`Error updating user profile: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to update user profile' });
+      log(`Error loading alert rules for server ${req.params.id}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to load alert rules' });
     }
   });
 
-  app.post('/api/user/password', authMiddleware, async (req, res) => {
+  app.post('/api/servers/:id/alerts', authMiddleware, requireEmailVerified, serverActionRateLimiter, async (req, res) => {
     try {
-      const session = req.userSession!;
-      const { currentPassword, newPassword } = req.body;
+      const server = await getServerForFeatureChange(req, res, 'Resource alerts');
+      if (!server) return;
 
-      // SECURITY: Require current password verification
-      if (!currentPassword) {
-        return res.status(400).json({ error: 'Current password is required' });
+      const parsed = createAlertRuleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid alert rule' });
       }
 
-      if (!newPassword) {
-        return res.status(400).json({ error: 'New password is required' });
+      let webhookUrl: string | null = null;
+      if (parsed.data.webhookUrl) {
+        const webhook = validateWebhookUrl(parsed.data.webhookUrl);
+        if (!webhook.ok) {
+          return res.status(400).json({ error: webhook.error });
+        }
+        webhookUrl = webhook.url;
       }
 
-      if (newPassword.length < 8) {
-        return res.status(400).json({ error: 'Password must be at least 8 characters' });
+      const count = await dbStorage.countAlertRules(req.params.id);
+      if (count >= MAX_ALERT_RULES_PER_SERVER) {
+        return res.status(400).json({ error: `A server can have at most ${MAX_ALERT_RULES_PER_SERVER} alert rules` });
+      }
+
+      const { metric, thresholdPercent, cooldownMinutes } = parsed.data;
+      const rule = await dbStorage.createAlertRule({
+        auth0UserId: req.userSession!.auth0UserId!,
+        email: req.userSession!.email,
+        virtfusionServerId: req.params.id,
+        metric,
+        thresholdPercent,
+        // Transfer only ever goes up within a month, so there is nothing to wait out
+        durationMinutes: metric === 'transfer' ? 0 : parsed.data.durationMinutes,
+        cooldownMinutes,
+        webhookUrl,
+      });
+
+      await auditUserAction(req, req.userSession!.auth0UserId!, req.userSession!.email, UserActions.ALERT_RULE_CREATE, 'server', req.params.id, {
+        serverName: server.name,
+        ruleId: rule.id,
+        metric,
+        thresholdPercent,
+        durationMinutes: rule.durationMinutes,
+        webhook: !!webhookUrl,
+      });
+
+      res.status(201).json({ rule: formatAlertRule(rule) });
+    } catch (error: any) {
+      log(`Error creating alert rule for server ${req.params.id}: ${error.message}`, 'api');
+      return handleApiError(res, error, 'Failed to create alert rule. Please try again.', 'createAlertRule');
+    }
+  });
+
+  app.patch('/api/servers/:id/alerts/:ruleId', authMiddleware, requireEmailVerified, serverActionRateLimiter, async (req, res) => {
+    try {
+      const server = await getServerForFeatureChange(req, res, 'Resource alerts');
+      if (!server) return;
+
+      const ruleId = Number.parseInt(req.params.ruleId, 10);
+      if (!Number.isFinite(ruleId)) {
+        return res.status(400).json({ error: 'Invalid alert rule ID' });
+      }
+
+      const parsed = updateAlertRuleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid request' });
+      }
+
+      const existing = (await dbStorage.getAlertRulesByServer(req.params.id)).find((rule) => rule.id === ruleId);
+      if (!existing) {
+        return res.status(404).json({ error: 'Alert rule not found' });
+      }
+
+      const updates = { ...parsed.data };
+      if (updates.webhookUrl) {
+        const webhook = validateWebhookUrl(updates.webhookUrl);
+        if (!webhook.ok) {
+          return res.status(400).json({ error: webhook.error });
+        }
+        updates.webhookUrl = webhook.url;
+      } else if (updates.webhookUrl === '') {
+        updates.webhookUrl = null;
+      }
+      if (existing.metric === 'transfer') {
+        delete updates.durationMinutes;
+      }
+
+      const rule = await dbStorage.updateAlertRule(req.params.id, ruleId, updates);
+      if (!rule) {
+        return res.status(404).json({ error: 'Alert rule not found' });
+      }
+
+      await auditUserAction(req, req.userSession!.auth0UserId!, req.userSession!.email, UserActions.ALERT_RULE_UPDATE, 'server', req.params.id, {
+        serverName: server.name,
+        ruleId,
+        ...parsed.data,
+      });
+
+      res.json({ rule: formatAlertRule(rule) });
+    } catch (error: any) {
+      log(`Error updating alert rule ${req.params.ruleId}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to update alert rule' });
+    }
+  });
+
+  app.delete('/api/servers/:id/alerts/:ruleId', authMiddleware, requireEmailVerified, async (req, res) => {
+    try {
+      const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, req.userSession!.virtFusionUserId);
+      if (!server) {
+        return res.status(status || 403).json({ error: error || 'Access denied' });
+      }
+
+      const ruleId = Number.parseInt(req.params.ruleId, 10);
+      if (!Number.isFinite(ruleId)) {
+        return res.status(400).json({ error: 'Invalid alert rule ID' });
+      }
+
+      const deleted = await dbStorage.deleteAlertRule(req.params.id, ruleId);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Alert rule not found' });
+      }
+
+      await auditUserAction(req, req.userSession!.auth0UserId!, req.userSession!.email, UserActions.ALERT_RULE_DELETE, 'server', req.params.id, {
+        serverName: server.name,
+        ruleId,
+      });
+
+      res.json({ success: true });
+    } catch (error: any) {
+      log(`Error deleting alert rule ${req.params.ruleId}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to delete alert rule' });
+    }
+  });
+
+  // ================== Tags & Projects ==================
+
+  app.get('/api/servers/:id/labels', authMiddleware, async (req, res) => {
+    try {
+      const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, req.userSession!.virtFusionUserId);
+      if (!server) {
+        return res.status(status || 403).json({ error: error || 'Access denied' });
+      }
+
+      const [labels, userProjects] = await Promise.all([
+        dbStorage.getServerLabels(req.params.id),
+        dbStorage.getProjectsByUser(req.userSession!.auth0UserId!),
+      ]);
+      res.json(formatServerLabels(labels, userProjects));
+    } catch (error: any) {
+      log(`Error loading labels for server ${req.params.id}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to load server tags' });
+    }
+  });
+
+  app.put('/api/servers/:id/labels', authMiddleware, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, session.virtFusionUserId);
+      if (!server) {
+        return res.status(status || 403).json({ error: error || 'Access denied' });
+      }
+
+      const parsed = updateServerLabelsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid tags' });
+      }
+
+      const normalized = normalizeTags(parsed.data.tags);
+      if (!normalized.ok) {
+        return res.status(400).json({ error: normalized.error });
+      }
+
+      if (parsed.data.projectId !== null) {
+        const project = await dbStorage.getProject(session.auth0UserId!, parsed.data.projectId);
+        if (!project) {
+          return res.status(404).json({ error: 'Project not found' });
+        }
+      }
+
+      const labels = await dbStorage.setServerLabels(session.auth0UserId!, req.params.id, {
+        tags: normalized.tags,
+        projectId: parsed.data.projectId,
+      });
+
+      await auditUserAction(req, session.auth0UserId!, session.email, UserActions.SERVER_LABELS_UPDATE, 'server', req.params.id, {
+        serverName: server.name,
+        tags: labels.tags,
+        projectId: labels.projectId,
+      });
+
+      const userProjects = await dbStorage.getProjectsByUser(session.auth0UserId!);
+      res.json(formatServerLabels(labels, userProjects));
+    } catch (error: any) {
+      log(`Error updating labels for server ${req.params.id}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to update server tags' });
+    }
+  });
+
+  app.get('/api/servers/:id/build-status', authMiddleware, async (req, res) => {
+    try {
+      const serverId = req.params.id;
+
+      // CRITICAL FIX: Get build status FIRST to check if commissioned
+      // This prevents caching stale data before we know to invalidate
+      const buildStatus = await virtfusionClient.getServerBuildStatus(serverId);
+
+      // Track server-side build start time so clients get accurate elapsed time after page refresh
+      if (buildStatus.commissioned === 1 || buildStatus.isBuilding) {
+        if (!buildStartTimes.has(serverId)) {
+          buildStartTimes.set(serverId, Date.now());
+        }
+      } else if (buildStatus.commissioned === 0) {
+        // Still queued — reset timer so elapsed starts from when building actually begins
+        buildStartTimes.delete(serverId);
+      } else if (buildStatus.commissioned === 2) {
+        // Paused — clear so elapsed doesn't tick during pause (rare but avoids stale entries)
+        buildStartTimes.delete(serverId);
+      } else if (buildStatus.commissioned === 3 || buildStatus.isComplete) {
+        // Complete — clean up
+        buildStartTimes.delete(serverId);
+      }
+
+      const buildingStartedAt = buildStartTimes.get(serverId) ?? null;
+
+      // Compute step and percent server-side so clients don't need time-based simulation
+      let step: string;
+      let percent: number;
+      if (buildStatus.commissioned === 3 || buildStatus.isComplete) {
+        step = 'complete'; percent = 100;
+      } else if (buildStatus.isError) {
+        step = 'failed'; percent = 0;
+      } else if (buildStatus.commissioned === 0) {
+        step = 'queued'; percent = 5;
+      } else if (buildStatus.commissioned === 1 || buildStatus.isBuilding) {
+        const elapsedSec = buildingStartedAt ? (Date.now() - buildingStartedAt) / 1000 : 0;
+        if (elapsedSec < 20)       { step = 'provisioning'; percent = 20; }
+        else if (elapsedSec < 60)  { step = 'imaging';      percent = 40; }
+        else if (elapsedSec < 150) { step = 'installing';   percent = 65; }
+        else                       { step = 'configuring';  percent = 85; }
+      } else {
+        step = 'queued'; percent = 5;
+      }
+
+      // If commissioned, invalidate cache BEFORE ownership check to prevent stale data
+      if (buildStatus.commissioned === 3) {
+        log(`Server ${serverId} is commissioned, invalidating cache BEFORE ownership check`, 'virtfusion');
+        virtfusionClient.invalidateServerCache(serverId);
+      }
+
+      // Now do ownership check - will fetch fresh data if cache was invalidated
+      const { server, error, status } = await getServerWithOwnershipCheck(serverId, req.userSession!.virtFusionUserId);
+      if (!server) {
+        return res.status(status || 403).json({ error: error || 'Access denied' });
+      }
+
+      res.json({ ...buildStatus, buildingStartedAt, step, percent });
+    } catch (error: any) {
+      log(`Error fetching build status for server ${req.params.id}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to fetch build status' });
+    }
+  });
+
+  // Reset server password - security-sensitive endpoint with ownership verification
+  app.post('/api/servers/:id/reset-password', authMiddleware, requireEmailVerified, serverActionRateLimiter, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      const { password } = req.body;
+
+      // Require password confirmation for security
+      if (!password || typeof password !== 'string') {
+        return res.status(400).json({ error: 'Account password is required to reset server password' });
+      }
+
+      // Verify password with Auth0
+      const authResult = await auth0Client.authenticateUser(session.email, password);
+      if (!authResult.success) {
+        return res.status(400).json({ error: 'Incorrect password. Please try again.' });
+      }
+
+      // Check if user account is blocked or suspended
+      const userFlags = await dbStorage.getUserFlagsFromDb(session.auth0UserId!);
+      if (userFlags?.blocked) {
+        return res.status(403).json({ error: 'Your account has been blocked. Please contact support for assistance.' });
+      }
+      if (userFlags?.suspended) {
+        return res.status(403).json({ error: 'Your account has been suspended. Server controls are disabled.' });
+      }
+
+      const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, session.virtFusionUserId);
+      if (!server) {
+        return res.status(status || 403).json({ error: error || 'Access denied' });
+      }
+
+      if (server.suspended) {
+        return res.status(403).json({ error: 'Server is suspended. Password reset is disabled.' });
+      }
+
+      // Block password reset if server has a pending cancellation
+      const pendingCancellation = await dbStorage.getCancellationByServerId(req.params.id, session.auth0UserId!);
+      if (pendingCancellation) {
+        const cancellationMsg = pendingCancellation.status === 'pending_approval'
+          ? 'Your deletion request is pending admin approval. Password reset is disabled.'
+          : 'Server is scheduled for deletion. Password reset is disabled.';
+        return res.status(403).json({ error: cancellationMsg });
+      }
+
+      const result = await virtfusionClient.resetServerPassword(req.params.id);
+
+      if (!result.password) {
+        log(`[ERROR] Password reset for ${req.params.id} succeeded but no password returned`, 'api');
+        return res.status(500).json({ error: 'Password reset succeeded but no new password was returned' });
+      }
+
+      // Audit log server password reset
+      await auditUserAction(req, session.auth0UserId!, session.email, UserActions.SERVER_PASSWORD_RESET, 'server', req.params.id, {
+        serverName: server.name,
+      });
+
+      log(`Password reset completed for server ${req.params.id} by user ${req.userSession!.auth0UserId}`, 'api');
+      res.json({ success: true, password: result.password, username: result.username });
+    } catch (error: any) {
+      log(`Error resetting password for server ${req.params.id}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to reset server password. Please try again or contact support.' });
+    }
+  });
+
+  // Server Cancellation endpoints
+  
+  // Get all pending cancellations for current user (for displaying badges on server list)
+  app.get('/api/cancellations', authMiddleware, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      const cancellations = await dbStorage.getUserCancellations(session.auth0UserId!);
+      
+      // Filter to return pending_approval, pending and processing cancellations (active deletions)
+      const active = cancellations.filter(c => c.status === 'pending_approval' || c.status === 'pending' || c.status === 'processing');
+      
+      // Return as a map of serverId -> cancellation for easy lookup
+      const cancellationMap: Record<string, { scheduledDeletionAt: Date; reason: string | null; mode: string; status: string }> = {};
+      for (const c of active) {
+        cancellationMap[c.virtfusionServerId] = {
+          scheduledDeletionAt: c.scheduledDeletionAt,
+          reason: c.reason,
+          mode: c.mode || 'grace',
+          status: c.status,
+        };
+      }
+      
+      res.json({ cancellations: cancellationMap });
+    } catch (error: any) {
+      log(`Error fetching user cancellations: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to fetch cancellations' });
+    }
+  });
+  
+  // Billing terms offered at deploy, with the prepay discount currently set for each
+  app.get('/api/billing/terms', authMiddleware, async (req, res) => {
+    try {
+      const settings = await dbStorage.getBillingTermSettings();
+      res.json({
+        terms: BILLING_TERMS.map((months) => ({
+          months,
+          discountPercent: billingTermDiscountPercent(settings, months),
+        })),
+      });
+    } catch (error: any) {
+      log(`Error fetching billing terms: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to fetch billing terms' });
+    }
+  });
+
+  // Get billing statuses for all user's servers (for showing overdue badges)
+  app.get('/api/billing/servers', authMiddleware, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      const [billingRecords, labelRows, userProjects] = await Promise.all([
+        dbStorage.getServerBillingByUser(session.auth0UserId!),
+        dbStorage.getServerLabelsByUser(session.auth0UserId!),
+        dbStorage.getProjectsByUser(session.auth0UserId!),
+      ]);
+      const projectIds = new Map(labelRows.map((labels) => [labels.virtfusionServerId, labels.projectId]));
+
+      // Return as a map of serverId -> billing status
+      const billingMap: Record<string, {
+        status: string;
+        nextBillAt?: Date;
+        suspendAt?: Date | null;
+        monthlyPriceCents?: number;
+        freeServer?: boolean;
+        projectId: number | null;
+      }> = {};
+      for (const b of billingRecords) {
+        billingMap[b.virtfusionServerId] = {
+          status: b.status,
+          nextBillAt: b.nextBillAt,
+          suspendAt: b.suspendAt,
+          monthlyPriceCents: b.monthlyPriceCents,
+          freeServer: b.freeServer,
+          projectId: projectIds.get(b.virtfusionServerId) ?? null,
+        };
+      }
+
+      // Only servers that are still being billed count towards project subtotals
+      const billable = billingRecords.filter((b) => ['active', 'paid', 'unpaid', 'suspended'].includes(b.status));
+      res.json({
+        billing: billingMap,
+        projectSubtotals: subtotalByProject(
+          billable.map((b) => ({ ...b, projectId: projectIds.get(b.virtfusionServerId) ?? null })),
+          userProjects,
+        ),
+      });
+    } catch (error: any) {
+      log(`Error fetching server billing statuses: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to fetch billing statuses' });
+    }
+  });
+
+  // Get upcoming charges for the user (with server name enrichment)
+  app.get('/api/billing/upcoming', authMiddleware, async (req, res) => {
+    try {
+      const session = req.userSession!;
+
+      // Fetch upcoming charges
+      let upcoming: Array<{
+        id: number;
+        virtfusionServerId: string;
+        planId: number;
+        monthlyPriceCents: number;
+        status: string;
+        nextBillAt: Date;
+        suspendAt: Date | null;
+        autoRenew: boolean;
+        serverName?: string;
+        projectId: number | null;
+        projectName: string | null;
+        addons: ReturnType<typeof formatServerAddon>[];
+        addonsMonthlyCents: number;
+        billingCycle: BillingCycle;
+        accruedCents: number | null;
+        termMonths: number;
+        termDiscountPercent: number;
+        renewalCents: number | null;
+      }> = [];
+      let projectSubtotals: ReturnType<typeof subtotalByProject> = [];
+
+      try {
+        const [rawBillingRecords, labelRows, userProjects] = await Promise.all([
+          getUpcomingCharges(session.auth0UserId!),
+          dbStorage.getServerLabelsByUser(session.auth0UserId!),
+          dbStorage.getProjectsByUser(session.auth0UserId!),
+        ]);
+
+        // If no billing records, return empty
+        if (rawBillingRecords.length === 0) {
+          return res.json({ upcoming: [], projectSubtotals: [] });
+        }
+
+        const labelMap = new Map(labelRows.map((labels) => [labels.virtfusionServerId, labels]));
+        const billingRecords = rawBillingRecords.map((billing) => {
+          const { project } = formatServerLabels(labelMap.get(billing.virtfusionServerId), userProjects);
+          return {
+            ...billing,
+            addons: billing.addons.map(formatServerAddon),
+            projectId: project?.id ?? null,
+            projectName: project?.name ?? null,
+          };
+        });
+        // Project subtotals count what each server will actually renew at per month, add-ons
+        // included and prepaid terms spread across their months
+        projectSubtotals = subtotalByProject(
+          billingRecords.map((billing) => ({
+            ...billing,
+            monthlyPriceCents: Math.round(termPriceCents(billing.monthlyPriceCents, billing.termMonths, billing.termDiscountPercent) / billing.termMonths)
+              + billing.addonsMonthlyCents,
+          })),
+          userProjects,
+        );
+
+        // Fetch servers to enrich with names and verify they still exist
+        if (!session.virtFusionUserId) {
+          log(`Warning: Session missing virtFusionUserId for ${session.email}, returning billing without server names`, 'billing');
+          // Return billing records without server name enrichment
+          upcoming = billingRecords.map(billing => ({
+            ...billing,
+            serverName: undefined,
+          }));
+          return res.json({ upcoming, projectSubtotals });
+        }
+
+        const servers = await virtfusionClient.listServersWithStats(session.virtFusionUserId);
+        // Convert server IDs to strings since serverBilling stores virtfusionServerId as text
+        // Store both name and uuid for each server
+        const serverMap = new Map(servers.map(s => [String(s.id), { name: s.name, uuid: s.uuid }]));
+
+        // Include all billing records, even if server is temporarily not visible (e.g., during reinstall)
+        // Just enrich with server name and UUID if available
+        upcoming = billingRecords.map(billing => {
+          const serverInfo = serverMap.get(billing.virtfusionServerId);
+          return {
+            ...billing,
+            serverName: serverInfo?.name || `Server #${billing.virtfusionServerId}`,
+            serverUuid: serverInfo?.uuid || billing.virtfusionServerUuid || undefined,
+          };
+        });
+      } catch (billingError: any) {
+        log(`Warning: Could not fetch upcoming charges: ${billingError.message}`, 'api');
+      }
+
+      res.json({ upcoming, projectSubtotals });
+    } catch (error: any) {
+      log(`Error in billing/upcoming endpoint: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to fetch upcoming charges' });
+    }
+  });
+
+  // Get billing ledger for the user
+  app.get('/api/billing/ledger', authMiddleware, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      const ledger = await getBillingLedger(session.auth0UserId!);
+
+      res.json({ ledger });
+    } catch (error: any) {
+      log(`Error fetching billing ledger: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to fetch billing ledger' });
+    }
+  });
+
+  // Reactivate a suspended/unpaid server by paying the outstanding balance
+  app.post('/api/billing/servers/:serverId/reactivate', authMiddleware, requireEmailVerified, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      const { serverId } = req.params;
+
+      // Get the billing record for this server
+      const billingRecord = await getServerBillingStatus(serverId, session.auth0UserId!);
+      if (!billingRecord) {
+        return res.status(404).json({ error: 'No billing record found for this server' });
+      }
+
+      // Verify ownership
+      if (billingRecord.auth0UserId !== session.auth0UserId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      // Free servers don't need reactivation - they should never be suspended for billing
+      if (billingRecord.freeServer) {
+        return res.status(400).json({ error: 'This server has complimentary hosting and cannot be reactivated through billing. Please contact support.' });
+      }
+
+      // Check if server actually has an outstanding payment
+      const now = new Date();
+      const isOverdue = (billingRecord.status === 'active' || billingRecord.status === 'paid') && billingRecord.nextBillAt < now;
+      const needsPayment = billingRecord.status === 'suspended' || billingRecord.status === 'unpaid' || isOverdue;
+      if (!needsPayment) {
+        return res.status(400).json({ error: 'Server has no outstanding payment' });
+      }
+
+      // Get wallet balance
+      const wallet = await dbStorage.getWallet(session.auth0UserId!);
+      if (!wallet) {
+        return res.status(400).json({ error: 'No wallet found. Please add funds first.' });
+      }
+
+      // Hourly servers owe their metered usage rather than a month up front
+      const requiredCents = await getRenewalAmountCents(billingRecord);
+      if (wallet.balanceCents < requiredCents) {
+        return res.status(400).json({
+          error: `Insufficient balance. You need $${(requiredCents / 100).toFixed(2)} but only have $${(wallet.balanceCents / 100).toFixed(2)}`,
+          required: requiredCents,
+          balance: wallet.balanceCents
+        });
+      }
+
+      // Retry only the requested server so one click can't charge
+      // unrelated overdue servers on the same account.
+      await retryServerBilling(session.auth0UserId!, serverId);
+
+      // Fetch the updated billing record to verify the outcome
+      const updatedRecord = await getServerBillingStatus(serverId, session.auth0UserId!);
+
+      // If the billing status is still suspended, the unsuspend failed (charge was refunded)
+      if (updatedRecord?.status === 'suspended') {
+        return res.status(500).json({
+          error: 'Payment was processed but the server could not be unsuspended. Your wallet has been refunded. Please try again or contact support.',
+          billingRecord: updatedRecord,
+        });
+      }
+
+      log(`User ${session.email} reactivated server ${serverId}`, 'billing');
+      res.json({
+        success: true,
+        message: 'Server reactivated successfully',
+        billingRecord: updatedRecord
+      });
+    } catch (error: any) {
+      log(`Error reactivating server ${req.params.serverId}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to reactivate server' });
+    }
+  });
+
+  app.get('/api/servers/:id/cancellation', authMiddleware, async (req, res) => {
+    try {
+      const serverId = req.params.id;
+      const session = req.userSession!;
+      
+      // Verify server ownership
+      const { server, error, status } = await getServerWithOwnershipCheck(serverId, session.virtFusionUserId);
+      if (!server) {
+        return res.status(status || 403).json({ error: error || 'Access denied' });
+      }
+      
+      // Get pending cancellation for this server
+      const cancellation = await dbStorage.getCancellationByServerId(serverId, session.auth0UserId!);
+      
+      res.json({ cancellation: cancellation || null });
+    } catch (error: any) {
+      log(`Error fetching cancellation status for server ${req.params.id}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to fetch cancellation status' });
+    }
+  });
+
+  app.post('/api/servers/:id/cancellation', authMiddleware, async (req, res) => {
+    try {
+      const serverId = req.params.id;
+      const session = req.userSession!;
+      const { reason, mode = 'grace', password } = req.body;
+
+      // Validate mode
+      if (mode !== 'grace' && mode !== 'immediate') {
+        return res.status(400).json({ error: 'Invalid mode. Must be "grace" or "immediate"' });
+      }
+
+      // SECURITY: Require password confirmation for immediate cancellation
+      if (mode === 'immediate') {
+        if (!password || typeof password !== 'string') {
+          return res.status(400).json({ error: 'Password confirmation is required for immediate cancellation' });
+        }
+
+        // Verify password with Auth0
+        // Use 400 instead of 401 to avoid triggering session expiry handling in frontend
+        const authResult = await auth0Client.authenticateUser(session.email, password);
+        if (!authResult.success) {
+          return res.status(400).json({ error: 'Incorrect password. Please try again.' });
+        }
+      }
+
+      // Verify server ownership
+      const { server, error, status } = await getServerWithOwnershipCheck(serverId, session.virtFusionUserId);
+      if (!server) {
+        return res.status(status || 403).json({ error: error || 'Access denied' });
+      }
+
+      // Check if server is overdue on payment - block deletion to prevent abuse
+      // (an hourly server's next bill is only its daily settlement, so it isn't overdue until that fails)
+      const billingStatus = await getServerBillingStatus(serverId, session.auth0UserId!, server.uuid);
+      const isHourly = billingStatus?.billingCycle === 'hourly';
+      if (billingStatus && !billingStatus.freeServer) {
+        const isOverdue = billingStatus.status === 'unpaid' ||
+          billingStatus.status === 'suspended' ||
+          (!isHourly && billingStatus.nextBillAt && new Date(billingStatus.nextBillAt) <= new Date());
+        if (isOverdue) {
+          return res.status(403).json({
+            error: 'Cannot delete server with outstanding payment. Please pay the overdue balance first.',
+            code: 'PAYMENT_REQUIRED'
+          });
+        }
+      }
+
+      // Check if server is already cancelled
+      const existing = await dbStorage.getCancellationByServerId(serverId, session.auth0UserId!);
+      if (existing) {
+        return res.status(400).json({ error: 'Server already has a pending cancellation request' });
+      }
+
+      // Usage to date is settled before an immediate deletion is accepted; the meter keeps running
+      // until the cancellation processor actually deletes the server
+      if (isHourly && mode === 'immediate') {
+        const settled = await settleHourlyUsage(billingStatus!.virtfusionServerId);
+        if (!settled.success) {
+          return res.status(403).json({
+            error: `Please top up your wallet to settle $${(settled.amountCents / 100).toFixed(2)} of hourly usage before deleting this server.`,
+            code: 'PAYMENT_REQUIRED'
+          });
+        }
+      }
+      
+      // Calculate scheduled deletion date based on mode
+      const scheduledDeletionAt = new Date();
+      if (mode === 'immediate') {
+        // Immediate: 5 minutes from now
+        scheduledDeletionAt.setMinutes(scheduledDeletionAt.getMinutes() + 5);
+      } else {
+        // Grace period: 30 days from now
+        scheduledDeletionAt.setDate(scheduledDeletionAt.getDate() + 30);
+      }
+      
+      const cancellation = await dbStorage.createCancellationRequest({
+        auth0UserId: session.auth0UserId!,
+        virtfusionServerId: serverId,
+        serverName: server.name,
+        reason: reason || null,
+        status: 'pending_approval',
+        scheduledDeletionAt,
+        mode,
+      });
+
+      // Audit log server cancellation
+      await auditUserAction(req, session.auth0UserId!, session.email, UserActions.SERVER_CANCEL, 'server', serverId, {
+        serverName: server.name,
+        mode,
+        scheduledDeletionAt: scheduledDeletionAt.toISOString(),
+        reason: reason || null,
+      });
+
+      log(`Cancellation requested for server ${serverId} by user ${session.auth0UserId}, mode=${mode}, scheduled for ${scheduledDeletionAt.toISOString()}`, 'api');
+
+      res.json({ success: true, cancellation });
+    } catch (error: any) {
+      log(`Error requesting cancellation for server ${req.params.id}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to request cancellation' });
+    }
+  });
+
+  app.delete('/api/servers/:id/cancellation', authMiddleware, async (req, res) => {
+    try {
+      const serverId = req.params.id;
+      const session = req.userSession!;
+
+      // Check if user account is blocked or suspended
+      const userFlags = await dbStorage.getUserFlagsFromDb(session.auth0UserId!);
+      if (userFlags?.blocked) {
+        return res.status(403).json({ error: 'Your account has been blocked. Please contact support for assistance.' });
+      }
+      if (userFlags?.suspended) {
+        return res.status(403).json({ error: 'Your account has been suspended. Server controls are disabled.' });
+      }
+
+      // Verify server ownership
+      const { server, error, status } = await getServerWithOwnershipCheck(serverId, session.virtFusionUserId);
+      if (!server) {
+        return res.status(status || 403).json({ error: error || 'Access denied' });
+      }
+      
+      // Get pending cancellation
+      const cancellation = await dbStorage.getCancellationByServerId(serverId, session.auth0UserId!);
+      if (!cancellation) {
+        return res.status(404).json({ error: 'No pending cancellation found' });
+      }
+      
+      // Prevent revoking immediate cancellations - they cannot be stopped
+      if (cancellation.mode === 'immediate') {
+        return res.status(400).json({ error: 'Immediate cancellations cannot be revoked. The server will be deleted within 5 minutes.' });
+      }
+      
+      // Revoke the cancellation
+      const revoked = await dbStorage.revokeCancellationRequest(cancellation.id);
+      
+      log(`Cancellation revoked for server ${serverId} by user ${session.auth0UserId}`, 'api');
+      
+      res.json({ success: true, cancellation: revoked });
+    } catch (error: any) {
+      log(`Error revoking cancellation for server ${req.params.id}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to revoke cancellation' });
+    }
+  });
+
+  // ================== SERVER OWNERSHIP TRANSFERS ==================
+
+  const formatServerTransfer = (offer: ServerOwnershipTransfer) => ({
+    id: offer.id,
+    serverId: offer.virtfusionServerId,
+    serverName: offer.serverName,
+    fromEmail: offer.fromEmail,
+    toEmail: offer.toEmail,
+    status: offer.status,
+    expiresAt: offer.expiresAt,
+    respondedAt: offer.respondedAt,
+    createdAt: offer.createdAt,
+  });
+
+  app.get('/api/servers/:id/transfer', authMiddleware, async (req, res) => {
+    try {
+      const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, req.userSession!.virtFusionUserId);
+      if (!server) {
+        return res.status(status || 403).json({ error: error || 'Access denied' });
+      }
+
+      await dbStorage.expireStaleServerTransfers();
+      const offer = await dbStorage.getPendingServerTransfer(req.params.id);
+      res.json({ transfer: offer ? formatServerTransfer(offer) : null, offerDays: SERVER_TRANSFER_OFFER_DAYS });
+    } catch (error: any) {
+      log(`Error loading transfer for server ${req.params.id}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to load server transfer' });
+    }
+  });
+
+  // Offer the server to another account; nothing changes until the recipient accepts
+  app.post('/api/servers/:id/transfer', authMiddleware, requireEmailVerified, serverActionRateLimiter, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      const server = await getServerForFeatureChange(req, res, 'Server transfers');
+      if (!server) return;
+
+      const parsed = createServerTransferSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid recipient' });
+      }
+      const recipientEmail = parsed.data.recipientEmail;
+
+      if (recipientEmail === session.email.toLowerCase()) {
+        return res.status(400).json({ error: 'You already own this server.' });
+      }
+
+      const billing = await getServerBillingStatus(req.params.id, session.auth0UserId!, server.uuid);
+      const eligibility = checkServerTransferEligibility(billing);
+      if (!eligibility.ok) {
+        return res.status(403).json({ error: eligibility.error });
+      }
+
+      const recipient = await dbStorage.getUserMappingByEmail(recipientEmail);
+      if (!recipient) {
+        return res.status(400).json({ error: 'No OzVPS account uses that email address. Ask the recipient to sign up first.' });
+      }
+
+      await dbStorage.expireStaleServerTransfers();
+      if (await dbStorage.getPendingServerTransfer(req.params.id)) {
+        return res.status(409).json({ error: 'This server already has a pending transfer. Cancel it before starting another.' });
+      }
+
+      const expiresAt = new Date(Date.now() + SERVER_TRANSFER_OFFER_DAYS * 24 * 60 * 60 * 1000);
+      const offer = await dbStorage.createServerTransfer({
+        virtfusionServerId: req.params.id,
+        serverName: server.name,
+        fromAuth0UserId: session.auth0UserId!,
+        fromEmail: session.email,
+        toEmail: recipientEmail,
+        status: 'pending',
+        expiresAt,
+      });
+
+      const emailResult = await sendServerTransferOfferEmail(recipient.email, session.email, server.name, expiresAt.toUTCString());
+      if (!emailResult.success) {
+        log(`Could not send transfer offer email for server ${req.params.id}: ${emailResult.error}`, 'api');
+      }
+
+      await auditUserAction(req, session.auth0UserId!, session.email, UserActions.SERVER_TRANSFER_OFFER, 'server', req.params.id, {
+        serverName: server.name,
+        transferId: offer.id,
+        recipientEmail,
+      });
+
+      res.status(201).json({ transfer: formatServerTransfer(offer) });
+    } catch (error: any) {
+      log(`Error offering transfer for server ${req.params.id}: ${error.message}`, 'api');
+      return handleApiError(res, error, 'Failed to start the server transfer. Please try again.', 'createServerTransfer');
+    }
+  });
+
+  app.delete('/api/servers/:id/transfer', authMiddleware, requireEmailVerified, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      const { server, error, status } = await getServerWithOwnershipCheck(req.params.id, session.virtFusionUserId);
+      if (!server) {
+        return res.status(status || 403).json({ error: error || 'Access denied' });
+      }
+
+      const pending = await dbStorage.getPendingServerTransfer(req.params.id);
+      const cancelled = pending && pending.fromAuth0UserId === session.auth0UserId
+        ? await dbStorage.closeServerTransfer(pending.id, 'cancelled')
+        : undefined;
+      if (!cancelled) {
+        return res.status(404).json({ error: 'No pending transfer found' });
+      }
+
+      await auditUserAction(req, session.auth0UserId!, session.email, UserActions.SERVER_TRANSFER_CANCEL, 'server', req.params.id, {
+        serverName: server.name,
+        transferId: cancelled.id,
+        recipientEmail: cancelled.toEmail,
+      });
+
+      res.json({ success: true });
+    } catch (error: any) {
+      log(`Error cancelling transfer for server ${req.params.id}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to cancel server transfer' });
+    }
+  });
+
+  // Offers waiting on this account, plus the ones it has sent
+  app.get('/api/server-transfers', authMiddleware, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      await dbStorage.expireStaleServerTransfers();
+      const [incoming, outgoing] = await Promise.all([
+        dbStorage.getIncomingServerTransfers(session.email),
+        dbStorage.getOutgoingServerTransfers(session.auth0UserId!, 20),
+      ]);
+      res.json({
+        incoming: incoming.map(formatServerTransfer),
+        outgoing: outgoing.map(formatServerTransfer),
+      });
+    } catch (error: any) {
+      log(`Error loading server transfers: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to load server transfers' });
+    }
+  });
+
+  // Load an offer addressed to the signed-in account, or respond and return null
+  const getIncomingServerTransfer = async (req: Request, res: Response) => {
+    const transferId = Number.parseInt(req.params.transferId, 10);
+    if (!Number.isFinite(transferId)) {
+      res.status(400).json({ error: 'Invalid transfer ID' });
+      return null;
+    }
+
+    const offer = await dbStorage.getServerTransfer(transferId);
+    if (!offer || offer.toEmail !== req.userSession!.email.toLowerCase()) {
+      res.status(404).json({ error: 'Transfer not found' });
+      return null;
+    }
+    return offer;
+  };
+
+  app.post('/api/server-transfers/:transferId/accept', authMiddleware, requireEmailVerified, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      const userFlags = await dbStorage.getUserFlagsFromDb(session.auth0UserId!);
+      if (userFlags?.blocked || userFlags?.suspended) {
+        return res.status(403).json({ error: 'Your account cannot accept server transfers. Please contact support.' });
+      }
+      if (!session.virtFusionUserId) {
+        return res.status(400).json({ error: 'Your account is not fully set up yet. Please try again shortly.' });
+      }
+
+      const offer = await getIncomingServerTransfer(req, res);
+      if (!offer) return;
+      if (offer.fromAuth0UserId === session.auth0UserId) {
+        return res.status(400).json({ error: 'You already own this server.' });
+      }
+
+      const result = await completeServerTransfer(offer.id, {
+        auth0UserId: session.auth0UserId!,
+        virtFusionUserId: session.virtFusionUserId,
+      });
+      if (!result.success) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      const accepted = result.transfer;
+
+      const [toRecipient, toSender] = await Promise.all([
+        sendServerTransferCompletedEmail(session.email, accepted.serverName, accepted.virtfusionServerId, 'recipient', accepted.fromEmail),
+        sendServerTransferCompletedEmail(accepted.fromEmail, accepted.serverName, accepted.virtfusionServerId, 'sender', session.email),
+      ]);
+      for (const result of [toRecipient, toSender]) {
+        if (!result.success) log(`Could not send transfer completed email for server ${accepted.virtfusionServerId}: ${result.error}`, 'api');
+      }
+
+      const auditDetails = {
+        serverName: accepted.serverName,
+        transferId: accepted.id,
+        fromEmail: accepted.fromEmail,
+        toEmail: session.email,
+      };
+      await auditUserAction(req, session.auth0UserId!, session.email, UserActions.SERVER_TRANSFER_ACCEPT, 'server', accepted.virtfusionServerId, auditDetails);
+      await auditUserAction(req, accepted.fromAuth0UserId, accepted.fromEmail, UserActions.SERVER_TRANSFER_ACCEPT, 'server', accepted.virtfusionServerId, auditDetails);
+
+      res.json({ transfer: formatServerTransfer(accepted) });
+    } catch (error: any) {
+      log(`Error accepting server transfer ${req.params.transferId}: ${error.message}`, 'api');
+      return handleApiError(res, error, 'Failed to accept the server transfer. Please try again.', 'acceptServerTransfer');
+    }
+  });
+
+  app.post('/api/server-transfers/:transferId/decline', authMiddleware, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      const offer = await getIncomingServerTransfer(req, res);
+      if (!offer) return;
+
+      const declined = await dbStorage.closeServerTransfer(offer.id, 'declined');
+      if (!declined) {
+        return res.status(409).json({ error: 'This transfer offer is no longer available.' });
+      }
+
+      const emailResult = await sendServerTransferDeclinedEmail(declined.fromEmail, declined.serverName, session.email);
+      if (!emailResult.success) {
+        log(`Could not send transfer declined email for server ${declined.virtfusionServerId}: ${emailResult.error}`, 'api');
+      }
+
+      await auditUserAction(req, session.auth0UserId!, session.email, UserActions.SERVER_TRANSFER_DECLINE, 'server', declined.virtfusionServerId, {
+        serverName: declined.serverName,
+        transferId: declined.id,
+        fromEmail: declined.fromEmail,
+      });
+
+      res.json({ success: true });
+    } catch (error: any) {
+      log(`Error declining server transfer ${req.params.transferId}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to decline server transfer' });
+    }
+  });
+
+  app.post('/api/servers/:id/console-url', authMiddleware, async (req, res) => {
+    try {
+      const serverId = req.params.id;
+      const session = req.userSession!;
+
+      // Check if user account is blocked or suspended
+      const userFlags = await dbStorage.getUserFlagsFromDb(session.auth0UserId!);
+      if (userFlags?.blocked) {
+        return res.status(403).json({ error: 'Your account has been blocked. Please contact support for assistance.' });
+      }
+      if (userFlags?.suspended) {
+        return res.status(403).json({ error: 'Your account has been suspended. Server controls are disabled.' });
+      }
+
+      // Get server to verify ownership and get UUID
+      const { server, error, status } = await getServerWithOwnershipCheck(serverId, session.virtFusionUserId);
+      if (!server) {
+        return res.status(status || 403).json({ error: error || 'Access denied' });
+      }
+
+      if (server.suspended) {
+        return res.status(403).json({ error: 'Server is suspended. Console access is disabled.' });
+      }
+      return res.json({
+        url: `/api/servers/${serverId}/vnc-console`,
+      });
+    } catch (error: any) {
+      log(`Error generating console URL for server ${req.params.id}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to generate console URL' });
+    }
+  });
+
+  // Serve the noVNC console page with credentials injected server-side.
+  // This eliminates all client-side token exchange and browser caching issues.
+  // Credentials are injected into the HTML by Express — they never appear in a URL.
+  app.get('/api/servers/:id/vnc-console', authMiddleware, async (req, res) => {
+    try {
+      const serverId = req.params.id;
+      const session = req.userSession!;
+      const sessionId = req.cookies?.[SESSION_COOKIE];
+
+      if (!sessionId) {
+        return res.status(401).send('<p>Your session has ended. Please sign in again.</p>');
+      }
+
+      // Check account flags
+      const userFlags = await dbStorage.getUserFlagsFromDb(session.auth0UserId!);
+      if (userFlags?.blocked) {
+        return res.status(403).send('<p>Your account has been blocked. Please contact support.</p>');
+      }
+      if (userFlags?.suspended) {
+        return res.status(403).send('<p>Your account has been suspended. Server controls are disabled.</p>');
+      }
+
+      // Verify ownership
+      const { server, error: ownerError, status: ownerStatus } = await getServerWithOwnershipCheck(serverId, session.virtFusionUserId);
+      if (!server) {
+        return res.status(ownerStatus || 403).send(ownerError || 'Access denied');
+      }
+      if (server.suspended) {
+        return res.status(403).send('<p>Server is suspended. Console access is disabled.</p>');
+      }
+
+      const panelUrl = process.env.VIRTFUSION_PANEL_URL || '';
+
+      // Enable VNC
+      try {
+        await virtfusionClient.enableVnc(serverId);
+      } catch (vncError: any) {
+        log(`Failed to enable VNC for server ${serverId}: ${vncError.message}`, 'api');
+      }
+
+      // Get VNC credentials
+      let vncAccess: any = null;
+      try {
+        vncAccess = await virtfusionClient.getServerVncAccess(serverId);
+      } catch (vncErr: any) {
+        log(`Failed to get VNC access for server ${serverId}: ${vncErr.message}`, 'api');
+      }
+
+      if (!vncAccess?.wss?.url || !vncAccess?.password) {
+        return res.status(503).send('<p>VNC console is not available for this server right now. The server may be powered off.</p>');
+      }
+
+      // Build WebSocket URL
+      const panelHost = new URL(panelUrl).host;
+      const wsUrl = new URL(`wss://${panelHost}${vncAccess.wss.url}`);
+      let wsPath = wsUrl.pathname.replace(/^\//, '');
+      if (wsUrl.search) wsPath += wsUrl.search;
+
+      // Set up 30-min auto-disable timer
+      const existingTimer = vncAutoDisableTimers.get(serverId);
+      if (existingTimer) clearTimeout(existingTimer);
+      vncAutoDisableTimers.set(serverId, setTimeout(() => {
+        virtfusionClient.disableVnc(serverId).catch(() => {});
+        vncAutoDisableTimers.delete(serverId);
+        log(`VNC auto-disabled for server ${serverId} after ${VNC_SESSION_TTL_MS / 60000}min TTL`, 'security');
+      }, VNC_SESSION_TTL_MS));
+
+      // Read vnc.html template from dist
+      const vncHtmlPath = path.resolve(__dirname, 'public/novnc/vnc.html');
+      let html: string;
+      try {
+        html = await fs.promises.readFile(vncHtmlPath, 'utf-8');
+      } catch (readErr: any) {
+        log(`Failed to read vnc.html: ${readErr.message}`, 'api');
+        return res.status(500).send('<p>Console unavailable. Please try again.</p>');
+      }
+
+      // Create a short-lived proxy session token.
+      // The browser only gets this opaque token — NOT the VirtFusion password or wsUrl.
+      // When noVNC connects via WebSocket (/api/vnc-ws/:token), our proxy:
+      //   1. Validates and deletes the token (one-time use)
+      //   2. Connects to VirtFusion server-side
+      //   3. Handles VNC authentication (DES challenge-response) using stored password
+      //   4. Presents "None" auth to noVNC — no password ever sent to browser
+      const proxyToken = randomBytes(32).toString('hex'); // 64-char hex
+      vncProxySessions.set(proxyToken, {
+        wsUrl: wsUrl.toString(),
+        password: vncAccess.password,
+        sessionId,
+        auth0UserId: session.auth0UserId!,
+        serverId,
+        expiresAt: Date.now() + 2 * 60 * 1000, // 2 min to initiate WebSocket
+      });
+
+      // Inject two things:
+      // 1. <base href="/novnc/"> at START of <head> — fixes all relative asset paths
+      // 2. window.__ozvpsVncConfig — only the proxy token path + non-sensitive settings
+      //    host/port/encrypt are intentionally OMITTED so noVNC uses window.location
+      //    defaults (correct hostname regardless of NGINX proxying).
+      html = html.replace('<head>', '<head>\n<base href="/novnc/">');
+      // Inject as JS (not JSON) so host/port/encrypt use window.location at runtime.
+      // This prevents stale localStorage values from overriding the correct connection target.
+      // Only path (the proxy token) and serverId are hardcoded server-side.
+      const configScript = `<script>window.__ozvpsVncConfig = {
+  host: window.location.hostname,
+  port: window.location.port || (window.location.protocol === 'https:' ? '443' : '80'),
+  encrypt: window.location.protocol === 'https:' ? '1' : '0',
+  path: ${JSON.stringify(`api/vnc-ws/${proxyToken}`)},
+  autoconnect: '1',
+  resize: 'scale',
+  reconnect: '0',
+  serverId: ${JSON.stringify(serverId)}
+};</script>`;
+      html = html.replace('</head>', configScript + '\n</head>');
+
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate');
+      res.setHeader('Pragma', 'no-cache');
+      res.send(html);
+
+      log(`VNC console served for server ${serverId} (user: ${session.auth0UserId})`, 'security');
+    } catch (error: any) {
+      log(`Error serving VNC console for server ${req.params.id}: ${error.message}`, 'api');
+      res.status(500).send('<p>Console unavailable. Please try again.</p>');
+    }
+  });
+
+  app.get('/api/user/profile', authMiddleware, async (req, res) => {
+    try {
+      const session = req.userSession!;
+
+      // Get wallet to retrieve profile picture
+      const wallet = await dbStorage.getWallet(session.auth0UserId!);
+
+      res.json({
+        id: session.userId || session.id,
+        email: session.email,
+        name: session.name,
+        virtFusionUserId: session.virtFusionUserId,
+        profilePictureUrl: wallet?.profilePictureUrl || null,
+        createdAt: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      log(`Error fetching user profile: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to fetch user profile' });
+    }
+  });
+
+  app.put('/api/user/profile', authMiddleware, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      const sessionId = req.cookies?.[SESSION_COOKIE];
+      const { name } = req.body;
+      
+      // Validate name if provided
+      if (name !== undefined) {
+        if (typeof name !== 'string' || name.trim().length < 1) {
+          return res.status(400).json({ error: 'Name must be a non-empty string' });
+        }
+        if (name.trim().length > 100) {
+          return res.status(400).json({ error: 'Name must be 100 characters or less' });
+        }
+      }
+      
+      let updatedName = session.name;
+      
+      // Update name in Auth0 if provided
+      if (name && name.trim() !== session.name && session.auth0UserId) {
+        const success = await auth0Client.updateUserName(session.auth0UserId, name.trim());
+        if (!success) {
+          return res.status(500).json({ error: 'Failed to update name' });
+        }
+        updatedName = name.trim();
+
+        // Persist the name change to the session storage
+        if (sessionId) {
+          await storage.updateSession(sessionId, { name: updatedName });
+        }
+
+        // Audit log profile update
+        await auditUserAction(req, session.auth0UserId, session.email, UserActions.PROFILE_UPDATE, 'account', session.auth0UserId, {
+          oldName: session.name,
+          newName: updatedName,
+        });
+
+        log(`Updated user name for ${session.email} to: ${updatedName}`, 'api');
+      }
+
+      res.json({
+        id: session.userId || session.id,
+        email: session.email,
+        name: updatedName,
+        virtFusionUserId: session.virtFusionUserId,
+        createdAt: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      log(`Error updating user profile: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to update user profile' });
+    }
+  });
+
+  // Customers without a saved profile are Australian consumers paying GST
+  const formatBillingProfile = (profile: BillingProfile | undefined) => {
+    const treatment = taxTreatmentFor(profile);
+    return {
+      businessName: profile?.businessName ?? null,
+      abn: profile?.abn ?? null,
+      countryCode: profile?.countryCode ?? 'AU',
+      showPricesExTax: profile?.showPricesExTax ?? false,
+      taxTreatment: treatment,
+      taxRatePercent: taxRatePercent(treatment),
+    };
+  };
+
+  // Business details for tax invoices, and whether prices are shown with or without GST
+  app.get('/api/user/billing-profile', authMiddleware, async (req, res) => {
+    try {
+      const profile = await dbStorage.getBillingProfile(req.userSession!.auth0UserId!);
+      res.json({ profile: formatBillingProfile(profile) });
+    } catch (error: any) {
+      log(`Error fetching billing profile: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to fetch billing details' });
+    }
+  });
+
+  app.put('/api/user/billing-profile', authMiddleware, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      const parsed = billingProfileSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid billing details' });
+      }
+
+      const businessName = parsed.data.businessName || null;
+      const abn = parsed.data.abn ? normalizeAbn(parsed.data.abn) : null;
+      if (abn) {
+        if (parsed.data.countryCode !== 'AU') {
+          return res.status(400).json({ error: 'An ABN can only be used with an Australian address' });
+        }
+        if (!isValidAbn(abn)) {
+          return res.status(400).json({ error: 'That ABN is not valid. Check the 11 digits and try again.' });
+        }
+        if (!businessName) {
+          return res.status(400).json({ error: 'Enter the business name registered to the ABN' });
+        }
+      }
+
+      const profile = await dbStorage.upsertBillingProfile(session.auth0UserId!, {
+        ...parsed.data,
+        businessName,
+        abn,
+      });
+
+      await auditUserAction(req, session.auth0UserId!, session.email, UserActions.BILLING_PROFILE_UPDATE, 'account', session.auth0UserId!, {
+        businessName,
+        abn,
+        countryCode: profile.countryCode,
+        showPricesExTax: profile.showPricesExTax,
+      });
+
+      res.json({ profile: formatBillingProfile(profile) });
+    } catch (error: any) {
+      log(`Error updating billing profile: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to update billing details' });
+    }
+  });
+
+  app.post('/api/user/password', authMiddleware, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      const { currentPassword, newPassword } = req.body;
+
+      // SECURITY: Require current password verification
+      if (!currentPassword) {
+        return res.status(400).json({ error: 'Current password is required' });
+      }
+
+      if (!newPassword) {
+        return res.status(400).json({ error: 'New password is required' });
+      }
+
+      if (newPassword.length < 8) {
+        return res.status(400).json({ error: 'Password must be at least 8 characters' });
+      }
+
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'Unable to change password. Please contact support.' });
+      }
+
+      // SECURITY: Verify current password before allowing change
+      const authResult = await auth0Client.authenticateUser(session.email, currentPassword);
+      if (!authResult.success) {
+        log(`Password change blocked - invalid current password for: ${session.email}`, 'security');
+        return res.status(400).json({ error: 'Current password is incorrect' });
+      }
+
+      const result = await auth0Client.changePassword(session.auth0UserId, newPassword);
+
+      if (!result.success) {
+        return res.status(400).json({ error: result.error || 'Failed to change password' });
+      }
+
+      // SECURITY: Revoke all other sessions after password change
+      // Keep current session active so user doesn't get logged out
+      const currentSessionId = req.cookies?.[SESSION_COOKIE];
+      await storage.revokeSessionsByAuth0UserId(session.auth0UserId, SESSION_REVOKE_REASONS.PASSWORD_CHANGED, currentSessionId);
+      log(`All other sessions revoked after password change for: ${session.email}`, 'security');
+
+      // Audit log password change
+      await auditUserAction(req, session.auth0UserId, session.email, UserActions.PASSWORD_CHANGE, 'account', session.auth0UserId);
+
+      res.json({ success: true, message: 'Password changed successfully' });
+    } catch (error: any) {
+      log(`Error changing password: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to change password' });
+    }
+  });
+
+  // ===========================================
+  // PROFILE PICTURE UPLOAD
+  // ===========================================
+
+  // Upload profile picture (base64)
+  // Use a higher body limit for this endpoint (15MB to accommodate 10MB image + base64 overhead)
+  app.post('/api/user/profile-picture', express.json({ limit: '15mb' }), profilePictureRateLimiter, authMiddleware, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      const { image } = req.body; // Base64 image string
+
+      if (!image) {
+        return res.status(400).json({ error: 'No image provided' });
+      }
+
+      // Validate base64 image data URL format
+      const matches = image.match(/^data:image\/(jpeg|jpg|png|gif|webp);base64,(.+)$/);
+      if (!matches) {
+        return res.status(400).json({ error: 'Invalid image format. Use JPEG, PNG, GIF, or WebP.' });
+      }
+
+      const [, , base64Data] = matches;
+      const inputBuffer = Buffer.from(base64Data, 'base64');
+
+      // Check raw upload size (10MB limit before processing)
+      const maxSize = 10 * 1024 * 1024; // 10MB
+      if (inputBuffer.length > maxSize) {
+        return res.status(400).json({ error: 'Image too large. Maximum size is 10MB.' });
+      }
+
+      // SECURITY: Process through Sharp to:
+      // 1. Verify the buffer is actually a valid image (throws if not)
+      // 2. Re-encode to JPEG — strips all metadata (EXIF, embedded scripts, etc.)
+      // 3. Resize to max 400x400 to prevent storage abuse
+      let processedBuffer: Buffer;
+      try {
+        processedBuffer = await sharp(inputBuffer)
+          .resize(400, 400, { fit: 'inside', withoutEnlargement: true })
+          .jpeg({ quality: 85, progressive: true })
+          .toBuffer();
+      } catch {
+        return res.status(400).json({ error: 'Invalid image file. Please upload a valid image.' });
+      }
+
+      // Create uploads directory if it doesn't exist
+      const fs = await import('fs/promises');
+      const pathModule = await import('path');
+      const uploadsDir = pathModule.join(process.cwd(), 'uploads', 'profile-pictures');
+      await fs.mkdir(uploadsDir, { recursive: true });
+
+      // Generate unique filename — always .jpg since we re-encode to JPEG
+      const safeUserId = session.auth0UserId!.replace(/[^a-zA-Z0-9]/g, '_');
+      const filename = `${safeUserId}_${Date.now()}.jpg`;
+      const filepath = pathModule.join(uploadsDir, filename);
+
+      // Delete old profile picture if exists
+      const wallet = await dbStorage.getWallet(session.auth0UserId!);
+      if (wallet?.profilePictureUrl) {
+        const oldFilename = wallet.profilePictureUrl.replace('/uploads/profile-pictures/', '');
+        // SECURITY: Validate filename to prevent path traversal
+        if (oldFilename && !oldFilename.includes('..') && !oldFilename.includes('/') && !oldFilename.includes('\\') && !pathModule.isAbsolute(oldFilename)) {
+          const oldFilepath = pathModule.join(uploadsDir, oldFilename);
+          if (oldFilepath.startsWith(uploadsDir)) {
+            try {
+              await fs.unlink(oldFilepath);
+            } catch {
+              // Ignore if old file doesn't exist
+            }
+          }
+        }
+      }
+
+      // Save the sanitized, re-encoded file
+      await fs.writeFile(filepath, processedBuffer);
+
+      // Update database with new URL
+      const profilePictureUrl = `/uploads/profile-pictures/${filename}`;
+      await dbStorage.updateProfilePicture(session.auth0UserId!, profilePictureUrl);
+
+      log(`Profile picture uploaded for ${session.email}: ${filename}`, 'api');
+      res.json({ success: true, profilePictureUrl });
+    } catch (error: any) {
+      log(`Error uploading profile picture: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to upload profile picture' });
+    }
+  });
+
+  // Delete profile picture
+  app.delete('/api/user/profile-picture', authMiddleware, async (req, res) => {
+    try {
+      const session = req.userSession!;
+
+      const wallet = await dbStorage.getWallet(session.auth0UserId!);
+      if (wallet?.profilePictureUrl) {
+        // Delete file from disk
+        const fs = await import('fs/promises');
+        const path = await import('path');
+        const uploadsDir = path.join(process.cwd(), 'uploads', 'profile-pictures');
+        const filename = wallet.profilePictureUrl.replace('/uploads/profile-pictures/', '');
+        // SECURITY: Validate filename to prevent path traversal
+        if (filename && !filename.includes('..') && !filename.includes('/') && !filename.includes('\\') && !path.isAbsolute(filename)) {
+          const filepath = path.join(uploadsDir, filename);
+          // Double-check the resolved path is within uploads directory
+          if (filepath.startsWith(uploadsDir)) {
+            try {
+              await fs.unlink(filepath);
+            } catch {
+              // Ignore if file doesn't exist
+            }
+          }
+        }
+      }
+
+      // Clear profile picture URL in database
+      await dbStorage.updateProfilePicture(session.auth0UserId!, null);
+
+      log(`Profile picture deleted for ${session.email}`, 'api');
+      res.json({ success: true });
+    } catch (error: any) {
+      log(`Error deleting profile picture: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to delete profile picture' });
+    }
+  });
+
+  // ===========================================
+  // TWO-FACTOR AUTHENTICATION ENDPOINTS
+  // ===========================================
+
+  const sendTwoFactorCodeForUser = async (auth0UserId: string, targetEmail: string) => {
+    const code = crypto.randomInt(100000, 1000000).toString();
+    const expiresAt = new Date(Date.now() + 10 * 60 * 1000);
+
+    await dbStorage.setEmailOtpCode(auth0UserId, code, expiresAt);
+    const emailResult = await sendTwoFactorCodeEmail(targetEmail, code, 10);
+
+    if (!emailResult.success) {
+      throw new Error(emailResult.error || 'Failed to send verification email');
+    }
+  };
+
+  const verifyCurrentTwoFactorCode = async (auth0UserId: string, submittedCode: string) => {
+    const tfa = await dbStorage.getTwoFactorAuth(auth0UserId);
+    if (!tfa?.enabled) {
+      return { ok: false as const, error: '2FA is not enabled' };
+    }
+
+    if (tfa.method === 'email') {
+      if (!tfa.emailOtpCode || !tfa.emailOtpExpiresAt) {
+        return { ok: false as const, error: 'No verification code pending. Please request a new one.' };
+      }
+
+      if (new Date() > new Date(tfa.emailOtpExpiresAt)) {
+        return { ok: false as const, error: 'Verification code has expired. Please request a new one.' };
+      }
+
+      if (!verifyEmailOtpCode(submittedCode, tfa.emailOtpCode)) {
+        return { ok: false as const, error: 'Invalid verification code' };
+      }
+
+      await dbStorage.clearEmailOtpCode(auth0UserId);
+      await dbStorage.updateTwoFactorLastUsed(auth0UserId);
+      return { ok: true as const, tfa };
+    }
+
+    const plaintextSecret = isEncrypted(tfa.secret) ? decryptSecret(tfa.secret) : tfa.secret;
+    const isValid = totpVerify(submittedCode, plaintextSecret);
+
+    if (!isValid) {
+      return { ok: false as const, error: 'Invalid verification code' };
+    }
+
+    await dbStorage.updateTwoFactorLastUsed(auth0UserId);
+    return { ok: true as const, tfa };
+  };
+
+  // Get 2FA status for current user
+  app.get('/api/user/2fa/status', authMiddleware, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'User not authenticated' });
+      }
+
+      const tfa = await dbStorage.getTwoFactorAuth(session.auth0UserId);
+
+      res.json({
+        enabled: tfa?.enabled || false,
+        method: tfa?.method || 'totp',
+        verifiedAt: tfa?.verifiedAt || null,
+        lastUsedAt: tfa?.lastUsedAt || null,
+      });
+    } catch (error: any) {
+      log(`Error getting 2FA status: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to get 2FA status' });
+    }
+  });
+
+  app.get('/api/user/2fa/trusted-devices', authMiddleware, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'User not authenticated' });
+      }
+
+      const devices = await dbStorage.listTrustedTwoFactorDevices(session.auth0UserId);
+      const currentTrustedToken = req.cookies?.[TRUSTED_2FA_DEVICE_COOKIE];
+      const currentTokenHash = currentTrustedToken ? hashTrustedTwoFactorToken(currentTrustedToken) : null;
+      const currentUserAgent = req.headers['user-agent'] || null;
+
+      res.json({
+        devices: devices.map((device) => ({
+          id: device.id,
+          deviceLabel: device.deviceLabel,
+          userAgent: device.userAgent,
+          ipAddress: device.ipAddress,
+          createdAt: device.createdAt,
+          lastUsedAt: device.lastUsedAt,
+          expiresAt: device.expiresAt,
+          current: currentTokenHash === device.tokenHash && trustedTwoFactorUserAgentMatches(device.userAgentHash, currentUserAgent),
+        })),
+      });
+    } catch (error: any) {
+      log(`Error getting trusted 2FA devices: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to get trusted devices' });
+    }
+  });
+
+  // Begin 2FA setup - generate secret and QR code
+  app.post('/api/user/2fa/setup', authMiddleware, mfaRateLimiter, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'User not authenticated' });
+      }
+
+      log(`2FA setup: starting for user ${session.email}`, 'security');
+
+      let QRCode;
+      try {
+        QRCode = await import('qrcode');
+        log(`2FA setup: QRCode library loaded`, 'security');
+      } catch (qrErr: any) {
+        log(`2FA setup: Failed to load QRCode library: ${qrErr.message}`, 'api');
+        return res.status(500).json({ error: 'Failed to load QR code library' });
+      }
+
+      const existing = await dbStorage.getTwoFactorAuth(session.auth0UserId);
+      if (existing?.enabled) {
+        return res.status(400).json({ error: '2FA is already enabled. Disable it first to set up again.' });
+      }
+
+      let plaintextSecret: string;
+      try {
+        plaintextSecret = totpGenerateSecret();
+        log(`2FA setup: Secret generated (length: ${plaintextSecret.length})`, 'security');
+      } catch (secretErr: any) {
+        log(`2FA setup: Failed to generate secret: ${secretErr.message}`, 'api');
+        return res.status(500).json({ error: 'Failed to generate secret' });
+      }
+
+      let encryptedSecret: string;
+      try {
+        encryptedSecret = encryptSecret(plaintextSecret);
+        log(`2FA setup: Secret encrypted`, 'security');
+      } catch (encryptErr: any) {
+        log(`2FA setup: Failed to encrypt secret: ${encryptErr.message}`, 'api');
+        return res.status(500).json({ error: 'Failed to encrypt secret' });
+      }
+
+      try {
+        if (existing) {
+          await dbStorage.updateTwoFactorAuth(session.auth0UserId, {
+            secret: encryptedSecret,
+            method: 'totp',
+            enabled: false,
+            backupCodes: null,
+            verifiedAt: null,
+            lastUsedAt: null,
+            emailOtpCode: null,
+            emailOtpExpiresAt: null,
+          });
+          log(`2FA setup: Updated existing record`, 'security');
+        } else {
+          await dbStorage.createTwoFactorAuth({
+            auth0UserId: session.auth0UserId,
+            secret: encryptedSecret,
+            method: 'totp',
+            enabled: false,
+          });
+          log(`2FA setup: Created new record`, 'security');
+        }
+      } catch (dbErr: any) {
+        log(`2FA setup: Database error: ${dbErr.message}`, 'api');
+        return res.status(500).json({ error: 'Failed to save 2FA configuration' });
+      }
+
+      let otpAuthUrl: string;
+      let qrCodeDataUrl: string;
+      try {
+        otpAuthUrl = totpGenerateURI(session.email, plaintextSecret);
+        log(`2FA setup: URI generated: ${otpAuthUrl.substring(0, 50)}...`, 'security');
+        const rawQrCode = await QRCode.toDataURL(otpAuthUrl, {
+          errorCorrectionLevel: 'H',
+          width: 300,
+          margin: 2,
+        });
+        qrCodeDataUrl = await addLogoToQRCode(rawQrCode);
+        log(`2FA setup: QR code generated with logo`, 'security');
+      } catch (qrGenErr: any) {
+        log(`2FA setup: Failed to generate QR code: ${qrGenErr.message}`, 'api');
+        return res.status(500).json({ error: 'Failed to generate QR code' });
+      }
+
+      log(`2FA setup completed successfully for user ${session.email}`, 'security');
+
+      res.json({
+        secret: plaintextSecret,
+        qrCode: qrCodeDataUrl,
+        otpAuthUrl,
+      });
+    } catch (error: any) {
+      log(`Error setting up 2FA: ${error.message}\n${error.stack}`, 'api');
+      res.status(500).json({ error: 'Failed to set up 2FA' });
+    }
+  });
+
+  // Enable 2FA after verifying token
+  app.post('/api/user/2fa/enable', authMiddleware, mfaRateLimiter, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'User not authenticated' });
+      }
+
+      const { token } = req.body;
+      if (!token || typeof token !== 'string') {
+        return res.status(400).json({ error: 'Verification token is required' });
+      }
+
+      const tfa = await dbStorage.getTwoFactorAuth(session.auth0UserId);
+      if (!tfa) {
+        return res.status(400).json({ error: 'Please set up 2FA first by calling /api/user/2fa/setup' });
+      }
+
+      if (tfa.enabled) {
+        return res.status(400).json({ error: '2FA is already enabled' });
+      }
+
+      let plaintextSecret: string;
+      try {
+        plaintextSecret = isEncrypted(tfa.secret) ? decryptSecret(tfa.secret) : tfa.secret;
+        log(`2FA enable: decrypted secret length=${plaintextSecret.length}, encrypted=${isEncrypted(tfa.secret)}`, 'security');
+      } catch (decryptError: any) {
+        log(`2FA enable: failed to decrypt secret: ${decryptError.message}`, 'security');
+        return res.status(500).json({ error: 'Failed to verify 2FA. Please try setting up again.' });
+      }
+
+      log(`2FA enable: verifying token ${token} against secret`, 'security');
+      const isValid = totpVerify(token, plaintextSecret);
+      log(`2FA enable: verification result=${isValid}`, 'security');
+      if (!isValid) {
+        return res.status(400).json({ error: 'Invalid verification code. Please try again.' });
+      }
+
+      const { codes: backupCodes, hashes: hashedBackupCodes } = await generateBackupCodes(10);
+      await dbStorage.enableTwoFactorAuth(session.auth0UserId, hashedBackupCodes);
+
+      await auditUserAction(req, session.auth0UserId, session.email, UserActions.TWO_FA_ENABLE, '2fa', session.auth0UserId, { method: 'totp' });
+
+      log(`2FA enabled for user ${session.email}`, 'security');
+
+      res.json({
+        success: true,
+        backupCodes,
+        message: '2FA has been enabled. Please save your backup codes in a safe place.',
+      });
+    } catch (error: any) {
+      log(`Error enabling 2FA: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to enable 2FA' });
+    }
+  });
+
+  // Disable 2FA
+  app.post('/api/user/2fa/disable', authMiddleware, mfaRateLimiter, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'User not authenticated' });
+      }
+
+      const { token, password } = req.body;
+      if (!token || !password) {
+        return res.status(400).json({ error: 'Both 2FA token and password are required to disable 2FA' });
+      }
+
+      const tfa = await dbStorage.getTwoFactorAuth(session.auth0UserId);
+      if (!tfa?.enabled) {
+        return res.status(400).json({ error: '2FA is not enabled' });
+      }
+
+      const authResult = await auth0Client.authenticateUser(session.email, password);
+      if (!authResult.success) {
+        return res.status(400).json({ error: 'Invalid password' });
+      }
+
+      const verification = await verifyCurrentTwoFactorCode(session.auth0UserId, token);
+      if (!verification.ok) {
+        return res.status(400).json({ error: verification.error });
+      }
+
+      await dbStorage.disableTwoFactorAuth(session.auth0UserId);
+      await dbStorage.clearEmailOtpCode(session.auth0UserId);
+      await dbStorage.revokeAllTrustedTwoFactorDevices(session.auth0UserId);
+      clearTrustedTwoFactorDeviceCookie(res);
+
+      await auditUserAction(req, session.auth0UserId, session.email, UserActions.TWO_FA_DISABLE, '2fa', session.auth0UserId, { method: tfa.method });
+
+      log(`2FA disabled for user ${session.email}`, 'security');
+
+      res.json({ success: true, message: '2FA has been disabled' });
+    } catch (error: any) {
+      log(`Error disabling 2FA: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to disable 2FA' });
+    }
+  });
+
+  app.delete('/api/user/2fa/trusted-devices/:id', authMiddleware, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'User not authenticated' });
+      }
+
+      const deviceId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(deviceId) || deviceId <= 0) {
+        return res.status(400).json({ error: 'Invalid device id' });
+      }
+
+      const revokedDevice = await dbStorage.revokeTrustedTwoFactorDevice(session.auth0UserId, deviceId);
+      if (!revokedDevice) {
+        return res.status(404).json({ error: 'Trusted device not found' });
+      }
+
+      const currentTrustedToken = req.cookies?.[TRUSTED_2FA_DEVICE_COOKIE];
+      if (currentTrustedToken && revokedDevice.tokenHash === hashTrustedTwoFactorToken(currentTrustedToken)) {
+        clearTrustedTwoFactorDeviceCookie(res);
+      }
+
+      log(`Trusted 2FA device revoked for ${session.email}: ${revokedDevice.deviceLabel}`, 'security');
+      res.json({ success: true, message: 'Trusted device removed' });
+    } catch (error: any) {
+      log(`Error revoking trusted 2FA device: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to revoke trusted device' });
+    }
+  });
+
+  app.delete('/api/user/2fa/trusted-devices', authMiddleware, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'User not authenticated' });
+      }
+
+      const revokedCount = await dbStorage.revokeAllTrustedTwoFactorDevices(session.auth0UserId);
+      clearTrustedTwoFactorDeviceCookie(res);
+
+      log(`Revoked all trusted 2FA devices for ${session.email}`, 'security');
+      res.json({ success: true, revokedCount, message: 'All trusted devices removed' });
+    } catch (error: any) {
+      log(`Error revoking all trusted 2FA devices: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to revoke trusted devices' });
+    }
+  });
+
+  // Generate new backup codes
+  app.post('/api/user/2fa/backup-codes', authMiddleware, mfaRateLimiter, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'User not authenticated' });
+      }
+
+      const { token } = req.body;
+      if (!token || typeof token !== 'string') {
+        return res.status(400).json({ error: '2FA token is required' });
+      }
+
+      const verification = await verifyCurrentTwoFactorCode(session.auth0UserId, token);
+      if (!verification.ok) {
+        return res.status(400).json({ error: verification.error });
+      }
+
+      const { codes: backupCodes, hashes: hashedBackupCodes } = await generateBackupCodes(10);
+      await dbStorage.updateTwoFactorBackupCodes(session.auth0UserId, hashedBackupCodes);
+      log(`New backup codes generated for user ${session.email}`, 'security');
+
+      res.json({
+        success: true,
+        backupCodes,
+        message: 'New backup codes generated. Please save them in a safe place.',
+      });
+    } catch (error: any) {
+      log(`Error generating backup codes: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to generate backup codes' });
+    }
+  });
+
+  // Email 2FA: Setup (creates record with email method)
+  app.post('/api/user/2fa/email/setup', authMiddleware, mfaRateLimiter, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'User not authenticated' });
+      }
+
+      let tfa = await dbStorage.getTwoFactorAuth(session.auth0UserId);
+      if (tfa?.enabled) {
+        return res.status(400).json({ error: '2FA is already enabled. Disable it first to change methods.' });
+      }
+
+      if (tfa) {
+        await dbStorage.updateTwoFactorAuth(session.auth0UserId, {
+          method: 'email',
+          secret: 'EMAIL_2FA_PLACEHOLDER',
+          backupCodes: null,
+          verifiedAt: null,
+          lastUsedAt: null,
+          emailOtpCode: null,
+          emailOtpExpiresAt: null,
+          enabled: false,
+        });
+      } else {
+        tfa = await dbStorage.createEmailTwoFactorAuth(session.auth0UserId);
+      }
+
+      await sendTwoFactorCodeForUser(session.auth0UserId, session.email);
+
+      log(`Email 2FA setup initiated for ${session.email}`, 'security');
+      res.json({ success: true, message: 'Verification code sent to your email' });
+    } catch (error: any) {
+      log(`Error setting up email 2FA: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to setup email 2FA' });
+    }
+  });
+
+  // Email 2FA: Enable (verify code and enable)
+  app.post('/api/user/2fa/email/enable', authMiddleware, mfaRateLimiter, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'User not authenticated' });
+      }
+
+      const { code } = req.body;
+      if (!code || typeof code !== 'string') {
+        return res.status(400).json({ error: 'Verification code is required' });
+      }
+
+      const tfa = await dbStorage.getTwoFactorAuth(session.auth0UserId);
+      if (!tfa) {
+        return res.status(400).json({ error: 'Please setup email 2FA first' });
+      }
+
+      if (tfa.enabled) {
+        return res.status(400).json({ error: '2FA is already enabled' });
+      }
+
+      if (!tfa.emailOtpCode || !tfa.emailOtpExpiresAt) {
+        return res.status(400).json({ error: 'No verification code pending. Please request a new one.' });
+      }
+
+      if (new Date() > new Date(tfa.emailOtpExpiresAt)) {
+        return res.status(400).json({ error: 'Verification code has expired. Please request a new one.' });
+      }
+
+      if (!verifyEmailOtpCode(code, tfa.emailOtpCode)) {
+        return res.status(400).json({ error: 'Invalid verification code' });
+      }
+
+      const { codes: backupCodes, hashes: hashedBackupCodes } = await generateBackupCodes(10);
+
+      await dbStorage.updateTwoFactorAuth(session.auth0UserId, {
+        enabled: true,
+        method: 'email',
+        backupCodes: JSON.stringify(hashedBackupCodes),
+        verifiedAt: new Date(),
+        emailOtpCode: null,
+        emailOtpExpiresAt: null,
+      });
+
+      log(`Email 2FA enabled for ${session.email}`, 'security');
+      await auditUserAction(req, session.auth0UserId, session.email, UserActions.TWO_FA_ENABLE, '2fa', session.auth0UserId, { method: 'email' });
+      res.json({
+        success: true,
+        backupCodes,
+        message: 'Email 2FA is now enabled. Save your backup codes!',
+      });
+    } catch (error: any) {
+      log(`Error enabling email 2FA: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to enable email 2FA' });
+    }
+  });
+
+  // Email 2FA: Send code while already signed in (for disable/regenerate flows)
+  app.post('/api/user/2fa/email/send-authenticated', authMiddleware, mfaRateLimiter, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'User not authenticated' });
+      }
+
+      const tfa = await dbStorage.getTwoFactorAuth(session.auth0UserId);
+      if (!tfa?.enabled || tfa.method !== 'email') {
+        return res.status(400).json({ error: 'Email 2FA is not enabled for this account' });
+      }
+
+      await sendTwoFactorCodeForUser(session.auth0UserId, session.email);
+
+      log(`Authenticated email 2FA code sent to ${session.email}`, 'security');
+      await auditUserAction(req, session.auth0UserId, session.email, UserActions.EMAIL_2FA_CODE_SENT, 'session', session.auth0UserId);
+      res.json({ success: true, message: 'Verification code sent' });
+    } catch (error: any) {
+      log(`Error sending authenticated 2FA email: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to send verification code' });
+    }
+  });
+
+  // Email 2FA: Send code during login (public, but rate limited)
+  app.post('/api/user/2fa/email/send', mfaRateLimiter, async (req, res) => {
+    try {
+      const { pendingTwoFactorToken } = req.body;
+      if (!pendingTwoFactorToken || typeof pendingTwoFactorToken !== 'string') {
+        return res.status(400).json({ error: 'Pending login token is required' });
+      }
+
+      const tokenData = verifyPendingTwoFactorToken(pendingTwoFactorToken);
+      if (!tokenData) {
+        return res.status(401).json({ error: 'Invalid or expired login token. Please sign in again.' });
+      }
+
+      const clientIp = getClientIp(req);
+      if (tokenData.ip !== clientIp) {
+        log(`Rejected email 2FA resend due to IP mismatch for ${tokenData.auth0UserId}`, 'security');
+        return res.status(401).json({ error: 'Invalid login token. Please sign in again.' });
       }
 
-      if (!session.auth0UserId) {
-        return res.status(400).json({ error: 'Unable to change password. Please contact support.' });
+      const auth0UserId = tokenData.auth0UserId;
+      const tfa = await dbStorage.getTwoFactorAuth(auth0UserId);
+      if (!tfa?.enabled || tfa.method !== 'email') {
+        return res.status(400).json({ error: 'Email 2FA is not enabled for this account' });
       }
 
-      // SECURITY: Verify current password before allowing change
-      const authResult = await auth0Client.authenticateUser(session.email, currentPassword);
-      if (!authResult.success) {
-        log(`Password change blocked - invalid current password for: ${session.email}`, 'security');
-        return res.status(400).json({ error: 'Current password is incorrect' });
+      const auth0User = await auth0Client.getUserById(auth0UserId);
+      if (!auth0User?.email) {
+        return res.status(400).json({ error: 'Unable to send verification email for this account' });
       }
 
-      const result = await auth0Client.changePassword(session.auth0UserId, newPassword);
-
-      if (!result.success) {
-        return res.status(400).json({ error: result.error || 'Failed to change password' });
+      const targetEmail = auth0User.email.trim().toLowerCase();
+      if (targetEmail !== tokenData.email) {
+        log(`Rejected email 2FA resend due to email mismatch for ${auth0UserId}`, 'security');
+        return res.status(401).json({ error: 'Invalid login token. Please sign in again.' });
       }
 
-      // SECURITY: Revoke all other sessions after password change
-      // Keep current session active so user doesn't get logged out
-      const currentSessionId = req.cookies?.[SESSION_COOKIE];
-      await storage.revokeSessionsByAuth0UserId(session.auth0UserId, SESSION_REVOKE_REASONS.PASSWORD_CHANGED, currentSessionId);
-      log(`All other sessions revoked after password change for: ${session.email}`, 'security');
-
-      // Audit log password change
-      await auditUserAction(req, session.auth0UserId, session.email, UserActions.PASSWORD_CHANGE, 'account', session.auth0UserId);
+      await sendTwoFactorCodeForUser(auth0UserId, targetEmail);
 
-      res.json({ success: true, message: 'Password changed successfully' });
+      log(`Email 2FA code sent to ${targetEmail}`, 'security');
+      await auditUserAction(req, auth0UserId, targetEmail, UserActions.EMAIL_2FA_CODE_SENT, 'session', auth0UserId);
+      res.json({ success: true, message: 'Verification code sent' });
     } catch (error: any) {
-      log(`Error changing password: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to change password' });
+      log(`Error sending 2FA email: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to send verification code' });
     }
   });
 
   // ===========================================
-  // PROFILE PICTURE UPLOAD
+  // API TOKENS
   // ===========================================
 
-  // Upload profile picture (base64)
-  // Use a higher body limit for this endpoint (15MB to accommodate 10MB image + base64 overhead)
-  app.post('/api/user/profile-picture', express.json({ limit: '15mb' }), profilePictureRateLimiter, authMiddleware, async (req, res) => {
+  const formatApiToken = (token: ApiToken) => ({
+    id: token.id,
+    name: token.name,
+    tokenPrefix: token.tokenPrefix,
+    scopes: token.scopes,
+    expiresAt: token.expiresAt,
+    lastUsedAt: token.lastUsedAt,
+    lastUsedIp: token.lastUsedIp,
+    createdAt: token.createdAt,
+  });
+
+  app.get('/api/user/api-tokens', authMiddleware, async (req, res) => {
     try {
       const session = req.userSession!;
-      const { image } = req.body; // Base64 image string
-
-      if (!image) {
-        return res.status(400).json({ error: 'No image provided' });
-      }
-
-      // Validate base64 image data URL format
-      const matches = image.match(/^data:image\/(jpeg|jpg|png|gif|webp);base64,(.+)$/);
-      if (!matches) {
-        return res.status(400).json({ error: 'Invalid image format. Use JPEG, PNG, GIF, or WebP.' });
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'User not authenticated' });
       }
 
-      const [, , base64Data] = matches;
-      const inputBuffer = Buffer.from(base64Data, 'base64');
+      const tokens = await dbStorage.getApiTokensByUser(session.auth0UserId);
+      res.json({ tokens: tokens.map(formatApiToken) });
+    } catch (error: any) {
+      log(`Error listing API tokens: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to load API tokens' });
+    }
+  });
 
-      // Check raw upload size (10MB limit before processing)
-      const maxSize = 10 * 1024 * 1024; // 10MB
-      if (inputBuffer.length > maxSize) {
-        return res.status(400).json({ error: 'Image too large. Maximum size is 10MB.' });
+  app.post('/api/user/api-tokens', authMiddleware, requireEmailVerified, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'User not authenticated' });
       }
 
-      // SECURITY: Process through Sharp to:
-      // 1. Verify the buffer is actually a valid image (throws if not)
-      // 2. Re-encode to JPEG — strips all metadata (EXIF, embedded scripts, etc.)
-      // 3. Resize to max 400x400 to prevent storage abuse
-      let processedBuffer: Buffer;
-      try {
-        processedBuffer = await sharp(inputBuffer)
-          .resize(400, 400, { fit: 'inside', withoutEnlargement: true })
-          .jpeg({ quality: 85, progressive: true })
-          .toBuffer();
-      } catch {
-        return res.status(400).json({ error: 'Invalid image file. Please upload a valid image.' });
+      const parsed = createApiTokenSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid token details' });
       }
 
-      // Create uploads directory if it doesn't exist
-      const fs = await import('fs/promises');
-      const pathModule = await import('path');
-      const uploadsDir = pathModule.join(process.cwd(), 'uploads', 'profile-pictures');
-      await fs.mkdir(uploadsDir, { recursive: true });
-
-      // Generate unique filename — always .jpg since we re-encode to JPEG
-      const safeUserId = session.auth0UserId!.replace(/[^a-zA-Z0-9]/g, '_');
-      const filename = `${safeUserId}_${Date.now()}.jpg`;
-      const filepath = pathModule.join(uploadsDir, filename);
-
-      // Delete old profile picture if exists
-      const wallet = await dbStorage.getWallet(session.auth0UserId!);
-      if (wallet?.profilePictureUrl) {
-        const oldFilename = wallet.profilePictureUrl.replace('/uploads/profile-pictures/', '');
-        // SECURITY: Validate filename to prevent path traversal
-        if (oldFilename && !oldFilename.includes('..') && !oldFilename.includes('/') && !oldFilename.includes('\\') && !pathModule.isAbsolute(oldFilename)) {
-          const oldFilepath = pathModule.join(uploadsDir, oldFilename);
-          if (oldFilepath.startsWith(uploadsDir)) {
-            try {
-              await fs.unlink(oldFilepath);
-            } catch {
-              // Ignore if old file doesn't exist
-            }
-          }
-        }
+      const existingCount = await dbStorage.countActiveApiTokens(session.auth0UserId);
+      if (existingCount >= MAX_API_TOKENS_PER_USER) {
+        return res.status(400).json({ error: `You can have up to ${MAX_API_TOKENS_PER_USER} active API tokens` });
       }
 
-      // Save the sanitized, re-encoded file
-      await fs.writeFile(filepath, processedBuffer);
+      const { token, tokenHash, tokenPrefix } = generateApiToken();
+      const expiresAt = parsed.data.expiresInDays
+        ? new Date(Date.now() + parsed.data.expiresInDays * 24 * 60 * 60 * 1000)
+        : null;
 
-      // Update database with new URL
-      const profilePictureUrl = `/uploads/profile-pictures/${filename}`;
-      await dbStorage.updateProfilePicture(session.auth0UserId!, profilePictureUrl);
+      const created = await dbStorage.createApiToken({
+        auth0UserId: session.auth0UserId,
+        virtFusionUserId: session.virtFusionUserId,
+        extRelationId: session.extRelationId,
+        email: session.email,
+        name: parsed.data.name,
+        tokenHash,
+        tokenPrefix,
+        scopes: Array.from(new Set(parsed.data.scopes)),
+        expiresAt,
+      });
 
-      log(`Profile picture uploaded for ${session.email}: ${filename}`, 'api');
-      res.json({ success: true, profilePictureUrl });
+      await auditUserAction(req, session.auth0UserId, session.email, UserActions.API_TOKEN_CREATE, 'api_token', String(created.id), {
+        name: created.name,
+        scopes: created.scopes,
+        expiresAt: created.expiresAt,
+      });
+
+      // The plain token is only ever returned here
+      res.status(201).json({ token: formatApiToken(created), secret: token });
     } catch (error: any) {
-      log(`Error uploading profile picture: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to upload profile picture' });
+      log(`Error creating API token: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to create API token' });
     }
   });
 
-  // Delete profile picture
-  app.delete('/api/user/profile-picture', authMiddleware, async (req, res) => {
+  app.delete('/api/user/api-tokens/:id', authMiddleware, async (req, res) => {
     try {
       const session = req.userSession!;
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'User not authenticated' });
+      }
 
-      const wallet = await dbStorage.getWallet(session.auth0UserId!);
-      if (wallet?.profilePictureUrl) {
-        // Delete file from disk
-        const fs = await import('fs/promises');
-        const path = await import('path');
-        const uploadsDir = path.join(process.cwd(), 'uploads', 'profile-pictures');
-        const filename = wallet.profilePictureUrl.replace('/uploads/profile-pictures/', '');
-        // SECURITY: Validate filename to prevent path traversal
-        if (filename && !filename.includes('..') && !filename.includes('/') && !filename.includes('\\') && !path.isAbsolute(filename)) {
-          const filepath = path.join(uploadsDir, filename);
-          // Double-check the resolved path is within uploads directory
-          if (filepath.startsWith(uploadsDir)) {
-            try {
-              await fs.unlink(filepath);
-            } catch {
-              // Ignore if file doesn't exist
-            }
-          }
-        }
+      const tokenId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(tokenId) || tokenId <= 0) {
+        return res.status(400).json({ error: 'Invalid token id' });
       }
 
-      // Clear profile picture URL in database
-      await dbStorage.updateProfilePicture(session.auth0UserId!, null);
+      const revoked = await dbStorage.revokeApiToken(session.auth0UserId, tokenId);
+      if (!revoked) {
+        return res.status(404).json({ error: 'API token not found' });
+      }
+
+      await auditUserAction(req, session.auth0UserId, session.email, UserActions.API_TOKEN_REVOKE, 'api_token', String(revoked.id), {
+        name: revoked.name,
+      });
 
-      log(`Profile picture deleted for ${session.email}`, 'api');
       res.json({ success: true });
     } catch (error: any) {
-      log(`Error deleting profile picture: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to delete profile picture' });
+      log(`Error revoking API token: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to revoke API token' });
     }
   });
 
   // ===========================================
-  // TWO-FACTOR AUTHENTICATION ENDPOINTS
+  // SSH KEY LIBRARY
   // ===========================================
 
-  const sendTwoFactorCodeForUser = async (auth0UserId: string, targetEmail: string) => {
-    const code = crypto.randomInt(100000, 1000000).toString();
-    const expiresAt = new Date(Date.now() + 10 * 60 * 1000);
+  const formatSshKey = (key: SshKey) => ({
+    id: key.id,
+    name: key.name,
+    publicKey: key.publicKey,
+    fingerprint: key.fingerprint,
+    createdAt: key.createdAt,
+    lastUsedAt: key.lastUsedAt,
+  });
 
-    await dbStorage.setEmailOtpCode(auth0UserId, code, expiresAt);
-    const emailResult = await sendTwoFactorCodeEmail(targetEmail, code, 10);
+  app.get('/api/user/ssh-keys', authMiddleware, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'User not authenticated' });
+      }
 
-    if (!emailResult.success) {
-      throw new Error(emailResult.error || 'Failed to send verification email');
+      const keys = await dbStorage.getSshKeysByUser(session.auth0UserId);
+      res.json({ keys: keys.map(formatSshKey) });
+    } catch (error: any) {
+      log(`Error listing SSH keys: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to load SSH keys' });
     }
-  };
+  });
 
-  const verifyCurrentTwoFactorCode = async (auth0UserId: string, submittedCode: string) => {
-    const tfa = await dbStorage.getTwoFactorAuth(auth0UserId);
-    if (!tfa?.enabled) {
-      return { ok: false as const, error: '2FA is not enabled' };
-    }
+  app.post('/api/user/ssh-keys', authMiddleware, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'User not authenticated' });
+      }
 
-    if (tfa.method === 'email') {
-      if (!tfa.emailOtpCode || !tfa.emailOtpExpiresAt) {
-        return { ok: false as const, error: 'No verification code pending. Please request a new one.' };
+      const parsed = createSshKeySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid SSH key' });
       }
 
-      if (new Date() > new Date(tfa.emailOtpExpiresAt)) {
-        return { ok: false as const, error: 'Verification code has expired. Please request a new one.' };
+      const key = parseSshPublicKey(parsed.data.publicKey);
+      if (!key.ok) {
+        return res.status(400).json({ error: key.error });
       }
 
-      if (!verifyEmailOtpCode(submittedCode, tfa.emailOtpCode)) {
-        return { ok: false as const, error: 'Invalid verification code' };
+      const existingCount = await dbStorage.countSshKeys(session.auth0UserId);
+      if (existingCount >= MAX_SSH_KEYS_PER_USER) {
+        return res.status(400).json({ error: `You can store up to ${MAX_SSH_KEYS_PER_USER} SSH keys` });
       }
 
-      await dbStorage.clearEmailOtpCode(auth0UserId);
-      await dbStorage.updateTwoFactorLastUsed(auth0UserId);
-      return { ok: true as const, tfa };
-    }
+      const duplicate = await dbStorage.getSshKeyByFingerprint(session.auth0UserId, key.value.fingerprint);
+      if (duplicate) {
+        return res.status(409).json({ error: `This key is already saved as "${duplicate.name}"` });
+      }
 
-    const plaintextSecret = isEncrypted(tfa.secret) ? decryptSecret(tfa.secret) : tfa.secret;
-    const isValid = totpVerify(submittedCode, plaintextSecret);
+      const created = await dbStorage.createSshKey({
+        auth0UserId: session.auth0UserId,
+        name: parsed.data.name,
+        publicKey: key.value.publicKey,
+        fingerprint: key.value.fingerprint,
+      });
 
-    if (!isValid) {
-      return { ok: false as const, error: 'Invalid verification code' };
-    }
+      await auditUserAction(req, session.auth0UserId, session.email, UserActions.SSH_KEY_ADD, 'ssh_key', String(created.id), {
+        name: created.name,
+        fingerprint: created.fingerprint,
+      });
 
-    await dbStorage.updateTwoFactorLastUsed(auth0UserId);
-    return { ok: true as const, tfa };
-  };
+      res.status(201).json({ key: formatSshKey(created) });
+    } catch (error: any) {
+      log(`Error adding SSH key: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to add SSH key' });
+    }
+  });
 
-  // Get 2FA status for current user
-  app.get('/api/user/2fa/status', authMiddleware, async (req, res) => {
+  app.patch('/api/user/ssh-keys/:id', authMiddleware, async (req, res) => {
     try {
       const session = req.userSession!;
       if (!session.auth0UserId) {
         return res.status(400).json({ error: 'User not authenticated' });
       }
 
-      const tfa = await dbStorage.getTwoFactorAuth(session.auth0UserId);
+      const keyId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(keyId) || keyId <= 0) {
+        return res.status(400).json({ error: 'Invalid SSH key id' });
+      }
 
-      res.json({
-        enabled: tfa?.enabled || false,
-        method: tfa?.method || 'totp',
-        verifiedAt: tfa?.verifiedAt || null,
-        lastUsedAt: tfa?.lastUsedAt || null,
+      const parsed = updateSshKeySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid name' });
+      }
+
+      const updated = await dbStorage.renameSshKey(session.auth0UserId, keyId, parsed.data.name);
+      if (!updated) {
+        return res.status(404).json({ error: 'SSH key not found' });
+      }
+
+      await auditUserAction(req, session.auth0UserId, session.email, UserActions.SSH_KEY_UPDATE, 'ssh_key', String(updated.id), {
+        name: updated.name,
       });
+
+      res.json({ key: formatSshKey(updated) });
     } catch (error: any) {
-      log(`Error getting 2FA status: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to get 2FA status' });
+      log(`Error renaming SSH key: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to update SSH key' });
     }
   });
 
-  app.get('/api/user/2fa/trusted-devices', authMiddleware, async (req, res) => {
+  app.delete('/api/user/ssh-keys/:id', authMiddleware, async (req, res) => {
     try {
       const session = req.userSession!;
       if (!session.auth0UserId) {
         return res.status(400).json({ error: 'User not authenticated' });
       }
 
-      const devices = await dbStorage.listTrustedTwoFactorDevices(session.auth0UserId);
-      const currentTrustedToken = req.cookies?.[TRUSTED_2FA_DEVICE_COOKIE];
-      const currentTokenHash = currentTrustedToken ? hashTrustedTwoFactorToken(currentTrustedToken) : null;
-      const currentUserAgent = req.headers['user-agent'] || null;
+      const keyId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(keyId) || keyId <= 0) {
+        return res.status(400).json({ error: 'Invalid SSH key id' });
+      }
 
-      res.json({
-        devices: devices.map((device) => ({
-          id: device.id,
-          deviceLabel: device.deviceLabel,
-          userAgent: device.userAgent,
-          ipAddress: device.ipAddress,
-          createdAt: device.createdAt,
-          lastUsedAt: device.lastUsedAt,
-          expiresAt: device.expiresAt,
-          current: currentTokenHash === device.tokenHash && trustedTwoFactorUserAgentMatches(device.userAgentHash, currentUserAgent),
-        })),
+      const deleted = await dbStorage.deleteSshKey(session.auth0UserId, keyId);
+      if (!deleted) {
+        return res.status(404).json({ error: 'SSH key not found' });
+      }
+
+      // Keys already installed on servers stay in authorized_keys; this only
+      // removes the copy VirtFusion keeps for future builds.
+      if (deleted.virtfusionKeyId) {
+        await virtfusionClient.deleteSshKey(deleted.virtfusionKeyId);
+      }
+
+      await auditUserAction(req, session.auth0UserId, session.email, UserActions.SSH_KEY_DELETE, 'ssh_key', String(deleted.id), {
+        name: deleted.name,
+        fingerprint: deleted.fingerprint,
       });
+
+      res.json({ success: true });
     } catch (error: any) {
-      log(`Error getting trusted 2FA devices: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to get trusted devices' });
+      log(`Error deleting SSH key: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to delete SSH key' });
     }
   });
 
-  // Begin 2FA setup - generate secret and QR code
-  app.post('/api/user/2fa/setup', authMiddleware, mfaRateLimiter, async (req, res) => {
+  // ===========================================
+  // USER-DATA SCRIPTS
+  // ===========================================
+
+  const formatUserDataScript = (script: UserDataScript) => ({
+    id: script.id,
+    name: script.name,
+    content: script.content,
+    createdAt: script.createdAt,
+    updatedAt: script.updatedAt,
+  });
+
+  app.get('/api/user/scripts', authMiddleware, async (req, res) => {
     try {
       const session = req.userSession!;
       if (!session.auth0UserId) {
         return res.status(400).json({ error: 'User not authenticated' });
       }
 
-      log(`2FA setup: starting for user ${session.email}`, 'security');
-
-      let QRCode;
-      try {
-        QRCode = await import('qrcode');
-        log(`2FA setup: QRCode library loaded`, 'security');
-      } catch (qrErr: any) {
-        log(`2FA setup: Failed to load QRCode library: ${qrErr.message}`, 'api');
-        return res.status(500).json({ error: 'Failed to load QR code library' });
-      }
+      const scripts = await dbStorage.getUserDataScriptsByUser(session.auth0UserId);
+      res.json({ scripts: scripts.map(formatUserDataScript) });
+    } catch (error: any) {
+      log(`Error listing user-data scripts: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to load scripts' });
+    }
+  });
 
-      const existing = await dbStorage.getTwoFactorAuth(session.auth0UserId);
-      if (existing?.enabled) {
-        return res.status(400).json({ error: '2FA is already enabled. Disable it first to set up again.' });
+  app.post('/api/user/scripts', authMiddleware, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'User not authenticated' });
       }
 
-      let plaintextSecret: string;
-      try {
-        plaintextSecret = totpGenerateSecret();
-        log(`2FA setup: Secret generated (length: ${plaintextSecret.length})`, 'security');
-      } catch (secretErr: any) {
-        log(`2FA setup: Failed to generate secret: ${secretErr.message}`, 'api');
-        return res.status(500).json({ error: 'Failed to generate secret' });
+      const parsed = userDataScriptSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid script' });
       }
 
-      let encryptedSecret: string;
-      try {
-        encryptedSecret = encryptSecret(plaintextSecret);
-        log(`2FA setup: Secret encrypted`, 'security');
-      } catch (encryptErr: any) {
-        log(`2FA setup: Failed to encrypt secret: ${encryptErr.message}`, 'api');
-        return res.status(500).json({ error: 'Failed to encrypt secret' });
+      const content = normalizeUserData(parsed.data.content);
+      if (!content.ok) {
+        return res.status(400).json({ error: content.error });
       }
-
-      try {
-        if (existing) {
-          await dbStorage.updateTwoFactorAuth(session.auth0UserId, {
-            secret: encryptedSecret,
-            method: 'totp',
-            enabled: false,
-            backupCodes: null,
-            verifiedAt: null,
-            lastUsedAt: null,
-            emailOtpCode: null,
-            emailOtpExpiresAt: null,
-          });
-          log(`2FA setup: Updated existing record`, 'security');
-        } else {
-          await dbStorage.createTwoFactorAuth({
-            auth0UserId: session.auth0UserId,
-            secret: encryptedSecret,
-            method: 'totp',
-            enabled: false,
-          });
-          log(`2FA setup: Created new record`, 'security');
-        }
-      } catch (dbErr: any) {
-        log(`2FA setup: Database error: ${dbErr.message}`, 'api');
-        return res.status(500).json({ error: 'Failed to save 2FA configuration' });
+      if (!content.value) {
+        return res.status(400).json({ error: 'Script content is required' });
       }
 
-      let otpAuthUrl: string;
-      let qrCodeDataUrl: string;
-      try {
-        otpAuthUrl = totpGenerateURI(session.email, plaintextSecret);
-        log(`2FA setup: URI generated: ${otpAuthUrl.substring(0, 50)}...`, 'security');
-        const rawQrCode = await QRCode.toDataURL(otpAuthUrl, {
-          errorCorrectionLevel: 'H',
-          width: 300,
-          margin: 2,
-        });
-        qrCodeDataUrl = await addLogoToQRCode(rawQrCode);
-        log(`2FA setup: QR code generated with logo`, 'security');
-      } catch (qrGenErr: any) {
-        log(`2FA setup: Failed to generate QR code: ${qrGenErr.message}`, 'api');
-        return res.status(500).json({ error: 'Failed to generate QR code' });
+      const existingCount = await dbStorage.countUserDataScripts(session.auth0UserId);
+      if (existingCount >= MAX_USER_DATA_SCRIPTS_PER_USER) {
+        return res.status(400).json({ error: `You can save up to ${MAX_USER_DATA_SCRIPTS_PER_USER} scripts` });
       }
 
-      log(`2FA setup completed successfully for user ${session.email}`, 'security');
+      const created = await dbStorage.createUserDataScript({
+        auth0UserId: session.auth0UserId,
+        name: parsed.data.name,
+        content: content.value,
+      });
 
-      res.json({
-        secret: plaintextSecret,
-        qrCode: qrCodeDataUrl,
-        otpAuthUrl,
+      await auditUserAction(req, session.auth0UserId, session.email, UserActions.USER_DATA_SCRIPT_ADD, 'user_data_script', String(created.id), {
+        name: created.name,
       });
+
+      res.status(201).json({ script: formatUserDataScript(created) });
     } catch (error: any) {
-      log(`Error setting up 2FA: ${error.message}\n${error.stack}`, 'api');
-      res.status(500).json({ error: 'Failed to set up 2FA' });
+      log(`Error saving user-data script: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to save script' });
     }
   });
 
-  // Enable 2FA after verifying token
-  app.post('/api/user/2fa/enable', authMiddleware, mfaRateLimiter, async (req, res) => {
+  app.put('/api/user/scripts/:id', authMiddleware, async (req, res) => {
     try {
       const session = req.userSession!;
       if (!session.auth0UserId) {
         return res.status(400).json({ error: 'User not authenticated' });
       }
 
-      const { token } = req.body;
-      if (!token || typeof token !== 'string') {
-        return res.status(400).json({ error: 'Verification token is required' });
+      const scriptId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(scriptId) || scriptId <= 0) {
+        return res.status(400).json({ error: 'Invalid script id' });
       }
 
-      const tfa = await dbStorage.getTwoFactorAuth(session.auth0UserId);
-      if (!tfa) {
-        return res.status(400).json({ error: 'Please set up 2FA first by calling /api/user/2fa/setup' });
+      const parsed = userDataScriptSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid script' });
       }
 
-      if (tfa.enabled) {
-        return res.status(400).json({ error: '2FA is already enabled' });
+      const content = normalizeUserData(parsed.data.content);
+      if (!content.ok) {
+        return res.status(400).json({ error: content.error });
       }
-
-      let plaintextSecret: string;
-      try {
-        plaintextSecret = isEncrypted(tfa.secret) ? decryptSecret(tfa.secret) : tfa.secret;
-        log(`2FA enable: decrypted secret length=${plaintextSecret.length}, encrypted=${isEncrypted(tfa.secret)}`, 'security');
-      } catch (decryptError: any) {
-        log(`2FA enable: failed to decrypt secret: ${decryptError.message}`, 'security');
-        return res.status(500).json({ error: 'Failed to verify 2FA. Please try setting up again.' });
+      if (!content.value) {
+        return res.status(400).json({ error: 'Script content is required' });
       }
 
-      log(`2FA enable: verifying token ${token} against secret`, 'security');
-      const isValid = totpVerify(token, plaintextSecret);
-      log(`2FA enable: verification result=${isValid}`, 'security');
-      if (!isValid) {
-        return res.status(400).json({ error: 'Invalid verification code. Please try again.' });
+      const updated = await dbStorage.updateUserDataScript(session.auth0UserId, scriptId, {
+        name: parsed.data.name,
+        content: content.value,
+      });
+      if (!updated) {
+        return res.status(404).json({ error: 'Script not found' });
       }
 
-      const { codes: backupCodes, hashes: hashedBackupCodes } = await generateBackupCodes(10);
-      await dbStorage.enableTwoFactorAuth(session.auth0UserId, hashedBackupCodes);
-
-      await auditUserAction(req, session.auth0UserId, session.email, UserActions.TWO_FA_ENABLE, '2fa', session.auth0UserId, { method: 'totp' });
-
-      log(`2FA enabled for user ${session.email}`, 'security');
-
-      res.json({
-        success: true,
-        backupCodes,
-        message: '2FA has been enabled. Please save your backup codes in a safe place.',
+      await auditUserAction(req, session.auth0UserId, session.email, UserActions.USER_DATA_SCRIPT_UPDATE, 'user_data_script', String(updated.id), {
+        name: updated.name,
       });
+
+      res.json({ script: formatUserDataScript(updated) });
     } catch (error: any) {
-      log(`Error enabling 2FA: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to enable 2FA' });
+      log(`Error updating user-data script: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to update script' });
     }
   });
 
-  // Disable 2FA
-  app.post('/api/user/2fa/disable', authMiddleware, mfaRateLimiter, async (req, res) => {
+  app.delete('/api/user/scripts/:id', authMiddleware, async (req, res) => {
     try {
       const session = req.userSession!;
       if (!session.auth0UserId) {
         return res.status(400).json({ error: 'User not authenticated' });
       }
 
-      const { token, password } = req.body;
-      if (!token || !password) {
-        return res.status(400).json({ error: 'Both 2FA token and password are required to disable 2FA' });
-      }
-
-      const tfa = await dbStorage.getTwoFactorAuth(session.auth0UserId);
-      if (!tfa?.enabled) {
-        return res.status(400).json({ error: '2FA is not enabled' });
+      const scriptId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(scriptId) || scriptId <= 0) {
+        return res.status(400).json({ error: 'Invalid script id' });
       }
 
-      const authResult = await auth0Client.authenticateUser(session.email, password);
-      if (!authResult.success) {
-        return res.status(400).json({ error: 'Invalid password' });
+      const deleted = await dbStorage.deleteUserDataScript(session.auth0UserId, scriptId);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Script not found' });
       }
 
-      const verification = await verifyCurrentTwoFactorCode(session.auth0UserId, token);
-      if (!verification.ok) {
-        return res.status(400).json({ error: verification.error });
-      }
+      await auditUserAction(req, session.auth0UserId, session.email, UserActions.USER_DATA_SCRIPT_DELETE, 'user_data_script', String(deleted.id), {
+        name: deleted.name,
+      });
 
-      await dbStorage.disableTwoFactorAuth(session.auth0UserId);
-      await dbStorage.clearEmailOtpCode(session.auth0UserId);
-      await dbStorage.revokeAllTrustedTwoFactorDevices(session.auth0UserId);
-      clearTrustedTwoFactorDeviceCookie(res);
+      res.json({ success: true });
+    } catch (error: any) {
+      log(`Error deleting user-data script: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to delete script' });
+    }
+  });
 
-      await auditUserAction(req, session.auth0UserId, session.email, UserActions.TWO_FA_DISABLE, '2fa', session.auth0UserId, { method: tfa.method });
+  // ================== Projects ==================
 
-      log(`2FA disabled for user ${session.email}`, 'security');
+  app.get('/api/user/projects', authMiddleware, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'User not authenticated' });
+      }
 
-      res.json({ success: true, message: '2FA has been disabled' });
+      const userProjects = await dbStorage.getProjectsByUser(session.auth0UserId);
+      res.json({ projects: userProjects.map(formatProject), maxProjects: MAX_PROJECTS_PER_USER });
     } catch (error: any) {
-      log(`Error disabling 2FA: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to disable 2FA' });
+      log(`Error listing projects: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to load projects' });
     }
   });
 
-  app.delete('/api/user/2fa/trusted-devices/:id', authMiddleware, async (req, res) => {
+  app.post('/api/user/projects', authMiddleware, async (req, res) => {
     try {
       const session = req.userSession!;
       if (!session.auth0UserId) {
         return res.status(400).json({ error: 'User not authenticated' });
       }
 
-      const deviceId = Number.parseInt(req.params.id, 10);
-      if (!Number.isFinite(deviceId) || deviceId <= 0) {
-        return res.status(400).json({ error: 'Invalid device id' });
+      const parsed = projectSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid project' });
       }
 
-      const revokedDevice = await dbStorage.revokeTrustedTwoFactorDevice(session.auth0UserId, deviceId);
-      if (!revokedDevice) {
-        return res.status(404).json({ error: 'Trusted device not found' });
+      const existingCount = await dbStorage.countProjects(session.auth0UserId);
+      if (existingCount >= MAX_PROJECTS_PER_USER) {
+        return res.status(400).json({ error: `You can have up to ${MAX_PROJECTS_PER_USER} projects` });
       }
-
-      const currentTrustedToken = req.cookies?.[TRUSTED_2FA_DEVICE_COOKIE];
-      if (currentTrustedToken && revokedDevice.tokenHash === hashTrustedTwoFactorToken(currentTrustedToken)) {
-        clearTrustedTwoFactorDeviceCookie(res);
+      if (await dbStorage.getProjectByName(session.auth0UserId, parsed.data.name)) {
+        return res.status(409).json({ error: 'You already have a project with that name' });
       }
 
-      log(`Trusted 2FA device revoked for ${session.email}: ${revokedDevice.deviceLabel}`, 'security');
-      res.json({ success: true, message: 'Trusted device removed' });
+      const created = await dbStorage.createProject(session.auth0UserId, parsed.data.name);
+
+      await auditUserAction(req, session.auth0UserId, session.email, UserActions.PROJECT_CREATE, 'project', String(created.id), {
+        name: created.name,
+      });
+
+      res.status(201).json({ project: formatProject(created) });
     } catch (error: any) {
-      log(`Error revoking trusted 2FA device: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to revoke trusted device' });
+      log(`Error creating project: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to create project' });
     }
   });
 
-  app.delete('/api/user/2fa/trusted-devices', authMiddleware, async (req, res) => {
+  app.put('/api/user/projects/:id', authMiddleware, async (req, res) => {
     try {
       const session = req.userSession!;
       if (!session.auth0UserId) {
         return res.status(400).json({ error: 'User not authenticated' });
       }
 
-      const revokedCount = await dbStorage.revokeAllTrustedTwoFactorDevices(session.auth0UserId);
-      clearTrustedTwoFactorDeviceCookie(res);
+      const projectId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(projectId) || projectId <= 0) {
+        return res.status(400).json({ error: 'Invalid project id' });
+      }
 
-      log(`Revoked all trusted 2FA devices for ${session.email}`, 'security');
-      res.json({ success: true, revokedCount, message: 'All trusted devices removed' });
+      const parsed = projectSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid project' });
+      }
+
+      const duplicate = await dbStorage.getProjectByName(session.auth0UserId, parsed.data.name);
+      if (duplicate && duplicate.id !== projectId) {
+        return res.status(409).json({ error: 'You already have a project with that name' });
+      }
+
+      const updated = await dbStorage.renameProject(session.auth0UserId, projectId, parsed.data.name);
+      if (!updated) {
+        return res.status(404).json({ error: 'Project not found' });
+      }
+
+      await auditUserAction(req, session.auth0UserId, session.email, UserActions.PROJECT_UPDATE, 'project', String(updated.id), {
+        name: updated.name,
+      });
+
+      res.json({ project: formatProject(updated) });
     } catch (error: any) {
-      log(`Error revoking all trusted 2FA devices: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to revoke trusted devices' });
+      log(`Error updating project: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to update project' });
     }
   });
 
-  // Generate new backup codes
-  app.post('/api/user/2fa/backup-codes', authMiddleware, mfaRateLimiter, async (req, res) => {
+  app.delete('/api/user/projects/:id', authMiddleware, async (req, res) => {
     try {
       const session = req.userSession!;
       if (!session.auth0UserId) {
         return res.status(400).json({ error: 'User not authenticated' });
       }
 
-      const { token } = req.body;
-      if (!token || typeof token !== 'string') {
-        return res.status(400).json({ error: '2FA token is required' });
+      const projectId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(projectId) || projectId <= 0) {
+        return res.status(400).json({ error: 'Invalid project id' });
       }
 
-      const verification = await verifyCurrentTwoFactorCode(session.auth0UserId, token);
-      if (!verification.ok) {
-        return res.status(400).json({ error: verification.error });
+      const project = await dbStorage.getProject(session.auth0UserId, projectId);
+      if (!project || !(await dbStorage.deleteProject(session.auth0UserId, projectId))) {
+        return res.status(404).json({ error: 'Project not found' });
       }
 
-      const { codes: backupCodes, hashes: hashedBackupCodes } = await generateBackupCodes(10);
-      await dbStorage.updateTwoFactorBackupCodes(session.auth0UserId, hashedBackupCodes);
-      log(`New backup codes generated for user ${session.email}`, 'security');
-
-      res.json({
-        success: true,
-        backupCodes,
-        message: 'New backup codes generated. Please save them in a safe place.',
+      await auditUserAction(req, session.auth0UserId, session.email, UserActions.PROJECT_DELETE, 'project', String(projectId), {
+        name: project.name,
       });
+
+      res.json({ success: true });
     } catch (error: any) {
-      log(`Error generating backup codes: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to generate backup codes' });
+      log(`Error deleting project: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to delete project' });
     }
   });
 
-  // Email 2FA: Setup (creates record with email method)
-  app.post('/api/user/2fa/email/setup', authMiddleware, mfaRateLimiter, async (req, res) => {
+  // ================== Firewall Rule Sets ==================
+
+  const formatFirewallRuleSet = (ruleSet: FirewallRuleSet) => ({
+    id: ruleSet.id,
+    name: ruleSet.name,
+    rules: ruleSet.rules,
+    createdAt: ruleSet.createdAt,
+    updatedAt: ruleSet.updatedAt,
+  });
+
+  app.get('/api/user/firewall-rule-sets', authMiddleware, async (req, res) => {
     try {
       const session = req.userSession!;
       if (!session.auth0UserId) {
         return res.status(400).json({ error: 'User not authenticated' });
       }
 
-      let tfa = await dbStorage.getTwoFactorAuth(session.auth0UserId);
-      if (tfa?.enabled) {
-        return res.status(400).json({ error: '2FA is already enabled. Disable it first to change methods.' });
+      const ruleSets = await dbStorage.getFirewallRuleSetsByUser(session.auth0UserId);
+      res.json({ ruleSets: ruleSets.map(formatFirewallRuleSet) });
+    } catch (error: any) {
+      log(`Error listing firewall rule sets: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to load rule sets' });
+    }
+  });
+
+  app.post('/api/user/firewall-rule-sets', authMiddleware, async (req, res) => {
+    try {
+      const session = req.userSession!;
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'User not authenticated' });
       }
 
-      if (tfa) {
-        await dbStorage.updateTwoFactorAuth(session.auth0UserId, {
-          method: 'email',
-          secret: 'EMAIL_2FA_PLACEHOLDER',
-          backupCodes: null,
-          verifiedAt: null,
-          lastUsedAt: null,
-          emailOtpCode: null,
-          emailOtpExpiresAt: null,
-          enabled: false,
-        });
-      } else {
-        tfa = await dbStorage.createEmailTwoFactorAuth(session.auth0UserId);
+      const parsed = firewallRuleSetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid rule set' });
+      }
+
+      const normalized = normalizeFirewallRules(parsed.data.rules);
+      if (!normalized.ok) {
+        return res.status(400).json({ error: normalized.error });
+      }
+
+      const existingCount = await dbStorage.countFirewallRuleSets(session.auth0UserId);
+      if (existingCount >= MAX_FIREWALL_RULE_SETS_PER_USER) {
+        return res.status(400).json({ error: `You can save up to ${MAX_FIREWALL_RULE_SETS_PER_USER} rule sets` });
       }
 
-      await sendTwoFactorCodeForUser(session.auth0UserId, session.email);
+      const created = await dbStorage.createFirewallRuleSet({
+        auth0UserId: session.auth0UserId,
+        name: parsed.data.name,
+        rules: normalized.rules,
+      });
 
-      log(`Email 2FA setup initiated for ${session.email}`, 'security');
-      res.json({ success: true, message: 'Verification code sent to your email' });
+      await auditUserAction(req, session.auth0UserId, session.email, UserActions.FIREWALL_RULE_SET_ADD, 'firewall_rule_set', String(created.id), {
+        name: created.name,
+        ruleCount: normalized.rules.length,
+      });
+
+      res.status(201).json({ ruleSet: formatFirewallRuleSet(created) });
     } catch (error: any) {
-      log(`Error setting up email 2FA: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to setup email 2FA' });
+      log(`Error saving firewall rule set: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to save rule set' });
     }
   });
 
-  // Email 2FA: Enable (verify code and enable)
-  app.post('/api/user/2fa/email/enable', authMiddleware, mfaRateLimiter, async (req, res) => {
+  app.put('/api/user/firewall-rule-sets/:id', authMiddleware, async (req, res) => {
     try {
       const session = req.userSession!;
       if (!session.auth0UserId) {
         return res.status(400).json({ error: 'User not authenticated' });
       }
 
-      const { code } = req.body;
-      if (!code || typeof code !== 'string') {
-        return res.status(400).json({ error: 'Verification code is required' });
-      }
-
-      const tfa = await dbStorage.getTwoFactorAuth(session.auth0UserId);
-      if (!tfa) {
-        return res.status(400).json({ error: 'Please setup email 2FA first' });
-      }
-
-      if (tfa.enabled) {
-        return res.status(400).json({ error: '2FA is already enabled' });
+      const ruleSetId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(ruleSetId) || ruleSetId <= 0) {
+        return res.status(400).json({ error: 'Invalid rule set id' });
       }
 
-      if (!tfa.emailOtpCode || !tfa.emailOtpExpiresAt) {
-        return res.status(400).json({ error: 'No verification code pending. Please request a new one.' });
+      const parsed = firewallRuleSetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid rule set' });
       }
 
-      if (new Date() > new Date(tfa.emailOtpExpiresAt)) {
-        return res.status(400).json({ error: 'Verification code has expired. Please request a new one.' });
+      const normalized = normalizeFirewallRules(parsed.data.rules);
+      if (!normalized.ok) {
+        return res.status(400).json({ error: normalized.error });
       }
 
-      if (!verifyEmailOtpCode(code, tfa.emailOtpCode)) {
-        return res.status(400).json({ error: 'Invalid verification code' });
+      const updated = await dbStorage.updateFirewallRuleSet(session.auth0UserId, ruleSetId, {
+        name: parsed.data.name,
+        rules: normalized.rules,
+      });
+      if (!updated) {
+        return res.status(404).json({ error: 'Rule set not found' });
       }
 
-      const { codes: backupCodes, hashes: hashedBackupCodes } = await generateBackupCodes(10);
-
-      await dbStorage.updateTwoFactorAuth(session.auth0UserId, {
-        enabled: true,
-        method: 'email',
-        backupCodes: JSON.stringify(hashedBackupCodes),
-        verifiedAt: new Date(),
-        emailOtpCode: null,
-        emailOtpExpiresAt: null,
+      await auditUserAction(req, session.auth0UserId, session.email, UserActions.FIREWALL_RULE_SET_UPDATE, 'firewall_rule_set', String(updated.id), {
+        name: updated.name,
+        ruleCount: normalized.rules.length,
       });
 
-      log(`Email 2FA enabled for ${session.email}`, 'security');
-      await auditUserAction(req, session.auth0UserId, session.email, UserActions.TWO_FA_ENABLE, '2fa', session.auth0UserId, { method: 'email' });
-      res.json({
-        success: true,
-        backupCodes,
-        message: 'Email 2FA is now enabled. Save your backup codes!',
-      });
+      res.json({ ruleSet: formatFirewallRuleSet(updated) });
     } catch (error: any) {
-      log(`Error enabling email 2FA: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to enable email 2FA' });
+      log(`Error updating firewall rule set: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to update rule set' });
     }
   });
 
-  // Email 2FA: Send code while already signed in (for disable/regenerate flows)
-  app.post('/api/user/2fa/email/send-authenticated', authMiddleware, mfaRateLimiter, async (req, res) => {
+  app.delete('/api/user/firewall-rule-sets/:id', authMiddleware, async (req, res) => {
     try {
       const session = req.userSession!;
       if (!session.auth0UserId) {
         return res.status(400).json({ error: 'User not authenticated' });
       }
 
-      const tfa = await dbStorage.getTwoFactorAuth(session.auth0UserId);
-      if (!tfa?.enabled || tfa.method !== 'email') {
-        return res.status(400).json({ error: 'Email 2FA is not enabled for this account' });
+      const ruleSetId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(ruleSetId) || ruleSetId <= 0) {
+        return res.status(400).json({ error: 'Invalid rule set id' });
       }
 
-      await sendTwoFactorCodeForUser(session.auth0UserId, session.email);
+      const deleted = await dbStorage.deleteFirewallRuleSet(session.auth0UserId, ruleSetId);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Rule set not found' });
+      }
 
-      log(`Authenticated email 2FA code sent to ${session.email}`, 'security');
-      await auditUserAction(req, session.auth0UserId, session.email, UserActions.EMAIL_2FA_CODE_SENT, 'session', session.auth0UserId);
-      res.json({ success: true, message: 'Verification code sent' });
+      await auditUserAction(req, session.auth0UserId, session.email, UserActions.FIREWALL_RULE_SET_DELETE, 'firewall_rule_set', String(deleted.id), {
+        name: deleted.name,
+      });
+
+      res.json({ success: true });
     } catch (error: any) {
-      log(`Error sending authenticated 2FA email: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to send verification code' });
+      log(`Error deleting firewall rule set: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to delete rule set' });
     }
   });
 
-  // Email 2FA: Send code during login (public, but rate limited)
-  app.post('/api/user/2fa/email/send', mfaRateLimiter, async (req, res) => {
+  // Apply a saved rule set to several servers. Each server is handled on its own
+  // so one refused or failed server doesn't block the rest.
+  app.post('/api/user/firewall-rule-sets/:id/apply', authMiddleware, requireEmailVerified, serverActionRateLimiter, async (req, res) => {
     try {
-      const { pendingTwoFactorToken } = req.body;
-      if (!pendingTwoFactorToken || typeof pendingTwoFactorToken !== 'string') {
-        return res.status(400).json({ error: 'Pending login token is required' });
+      const session = req.userSession!;
+      if (!session.auth0UserId) {
+        return res.status(400).json({ error: 'User not authenticated' });
       }
 
-      const tokenData = verifyPendingTwoFactorToken(pendingTwoFactorToken);
-      if (!tokenData) {
-        return res.status(401).json({ error: 'Invalid or expired login token. Please sign in again.' });
+      const userFlags = await dbStorage.getUserFlagsFromDb(session.auth0UserId);
+      if (userFlags?.blocked) {
+        return res.status(403).json({ error: 'Your account has been blocked. Please contact support for assistance.' });
+      }
+      if (userFlags?.suspended) {
+        return res.status(403).json({ error: 'Your account has been suspended. Server controls are disabled.' });
       }
 
-      const clientIp = getClientIp(req);
-      if (tokenData.ip !== clientIp) {
-        log(`Rejected email 2FA resend due to IP mismatch for ${tokenData.auth0UserId}`, 'security');
-        return res.status(401).json({ error: 'Invalid login token. Please sign in again.' });
+      const ruleSetId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(ruleSetId) || ruleSetId <= 0) {
+        return res.status(400).json({ error: 'Invalid rule set id' });
       }
 
-      const auth0UserId = tokenData.auth0UserId;
-      const tfa = await dbStorage.getTwoFactorAuth(auth0UserId);
-      if (!tfa?.enabled || tfa.method !== 'email') {
-        return res.status(400).json({ error: 'Email 2FA is not enabled for this account' });
+      const parsed = applyFirewallRuleSetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid request' });
       }
 
-      const auth0User = await auth0Client.getUserById(auth0UserId);
-      if (!auth0User?.email) {
-        return res.status(400).json({ error: 'Unable to send verification email for this account' });
+      const ruleSet = await dbStorage.getFirewallRuleSet(session.auth0UserId, ruleSetId);
+      if (!ruleSet) {
+        return res.status(404).json({ error: 'Rule set not found' });
       }
 
-      const targetEmail = auth0User.email.trim().toLowerCase();
-      if (targetEmail !== tokenData.email) {
-        log(`Rejected email 2FA resend due to email mismatch for ${auth0UserId}`, 'security');
-        return res.status(401).json({ error: 'Invalid login token. Please sign in again.' });
+      const incoming = normalizeFirewallRules(ruleSet.rules);
+      if (!incoming.ok) {
+        return res.status(400).json({ error: incoming.error });
       }
 
-      await sendTwoFactorCodeForUser(auth0UserId, targetEmail);
+      const results: Array<{ serverId: string; success: boolean; error?: string }> = [];
+      for (const serverId of Array.from(new Set(parsed.data.serverIds))) {
+        try {
+          const check = await checkServerFeatureChange(serverId, session, 'Firewall changes');
+          if (!check.server) {
+            results.push({ serverId, success: false, error: check.error });
+            continue;
+          }
 
-      log(`Email 2FA code sent to ${targetEmail}`, 'security');
-      await auditUserAction(req, auth0UserId, targetEmail, UserActions.EMAIL_2FA_CODE_SENT, 'session', auth0UserId);
-      res.json({ success: true, message: 'Verification code sent' });
+          const existing = await dbStorage.getServerFirewallRules(serverId);
+          const merged = mergeFirewallRules(existing.map(fromStoredFirewallRule), incoming.rules, parsed.data.mode);
+          if (!merged.ok) {
+            results.push({ serverId, success: false, error: merged.error });
+            continue;
+          }
+
+          await applyServerFirewall(serverId, merged.rules);
+          results.push({ serverId, success: true });
+        } catch (error: any) {
+          log(`Error applying firewall rule set ${ruleSetId} to server ${serverId}: ${error.message}`, 'api');
+          results.push({ serverId, success: false, error: 'Failed to apply rules to this server' });
+        }
+      }
+
+      await auditUserAction(req, session.auth0UserId, session.email, UserActions.FIREWALL_RULE_SET_APPLY, 'firewall_rule_set', String(ruleSet.id), {
+        name: ruleSet.name,
+        mode: parsed.data.mode,
+        appliedServerIds: results.filter((r) => r.success).map((r) => r.serverId),
+        failedServerIds: results.filter((r) => !r.success).map((r) => r.serverId),
+      });
+
+      res.json({ results });
     } catch (error: any) {
-      log(`Error sending 2FA email: ${error.message}`, 'api');
-      res.status(500).json({ error: 'Failed to send verification code' });
+      log(`Error applying firewall rule set: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to apply rule set' });
     }
   });
 
@@ -6041,6 +8689,43 @@ export async function registerRoutes(
 
   // ================== Admin Settings Routes ==================
 
+  // Admin: Get transfer overage policy
+  app.get('/api/admin/settings/transfer-overage', authMiddleware, requireAdmin, async (req, res) => {
+    try {
+      res.json(await dbStorage.getTransferOverageSettings());
+    } catch (error: any) {
+      log(`Admin: Error fetching transfer overage settings: ${error.message}`, 'admin');
+      res.status(500).json({ error: 'Failed to fetch transfer overage settings' });
+    }
+  });
+
+  // Admin: Update transfer overage policy
+  app.put('/api/admin/settings/transfer-overage', authMiddleware, requireAdmin, async (req, res) => {
+    try {
+      const parsed = transferOverageSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid transfer overage settings' });
+      }
+
+      await dbStorage.updateTransferOverageSettings(parsed.data);
+
+      await auditLog(
+        req,
+        'settings.transfer_overage.update',
+        'security_setting',
+        'transfer_overage',
+        null,
+        parsed.data,
+        'success'
+      );
+
+      res.json(parsed.data);
+    } catch (error: any) {
+      log(`Admin: Error updating transfer overage settings: ${error.message}`, 'admin');
+      res.status(500).json({ error: 'Failed to update transfer overage settings' });
+    }
+  });
+
   // Admin: Get registration setting
   app.get('/api/admin/settings/registration', authMiddleware, requireAdmin, async (req, res) => {
     try {
@@ -6361,13 +9046,43 @@ export async function registerRoutes(
         return res.status(400).json({ error: 'No Auth0 user ID in session' });
       }
 
+      // Renewals, deploys and add-ons are invoiced by us; their PDFs are rendered on download
+      const localInvoices = (await dbStorage.getInvoicesByUser(auth0UserId)).map(inv => ({
+        id: String(inv.id),
+        invoiceNumber: inv.invoiceNumber,
+        amountCents: inv.amountCents,
+        description: inv.description,
+        status: inv.status,
+        createdAt: inv.createdAt.toISOString(),
+        periodStart: inv.periodStart?.toISOString() ?? null,
+        periodEnd: inv.periodEnd?.toISOString() ?? null,
+        pdfUrl: `/api/billing/invoices/${inv.id}/download`,
+      }));
+
+      // Refunds against those invoices are listed as credit notes, with negative amounts
+      const invoiceNumbers = new Map(localInvoices.map(inv => [inv.id, inv.invoiceNumber]));
+      const creditNotes = (await dbStorage.getCreditNotesByUser(auth0UserId)).map(note => ({
+        id: `cn-${note.id}`,
+        invoiceNumber: note.creditNoteNumber,
+        amountCents: -note.amountCents,
+        description: `Credit note for ${invoiceNumbers.get(String(note.invoiceId)) ?? 'invoice'} - refunded to ${note.method === 'card' ? 'card' : 'wallet'}`,
+        status: 'credit_note',
+        createdAt: note.createdAt.toISOString(),
+        periodStart: null,
+        periodEnd: null,
+        pdfUrl: `/api/billing/credit-notes/${note.id}/download`,
+      }));
+      localInvoices.push(...creditNotes);
+
       // Get wallet to find Stripe customer ID
       const wallet = await dbStorage.getWallet(auth0UserId);
       if (!wallet?.stripeCustomerId) {
-        return res.json({ invoices: [] });
+        return res.json({
+          invoices: localInvoices.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()),
+        });
       }
 
-      // Fetch invoices directly from Stripe
+      // Fetch top-up invoices directly from Stripe
       const stripe = await getUncachableStripeClient();
       const stripeInvoices = await stripe.invoices.list({
         customer: wallet.stripeCustomerId,
@@ -6377,16 +9092,21 @@ export async function registerRoutes(
 
       // Transform Stripe invoices to our format
       // Use inv.total for the amount since amount_paid can be 0 for out-of-band payments
-      const invoices = stripeInvoices.data.map(inv => ({
+      const topupInvoices = stripeInvoices.data.map(inv => ({
         id: inv.id,
         invoiceNumber: inv.number || inv.id,
         amountCents: inv.total || inv.amount_due || inv.amount_paid || 0,
         description: inv.description || 'Wallet Top-up',
         status: inv.status || 'paid',
         createdAt: new Date(inv.created * 1000).toISOString(),
+        periodStart: null,
+        periodEnd: null,
         pdfUrl: inv.invoice_pdf,
       }));
 
+      const invoices = [...localInvoices, ...topupInvoices]
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
       res.json({ invoices });
     } catch (error: any) {
       log(`Error fetching invoices from Stripe: ${error.message}`, 'api');
@@ -6394,7 +9114,7 @@ export async function registerRoutes(
     }
   });
 
-  // Download invoice PDF from Stripe (authenticated)
+  // Download an invoice PDF (authenticated): our own invoices by number ID, top-ups from Stripe
   app.get('/api/billing/invoices/:id/download', authMiddleware, async (req, res) => {
     try {
       const auth0UserId = req.userSession!.auth0UserId;
@@ -6403,6 +9123,18 @@ export async function registerRoutes(
       }
 
       const invoiceId = req.params.id;
+      if (/^\d+$/.test(invoiceId)) {
+        const invoice = await dbStorage.getInvoiceById(parseInt(invoiceId, 10));
+        if (!invoice || invoice.auth0UserId !== auth0UserId) {
+          return res.status(404).json({ error: 'Invoice not found' });
+        }
+
+        const pdf = await renderInvoicePDF(invoice);
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoiceNumber}.pdf"`);
+        return res.send(pdf);
+      }
+
       if (!invoiceId || !invoiceId.startsWith('in_')) {
         return res.status(400).json({ error: 'Invalid invoice ID' });
       }
@@ -6429,11 +9161,96 @@ export async function registerRoutes(
 
       res.status(404).json({ error: 'Invoice PDF not available' });
     } catch (error: any) {
-      log(`Error downloading invoice from Stripe: ${error.message}`, 'api');
+      log(`Error downloading invoice ${req.params.id}: ${error.message}`, 'api');
       res.status(500).json({ error: 'Failed to download invoice' });
     }
   });
 
+  // Download a credit note PDF (authenticated)
+  app.get('/api/billing/credit-notes/:id/download', authMiddleware, async (req, res) => {
+    try {
+      const auth0UserId = req.userSession!.auth0UserId;
+      if (!auth0UserId) {
+        return res.status(400).json({ error: 'No Auth0 user ID in session' });
+      }
+
+      const creditNoteId = parseInt(req.params.id, 10);
+      if (isNaN(creditNoteId)) {
+        return res.status(400).json({ error: 'Invalid credit note ID' });
+      }
+
+      const creditNote = await dbStorage.getCreditNoteById(creditNoteId);
+      if (!creditNote || creditNote.auth0UserId !== auth0UserId || creditNote.status !== 'issued') {
+        return res.status(404).json({ error: 'Credit note not found' });
+      }
+
+      const pdf = await renderCreditNotePDF(creditNote);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${creditNote.creditNoteNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error: any) {
+      log(`Error downloading credit note ${req.params.id}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to download credit note' });
+    }
+  });
+
+  // List monthly account statements (authenticated)
+  app.get('/api/billing/statements', authMiddleware, async (req, res) => {
+    try {
+      const auth0UserId = req.userSession!.auth0UserId;
+      if (!auth0UserId) {
+        return res.status(400).json({ error: 'No Auth0 user ID in session' });
+      }
+
+      const statements = await dbStorage.getAccountStatementsByUser(auth0UserId);
+      res.json({
+        statements: statements.map(statement => ({
+          id: statement.id,
+          period: statement.period,
+          periodStart: statement.periodStart.toISOString(),
+          periodEnd: statement.periodEnd.toISOString(),
+          openingBalanceCents: statement.openingBalanceCents,
+          closingBalanceCents: statement.closingBalanceCents,
+          creditsCents: statement.creditsCents,
+          debitsCents: statement.debitsCents,
+          createdAt: statement.createdAt.toISOString(),
+          pdfUrl: `/api/billing/statements/${statement.id}/download`,
+        })),
+      });
+    } catch (error: any) {
+      log(`Error fetching statements: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to fetch statements' });
+    }
+  });
+
+  // Download a monthly account statement PDF (authenticated)
+  app.get('/api/billing/statements/:id/download', authMiddleware, async (req, res) => {
+    try {
+      const auth0UserId = req.userSession!.auth0UserId;
+      if (!auth0UserId) {
+        return res.status(400).json({ error: 'No Auth0 user ID in session' });
+      }
+
+      const statementId = parseInt(req.params.id, 10);
+      if (isNaN(statementId)) {
+        return res.status(400).json({ error: 'Invalid statement ID' });
+      }
+
+      const statement = await dbStorage.getAccountStatementById(statementId);
+      if (!statement || statement.auth0UserId !== auth0UserId) {
+        return res.status(404).json({ error: 'Statement not found' });
+      }
+
+      const pdf = await renderStatementPDF(statement);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${statementFilename(statement)}"`);
+      res.send(pdf);
+    } catch (error: any) {
+      log(`Error downloading statement ${req.params.id}: ${error.message}`, 'api');
+      res.status(500).json({ error: 'Failed to download statement' });
+    }
+  });
+
   // Get auto top-up settings (authenticated)
   app.get('/api/billing/auto-topup', authMiddleware, async (req, res) => {
     try {
@@ -7057,6 +9874,12 @@ export async function registerRoutes(
     hostname: z.string().min(1).max(253).regex(hostnameRegex).optional(),
     locationCode: z.string().optional(),
     promoCode: z.string().max(20).optional(),
+    sshKeyIds: z.array(z.number().int().positive()).max(10, 'You can select up to 10 SSH keys').optional(),
+    userData: z.string().max(65536, 'User-data script must be 64 KB or less').optional(),
+    billingCycle: z.enum(BILLING_CYCLES).optional(),
+    termMonths: z.number().int()
+      .refine((months): months is BillingTermMonths => (BILLING_TERMS as readonly number[]).includes(months), 'Invalid billing term')
+      .optional(),
   });
 
   app.post('/api/deploy', authMiddleware, requireEmailVerified, deploymentRateLimiter, async (req, res) => {
@@ -7086,14 +9909,14 @@ export async function registerRoutes(
         return res.status(400).json({ error: `Invalid deploy request: ${errorMessages}` });
       }
 
-      const { planId, osId, hostname, locationCode, promoCode } = result.data;
+      const { planId, osId, hostname, locationCode, promoCode, sshKeyIds, billingCycle = 'monthly' } = result.data;
+      const termMonths: BillingTermMonths = result.data.termMonths ?? 1;
 
-      // Get hypervisor GROUP from location (default to Brisbane)
-      const location = LOCATION_CONFIG[locationCode || 'BNE'];
-      if (!location || !location.enabled) {
-        return res.status(400).json({ error: 'Invalid or unavailable location' });
+      const userDataResult = normalizeUserData(result.data.userData);
+      if (!userDataResult.ok) {
+        return res.status(400).json({ error: userDataResult.error });
       }
-      const hypervisorGroupId = location.hypervisorGroupId;
+      const userData = userDataResult.value;
 
       // Get plan details
       const plan = await dbStorage.getPlanById(planId);
@@ -7101,12 +9924,38 @@ export async function registerRoutes(
         return res.status(404).json({ error: 'Plan not found or inactive' });
       }
 
+      // Get hypervisor GROUP from location (default to Brisbane)
+      const location = await dbStorage.getLocationByCode(locationCode || 'BNE');
+      if (!location) {
+        return res.status(400).json({ error: 'Invalid location selected' });
+      }
+      const locationCheck = checkLocationDeployable(location, plan.id);
+      if (!locationCheck.ok) {
+        return res.status(400).json({ error: locationCheck.error });
+      }
+      const hypervisorGroupId = location.hypervisorGroupId;
+
       if (!plan.virtfusionPackageId) {
         return res.status(400).json({ error: 'Plan not configured for deployment' });
       }
 
+      // Hourly servers are metered from the first hour instead of paying the first month up front
+      if (billingCycle === 'hourly' && promoCode) {
+        return res.status(400).json({ error: 'Promo codes apply to monthly billing only' });
+      }
+      if (billingCycle === 'hourly' && termMonths > 1) {
+        return res.status(400).json({ error: 'Hourly servers are billed as they run and can\'t be prepaid' });
+      }
+      // The prepay discount replaces a promo rather than stacking with it
+      if (termMonths > 1 && promoCode) {
+        return res.status(400).json({ error: 'Promo codes apply to monthly billing only' });
+      }
+
+      // Longer terms are paid up front at the discount currently set by the admin
+      const termDiscountPercent = billingTermDiscountPercent(await dbStorage.getBillingTermSettings(), termMonths);
+
       // Validate promo code if provided
-      let finalPriceCents = plan.priceMonthly;
+      let finalPriceCents = billingCycle === 'hourly' ? 0 : termPriceCents(plan.priceMonthly, termMonths, termDiscountPercent);
       let promoValidation: {
         valid: boolean;
         promoCode?: { id: number; code: string };
@@ -7153,6 +10002,33 @@ export async function registerRoutes(
         }
       }
 
+      // SSH keys are injected at build time, so they need an OS to be installed with
+      if (sshKeyIds && sshKeyIds.length > 0 && !osId) {
+        return res.status(400).json({ error: 'Select an operating system to install SSH keys' });
+      }
+      if (userData && !osId) {
+        return res.status(400).json({ error: 'Select an operating system to run a user-data script' });
+      }
+
+      // Resolve SSH keys before any money moves so a bad selection can't leave a paid order behind
+      const sshKeyResult = await resolveVirtFusionSshKeyIds(dbStorage, virtfusionClient, {
+        auth0UserId,
+        virtFusionUserId,
+        keyIds: sshKeyIds || [],
+      });
+      if (!sshKeyResult.ok) {
+        return res.status(400).json({ error: sshKeyResult.error });
+      }
+
+      // Refuse now if no hypervisor in the location can take the plan, instead of failing inside VirtFusion
+      const placement = await findPlacement(hypervisorGroupId, plan, virtFusionUserId);
+      if (!placement.ok) {
+        return res.status(409).json({
+          error: `${location.name} is full right now. Please choose another location or try again later.`,
+          code: 'LOCATION_FULL',
+        });
+      }
+
       // Atomically increment promo usage BEFORE wallet debit to close the race window.
       // If two concurrent requests both validated the same promo, the DB-level check in
       // incrementPromoCodeUsage (currentUses < maxUsesTotal) will reject the second one.
@@ -7168,142 +10044,85 @@ export async function registerRoutes(
 
       // Debit wallet and create order atomically
       // Use provided hostname or generate a default one
+      // The order keeps everything provisioning needs so a retry or resume doesn't depend on this request
       const serverHostname = hostname || `vps-${Date.now().toString(36)}`;
+      const appliedPromo = promoValidation?.valid && promoValidation.promoCode ? promoValidation : undefined;
       const deployResult = await dbStorage.createDeployWithDebit(
         auth0UserId,
         planId,
         finalPriceCents, // Use discounted price if promo applied
         serverHostname,
-        plan.name
+        plan.name,
+        userData,
+        {
+          locationCode: location.code,
+          virtfusionUserId: virtFusionUserId,
+          osId: osId ?? null, // If undefined, server is created without OS (awaiting setup)
+          osName: selectedTemplate?.name ?? null,
+          hypervisorGroupId,
+          sshKeyIds: sshKeyResult.virtfusionKeyIds,
+          promoCodeId: appliedPromo?.promoCode?.id ?? null,
+          promoDiscountCents: appliedPromo?.discountCents ?? null,
+          billingCycle,
+          termMonths,
+          termDiscountPercent,
+        },
+        billingCycle === 'hourly' ? hourlyMinimumBalanceCents(plan.priceMonthly) : finalPriceCents
       );
 
       if (!deployResult.success || !deployResult.order) {
         // Wallet debit failed — roll back the promo increment so user can retry
-        if (promoValidation?.valid && promoValidation.promoCode) {
-          dbStorage.decrementPromoCodeUsage(promoValidation.promoCode.id).catch(() => {});
+        if (appliedPromo?.promoCode) {
+          dbStorage.decrementPromoCodeUsage(appliedPromo.promoCode.id).catch(() => {});
         }
         return res.status(400).json({ error: deployResult.error || 'Failed to create deploy order' });
       }
 
       const order = deployResult.order;
 
-      // Update order to provisioning status
-      await dbStorage.updateDeployOrder(order.id, { status: 'provisioning' });
+      if (sshKeyResult.keys.length > 0) {
+        dbStorage.markSshKeysUsed(sshKeyResult.keys.map((key) => key.id)).catch(() => {});
+      }
 
-      // Provision server via VirtFusion
-      let serverResult: { serverId: number; name: string; uuid?: string; password?: string; primaryIp?: string; osName?: string };
-      try {
-        serverResult = await virtfusionClient.provisionServer({
-          userId: virtFusionUserId,
-          packageId: plan.virtfusionPackageId,
-          hostname: serverHostname,
-          extRelationId,
-          osId, // Optional - if undefined, server is created without OS (awaiting setup)
-          hypervisorGroupId,
-        });
+      // First attempt runs here. A failed step is retried in the background with backoff,
+      // and the charge and promo use are reversed if the order runs out of attempts.
+      const provisioned = await runDeployOrder(order.id) ?? order;
 
-        log(`Server ${serverResult.serverId} provisioned successfully for order ${order.id}`, 'api');
-
-        // Email credentials if password and IP were returned
-        if (serverResult.password && serverResult.primaryIp && req.userSession?.email) {
-          const emailServerName = serverResult.name || serverHostname || `Server #${serverResult.serverId}`;
-          log(`Sending credentials email to ${req.userSession!.email} for server ${emailServerName}`, 'api');
-          sendServerCredentialsEmail(
-            req.userSession!.email,
-            emailServerName,
-            serverResult.primaryIp,
-            'root',
-            serverResult.password,
-            selectedTemplate?.name || 'Linux'
-          ).then(result => {
-            if (result.success) {
-              log(`Credentials email sent successfully for server ${serverResult.serverId}`, 'api');
-            } else {
-              log(`Failed to send credentials email for server ${serverResult.serverId}: ${result.error}`, 'api');
-            }
-          }).catch(err => {
-            log(`Error sending credentials email for server ${serverResult.serverId}: ${err.message}`, 'api');
-          });
-        } else {
-          log(`Skipping credentials email - password: ${!!serverResult.password}, IP: ${!!serverResult.primaryIp}, email: ${!!req.userSession?.email}`, 'api');
-        }
-      } catch (provisionError: any) {
-        log(`Provisioning failed for order ${order.id}: ${provisionError.message}`, 'api');
-
-        // Refund the wallet - server was never created
-        // Use finalPriceCents (not plan.priceMonthly) to refund exactly what was charged,
-        // which may be less if a promo code was applied.
-        await dbStorage.refundToWallet(auth0UserId, finalPriceCents, {
-          reason: 'provisioning_failed',
+      await auditUserAction(
+        req,
+        auth0UserId,
+        req.userSession!.email,
+        UserActions.SERVER_CREATE,
+        provisioned.virtfusionServerId ? 'server' : 'deploy_order',
+        provisioned.virtfusionServerId ? provisioned.virtfusionServerId.toString() : order.id.toString(),
+        {
+          planId,
+          hostname: req.body.hostname,
           orderId: order.id,
-        });
-
-        // Roll back promo increment so user can retry
-        if (promoValidation?.valid && promoValidation.promoCode) {
-          dbStorage.decrementPromoCodeUsage(promoValidation.promoCode.id).catch(() => {});
+          status: provisioned.status,
+          sshKeys: sshKeyResult.keys.map((key) => ({ name: key.name, fingerprint: key.fingerprint })),
+          userData: !!userData,
+          billingCycle,
+          ...(termMonths > 1 && { termMonths, termDiscountPercent }),
         }
+      );
 
-        await dbStorage.updateDeployOrder(order.id, {
-          status: 'failed',
-          errorMessage: provisionError.message,
-        });
-
-        return res.status(500).json({ error: 'Server provisioning failed. Your wallet has been refunded.' });
-      }
-
-      // Server was created successfully - DO NOT REFUND FROM THIS POINT FORWARD
-      // Update order with server ID (non-critical, log if it fails)
-      try {
-        await dbStorage.updateDeployOrder(order.id, {
-          status: 'active',
-          virtfusionServerId: serverResult.serverId,
-        });
-      } catch (updateError: any) {
-        log(`Warning: Could not update order ${order.id} with server ID: ${updateError.message}`, 'api');
-      }
-
-      // Create billing record for the new server (non-critical, log if it fails)
-      try {
-        await createServerBilling({
-          auth0UserId,
-          virtfusionServerId: serverResult.serverId.toString(),
-          virtfusionServerUuid: serverResult.uuid, // Immutable UUID for reliable lookups
-          planId,
-          monthlyPriceCents: plan.priceMonthly,
+      if (provisioned.status === 'active') {
+        return res.json({
+          success: true,
+          orderId: order.id,
+          serverId: provisioned.virtfusionServerId,
+          status: provisioned.status,
         });
-      } catch (billingError: any) {
-        log(`Warning: Could not create billing record for server ${serverResult.serverId}: ${billingError.message}`, 'api');
-      }
-
-      // Record promo code usage details (increment already done before provisioning)
-      if (promoValidation?.valid && promoValidation.promoCode) {
-        try {
-          await dbStorage.recordPromoCodeUsage({
-            promoCodeId: promoValidation.promoCode.id,
-            auth0UserId,
-            deployOrderId: order.id,
-            discountAppliedCents: promoValidation.discountCents!,
-            originalPriceCents: plan.priceMonthly,
-            finalPriceCents: finalPriceCents,
-          });
-          log(`Promo code ${promoValidation.promoCode.code} usage recorded for order ${order.id}`, 'api');
-        } catch (promoError: any) {
-          log(`Warning: Could not record promo code usage details: ${promoError.message}`, 'api');
-        }
       }
 
-      // Audit log server creation
-      await auditUserAction(req, auth0UserId, req.userSession!.email, UserActions.SERVER_CREATE, 'server', serverResult.serverId.toString(), {
-        planId,
-        hostname: req.body.hostname,
-        orderId: order.id,
-      });
-
-      // Always return success if server was provisioned
-      res.json({
+      // Accepted but not finished - the client follows the order instead of the server
+      res.status(202).json({
         success: true,
         orderId: order.id,
-        serverId: serverResult.serverId,
+        serverId: provisioned.virtfusionServerId,
+        status: provisioned.status,
+        step: provisioned.step,
       });
     } catch (error: any) {
       log(`Deploy error: ${error.message}`, 'api');
@@ -0,0 +1,136 @@
+import type { Project, ServerLabels } from "@shared/schema";
+
+export const MAX_TAGS_PER_SERVER = 20;
+export const MAX_PROJECTS_PER_USER = 50;
+const MAX_TAG_LENGTH = 32;
+
+const TAG_PATTERN = /^[a-z0-9][a-z0-9._:-]*$/;
+
+export interface ServerFilter {
+  tags: string[];
+  // A project ID, "none" for servers without a project, or undefined for any
+  project?: number | "none";
+}
+
+export interface ProjectSubtotal {
+  projectId: number | null;
+  projectName: string;
+  serverCount: number;
+  monthlyPriceCents: number;
+}
+
+/**
+ * Tags are case-insensitive and limited to a small character set so they
+ * survive being passed around as query parameters (e.g. ?tag=env:prod).
+ */
+export function normalizeTag(input: string): { ok: true; value: string } | { ok: false; error: string } {
+  const tag = input.trim().toLowerCase();
+  if (!tag) {
+    return { ok: false, error: "Tags can't be empty." };
+  }
+  if (tag.length > MAX_TAG_LENGTH) {
+    return { ok: false, error: `Tags must be ${MAX_TAG_LENGTH} characters or less.` };
+  }
+  if (!TAG_PATTERN.test(tag)) {
+    return { ok: false, error: `"${input.trim()}" isn't a valid tag. Use letters, numbers, and . _ : -` };
+  }
+  return { ok: true, value: tag };
+}
+
+export function normalizeTags(input: string[]): { ok: true; tags: string[] } | { ok: false; error: string } {
+  const tags: string[] = [];
+  for (const raw of input) {
+    const normalized = normalizeTag(raw);
+    if (!normalized.ok) return normalized;
+    if (!tags.includes(normalized.value)) {
+      tags.push(normalized.value);
+    }
+  }
+
+  if (tags.length > MAX_TAGS_PER_SERVER) {
+    return { ok: false, error: `A server can have at most ${MAX_TAGS_PER_SERVER} tags.` };
+  }
+
+  return { ok: true, tags: tags.sort() };
+}
+
+// Accepts ?tag=a&tag=b, ?tags=a,b and ?project=12 or ?project=none
+export function parseServerFilter(query: Record<string, unknown>): { ok: true; filter: ServerFilter } | { ok: false; error: string } {
+  const raw = [query.tag, query.tags]
+    .flat()
+    .filter((value): value is string => typeof value === "string")
+    .flatMap((value) => value.split(","))
+    .filter((value) => value.trim());
+
+  const tags: string[] = [];
+  for (const value of raw) {
+    const normalized = normalizeTag(value);
+    if (!normalized.ok) return normalized;
+    if (!tags.includes(normalized.value)) tags.push(normalized.value);
+  }
+
+  const filter: ServerFilter = { tags };
+  if (typeof query.project === "string" && query.project) {
+    if (query.project === "none") {
+      filter.project = "none";
+    } else {
+      const projectId = Number.parseInt(query.project, 10);
+      if (!Number.isFinite(projectId) || String(projectId) !== query.project) {
+        return { ok: false, error: "Invalid project filter." };
+      }
+      filter.project = projectId;
+    }
+  }
+
+  return { ok: true, filter };
+}
+
+// A server matches when it has every requested tag and sits in the requested project
+export function matchesServerFilter(labels: Pick<ServerLabels, "tags" | "projectId"> | undefined, filter: ServerFilter): boolean {
+  const tags = labels?.tags ?? [];
+  const projectId = labels?.projectId ?? null;
+
+  if (!filter.tags.every((tag) => tags.includes(tag))) return false;
+  if (filter.project === "none") return projectId === null;
+  if (filter.project !== undefined) return projectId === filter.project;
+  return true;
+}
+
+/**
+ * Group monthly charges by project so hosting can be charged back to
+ * internal teams. Servers without a project land in a trailing
+ * "Unassigned" group; complimentary servers count towards the server
+ * total but not the amount.
+ */
+export function subtotalByProject(
+  charges: Array<{ projectId: number | null; monthlyPriceCents: number; freeServer?: boolean | null }>,
+  projectList: Pick<Project, "id" | "name">[],
+): ProjectSubtotal[] {
+  const names = new Map(projectList.map((project) => [project.id, project.name]));
+  const subtotals = new Map<number | null, ProjectSubtotal>();
+
+  for (const charge of charges) {
+    // Charges pointing at a deleted project are treated as unassigned
+    const projectId = charge.projectId !== null && names.has(charge.projectId) ? charge.projectId : null;
+    let subtotal = subtotals.get(projectId);
+    if (!subtotal) {
+      subtotal = {
+        projectId,
+        projectName: projectId === null ? "Unassigned" : names.get(projectId)!,
+        serverCount: 0,
+        monthlyPriceCents: 0,
+      };
+      subtotals.set(projectId, subtotal);
+    }
+    subtotal.serverCount++;
+    if (!charge.freeServer) {
+      subtotal.monthlyPriceCents += charge.monthlyPriceCents;
+    }
+  }
+
+  return Array.from(subtotals.values()).sort((a, b) => {
+    if (a.projectId === null) return 1;
+    if (b.projectId === null) return -1;
+    return a.projectName.localeCompare(b.projectName);
+  });
+}
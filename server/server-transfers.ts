@@ -0,0 +1,31 @@
+import type { ServerBilling, ServerOwnershipTransfer } from "@shared/schema";
+
+// How long the recipient has to accept before the offer lapses
+export const SERVER_TRANSFER_OFFER_DAYS = 7;
+
+export function checkServerTransferEligibility(
+  billing: Pick<ServerBilling, "status" | "freeServer" | "isTrial" | "adminSuspended" | "nextBillAt"> | null | undefined,
+  now: Date = new Date(),
+): { ok: true } | { ok: false; error: string } {
+  if (!billing) {
+    return { ok: false, error: "This server has no billing record. Please contact support to transfer it." };
+  }
+  if (billing.isTrial) {
+    return { ok: false, error: "Trial servers can't be transferred. Convert the trial to a paid server first." };
+  }
+  if (billing.freeServer) {
+    return { ok: false, error: "Complimentary servers can't be transferred. Please contact support." };
+  }
+  if (billing.adminSuspended || billing.status === "suspended" || billing.status === "unpaid" || billing.nextBillAt <= now) {
+    return { ok: false, error: "Settle any outstanding balance on this server before transferring it." };
+  }
+  if (billing.status !== "active" && billing.status !== "paid") {
+    return { ok: false, error: "This server can't be transferred right now." };
+  }
+
+  return { ok: true };
+}
+
+export function isServerTransferOpen(offer: Pick<ServerOwnershipTransfer, "status" | "expiresAt">, now: Date = new Date()): boolean {
+  return offer.status === "pending" && offer.expiresAt > now;
+}
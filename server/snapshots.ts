@@ -0,0 +1,49 @@
+import type { VirtFusionSnapshot } from "./virtfusion";
+
+export const MAX_SNAPSHOT_LIMIT = 20;
+
+export function defaultSnapshotName(now: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `snapshot-${now.getUTCFullYear()}${pad(now.getUTCMonth() + 1)}${pad(now.getUTCDate())}-${pad(now.getUTCHours())}${pad(now.getUTCMinutes())}`;
+}
+
+function snapshotTime(snapshot: VirtFusionSnapshot): number {
+  const time = snapshot.createdAt ? Date.parse(snapshot.createdAt) : NaN;
+  // Fall back to id order when VirtFusion doesn't report a timestamp
+  return Number.isNaN(time) ? snapshot.id : time;
+}
+
+/**
+ * Decide whether a new snapshot can be taken under the plan's retention
+ * limit. When the server is at its limit the caller can opt in to rotating
+ * out the oldest completed snapshots; otherwise the request is refused.
+ */
+export function planSnapshotCreate(
+  existing: VirtFusionSnapshot[],
+  limit: number,
+  options: { replaceOldest?: boolean } = {},
+): { ok: true; deleteIds: number[] } | { ok: false; error: string; code: "DISABLED" | "IN_PROGRESS" | "LIMIT_REACHED" } {
+  if (limit <= 0) {
+    return { ok: false, error: "Snapshots are not available on this plan.", code: "DISABLED" };
+  }
+
+  if (existing.some((snapshot) => snapshot.status === "pending")) {
+    return { ok: false, error: "A snapshot is already in progress. Please wait for it to finish.", code: "IN_PROGRESS" };
+  }
+
+  const overBy = existing.length - limit + 1;
+  if (overBy <= 0) {
+    return { ok: true, deleteIds: [] };
+  }
+
+  if (!options.replaceOldest) {
+    return {
+      ok: false,
+      error: `This plan keeps up to ${limit} snapshot${limit === 1 ? "" : "s"}. Delete one or replace the oldest.`,
+      code: "LIMIT_REACHED",
+    };
+  }
+
+  const oldest = [...existing].sort((a, b) => snapshotTime(a) - snapshotTime(b)).slice(0, overBy);
+  return { ok: true, deleteIds: oldest.map((snapshot) => snapshot.id) };
+}
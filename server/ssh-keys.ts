@@ -0,0 +1,156 @@
+import crypto from "crypto";
+import type { SshKey } from "@shared/schema";
+
+export const MAX_SSH_KEYS_PER_USER = 25;
+export const MAX_SSH_KEYS_PER_BUILD = 10;
+const MIN_RSA_KEY_BITS = 2048;
+
+const SUPPORTED_KEY_TYPES = [
+  "ssh-ed25519",
+  "ssh-rsa",
+  "ecdsa-sha2-nistp256",
+  "ecdsa-sha2-nistp384",
+  "ecdsa-sha2-nistp521",
+  "sk-ssh-ed25519@openssh.com",
+  "sk-ecdsa-sha2-nistp256@openssh.com",
+] as const;
+
+export type SshKeyType = typeof SUPPORTED_KEY_TYPES[number];
+
+export interface SshKeyStore {
+  getSshKeysByIds(auth0UserId: string, ids: number[]): Promise<SshKey[]>;
+  setSshKeyVirtFusionId(id: number, virtfusionKeyId: number): Promise<SshKey | undefined>;
+}
+
+export interface SshKeyVirtFusionClient {
+  createSshKey(userId: number, name: string, publicKey: string): Promise<{ id: number }>;
+}
+
+// Reads a length-prefixed field from an OpenSSH wire-format key blob
+function readField(blob: Buffer, offset: number): { value: Buffer; next: number } | null {
+  if (offset + 4 > blob.length) {
+    return null;
+  }
+  const length = blob.readUInt32BE(offset);
+  const start = offset + 4;
+  if (start + length > blob.length) {
+    return null;
+  }
+  return { value: blob.subarray(start, start + length), next: start + length };
+}
+
+function getRsaModulusBits(blob: Buffer, offset: number): number | null {
+  const exponent = readField(blob, offset);
+  if (!exponent) return null;
+  const modulus = readField(blob, exponent.next);
+  if (!modulus) return null;
+
+  // mpint values carry a leading zero byte when the high bit is set
+  let bytes = modulus.value;
+  while (bytes.length > 0 && bytes[0] === 0) {
+    bytes = bytes.subarray(1);
+  }
+  if (bytes.length === 0) return 0;
+  return (bytes.length - 1) * 8 + (32 - Math.clz32(bytes[0]));
+}
+
+export function fingerprintSshKeyBlob(blob: Buffer): string {
+  const digest = crypto.createHash("sha256").update(blob).digest("base64").replace(/=+$/, "");
+  return `SHA256:${digest}`;
+}
+
+export function parseSshPublicKey(input: string):
+  | { ok: true; value: { type: SshKeyType; publicKey: string; comment: string | null; fingerprint: string } }
+  | { ok: false; error: string } {
+  const trimmed = typeof input === "string" ? input.trim() : "";
+  if (!trimmed) {
+    return { ok: false, error: "Public key is required." };
+  }
+  if (trimmed.length > 16384) {
+    return { ok: false, error: "Public key is too long." };
+  }
+  if (/-----BEGIN/.test(trimmed)) {
+    return { ok: false, error: "That looks like a private key. Paste the contents of your .pub file instead." };
+  }
+  if (/[\r\n]/.test(trimmed)) {
+    return { ok: false, error: "Public key must be on a single line." };
+  }
+
+  const [type, encoded, ...commentParts] = trimmed.split(/\s+/);
+  if (!SUPPORTED_KEY_TYPES.includes(type as SshKeyType)) {
+    return { ok: false, error: "Unsupported key type. Use an ed25519, ECDSA or RSA public key." };
+  }
+  if (!encoded || !/^[A-Za-z0-9+/]+={0,2}$/.test(encoded)) {
+    return { ok: false, error: "Public key data is not valid base64." };
+  }
+
+  const blob = Buffer.from(encoded, "base64");
+  const embeddedType = readField(blob, 0);
+  if (!embeddedType || embeddedType.value.toString("utf8") !== type) {
+    return { ok: false, error: "Public key data does not match its key type." };
+  }
+
+  if (type === "ssh-rsa") {
+    const bits = getRsaModulusBits(blob, embeddedType.next);
+    if (bits === null) {
+      return { ok: false, error: "Public key data is incomplete." };
+    }
+    if (bits < MIN_RSA_KEY_BITS) {
+      return { ok: false, error: `RSA keys must be at least ${MIN_RSA_KEY_BITS} bits.` };
+    }
+  }
+
+  const comment = commentParts.join(" ").slice(0, 200) || null;
+
+  return {
+    ok: true,
+    value: {
+      type: type as SshKeyType,
+      publicKey: comment ? `${type} ${encoded} ${comment}` : `${type} ${encoded}`,
+      comment,
+      fingerprint: fingerprintSshKeyBlob(blob),
+    },
+  };
+}
+
+/**
+ * Resolve the user's selected library keys to VirtFusion SSH key ids for a
+ * build. Keys are registered with VirtFusion the first time they are used and
+ * the returned id is cached on the row for later builds.
+ */
+export async function resolveVirtFusionSshKeyIds(
+  store: SshKeyStore,
+  vf: SshKeyVirtFusionClient,
+  options: {
+    auth0UserId: string;
+    virtFusionUserId: number;
+    keyIds: number[];
+  },
+): Promise<{ ok: true; virtfusionKeyIds: number[]; keys: SshKey[] } | { ok: false; error: string }> {
+  const uniqueIds = Array.from(new Set(options.keyIds));
+  if (uniqueIds.length === 0) {
+    return { ok: true, virtfusionKeyIds: [], keys: [] };
+  }
+  if (uniqueIds.length > MAX_SSH_KEYS_PER_BUILD) {
+    return { ok: false, error: `You can select up to ${MAX_SSH_KEYS_PER_BUILD} SSH keys.` };
+  }
+
+  const keys = await store.getSshKeysByIds(options.auth0UserId, uniqueIds);
+  if (keys.length !== uniqueIds.length) {
+    return { ok: false, error: "One or more selected SSH keys were not found." };
+  }
+
+  const virtfusionKeyIds: number[] = [];
+  for (const key of keys) {
+    if (key.virtfusionKeyId) {
+      virtfusionKeyIds.push(key.virtfusionKeyId);
+      continue;
+    }
+
+    const created = await vf.createSshKey(options.virtFusionUserId, key.name, key.publicKey);
+    await store.setSshKeyVirtFusionId(key.id, created.id);
+    virtfusionKeyIds.push(created.id);
+  }
+
+  return { ok: true, virtfusionKeyIds, keys };
+}
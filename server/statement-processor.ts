@@ -0,0 +1,216 @@
+import { eq } from "drizzle-orm";
+import { db } from "./db";
+import { dbStorage } from "./storage";
+import { log } from './log';
+import { sendAccountStatementEmail } from "./email";
+import { generateStatementPDF } from "./invoice-generator";
+import {
+  previousStatementPeriod,
+  statementEntryCategory,
+  statementEntryDescription,
+  statementPeriodLabel,
+  statementTotals,
+  type StatementPeriod,
+} from "./statements";
+import { userMappings, type AccountStatement, type Wallet } from "../shared/schema";
+import {
+  markProcessorFailed,
+  markProcessorStarted,
+  markProcessorSucceeded,
+  scheduleProcessorRun,
+} from "./processor-health";
+
+// Statements for the month just ended go out on the first run after midnight UTC on the 1st;
+// later runs pick up any account that was missed or whose email failed, until every account
+// has been handled
+const PROCESSING_INTERVAL_MS = 60 * 60 * 1000;
+const STATEMENT_PROCESSOR = "account-statements";
+
+let isRunning = false;
+// The period whose statements have all been issued and emailed. Later runs that month
+// return straight away instead of re-checking every wallet.
+let completedPeriod: string | null = null;
+
+type StatementRunResult = {
+  period: string;
+  accounts: number;
+  issued: number;
+  emailed: number;
+  pending: number;
+  errors: number;
+};
+
+async function getCustomer(auth0UserId: string): Promise<{ email: string; name: string | null } | null> {
+  const [mapping] = await db.select().from(userMappings).where(eq(userMappings.auth0UserId, auth0UserId));
+  return mapping ? { email: mapping.email, name: mapping.name } : null;
+}
+
+function formatDollars(cents: number): string {
+  return `${cents < 0 ? '-' : ''}$${(Math.abs(cents) / 100).toFixed(2)}`;
+}
+
+export function statementFilename(statement: AccountStatement): string {
+  return `OzVPS-statement-${statement.period}.pdf`;
+}
+
+// Rebuild a statement's PDF from the wallet transactions and ledger charges in its period
+export async function renderStatementPDF(statement: AccountStatement): Promise<Buffer> {
+  const [customer, transactions, charges] = await Promise.all([
+    getCustomer(statement.auth0UserId),
+    dbStorage.getWalletTransactionsSince(statement.auth0UserId, statement.periodStart),
+    dbStorage.getLedgerChargesBetween(statement.auth0UserId, statement.periodStart, statement.periodEnd),
+  ]);
+
+  let balanceCents = statement.openingBalanceCents;
+  const entries = transactions
+    .filter(transaction => transaction.createdAt < statement.periodEnd && transaction.amountCents !== 0)
+    .map(transaction => {
+      balanceCents += transaction.amountCents;
+      return {
+        date: transaction.createdAt,
+        category: statementEntryCategory(transaction.type, transaction.amountCents),
+        description: statementEntryDescription(transaction),
+        amountCents: transaction.amountCents,
+        balanceCents,
+      };
+    });
+
+  return generateStatementPDF(
+    statement,
+    customer ?? { email: '', name: null },
+    entries,
+    charges.map(charge => ({ ...charge, date: charge.createdAt })),
+  );
+}
+
+// Issue the account's statement for the period unless it already has one. Accounts with
+// no balance and no activity are skipped.
+async function issueStatement(wallet: Wallet, period: StatementPeriod): Promise<AccountStatement | null> {
+  const existing = await dbStorage.getAccountStatement(wallet.auth0UserId, period.period);
+  if (existing) return existing;
+
+  const transactions = await dbStorage.getWalletTransactionsSince(wallet.auth0UserId, period.periodStart);
+  const totals = statementTotals(wallet.balanceCents, transactions, period);
+  const hasActivity = transactions.some(transaction => transaction.createdAt < period.periodEnd && transaction.amountCents !== 0);
+  if (!hasActivity && totals.openingBalanceCents === 0) {
+    return null;
+  }
+
+  return (await dbStorage.createAccountStatement({
+    auth0UserId: wallet.auth0UserId,
+    ...period,
+    ...totals,
+  })) ?? null;
+}
+
+// Customers without a user mapping have no address to send to, so there is nothing to retry
+async function emailStatement(statement: AccountStatement): Promise<'emailed' | 'no-customer' | 'failed'> {
+  const customer = await getCustomer(statement.auth0UserId);
+  if (!customer) return 'no-customer';
+
+  const pdf = await renderStatementPDF(statement);
+  const result = await sendAccountStatementEmail(
+    customer.email,
+    statementPeriodLabel(statement.period),
+    formatDollars(statement.openingBalanceCents),
+    formatDollars(statement.closingBalanceCents),
+    { filename: statementFilename(statement), pdf },
+  );
+  if (!result.success) {
+    log(`Could not email statement ${statement.period} to user ${statement.auth0UserId}: ${result.error}`, 'statements');
+    return 'failed';
+  }
+
+  await dbStorage.markAccountStatementEmailed(statement.id);
+  return 'emailed';
+}
+
+async function processStatements(now: Date = new Date()): Promise<StatementRunResult> {
+  const period = previousStatementPeriod(now);
+  if (completedPeriod === period.period) {
+    return { period: period.period, accounts: 0, issued: 0, emailed: 0, pending: 0, errors: 0 };
+  }
+
+  const wallets = await dbStorage.getActiveWallets();
+  const result: StatementRunResult = {
+    period: period.period,
+    accounts: wallets.length,
+    issued: 0,
+    emailed: 0,
+    pending: 0,
+    errors: 0,
+  };
+
+  for (const wallet of wallets) {
+    try {
+      // Wallets opened after the period ended have nothing to report
+      if (wallet.createdAt >= period.periodEnd) continue;
+
+      const existing = await dbStorage.getAccountStatement(wallet.auth0UserId, period.period);
+      if (existing?.emailedAt) continue;
+
+      const statement = existing ?? await issueStatement(wallet, period);
+      if (!statement) continue;
+      if (!existing) result.issued++;
+
+      const sent = await emailStatement(statement);
+      if (sent === 'emailed') {
+        result.emailed++;
+      } else if (sent === 'failed') {
+        result.pending++;
+      }
+    } catch (error: any) {
+      result.errors++;
+      log(`Error issuing statement ${period.period} for user ${wallet.auth0UserId}: ${error.message}`, 'statements');
+    }
+  }
+
+  // Wallets opened from now on start after the period ended, so nothing is left to do
+  // until next month
+  if (result.pending === 0 && result.errors === 0) {
+    completedPeriod = period.period;
+  }
+
+  return result;
+}
+
+export function startStatementProcessor(): void {
+  if (isRunning) {
+    log('Statement processor already running', 'statements');
+    return;
+  }
+
+  isRunning = true;
+  log('Starting statement processor (checking every hour)', 'statements');
+
+  const runProcessor = async () => {
+    if (!isRunning) return;
+
+    const nextRunAt = new Date(Date.now() + PROCESSING_INTERVAL_MS);
+    const startedAtMs = await markProcessorStarted(STATEMENT_PROCESSOR, { nextRunAt });
+
+    try {
+      const result = await processStatements();
+      if (result.issued > 0 || result.errors > 0) {
+        log(`Statement processor: ${result.period}, ${result.issued} issued, ${result.emailed} emailed, ${result.errors} errors`, 'statements');
+      }
+      await markProcessorSucceeded(STATEMENT_PROCESSOR, startedAtMs, { nextRunAt, lastResult: result });
+    } catch (error: any) {
+      log(`Statement processor error: ${error.message}`, 'statements');
+      await markProcessorFailed(STATEMENT_PROCESSOR, error, startedAtMs, { nextRunAt });
+    }
+
+    if (isRunning) {
+      void scheduleProcessorRun(STATEMENT_PROCESSOR, { nextRunAt });
+      setTimeout(runProcessor, PROCESSING_INTERVAL_MS);
+    }
+  };
+
+  void scheduleProcessorRun(STATEMENT_PROCESSOR, { nextRunAt: new Date() });
+  runProcessor();
+}
+
+export function stopStatementProcessor(): void {
+  isRunning = false;
+  log('Stopping statement processor', 'statements');
+}
@@ -0,0 +1,95 @@
+import type { WalletTransaction } from "../shared/schema";
+
+// Monthly account statements cover a calendar month in UTC, the same clock billing runs on,
+// and are issued once that month is over.
+
+export interface StatementPeriod {
+  period: string; // YYYY-MM
+  periodStart: Date;
+  periodEnd: Date; // exclusive: the first instant of the next month
+}
+
+export type StatementEntryCategory = "Top-up" | "Charge" | "Refund" | "Adjustment";
+
+export interface StatementTotals {
+  openingBalanceCents: number;
+  closingBalanceCents: number;
+  creditsCents: number;
+  debitsCents: number;
+}
+
+// The month before the one `now` falls in
+export function previousStatementPeriod(now: Date): StatementPeriod {
+  const periodEnd = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const periodStart = new Date(Date.UTC(periodEnd.getUTCFullYear(), periodEnd.getUTCMonth() - 1, 1));
+  const period = `${periodStart.getUTCFullYear()}-${String(periodStart.getUTCMonth() + 1).padStart(2, "0")}`;
+  return { period, periodStart, periodEnd };
+}
+
+// "2026-09" -> "September 2026"
+export function statementPeriodLabel(period: string): string {
+  const [year, month] = period.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString("en-AU", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Work back from the wallet's balance now to the balance at the start and end
+ * of the period. Every change to a wallet is recorded as a wallet transaction,
+ * so undoing the ones since the period started gives the opening balance.
+ */
+export function statementTotals(
+  currentBalanceCents: number,
+  transactionsSinceStart: Pick<WalletTransaction, "amountCents" | "createdAt">[],
+  period: Pick<StatementPeriod, "periodStart" | "periodEnd">,
+): StatementTotals {
+  let sinceStartCents = 0;
+  let creditsCents = 0;
+  let debitsCents = 0;
+
+  for (const transaction of transactionsSinceStart) {
+    if (transaction.createdAt < period.periodStart) continue;
+    sinceStartCents += transaction.amountCents;
+    if (transaction.createdAt >= period.periodEnd) continue;
+    if (transaction.amountCents >= 0) {
+      creditsCents += transaction.amountCents;
+    } else {
+      debitsCents -= transaction.amountCents;
+    }
+  }
+
+  const openingBalanceCents = currentBalanceCents - sinceStartCents;
+  return {
+    openingBalanceCents,
+    closingBalanceCents: openingBalanceCents + creditsCents - debitsCents,
+    creditsCents,
+    debitsCents,
+  };
+}
+
+export function statementEntryCategory(type: string, amountCents: number): StatementEntryCategory {
+  if (type === "refund") return "Refund";
+  if (type === "admin_adjustment" || type.startsWith("adjustment_")) return "Adjustment";
+  if (type === "debit" || amountCents < 0) return "Charge";
+  return "Top-up";
+}
+
+// What a wallet transaction was for, in the words the Billing page uses
+export function statementEntryDescription(transaction: Pick<WalletTransaction, "type" | "amountCents" | "metadata">): string {
+  const metadata = (transaction.metadata ?? {}) as Record<string, unknown>;
+  const description = typeof metadata.description === "string" ? metadata.description : null;
+  const reason = typeof metadata.reason === "string" ? metadata.reason : null;
+  const serverName = typeof metadata.serverName === "string" ? metadata.serverName : null;
+
+  const base = description || reason || {
+    "Top-up": metadata.auto_topup || metadata.source === "auto_topup" ? "Auto top-up" : "Wallet top-up",
+    Charge: "Charge",
+    Refund: "Refund",
+    Adjustment: transaction.amountCents >= 0 ? "Credit added" : "Balance deducted",
+  }[statementEntryCategory(transaction.type, transaction.amountCents)];
+
+  return serverName && !base.includes(serverName) ? `${base} - ${serverName}` : base;
+}
@@ -1,10 +1,14 @@
 import { randomBytes } from "crypto";
-import { SessionRevokeReason, plans, wallets, walletTransactions, deployOrders, serverCancellations, serverBilling, securitySettings, adminAuditLogs, invoices, tickets, ticketMessages, twoFactorAuth, trustedTwoFactorDevices, passwordResetTokens, emailVerificationTokens, promoCodes, promoCodeUsage, userFlags as userFlagsTable, loginAttempts, accountLockouts, userAuditLogs, sessions, type Plan, type InsertPlan, type Wallet, type InsertWallet, type WalletTransaction, type InsertWalletTransaction, type DeployOrder, type InsertDeployOrder, type ServerCancellation, type InsertServerCancellation, type ServerBilling, type InsertServerBilling, type SecuritySetting, type AdminAuditLog, type InsertAdminAuditLog, type Invoice, type InsertInvoice, type Ticket, type InsertTicket, type TicketMessage, type InsertTicketMessage, type TicketStatus, type TicketPriority, type TicketCategory, type TwoFactorAuth, type TrustedTwoFactorDevice, type InsertTwoFactorAuth, type PasswordResetToken, type InsertPasswordResetToken, type EmailVerificationToken, type InsertEmailVerificationToken, type PromoCode, type InsertPromoCode, type PromoCodeUsage, type InsertPromoCodeUsage, type LoginAttempt, type AccountLockout, type UserAuditLog } from "@shared/schema";
+import { SessionRevokeReason, plans, wallets, walletTransactions, deployOrders, serverCancellations, serverBilling, billingLedger, securitySettings, adminAuditLogs, invoices, tickets, ticketMessages, twoFactorAuth, trustedTwoFactorDevices, passwordResetTokens, emailVerificationTokens, promoCodes, promoCodeUsage, userFlags as userFlagsTable, loginAttempts, accountLockouts, userAuditLogs, sessions, sshKeys, userDataScripts, serverFirewallRules, firewallRuleSets, apiTokens, type Plan, type InsertPlan, type Wallet, type InsertWallet, type WalletTransaction, type InsertWalletTransaction, type DeployOrder, type InsertDeployOrder, type ServerCancellation, type InsertServerCancellation, type ServerBilling, type InsertServerBilling, type BillingLedger, type SecuritySetting, type AdminAuditLog, type InsertAdminAuditLog, type Invoice, type InsertInvoice, type Ticket, type InsertTicket, type TicketMessage, type InsertTicketMessage, type TicketStatus, type TicketPriority, type TicketCategory, type TwoFactorAuth, type TrustedTwoFactorDevice, type InsertTwoFactorAuth, type PasswordResetToken, type InsertPasswordResetToken, type EmailVerificationToken, type InsertEmailVerificationToken, type PromoCode, type InsertPromoCode, type PromoCodeUsage, type InsertPromoCodeUsage, type LoginAttempt, type AccountLockout, type UserAuditLog, type SshKey, type UserDataScript, type ServerFirewallRule, type FirewallRuleSet, type FirewallRuleInput, type ApiToken, type ApiTokenScope, scheduledPowerActions, type ScheduledPowerActionRecord, type ScheduledPowerAction, scheduledPowerActionRuns, type ScheduledPowerActionRun, projects, type Project, serverLabels, type ServerLabels, serverAlertRules, serverAlertEvents, type ServerAlertRule, type ServerAlertEvent, type ResourceAlertMetric, serverTransferUsage, transferOverageSettingsSchema, type ServerTransferUsage, type TransferOverageSettings, serverMetricSamples, type ServerMetricSample, type InsertServerMetricSample, type MetricResolution, serverOwnershipTransfers, userMappings, type ServerOwnershipTransfer, type InsertServerOwnershipTransfer, type ServerTransferStatus, locations, type ServerLocation, hypervisorDrains, type HypervisorDrain, isoImages, type IsoImage, type InsertIsoImage, serverMedia, type ServerMedia, type BootDevice, serverRescueSessions, type ServerRescueSession, type InsertServerRescueSession, type RescueEndReason, serverAddons, ipAddonSettingsSchema, type ServerAddon, type InsertServerAddon, type IpAddonSettings, billingTermSettingsSchema, type BillingTermSettings, billingProfiles, type BillingProfile, type BillingProfileInput, accountStatements, type AccountStatement, creditNotes, type CreditNote } from "@shared/schema";
 import { log } from './log';
 import { STATIC_PLANS } from "@shared/plans";
 import { db } from "./db";
-import { eq, desc, and, sql, inArray, or, isNull, ne } from "drizzle-orm";
+import { eq, desc, and, sql, inArray, or, isNull, isNotNull, ne, lt, lte, gte } from "drizzle-orm";
 import { hashEmailOtpCode } from "./crypto";
+import { DEFAULT_TRANSFER_OVERAGE_SETTINGS } from "./transfer-quota";
+import { DEFAULT_IP_ADDON_SETTINGS } from "./ip-addons";
+import { DEFAULT_BILLING_TERM_SETTINGS } from "@shared/billing-terms";
+import { invoiceTaxFields } from "@shared/tax";
 
 export interface Session {
   id: string;
@@ -795,6 +799,21 @@ export const dbStorage = {
     return plan;
   },
 
+  // Locations
+  async getLocations(): Promise<ServerLocation[]> {
+    return db.select().from(locations).orderBy(locations.sortOrder, locations.name);
+  },
+
+  async getLocationByCode(code: string): Promise<ServerLocation | undefined> {
+    const [location] = await db.select().from(locations).where(eq(locations.code, code.toUpperCase()));
+    return location;
+  },
+
+  // Hypervisor drains
+  async getHypervisorDrains(): Promise<HypervisorDrain[]> {
+    return db.select().from(hypervisorDrains);
+  },
+
   async upsertPlan(plan: InsertPlan & Record<string, unknown>): Promise<Plan> {
     // Use virtfusionPackageId as the primary lookup for synced plans
     const planData = plan as typeof plans.$inferInsert;
@@ -1358,12 +1377,16 @@ export const dbStorage = {
   },
 
   // Combined: debit wallet + create order in transaction
+  // The order is created ready for its first provisioning attempt, with everything a retry needs
   async createDeployWithDebit(
     auth0UserId: string,
     planId: number,
     priceCents: number,
     hostname?: string,
-    planName?: string
+    planName?: string,
+    userData?: string | null,
+    provisioning?: Pick<InsertDeployOrder, 'locationCode' | 'virtfusionUserId' | 'osId' | 'osName' | 'hypervisorGroupId' | 'sshKeyIds' | 'promoCodeId' | 'promoDiscountCents' | 'billingCycle' | 'termMonths' | 'termDiscountPercent'>,
+    minimumBalanceCents: number = priceCents // Hourly orders are free up front but still need funds to run on
   ): Promise<{ success: boolean; order?: DeployOrder; error?: string }> {
     return db.transaction(async (tx) => {
       await tx
@@ -1378,7 +1401,7 @@ export const dbStorage = {
         .for('update')
         .limit(1);
 
-      if (!lockedWallet || lockedWallet.balanceCents < priceCents) {
+      if (!lockedWallet || lockedWallet.balanceCents < Math.max(priceCents, minimumBalanceCents)) {
         return { success: false, error: 'Insufficient balance' };
       }
 
@@ -1398,12 +1421,16 @@ export const dbStorage = {
       const [order] = await tx
         .insert(deployOrders)
         .values({
+          ...provisioning,
           auth0UserId,
           planId,
-          locationCode: 'BNE',
+          locationCode: provisioning?.locationCode || 'BNE',
           hostname,
           priceCents,
           status: 'paid',
+          userData: userData ?? null,
+          step: 'create_user',
+          nextAttemptAt: new Date(),
         } as typeof deployOrders.$inferInsert)
         .returning();
 
@@ -1411,22 +1438,119 @@ export const dbStorage = {
         throw new Error('Failed to create deploy order');
       }
 
-      await tx.insert(walletTransactions).values({
-        auth0UserId,
-        type: 'debit',
-        amountCents: -priceCents,
-        metadata: {
-          deployOrderId: order.id,
-          serverName: hostname,
-          planName: planName,
-          reason: 'Server deployment'
-        },
-      });
+      // Hourly servers pay as they go, so there is no deployment charge to record
+      if (provisioning?.billingCycle !== 'hourly') {
+        await tx.insert(walletTransactions).values({
+          auth0UserId,
+          type: 'debit',
+          amountCents: -priceCents,
+          metadata: {
+            deployOrderId: order.id,
+            serverName: hostname,
+            planName: planName,
+            reason: 'Server deployment',
+            ...(provisioning?.termMonths && provisioning.termMonths > 1 && { termMonths: provisioning.termMonths }),
+          },
+        });
+      }
 
       return { success: true, order };
     });
   },
 
+  // Takes an order for one provisioning run. The lease stops the processor picking up an order
+  // the deploy request is still working on, and lets it recover orders from a crashed run.
+  async claimDeployOrder(id: number, leaseMs: number, force = false): Promise<DeployOrder | undefined> {
+    const now = new Date();
+    const [claimed] = await db
+      .update(deployOrders)
+      .set({ status: 'provisioning', nextAttemptAt: new Date(now.getTime() + leaseMs), updatedAt: now })
+      .where(
+        and(
+          eq(deployOrders.id, id),
+          inArray(deployOrders.status, ['paid', 'provisioning']),
+          force ? undefined : lte(deployOrders.nextAttemptAt, now)
+        )
+      )
+      .returning();
+    return claimed;
+  },
+
+  async getDueDeployOrders(limit = 20): Promise<DeployOrder[]> {
+    return db
+      .select()
+      .from(deployOrders)
+      .where(
+        and(
+          inArray(deployOrders.status, ['paid', 'provisioning']),
+          lte(deployOrders.nextAttemptAt, new Date())
+        )
+      )
+      .orderBy(deployOrders.nextAttemptAt)
+      .limit(limit);
+  },
+
+  // Gives back the wallet charge and promo use for an order that never became a server.
+  // Safe to call more than once: refundedAt is checked under the row lock.
+  async reverseDeployOrderCharge(orderId: number): Promise<{ refunded: boolean; order: DeployOrder }> {
+    return db.transaction(async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(deployOrders)
+        .where(eq(deployOrders.id, orderId))
+        .for('update')
+        .limit(1);
+
+      if (!order) {
+        throw new Error(`Deploy order ${orderId} not found`);
+      }
+      if (order.refundedAt) {
+        return { refunded: false, order };
+      }
+
+      if (order.priceCents > 0) {
+        await tx
+          .insert(wallets)
+          .values({ auth0UserId: order.auth0UserId, balanceCents: 0 })
+          .onConflictDoNothing({ target: wallets.auth0UserId });
+
+        await tx
+          .update(wallets)
+          .set({
+            balanceCents: sql`${wallets.balanceCents} + ${order.priceCents}`,
+            updatedAt: new Date(),
+          })
+          .where(eq(wallets.auth0UserId, order.auth0UserId));
+
+        await tx.insert(walletTransactions).values({
+          auth0UserId: order.auth0UserId,
+          type: 'refund',
+          amountCents: order.priceCents,
+          metadata: {
+            reason: 'provisioning_failed',
+            orderId: order.id,
+            serverName: order.hostname,
+          },
+        });
+      }
+
+      if (order.promoCodeId) {
+        await tx
+          .update(promoCodes)
+          .set({ currentUses: sql`GREATEST(0, ${promoCodes.currentUses} - 1)`, updatedAt: new Date() })
+          .where(eq(promoCodes.id, order.promoCodeId));
+      }
+
+      const [updated] = await tx
+        .update(deployOrders)
+        .set({ refundedAt: new Date(), updatedAt: new Date() })
+        .where(eq(deployOrders.id, orderId))
+        .returning();
+
+      return { refunded: true, order: updated };
+    });
+  },
+
   // Server Cancellation methods
   async createCancellationRequest(data: InsertServerCancellation): Promise<ServerCancellation> {
     const [cancellation] = await db.insert(serverCancellations).values(data as typeof serverCancellations.$inferInsert).returning();
@@ -1887,16 +2011,19 @@ export const dbStorage = {
     return `${prefix}-${String(nextNum).padStart(5, '0')}`;
   },
 
-  // Create invoice with automatic retry on duplicate invoice number (handles race conditions)
+  // Create invoice with automatic retry on duplicate invoice number (handles race conditions).
+  // The GST breakdown and the customer's billing details are fixed at this point.
   async createInvoiceWithNumber(data: Omit<InsertInvoice, 'invoiceNumber'>): Promise<Invoice> {
     const MAX_RETRIES = 3;
+    const profile = await this.getBillingProfile(data.auth0UserId);
+    const taxFields = invoiceTaxFields(data.amountCents, profile);
 
     for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
       try {
         const invoiceNumber = await this.generateInvoiceNumber();
         const [invoice] = await db
           .insert(invoices)
-          .values({ ...data, invoiceNumber } as typeof invoices.$inferInsert)
+          .values({ ...data, ...taxFields, invoiceNumber } as typeof invoices.$inferInsert)
           .returning();
         return invoice;
       } catch (error: any) {
@@ -1915,6 +2042,71 @@ export const dbStorage = {
     throw new Error('Failed to generate unique invoice number after multiple attempts');
   },
 
+  // Invoice wallet charges already recorded in the billing ledger: the entry under ledgerKey
+  // and its children (e.g. add-ons renewed with a server) become the lines. Entries that
+  // already belong to an invoice are left alone, so issuing twice doesn't invoice twice.
+  async createLedgerInvoice(
+    ledgerKey: string,
+    data: Pick<InsertInvoice, 'auth0UserId' | 'description' | 'customerEmail' | 'customerName' | 'virtfusionServerId' | 'periodStart' | 'periodEnd'>,
+  ): Promise<Invoice | null> {
+    const MAX_RETRIES = 3;
+    const profile = await this.getBillingProfile(data.auth0UserId);
+
+    // The entries stay locked until they point at the invoice, so a concurrent call can't bill them too
+    for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+      try {
+        return await db.transaction(async (tx) => {
+          const entries = await tx
+            .select()
+            .from(billingLedger)
+            .where(and(
+              eq(billingLedger.auth0UserId, data.auth0UserId),
+              isNull(billingLedger.invoiceId),
+              or(
+                eq(billingLedger.idempotencyKey, ledgerKey),
+                sql`${billingLedger.idempotencyKey} LIKE ${ledgerKey + ':%'}`,
+              ),
+            ))
+            .for('update');
+
+          const amountCents = entries.reduce((sum, entry) => sum + entry.amountCents, 0);
+          if (entries.length === 0 || amountCents <= 0) {
+            return null;
+          }
+
+          const invoiceNumber = await this.generateInvoiceNumber();
+          const [invoice] = await tx
+            .insert(invoices)
+            .values({ ...data, amountCents, status: 'paid', ...invoiceTaxFields(amountCents, profile), invoiceNumber } as typeof invoices.$inferInsert)
+            .returning();
+          await tx
+            .update(billingLedger)
+            .set({ invoiceId: invoice.id })
+            .where(inArray(billingLedger.id, entries.map(entry => entry.id)));
+          return invoice;
+        });
+      } catch (error: any) {
+        const isUniqueViolation = error.code === '23505' &&
+          (error.constraint?.includes('invoice_number') || error.detail?.includes('invoice_number'));
+
+        if (isUniqueViolation && attempt < MAX_RETRIES - 1) {
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    throw new Error('Failed to generate unique invoice number after multiple attempts');
+  },
+
+  async getInvoiceLines(invoiceId: number): Promise<BillingLedger[]> {
+    return db
+      .select()
+      .from(billingLedger)
+      .where(eq(billingLedger.invoiceId, invoiceId))
+      .orderBy(billingLedger.id);
+  },
+
   async updateInvoicePdfPath(id: number, pdfPath: string): Promise<Invoice | undefined> {
     const [updated] = await db
       .update(invoices)
@@ -1924,6 +2116,154 @@ export const dbStorage = {
     return updated;
   },
 
+  // Credit notes - refunds issued against invoices
+  async generateCreditNoteNumber(): Promise<string> {
+    // Format: CN-YYYYMM-XXXXX, numbered the same way as invoices
+    const now = new Date();
+    const prefix = `CN-${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}`;
+
+    const [result] = await db
+      .select({
+        maxNum: sql<number>`COALESCE(MAX(CAST(SUBSTRING(${creditNotes.creditNoteNumber} FROM '\\d+$') AS INTEGER)), 0)`
+      })
+      .from(creditNotes)
+      .where(sql`${creditNotes.creditNoteNumber} LIKE ${prefix + '%'}`);
+
+    const nextNum = (result?.maxNum || 0) + 1;
+    return `${prefix}-${String(nextNum).padStart(5, '0')}`;
+  },
+
+  async failCreditNote(id: number): Promise<void> {
+    await db
+      .update(creditNotes)
+      .set({ status: 'failed' })
+      .where(eq(creditNotes.id, id));
+  },
+
+  async getCreditNoteById(id: number): Promise<CreditNote | undefined> {
+    const [creditNote] = await db
+      .select()
+      .from(creditNotes)
+      .where(eq(creditNotes.id, id));
+    return creditNote;
+  },
+
+  async getCreditNotesByUser(auth0UserId: string): Promise<CreditNote[]> {
+    return db
+      .select()
+      .from(creditNotes)
+      .where(and(eq(creditNotes.auth0UserId, auth0UserId), eq(creditNotes.status, 'issued')))
+      .orderBy(desc(creditNotes.createdAt));
+  },
+
+  // Card top-ups a refund can be paid back to, newest first
+  async getCardTopups(auth0UserId: string, limit: number = 20): Promise<WalletTransaction[]> {
+    return db
+      .select()
+      .from(walletTransactions)
+      .where(and(
+        eq(walletTransactions.auth0UserId, auth0UserId),
+        eq(walletTransactions.type, 'credit'),
+        isNotNull(walletTransactions.stripePaymentIntentId),
+      ))
+      .orderBy(desc(walletTransactions.createdAt))
+      .limit(limit);
+  },
+
+  // Billing profile - business details printed on tax invoices
+  async getBillingProfile(auth0UserId: string): Promise<BillingProfile | undefined> {
+    const [profile] = await db
+      .select()
+      .from(billingProfiles)
+      .where(eq(billingProfiles.auth0UserId, auth0UserId));
+    return profile;
+  },
+
+  async upsertBillingProfile(auth0UserId: string, data: BillingProfileInput): Promise<BillingProfile> {
+    const [profile] = await db
+      .insert(billingProfiles)
+      .values({ auth0UserId, ...data })
+      .onConflictDoUpdate({
+        target: billingProfiles.auth0UserId,
+        set: { ...data, updatedAt: new Date() },
+      })
+      .returning();
+    return profile;
+  },
+
+  // ========== ACCOUNT STATEMENTS ==========
+
+  async getWalletTransactionsSince(auth0UserId: string, since: Date): Promise<WalletTransaction[]> {
+    return db
+      .select()
+      .from(walletTransactions)
+      .where(and(
+        eq(walletTransactions.auth0UserId, auth0UserId),
+        gte(walletTransactions.createdAt, since),
+      ))
+      .orderBy(walletTransactions.createdAt, walletTransactions.id);
+  },
+
+  // Ledger charges in a period, with the invoice each one was billed on
+  async getLedgerChargesBetween(auth0UserId: string, start: Date, end: Date) {
+    return db
+      .select({
+        description: billingLedger.description,
+        amountCents: billingLedger.amountCents,
+        createdAt: billingLedger.createdAt,
+        invoiceNumber: invoices.invoiceNumber,
+      })
+      .from(billingLedger)
+      .leftJoin(invoices, eq(invoices.id, billingLedger.invoiceId))
+      .where(and(
+        eq(billingLedger.auth0UserId, auth0UserId),
+        gte(billingLedger.createdAt, start),
+        lt(billingLedger.createdAt, end),
+      ))
+      .orderBy(billingLedger.createdAt, billingLedger.id);
+  },
+
+  // Returns undefined if the account already has a statement for the period
+  async createAccountStatement(data: typeof accountStatements.$inferInsert): Promise<AccountStatement | undefined> {
+    const [statement] = await db
+      .insert(accountStatements)
+      .values(data)
+      .onConflictDoNothing()
+      .returning();
+    return statement;
+  },
+
+  async getAccountStatement(auth0UserId: string, period: string): Promise<AccountStatement | undefined> {
+    const [statement] = await db
+      .select()
+      .from(accountStatements)
+      .where(and(eq(accountStatements.auth0UserId, auth0UserId), eq(accountStatements.period, period)));
+    return statement;
+  },
+
+  async getAccountStatementById(id: number): Promise<AccountStatement | undefined> {
+    const [statement] = await db
+      .select()
+      .from(accountStatements)
+      .where(eq(accountStatements.id, id));
+    return statement;
+  },
+
+  async getAccountStatementsByUser(auth0UserId: string): Promise<AccountStatement[]> {
+    return db
+      .select()
+      .from(accountStatements)
+      .where(eq(accountStatements.auth0UserId, auth0UserId))
+      .orderBy(desc(accountStatements.periodStart));
+  },
+
+  async markAccountStatementEmailed(id: number): Promise<void> {
+    await db
+      .update(accountStatements)
+      .set({ emailedAt: new Date() })
+      .where(eq(accountStatements.id, id));
+  },
+
   // ========== SUPPORT TICKETS ==========
 
   // Create a new ticket
@@ -3018,4 +3358,959 @@ export const dbStorage = {
       .returning();
     return result.length;
   },
+
+  // ========== SSH KEYS ==========
+
+  async getSshKeysByUser(auth0UserId: string): Promise<SshKey[]> {
+    return db
+      .select()
+      .from(sshKeys)
+      .where(eq(sshKeys.auth0UserId, auth0UserId))
+      .orderBy(desc(sshKeys.createdAt));
+  },
+
+  async getSshKeysByIds(auth0UserId: string, ids: number[]): Promise<SshKey[]> {
+    if (ids.length === 0) return [];
+    return db
+      .select()
+      .from(sshKeys)
+      .where(and(eq(sshKeys.auth0UserId, auth0UserId), inArray(sshKeys.id, ids)));
+  },
+
+  async getSshKeyByFingerprint(auth0UserId: string, fingerprint: string): Promise<SshKey | undefined> {
+    const [key] = await db
+      .select()
+      .from(sshKeys)
+      .where(and(eq(sshKeys.auth0UserId, auth0UserId), eq(sshKeys.fingerprint, fingerprint)))
+      .limit(1);
+    return key;
+  },
+
+  async countSshKeys(auth0UserId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(sshKeys)
+      .where(eq(sshKeys.auth0UserId, auth0UserId));
+    return result?.count ?? 0;
+  },
+
+  async createSshKey(data: { auth0UserId: string; name: string; publicKey: string; fingerprint: string }): Promise<SshKey> {
+    const [key] = await db.insert(sshKeys).values(data).returning();
+    return key;
+  },
+
+  async renameSshKey(auth0UserId: string, id: number, name: string): Promise<SshKey | undefined> {
+    const [key] = await db
+      .update(sshKeys)
+      .set({ name })
+      .where(and(eq(sshKeys.id, id), eq(sshKeys.auth0UserId, auth0UserId)))
+      .returning();
+    return key;
+  },
+
+  async setSshKeyVirtFusionId(id: number, virtfusionKeyId: number): Promise<SshKey | undefined> {
+    const [key] = await db
+      .update(sshKeys)
+      .set({ virtfusionKeyId })
+      .where(eq(sshKeys.id, id))
+      .returning();
+    return key;
+  },
+
+  async markSshKeysUsed(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db
+      .update(sshKeys)
+      .set({ lastUsedAt: new Date() })
+      .where(inArray(sshKeys.id, ids));
+  },
+
+  async deleteSshKey(auth0UserId: string, id: number): Promise<SshKey | undefined> {
+    const [key] = await db
+      .delete(sshKeys)
+      .where(and(eq(sshKeys.id, id), eq(sshKeys.auth0UserId, auth0UserId)))
+      .returning();
+    return key;
+  },
+
+  // ========== USER-DATA SCRIPTS ==========
+
+  async getUserDataScriptsByUser(auth0UserId: string): Promise<UserDataScript[]> {
+    return db
+      .select()
+      .from(userDataScripts)
+      .where(eq(userDataScripts.auth0UserId, auth0UserId))
+      .orderBy(userDataScripts.name);
+  },
+
+  async getUserDataScript(auth0UserId: string, id: number): Promise<UserDataScript | undefined> {
+    const [script] = await db
+      .select()
+      .from(userDataScripts)
+      .where(and(eq(userDataScripts.id, id), eq(userDataScripts.auth0UserId, auth0UserId)))
+      .limit(1);
+    return script;
+  },
+
+  async countUserDataScripts(auth0UserId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(userDataScripts)
+      .where(eq(userDataScripts.auth0UserId, auth0UserId));
+    return result?.count ?? 0;
+  },
+
+  async createUserDataScript(data: { auth0UserId: string; name: string; content: string }): Promise<UserDataScript> {
+    const [script] = await db.insert(userDataScripts).values(data).returning();
+    return script;
+  },
+
+  async updateUserDataScript(auth0UserId: string, id: number, data: { name: string; content: string }): Promise<UserDataScript | undefined> {
+    const [script] = await db
+      .update(userDataScripts)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(userDataScripts.id, id), eq(userDataScripts.auth0UserId, auth0UserId)))
+      .returning();
+    return script;
+  },
+
+  async deleteUserDataScript(auth0UserId: string, id: number): Promise<UserDataScript | undefined> {
+    const [script] = await db
+      .delete(userDataScripts)
+      .where(and(eq(userDataScripts.id, id), eq(userDataScripts.auth0UserId, auth0UserId)))
+      .returning();
+    return script;
+  },
+
+  // ========== FIREWALL ==========
+
+  async getServerFirewallRules(virtfusionServerId: string): Promise<ServerFirewallRule[]> {
+    return db
+      .select()
+      .from(serverFirewallRules)
+      .where(eq(serverFirewallRules.virtfusionServerId, virtfusionServerId))
+      .orderBy(serverFirewallRules.position);
+  },
+
+  async replaceServerFirewallRules(
+    virtfusionServerId: string,
+    rules: Array<Omit<ServerFirewallRule, 'id' | 'virtfusionServerId' | 'position' | 'createdAt'>>,
+  ): Promise<ServerFirewallRule[]> {
+    return db.transaction(async (tx) => {
+      await tx.delete(serverFirewallRules).where(eq(serverFirewallRules.virtfusionServerId, virtfusionServerId));
+      if (rules.length === 0) {
+        return [];
+      }
+      return tx
+        .insert(serverFirewallRules)
+        .values(rules.map((rule, position) => ({ ...rule, virtfusionServerId, position })))
+        .returning();
+    });
+  },
+
+  async getFirewallRuleSetsByUser(auth0UserId: string): Promise<FirewallRuleSet[]> {
+    return db
+      .select()
+      .from(firewallRuleSets)
+      .where(eq(firewallRuleSets.auth0UserId, auth0UserId))
+      .orderBy(firewallRuleSets.name);
+  },
+
+  async getFirewallRuleSet(auth0UserId: string, id: number): Promise<FirewallRuleSet | undefined> {
+    const [ruleSet] = await db
+      .select()
+      .from(firewallRuleSets)
+      .where(and(eq(firewallRuleSets.id, id), eq(firewallRuleSets.auth0UserId, auth0UserId)))
+      .limit(1);
+    return ruleSet;
+  },
+
+  async countFirewallRuleSets(auth0UserId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(firewallRuleSets)
+      .where(eq(firewallRuleSets.auth0UserId, auth0UserId));
+    return result?.count ?? 0;
+  },
+
+  async createFirewallRuleSet(data: { auth0UserId: string; name: string; rules: FirewallRuleInput[] }): Promise<FirewallRuleSet> {
+    const [ruleSet] = await db.insert(firewallRuleSets).values(data).returning();
+    return ruleSet;
+  },
+
+  async updateFirewallRuleSet(auth0UserId: string, id: number, data: { name: string; rules: FirewallRuleInput[] }): Promise<FirewallRuleSet | undefined> {
+    const [ruleSet] = await db
+      .update(firewallRuleSets)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(firewallRuleSets.id, id), eq(firewallRuleSets.auth0UserId, auth0UserId)))
+      .returning();
+    return ruleSet;
+  },
+
+  async deleteFirewallRuleSet(auth0UserId: string, id: number): Promise<FirewallRuleSet | undefined> {
+    const [ruleSet] = await db
+      .delete(firewallRuleSets)
+      .where(and(eq(firewallRuleSets.id, id), eq(firewallRuleSets.auth0UserId, auth0UserId)))
+      .returning();
+    return ruleSet;
+  },
+
+  // ========== API TOKENS ==========
+
+  async getApiTokensByUser(auth0UserId: string): Promise<ApiToken[]> {
+    return db
+      .select()
+      .from(apiTokens)
+      .where(and(eq(apiTokens.auth0UserId, auth0UserId), isNull(apiTokens.revokedAt)))
+      .orderBy(desc(apiTokens.createdAt));
+  },
+
+  async countActiveApiTokens(auth0UserId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(apiTokens)
+      .where(and(eq(apiTokens.auth0UserId, auth0UserId), isNull(apiTokens.revokedAt)));
+    return result?.count ?? 0;
+  },
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.tokenHash, tokenHash))
+      .limit(1);
+    return token;
+  },
+
+  async createApiToken(data: {
+    auth0UserId: string;
+    virtFusionUserId: number | null;
+    extRelationId: string | null;
+    email: string;
+    name: string;
+    tokenHash: string;
+    tokenPrefix: string;
+    scopes: ApiTokenScope[];
+    expiresAt: Date | null;
+  }): Promise<ApiToken> {
+    const [token] = await db.insert(apiTokens).values(data).returning();
+    return token;
+  },
+
+  // Last-used tracking is only written once a minute per token to keep scripted polling cheap
+  async recordApiTokenUse(id: number, ipAddress: string): Promise<void> {
+    await db
+      .update(apiTokens)
+      .set({ lastUsedAt: new Date(), lastUsedIp: ipAddress })
+      .where(and(
+        eq(apiTokens.id, id),
+        or(isNull(apiTokens.lastUsedAt), lt(apiTokens.lastUsedAt, new Date(Date.now() - 60 * 1000))),
+      ));
+  },
+
+  async revokeApiToken(auth0UserId: string, id: number): Promise<ApiToken | undefined> {
+    const [token] = await db
+      .update(apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.auth0UserId, auth0UserId), isNull(apiTokens.revokedAt)))
+      .returning();
+    return token;
+  },
+
+  // ========== POWER SCHEDULES ==========
+  async getPowerSchedulesByServer(virtfusionServerId: string): Promise<ScheduledPowerActionRecord[]> {
+    return db
+      .select()
+      .from(scheduledPowerActions)
+      .where(eq(scheduledPowerActions.virtfusionServerId, virtfusionServerId))
+      .orderBy(scheduledPowerActions.createdAt);
+  },
+
+  async countPowerSchedules(virtfusionServerId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(scheduledPowerActions)
+      .where(eq(scheduledPowerActions.virtfusionServerId, virtfusionServerId));
+    return result?.count ?? 0;
+  },
+
+  async createPowerSchedule(data: {
+    auth0UserId: string;
+    email: string;
+    virtfusionServerId: string;
+    action: ScheduledPowerAction;
+    cronExpression: string | null;
+    runAt: Date | null;
+    timezone: string;
+    nextRunAt: Date | null;
+  }): Promise<ScheduledPowerActionRecord> {
+    const [schedule] = await db.insert(scheduledPowerActions).values(data).returning();
+    return schedule;
+  },
+
+  async setPowerScheduleEnabled(
+    virtfusionServerId: string,
+    id: number,
+    enabled: boolean,
+    nextRunAt: Date | null,
+  ): Promise<ScheduledPowerActionRecord | undefined> {
+    const [schedule] = await db
+      .update(scheduledPowerActions)
+      .set({ enabled, nextRunAt, updatedAt: new Date() })
+      .where(and(eq(scheduledPowerActions.id, id), eq(scheduledPowerActions.virtfusionServerId, virtfusionServerId)))
+      .returning();
+    return schedule;
+  },
+
+  async deletePowerSchedule(virtfusionServerId: string, id: number): Promise<boolean> {
+    const result = await db
+      .delete(scheduledPowerActions)
+      .where(and(eq(scheduledPowerActions.id, id), eq(scheduledPowerActions.virtfusionServerId, virtfusionServerId)))
+      .returning({ id: scheduledPowerActions.id });
+    return result.length > 0;
+  },
+
+  async getDuePowerSchedules(now: Date = new Date()): Promise<ScheduledPowerActionRecord[]> {
+    return db
+      .select()
+      .from(scheduledPowerActions)
+      .where(and(eq(scheduledPowerActions.enabled, true), lte(scheduledPowerActions.nextRunAt, now)))
+      .orderBy(scheduledPowerActions.nextRunAt);
+  },
+
+  // Advance nextRunAt only if no other instance has already done so; returns false when the run was claimed elsewhere
+  async claimPowerScheduleRun(id: number, scheduledFor: Date, nextRunAt: Date | null): Promise<boolean> {
+    const result = await db
+      .update(scheduledPowerActions)
+      .set({ nextRunAt, enabled: nextRunAt !== null, updatedAt: new Date() })
+      .where(and(eq(scheduledPowerActions.id, id), eq(scheduledPowerActions.nextRunAt, scheduledFor)))
+      .returning({ id: scheduledPowerActions.id });
+    return result.length > 0;
+  },
+
+  async recordPowerScheduleRun(data: {
+    scheduleId: number;
+    virtfusionServerId: string;
+    action: ScheduledPowerAction;
+    scheduledFor: Date;
+    status: 'success' | 'failed' | 'skipped';
+    error: string | null;
+  }): Promise<ScheduledPowerActionRun> {
+    const [run] = await db.insert(scheduledPowerActionRuns).values(data).returning();
+    await db
+      .update(scheduledPowerActions)
+      .set({ lastRunAt: new Date(), lastStatus: data.status })
+      .where(eq(scheduledPowerActions.id, data.scheduleId));
+    return run;
+  },
+
+  async getPowerScheduleRuns(virtfusionServerId: string, limit: number): Promise<ScheduledPowerActionRun[]> {
+    return db
+      .select()
+      .from(scheduledPowerActionRuns)
+      .where(eq(scheduledPowerActionRuns.virtfusionServerId, virtfusionServerId))
+      .orderBy(desc(scheduledPowerActionRuns.createdAt))
+      .limit(limit);
+  },
+
+  // ========== PROJECTS & TAGS ==========
+  async getProjectsByUser(auth0UserId: string): Promise<Project[]> {
+    return db
+      .select()
+      .from(projects)
+      .where(eq(projects.auth0UserId, auth0UserId))
+      .orderBy(projects.name);
+  },
+
+  async getProject(auth0UserId: string, id: number): Promise<Project | undefined> {
+    const [project] = await db
+      .select()
+      .from(projects)
+      .where(and(eq(projects.id, id), eq(projects.auth0UserId, auth0UserId)))
+      .limit(1);
+    return project;
+  },
+
+  async getProjectByName(auth0UserId: string, name: string): Promise<Project | undefined> {
+    const [project] = await db
+      .select()
+      .from(projects)
+      .where(and(eq(projects.auth0UserId, auth0UserId), sql`lower(${projects.name}) = lower(${name})`))
+      .limit(1);
+    return project;
+  },
+
+  async countProjects(auth0UserId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(projects)
+      .where(eq(projects.auth0UserId, auth0UserId));
+    return result?.count ?? 0;
+  },
+
+  async createProject(auth0UserId: string, name: string): Promise<Project> {
+    const [project] = await db.insert(projects).values({ auth0UserId, name }).returning();
+    return project;
+  },
+
+  async renameProject(auth0UserId: string, id: number, name: string): Promise<Project | undefined> {
+    const [project] = await db
+      .update(projects)
+      .set({ name, updatedAt: new Date() })
+      .where(and(eq(projects.id, id), eq(projects.auth0UserId, auth0UserId)))
+      .returning();
+    return project;
+  },
+
+  // Servers in a deleted project become unassigned rather than being deleted with it
+  async deleteProject(auth0UserId: string, id: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      await tx
+        .update(serverLabels)
+        .set({ projectId: null, updatedAt: new Date() })
+        .where(and(eq(serverLabels.auth0UserId, auth0UserId), eq(serverLabels.projectId, id)));
+      const result = await tx
+        .delete(projects)
+        .where(and(eq(projects.id, id), eq(projects.auth0UserId, auth0UserId)))
+        .returning({ id: projects.id });
+      return result.length > 0;
+    });
+  },
+
+  async getServerLabelsByUser(auth0UserId: string): Promise<ServerLabels[]> {
+    return db
+      .select()
+      .from(serverLabels)
+      .where(eq(serverLabels.auth0UserId, auth0UserId));
+  },
+
+  async getServerLabels(virtfusionServerId: string): Promise<ServerLabels | undefined> {
+    const [labels] = await db
+      .select()
+      .from(serverLabels)
+      .where(eq(serverLabels.virtfusionServerId, virtfusionServerId))
+      .limit(1);
+    return labels;
+  },
+
+  async setServerLabels(
+    auth0UserId: string,
+    virtfusionServerId: string,
+    data: { tags: string[]; projectId: number | null },
+  ): Promise<ServerLabels> {
+    const [labels] = await db
+      .insert(serverLabels)
+      .values({ auth0UserId, virtfusionServerId, ...data })
+      .onConflictDoUpdate({
+        target: serverLabels.virtfusionServerId,
+        set: { auth0UserId, ...data, updatedAt: new Date() },
+      })
+      .returning();
+    return labels;
+  },
+
+  // ========== RESOURCE ALERTS ==========
+  async getAlertRulesByServer(virtfusionServerId: string): Promise<ServerAlertRule[]> {
+    return db
+      .select()
+      .from(serverAlertRules)
+      .where(eq(serverAlertRules.virtfusionServerId, virtfusionServerId))
+      .orderBy(serverAlertRules.createdAt);
+  },
+
+  async countAlertRules(virtfusionServerId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(serverAlertRules)
+      .where(eq(serverAlertRules.virtfusionServerId, virtfusionServerId));
+    return result?.count ?? 0;
+  },
+
+  async createAlertRule(data: {
+    auth0UserId: string;
+    email: string;
+    virtfusionServerId: string;
+    metric: ResourceAlertMetric;
+    thresholdPercent: number;
+    durationMinutes: number;
+    cooldownMinutes: number;
+    webhookUrl: string | null;
+  }): Promise<ServerAlertRule> {
+    const [rule] = await db.insert(serverAlertRules).values(data).returning();
+    return rule;
+  },
+
+  // Any change to a rule starts it from a clean slate so the new threshold is evaluated fresh
+  async updateAlertRule(
+    virtfusionServerId: string,
+    id: number,
+    data: Partial<Pick<ServerAlertRule, 'enabled' | 'thresholdPercent' | 'durationMinutes' | 'cooldownMinutes' | 'webhookUrl'>>,
+  ): Promise<ServerAlertRule | undefined> {
+    const [rule] = await db
+      .update(serverAlertRules)
+      .set({ ...data, state: 'ok', breachStartedAt: null, updatedAt: new Date() })
+      .where(and(eq(serverAlertRules.id, id), eq(serverAlertRules.virtfusionServerId, virtfusionServerId)))
+      .returning();
+    return rule;
+  },
+
+  async deleteAlertRule(virtfusionServerId: string, id: number): Promise<boolean> {
+    const result = await db
+      .delete(serverAlertRules)
+      .where(and(eq(serverAlertRules.id, id), eq(serverAlertRules.virtfusionServerId, virtfusionServerId)))
+      .returning({ id: serverAlertRules.id });
+    return result.length > 0;
+  },
+
+  async getEnabledAlertRules(): Promise<ServerAlertRule[]> {
+    return db
+      .select()
+      .from(serverAlertRules)
+      .where(eq(serverAlertRules.enabled, true))
+      .orderBy(serverAlertRules.virtfusionServerId, serverAlertRules.id);
+  },
+
+  async saveAlertRuleState(
+    id: number,
+    data: Pick<ServerAlertRule, 'state' | 'breachStartedAt' | 'lastValue' | 'lastCheckedAt'> & { lastNotifiedAt?: Date },
+  ): Promise<void> {
+    await db
+      .update(serverAlertRules)
+      .set(data)
+      .where(eq(serverAlertRules.id, id));
+  },
+
+  async recordAlertEvent(data: {
+    ruleId: number;
+    virtfusionServerId: string;
+    metric: ResourceAlertMetric;
+    kind: 'firing' | 'resolved';
+    value: number;
+    thresholdPercent: number;
+    webhookStatus: 'delivered' | 'failed' | null;
+  }): Promise<ServerAlertEvent> {
+    const [event] = await db.insert(serverAlertEvents).values(data).returning();
+    return event;
+  },
+
+  async getAlertEvents(virtfusionServerId: string, limit: number): Promise<ServerAlertEvent[]> {
+    return db
+      .select()
+      .from(serverAlertEvents)
+      .where(eq(serverAlertEvents.virtfusionServerId, virtfusionServerId))
+      .orderBy(desc(serverAlertEvents.createdAt))
+      .limit(limit);
+  },
+
+  // ========== TRANSFER QUOTAS ==========
+  async getServersForTransferTracking(): Promise<ServerBilling[]> {
+    return db
+      .select()
+      .from(serverBilling)
+      .where(ne(serverBilling.status, 'cancelled'));
+  },
+
+  async getTransferUsage(virtfusionServerId: string, period: string): Promise<ServerTransferUsage | undefined> {
+    const [usage] = await db
+      .select()
+      .from(serverTransferUsage)
+      .where(and(eq(serverTransferUsage.virtfusionServerId, virtfusionServerId), eq(serverTransferUsage.period, period)))
+      .limit(1);
+    return usage;
+  },
+
+  async getLatestTransferUsage(virtfusionServerId: string): Promise<ServerTransferUsage | undefined> {
+    const [usage] = await db
+      .select()
+      .from(serverTransferUsage)
+      .where(eq(serverTransferUsage.virtfusionServerId, virtfusionServerId))
+      .orderBy(desc(serverTransferUsage.period))
+      .limit(1);
+    return usage;
+  },
+
+  // Throttles and suspensions left over from earlier periods, which should be lifted now the allowance has reset
+  async getStaleTransferEnforcements(virtfusionServerId: string, currentPeriod: string): Promise<ServerTransferUsage[]> {
+    return db
+      .select()
+      .from(serverTransferUsage)
+      .where(and(
+        eq(serverTransferUsage.virtfusionServerId, virtfusionServerId),
+        ne(serverTransferUsage.period, currentPeriod),
+        isNotNull(serverTransferUsage.enforcement),
+      ));
+  },
+
+  // Record the latest reading, keeping the highest value seen this period
+  async recordTransferUsage(data: {
+    auth0UserId: string;
+    virtfusionServerId: string;
+    period: string;
+    usedBytes: number;
+    limitGb: number;
+  }): Promise<ServerTransferUsage> {
+    const [usage] = await db
+      .insert(serverTransferUsage)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [serverTransferUsage.virtfusionServerId, serverTransferUsage.period],
+        set: {
+          usedBytes: sql`GREATEST(${serverTransferUsage.usedBytes}, ${data.usedBytes})`,
+          limitGb: data.limitGb,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return usage;
+  },
+
+  async markTransferWarningSent(id: number, level: 80 | 100): Promise<void> {
+    const now = new Date();
+    await db
+      .update(serverTransferUsage)
+      .set(level === 100 ? { warned80At: sql`COALESCE(${serverTransferUsage.warned80At}, ${now})`, warned100At: now } : { warned80At: now })
+      .where(eq(serverTransferUsage.id, id));
+  },
+
+  async setTransferEnforcement(
+    id: number,
+    data: { enforcement: 'throttled' | 'suspended' | null; originalInAverage?: number | null; originalOutAverage?: number | null },
+  ): Promise<void> {
+    await db
+      .update(serverTransferUsage)
+      .set({ ...data, enforcedAt: data.enforcement ? new Date() : null, updatedAt: new Date() })
+      .where(eq(serverTransferUsage.id, id));
+  },
+
+  async getTransferOverageSettings(): Promise<TransferOverageSettings> {
+    const setting = await this.getSecuritySetting('transfer_overage');
+    if (!setting?.value) return DEFAULT_TRANSFER_OVERAGE_SETTINGS;
+    try {
+      const parsed = transferOverageSettingsSchema.safeParse(JSON.parse(setting.value));
+      return parsed.success ? parsed.data : DEFAULT_TRANSFER_OVERAGE_SETTINGS;
+    } catch {
+      return DEFAULT_TRANSFER_OVERAGE_SETTINGS;
+    }
+  },
+
+  async updateTransferOverageSettings(settings: TransferOverageSettings): Promise<void> {
+    await this.upsertSecuritySetting('transfer_overage', JSON.stringify(settings), true);
+  },
+
+  // ========== METRICS HISTORY ==========
+
+  async getServersForMetricsSampling(): Promise<ServerBilling[]> {
+    return db
+      .select()
+      .from(serverBilling)
+      .where(and(
+        ne(serverBilling.status, 'cancelled'),
+        ne(serverBilling.status, 'suspended'),
+        eq(serverBilling.adminSuspended, false),
+      ));
+  },
+
+  // Samples are keyed by bucket, so re-running a sample or rollup for the same bucket replaces it
+  async upsertMetricSamples(rows: InsertServerMetricSample[]): Promise<void> {
+    if (rows.length === 0) return;
+    await db
+      .insert(serverMetricSamples)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: [serverMetricSamples.virtfusionServerId, serverMetricSamples.resolution, serverMetricSamples.bucketStart],
+        set: {
+          sampleCount: sql`excluded.sample_count`,
+          cpuAvg: sql`excluded.cpu_avg`,
+          cpuMax: sql`excluded.cpu_max`,
+          memoryAvg: sql`excluded.memory_avg`,
+          memoryMax: sql`excluded.memory_max`,
+          diskPercent: sql`excluded.disk_percent`,
+          diskReadBps: sql`excluded.disk_read_bps`,
+          diskWriteBps: sql`excluded.disk_write_bps`,
+          netRxBps: sql`excluded.net_rx_bps`,
+          netTxBps: sql`excluded.net_tx_bps`,
+        },
+      });
+  },
+
+  async getMetricSamples(virtfusionServerId: string, resolution: MetricResolution, since: Date): Promise<ServerMetricSample[]> {
+    return db
+      .select()
+      .from(serverMetricSamples)
+      .where(and(
+        eq(serverMetricSamples.virtfusionServerId, virtfusionServerId),
+        eq(serverMetricSamples.resolution, resolution),
+        gte(serverMetricSamples.bucketStart, since),
+      ))
+      .orderBy(serverMetricSamples.bucketStart);
+  },
+
+  async getMetricSamplesBetween(resolution: MetricResolution, from: Date, to: Date): Promise<ServerMetricSample[]> {
+    return db
+      .select()
+      .from(serverMetricSamples)
+      .where(and(
+        eq(serverMetricSamples.resolution, resolution),
+        gte(serverMetricSamples.bucketStart, from),
+        lt(serverMetricSamples.bucketStart, to),
+      ))
+      .orderBy(serverMetricSamples.bucketStart);
+  },
+
+  async pruneMetricSamples(resolution: MetricResolution, before: Date): Promise<number> {
+    const deleted = await db
+      .delete(serverMetricSamples)
+      .where(and(eq(serverMetricSamples.resolution, resolution), lt(serverMetricSamples.bucketStart, before)))
+      .returning({ id: serverMetricSamples.id });
+    return deleted.length;
+  },
+
+  // ========== SERVER OWNERSHIP TRANSFERS ==========
+
+  async getUserMappingByEmail(email: string) {
+    const [mapping] = await db
+      .select()
+      .from(userMappings)
+      .where(sql`lower(${userMappings.email}) = ${email.toLowerCase()}`)
+      .limit(1);
+    return mapping;
+  },
+
+  // Offers past their expiry are closed lazily so they stop blocking a new offer for the server
+  async expireStaleServerTransfers(): Promise<void> {
+    await db
+      .update(serverOwnershipTransfers)
+      .set({ status: 'expired' })
+      .where(and(eq(serverOwnershipTransfers.status, 'pending'), lt(serverOwnershipTransfers.expiresAt, new Date())));
+  },
+
+  async createServerTransfer(data: InsertServerOwnershipTransfer): Promise<ServerOwnershipTransfer> {
+    const [offer] = await db.insert(serverOwnershipTransfers).values(data).returning();
+    return offer;
+  },
+
+  async getServerTransfer(id: number): Promise<ServerOwnershipTransfer | undefined> {
+    const [offer] = await db.select().from(serverOwnershipTransfers).where(eq(serverOwnershipTransfers.id, id));
+    return offer;
+  },
+
+  async getPendingServerTransfer(virtfusionServerId: string): Promise<ServerOwnershipTransfer | undefined> {
+    const [offer] = await db
+      .select()
+      .from(serverOwnershipTransfers)
+      .where(and(
+        eq(serverOwnershipTransfers.virtfusionServerId, virtfusionServerId),
+        eq(serverOwnershipTransfers.status, 'pending'),
+      ));
+    return offer;
+  },
+
+  async getIncomingServerTransfers(email: string): Promise<ServerOwnershipTransfer[]> {
+    return db
+      .select()
+      .from(serverOwnershipTransfers)
+      .where(and(
+        eq(serverOwnershipTransfers.toEmail, email.toLowerCase()),
+        eq(serverOwnershipTransfers.status, 'pending'),
+      ))
+      .orderBy(desc(serverOwnershipTransfers.createdAt));
+  },
+
+  async getOutgoingServerTransfers(auth0UserId: string, limit: number): Promise<ServerOwnershipTransfer[]> {
+    return db
+      .select()
+      .from(serverOwnershipTransfers)
+      .where(eq(serverOwnershipTransfers.fromAuth0UserId, auth0UserId))
+      .orderBy(desc(serverOwnershipTransfers.createdAt))
+      .limit(limit);
+  },
+
+  // Only moves a pending offer, so a decline can't race an accept
+  async closeServerTransfer(id: number, status: Extract<ServerTransferStatus, 'declined' | 'cancelled'>): Promise<ServerOwnershipTransfer | undefined> {
+    const [offer] = await db
+      .update(serverOwnershipTransfers)
+      .set({ status, respondedAt: new Date() })
+      .where(and(eq(serverOwnershipTransfers.id, id), eq(serverOwnershipTransfers.status, 'pending')))
+      .returning();
+    return offer;
+  },
+
+  // ========== ISO MEDIA ==========
+  async getMountableIsoImages(auth0UserId: string): Promise<IsoImage[]> {
+    return db
+      .select()
+      .from(isoImages)
+      .where(and(
+        eq(isoImages.status, 'approved'),
+        eq(isoImages.enabled, true),
+        or(isNull(isoImages.auth0UserId), eq(isoImages.auth0UserId, auth0UserId)),
+      ))
+      .orderBy(isoImages.name);
+  },
+
+  async getIsoSubmissionsByUser(auth0UserId: string): Promise<IsoImage[]> {
+    return db
+      .select()
+      .from(isoImages)
+      .where(eq(isoImages.auth0UserId, auth0UserId))
+      .orderBy(desc(isoImages.createdAt));
+  },
+
+  async getIsoImageById(id: number): Promise<IsoImage | undefined> {
+    const [iso] = await db.select().from(isoImages).where(eq(isoImages.id, id));
+    return iso;
+  },
+
+  async createIsoImage(data: InsertIsoImage): Promise<IsoImage> {
+    const [iso] = await db.insert(isoImages).values(data).returning();
+    return iso;
+  },
+
+  async deleteIsoImage(id: number): Promise<void> {
+    await db.delete(isoImages).where(eq(isoImages.id, id));
+  },
+
+  async getServerMedia(virtfusionServerId: string): Promise<ServerMedia | undefined> {
+    const [media] = await db.select().from(serverMedia).where(eq(serverMedia.virtfusionServerId, virtfusionServerId));
+    return media;
+  },
+
+  async isIsoImageMounted(isoImageId: number): Promise<boolean> {
+    const [media] = await db.select({ id: serverMedia.id }).from(serverMedia).where(eq(serverMedia.isoImageId, isoImageId)).limit(1);
+    return !!media;
+  },
+
+  async upsertServerMedia(
+    virtfusionServerId: string,
+    updates: { isoImageId?: number | null; bootOrder?: BootDevice[] },
+  ): Promise<ServerMedia> {
+    const [media] = await db
+      .insert(serverMedia)
+      .values({ virtfusionServerId, ...updates })
+      .onConflictDoUpdate({
+        target: serverMedia.virtfusionServerId,
+        set: { ...updates, updatedAt: new Date() },
+      })
+      .returning();
+    return media;
+  },
+
+  // ========== RESCUE MODE ==========
+
+  async getActiveRescueSession(virtfusionServerId: string): Promise<ServerRescueSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(serverRescueSessions)
+      .where(and(eq(serverRescueSessions.virtfusionServerId, virtfusionServerId), isNull(serverRescueSessions.endedAt)))
+      .limit(1);
+    return session;
+  },
+
+  async createRescueSession(data: InsertServerRescueSession): Promise<ServerRescueSession> {
+    const [session] = await db.insert(serverRescueSessions).values(data).returning();
+    return session;
+  },
+
+  async getExpiredRescueSessions(now: Date): Promise<ServerRescueSession[]> {
+    return db
+      .select()
+      .from(serverRescueSessions)
+      .where(and(isNull(serverRescueSessions.endedAt), lte(serverRescueSessions.expiresAt, now)));
+  },
+
+  // Only closes a session that is still open, so the timer and the customer can't both end it
+  async endRescueSession(id: number, endReason: RescueEndReason): Promise<boolean> {
+    const ended = await db
+      .update(serverRescueSessions)
+      .set({ endedAt: new Date(), endReason })
+      .where(and(eq(serverRescueSessions.id, id), isNull(serverRescueSessions.endedAt)))
+      .returning({ id: serverRescueSessions.id });
+    return ended.length > 0;
+  },
+
+  // ========== IP ADD-ONS ==========
+
+  async getActiveServerAddons(virtfusionServerId: string): Promise<ServerAddon[]> {
+    return db
+      .select()
+      .from(serverAddons)
+      .where(and(eq(serverAddons.virtfusionServerId, virtfusionServerId), eq(serverAddons.status, 'active')))
+      .orderBy(serverAddons.createdAt);
+  },
+
+  async getActiveAddonsForUser(auth0UserId: string): Promise<ServerAddon[]> {
+    return db
+      .select()
+      .from(serverAddons)
+      .where(and(eq(serverAddons.auth0UserId, auth0UserId), eq(serverAddons.status, 'active')))
+      .orderBy(serverAddons.createdAt);
+  },
+
+  async getServerAddon(id: number): Promise<ServerAddon | undefined> {
+    const [addon] = await db.select().from(serverAddons).where(eq(serverAddons.id, id)).limit(1);
+    return addon;
+  },
+
+  async createServerAddon(data: InsertServerAddon): Promise<ServerAddon> {
+    const [addon] = await db.insert(serverAddons).values(data).returning();
+    return addon;
+  },
+
+  async setServerAddonAddress(id: number, address: string | null): Promise<void> {
+    await db.update(serverAddons).set({ address }).where(eq(serverAddons.id, id));
+  },
+
+  // Only cancels an add-on that is still active, so a double click can't release it twice
+  async cancelServerAddon(id: number): Promise<boolean> {
+    const cancelled = await db
+      .update(serverAddons)
+      .set({ status: 'cancelled', cancelledAt: new Date() })
+      .where(and(eq(serverAddons.id, id), eq(serverAddons.status, 'active')))
+      .returning({ id: serverAddons.id });
+    return cancelled.length > 0;
+  },
+
+  // The server is gone, and its addresses went back to VirtFusion with it
+  async cancelAddonsForServer(virtfusionServerId: string): Promise<void> {
+    await db
+      .update(serverAddons)
+      .set({ status: 'cancelled', cancelledAt: new Date() })
+      .where(and(eq(serverAddons.virtfusionServerId, virtfusionServerId), eq(serverAddons.status, 'active')));
+  },
+
+  async deleteServerAddon(id: number): Promise<void> {
+    await db.delete(serverAddons).where(eq(serverAddons.id, id));
+  },
+
+  async getIpAddonSettings(): Promise<IpAddonSettings> {
+    const setting = await this.getSecuritySetting('ip_addons');
+    if (!setting?.value) return DEFAULT_IP_ADDON_SETTINGS;
+    try {
+      const parsed = ipAddonSettingsSchema.safeParse(JSON.parse(setting.value));
+      return parsed.success ? parsed.data : DEFAULT_IP_ADDON_SETTINGS;
+    } catch {
+      return DEFAULT_IP_ADDON_SETTINGS;
+    }
+  },
+
+  async updateIpAddonSettings(settings: IpAddonSettings): Promise<void> {
+    await this.upsertSecuritySetting('ip_addons', JSON.stringify(settings), true);
+  },
+
+  // ========== BILLING TERMS ==========
+
+  async getBillingTermSettings(): Promise<BillingTermSettings> {
+    const setting = await this.getSecuritySetting('billing_terms');
+    if (!setting?.value) return DEFAULT_BILLING_TERM_SETTINGS;
+    try {
+      const parsed = billingTermSettingsSchema.safeParse(JSON.parse(setting.value));
+      return parsed.success ? parsed.data : DEFAULT_BILLING_TERM_SETTINGS;
+    } catch {
+      return DEFAULT_BILLING_TERM_SETTINGS;
+    }
+  },
+
+  async updateBillingTermSettings(settings: BillingTermSettings): Promise<void> {
+    await this.upsertSecuritySetting('billing_terms', JSON.stringify(settings), true);
+  },
 };
@@ -0,0 +1,247 @@
+import { eq } from "drizzle-orm";
+import { db } from "./db";
+import { dbStorage } from "./storage";
+import { virtfusionClient } from "./virtfusion";
+import { log } from './log';
+import { chargeTransferOverage } from "./billing";
+import { sendTransferUsageWarningEmail } from "./email";
+import {
+  describeOveragePolicy,
+  evaluateTransferQuota,
+  isUnlimitedTransfer,
+  transferPeriodKey,
+} from "./transfer-quota";
+import { userMappings, type Plan, type ServerBilling, type ServerTransferUsage, type TransferOverageSettings } from "../shared/schema";
+import {
+  markProcessorFailed,
+  markProcessorStarted,
+  markProcessorSucceeded,
+  scheduleProcessorRun,
+} from "./processor-health";
+
+const PROCESSING_INTERVAL_MS = 30 * 60 * 1000;
+const TRANSFER_QUOTA_PROCESSOR = "transfer-quotas";
+
+let isRunning = false;
+
+type TransferQuotaRunResult = {
+  servers: number;
+  warned: number;
+  billed: number;
+  throttled: number;
+  suspended: number;
+  lifted: number;
+  errors: number;
+};
+
+function formatGb(bytes: number): string {
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+async function getUserEmail(auth0UserId: string): Promise<string | null> {
+  const [mapping] = await db.select().from(userMappings).where(eq(userMappings.auth0UserId, auth0UserId));
+  return mapping?.email ?? null;
+}
+
+// Put back whatever was done to the server when an earlier period ran out
+async function liftStaleEnforcements(billing: ServerBilling, period: string): Promise<number> {
+  const stale = await dbStorage.getStaleTransferEnforcements(billing.virtfusionServerId, period);
+  let lifted = 0;
+
+  for (const usage of stale) {
+    if (usage.enforcement === 'throttled') {
+      await virtfusionClient.setServerNetworkSpeed(
+        billing.virtfusionServerId,
+        usage.originalInAverage ?? 0,
+        usage.originalOutAverage ?? 0,
+      );
+    } else if (usage.enforcement === 'suspended') {
+      // Leave billing and admin suspensions in place; those have their own way back
+      if (billing.status !== 'suspended' && !billing.adminSuspended) {
+        await virtfusionClient.unsuspendServer(billing.virtfusionServerId);
+      }
+    }
+    await dbStorage.setTransferEnforcement(usage.id, { enforcement: null });
+    log(`Lifted transfer ${usage.enforcement} on server ${billing.virtfusionServerId} (period ${usage.period} ended)`, 'transfer-quotas');
+    lifted++;
+  }
+
+  return lifted;
+}
+
+async function throttleServer(
+  usage: ServerTransferUsage,
+  settings: TransferOverageSettings,
+  originalSpeed: { inAverage: number; outAverage: number },
+): Promise<void> {
+  // Mbps to KB/s, the unit VirtFusion uses for interface speeds
+  const throttleKBps = Math.round((settings.throttleMbps * 1000) / 8);
+
+  await virtfusionClient.setServerNetworkSpeed(usage.virtfusionServerId, throttleKBps, throttleKBps);
+  await dbStorage.setTransferEnforcement(usage.id, {
+    enforcement: 'throttled',
+    originalInAverage: originalSpeed.inAverage,
+    originalOutAverage: originalSpeed.outAverage,
+  });
+}
+
+async function checkServer(
+  billing: ServerBilling,
+  settings: TransferOverageSettings,
+  planCache: Map<number, Plan | undefined>,
+  now: Date,
+  result: TransferQuotaRunResult,
+): Promise<void> {
+  const traffic = await virtfusionClient.getServerTrafficHistory(billing.virtfusionServerId);
+  if (!traffic) {
+    result.errors++;
+    return;
+  }
+
+  if (!planCache.has(billing.planId)) {
+    planCache.set(billing.planId, await dbStorage.getPlanById(billing.planId));
+  }
+  const limitGb = planCache.get(billing.planId)?.transferGb ?? traffic.current.limit ?? 0;
+  const period = transferPeriodKey(traffic.current.periodStart, now);
+
+  result.lifted += await liftStaleEnforcements(billing, period);
+
+  const usage = await dbStorage.recordTransferUsage({
+    auth0UserId: billing.auth0UserId,
+    virtfusionServerId: billing.virtfusionServerId,
+    period,
+    usedBytes: traffic.current.total,
+    limitGb,
+  });
+
+  // Servers that are already off for another reason only have their usage recorded
+  if (isUnlimitedTransfer(limitGb) || billing.status === 'suspended' || billing.status === 'trial_ended' || billing.adminSuspended) {
+    return;
+  }
+
+  const decision = evaluateTransferQuota(usage, settings.policy, {
+    chargeable: !billing.freeServer && !billing.isTrial,
+  });
+  if (!decision.warn && !decision.billGb && !decision.enforce) {
+    return;
+  }
+
+  const serverName = (await virtfusionClient.getServer(billing.virtfusionServerId).catch(() => null))?.name
+    || `Server #${billing.virtfusionServerId}`;
+
+  if (decision.warn) {
+    const email = await getUserEmail(billing.auth0UserId);
+    if (email) {
+      const emailResult = await sendTransferUsageWarningEmail(
+        email,
+        serverName,
+        billing.virtfusionServerId,
+        decision.warn,
+        formatGb(usage.usedBytes),
+        `${limitGb} GB`,
+        describeOveragePolicy(settings),
+      );
+      if (!emailResult.success) {
+        log(`Could not send transfer warning for server ${billing.virtfusionServerId}: ${emailResult.error}`, 'transfer-quotas');
+      }
+    }
+    await dbStorage.markTransferWarningSent(usage.id, decision.warn);
+    result.warned++;
+  }
+
+  let enforce = decision.enforce;
+  if (decision.billGb > 0) {
+    const charge = await chargeTransferOverage({
+      usage,
+      gb: decision.billGb,
+      pricePerGbCents: settings.pricePerGbCents,
+      serverName,
+    });
+    if (charge.success) {
+      result.billed++;
+    } else {
+      // The wallet can't cover the overage, so fall back to throttling until it resets
+      log(`Could not bill transfer overage for server ${billing.virtfusionServerId}; throttling instead`, 'transfer-quotas');
+      enforce = 'throttle';
+    }
+  }
+
+  if (enforce === 'throttle') {
+    await throttleServer(usage, settings, traffic.network);
+    result.throttled++;
+    log(`Throttled server ${billing.virtfusionServerId} to ${settings.throttleMbps} Mbps for exceeding its transfer allowance`, 'transfer-quotas');
+  } else if (enforce === 'suspend') {
+    await virtfusionClient.suspendServer(billing.virtfusionServerId);
+    await dbStorage.setTransferEnforcement(usage.id, { enforcement: 'suspended' });
+    result.suspended++;
+    log(`Suspended server ${billing.virtfusionServerId} for exceeding its transfer allowance`, 'transfer-quotas');
+  }
+}
+
+async function processTransferQuotas(): Promise<TransferQuotaRunResult> {
+  const now = new Date();
+  const [servers, settings] = await Promise.all([
+    dbStorage.getServersForTransferTracking(),
+    dbStorage.getTransferOverageSettings(),
+  ]);
+  const planCache = new Map<number, Plan | undefined>();
+  const result: TransferQuotaRunResult = {
+    servers: servers.length,
+    warned: 0,
+    billed: 0,
+    throttled: 0,
+    suspended: 0,
+    lifted: 0,
+    errors: 0,
+  };
+
+  for (const billing of servers) {
+    try {
+      await checkServer(billing, settings, planCache, now, result);
+    } catch (error: any) {
+      result.errors++;
+      log(`Error checking transfer quota for server ${billing.virtfusionServerId}: ${error.message}`, 'transfer-quotas');
+    }
+  }
+
+  return result;
+}
+
+export function startTransferQuotaProcessor(): void {
+  if (isRunning) {
+    log('Transfer quota processor already running', 'transfer-quotas');
+    return;
+  }
+
+  isRunning = true;
+  log('Starting transfer quota processor (checking every 30 minutes)', 'transfer-quotas');
+
+  const runProcessor = async () => {
+    if (!isRunning) return;
+
+    const nextRunAt = new Date(Date.now() + PROCESSING_INTERVAL_MS);
+    const startedAtMs = await markProcessorStarted(TRANSFER_QUOTA_PROCESSOR, { nextRunAt });
+
+    try {
+      const result = await processTransferQuotas();
+      log(`Transfer quota processor: ${result.servers} servers, ${result.warned} warned, ${result.billed} billed, ${result.throttled} throttled, ${result.suspended} suspended, ${result.lifted} lifted, ${result.errors} errors`, 'transfer-quotas');
+      await markProcessorSucceeded(TRANSFER_QUOTA_PROCESSOR, startedAtMs, { nextRunAt, lastResult: result });
+    } catch (error: any) {
+      log(`Transfer quota processor error: ${error.message}`, 'transfer-quotas');
+      await markProcessorFailed(TRANSFER_QUOTA_PROCESSOR, error, startedAtMs, { nextRunAt });
+    }
+
+    if (isRunning) {
+      void scheduleProcessorRun(TRANSFER_QUOTA_PROCESSOR, { nextRunAt });
+      setTimeout(runProcessor, PROCESSING_INTERVAL_MS);
+    }
+  };
+
+  void scheduleProcessorRun(TRANSFER_QUOTA_PROCESSOR, { nextRunAt: new Date() });
+  runProcessor();
+}
+
+export function stopTransferQuotaProcessor(): void {
+  isRunning = false;
+  log('Stopping transfer quota processor', 'transfer-quotas');
+}
@@ -0,0 +1,95 @@
+import type { ServerTransferUsage, TransferOverageSettings } from "@shared/schema";
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+
+// Plans at or above this allowance are sold as unlimited, matching the control panel
+export const UNLIMITED_TRANSFER_GB = 50000;
+
+export const DEFAULT_TRANSFER_OVERAGE_SETTINGS: TransferOverageSettings = {
+  policy: "throttle",
+  pricePerGbCents: 50,
+  throttleMbps: 10,
+};
+
+export function isUnlimitedTransfer(limitGb: number): boolean {
+  return !limitGb || limitGb <= 0 || limitGb >= UNLIMITED_TRANSFER_GB;
+}
+
+// Traffic periods follow VirtFusion's billing period when it reports one, otherwise the calendar month
+export function transferPeriodKey(periodStart: string | null | undefined, now: Date): string {
+  if (periodStart) {
+    const start = new Date(periodStart);
+    if (!Number.isNaN(start.getTime())) {
+      return start.toISOString().slice(0, 10);
+    }
+  }
+  return `${now.toISOString().slice(0, 7)}-01`;
+}
+
+export function transferUsedPercent(usedBytes: number, limitGb: number): number {
+  if (isUnlimitedTransfer(limitGb)) return 0;
+  return (usedBytes / (limitGb * BYTES_PER_GB)) * 100;
+}
+
+// Whole GB over the allowance; a partial GB counts as a full one
+export function transferOverageGb(usedBytes: number, limitGb: number): number {
+  if (isUnlimitedTransfer(limitGb)) return 0;
+  return Math.max(0, Math.ceil((usedBytes - limitGb * BYTES_PER_GB) / BYTES_PER_GB));
+}
+
+type TransferQuotaState = Pick<
+  ServerTransferUsage,
+  "usedBytes" | "limitGb" | "warned80At" | "warned100At" | "overageBilledGb" | "enforcement"
+>;
+
+export interface TransferQuotaDecision {
+  percent: number;
+  // Warning email to send on this check. Jumping straight past 100% only sends the 100% one.
+  warn: 80 | 100 | null;
+  // GB of overage not yet charged to the wallet
+  billGb: number;
+  enforce: "throttle" | "suspend" | null;
+}
+
+/**
+ * Decides what to do about a server's transfer usage under the configured policy.
+ * Billing charges each new whole GB over the allowance as it is used; throttling
+ * and suspension happen once per period when usage reaches 100%. Servers that are
+ * never charged (complimentary or trial) are throttled instead of billed.
+ */
+export function evaluateTransferQuota(
+  usage: TransferQuotaState,
+  policy: TransferOverageSettings["policy"],
+  options: { chargeable: boolean },
+): TransferQuotaDecision {
+  const percent = transferUsedPercent(usage.usedBytes, usage.limitGb);
+  if (isUnlimitedTransfer(usage.limitGb)) {
+    return { percent: 0, warn: null, billGb: 0, enforce: null };
+  }
+
+  let warn: TransferQuotaDecision["warn"] = null;
+  if (percent >= 100 && !usage.warned100At) warn = 100;
+  else if (percent >= 80 && !usage.warned80At && !usage.warned100At) warn = 80;
+
+  if (percent < 100 || usage.enforcement) {
+    return { percent, warn, billGb: 0, enforce: null };
+  }
+
+  if (policy === "bill" && options.chargeable) {
+    const billGb = Math.max(0, transferOverageGb(usage.usedBytes, usage.limitGb) - usage.overageBilledGb);
+    return { percent, warn, billGb, enforce: null };
+  }
+
+  return { percent, warn, billGb: 0, enforce: policy === "suspend" ? "suspend" : "throttle" };
+}
+
+export function describeOveragePolicy(settings: TransferOverageSettings): string {
+  switch (settings.policy) {
+    case "bill":
+      return `Additional transfer is charged to your wallet at $${(settings.pricePerGbCents / 100).toFixed(2)} per GB.`;
+    case "suspend":
+      return "Your server will be suspended until your transfer allowance resets.";
+    case "throttle":
+      return `Your server's network speed will be limited to ${settings.throttleMbps} Mbps until your transfer allowance resets.`;
+  }
+}
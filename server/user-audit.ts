@@ -124,9 +124,61 @@ export const UserActions = {
   SERVER_DELETE: "server_delete",
   SERVER_REINSTALL: "server_reinstall",
   SERVER_PASSWORD_RESET: "server_password_reset",
+  SERVER_PLAN_CHANGE: "server_plan_change",
+  SNAPSHOT_CREATE: "snapshot_create",
+  SNAPSHOT_RESTORE: "snapshot_restore",
+  SNAPSHOT_DELETE: "snapshot_delete",
+  SERVER_FIREWALL_UPDATE: "server_firewall_update",
+  SERVER_RDNS_UPDATE: "server_rdns_update",
+  POWER_SCHEDULE_CREATE: "power_schedule_create",
+  POWER_SCHEDULE_UPDATE: "power_schedule_update",
+  POWER_SCHEDULE_DELETE: "power_schedule_delete",
+  SERVER_LABELS_UPDATE: "server_labels_update",
+  ALERT_RULE_CREATE: "alert_rule_create",
+  ALERT_RULE_UPDATE: "alert_rule_update",
+  ALERT_RULE_DELETE: "alert_rule_delete",
+  SERVER_TRANSFER_OFFER: "server_transfer_offer",
+  SERVER_TRANSFER_CANCEL: "server_transfer_cancel",
+  SERVER_TRANSFER_ACCEPT: "server_transfer_accept",
+  SERVER_TRANSFER_DECLINE: "server_transfer_decline",
+  SERVER_ISO_MOUNT: "server_iso_mount",
+  SERVER_ISO_UNMOUNT: "server_iso_unmount",
+  SERVER_BOOT_ORDER_UPDATE: "server_boot_order_update",
+  ISO_SUBMIT: "iso_submit",
+  ISO_DELETE: "iso_delete",
+  SERVER_RESCUE_ENTER: "server_rescue_enter",
+  SERVER_RESCUE_EXIT: "server_rescue_exit",
+  SERVER_ADDON_PURCHASE: "server_addon_purchase",
+  SERVER_ADDON_CANCEL: "server_addon_cancel",
+
+  // SSH keys
+  SSH_KEY_ADD: "ssh_key_add",
+  SSH_KEY_UPDATE: "ssh_key_update",
+  SSH_KEY_DELETE: "ssh_key_delete",
+
+  // User-data scripts
+  USER_DATA_SCRIPT_ADD: "user_data_script_add",
+  USER_DATA_SCRIPT_UPDATE: "user_data_script_update",
+  USER_DATA_SCRIPT_DELETE: "user_data_script_delete",
+
+  // Projects
+  PROJECT_CREATE: "project_create",
+  PROJECT_UPDATE: "project_update",
+  PROJECT_DELETE: "project_delete",
+
+  // Firewall rule sets
+  FIREWALL_RULE_SET_ADD: "firewall_rule_set_add",
+  FIREWALL_RULE_SET_UPDATE: "firewall_rule_set_update",
+  FIREWALL_RULE_SET_DELETE: "firewall_rule_set_delete",
+  FIREWALL_RULE_SET_APPLY: "firewall_rule_set_apply",
+
+  // API tokens
+  API_TOKEN_CREATE: "api_token_create",
+  API_TOKEN_REVOKE: "api_token_revoke",
 
   // Account
   PROFILE_UPDATE: "profile_update",
+  BILLING_PROFILE_UPDATE: "billing_profile_update",
   EMAIL_CHANGE: "email_change",
   ACCOUNT_DELETE: "account_delete",
 } as const;
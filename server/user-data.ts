@@ -0,0 +1,40 @@
+export const MAX_USER_DATA_BYTES = 64 * 1024;
+export const MAX_USER_DATA_SCRIPTS_PER_USER = 20;
+
+// First-line markers cloud-init recognises for the user-data formats we allow
+const USER_DATA_HEADERS = ["#cloud-config", "#!", "#include", "#cloud-boothook"];
+
+/**
+ * Normalise and validate a cloud-init user-data script. Line endings are
+ * converted to LF because scripts pasted from Windows editors otherwise fail
+ * with "bad interpreter" errors on first boot.
+ */
+export function normalizeUserData(input: string | null | undefined):
+  | { ok: true; value: string | null }
+  | { ok: false; error: string } {
+  if (input === null || input === undefined) {
+    return { ok: true, value: null };
+  }
+
+  const normalized = input.replace(/\r\n?/g, "\n").replace(/^\uFEFF/, "");
+  if (!normalized.trim()) {
+    return { ok: true, value: null };
+  }
+
+  if (normalized.includes("\0")) {
+    return { ok: false, error: "User-data script contains invalid characters." };
+  }
+  if (Buffer.byteLength(normalized, "utf8") > MAX_USER_DATA_BYTES) {
+    return { ok: false, error: "User-data script must be 64 KB or less." };
+  }
+
+  const firstLine = normalized.trimStart().split("\n", 1)[0];
+  if (!USER_DATA_HEADERS.some((header) => firstLine.startsWith(header))) {
+    return {
+      ok: false,
+      error: "User-data must start with #cloud-config or a shebang line such as #!/bin/bash.",
+    };
+  }
+
+  return { ok: true, value: normalized.trimStart() };
+}
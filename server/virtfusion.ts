@@ -1,4 +1,5 @@
 import { log } from './log';
+import type { HypervisorAllocation } from './placement';
 
 // Request timeout in milliseconds (10 seconds)
 const REQUEST_TIMEOUT_MS = 10000;
@@ -72,6 +73,14 @@ export class VirtFusionTimeoutError extends Error {
   }
 }
 
+export interface VirtFusionSnapshot {
+  id: number;
+  name: string;
+  status: string; // pending, complete, failed
+  sizeMb: number | null;
+  createdAt: string | null;
+}
+
 // VirtFusion API response structure - based on actual API response
 interface VirtFusionServerResponse {
   id: number;
@@ -123,9 +132,11 @@ interface VirtFusionServerResponse {
         address?: string;
         gateway?: string;
         netmask?: string;
+        rdns?: string | null;
       }>;
       ipv6?: Array<{
         address?: string;
+        rdns?: string | null;
       }>;
     }>;
   };
@@ -824,6 +835,21 @@ export class VirtFusionClient {
         diskUsage = (diskUsedBytes / diskTotalBytes) * 100;
       }
       
+      // Cumulative IO counters (libvirt domain stats naming), used for rate history.
+      // Not every hypervisor reports these, so they stay null when missing.
+      const sumCounter = (devices: any, keys: string[]): number | null => {
+        let total: number | null = null;
+        for (const device of Object.values(devices || {}) as any[]) {
+          if (!device || typeof device !== 'object') continue;
+          const key = keys.find((candidate) => device[candidate] !== undefined);
+          if (!key) continue;
+          const value = parseInt(device[key], 10);
+          if (!Number.isNaN(value)) total = (total ?? 0) + value;
+        }
+        return total;
+      };
+      const netDevices = remoteState.net || remoteState.network || remoteState.interfaces || {};
+
       // Memory details for display
       const memTotalMB = Math.round((parseInt(memory.memtotal, 10) || 0) / 1024);
       const memUsedMB = Math.round(((parseInt(memory.memtotal, 10) || 0) - (parseInt(memory.memavailable, 10) || parseInt(memory.memfree, 10) || 0)) / 1024);
@@ -839,6 +865,10 @@ export class VirtFusionClient {
         disk_used_gb: Math.round(diskUsedBytes / (1024 * 1024 * 1024) * 100) / 100,
         disk_total_gb: Math.round(diskTotalBytes / (1024 * 1024 * 1024) * 100) / 100,
         running: remoteState.running || remoteState.state === 'running',
+        disk_read_bytes: sumCounter(disk, ['rd.bytes', 'rd_bytes']),
+        disk_write_bytes: sumCounter(disk, ['wr.bytes', 'wr_bytes']),
+        net_rx_bytes: sumCounter(netDevices, ['rx.bytes', 'rx_bytes']),
+        net_tx_bytes: sumCounter(netDevices, ['tx.bytes', 'tx_bytes']),
       };
     } catch (error) {
       log(`Failed to fetch live stats for server ${serverId}: ${error}`, 'virtfusion');
@@ -888,6 +918,8 @@ export class VirtFusionClient {
           inSpeedMbps,
           outSpeedMbps,
           portSpeed: Math.max(inSpeedMbps, outSpeedMbps),
+          inAverage: inSpeedKbps,   // raw KB/s, needed to restore the speed after throttling
+          outAverage: outSpeedKbps,
         },
         history: monthlyData,
       };
@@ -1135,7 +1167,7 @@ export class VirtFusionClient {
     }
   }
 
-  async reinstallServer(serverId: string, osId: number, hostname?: string) {
+  async reinstallServer(serverId: string, osId: number, hostname?: string, options: { sshKeys?: number[]; userData?: string | null } = {}) {
     try {
       const body: any = {
         operatingSystemId: osId,
@@ -1147,7 +1179,17 @@ export class VirtFusionClient {
         body.name = hostname;
       }
 
-      log(`Reinstalling server ${serverId} with OS template ${osId}${hostname ? `, hostname: ${hostname}` : ''}`, 'virtfusion');
+      // VirtFusion SSH key IDs to install into root's authorized_keys
+      if (options.sshKeys && options.sshKeys.length > 0) {
+        body.sshKeys = options.sshKeys;
+      }
+
+      // cloud-init user-data, run once on first boot of the new install
+      if (options.userData) {
+        body.userData = options.userData;
+      }
+
+      log(`Reinstalling server ${serverId} with OS template ${osId}${hostname ? `, hostname: ${hostname}` : ''}${body.sshKeys ? `, ${body.sshKeys.length} SSH key(s)` : ''}${body.userData ? ', with user-data' : ''}`, 'virtfusion');
 
       const response = await this.request<{ data: any }>(`/servers/${serverId}/build`, {
         method: 'POST',
@@ -1175,6 +1217,37 @@ export class VirtFusionClient {
     }
   }
 
+  // Register a public key against a VirtFusion user so it can be referenced in builds
+  async createSshKey(userId: number, name: string, publicKey: string): Promise<{ id: number }> {
+    try {
+      const response = await this.request<{ data: { id: number } }>('/ssh_keys', {
+        method: 'POST',
+        body: JSON.stringify({ userId, name, publicKey }),
+      });
+      if (!response.data?.id) {
+        throw new Error('VirtFusion did not return an SSH key ID');
+      }
+      log(`Created SSH key ${response.data.id} for user ${userId}`, 'virtfusion');
+      return { id: response.data.id };
+    } catch (error) {
+      log(`Failed to create SSH key for user ${userId}: ${error}`, 'virtfusion');
+      throw error;
+    }
+  }
+
+  async deleteSshKey(keyId: number): Promise<boolean> {
+    try {
+      await this.request(`/ssh_keys/${keyId}`, {
+        method: 'DELETE',
+      });
+      log(`Deleted SSH key ${keyId}`, 'virtfusion');
+      return true;
+    } catch (error) {
+      log(`Failed to delete SSH key ${keyId}: ${error}`, 'virtfusion');
+      return false;
+    }
+  }
+
   async resetServerPassword(serverId: string) {
     try {
       log(`Resetting password for server ${serverId}`, 'virtfusion');
@@ -1263,9 +1336,11 @@ export class VirtFusionClient {
             address: ip.address || 'N/A',
             gateway: ip.gateway || 'N/A',
             netmask: ip.netmask || 'N/A',
+            ptr: ip.rdns || null,
           })) || [],
           ipv6: iface.ipv6?.map(ip => ({
             address: ip.address || 'N/A',
+            ptr: ip.rdns || null,
           })) || [],
         })),
       };
@@ -1275,6 +1350,23 @@ export class VirtFusionClient {
     }
   }
 
+  // Set the PTR record for one of the server's addresses; null resets it to the default
+  async updateReverseDns(serverId: string, address: string, hostname: string | null) {
+    try {
+      await this.request(`/servers/${serverId}/ipAddresses/${encodeURIComponent(address)}/rdns`, {
+        method: 'PUT',
+        body: JSON.stringify({ rdns: hostname }),
+      });
+      this.invalidateServerCache(serverId);
+
+      log(`Updated reverse DNS for ${address} on server ${serverId}`, 'virtfusion');
+      return true;
+    } catch (error) {
+      log(`Failed to update reverse DNS for ${address} on server ${serverId}: ${error}`, 'virtfusion');
+      throw error;
+    }
+  }
+
   async updateServerName(serverId: string, name: string) {
     try {
       const data = await this.request<{ data: any }>(`/servers/${serverId}/modify/name`, {
@@ -1292,6 +1384,230 @@ export class VirtFusionClient {
     }
   }
 
+  async listSnapshots(serverId: string): Promise<VirtFusionSnapshot[]> {
+    try {
+      const response = await this.request<{ data: any[] }>(`/servers/${serverId}/snapshots`);
+      return (response.data || []).map((snapshot: any) => ({
+        id: Number(snapshot.id),
+        name: snapshot.name || `Snapshot ${snapshot.id}`,
+        status: snapshot.status || 'complete',
+        sizeMb: typeof snapshot.size === 'number' ? snapshot.size : null,
+        createdAt: snapshot.created || snapshot.createdAt || null,
+      }));
+    } catch (error) {
+      log(`Failed to list snapshots for server ${serverId}: ${error}`, 'virtfusion');
+      throw error;
+    }
+  }
+
+  async createSnapshot(serverId: string, name: string) {
+    try {
+      const data = await this.request<{ data: any }>(`/servers/${serverId}/snapshots`, {
+        method: 'POST',
+        body: JSON.stringify({ name }),
+      });
+      log(`Snapshot "${name}" requested for server ${serverId}`, 'virtfusion');
+      return data.data;
+    } catch (error) {
+      log(`Failed to create snapshot for server ${serverId}: ${error}`, 'virtfusion');
+      throw error;
+    }
+  }
+
+  async restoreSnapshot(serverId: string, snapshotId: number) {
+    try {
+      const data = await this.request<{ data: any }>(`/servers/${serverId}/snapshots/${snapshotId}/restore`, {
+        method: 'POST',
+      });
+
+      // Restoring rewrites the disk and reboots the server
+      this.invalidateServerCache(serverId);
+
+      log(`Restoring snapshot ${snapshotId} on server ${serverId}`, 'virtfusion');
+      return data.data;
+    } catch (error) {
+      log(`Failed to restore snapshot ${snapshotId} on server ${serverId}: ${error}`, 'virtfusion');
+      throw error;
+    }
+  }
+
+  async deleteSnapshot(serverId: string, snapshotId: number) {
+    try {
+      await this.request(`/servers/${serverId}/snapshots/${snapshotId}`, {
+        method: 'DELETE',
+      });
+      log(`Deleted snapshot ${snapshotId} on server ${serverId}`, 'virtfusion');
+      return true;
+    } catch (error) {
+      log(`Failed to delete snapshot ${snapshotId} on server ${serverId}: ${error}`, 'virtfusion');
+      throw error;
+    }
+  }
+
+  // Attach an ISO to the server's virtual CD-ROM. The hypervisor fetches the image from the URL.
+  async mountIso(serverId: string, isoUrl: string) {
+    try {
+      await this.request(`/servers/${serverId}/media/iso`, {
+        method: 'PUT',
+        body: JSON.stringify({ url: isoUrl }),
+      });
+      log(`Mounted ISO ${isoUrl} on server ${serverId}`, 'virtfusion');
+    } catch (error) {
+      log(`Failed to mount ISO on server ${serverId}: ${error}`, 'virtfusion');
+      throw error;
+    }
+  }
+
+  async unmountIso(serverId: string) {
+    try {
+      await this.request(`/servers/${serverId}/media/iso`, {
+        method: 'DELETE',
+      });
+      log(`Unmounted ISO from server ${serverId}`, 'virtfusion');
+    } catch (error) {
+      log(`Failed to unmount ISO from server ${serverId}: ${error}`, 'virtfusion');
+      throw error;
+    }
+  }
+
+  // Takes effect on the next boot
+  async setBootOrder(serverId: string, bootOrder: Array<'hd' | 'cdrom'>) {
+    try {
+      await this.request(`/servers/${serverId}/bootOrder`, {
+        method: 'PUT',
+        body: JSON.stringify({ order: bootOrder }),
+      });
+      log(`Set boot order for server ${serverId} to ${bootOrder.join(', ')}`, 'virtfusion');
+    } catch (error) {
+      log(`Failed to set boot order for server ${serverId}: ${error}`, 'virtfusion');
+      throw error;
+    }
+  }
+
+  // Restart the server from the rescue image with its own disk attached and the given root password
+  async enterRescueMode(serverId: string, rootPassword: string) {
+    try {
+      await this.request(`/servers/${serverId}/rescue`, {
+        method: 'POST',
+        body: JSON.stringify({ password: rootPassword }),
+      });
+      log(`Server ${serverId} booted into rescue mode`, 'virtfusion');
+    } catch (error) {
+      log(`Failed to boot server ${serverId} into rescue mode: ${error}`, 'virtfusion');
+      throw error;
+    }
+  }
+
+  // Restart the server from its own disk
+  async exitRescueMode(serverId: string) {
+    try {
+      await this.request(`/servers/${serverId}/rescue`, {
+        method: 'DELETE',
+      });
+      log(`Server ${serverId} returned to normal boot`, 'virtfusion');
+    } catch (error) {
+      log(`Failed to return server ${serverId} to normal boot: ${error}`, 'virtfusion');
+      throw error;
+    }
+  }
+
+  // Assign the next free IPv4 address from a block to the server. Returns the address, when reported.
+  async addServerIpv4(serverId: string, ipBlockId: number): Promise<string | null> {
+    try {
+      const response = await this.request<{ data?: any }>(`/servers/${serverId}/ipv4`, {
+        method: 'POST',
+        body: JSON.stringify({ ipBlockId, quantity: 1 }),
+      });
+      const assigned = Array.isArray(response?.data) ? response.data[0] : response?.data;
+      const address = assigned?.address || assigned?.ip || null;
+      log(`Assigned IPv4 ${address ?? '(pending)'} from block ${ipBlockId} to server ${serverId}`, 'virtfusion');
+      return address;
+    } catch (error) {
+      log(`Failed to assign IPv4 from block ${ipBlockId} to server ${serverId}: ${error}`, 'virtfusion');
+      throw error;
+    }
+  }
+
+  // Release an IPv4 address from the server back to its block
+  async removeServerIpv4(serverId: string, address: string) {
+    try {
+      await this.request(`/servers/${serverId}/ipv4`, {
+        method: 'DELETE',
+        body: JSON.stringify({ ip: [address] }),
+      });
+      log(`Released IPv4 ${address} from server ${serverId}`, 'virtfusion');
+    } catch (error) {
+      log(`Failed to release IPv4 ${address} from server ${serverId}: ${error}`, 'virtfusion');
+      throw error;
+    }
+  }
+
+  // Route an IPv6 prefix of the given length from a block to the server. Returns the prefix in CIDR form, when reported.
+  async addServerIpv6Subnet(serverId: string, ipBlockId: number, prefixLength: number): Promise<string | null> {
+    try {
+      const response = await this.request<{ data?: any }>(`/servers/${serverId}/ipv6`, {
+        method: 'POST',
+        body: JSON.stringify({ ipBlockId, cidr: prefixLength }),
+      });
+      const assigned = Array.isArray(response?.data) ? response.data[0] : response?.data;
+      const subnet = assigned?.subnet ? `${assigned.subnet}/${assigned.cidr ?? prefixLength}` : null;
+      log(`Assigned IPv6 /${prefixLength} ${subnet ?? '(pending)'} from block ${ipBlockId} to server ${serverId}`, 'virtfusion');
+      return subnet;
+    } catch (error) {
+      log(`Failed to assign IPv6 /${prefixLength} from block ${ipBlockId} to server ${serverId}: ${error}`, 'virtfusion');
+      throw error;
+    }
+  }
+
+  // Remove a routed IPv6 prefix from the server
+  async removeServerIpv6Subnet(serverId: string, subnet: string) {
+    try {
+      await this.request(`/servers/${serverId}/ipv6`, {
+        method: 'DELETE',
+        body: JSON.stringify({ subnet }),
+      });
+      log(`Released IPv6 ${subnet} from server ${serverId}`, 'virtfusion');
+    } catch (error) {
+      log(`Failed to release IPv6 ${subnet} from server ${serverId}: ${error}`, 'virtfusion');
+      throw error;
+    }
+  }
+
+  // Replace the hypervisor firewall on the server's primary interface.
+  // An empty rule list turns the firewall off.
+  async applyFirewallRules(serverId: string, rules: Array<{
+    direction: 'inbound' | 'outbound';
+    protocol: 'tcp' | 'udp' | 'icmp' | 'any';
+    portStart: number | null;
+    portEnd: number | null;
+    cidr: string;
+    action: 'allow' | 'deny';
+  }>) {
+    try {
+      await this.request(`/servers/${serverId}/firewall/primary`, {
+        method: 'PUT',
+        body: JSON.stringify({
+          enabled: rules.length > 0,
+          rules: rules.map((rule, index) => ({
+            order: index + 1,
+            direction: rule.direction === 'inbound' ? 'in' : 'out',
+            protocol: rule.protocol,
+            port: rule.portStart === null
+              ? null
+              : rule.portStart === rule.portEnd ? String(rule.portStart) : `${rule.portStart}:${rule.portEnd}`,
+            address: rule.cidr,
+            action: rule.action === 'allow' ? 'accept' : 'drop',
+          })),
+        }),
+      });
+      log(`Applied ${rules.length} firewall rules to server ${serverId}`, 'virtfusion');
+      return true;
+    } catch (error) {
+      log(`Failed to apply firewall rules to server ${serverId}: ${error}`, 'virtfusion');
+      throw error;
+    }
+  }
+
   private transformServer(server: VirtFusionServerResponse & { remoteState?: { running?: boolean; state?: string } }) {
     // Check remoteState first for live power status from hypervisor
     const remoteState = (server as any).remoteState;
@@ -1818,125 +2134,124 @@ export class VirtFusionClient {
     }
   }
 
-  async provisionServer(params: {
+  // Creates the server shell. Provisioning stores the returned ID straight away so a retry never creates a second one.
+  async createServer(params: {
     userId: number;
     packageId: number;
     hostname: string;
-    extRelationId: string;
-    osId?: number; // Optional - if not provided, server is created without OS (awaiting setup)
-    hypervisorGroupId?: number;
-  }): Promise<{ serverId: number; name: string; uuid?: string; password?: string; primaryIp?: string; osName?: string }> {
-    const { userId, packageId, hostname, extRelationId, osId, hypervisorGroupId } = params;
+    hypervisorGroupId?: number | null;
+  }): Promise<{ serverId: number; name: string; uuid?: string; primaryIp?: string }> {
+    const { userId, packageId, hostname, hypervisorGroupId } = params;
 
-    log(`Provisioning server for user ${userId} with package ${packageId}, OS ${osId || 'none (awaiting setup)'}, hypervisorGroupId ${hypervisorGroupId}`, 'virtfusion');
+    log(`Creating server for user ${userId} with package ${packageId}, hypervisorGroupId ${hypervisorGroupId}`, 'virtfusion');
 
-    try {
-      // Step 1: Create the server
-      const createPayload: Record<string, any> = {
-        userId,
-        packageId,
-        name: hostname,
-        ipv4: 1,
-      };
+    const createPayload: Record<string, any> = {
+      userId,
+      packageId,
+      name: hostname,
+      ipv4: 1,
+    };
 
-      if (hypervisorGroupId) {
-        createPayload.hypervisorId = hypervisorGroupId;
-      }
+    if (hypervisorGroupId) {
+      createPayload.hypervisorId = hypervisorGroupId;
+    }
 
-      const response = await this.request<{ data: any }>('/servers', {
-        method: 'POST',
-        body: JSON.stringify(createPayload),
-      });
+    const response = await this.request<{ data: any }>('/servers', {
+      method: 'POST',
+      body: JSON.stringify(createPayload),
+    });
 
-      const server = response.data;
-      log(`Server created: ID=${server.id}, name=${server.name}`, 'virtfusion');
-      log(`CREATE response data: ${JSON.stringify(server)}`, 'virtfusion');
+    const server = response.data;
+    log(`Server created: ID=${server.id}, name=${server.name}`, 'virtfusion');
+    log(`CREATE response data: ${JSON.stringify(server)}`, 'virtfusion');
 
-      let password: string | undefined = undefined;
-      let primaryIp: string | undefined = undefined;
+    // Try to get IP from CREATE response first
+    let primaryIp: string | undefined = server.primaryIp || server.primary_ip || server.ip || server.ipAddress || undefined;
+    if (server.network?.primaryIp) primaryIp = server.network.primaryIp;
+    if (server.networks?.[0]?.ip) primaryIp = server.networks[0].ip;
 
-      // Try to get IP from CREATE response first
-      primaryIp = server.primaryIp || server.primary_ip || server.ip || server.ipAddress || undefined;
-      if (server.network?.primaryIp) primaryIp = server.network.primaryIp;
-      if (server.networks?.[0]?.ip) primaryIp = server.networks[0].ip;
+    log(`IP from CREATE response: ${primaryIp || 'not found'}`, 'virtfusion');
 
-      log(`IP from CREATE response: ${primaryIp || 'not found'}`, 'virtfusion');
+    this.invalidateServerCache(String(server.id));
 
-      // Step 2: Build the OS on the server
-      if (osId) {
-        try {
-          log(`Building server ${server.id} with OS template ${osId}`, 'virtfusion');
-          const buildBody: Record<string, any> = {
-            operatingSystemId: osId,
-            name: hostname,
-          };
+    return {
+      serverId: server.id,
+      name: server.name,
+      uuid: server.uuid,
+      primaryIp,
+    };
+  }
 
-          const buildResponse = await this.request<{ data: any }>(`/servers/${server.id}/build`, {
-            method: 'POST',
-            body: JSON.stringify(buildBody),
-          });
+  // Installs the OS on a created server. Unlike the old combined provisioning call, a failed build throws.
+  async buildServer(serverId: number, params: {
+    osId: number;
+    hostname: string;
+    sshKeys?: number[] | null; // VirtFusion SSH key IDs
+    userData?: string | null; // cloud-init user-data
+  }): Promise<{ password?: string; primaryIp?: string }> {
+    const { osId, hostname, sshKeys, userData } = params;
+
+    log(`Building server ${serverId} with OS template ${osId}`, 'virtfusion');
+    const buildBody: Record<string, any> = {
+      operatingSystemId: osId,
+      name: hostname,
+    };
 
-          log(`BUILD response: ${JSON.stringify(buildResponse)}`, 'virtfusion');
-
-          // VirtFusion returns password in the build response - check multiple locations
-          const buildData = buildResponse.data;
-          password =
-            buildData?.settings?.decryptedPassword ||
-            buildData?.settings?.password ||
-            buildData?.decryptedPassword ||
-            buildData?.password ||
-            buildData?.rootPassword ||
-            buildData?.credentials?.password ||
-            undefined;
-
-          log(`Password from BUILD response: ${password ? 'FOUND' : 'NOT FOUND'}`, 'virtfusion');
-
-          // If we didn't get IP from CREATE, try BUILD response
-          if (!primaryIp) {
-            primaryIp = buildData?.primaryIp || buildData?.ip || buildData?.ipAddress || undefined;
-            log(`IP from BUILD response: ${primaryIp || 'not found'}`, 'virtfusion');
-          }
+    if (sshKeys && sshKeys.length > 0) {
+      buildBody.sshKeys = sshKeys;
+    }
 
-          log(`Server ${server.id} build initiated`, 'virtfusion');
-
-          // If still no IP, wait a moment and fetch server details (IP assigned async)
-          if (!primaryIp) {
-            log(`No IP yet, waiting 2 seconds then fetching server details...`, 'virtfusion');
-            await new Promise(resolve => setTimeout(resolve, 2000));
-
-            // Try up to 3 times with 2 second delays
-            for (let attempt = 1; attempt <= 3; attempt++) {
-              try {
-                const serverDetails = await this.getServer(server.id.toString(), false);
-                primaryIp = serverDetails?.primaryIp;
-                log(`Attempt ${attempt}: Fetched IP = ${primaryIp || 'not found'}`, 'virtfusion');
-                if (primaryIp) break;
-                if (attempt < 3) await new Promise(resolve => setTimeout(resolve, 2000));
-              } catch (ipError: any) {
-                log(`Attempt ${attempt}: Failed to fetch server details: ${ipError.message}`, 'virtfusion');
-              }
-            }
-          }
-        } catch (buildError: any) {
-          log(`Server build failed: ${buildError.message}`, 'virtfusion');
+    if (userData) {
+      buildBody.userData = userData;
+    }
+
+    const buildResponse = await this.request<{ data: any }>(`/servers/${serverId}/build`, {
+      method: 'POST',
+      body: JSON.stringify(buildBody),
+    });
+
+    log(`BUILD response: ${JSON.stringify(buildResponse)}`, 'virtfusion');
+
+    // VirtFusion returns password in the build response - check multiple locations
+    const buildData = buildResponse.data;
+    const password: string | undefined =
+      buildData?.settings?.decryptedPassword ||
+      buildData?.settings?.password ||
+      buildData?.decryptedPassword ||
+      buildData?.password ||
+      buildData?.rootPassword ||
+      buildData?.credentials?.password ||
+      undefined;
+
+    log(`Password from BUILD response: ${password ? 'FOUND' : 'NOT FOUND'}`, 'virtfusion');
+
+    let primaryIp: string | undefined = buildData?.primaryIp || buildData?.ip || buildData?.ipAddress || undefined;
+    log(`IP from BUILD response: ${primaryIp || 'not found'}`, 'virtfusion');
+
+    log(`Server ${serverId} build initiated`, 'virtfusion');
+
+    // If still no IP, wait a moment and fetch server details (IP assigned async)
+    if (!primaryIp) {
+      log(`No IP yet, waiting 2 seconds then fetching server details...`, 'virtfusion');
+      await new Promise(resolve => setTimeout(resolve, 2000));
+
+      // Try up to 3 times with 2 second delays
+      for (let attempt = 1; attempt <= 3; attempt++) {
+        try {
+          const serverDetails = await this.getServer(serverId.toString(), false);
+          primaryIp = serverDetails?.primaryIp;
+          log(`Attempt ${attempt}: Fetched IP = ${primaryIp || 'not found'}`, 'virtfusion');
+          if (primaryIp) break;
+          if (attempt < 3) await new Promise(resolve => setTimeout(resolve, 2000));
+        } catch (ipError: any) {
+          log(`Attempt ${attempt}: Failed to fetch server details: ${ipError.message}`, 'virtfusion');
         }
-      } else {
-        log(`Server ${server.id} created without OS - awaiting setup`, 'virtfusion');
       }
+    }
 
-      log(`FINAL: serverId=${server.id}, uuid=${server.uuid || 'NONE'}, password=${password ? 'SET' : 'NONE'}, primaryIp=${primaryIp || 'NONE'}`, 'virtfusion');
+    this.invalidateServerCache(String(serverId));
 
-      return {
-        serverId: server.id,
-        name: server.name,
-        uuid: server.uuid,
-        password,
-        primaryIp,
-      };
-    } catch (error: any) {
-      log(`Failed to provision server: ${error.message}`, 'virtfusion');
-      throw new Error(`Server provisioning failed: ${error.message}`);
-    }
+    return { password, primaryIp };
   }
 
   async cleanupUserAndServers(virtFusionUserId: number): Promise<{ success: boolean; serversDeleted: number; errors: string[] }> {
@@ -2105,6 +2420,7 @@ export class VirtFusionClient {
     maxCpu: number;
     maxMemory: number;
     maxServers: number;
+    cpuCores: number | null;
     vmCount: number;
     maxVms: number;
     memoryUsage: number | null;
@@ -2182,6 +2498,12 @@ export class VirtFusionClient {
         const vmCount = getFirstDefined(stats.instances, stats.servers, stats.vms, h.servers?.length) ?? 0;
         const maxVms = h.maxServers ?? settings.maxServers ?? 100;
 
+        // Physical cores/threads, used to work out the vCPU overcommit ratio
+        const cpuCores = getFirstDefined(
+          resources.cpuCores, resources.cpu_cores, resources.cpuThreads,
+          stats.cpuCores, stats.cpu_cores, h.cpuCores, h.cpu_cores
+        );
+
         // CPU usage - check multiple possible field names
         const cpuUsage = getFirstDefined(
           resources.cpuUsage, resources.cpu_usage, resources.cpu,
@@ -2199,6 +2521,7 @@ export class VirtFusionClient {
           maxCpu: h.maxCpu || 0,
           maxMemory: h.maxMemory || 0,
           maxServers: h.maxServers || 100,
+          cpuCores,
           vmCount,
           maxVms,
           memoryUsage,
@@ -2463,6 +2786,7 @@ export class VirtFusionClient {
         method: 'PUT',
       });
       log(`Successfully transferred server ${serverId} to user ${newOwnerId}`, 'virtfusion');
+      this.invalidateServerCache(String(serverId));
       return true;
     } catch (error) {
       log(`Failed to transfer server ${serverId} ownership: ${error}`, 'virtfusion');
@@ -2497,6 +2821,36 @@ export class VirtFusionClient {
     }
   }
 
+  // Move a server to another package, resizing CPU, memory, disk and traffic to match
+  async changeServerPackage(serverId: number, packageId: number): Promise<void> {
+    try {
+      log(`Changing server ${serverId} to package ${packageId}`, 'virtfusion');
+      await this.request(`/servers/${serverId}/package/${packageId}`, {
+        method: 'PUT',
+      });
+      this.invalidateServerCache(String(serverId));
+      log(`Server ${serverId} moved to package ${packageId}`, 'virtfusion');
+    } catch (error) {
+      log(`Failed to change server ${serverId} to package ${packageId}: ${error}`, 'virtfusion');
+      throw error;
+    }
+  }
+
+  // Limit a server's network speed. Speeds are in KB/s like the interface's inAverage/outAverage; 0 removes the limit.
+  async setServerNetworkSpeed(serverId: string, inAverage: number, outAverage: number): Promise<void> {
+    try {
+      log(`Setting server ${serverId} network speed to ${inAverage}/${outAverage} KB/s`, 'virtfusion');
+      await this.request(`/servers/${serverId}/networkSpeed`, {
+        method: 'PUT',
+        body: JSON.stringify({ inAverage, outAverage }),
+      });
+      this.invalidateServerCache(serverId);
+    } catch (error) {
+      log(`Failed to set server ${serverId} network speed: ${error}`, 'virtfusion');
+      throw error;
+    }
+  }
+
   // Throttle server CPU
   async throttleServerCpu(serverId: number, throttlePercent: number): Promise<boolean> {
     try {
@@ -2562,16 +2916,13 @@ export class VirtFusionClient {
   // Get server count per hypervisor (for capacity display)
   async getHypervisorServerCounts(): Promise<Map<number, number>> {
     try {
-      const servers = await this.listServers();
+      const allocations = await this.getHypervisorAllocations();
       const counts = new Map<number, number>();
-      
-      for (const server of servers) {
-        const hypervisorId = (server as any).hypervisorId;
-        if (hypervisorId) {
-          counts.set(hypervisorId, (counts.get(hypervisorId) || 0) + 1);
-        }
-      }
-      
+
+      allocations.forEach((allocation, hypervisorId) => {
+        counts.set(hypervisorId, allocation.servers);
+      });
+
       return counts;
     } catch (error) {
       log(`Failed to get hypervisor server counts: ${error}`, 'virtfusion');
@@ -2579,6 +2930,36 @@ export class VirtFusionClient {
     }
   }
 
+  // Resources already allocated on each hypervisor, summed from its servers' packages.
+  // Reads the raw server list because the customer-facing transform drops the hypervisor.
+  async getHypervisorAllocations(): Promise<Map<number, HypervisorAllocation>> {
+    const servers: any[] = [];
+    for (let page = 1; ; page++) {
+      const response = await this.request<{ data: any[]; last_page?: number }>(`/servers?results=1000&page=${page}`);
+      servers.push(...(response.data || []));
+      if (!response.data?.length || !response.last_page || page >= response.last_page) break;
+    }
+    const allocations = new Map<number, HypervisorAllocation>();
+
+    for (const server of servers) {
+      const hypervisorId = server.hypervisorId ?? server.hypervisor?.id;
+      if (!hypervisorId) continue;
+
+      const resources = server.settings?.resources || server.resources || {};
+      const allocation = allocations.get(hypervisorId) || { servers: 0, vcpu: 0, ramMb: 0, diskGb: 0, ownerIds: [] };
+      allocation.servers += 1;
+      allocation.vcpu += resources.cpuCores || 0;
+      allocation.ramMb += resources.memory || 0;
+      allocation.diskGb += resources.storage || 0;
+      if (server.ownerId && !allocation.ownerIds.includes(server.ownerId)) {
+        allocation.ownerIds.push(server.ownerId);
+      }
+      allocations.set(hypervisorId, allocation);
+    }
+
+    return allocations;
+  }
+
   // Get all servers with owner info (for admin server list)
   async getAllServersWithOwners(): Promise<Array<{
     id: string;
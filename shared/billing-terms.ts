@@ -0,0 +1,59 @@
+import type { BillingTermMonths, BillingTermSettings, ServerBilling } from "./schema";
+
+// No prepay discount until an admin sets one; the longer terms are still offered
+export const DEFAULT_BILLING_TERM_SETTINGS: BillingTermSettings = {
+  quarterlyDiscountPercent: 0,
+  annualDiscountPercent: 0,
+};
+
+// Renewal reminders go out a day ahead for monthly servers and a week ahead for prepaid terms,
+// so there's time to arrange a larger payment
+export const TERM_REMINDER_LEAD_DAYS = 7;
+
+export function billingTermLabel(termMonths: number): string {
+  if (termMonths === 12) return "Annual";
+  if (termMonths === 3) return "Quarterly";
+  return "Monthly";
+}
+
+export function billingTermDiscountPercent(settings: BillingTermSettings, termMonths: BillingTermMonths): number {
+  if (termMonths === 12) return settings.annualDiscountPercent;
+  if (termMonths === 3) return settings.quarterlyDiscountPercent;
+  return 0;
+}
+
+// What the plan costs for a whole term after its prepay discount
+export function termPriceCents(monthlyPriceCents: number, termMonths: number, discountPercent: number): number {
+  return Math.round((monthlyPriceCents * termMonths * (100 - discountPercent)) / 100);
+}
+
+/**
+ * What a renewal of the server costs: the plan for the whole term at its
+ * discount, plus its add-ons for every month of the term. Add-ons aren't
+ * discounted because they can be removed part way through a term.
+ */
+export function termRenewalCents(
+  billing: Pick<ServerBilling, "monthlyPriceCents" | "termMonths" | "termDiscountPercent">,
+  addonsMonthlyCents: number,
+): number {
+  return termPriceCents(billing.monthlyPriceCents, billing.termMonths, billing.termDiscountPercent)
+    + addonsMonthlyCents * billing.termMonths;
+}
+
+export function reminderLeadDays(termMonths: number): number {
+  return termMonths > 1 ? TERM_REMINDER_LEAD_DAYS : 1;
+}
+
+// Add calendar months to a date (handles month-end cases)
+export function addMonths(date: Date, months: number = 1): Date {
+  const result = new Date(date);
+  const currentMonth = result.getMonth();
+  result.setMonth(currentMonth + months);
+
+  // If we overflow (e.g., Jan 31 + 1 month = Mar 3), go to last day of target month
+  if (result.getMonth() !== (currentMonth + months) % 12) {
+    result.setDate(0); // Go to last day of previous month
+  }
+
+  return result;
+}
@@ -0,0 +1,83 @@
+import { addMonths } from "./billing-terms";
+
+// Hourly servers are metered against the wallet and settled once a day. Each
+// billing period (a calendar month from the period start) is capped at the
+// monthly price, so an hourly server never costs more than a monthly one.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Average hours in a month (365 * 24 / 12), used to derive the hourly rate
+export const HOURS_PER_MONTH = 730;
+
+// Deploying hourly needs enough in the wallet to cover the first day
+export const HOURLY_MIN_BALANCE_HOURS = 24;
+
+export function hourlyRateCents(monthlyPriceCents: number): number {
+  return monthlyPriceCents / HOURS_PER_MONTH;
+}
+
+export function hourlyMinimumBalanceCents(monthlyPriceCents: number): number {
+  return hourlyPeriodChargeCents(monthlyPriceCents, HOURLY_MIN_BALANCE_HOURS);
+}
+
+/**
+ * Total charged for the first `hours` hours of a billing period. Usage is
+ * priced cumulatively rather than per hour so rounding never drifts, and the
+ * total stops at the monthly price.
+ */
+export function hourlyPeriodChargeCents(monthlyPriceCents: number, hours: number): number {
+  return Math.min(monthlyPriceCents, Math.round((hours * monthlyPriceCents) / HOURS_PER_MONTH));
+}
+
+export interface HourlyMeterState {
+  meteredThrough: Date;
+  periodStart: Date;
+  periodHours: number;
+}
+
+/**
+ * Work out what is owed for usage since `meteredThrough`. Only whole hours are
+ * charged during daily settlement; the final settlement when a server is
+ * deleted rounds the last partial hour up. Each hour counts towards the
+ * period it starts in, and a new period begins every calendar month.
+ */
+export function meterHourlyUsage(params: HourlyMeterState & {
+  monthlyPriceCents: number;
+  now: Date;
+  final?: boolean;
+}): HourlyMeterState & { hours: number; amountCents: number } {
+  const elapsedMs = Math.max(0, params.now.getTime() - params.meteredThrough.getTime());
+  const hours = params.final ? Math.ceil(elapsedMs / HOUR_MS) : Math.floor(elapsedMs / HOUR_MS);
+
+  let periodStart = params.periodStart;
+  let periodEnd = addMonths(periodStart);
+  let periodHours = params.periodHours;
+  let amountCents = 0;
+
+  for (let i = 0; i < hours; i++) {
+    const hourStart = params.meteredThrough.getTime() + i * HOUR_MS;
+    while (hourStart >= periodEnd.getTime()) {
+      periodStart = periodEnd;
+      periodEnd = addMonths(periodStart);
+      periodHours = 0;
+    }
+
+    amountCents +=
+      hourlyPeriodChargeCents(params.monthlyPriceCents, periodHours + 1) -
+      hourlyPeriodChargeCents(params.monthlyPriceCents, periodHours);
+    periodHours++;
+  }
+
+  return {
+    hours,
+    amountCents,
+    meteredThrough: new Date(params.meteredThrough.getTime() + hours * HOUR_MS),
+    periodStart,
+    periodHours,
+  };
+}
+
+// Hourly usage is settled by the daily billing run, so the next bill is always the coming midnight UTC
+export function nextHourlySettlementAt(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+}
@@ -1,22 +1,49 @@
-export interface LocationConfig {
-  name: string;
-  country: string;
-  countryCode: string;
-  hypervisorGroupId: number;
-  enabled: boolean;
+import type { ServerLocation } from "./schema";
+
+// Customers can deploy to a location only while it's enabled and has capacity
+export function isLocationDeployable(location: Pick<ServerLocation, "status" | "soldOut">): boolean {
+  return location.status === "enabled" && !location.soldOut;
 }
 
-export const LOCATION_CONFIG: Record<string, LocationConfig> = {
-  BNE: { name: "Brisbane", country: "Australia", countryCode: "AU", hypervisorGroupId: 2, enabled: true },
-  SYD: { name: "Sydney", country: "Australia", countryCode: "AU", hypervisorGroupId: 2, enabled: false },
-};
+// An empty plan list is treated the same as null: the location offers every plan
+export function isPlanAvailableAtLocation(location: Pick<ServerLocation, "planIds">, planId: number): boolean {
+  if (!location.planIds || location.planIds.length === 0) return true;
+  return location.planIds.includes(planId);
+}
 
-export function getPublicLocations() {
-  return Object.entries(LOCATION_CONFIG).map(([code, config]) => ({
-    code,
-    name: config.name,
-    country: config.country,
-    countryCode: config.countryCode,
-    enabled: config.enabled,
-  }));
+export function checkLocationDeployable(
+  location: Pick<ServerLocation, "name" | "status" | "soldOut" | "planIds">,
+  planId: number,
+): { ok: true } | { ok: false; error: string } {
+  if (location.status === "hidden") {
+    return { ok: false, error: "Invalid location selected" };
+  }
+  if (location.status === "coming_soon") {
+    return { ok: false, error: `${location.name} is coming soon and not yet available for deployment` };
+  }
+  if (location.soldOut) {
+    return { ok: false, error: `${location.name} is sold out. Please choose another location.` };
+  }
+  if (!isPlanAvailableAtLocation(location, planId)) {
+    return { ok: false, error: `This plan is not available in ${location.name}` };
+  }
+  return { ok: true };
 }
+
+export function getPublicLocations(rows: ServerLocation[]) {
+  return rows
+    .filter((location) => location.status !== "hidden")
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name))
+    .map((location) => ({
+      code: location.code,
+      name: location.name,
+      country: location.country,
+      countryCode: location.countryCode,
+      status: location.status,
+      soldOut: location.soldOut,
+      planIds: location.planIds && location.planIds.length > 0 ? location.planIds : null,
+      enabled: isLocationDeployable(location),
+    }));
+}
+
+export type PublicLocation = ReturnType<typeof getPublicLocations>[number];
@@ -1,4 +1,4 @@
-import { pgTable, text, varchar, timestamp, integer, boolean, uuid, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, bigint, real, boolean, uuid, jsonb, unique } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -74,6 +74,7 @@ export const plans = pgTable("plans", {
   virtfusionPackageId: integer("virtfusion_package_id"),
   active: boolean("active").default(true).notNull(),
   popular: boolean("popular").default(false),
+  snapshotLimit: integer("snapshot_limit").notNull().default(2), // Max snapshots kept per server, 0 disables snapshots
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -107,6 +108,26 @@ export const walletTransactions = pgTable("wallet_transactions", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Provisioning runs these steps in order; the order's `step` is the next one still to do
+export const PROVISIONING_STEPS = ["create_user", "create_server", "build", "create_billing", "done"] as const;
+export type ProvisioningStep = typeof PROVISIONING_STEPS[number];
+
+// Monthly servers are charged up front; hourly servers are metered and settled daily, capped at the plan price
+export const BILLING_CYCLES = ["monthly", "hourly"] as const;
+export type BillingCycle = typeof BILLING_CYCLES[number];
+
+// Monthly-cycle servers can prepay for longer terms; the admin sets a discount for each
+export const BILLING_TERMS = [1, 3, 12] as const;
+export type BillingTermMonths = typeof BILLING_TERMS[number];
+
+// Discounts (in percent) for prepaying 3 or 12 months; apply to new orders only
+export const billingTermSettingsSchema = z.object({
+  quarterlyDiscountPercent: z.number().int().min(0).max(50),
+  annualDiscountPercent: z.number().int().min(0).max(50),
+});
+
+export type BillingTermSettings = z.infer<typeof billingTermSettingsSchema>;
+
 // Deploy orders - server provisioning requests
 export const deployOrders = pgTable("deploy_orders", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -118,6 +139,26 @@ export const deployOrders = pgTable("deploy_orders", {
   status: text("status").notNull().default("pending_payment"), // pending_payment, paid, provisioning, active, failed, cancelled
   virtfusionServerId: integer("virtfusion_server_id"),
   errorMessage: text("error_message"),
+  userData: text("user_data"), // cloud-init user-data, kept so a failed build can be retried with the same script
+  billingCycle: text("billing_cycle").$type<BillingCycle>().notNull().default("monthly"),
+  termMonths: integer("term_months").notNull().default(1),
+  termDiscountPercent: integer("term_discount_percent").notNull().default(0), // Locked in when the order is paid
+
+  // Provisioning state machine - everything a retry needs is kept on the order
+  step: text("step").$type<ProvisioningStep>().notNull().default("create_user"),
+  attempts: integer("attempts").notNull().default(0), // Failed attempts at the current step
+  nextAttemptAt: timestamp("next_attempt_at"), // Null once the order is finished or needs an admin
+  virtfusionUserId: integer("virtfusion_user_id"),
+  virtfusionServerUuid: text("virtfusion_server_uuid"),
+  osId: integer("os_id"),
+  osName: text("os_name"),
+  hypervisorGroupId: integer("hypervisor_group_id"),
+  sshKeyIds: jsonb("ssh_key_ids").$type<number[]>(), // VirtFusion key IDs resolved at order time
+  promoCodeId: integer("promo_code_id"),
+  promoDiscountCents: integer("promo_discount_cents"),
+  refundedAt: timestamp("refunded_at"),
+  completedAt: timestamp("completed_at"),
+
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -136,6 +177,16 @@ export const serverBilling = pgTable("server_billing", {
   status: text("status").notNull().default("active"), // active, paid, unpaid, suspended, cancelled
   autoRenew: boolean("auto_renew").default(true).notNull(),
 
+  // Prepaid term - each renewal covers termMonths at the discount the server was bought with
+  termMonths: integer("term_months").notNull().default(1),
+  termDiscountPercent: integer("term_discount_percent").notNull().default(0),
+
+  // Hourly metering - usage up to hourlyMeteredThrough has been charged; the period resets every month
+  billingCycle: text("billing_cycle").$type<BillingCycle>().notNull().default("monthly"),
+  hourlyMeteredThrough: timestamp("hourly_metered_through"),
+  hourlyPeriodStart: timestamp("hourly_period_start"),
+  hourlyPeriodHours: integer("hourly_period_hours").notNull().default(0),
+
   // Billing dates
   nextBillAt: timestamp("next_bill_at").notNull(),
   suspendAt: timestamp("suspend_at"), // Set when unpaid, null otherwise
@@ -168,6 +219,7 @@ export const billingLedger = pgTable("billing_ledger", {
   amountCents: integer("amount_cents").notNull(),
   description: text("description").notNull(),
   idempotencyKey: text("idempotency_key").notNull().unique(),
+  invoiceId: integer("invoice_id"), // the invoice this charge is a line of, once issued
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -215,7 +267,8 @@ export const serverCancellations = pgTable("server_cancellations", {
   errorMessage: text("error_message"), // stores error if deletion fails
 });
 
-// Invoices - generated for wallet top-ups
+// Invoices - generated for wallet top-ups and for charges against the wallet (renewals, deploys, add-ons).
+// Charge invoices are itemised by the billing ledger entries linked to them.
 export const invoices = pgTable("invoices", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   auth0UserId: text("auth0_user_id").notNull(),
@@ -225,13 +278,112 @@ export const invoices = pgTable("invoices", {
   stripePaymentIntentId: text("stripe_payment_intent_id"),
   stripeSessionId: text("stripe_session_id"),
   walletTransactionId: integer("wallet_transaction_id"),
-  status: text("status").notNull().default("paid"), // paid, pending, void
+  status: text("status").notNull().default("paid"), // paid, pending, void, partially_refunded
   customerEmail: text("customer_email").notNull(),
   customerName: text("customer_name"),
+  // Tax breakdown and the customer's billing details as they were when the invoice was issued.
+  // Null on invoices issued before GST was broken out.
+  subtotalCents: integer("subtotal_cents"),
+  taxCents: integer("tax_cents"),
+  taxRatePercent: integer("tax_rate_percent"),
+  taxTreatment: text("tax_treatment").$type<TaxTreatment>(),
+  customerBusinessName: text("customer_business_name"),
+  customerAbn: text("customer_abn"),
+  customerCountryCode: text("customer_country_code"),
+  // The server and service period a charge invoice covers
+  virtfusionServerId: text("virtfusion_server_id"),
+  periodStart: timestamp("period_start"),
+  periodEnd: timestamp("period_end"),
   pdfPath: text("pdf_path"), // path to generated PDF
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// How GST applies to a customer: 10% for Australian customers, GST-free for overseas businesses
+export const TAX_TREATMENTS = ["gst", "gst_free_export"] as const;
+export type TaxTreatment = typeof TAX_TREATMENTS[number];
+
+// Who the customer invoices should be addressed to, and how they like prices shown
+export const billingProfiles = pgTable("billing_profiles", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  auth0UserId: text("auth0_user_id").notNull().unique(),
+  businessName: text("business_name"),
+  abn: text("abn"), // 11 digits, Australian businesses only
+  countryCode: text("country_code").notNull().default("AU"), // ISO 3166-1 alpha-2
+  showPricesExTax: boolean("show_prices_ex_tax").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type BillingProfile = typeof billingProfiles.$inferSelect;
+
+export const billingProfileSchema = z.object({
+  businessName: z.string().trim().max(200, 'Business name must be 200 characters or less').nullable(),
+  abn: z.string().trim().nullable(),
+  countryCode: z.string().trim().regex(/^[A-Za-z]{2}$/, 'Country code must be 2 letters').transform(val => val.toUpperCase()),
+  showPricesExTax: z.boolean(),
+});
+
+export type BillingProfileInput = z.infer<typeof billingProfileSchema>;
+
+// Monthly account statements - balances are fixed when the statement is issued; its
+// entries are the wallet transactions and ledger charges dated within the period
+export const accountStatements = pgTable("account_statements", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  auth0UserId: text("auth0_user_id").notNull(),
+  period: text("period").notNull(), // YYYY-MM
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(), // exclusive
+  openingBalanceCents: integer("opening_balance_cents").notNull(),
+  closingBalanceCents: integer("closing_balance_cents").notNull(),
+  creditsCents: integer("credits_cents").notNull(),
+  debitsCents: integer("debits_cents").notNull(),
+  emailedAt: timestamp("emailed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("account_statements_user_period_unique").on(table.auth0UserId, table.period),
+]);
+
+export type AccountStatement = typeof accountStatements.$inferSelect;
+
+// Where a refund is paid: back to the customer's card through Stripe, or into their wallet
+export const REFUND_METHODS = ["card", "wallet"] as const;
+export type RefundMethod = typeof REFUND_METHODS[number];
+
+export const invoiceRefundSchema = z.object({
+  amountCents: z.number().int().positive("Refund amount must be more than zero"),
+  method: z.enum(REFUND_METHODS),
+  paymentIntentId: z.string().trim().regex(/^pi_[A-Za-z0-9]+$/, "Invalid payment intent").optional(),
+  reason: z.string({ required_error: "A reason is required" }).trim().min(1, "A reason is required").max(500),
+});
+
+export type InvoiceRefundInput = z.infer<typeof invoiceRefundSchema>;
+
+// A credit note is claimed as pending before the refund is paid, and issued once it has been.
+// Failed refunds keep their number so the sequence has no unexplained gaps.
+export const CREDIT_NOTE_STATUSES = ["pending", "issued", "failed"] as const;
+export type CreditNoteStatus = typeof CREDIT_NOTE_STATUSES[number];
+
+// Credit notes (adjustment notes) record a refund against an invoice, with the GST it reverses
+export const creditNotes = pgTable("credit_notes", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  creditNoteNumber: text("credit_note_number").notNull().unique(),
+  invoiceId: integer("invoice_id").notNull(),
+  auth0UserId: text("auth0_user_id").notNull(),
+  amountCents: integer("amount_cents").notNull(), // GST-inclusive amount refunded
+  subtotalCents: integer("subtotal_cents").notNull(),
+  taxCents: integer("tax_cents").notNull(),
+  method: text("method").$type<RefundMethod>().notNull(),
+  status: text("status").$type<CreditNoteStatus>().notNull().default("pending"),
+  stripePaymentIntentId: text("stripe_payment_intent_id"),
+  stripeRefundId: text("stripe_refund_id"),
+  walletTransactionId: integer("wallet_transaction_id"),
+  reason: text("reason").notNull(),
+  issuedBy: text("issued_by").notNull(), // admin email
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type CreditNote = typeof creditNotes.$inferSelect;
+
 // Two-Factor Authentication settings
 export const twoFactorAuth = pgTable("two_factor_auth", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -378,7 +530,10 @@ export const deployOrdersRelations = relations(deployOrders, ({ one }) => ({
 export const insertPlanSchema = createInsertSchema(plans);
 export const insertWalletSchema = createInsertSchema(wallets);
 export const insertWalletTransactionSchema = createInsertSchema(walletTransactions);
-export const insertDeployOrderSchema = createInsertSchema(deployOrders);
+export const insertDeployOrderSchema = createInsertSchema(deployOrders, {
+  step: z.enum(PROVISIONING_STEPS),
+  sshKeyIds: z.array(z.number().int()).nullable().optional(),
+});
 export const insertServerBillingSchema = createInsertSchema(serverBilling);
 export const insertBillingLedgerSchema = createInsertSchema(billingLedger);
 export const insertServerCancellationSchema = createInsertSchema(serverCancellations);
@@ -451,6 +606,12 @@ export const serverNameSchema = z.object({
     .regex(/^[a-zA-Z0-9][a-zA-Z0-9\s\-_.]*$/, 'Server name can only contain letters, numbers, spaces, hyphens, underscores, and periods'),
 });
 
+// PTR update for one of a server's addresses; a null hostname resets it to the default
+export const updateReverseDnsSchema = z.object({
+  address: z.string().trim().min(1, 'IP address is required').max(45),
+  hostname: z.string().max(253, 'Hostname must be 253 characters or less').nullable(),
+});
+
 export const hostnameSchema = z.string()
   .min(1, 'Hostname is required')
   .max(253, 'Hostname must be 253 characters or less')
@@ -469,6 +630,15 @@ export const hostnameSchema = z.string()
 export const reinstallSchema = z.object({
   osId: z.union([z.string(), z.number()]).refine(val => val !== '' && val !== null, 'OS template is required'),
   hostname: hostnameSchema,
+  sshKeyIds: z.array(z.number().int().positive()).max(10, 'You can select up to 10 SSH keys').optional(),
+  userData: z.string().max(65536, 'User-data script must be 64 KB or less').optional(),
+});
+
+export const createSnapshotSchema = z.object({
+  name: z.string().trim().min(1).max(64, 'Snapshot name must be 64 characters or less')
+    .regex(/^[a-zA-Z0-9 ._-]+$/, 'Snapshot name can only contain letters, numbers, spaces, dots, dashes and underscores')
+    .optional(),
+  replaceOldest: z.boolean().optional(),
 });
 
 export type User = typeof users.$inferSelect;
@@ -701,3 +871,674 @@ export type UserAuditLog = typeof userAuditLogs.$inferSelect;
 export type ClientErrorEvent = typeof clientErrorEvents.$inferSelect;
 export type InsertClientErrorEvent = z.infer<typeof insertClientErrorEventSchema>;
 export type TrustedTwoFactorDevice = typeof trustedTwoFactorDevices.$inferSelect;
+
+// ============================================
+// SSH KEYS
+// ============================================
+
+// SSH key library - public keys saved on the account and injected at deploy/reinstall
+export const sshKeys = pgTable("ssh_keys", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  auth0UserId: text("auth0_user_id").notNull(),
+  name: text("name").notNull(),
+  publicKey: text("public_key").notNull(),
+  fingerprint: text("fingerprint").notNull(), // SHA256:... (OpenSSH format)
+  virtfusionKeyId: integer("virtfusion_key_id"), // Set once the key has been registered with VirtFusion
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+});
+
+export const insertSshKeySchema = createInsertSchema(sshKeys);
+
+export type SshKey = typeof sshKeys.$inferSelect;
+export type InsertSshKey = z.infer<typeof insertSshKeySchema>;
+
+export const createSshKeySchema = z.object({
+  name: z.string().trim().min(1, 'Key name is required').max(64, 'Key name must be 64 characters or less'),
+  publicKey: z.string().min(1, 'Public key is required').max(16384, 'Public key is too long'),
+});
+
+export const updateSshKeySchema = createSshKeySchema.pick({ name: true });
+
+export type CreateSshKeyInput = z.infer<typeof createSshKeySchema>;
+
+// ============================================
+// USER-DATA SCRIPTS
+// ============================================
+
+// Saved cloud-init user-data scripts, reusable across deploys and reinstalls
+export const userDataScripts = pgTable("user_data_scripts", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  auth0UserId: text("auth0_user_id").notNull(),
+  name: text("name").notNull(),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertUserDataScriptSchema = createInsertSchema(userDataScripts);
+
+export type UserDataScript = typeof userDataScripts.$inferSelect;
+export type InsertUserDataScript = z.infer<typeof insertUserDataScriptSchema>;
+
+export const userDataScriptSchema = z.object({
+  name: z.string().trim().min(1, 'Script name is required').max(64, 'Script name must be 64 characters or less'),
+  content: z.string().min(1, 'Script content is required').max(65536, 'User-data script must be 64 KB or less'),
+});
+
+export type UserDataScriptInput = z.infer<typeof userDataScriptSchema>;
+
+// ============================================
+// FIREWALL
+// ============================================
+
+export const FIREWALL_DIRECTIONS = ["inbound", "outbound"] as const;
+export const FIREWALL_PROTOCOLS = ["tcp", "udp", "icmp", "any"] as const;
+export const FIREWALL_ACTIONS = ["allow", "deny"] as const;
+
+// A single firewall rule. cidr is the remote range: the source for inbound
+// rules and the destination for outbound rules.
+export const firewallRuleSchema = z.object({
+  direction: z.enum(FIREWALL_DIRECTIONS),
+  protocol: z.enum(FIREWALL_PROTOCOLS),
+  portStart: z.number().int().min(1).max(65535).nullable().optional(),
+  portEnd: z.number().int().min(1).max(65535).nullable().optional(),
+  cidr: z.string().trim().min(1, 'CIDR is required').max(64),
+  action: z.enum(FIREWALL_ACTIONS),
+  description: z.string().trim().max(100, 'Description must be 100 characters or less').optional().nullable(),
+});
+
+export type FirewallRuleInput = z.infer<typeof firewallRuleSchema>;
+
+// Firewall rules applied to a server at the hypervisor, in evaluation order
+export const serverFirewallRules = pgTable("server_firewall_rules", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  virtfusionServerId: text("virtfusion_server_id").notNull(),
+  position: integer("position").notNull(),
+  direction: text("direction").notNull(), // inbound, outbound
+  protocol: text("protocol").notNull(), // tcp, udp, icmp, any
+  portStart: integer("port_start"),
+  portEnd: integer("port_end"),
+  cidr: text("cidr").notNull(),
+  action: text("action").notNull(), // allow, deny
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Reusable rule sets saved on the account and applied to many servers at once
+export const firewallRuleSets = pgTable("firewall_rule_sets", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  auth0UserId: text("auth0_user_id").notNull(),
+  name: text("name").notNull(),
+  rules: jsonb("rules").$type<FirewallRuleInput[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertServerFirewallRuleSchema = createInsertSchema(serverFirewallRules);
+export const insertFirewallRuleSetSchema = createInsertSchema(firewallRuleSets);
+
+export type ServerFirewallRule = typeof serverFirewallRules.$inferSelect;
+export type InsertServerFirewallRule = z.infer<typeof insertServerFirewallRuleSchema>;
+export type FirewallRuleSet = typeof firewallRuleSets.$inferSelect;
+export type InsertFirewallRuleSet = z.infer<typeof insertFirewallRuleSetSchema>;
+
+export const updateServerFirewallSchema = z.object({
+  rules: z.array(firewallRuleSchema).max(100),
+});
+
+export const firewallRuleSetSchema = z.object({
+  name: z.string().trim().min(1, 'Rule set name is required').max(64, 'Rule set name must be 64 characters or less'),
+  rules: z.array(firewallRuleSchema).min(1, 'Add at least one rule').max(100),
+});
+
+export const applyFirewallRuleSetSchema = z.object({
+  serverIds: z.array(z.string().min(1)).min(1, 'Select at least one server').max(50),
+  mode: z.enum(["append", "replace"]).default("append"),
+});
+
+// ============================================
+// API TOKENS
+// ============================================
+
+export const API_TOKEN_SCOPES = ["servers:read", "servers:power", "billing:read"] as const;
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+// Personal access tokens for scripting against the public API. Only a hash of
+// the token is stored; the identity fields are copied from the session that
+// created it, the same way sessions carry them.
+export const apiTokens = pgTable("api_tokens", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  auth0UserId: text("auth0_user_id").notNull(),
+  virtFusionUserId: integer("virtfusion_user_id"),
+  extRelationId: text("ext_relation_id"),
+  email: text("email").notNull(),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  tokenPrefix: text("token_prefix").notNull(), // First characters, shown so users can tell tokens apart
+  scopes: jsonb("scopes").$type<ApiTokenScope[]>().notNull(),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens);
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Token name is required').max(64, 'Token name must be 64 characters or less'),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, 'Select at least one scope'),
+  // Days until the token expires; null for a token that never expires
+  expiresInDays: z.number().int().min(1).max(365).nullable(),
+});
+
+// ============================================
+// POWER SCHEDULES
+// ============================================
+
+export const SCHEDULED_POWER_ACTIONS = ["boot", "reboot", "shutdown", "poweroff"] as const;
+export type ScheduledPowerAction = typeof SCHEDULED_POWER_ACTIONS[number];
+
+// Recurring (cronExpression) or one-off (runAt) power actions a customer has
+// scheduled for a server. nextRunAt is what the processor polls on; it is
+// cleared once a one-off schedule has run.
+export const scheduledPowerActions = pgTable("scheduled_power_actions", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  auth0UserId: text("auth0_user_id").notNull(),
+  email: text("email").notNull(), // Where failure notices go
+  virtfusionServerId: text("virtfusion_server_id").notNull(),
+  action: text("action").$type<ScheduledPowerAction>().notNull(),
+  cronExpression: text("cron_expression"),
+  runAt: timestamp("run_at"),
+  timezone: text("timezone").notNull().default("Australia/Brisbane"),
+  enabled: boolean("enabled").notNull().default(true),
+  nextRunAt: timestamp("next_run_at"),
+  lastRunAt: timestamp("last_run_at"),
+  lastStatus: text("last_status"), // success, failed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertScheduledPowerActionSchema = createInsertSchema(scheduledPowerActions);
+
+export type ScheduledPowerActionRecord = typeof scheduledPowerActions.$inferSelect;
+export type InsertScheduledPowerAction = z.infer<typeof insertScheduledPowerActionSchema>;
+
+export const scheduledPowerActionRuns = pgTable("scheduled_power_action_runs", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  scheduleId: integer("schedule_id").notNull(),
+  virtfusionServerId: text("virtfusion_server_id").notNull(),
+  action: text("action").$type<ScheduledPowerAction>().notNull(),
+  scheduledFor: timestamp("scheduled_for").notNull(),
+  status: text("status").notNull(), // success, failed, skipped
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertScheduledPowerActionRunSchema = createInsertSchema(scheduledPowerActionRuns);
+
+export type ScheduledPowerActionRun = typeof scheduledPowerActionRuns.$inferSelect;
+export type InsertScheduledPowerActionRun = z.infer<typeof insertScheduledPowerActionRunSchema>;
+
+export const createPowerScheduleSchema = z.object({
+  action: z.enum(SCHEDULED_POWER_ACTIONS),
+  // Exactly one of cronExpression (recurring) or runAt (one-off) is set
+  cronExpression: z.string().trim().max(100).nullable(),
+  runAt: z.string().datetime({ offset: true }).nullable(),
+  timezone: z.string().trim().min(1).max(64).default("Australia/Brisbane"),
+}).refine((data) => (data.cronExpression ? 1 : 0) + (data.runAt ? 1 : 0) === 1, {
+  message: 'Provide either a recurring schedule or a one-off date, not both',
+});
+
+export const updatePowerScheduleSchema = z.object({
+  enabled: z.boolean(),
+});
+
+// ============================================
+// PROJECTS & TAGS
+// ============================================
+
+// Named groups a customer can put servers in, e.g. to charge hosting back to a team
+export const projects = pgTable("projects", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  auth0UserId: text("auth0_user_id").notNull(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertProjectSchema = createInsertSchema(projects);
+
+export type Project = typeof projects.$inferSelect;
+export type InsertProject = z.infer<typeof insertProjectSchema>;
+
+// Tags and project for a server. One row per server, created the first time it's labelled.
+export const serverLabels = pgTable("server_labels", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  auth0UserId: text("auth0_user_id").notNull(),
+  virtfusionServerId: text("virtfusion_server_id").notNull().unique(),
+  projectId: integer("project_id"),
+  tags: jsonb("tags").$type<string[]>().notNull().default([]),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertServerLabelsSchema = createInsertSchema(serverLabels);
+
+export type ServerLabels = typeof serverLabels.$inferSelect;
+export type InsertServerLabels = z.infer<typeof insertServerLabelsSchema>;
+
+export const projectSchema = z.object({
+  name: z.string().trim().min(1, 'Project name is required').max(64, 'Project name must be 64 characters or less'),
+});
+
+export const updateServerLabelsSchema = z.object({
+  tags: z.array(z.string()).max(50),
+  projectId: z.number().int().positive().nullable(),
+});
+
+// ============================================
+// RESOURCE ALERTS
+// ============================================
+
+export const RESOURCE_ALERT_METRICS = ["cpu", "memory", "disk", "transfer"] as const;
+export type ResourceAlertMetric = typeof RESOURCE_ALERT_METRICS[number];
+
+// A customer's threshold on one server metric, e.g. CPU at or above 90% for 10 minutes.
+// state/breachStartedAt/lastNotifiedAt are maintained by the resource alert processor.
+export const serverAlertRules = pgTable("server_alert_rules", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  auth0UserId: text("auth0_user_id").notNull(),
+  email: text("email").notNull(), // Where alert emails go
+  virtfusionServerId: text("virtfusion_server_id").notNull(),
+  metric: text("metric").$type<ResourceAlertMetric>().notNull(),
+  thresholdPercent: integer("threshold_percent").notNull(),
+  durationMinutes: integer("duration_minutes").notNull().default(0),
+  cooldownMinutes: integer("cooldown_minutes").notNull().default(60),
+  webhookUrl: text("webhook_url"),
+  enabled: boolean("enabled").notNull().default(true),
+  state: text("state").$type<"ok" | "firing">().notNull().default("ok"),
+  breachStartedAt: timestamp("breach_started_at"),
+  lastNotifiedAt: timestamp("last_notified_at"),
+  lastValue: integer("last_value"), // Last observed usage, whole percent
+  lastCheckedAt: timestamp("last_checked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertServerAlertRuleSchema = createInsertSchema(serverAlertRules);
+
+export type ServerAlertRule = typeof serverAlertRules.$inferSelect;
+export type InsertServerAlertRule = z.infer<typeof insertServerAlertRuleSchema>;
+
+// Each firing, repeat and resolved notification sent for a rule
+export const serverAlertEvents = pgTable("server_alert_events", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  ruleId: integer("rule_id").notNull(),
+  virtfusionServerId: text("virtfusion_server_id").notNull(),
+  metric: text("metric").$type<ResourceAlertMetric>().notNull(),
+  kind: text("kind").$type<"firing" | "resolved">().notNull(),
+  value: integer("value").notNull(),
+  thresholdPercent: integer("threshold_percent").notNull(),
+  webhookStatus: text("webhook_status"), // delivered, failed, or null when no webhook is set
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertServerAlertEventSchema = createInsertSchema(serverAlertEvents);
+
+export type ServerAlertEvent = typeof serverAlertEvents.$inferSelect;
+export type InsertServerAlertEvent = z.infer<typeof insertServerAlertEventSchema>;
+
+export const createAlertRuleSchema = z.object({
+  metric: z.enum(RESOURCE_ALERT_METRICS),
+  thresholdPercent: z.number().int().min(1, 'Threshold must be between 1% and 100%').max(100, 'Threshold must be between 1% and 100%'),
+  durationMinutes: z.number().int().min(0).max(1440, 'Duration can be at most 24 hours').default(0),
+  cooldownMinutes: z.number().int().min(5, 'Cooldown must be at least 5 minutes').max(10080, 'Cooldown can be at most 7 days').default(60),
+  webhookUrl: z.string().trim().max(500).nullable().default(null),
+});
+
+export const updateAlertRuleSchema = z.object({
+  enabled: z.boolean().optional(),
+  thresholdPercent: z.number().int().min(1).max(100).optional(),
+  durationMinutes: z.number().int().min(0).max(1440).optional(),
+  cooldownMinutes: z.number().int().min(5).max(10080).optional(),
+  webhookUrl: z.string().trim().max(500).nullable().optional(),
+});
+
+// ============================================
+// TRANSFER QUOTAS
+// ============================================
+
+export const TRANSFER_OVERAGE_POLICIES = ["throttle", "bill", "suspend"] as const;
+export type TransferOveragePolicy = typeof TRANSFER_OVERAGE_POLICIES[number];
+
+// Monthly transfer used by a server, one row per server per traffic period. usedBytes
+// only ever goes up within a period so a VirtFusion counter glitch can't hide usage.
+export const serverTransferUsage = pgTable("server_transfer_usage", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  auth0UserId: text("auth0_user_id").notNull(),
+  virtfusionServerId: text("virtfusion_server_id").notNull(),
+  period: text("period").notNull(), // Start date of the traffic period, YYYY-MM-DD
+  usedBytes: bigint("used_bytes", { mode: "number" }).notNull().default(0),
+  limitGb: integer("limit_gb").notNull(),
+  warned80At: timestamp("warned_80_at"),
+  warned100At: timestamp("warned_100_at"),
+  overageBilledGb: integer("overage_billed_gb").notNull().default(0),
+  enforcement: text("enforcement").$type<"throttled" | "suspended">(), // What was done when the quota ran out
+  enforcedAt: timestamp("enforced_at"),
+  // Port speed before throttling (KB/s), restored when the next period starts
+  originalInAverage: integer("original_in_average"),
+  originalOutAverage: integer("original_out_average"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("server_transfer_usage_server_period_unique").on(table.virtfusionServerId, table.period),
+]);
+
+export const insertServerTransferUsageSchema = createInsertSchema(serverTransferUsage);
+
+export type ServerTransferUsage = typeof serverTransferUsage.$inferSelect;
+export type InsertServerTransferUsage = z.infer<typeof insertServerTransferUsageSchema>;
+
+export const transferOverageSettingsSchema = z.object({
+  policy: z.enum(TRANSFER_OVERAGE_POLICIES),
+  pricePerGbCents: z.number().int().min(0).max(10000),
+  throttleMbps: z.number().int().min(1).max(1000),
+});
+
+export type TransferOverageSettings = z.infer<typeof transferOverageSettingsSchema>;
+
+// ============================================
+// METRICS HISTORY
+// ============================================
+
+export const METRIC_RESOLUTIONS = ["5m", "1h", "1d"] as const;
+export type MetricResolution = typeof METRIC_RESOLUTIONS[number];
+
+export const METRIC_HISTORY_RANGES = ["24h", "7d", "30d", "90d", "365d"] as const;
+export type MetricHistoryRange = typeof METRIC_HISTORY_RANGES[number];
+
+// Sampled server usage. 5m rows are raw samples; 1h and 1d rows are rollups of the
+// resolution below them, with sampleCount used to weight the averages. IO and network
+// rates are bytes per second and stay null when VirtFusion doesn't report the counters.
+export const serverMetricSamples = pgTable("server_metric_samples", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  virtfusionServerId: text("virtfusion_server_id").notNull(),
+  resolution: text("resolution").$type<MetricResolution>().notNull(),
+  bucketStart: timestamp("bucket_start").notNull(),
+  sampleCount: integer("sample_count").notNull().default(1),
+  cpuAvg: real("cpu_avg").notNull(),
+  cpuMax: real("cpu_max").notNull(),
+  memoryAvg: real("memory_avg").notNull(),
+  memoryMax: real("memory_max").notNull(),
+  diskPercent: real("disk_percent"),
+  diskReadBps: bigint("disk_read_bps", { mode: "number" }),
+  diskWriteBps: bigint("disk_write_bps", { mode: "number" }),
+  netRxBps: bigint("net_rx_bps", { mode: "number" }),
+  netTxBps: bigint("net_tx_bps", { mode: "number" }),
+}, (table) => [
+  unique("server_metric_samples_bucket_unique").on(table.virtfusionServerId, table.resolution, table.bucketStart),
+]);
+
+export const insertServerMetricSampleSchema = createInsertSchema(serverMetricSamples, {
+  resolution: z.enum(METRIC_RESOLUTIONS),
+});
+
+export type ServerMetricSample = typeof serverMetricSamples.$inferSelect;
+export type InsertServerMetricSample = z.infer<typeof insertServerMetricSampleSchema>;
+
+// ============================================
+// SERVER OWNERSHIP TRANSFERS
+// ============================================
+
+export const SERVER_TRANSFER_STATUSES = ["pending", "accepted", "declined", "cancelled", "expired"] as const;
+export type ServerTransferStatus = typeof SERVER_TRANSFER_STATUSES[number];
+
+// A customer's offer to hand a server to another account. Ownership only moves once
+// the recipient accepts; at most one offer per server is pending at a time.
+export const serverOwnershipTransfers = pgTable("server_ownership_transfers", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  virtfusionServerId: text("virtfusion_server_id").notNull(),
+  serverName: text("server_name").notNull(),
+  fromAuth0UserId: text("from_auth0_user_id").notNull(),
+  fromEmail: text("from_email").notNull(),
+  toEmail: text("to_email").notNull(), // Lowercased
+  toAuth0UserId: text("to_auth0_user_id"), // Set when accepted
+  status: text("status").$type<ServerTransferStatus>().notNull().default("pending"),
+  expiresAt: timestamp("expires_at").notNull(),
+  respondedAt: timestamp("responded_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertServerOwnershipTransferSchema = createInsertSchema(serverOwnershipTransfers, {
+  status: z.enum(SERVER_TRANSFER_STATUSES),
+});
+
+export type ServerOwnershipTransfer = typeof serverOwnershipTransfers.$inferSelect;
+export type InsertServerOwnershipTransfer = z.infer<typeof insertServerOwnershipTransferSchema>;
+
+export const createServerTransferSchema = z.object({
+  recipientEmail: z.string().trim().toLowerCase().email('Enter a valid email address').max(255),
+});
+
+// ============================================
+// LOCATIONS
+// ============================================
+
+// enabled: deployable; coming_soon: listed but not deployable; hidden: not listed to customers
+export const LOCATION_STATUSES = ["enabled", "coming_soon", "hidden"] as const;
+export type LocationStatus = typeof LOCATION_STATUSES[number];
+
+export const locations = pgTable("locations", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  code: text("code").notNull().unique(), // e.g. BNE - stored on deploy orders
+  name: text("name").notNull(),
+  country: text("country").notNull(),
+  countryCode: text("country_code").notNull(), // ISO 3166-1 alpha-2
+  hypervisorGroupId: integer("hypervisor_group_id").notNull(),
+  status: text("status").$type<LocationStatus>().notNull().default("enabled"),
+  soldOut: boolean("sold_out").notNull().default(false),
+  planIds: jsonb("plan_ids").$type<number[]>(), // Plans offered here; null means every plan
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertLocationSchema = createInsertSchema(locations, {
+  status: z.enum(LOCATION_STATUSES),
+  planIds: z.array(z.number().int()).nullable().optional(),
+});
+
+export type ServerLocation = typeof locations.$inferSelect;
+export type InsertServerLocation = z.infer<typeof insertLocationSchema>;
+
+export const createLocationSchema = z.object({
+  code: z.string().trim().regex(/^[A-Za-z0-9]{2,8}$/, 'Code must be 2-8 letters or numbers').transform(val => val.toUpperCase()),
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  country: z.string().trim().min(1, 'Country is required').max(100),
+  countryCode: z.string().trim().regex(/^[A-Za-z]{2}$/, 'Country code must be 2 letters').transform(val => val.toUpperCase()),
+  hypervisorGroupId: z.number().int().positive('Hypervisor group is required'),
+  status: z.enum(LOCATION_STATUSES).default('enabled'),
+  soldOut: z.boolean().default(false),
+  planIds: z.array(z.number().int().positive()).nullable().default(null),
+  sortOrder: z.number().int().default(0),
+});
+
+export const updateLocationSchema = createLocationSchema.partial().omit({ code: true });
+
+export type CreateLocationInput = z.infer<typeof createLocationSchema>;
+export type UpdateLocationInput = z.infer<typeof updateLocationSchema>;
+
+// ============================================
+// HYPERVISOR DRAINS
+// ============================================
+
+// A drained hypervisor keeps its servers but is skipped when placing new deployments
+export const hypervisorDrains = pgTable("hypervisor_drains", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  hypervisorId: integer("hypervisor_id").notNull().unique(), // VirtFusion hypervisor ID
+  reason: text("reason"),
+  drainedBy: text("drained_by").notNull(), // Admin email
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertHypervisorDrainSchema = createInsertSchema(hypervisorDrains);
+
+export type HypervisorDrain = typeof hypervisorDrains.$inferSelect;
+export type InsertHypervisorDrain = z.infer<typeof insertHypervisorDrainSchema>;
+
+// ============================================
+// ISO MEDIA
+// ============================================
+
+// Library images are added by admins and approved from the start; customer-submitted URLs wait for review
+export const ISO_IMAGE_STATUSES = ["pending", "approved", "rejected"] as const;
+export type IsoImageStatus = typeof ISO_IMAGE_STATUSES[number];
+
+export const BOOT_DEVICES = ["hd", "cdrom"] as const;
+export type BootDevice = typeof BOOT_DEVICES[number];
+export const DEFAULT_BOOT_ORDER: BootDevice[] = ["hd", "cdrom"];
+
+export const isoImages = pgTable("iso_images", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  name: text("name").notNull(),
+  description: text("description"),
+  url: text("url").notNull(),
+  auth0UserId: text("auth0_user_id"), // null for library images, the submitter for customer URLs
+  status: text("status").$type<IsoImageStatus>().notNull().default("approved"),
+  enabled: boolean("enabled").notNull().default(true),
+  reviewedBy: text("reviewed_by"), // Admin email
+  reviewedAt: timestamp("reviewed_at"),
+  rejectionReason: text("rejection_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// The ISO attached to a server and the boot order last set for it
+export const serverMedia = pgTable("server_media", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  virtfusionServerId: text("virtfusion_server_id").notNull().unique(),
+  isoImageId: integer("iso_image_id"),
+  bootOrder: jsonb("boot_order").$type<BootDevice[]>().notNull().default(DEFAULT_BOOT_ORDER),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertIsoImageSchema = createInsertSchema(isoImages, {
+  status: z.enum(ISO_IMAGE_STATUSES),
+});
+export const insertServerMediaSchema = createInsertSchema(serverMedia, {
+  bootOrder: z.array(z.enum(BOOT_DEVICES)),
+});
+
+export type IsoImage = typeof isoImages.$inferSelect;
+export type InsertIsoImage = z.infer<typeof insertIsoImageSchema>;
+export type ServerMedia = typeof serverMedia.$inferSelect;
+export type InsertServerMedia = z.infer<typeof insertServerMediaSchema>;
+
+const isoNameSchema = z.string().trim().min(1, 'Name is required').max(100, 'Name must be 100 characters or less');
+const isoUrlSchema = z.string().trim().min(1, 'URL is required').max(2048, 'URL is too long');
+
+export const createIsoImageSchema = z.object({
+  name: isoNameSchema,
+  description: z.string().trim().max(500).nullable().optional(),
+  url: isoUrlSchema,
+  enabled: z.boolean().default(true),
+});
+
+export const updateIsoImageSchema = createIsoImageSchema.partial();
+
+export const submitIsoUrlSchema = z.object({
+  name: isoNameSchema,
+  url: isoUrlSchema,
+});
+
+export const reviewIsoImageSchema = z.object({
+  status: z.enum(["approved", "rejected"]),
+  rejectionReason: z.string().trim().max(500).optional(),
+});
+
+export const mountIsoSchema = z.object({
+  isoImageId: z.number().int().positive(),
+});
+
+export const updateBootOrderSchema = z.object({
+  bootOrder: z.array(z.enum(BOOT_DEVICES)).min(1).max(BOOT_DEVICES.length),
+});
+
+// ============================================
+// RESCUE MODE
+// ============================================
+
+// Why a rescue session ended: the customer left rescue, the timer ran out, the rescue boot failed,
+// or the server moved to another account
+export const RESCUE_END_REASONS = ["customer", "expired", "failed", "transferred"] as const;
+export type RescueEndReason = typeof RESCUE_END_REASONS[number];
+
+// One row per rescue boot. endedAt stays null while the server is running the rescue image.
+export const serverRescueSessions = pgTable("server_rescue_sessions", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  virtfusionServerId: text("virtfusion_server_id").notNull(),
+  auth0UserId: text("auth0_user_id").notNull(),
+  rootPasswordEncrypted: text("root_password_encrypted").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  endedAt: timestamp("ended_at"),
+  endReason: text("end_reason").$type<RescueEndReason>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertServerRescueSessionSchema = createInsertSchema(serverRescueSessions, {
+  endReason: z.enum(RESCUE_END_REASONS).nullable().optional(),
+});
+
+export type ServerRescueSession = typeof serverRescueSessions.$inferSelect;
+export type InsertServerRescueSession = z.infer<typeof insertServerRescueSessionSchema>;
+
+// ============================================
+// IP ADD-ONS
+// ============================================
+
+export const SERVER_ADDON_TYPES = ["ipv4", "ipv6"] as const;
+export type ServerAddonType = typeof SERVER_ADDON_TYPES[number];
+
+export const SERVER_ADDON_STATUSES = ["active", "cancelled"] as const;
+export type ServerAddonStatus = typeof SERVER_ADDON_STATUSES[number];
+
+// Extra addresses bought for a server. Each active row is billed with the server's renewal
+// at the price it was bought at; cancelling releases the address back to its VirtFusion block.
+export const serverAddons = pgTable("server_addons", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  auth0UserId: text("auth0_user_id").notNull(),
+  virtfusionServerId: text("virtfusion_server_id").notNull(),
+  type: text("type").notNull().$type<ServerAddonType>(),
+  address: text("address"), // IPv4 address or IPv6 prefix (CIDR) assigned by VirtFusion
+  virtfusionIpBlockId: integer("virtfusion_ip_block_id").notNull(),
+  monthlyPriceCents: integer("monthly_price_cents").notNull(),
+  status: text("status").notNull().default("active").$type<ServerAddonStatus>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  cancelledAt: timestamp("cancelled_at"),
+});
+
+export const insertServerAddonSchema = createInsertSchema(serverAddons, {
+  type: z.enum(SERVER_ADDON_TYPES),
+  status: z.enum(SERVER_ADDON_STATUSES).optional(),
+});
+
+export type ServerAddon = typeof serverAddons.$inferSelect;
+export type InsertServerAddon = z.infer<typeof insertServerAddonSchema>;
+
+export const ipAddonSettingsSchema = z.object({
+  ipv4PriceCents: z.number().int().min(0).max(100000),
+  ipv6PriceCents: z.number().int().min(0).max(100000),
+  // VirtFusion IP blocks new add-ons are allocated from; null stops sales of that type
+  ipv4BlockId: z.number().int().positive().nullable(),
+  ipv6BlockId: z.number().int().positive().nullable(),
+  maxIpv4PerServer: z.number().int().min(0).max(64),
+});
+
+export type IpAddonSettings = z.infer<typeof ipAddonSettingsSchema>;
+
+export const purchaseIpAddonSchema = z.object({
+  type: z.enum(SERVER_ADDON_TYPES),
+});
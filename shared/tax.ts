@@ -0,0 +1,86 @@
+import type { BillingProfile, TaxTreatment } from "./schema";
+
+// Prices across the platform are GST-inclusive: the wallet is charged the same
+// amount whoever the customer is, and invoices break out the GST it contains.
+
+export const GST_RATE_PERCENT = 10;
+
+const ABN_WEIGHTS = [10, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19];
+
+export interface TaxBreakdown {
+  subtotalCents: number;
+  taxCents: number;
+  totalCents: number;
+  ratePercent: number;
+  treatment: TaxTreatment;
+}
+
+/**
+ * Customers without a billing profile, or in Australia, pay 10% GST. Services
+ * supplied to a business outside Australia are GST-free exports (GST Act
+ * s38-190), which needs a business name on the profile.
+ */
+export function taxTreatmentFor(
+  profile: Pick<BillingProfile, "countryCode" | "businessName"> | null | undefined,
+): TaxTreatment {
+  if (profile && profile.countryCode !== "AU" && profile.businessName) return "gst_free_export";
+  return "gst";
+}
+
+export function taxRatePercent(treatment: TaxTreatment): number {
+  return treatment === "gst" ? GST_RATE_PERCENT : 0;
+}
+
+// Split a GST-inclusive amount into its GST-exclusive price and the GST it contains (1/11th at 10%)
+export function splitTaxInclusive(totalCents: number, treatment: TaxTreatment): TaxBreakdown {
+  const ratePercent = taxRatePercent(treatment);
+  const taxCents = Math.round((totalCents * ratePercent) / (100 + ratePercent));
+  return { subtotalCents: totalCents - taxCents, taxCents, totalCents, ratePercent, treatment };
+}
+
+// The amount to show a customer, depending on whether they prefer prices without GST
+export function displayPriceCents(
+  cents: number,
+  options: { showPricesExTax: boolean; treatment: TaxTreatment },
+): number {
+  return options.showPricesExTax ? splitTaxInclusive(cents, options.treatment).subtotalCents : cents;
+}
+
+export function normalizeAbn(value: string): string {
+  return value.replace(/\s+/g, "");
+}
+
+// ABN check digits: subtract 1 from the first digit, weight each digit and the sum must divide by 89
+export function isValidAbn(value: string): boolean {
+  const abn = normalizeAbn(value);
+  if (!/^\d{11}$/.test(abn)) return false;
+  const sum = abn.split("").reduce((total, digit, index) => {
+    const n = Number(digit) - (index === 0 ? 1 : 0);
+    return total + n * ABN_WEIGHTS[index];
+  }, 0);
+  return sum % 89 === 0;
+}
+
+// "51824753556" -> "51 824 753 556"
+export function formatAbn(value: string): string {
+  const abn = normalizeAbn(value);
+  if (!/^\d{11}$/.test(abn)) return value;
+  return `${abn.slice(0, 2)} ${abn.slice(2, 5)} ${abn.slice(5, 8)} ${abn.slice(8)}`;
+}
+
+// The tax columns an invoice is issued with, so it reads the same if the profile changes later
+export function invoiceTaxFields(
+  totalCents: number,
+  profile: Pick<BillingProfile, "countryCode" | "businessName" | "abn"> | null | undefined,
+) {
+  const { subtotalCents, taxCents, ratePercent, treatment } = splitTaxInclusive(totalCents, taxTreatmentFor(profile));
+  return {
+    subtotalCents,
+    taxCents,
+    taxRatePercent: ratePercent,
+    taxTreatment: treatment,
+    customerBusinessName: profile?.businessName ?? null,
+    customerAbn: profile?.abn ?? null,
+    customerCountryCode: profile?.countryCode ?? "AU",
+  };
+}
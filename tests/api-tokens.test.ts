@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  API_TOKEN_PREFIX,
+  checkApiTokenAccess,
+  generateApiToken,
+  hashApiToken,
+  parseBearerToken,
+  requiredApiTokenScope,
+} from "../server/api-tokens";
+
+const readToken = {
+  scopes: ["servers:read" as const],
+  expiresAt: null,
+  revokedAt: null,
+};
+
+describe("API token generation", () => {
+  it("stores only a hash and a short display prefix", () => {
+    const { token, tokenHash, tokenPrefix } = generateApiToken();
+
+    expect(token.startsWith(API_TOKEN_PREFIX)).toBe(true);
+    expect(tokenHash).toBe(hashApiToken(token));
+    expect(tokenHash).not.toContain(token);
+    expect(token.startsWith(tokenPrefix)).toBe(true);
+    expect(tokenPrefix.length).toBeLessThan(token.length);
+  });
+
+  it("only accepts bearer headers carrying a personal access token", () => {
+    const { token } = generateApiToken();
+    expect(parseBearerToken(`Bearer ${token}`)).toBe(token);
+    expect(parseBearerToken("Bearer some-other-jwt")).toBeNull();
+    expect(parseBearerToken(`Basic ${token}`)).toBeNull();
+    expect(parseBearerToken(undefined)).toBeNull();
+  });
+});
+
+describe("API token scopes", () => {
+  it("maps routes to scopes", () => {
+    expect(requiredApiTokenScope("GET", "/api/servers")).toBe("servers:read");
+    expect(requiredApiTokenScope("GET", "/api/servers/42/stats")).toBe("servers:read");
+    expect(requiredApiTokenScope("POST", "/api/servers/42/power")).toBe("servers:power");
+    expect(requiredApiTokenScope("GET", "/api/wallet")).toBe("billing:read");
+  });
+
+  it("keeps sensitive routes session-only", () => {
+    expect(requiredApiTokenScope("POST", "/api/servers/42/reinstall")).toBeNull();
+    expect(requiredApiTokenScope("GET", "/api/servers/42/vnc")).toBeNull();
+    expect(requiredApiTokenScope("POST", "/api/wallet/topup")).toBeNull();
+    expect(requiredApiTokenScope("GET", "/api/user/api-tokens")).toBeNull();
+  });
+
+  it("keeps rescue mode away from power-scoped tokens", () => {
+    const powerToken = { ...readToken, scopes: ["servers:power" as const] };
+    expect(checkApiTokenAccess(powerToken, "POST", "/api/servers/42/power").ok).toBe(true);
+    expect(checkApiTokenAccess(powerToken, "POST", "/api/servers/42/rescue")).toMatchObject({
+      ok: false,
+      status: 403,
+      code: "TOKEN_ROUTE_NOT_ALLOWED",
+    });
+    expect(checkApiTokenAccess(powerToken, "DELETE", "/api/servers/42/rescue")).toMatchObject({
+      ok: false,
+      code: "TOKEN_ROUTE_NOT_ALLOWED",
+    });
+    expect(checkApiTokenAccess(readToken, "GET", "/api/servers/42/rescue")).toMatchObject({
+      ok: false,
+      code: "TOKEN_ROUTE_NOT_ALLOWED",
+    });
+  });
+
+  it("refuses tokens without the required scope", () => {
+    expect(checkApiTokenAccess(readToken, "GET", "/api/servers/42").ok).toBe(true);
+    expect(checkApiTokenAccess(readToken, "POST", "/api/servers/42/power")).toMatchObject({
+      ok: false,
+      status: 403,
+      code: "TOKEN_SCOPE_MISSING",
+    });
+  });
+
+  it("refuses expired and revoked tokens", () => {
+    const now = new Date("2026-06-01T00:00:00Z");
+    expect(
+      checkApiTokenAccess({ ...readToken, expiresAt: new Date("2026-05-31T00:00:00Z") }, "GET", "/api/servers", now),
+    ).toMatchObject({ ok: false, code: "TOKEN_EXPIRED" });
+    expect(
+      checkApiTokenAccess({ ...readToken, revokedAt: new Date("2026-05-01T00:00:00Z") }, "GET", "/api/servers", now),
+    ).toMatchObject({ ok: false, code: "TOKEN_REVOKED" });
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_BILLING_TERM_SETTINGS,
+  billingTermDiscountPercent,
+  reminderLeadDays,
+  termPriceCents,
+  termRenewalCents,
+} from "../shared/billing-terms";
+
+const settings = { quarterlyDiscountPercent: 5, annualDiscountPercent: 15 };
+
+describe("billingTermDiscountPercent", () => {
+  it("looks up the admin discount for each term", () => {
+    expect(billingTermDiscountPercent(settings, 1)).toBe(0);
+    expect(billingTermDiscountPercent(settings, 3)).toBe(5);
+    expect(billingTermDiscountPercent(settings, 12)).toBe(15);
+    expect(billingTermDiscountPercent(DEFAULT_BILLING_TERM_SETTINGS, 12)).toBe(0);
+  });
+});
+
+describe("termPriceCents", () => {
+  it("charges the whole term less its discount", () => {
+    expect(termPriceCents(1000, 1, 0)).toBe(1000);
+    expect(termPriceCents(1000, 3, 5)).toBe(2850);
+    expect(termPriceCents(999, 12, 15)).toBe(10190);
+  });
+});
+
+describe("termRenewalCents", () => {
+  it("adds undiscounted add-ons for every month of the term", () => {
+    const billing = { monthlyPriceCents: 1000, termMonths: 12, termDiscountPercent: 10 };
+    expect(termRenewalCents(billing, 300)).toBe(10800 + 3600);
+    expect(termRenewalCents({ ...billing, termMonths: 1, termDiscountPercent: 0 }, 300)).toBe(1300);
+  });
+});
+
+describe("reminderLeadDays", () => {
+  it("reminds prepaid terms a week ahead", () => {
+    expect(reminderLeadDays(1)).toBe(1);
+    expect(reminderLeadDays(3)).toBe(7);
+    expect(reminderLeadDays(12)).toBe(7);
+  });
+});
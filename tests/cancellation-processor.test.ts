@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { storageMock, virtfusionMock, billingMock } = vi.hoisted(() => ({
+  storageMock: {
+    getPendingCancellations: vi.fn(),
+    markCancellationProcessing: vi.fn(),
+    markCancellationFailed: vi.fn(),
+    completeCancellation: vi.fn(),
+    cancelAddonsForServer: vi.fn(),
+  },
+  virtfusionMock: {
+    checkServerExists: vi.fn(),
+    deleteServer: vi.fn(),
+  },
+  billingMock: {
+    stopHourlyBilling: vi.fn(),
+  },
+}));
+
+vi.mock("../server/storage", () => ({ dbStorage: storageMock }));
+vi.mock("../server/virtfusion", () => ({ virtfusionClient: virtfusionMock }));
+vi.mock("../server/billing", () => billingMock);
+vi.mock("../server/db", () => ({ db: {} }));
+vi.mock("../server/log", () => ({ log: vi.fn() }));
+vi.mock("../server/processor-health", () => ({
+  markProcessorFailed: vi.fn(),
+  markProcessorStarted: vi.fn(),
+  markProcessorSucceeded: vi.fn(),
+  scheduleProcessorRun: vi.fn(),
+}));
+
+import { processPendingCancellations } from "../server/cancellation-processor";
+
+const dueCancellation = {
+  id: 7,
+  virtfusionServerId: "42",
+  mode: "immediate",
+  scheduledDeletionAt: new Date(Date.now() - 60_000),
+};
+
+describe("processPendingCancellations", () => {
+  beforeEach(() => {
+    for (const mock of [...Object.values(storageMock), ...Object.values(virtfusionMock), billingMock.stopHourlyBilling]) {
+      mock.mockReset();
+    }
+    storageMock.getPendingCancellations.mockResolvedValue([dueCancellation]);
+    virtfusionMock.checkServerExists.mockResolvedValue(true);
+    billingMock.stopHourlyBilling.mockResolvedValue({ success: true, amountCents: 0 });
+  });
+
+  it("stops hourly billing once the deletion is submitted", async () => {
+    virtfusionMock.deleteServer.mockResolvedValue(undefined);
+
+    await expect(processPendingCancellations()).resolves.toEqual({ submitted: 1, errors: 0 });
+    expect(billingMock.stopHourlyBilling).toHaveBeenCalledWith("42");
+    expect(storageMock.markCancellationProcessing).toHaveBeenCalledWith(7);
+  });
+
+  it("keeps billing the server when the deletion fails", async () => {
+    virtfusionMock.deleteServer.mockRejectedValue(new Error("VirtFusion API error: 500"));
+
+    await expect(processPendingCancellations()).resolves.toEqual({ submitted: 0, errors: 1 });
+    expect(billingMock.stopHourlyBilling).not.toHaveBeenCalled();
+    expect(storageMock.markCancellationFailed).toHaveBeenCalledWith(7, "VirtFusion API error: 500");
+  });
+
+  it("leaves cancellations that aren't due yet alone", async () => {
+    storageMock.getPendingCancellations.mockResolvedValue([
+      { ...dueCancellation, scheduledDeletionAt: new Date(Date.now() + 60_000) },
+    ]);
+
+    await expect(processPendingCancellations()).resolves.toEqual({ submitted: 0, errors: 0 });
+    expect(virtfusionMock.deleteServer).not.toHaveBeenCalled();
+    expect(billingMock.stopHourlyBilling).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import type { FirewallRuleInput } from "@shared/schema";
+import {
+  MAX_FIREWALL_RULES_PER_SERVER,
+  mergeFirewallRules,
+  normalizeCidr,
+  normalizeFirewallRule,
+  normalizeFirewallRules,
+} from "../server/firewall";
+
+const sshRule: FirewallRuleInput = {
+  direction: "inbound",
+  protocol: "tcp",
+  portStart: 22,
+  cidr: "203.0.113.7",
+  action: "allow",
+};
+
+describe("firewall CIDR validation", () => {
+  it("treats bare addresses as single hosts", () => {
+    expect(normalizeCidr("203.0.113.7")).toBe("203.0.113.7/32");
+    expect(normalizeCidr("2001:db8::1")).toBe("2001:db8::1/128");
+  });
+
+  it("clears IPv4 host bits", () => {
+    expect(normalizeCidr("10.1.2.3/8")).toBe("10.0.0.0/8");
+    expect(normalizeCidr("0.0.0.0/0")).toBe("0.0.0.0/0");
+  });
+
+  it("stores IPv6 ranges in one compressed form", () => {
+    expect(normalizeCidr("2001:0db8:0:0::/32")).toBe("2001:db8::/32");
+    expect(normalizeCidr("2001:DB8:0:0:1:0:0:1")).toBe("2001:db8::1:0:0:1/128");
+    expect(normalizeCidr("2001:db8:abcd:12::1/48")).toBe("2001:db8:abcd::/48");
+    expect(normalizeCidr("::ffff:192.0.2.1")).toBe("::ffff:c000:201/128");
+    expect(normalizeCidr("::/0")).toBe("::/0");
+  });
+
+  it("rejects malformed ranges", () => {
+    expect(normalizeCidr("10.0.0.0/33")).toBeNull();
+    expect(normalizeCidr("300.1.1.1")).toBeNull();
+    expect(normalizeCidr("10.0.0.0/8/8")).toBeNull();
+    expect(normalizeCidr("example.com")).toBeNull();
+  });
+});
+
+describe("firewall rule normalisation", () => {
+  it("fills in a single-port range", () => {
+    const result = normalizeFirewallRule(sshRule);
+    expect(result).toEqual({
+      ok: true,
+      rule: {
+        direction: "inbound",
+        protocol: "tcp",
+        portStart: 22,
+        portEnd: 22,
+        cidr: "203.0.113.7/32",
+        action: "allow",
+        description: null,
+      },
+    });
+  });
+
+  it("rejects reversed port ranges and ports on ICMP", () => {
+    expect(normalizeFirewallRule({ ...sshRule, portStart: 9000, portEnd: 8000 }).ok).toBe(false);
+    expect(normalizeFirewallRule({ ...sshRule, protocol: "icmp" }).ok).toBe(false);
+  });
+
+  it("reports which rule is invalid", () => {
+    const result = normalizeFirewallRules([sshRule, { ...sshRule, cidr: "nope" }]);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toMatch(/^Rule 2:/);
+    }
+  });
+});
+
+describe("applying firewall rule sets", () => {
+  const normalize = (rules: FirewallRuleInput[]) => {
+    const result = normalizeFirewallRules(rules);
+    if (!result.ok) throw new Error(result.error);
+    return result.rules;
+  };
+
+  it("skips rules the server already has when appending", () => {
+    const existing = normalize([sshRule]);
+    const incoming = normalize([sshRule, { ...sshRule, portStart: 443, cidr: "0.0.0.0/0" }]);
+
+    const result = mergeFirewallRules(existing, incoming, "append");
+    expect(result.ok && result.rules.map((rule) => rule.portStart)).toEqual([22, 443]);
+  });
+
+  it("replaces existing rules", () => {
+    const existing = normalize([sshRule]);
+    const incoming = normalize([{ ...sshRule, portStart: 80 }]);
+
+    const result = mergeFirewallRules(existing, incoming, "replace");
+    expect(result.ok && result.rules.map((rule) => rule.portStart)).toEqual([80]);
+  });
+
+  it("refuses to exceed the per-server limit", () => {
+    const existing = normalize(
+      Array.from({ length: MAX_FIREWALL_RULES_PER_SERVER }, (_, i) => ({ ...sshRule, portStart: 1000 + i })),
+    );
+    const incoming = normalize([{ ...sshRule, portStart: 80 }]);
+
+    expect(mergeFirewallRules(existing, incoming, "append").ok).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import {
+  HOURS_PER_MONTH,
+  hourlyMinimumBalanceCents,
+  hourlyPeriodChargeCents,
+  meterHourlyUsage,
+  nextHourlySettlementAt,
+} from "../shared/hourly-billing";
+
+const HOUR_MS = 60 * 60 * 1000;
+const start = new Date("2026-03-10T12:00:00Z");
+
+describe("hourlyPeriodChargeCents", () => {
+  it("prices usage pro rata and caps at the monthly price", () => {
+    expect(hourlyPeriodChargeCents(730, 1)).toBe(1);
+    expect(hourlyPeriodChargeCents(1460, 5)).toBe(10);
+    expect(hourlyPeriodChargeCents(1000, HOURS_PER_MONTH)).toBe(1000);
+    expect(hourlyPeriodChargeCents(1000, 744)).toBe(1000);
+  });
+
+  it("requires a day of usage up front", () => {
+    expect(hourlyMinimumBalanceCents(730)).toBe(24);
+  });
+});
+
+describe("meterHourlyUsage", () => {
+  const base = { monthlyPriceCents: 1000, meteredThrough: start, periodStart: start, periodHours: 0 };
+
+  it("charges whole hours and carries the remainder forward", () => {
+    const result = meterHourlyUsage({ ...base, now: new Date(start.getTime() + 5.5 * HOUR_MS) });
+    expect(result.hours).toBe(5);
+    expect(result.amountCents).toBe(hourlyPeriodChargeCents(1000, 5));
+    expect(result.meteredThrough).toEqual(new Date(start.getTime() + 5 * HOUR_MS));
+    expect(result.periodHours).toBe(5);
+  });
+
+  it("rounds the last partial hour up on final settlement", () => {
+    const result = meterHourlyUsage({ ...base, now: new Date(start.getTime() + 10 * 60 * 1000), final: true });
+    expect(result.hours).toBe(1);
+    expect(result.meteredThrough).toEqual(new Date(start.getTime() + HOUR_MS));
+  });
+
+  it("doesn't drift when settled in small steps", () => {
+    let state = { meteredThrough: start, periodStart: start, periodHours: 0 };
+    let total = 0;
+    for (let day = 1; day <= 10; day++) {
+      const result = meterHourlyUsage({ ...state, monthlyPriceCents: 999, now: new Date(start.getTime() + day * 24 * HOUR_MS) });
+      total += result.amountCents;
+      state = result;
+    }
+    expect(total).toBe(hourlyPeriodChargeCents(999, 240));
+  });
+
+  it("stops charging once the monthly cap is reached", () => {
+    const result = meterHourlyUsage({ ...base, periodHours: 729, now: new Date(start.getTime() + 5 * HOUR_MS) });
+    expect(result.hours).toBe(5);
+    expect(result.amountCents).toBe(1000 - hourlyPeriodChargeCents(1000, 729));
+  });
+
+  it("starts a new period each calendar month", () => {
+    const meteredThrough = new Date("2026-04-10T10:00:00Z");
+    const result = meterHourlyUsage({
+      ...base,
+      meteredThrough,
+      periodHours: 740,
+      now: new Date(meteredThrough.getTime() + 4 * HOUR_MS),
+    });
+    expect(result.periodStart.getTime()).toBe(new Date("2026-04-10T12:00:00Z").getTime());
+    expect(result.periodHours).toBe(2);
+    expect(result.amountCents).toBe(hourlyPeriodChargeCents(1000, 2));
+  });
+});
+
+describe("nextHourlySettlementAt", () => {
+  it("returns the next midnight UTC", () => {
+    expect(nextHourlySettlementAt(new Date("2026-03-10T08:00:00Z"))).toEqual(new Date("2026-03-11T00:00:00Z"));
+    expect(nextHourlySettlementAt(new Date("2026-03-31T23:59:00Z"))).toEqual(new Date("2026-04-01T00:00:00Z"));
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_IP_ADDON_SETTINGS,
+  addonMonthlyTotalCents,
+  checkIpAddonPurchase,
+} from "../server/ip-addons";
+
+const activeBilling = { status: "paid", freeServer: false, isTrial: false, adminSuspended: false };
+const settings = { ...DEFAULT_IP_ADDON_SETTINGS, ipv4BlockId: 3, ipv6BlockId: 4, maxIpv4PerServer: 2 };
+
+describe("addonMonthlyTotalCents", () => {
+  it("only counts active add-ons", () => {
+    expect(addonMonthlyTotalCents([
+      { status: "active", monthlyPriceCents: 300 },
+      { status: "active", monthlyPriceCents: 100 },
+      { status: "cancelled", monthlyPriceCents: 300 },
+    ])).toBe(400);
+    expect(addonMonthlyTotalCents([])).toBe(0);
+  });
+});
+
+describe("checkIpAddonPurchase", () => {
+  it("allows a purchase on a paid server with a configured block", () => {
+    expect(checkIpAddonPurchase("ipv4", activeBilling, [], settings)).toEqual({ ok: true });
+  });
+
+  it("refuses types without an allocation block", () => {
+    const result = checkIpAddonPurchase("ipv6", activeBilling, [], { ...settings, ipv6BlockId: null });
+    expect(result.ok).toBe(false);
+  });
+
+  it("refuses trial, complimentary and unpaid servers", () => {
+    expect(checkIpAddonPurchase("ipv4", { ...activeBilling, isTrial: true }, [], settings).ok).toBe(false);
+    expect(checkIpAddonPurchase("ipv4", { ...activeBilling, freeServer: true }, [], settings).ok).toBe(false);
+    expect(checkIpAddonPurchase("ipv4", { ...activeBilling, status: "unpaid" }, [], settings).ok).toBe(false);
+  });
+
+  it("caps IPv4 add-ons per server and allows a single IPv6 prefix", () => {
+    const addons = [
+      { type: "ipv4" as const, status: "active" as const },
+      { type: "ipv4" as const, status: "active" as const },
+      { type: "ipv6" as const, status: "cancelled" as const },
+    ];
+    expect(checkIpAddonPurchase("ipv4", activeBilling, addons, settings).ok).toBe(false);
+    expect(checkIpAddonPurchase("ipv6", activeBilling, addons, settings).ok).toBe(true);
+    expect(checkIpAddonPurchase("ipv6", activeBilling, [{ type: "ipv6", status: "active" }], settings).ok).toBe(false);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { canonicalIp, formatIpv6, ipv6Groups } from "../server/ip-address";
+
+describe("IP canonicalisation", () => {
+  it("spells each IPv6 address one way", () => {
+    expect(canonicalIp("2001:0db8:0000:0000:0000:0000:0000:0001")).toBe("2001:db8::1");
+    expect(canonicalIp("2001:DB8:0:0::1")).toBe(canonicalIp("2001:db8::1"));
+    expect(canonicalIp("::ffff:192.0.2.1")).toBe("::ffff:c000:201");
+    expect(canonicalIp(" 192.0.2.1 ")).toBe("192.0.2.1");
+  });
+
+  it("rejects non-addresses", () => {
+    expect(canonicalIp("mail.example.com")).toBeNull();
+  });
+});
+
+describe("IPv6 groups", () => {
+  it("expands compressed and embedded IPv4 forms", () => {
+    expect(ipv6Groups("2001:db8::1")).toEqual([0x2001, 0xdb8, 0, 0, 0, 0, 0, 1]);
+    expect(ipv6Groups("::")).toEqual([0, 0, 0, 0, 0, 0, 0, 0]);
+    expect(ipv6Groups("::ffff:192.0.2.1")).toEqual([0, 0, 0, 0, 0, 0xffff, 0xc000, 0x201]);
+  });
+
+  it("compresses the longest run of zero groups", () => {
+    expect(formatIpv6([0x2001, 0xdb8, 0, 1, 0, 0, 0, 1])).toBe("2001:db8:0:1::1");
+    expect(formatIpv6([0x2001, 0xdb8, 0, 0, 1, 0, 0, 1])).toBe("2001:db8::1:0:0:1");
+    expect(formatIpv6([0x2001, 0xdb8, 0, 1, 1, 1, 1, 1])).toBe("2001:db8:0:1:1:1:1:1");
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import type { ServerLocation } from "../shared/schema";
+import { checkLocationDeployable, getPublicLocations, isPlanAvailableAtLocation } from "../shared/locations";
+
+function location(overrides: Partial<ServerLocation> = {}): ServerLocation {
+  return {
+    id: 1,
+    code: "BNE",
+    name: "Brisbane",
+    country: "Australia",
+    countryCode: "AU",
+    hypervisorGroupId: 2,
+    status: "enabled",
+    soldOut: false,
+    planIds: null,
+    sortOrder: 0,
+    createdAt: new Date("2026-10-19T00:00:00Z"),
+    updatedAt: new Date("2026-10-19T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+describe("isPlanAvailableAtLocation", () => {
+  it("offers every plan when no plans are listed", () => {
+    expect(isPlanAvailableAtLocation(location(), 7)).toBe(true);
+    expect(isPlanAvailableAtLocation(location({ planIds: [] }), 7)).toBe(true);
+  });
+
+  it("restricts to the listed plans", () => {
+    expect(isPlanAvailableAtLocation(location({ planIds: [1, 2] }), 2)).toBe(true);
+    expect(isPlanAvailableAtLocation(location({ planIds: [1, 2] }), 3)).toBe(false);
+  });
+});
+
+describe("checkLocationDeployable", () => {
+  it("accepts an enabled location offering the plan", () => {
+    expect(checkLocationDeployable(location(), 1)).toEqual({ ok: true });
+  });
+
+  it("rejects hidden, coming soon, sold out and unoffered plans", () => {
+    expect(checkLocationDeployable(location({ status: "hidden" }), 1)).toEqual({ ok: false, error: "Invalid location selected" });
+    expect(checkLocationDeployable(location({ status: "coming_soon" }), 1).ok).toBe(false);
+    expect(checkLocationDeployable(location({ soldOut: true }), 1).ok).toBe(false);
+    expect(checkLocationDeployable(location({ planIds: [2] }), 1).ok).toBe(false);
+  });
+});
+
+describe("getPublicLocations", () => {
+  it("drops hidden locations and orders the rest", () => {
+    const rows = [
+      location({ id: 2, code: "SYD", name: "Sydney", status: "coming_soon", sortOrder: 1 }),
+      location({ id: 3, code: "MEL", name: "Melbourne", status: "hidden" }),
+      location({ id: 1, soldOut: true }),
+    ];
+
+    const result = getPublicLocations(rows);
+    expect(result.map((l) => l.code)).toEqual(["BNE", "SYD"]);
+    expect(result[0]).toMatchObject({ enabled: false, soldOut: true, status: "enabled" });
+    expect(result[1]).toMatchObject({ enabled: false, status: "coming_soon" });
+    expect(result[0]).not.toHaveProperty("hypervisorGroupId");
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  counterRate,
+  metricBucketStart,
+  metricsHistoryToCsv,
+  rollupMetricSamples,
+} from "../server/metrics-history";
+
+const sample = (iso: string, overrides: Partial<Parameters<typeof rollupMetricSamples>[0][number]> = {}) => ({
+  bucketStart: new Date(iso),
+  sampleCount: 1,
+  cpuAvg: 10,
+  cpuMax: 10,
+  memoryAvg: 50,
+  memoryMax: 50,
+  diskPercent: 40,
+  diskReadBps: null,
+  diskWriteBps: null,
+  netRxBps: 1000,
+  netTxBps: 2000,
+  ...overrides,
+});
+
+describe("metricBucketStart", () => {
+  it("floors to the start of the bucket in UTC", () => {
+    const at = new Date("2026-10-19T13:47:12Z");
+    expect(metricBucketStart(at, "5m").toISOString()).toBe("2026-10-19T13:45:00.000Z");
+    expect(metricBucketStart(at, "1h").toISOString()).toBe("2026-10-19T13:00:00.000Z");
+    expect(metricBucketStart(at, "1d").toISOString()).toBe("2026-10-19T00:00:00.000Z");
+  });
+});
+
+describe("counterRate", () => {
+  it("computes bytes per second between readings", () => {
+    expect(counterRate(1000, 31000, 300)).toBe(100);
+  });
+
+  it("has no rate without a previous reading or after a counter reset", () => {
+    expect(counterRate(null, 1000, 300)).toBeNull();
+    expect(counterRate(5000, 1000, 300)).toBeNull();
+    expect(counterRate(1000, 2000, 0)).toBeNull();
+  });
+});
+
+describe("rollupMetricSamples", () => {
+  it("averages within each bucket and keeps the peak", () => {
+    const rollups = rollupMetricSamples([
+      sample("2026-10-19T13:00:00Z", { cpuAvg: 10, cpuMax: 10 }),
+      sample("2026-10-19T13:05:00Z", { cpuAvg: 30, cpuMax: 90 }),
+      sample("2026-10-19T14:00:00Z", { cpuAvg: 50, cpuMax: 50 }),
+    ], "1h");
+
+    expect(rollups).toHaveLength(2);
+    expect(rollups[0]).toMatchObject({ sampleCount: 2, cpuAvg: 20, cpuMax: 90, netRxBps: 1000 });
+    expect(rollups[1].bucketStart.toISOString()).toBe("2026-10-19T14:00:00.000Z");
+  });
+
+  it("weights existing rollups by how many samples they hold", () => {
+    const [day] = rollupMetricSamples([
+      sample("2026-10-19T00:00:00Z", { sampleCount: 12, memoryAvg: 40 }),
+      sample("2026-10-19T01:00:00Z", { sampleCount: 4, memoryAvg: 80 }),
+    ], "1d");
+
+    expect(day.sampleCount).toBe(16);
+    expect(day.memoryAvg).toBe(50);
+  });
+
+  it("leaves rates null when no sample reported them", () => {
+    const [hour] = rollupMetricSamples([sample("2026-10-19T13:00:00Z")], "1h");
+    expect(hour.diskReadBps).toBeNull();
+  });
+});
+
+describe("metricsHistoryToCsv", () => {
+  it("writes a header and one row per sample with empty cells for missing values", () => {
+    const csv = metricsHistoryToCsv([sample("2026-10-19T13:00:00Z")]);
+    const [header, row] = csv.trim().split("\n");
+    expect(header.split(",")[0]).toBe("timestamp");
+    expect(row).toBe("2026-10-19T13:00:00.000Z,10.00,10.00,50.00,50.00,40.00,,,1000,2000,1");
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  PLACEMENT_MAX_VCPU_RATIO,
+  checkHypervisorFit,
+  chooseHypervisor,
+  type PlacementCandidate,
+} from "../server/placement";
+
+function hypervisor(overrides: Partial<PlacementCandidate> = {}): PlacementCandidate {
+  return {
+    id: 1,
+    name: "hv1",
+    enabled: true,
+    maintenance: false,
+    drained: false,
+    maxServers: 100,
+    cpuCores: 16,
+    ramTotalMb: 65536,
+    diskTotalGb: 2000,
+    allocated: { servers: 0, vcpu: 0, ramMb: 0, diskGb: 0, ownerIds: [] },
+    ...overrides,
+  };
+}
+
+const request = { vcpu: 2, ramMb: 4096, diskGb: 80, virtfusionUserId: 42 };
+
+describe("checkHypervisorFit", () => {
+  it("fits an empty hypervisor", () => {
+    expect(checkHypervisorFit(hypervisor(), request)).toEqual({ fits: true, freeRamMb: 61440, vcpuRatio: 2 / 16 });
+  });
+
+  it("skips drained, disabled and maintenance hypervisors", () => {
+    expect(checkHypervisorFit(hypervisor({ drained: true }), request)).toEqual({ fits: false, reason: "drained" });
+    expect(checkHypervisorFit(hypervisor({ enabled: false }), request).fits).toBe(false);
+    expect(checkHypervisorFit(hypervisor({ maintenance: true }), request).fits).toBe(false);
+  });
+
+  it("rejects when RAM, disk, server count or vCPU overcommit would be exceeded", () => {
+    const allocated = { servers: 10, vcpu: 0, ramMb: 0, diskGb: 0, ownerIds: [] };
+    expect(checkHypervisorFit(hypervisor({ allocated: { ...allocated, ramMb: 62000 } }), request)).toEqual({ fits: false, reason: "not enough RAM" });
+    expect(checkHypervisorFit(hypervisor({ allocated: { ...allocated, diskGb: 1950 } }), request)).toEqual({ fits: false, reason: "not enough disk" });
+    expect(checkHypervisorFit(hypervisor({ maxServers: 10, allocated }), request)).toEqual({ fits: false, reason: "server limit reached" });
+    expect(checkHypervisorFit(hypervisor({ allocated: { ...allocated, vcpu: 16 * PLACEMENT_MAX_VCPU_RATIO - 1 } }), request))
+      .toEqual({ fits: false, reason: "vCPU overcommit limit reached" });
+  });
+
+  it("treats totals VirtFusion doesn't report as unconstrained", () => {
+    const fit = checkHypervisorFit(hypervisor({ cpuCores: null, ramTotalMb: null, diskTotalGb: null }), request);
+    expect(fit).toEqual({ fits: true, freeRamMb: null, vcpuRatio: null });
+  });
+});
+
+describe("chooseHypervisor", () => {
+  it("picks the hypervisor with the most free RAM", () => {
+    const busy = hypervisor({ id: 1, allocated: { servers: 5, vcpu: 10, ramMb: 40000, diskGb: 400, ownerIds: [] } });
+    const quiet = hypervisor({ id: 2, allocated: { servers: 1, vcpu: 2, ramMb: 4096, diskGb: 80, ownerIds: [] } });
+    const decision = chooseHypervisor([busy, quiet], request);
+    expect(decision.ok && decision.hypervisor.id).toBe(2);
+  });
+
+  it("keeps an account's servers apart when another hypervisor has room", () => {
+    const shared = hypervisor({ id: 1, allocated: { servers: 1, vcpu: 2, ramMb: 4096, diskGb: 80, ownerIds: [42] } });
+    const other = hypervisor({ id: 2, allocated: { servers: 5, vcpu: 10, ramMb: 40000, diskGb: 400, ownerIds: [7] } });
+    expect(chooseHypervisor([shared, other], request)).toMatchObject({ ok: true, hypervisor: { id: 2 }, sharesAccount: false });
+    expect(chooseHypervisor([shared, hypervisor({ id: 2, drained: true })], request)).toMatchObject({ ok: true, hypervisor: { id: 1 }, sharesAccount: true });
+  });
+
+  it("reports why every hypervisor was rejected when the location is full", () => {
+    const decision = chooseHypervisor([hypervisor({ id: 1, drained: true }), hypervisor({ id: 2, name: "hv2", ramTotalMb: 2048 })], request);
+    expect(decision).toEqual({
+      ok: false,
+      rejected: [
+        { id: 1, name: "hv1", reason: "drained" },
+        { id: 2, name: "hv2", reason: "not enough RAM" },
+      ],
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculatePlanChangeProration,
+  checkPlanChangeEligibility,
+  subtractMonth,
+} from "../server/plan-change";
+
+const activeBilling = { status: "paid", freeServer: false, isTrial: false, adminSuspended: false };
+const smallPlan = { id: 1, storageGb: 20, active: true, virtfusionPackageId: 10 };
+const largePlan = { id: 2, storageGb: 40, active: true, virtfusionPackageId: 11 };
+
+describe("plan change proration", () => {
+  it("charges the price difference for the remaining half of a period", () => {
+    const result = calculatePlanChangeProration({
+      currentPriceCents: 1000,
+      newPriceCents: 2000,
+      nextBillAt: new Date("2026-05-01T00:00:00Z"),
+      now: new Date("2026-04-16T00:00:00Z"),
+    });
+
+    expect(result.remainingFraction).toBeCloseTo(0.5, 5);
+    expect(result.amountCents).toBe(500);
+  });
+
+  it("credits a downgrade as a negative amount", () => {
+    const result = calculatePlanChangeProration({
+      currentPriceCents: 2000,
+      newPriceCents: 1000,
+      nextBillAt: new Date("2026-05-01T00:00:00Z"),
+      now: new Date("2026-04-01T00:00:00Z"),
+    });
+
+    expect(result.amountCents).toBe(-1000);
+  });
+
+  it("charges nothing once the period has ended", () => {
+    const result = calculatePlanChangeProration({
+      currentPriceCents: 1000,
+      newPriceCents: 3000,
+      nextBillAt: new Date("2026-05-01T00:00:00Z"),
+      now: new Date("2026-05-02T00:00:00Z"),
+    });
+
+    expect(result.amountCents).toBe(0);
+  });
+
+  it("prorates across the whole of a prepaid term", () => {
+    const result = calculatePlanChangeProration({
+      currentPriceCents: 12000,
+      newPriceCents: 24000,
+      nextBillAt: new Date(2027, 3, 1),
+      termMonths: 12,
+      now: new Date(2027, 0, 1),
+    });
+
+    expect(result.periodStart).toEqual(new Date(2026, 3, 1));
+    expect(result.remainingFraction).toBeCloseTo(90 / 365, 5);
+    expect(result.amountCents).toBe(Math.round(12000 * (90 / 365)));
+  });
+
+  it("steps back to the end of shorter months", () => {
+    expect(subtractMonth(new Date(2026, 2, 31)).getDate()).toBe(28);
+    expect(subtractMonth(new Date(2026, 0, 15)).getMonth()).toBe(11);
+    expect(subtractMonth(new Date(2027, 1, 15), 12)).toEqual(new Date(2026, 1, 15));
+    expect(subtractMonth(new Date(2026, 1, 15), 3).getMonth()).toBe(10);
+  });
+});
+
+describe("plan change eligibility", () => {
+  it("allows upgrades on paid servers", () => {
+    expect(checkPlanChangeEligibility(activeBilling, smallPlan, largePlan)).toEqual({ ok: true });
+  });
+
+  it("refuses plans with less storage", () => {
+    expect(checkPlanChangeEligibility(activeBilling, largePlan, smallPlan).ok).toBe(false);
+  });
+
+  it("refuses trials, complimentary and unpaid servers", () => {
+    expect(checkPlanChangeEligibility({ ...activeBilling, isTrial: true }, smallPlan, largePlan).ok).toBe(false);
+    expect(checkPlanChangeEligibility({ ...activeBilling, freeServer: true }, smallPlan, largePlan).ok).toBe(false);
+    expect(checkPlanChangeEligibility({ ...activeBilling, status: "unpaid" }, smallPlan, largePlan).ok).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeNextScheduledRun,
+  isValidTimeZone,
+  nextCronRun,
+  parseCronExpression,
+} from "../server/power-schedules";
+
+function parse(expression: string) {
+  const result = parseCronExpression(expression);
+  if (!result.ok) throw new Error(result.error);
+  return result.schedule;
+}
+
+describe("parseCronExpression", () => {
+  it("parses lists, ranges and steps", () => {
+    const schedule = parse("30 */6 1,15 1-3 1-5");
+
+    expect([...schedule.minutes]).toEqual([30]);
+    expect([...schedule.hours]).toEqual([0, 6, 12, 18]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("treats 7 as Sunday", () => {
+    expect([...parse("0 3 * * 7").daysOfWeek]).toEqual([0]);
+  });
+
+  it("rejects malformed and out-of-range fields", () => {
+    expect(parseCronExpression("0 3 * *").ok).toBe(false);
+    expect(parseCronExpression("0 24 * * *")).toEqual({ ok: false, error: 'Invalid hour field "24".' });
+    expect(parseCronExpression("0 3 * 0 *").ok).toBe(false);
+    expect(parseCronExpression("0 3 * * MON").ok).toBe(false);
+  });
+
+  it("rejects schedules that run more than once an hour", () => {
+    expect(parseCronExpression("*/5 * * * *").ok).toBe(false);
+    expect(parseCronExpression("0,30 * * * *").ok).toBe(false);
+  });
+});
+
+describe("nextCronRun", () => {
+  it("finds the next weekly run in Brisbane time", () => {
+    // Sunday 03:00 AEST is Saturday 17:00 UTC
+    const next = nextCronRun(parse("0 3 * * 0"), "Australia/Brisbane", new Date("2026-10-19T00:00:00Z"));
+    expect(next?.toISOString()).toBe("2026-10-24T17:00:00.000Z");
+  });
+
+  it("returns a time strictly after the reference point", () => {
+    const next = nextCronRun(parse("0 3 * * *"), "Australia/Brisbane", new Date("2026-10-18T17:00:00Z"));
+    expect(next?.toISOString()).toBe("2026-10-19T17:00:00.000Z");
+  });
+
+  it("follows daylight saving in Sydney", () => {
+    // AEST (+10) in September, AEDT (+11) once DST starts on 4 October 2026
+    const winter = nextCronRun(parse("0 3 * * *"), "Australia/Sydney", new Date("2026-09-01T00:00:00Z"));
+    const summer = nextCronRun(parse("0 3 * * *"), "Australia/Sydney", new Date("2026-11-01T00:00:00Z"));
+    expect(winter?.toISOString()).toBe("2026-09-01T17:00:00.000Z");
+    expect(summer?.toISOString()).toBe("2026-11-01T16:00:00.000Z");
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // The 1st of November 2026 is a Sunday; the next Monday is the 2nd
+    const next = nextCronRun(parse("0 0 1 * 1"), "UTC", new Date("2026-10-27T00:00:00Z"));
+    expect(next?.toISOString()).toBe("2026-11-01T00:00:00.000Z");
+  });
+
+  it("returns null for dates that never occur", () => {
+    expect(nextCronRun(parse("0 0 31 2 *"), "UTC", new Date("2026-01-01T00:00:00Z"))).toBeNull();
+  });
+});
+
+describe("computeNextScheduledRun", () => {
+  const now = new Date("2026-10-19T00:00:00Z");
+
+  it("returns a future one-off time and nothing once it has passed", () => {
+    const runAt = new Date("2026-10-20T00:00:00Z");
+    expect(computeNextScheduledRun({ cronExpression: null, runAt, timezone: "UTC" }, now)).toEqual(runAt);
+    expect(computeNextScheduledRun({ cronExpression: null, runAt: new Date("2026-10-18T00:00:00Z"), timezone: "UTC" }, now)).toBeNull();
+  });
+
+  it("uses the cron expression for recurring schedules", () => {
+    const next = computeNextScheduledRun({ cronExpression: "15 * * * *", runAt: null, timezone: "UTC" }, now);
+    expect(next?.toISOString()).toBe("2026-10-19T00:15:00.000Z");
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA zones and rejects unknown ones", () => {
+    expect(isValidTimeZone("Australia/Brisbane")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus")).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import {
+  PROVISIONING_MAX_ATTEMPTS,
+  isDeployOrderStuck,
+  nextProvisioningStep,
+  planProvisioningFailure,
+  provisioningRetryDelayMs,
+} from "../server/provisioning";
+
+const now = new Date("2026-10-19T00:00:00Z");
+
+describe("nextProvisioningStep", () => {
+  it("walks every step when an OS is being installed", () => {
+    const order = { osId: 12 };
+    expect(nextProvisioningStep("create_user", order)).toBe("create_server");
+    expect(nextProvisioningStep("create_server", order)).toBe("build");
+    expect(nextProvisioningStep("build", order)).toBe("create_billing");
+    expect(nextProvisioningStep("create_billing", order)).toBe("done");
+    expect(nextProvisioningStep("done", order)).toBe("done");
+  });
+
+  it("skips the build for servers created without an OS", () => {
+    expect(nextProvisioningStep("create_server", { osId: null })).toBe("create_billing");
+  });
+});
+
+describe("provisioningRetryDelayMs", () => {
+  it("doubles from 30 seconds and caps at 15 minutes", () => {
+    expect(provisioningRetryDelayMs(1)).toBe(30_000);
+    expect(provisioningRetryDelayMs(2)).toBe(60_000);
+    expect(provisioningRetryDelayMs(4)).toBe(240_000);
+    expect(provisioningRetryDelayMs(20)).toBe(15 * 60_000);
+  });
+});
+
+describe("planProvisioningFailure", () => {
+  it("schedules a retry with backoff until attempts run out", () => {
+    expect(planProvisioningFailure({ attempts: 0 }, now)).toEqual({
+      action: "retry",
+      attempts: 1,
+      nextAttemptAt: new Date(now.getTime() + 30_000),
+    });
+    expect(planProvisioningFailure({ attempts: PROVISIONING_MAX_ATTEMPTS - 1 }, now)).toEqual({
+      action: "fail",
+      attempts: PROVISIONING_MAX_ATTEMPTS,
+    });
+  });
+});
+
+describe("isDeployOrderStuck", () => {
+  const order = { status: "provisioning", nextAttemptAt: now, createdAt: new Date(now.getTime() - 5 * 60_000) };
+
+  it("ignores orders that are retrying on schedule or finished", () => {
+    expect(isDeployOrderStuck(order, now)).toBe(false);
+    expect(isDeployOrderStuck({ ...order, status: "active", nextAttemptAt: null }, now)).toBe(false);
+    expect(isDeployOrderStuck({ ...order, status: "failed", nextAttemptAt: null }, now)).toBe(false);
+  });
+
+  it("flags orders parked for an admin or running for over an hour", () => {
+    expect(isDeployOrderStuck({ ...order, nextAttemptAt: null }, now)).toBe(true);
+    expect(isDeployOrderStuck({ ...order, createdAt: new Date(now.getTime() - 2 * 60 * 60_000) }, now)).toBe(true);
+  });
+});
@@ -1,5 +1,5 @@
 import { afterEach, describe, expect, it } from "vitest";
-import { getRateLimitIp } from "../server/rate-limit";
+import { getApiTokenRateLimitKey, getRateLimitIp } from "../server/rate-limit";
 
 describe("rate limit IP resolution", () => {
   const originalTrustProxy = process.env.TRUST_PROXY;
@@ -40,3 +40,16 @@ describe("rate limit IP resolution", () => {
     expect(getRateLimitIp(req)).toBe("::ffff:198.51.100.42");
   });
 });
+
+describe("API token rate limit keys", () => {
+  it("buckets requests by token rather than IP", () => {
+    const req = {
+      headers: {},
+      ip: "198.51.100.42",
+      socket: { remoteAddress: "198.51.100.42" },
+      apiToken: { id: 7, scopes: ["servers:read"] },
+    } as any;
+
+    expect(getApiTokenRateLimitKey(req)).toBe("api-token:7");
+  });
+});
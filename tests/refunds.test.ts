@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkInvoiceRefund,
+  creditNoteTaxFields,
+  invoiceStatusAfterRefund,
+  refundedCents,
+} from "../server/refunds";
+
+const charge = { amountCents: 2200, status: "paid" };
+
+describe("checkInvoiceRefund", () => {
+  it("refunds a wallet charge back to the wallet", () => {
+    expect(checkInvoiceRefund(charge, 0, { amountCents: 2200, method: "wallet" })).toEqual({ ok: true, paymentIntentId: null });
+  });
+
+  it("refunds a wallet charge to a card payment the admin picks", () => {
+    expect(checkInvoiceRefund(charge, 0, { amountCents: 1000, method: "card", paymentIntentId: "pi_abc" }))
+      .toEqual({ ok: true, paymentIntentId: "pi_abc" });
+    expect(checkInvoiceRefund(charge, 0, { amountCents: 1000, method: "card" })).toMatchObject({ ok: false });
+  });
+
+  it("won't refund more than is left on the invoice", () => {
+    const result = checkInvoiceRefund({ ...charge, status: "partially_refunded" }, 1500, { amountCents: 800, method: "wallet" });
+    expect(result).toEqual({ ok: false, error: "Only $7.00 of this invoice is left to refund." });
+    expect(checkInvoiceRefund({ ...charge, status: "partially_refunded" }, 1500, { amountCents: 700, method: "wallet" }).ok).toBe(true);
+  });
+
+  it("rejects void and unpaid invoices", () => {
+    expect(checkInvoiceRefund({ ...charge, status: "void" }, 2200, { amountCents: 100, method: "wallet" }).ok).toBe(false);
+    expect(checkInvoiceRefund({ ...charge, status: "pending" }, 0, { amountCents: 100, method: "wallet" }).ok).toBe(false);
+  });
+});
+
+describe("refund totals", () => {
+  it("voids an invoice once it is refunded in full", () => {
+    const total = refundedCents([
+      { amountCents: 1200, status: "issued" },
+      { amountCents: 1000, status: "pending" },
+      { amountCents: 500, status: "failed" },
+    ]);
+    expect(total).toBe(2200);
+    expect(invoiceStatusAfterRefund(2200, total)).toBe("void");
+    expect(invoiceStatusAfterRefund(2200, 1200)).toBe("partially_refunded");
+  });
+
+  it("reverses GST at the invoice's rate", () => {
+    expect(creditNoteTaxFields(1100, { taxTreatment: "gst" })).toEqual({ subtotalCents: 1000, taxCents: 100 });
+    expect(creditNoteTaxFields(1100, { taxTreatment: "gst_free_export" })).toEqual({ subtotalCents: 1100, taxCents: 0 });
+    expect(creditNoteTaxFields(1100, { taxTreatment: null })).toEqual({ subtotalCents: 1000, taxCents: 100 });
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import {
+  RESCUE_SESSION_MINUTES,
+  generateRescuePassword,
+  isRescueSessionExpired,
+  rescueExpiresAt,
+} from "../server/rescue-mode";
+
+const now = new Date("2026-10-19T00:00:00Z");
+
+describe("generateRescuePassword", () => {
+  it("produces distinct passwords without look-alike characters", () => {
+    const first = generateRescuePassword();
+    const second = generateRescuePassword();
+    expect(first).toHaveLength(20);
+    expect(first).not.toBe(second);
+    expect(first).not.toMatch(/[0O1lI]/);
+  });
+});
+
+describe("rescueExpiresAt", () => {
+  it("ends the session after the rescue window", () => {
+    expect(rescueExpiresAt(now)).toEqual(new Date(now.getTime() + RESCUE_SESSION_MINUTES * 60_000));
+  });
+});
+
+describe("isRescueSessionExpired", () => {
+  it("only flags active sessions past their expiry", () => {
+    const past = new Date(now.getTime() - 1000);
+    const future = new Date(now.getTime() + 1000);
+    expect(isRescueSessionExpired({ expiresAt: past, endedAt: null }, now)).toBe(true);
+    expect(isRescueSessionExpired({ expiresAt: future, endedAt: null }, now)).toBe(false);
+    expect(isRescueSessionExpired({ expiresAt: past, endedAt: past }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from "vitest";
+import { checkForwardDns, normalizePtrHostname } from "../server/reverse-dns";
+
+function resolverWith(records: { a?: string[]; aaaa?: string[]; error?: { code: string } }) {
+  return {
+    resolve4: vi.fn(async () => {
+      if (records.error) throw records.error;
+      return records.a ?? [];
+    }),
+    resolve6: vi.fn(async () => {
+      if (records.error) throw records.error;
+      return records.aaaa ?? [];
+    }),
+  };
+}
+
+describe("PTR hostname validation", () => {
+  it("lowercases and strips the trailing dot", () => {
+    expect(normalizePtrHostname(" Mail.Example.com. ")).toEqual({ ok: true, value: "mail.example.com" });
+  });
+
+  it("rejects single labels, bad characters and IP addresses", () => {
+    expect(normalizePtrHostname("mail").ok).toBe(false);
+    expect(normalizePtrHostname("mail_server.example.com").ok).toBe(false);
+    expect(normalizePtrHostname("-mail.example.com").ok).toBe(false);
+    expect(normalizePtrHostname("192.0.2.1").ok).toBe(false);
+  });
+});
+
+describe("forward DNS check", () => {
+  it("accepts a matching A record", async () => {
+    const resolver = resolverWith({ a: ["198.51.100.1", "192.0.2.10"] });
+    await expect(checkForwardDns("mail.example.com", "192.0.2.10", resolver)).resolves.toEqual({ ok: true });
+    expect(resolver.resolve6).not.toHaveBeenCalled();
+  });
+
+  it("matches AAAA records regardless of formatting", async () => {
+    const resolver = resolverWith({ aaaa: ["2001:db8:0:0:0:0:0:10"] });
+    await expect(checkForwardDns("mail.example.com", "2001:db8::10", resolver)).resolves.toEqual({ ok: true });
+  });
+
+  it("rejects hostnames pointing elsewhere", async () => {
+    const result = await checkForwardDns("mail.example.com", "192.0.2.10", resolverWith({ a: ["198.51.100.1"] }));
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toContain("no A record");
+    }
+  });
+
+  it("treats missing records as a mismatch", async () => {
+    const result = await checkForwardDns("mail.example.com", "192.0.2.10", resolverWith({ error: { code: "ENOTFOUND" } }));
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toContain("no A record");
+    }
+  });
+});
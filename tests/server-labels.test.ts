@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_TAGS_PER_SERVER,
+  matchesServerFilter,
+  normalizeTag,
+  normalizeTags,
+  parseServerFilter,
+  subtotalByProject,
+} from "../server/server-labels";
+
+describe("normalizeTag", () => {
+  it("lowercases and trims tags", () => {
+    expect(normalizeTag("  Env:Prod ")).toEqual({ ok: true, value: "env:prod" });
+  });
+
+  it("rejects empty, long and oddly formatted tags", () => {
+    expect(normalizeTag("   ").ok).toBe(false);
+    expect(normalizeTag("a".repeat(33)).ok).toBe(false);
+    expect(normalizeTag("has space").ok).toBe(false);
+    expect(normalizeTag("-leading").ok).toBe(false);
+  });
+});
+
+describe("normalizeTags", () => {
+  it("dedupes and sorts tags", () => {
+    expect(normalizeTags(["web", "Env:Prod", "WEB"])).toEqual({ ok: true, tags: ["env:prod", "web"] });
+  });
+
+  it("limits the number of tags per server", () => {
+    const tags = Array.from({ length: MAX_TAGS_PER_SERVER + 1 }, (_, i) => `tag-${i}`);
+    expect(normalizeTags(tags).ok).toBe(false);
+  });
+});
+
+describe("parseServerFilter", () => {
+  it("accepts repeated and comma-separated tags", () => {
+    expect(parseServerFilter({ tag: ["web", "Env:Prod"], tags: "db,web" })).toEqual({
+      ok: true,
+      filter: { tags: ["web", "env:prod", "db"] },
+    });
+  });
+
+  it("parses project filters", () => {
+    expect(parseServerFilter({ project: "12" })).toEqual({ ok: true, filter: { tags: [], project: 12 } });
+    expect(parseServerFilter({ project: "none" })).toEqual({ ok: true, filter: { tags: [], project: "none" } });
+    expect(parseServerFilter({ project: "12abc" }).ok).toBe(false);
+  });
+});
+
+describe("matchesServerFilter", () => {
+  const labels = { tags: ["env:prod", "web"], projectId: 3 };
+
+  it("requires every requested tag", () => {
+    expect(matchesServerFilter(labels, { tags: ["web"] })).toBe(true);
+    expect(matchesServerFilter(labels, { tags: ["web", "db"] })).toBe(false);
+  });
+
+  it("filters by project, including servers without labels", () => {
+    expect(matchesServerFilter(labels, { tags: [], project: 3 })).toBe(true);
+    expect(matchesServerFilter(labels, { tags: [], project: "none" })).toBe(false);
+    expect(matchesServerFilter(undefined, { tags: [], project: "none" })).toBe(true);
+    expect(matchesServerFilter(undefined, { tags: ["web"] })).toBe(false);
+  });
+});
+
+describe("subtotalByProject", () => {
+  const projectList = [
+    { id: 1, name: "Platform" },
+    { id: 2, name: "Marketing" },
+  ];
+
+  it("subtotals charges per project with unassigned servers last", () => {
+    const subtotals = subtotalByProject([
+      { projectId: 1, monthlyPriceCents: 1000 },
+      { projectId: null, monthlyPriceCents: 700 },
+      { projectId: 1, monthlyPriceCents: 2000 },
+      { projectId: 2, monthlyPriceCents: 500 },
+    ], projectList);
+
+    expect(subtotals).toEqual([
+      { projectId: 2, projectName: "Marketing", serverCount: 1, monthlyPriceCents: 500 },
+      { projectId: 1, projectName: "Platform", serverCount: 2, monthlyPriceCents: 3000 },
+      { projectId: null, projectName: "Unassigned", serverCount: 1, monthlyPriceCents: 700 },
+    ]);
+  });
+
+  it("counts complimentary servers without charging them and ignores deleted projects", () => {
+    const subtotals = subtotalByProject([
+      { projectId: 1, monthlyPriceCents: 1000, freeServer: true },
+      { projectId: 99, monthlyPriceCents: 700 },
+    ], projectList);
+
+    expect(subtotals).toEqual([
+      { projectId: 1, projectName: "Platform", serverCount: 1, monthlyPriceCents: 0 },
+      { projectId: null, projectName: "Unassigned", serverCount: 1, monthlyPriceCents: 700 },
+    ]);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { checkServerTransferEligibility, isServerTransferOpen } from "../server/server-transfers";
+
+const now = new Date("2026-10-19T00:00:00Z");
+const billing = {
+  status: "active",
+  freeServer: false,
+  isTrial: false,
+  adminSuspended: false,
+  nextBillAt: new Date("2026-11-01T00:00:00Z"),
+};
+
+describe("checkServerTransferEligibility", () => {
+  it("allows paid-up servers", () => {
+    expect(checkServerTransferEligibility(billing, now)).toEqual({ ok: true });
+    expect(checkServerTransferEligibility({ ...billing, status: "paid" }, now)).toEqual({ ok: true });
+  });
+
+  it("refuses servers without billing, trials and complimentary servers", () => {
+    expect(checkServerTransferEligibility(undefined, now).ok).toBe(false);
+    expect(checkServerTransferEligibility({ ...billing, isTrial: true }, now).ok).toBe(false);
+    expect(checkServerTransferEligibility({ ...billing, freeServer: true }, now).ok).toBe(false);
+  });
+
+  it("refuses servers with an outstanding balance or suspension", () => {
+    for (const overrides of [
+      { status: "unpaid" },
+      { status: "suspended" },
+      { adminSuspended: true },
+      { nextBillAt: new Date("2026-10-18T00:00:00Z") },
+    ]) {
+      const result = checkServerTransferEligibility({ ...billing, ...overrides }, now);
+      expect(result).toEqual({ ok: false, error: "Settle any outstanding balance on this server before transferring it." });
+    }
+    expect(checkServerTransferEligibility({ ...billing, status: "cancelled" }, now).ok).toBe(false);
+  });
+});
+
+describe("isServerTransferOpen", () => {
+  it("is open only while pending and unexpired", () => {
+    const expiresAt = new Date("2026-10-20T00:00:00Z");
+    expect(isServerTransferOpen({ status: "pending", expiresAt }, now)).toBe(true);
+    expect(isServerTransferOpen({ status: "pending", expiresAt }, new Date("2026-10-21T00:00:00Z"))).toBe(false);
+    expect(isServerTransferOpen({ status: "declined", expiresAt }, now)).toBe(false);
+  });
+});
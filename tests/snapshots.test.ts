@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import type { VirtFusionSnapshot } from "../server/virtfusion";
+import { defaultSnapshotName, planSnapshotCreate } from "../server/snapshots";
+
+function buildSnapshot(overrides: Partial<VirtFusionSnapshot> = {}): VirtFusionSnapshot {
+  return {
+    id: 1,
+    name: "snapshot",
+    status: "complete",
+    sizeMb: 1024,
+    createdAt: "2026-03-18T00:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("snapshot retention", () => {
+  it("allows a snapshot while under the plan limit", () => {
+    expect(planSnapshotCreate([buildSnapshot()], 2)).toEqual({ ok: true, deleteIds: [] });
+  });
+
+  it("refuses snapshots on plans without any allowance", () => {
+    const result = planSnapshotCreate([], 0);
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.code).toBe("DISABLED");
+  });
+
+  it("refuses a new snapshot while one is still being taken", () => {
+    const result = planSnapshotCreate([buildSnapshot({ status: "pending" })], 3);
+
+    expect(!result.ok && result.code).toBe("IN_PROGRESS");
+  });
+
+  it("requires opting in before rotating out old snapshots", () => {
+    const existing = [
+      buildSnapshot({ id: 1, createdAt: "2026-03-18T00:00:00Z" }),
+      buildSnapshot({ id: 2, createdAt: "2026-03-10T00:00:00Z" }),
+    ];
+
+    const refused = planSnapshotCreate(existing, 2);
+    expect(!refused.ok && refused.code).toBe("LIMIT_REACHED");
+    expect(planSnapshotCreate(existing, 2, { replaceOldest: true })).toEqual({ ok: true, deleteIds: [2] });
+  });
+
+  it("trims down to the limit when a plan's allowance was lowered", () => {
+    const existing = [
+      buildSnapshot({ id: 5, createdAt: null }),
+      buildSnapshot({ id: 3, createdAt: null }),
+      buildSnapshot({ id: 4, createdAt: null }),
+    ];
+
+    expect(planSnapshotCreate(existing, 1, { replaceOldest: true })).toEqual({ ok: true, deleteIds: [3, 4, 5] });
+  });
+
+  it("names snapshots by UTC timestamp", () => {
+    expect(defaultSnapshotName(new Date("2026-03-05T07:09:00Z"))).toBe("snapshot-20260305-0709");
+  });
+});
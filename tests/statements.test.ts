@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  previousStatementPeriod,
+  statementEntryCategory,
+  statementEntryDescription,
+  statementPeriodLabel,
+  statementTotals,
+} from "../server/statements";
+
+describe("previousStatementPeriod", () => {
+  it("covers the whole previous calendar month", () => {
+    const period = previousStatementPeriod(new Date("2026-10-01T03:00:00Z"));
+    expect(period.period).toBe("2026-09");
+    expect(period.periodStart.toISOString()).toBe("2026-09-01T00:00:00.000Z");
+    expect(period.periodEnd.toISOString()).toBe("2026-10-01T00:00:00.000Z");
+  });
+
+  it("wraps back into the previous year in January", () => {
+    expect(previousStatementPeriod(new Date("2027-01-15T00:00:00Z")).period).toBe("2026-12");
+  });
+
+  it("labels periods by month name", () => {
+    expect(statementPeriodLabel("2026-09")).toBe("September 2026");
+  });
+});
+
+describe("statementTotals", () => {
+  const period = previousStatementPeriod(new Date("2026-10-05T00:00:00Z"));
+
+  it("works the opening balance back from the balance now", () => {
+    const totals = statementTotals(4000, [
+      { amountCents: 5000, createdAt: new Date("2026-09-03T00:00:00Z") },
+      { amountCents: -1200, createdAt: new Date("2026-09-10T00:00:00Z") },
+      { amountCents: 300, createdAt: new Date("2026-09-11T00:00:00Z") },
+      // After the period: affects the opening balance but not the statement's totals
+      { amountCents: -1100, createdAt: new Date("2026-10-02T00:00:00Z") },
+    ], period);
+
+    expect(totals).toEqual({
+      openingBalanceCents: 1000,
+      closingBalanceCents: 5100,
+      creditsCents: 5300,
+      debitsCents: 1200,
+    });
+  });
+
+  it("carries the balance through a month with no activity", () => {
+    expect(statementTotals(2500, [], period)).toMatchObject({ openingBalanceCents: 2500, closingBalanceCents: 2500 });
+  });
+});
+
+describe("statement entries", () => {
+  it("groups wallet transactions into top-ups, charges, refunds and adjustments", () => {
+    expect(statementEntryCategory("credit", 2000)).toBe("Top-up");
+    expect(statementEntryCategory("debit", -1100)).toBe("Charge");
+    expect(statementEntryCategory("refund", 1100)).toBe("Refund");
+    expect(statementEntryCategory("adjustment_debit", -500)).toBe("Adjustment");
+    expect(statementEntryCategory("admin_adjustment", 500)).toBe("Adjustment");
+  });
+
+  it("describes entries with their server", () => {
+    expect(statementEntryDescription({
+      type: "debit",
+      amountCents: -1100,
+      metadata: { description: "Monthly billing", serverName: "web-1" },
+    })).toBe("Monthly billing - web-1");
+    expect(statementEntryDescription({ type: "credit", amountCents: 2000, metadata: { source: "auto_topup" } })).toBe("Auto top-up");
+  });
+});
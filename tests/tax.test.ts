@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import {
+  displayPriceCents,
+  formatAbn,
+  isValidAbn,
+  splitTaxInclusive,
+  taxTreatmentFor,
+} from "../shared/tax";
+
+describe("taxTreatmentFor", () => {
+  it("charges GST to Australian customers and anyone without a profile", () => {
+    expect(taxTreatmentFor(null)).toBe("gst");
+    expect(taxTreatmentFor({ countryCode: "AU", businessName: "Acme Pty Ltd" })).toBe("gst");
+  });
+
+  it("treats overseas businesses as GST-free exports", () => {
+    expect(taxTreatmentFor({ countryCode: "NZ", businessName: "Kiwi Ltd" })).toBe("gst_free_export");
+    expect(taxTreatmentFor({ countryCode: "NZ", businessName: null })).toBe("gst");
+  });
+});
+
+describe("splitTaxInclusive", () => {
+  it("breaks out a tenth of the GST-exclusive price", () => {
+    expect(splitTaxInclusive(1100, "gst")).toMatchObject({ subtotalCents: 1000, taxCents: 100, ratePercent: 10 });
+    const odd = splitTaxInclusive(999, "gst");
+    expect(odd.taxCents).toBe(91);
+    expect(odd.subtotalCents + odd.taxCents).toBe(999);
+  });
+
+  it("has no GST on exports", () => {
+    expect(splitTaxInclusive(1100, "gst_free_export")).toMatchObject({ subtotalCents: 1100, taxCents: 0, ratePercent: 0 });
+  });
+
+  it("shows prices without GST when asked", () => {
+    expect(displayPriceCents(1100, { showPricesExTax: true, treatment: "gst" })).toBe(1000);
+    expect(displayPriceCents(1100, { showPricesExTax: false, treatment: "gst" })).toBe(1100);
+  });
+});
+
+describe("ABN", () => {
+  it("checks the ABN check digits", () => {
+    expect(isValidAbn("51 824 753 556")).toBe(true);
+    expect(isValidAbn("51824753557")).toBe(false);
+    expect(isValidAbn("5182475355")).toBe(false);
+  });
+
+  it("formats ABNs in the usual groups", () => {
+    expect(formatAbn("51824753556")).toBe("51 824 753 556");
+  });
+});
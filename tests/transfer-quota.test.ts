@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeOveragePolicy,
+  evaluateTransferQuota,
+  transferOverageGb,
+  transferPeriodKey,
+} from "../server/transfer-quota";
+
+const GB = 1024 ** 3;
+
+const usage = (usedGb: number, overrides: Partial<Parameters<typeof evaluateTransferQuota>[0]> = {}) => ({
+  usedBytes: usedGb * GB,
+  limitGb: 1000,
+  warned80At: null,
+  warned100At: null,
+  overageBilledGb: 0,
+  enforcement: null,
+  ...overrides,
+});
+
+describe("transferPeriodKey", () => {
+  it("uses the VirtFusion period start when it is valid", () => {
+    expect(transferPeriodKey("2026-10-05T00:00:00Z", new Date("2026-10-19T00:00:00Z"))).toBe("2026-10-05");
+  });
+
+  it("falls back to the calendar month", () => {
+    expect(transferPeriodKey(null, new Date("2026-10-19T12:00:00Z"))).toBe("2026-10-01");
+    expect(transferPeriodKey("garbage", new Date("2026-10-19T12:00:00Z"))).toBe("2026-10-01");
+  });
+});
+
+describe("transferOverageGb", () => {
+  it("rounds a partial GB up and ignores unlimited plans", () => {
+    expect(transferOverageGb(999 * GB, 1000)).toBe(0);
+    expect(transferOverageGb(1000.2 * GB, 1000)).toBe(1);
+    expect(transferOverageGb(1003 * GB, 1000)).toBe(3);
+    expect(transferOverageGb(90000 * GB, 50000)).toBe(0);
+  });
+});
+
+describe("evaluateTransferQuota", () => {
+  it("warns once at 80% and once at 100%", () => {
+    expect(evaluateTransferQuota(usage(700), "throttle", { chargeable: true }).warn).toBeNull();
+    expect(evaluateTransferQuota(usage(850), "throttle", { chargeable: true }).warn).toBe(80);
+    expect(evaluateTransferQuota(usage(850, { warned80At: new Date() }), "throttle", { chargeable: true }).warn).toBeNull();
+    expect(evaluateTransferQuota(usage(1001, { warned80At: new Date() }), "throttle", { chargeable: true }).warn).toBe(100);
+  });
+
+  it("skips the 80% warning when usage jumps past 100%", () => {
+    const decision = evaluateTransferQuota(usage(1200), "throttle", { chargeable: true });
+    expect(decision.warn).toBe(100);
+    expect(decision.enforce).toBe("throttle");
+  });
+
+  it("bills only the GB not already charged", () => {
+    expect(evaluateTransferQuota(usage(1005), "bill", { chargeable: true }).billGb).toBe(5);
+    expect(evaluateTransferQuota(usage(1005, { overageBilledGb: 3 }), "bill", { chargeable: true }).billGb).toBe(2);
+    expect(evaluateTransferQuota(usage(1005, { overageBilledGb: 5 }), "bill", { chargeable: true }).billGb).toBe(0);
+  });
+
+  it("throttles servers that are never charged instead of billing them", () => {
+    expect(evaluateTransferQuota(usage(1005), "bill", { chargeable: false })).toMatchObject({ billGb: 0, enforce: "throttle" });
+  });
+
+  it("suspends under the suspend policy and does not enforce twice", () => {
+    expect(evaluateTransferQuota(usage(1001), "suspend", { chargeable: true }).enforce).toBe("suspend");
+    expect(evaluateTransferQuota(usage(1001, { enforcement: "suspended" }), "suspend", { chargeable: true }).enforce).toBeNull();
+  });
+
+  it("does nothing for unlimited plans", () => {
+    expect(evaluateTransferQuota(usage(90000, { limitGb: 50000 }), "suspend", { chargeable: true })).toEqual({
+      percent: 0,
+      warn: null,
+      billGb: 0,
+      enforce: null,
+    });
+  });
+});
+
+describe("describeOveragePolicy", () => {
+  it("describes each policy for customers", () => {
+    expect(describeOveragePolicy({ policy: "bill", pricePerGbCents: 50, throttleMbps: 10 }))
+      .toBe("Additional transfer is charged to your wallet at $0.50 per GB.");
+    expect(describeOveragePolicy({ policy: "throttle", pricePerGbCents: 50, throttleMbps: 10 }))
+      .toContain("10 Mbps");
+  });
+});
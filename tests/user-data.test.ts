@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { MAX_USER_DATA_BYTES, normalizeUserData } from "../server/user-data";
+
+describe("user-data normalisation", () => {
+  it("treats missing or blank scripts as no user-data", () => {
+    expect(normalizeUserData(undefined)).toEqual({ ok: true, value: null });
+    expect(normalizeUserData("  \n\t")).toEqual({ ok: true, value: null });
+  });
+
+  it("converts Windows line endings and strips a leading BOM", () => {
+    const result = normalizeUserData("\uFEFF#!/bin/bash\r\napt-get update\r\n");
+
+    expect(result).toEqual({ ok: true, value: "#!/bin/bash\napt-get update\n" });
+  });
+
+  it("accepts cloud-config documents", () => {
+    const script = "#cloud-config\npackages:\n  - docker.io\n";
+
+    expect(normalizeUserData(script)).toEqual({ ok: true, value: script });
+  });
+
+  it("rejects scripts without a recognised header", () => {
+    const result = normalizeUserData("apt-get install -y docker.io");
+
+    expect(result.ok).toBe(false);
+  });
+
+  it("rejects scripts over the size limit", () => {
+    const result = normalizeUserData(`#!/bin/sh\n${"x".repeat(MAX_USER_DATA_BYTES)}`);
+
+    expect(result).toEqual({ ok: false, error: "User-data script must be 64 KB or less." });
+  });
+});